@@ -0,0 +1,28 @@
+import dotenv from 'dotenv';
+import { brandColors } from '../utils/emailTemplates';
+
+dotenv.config();
+
+/**
+ * Branding Configuration
+ * What clients see when their vendor hasn't set up their own branding, and
+ * the limits on what vendors can upload
+ */
+export const defaultBranding = {
+  name: 'Fire Guardian',
+  productName: 'Fire Guardian Control Center',
+  tagline: 'Fire Safety Equipment Management System',
+  primaryColor: brandColors.fireRed,
+  secondaryColor: brandColors.fireRedHover,
+  senderName: process.env.EMAIL_FROM_NAME || 'Fire Guardian',
+};
+
+export const brandingConfig = {
+  // Logos are embedded in PDFs, which only take PNG and JPEG
+  logoTypes: ['image/png', 'image/jpeg'],
+  maxLogoSizeBytes: 1024 * 1024,
+  // Logos are linked from emails, so they need the API's external address
+  publicApiUrl: (process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/$/, ''),
+};
+
+export const BRAND_COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
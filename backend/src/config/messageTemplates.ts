@@ -0,0 +1,317 @@
+import { SmsMessageType } from './sms';
+import { EmailTemplateType } from '../utils/emailTemplates';
+
+/**
+ * Message Template Schemas
+ * The variables each email and SMS template type is rendered with. Edited
+ * templates may only use these, and must use the ones marked required.
+ * The sample data drives template previews.
+ */
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  // Saving a template without this variable is rejected
+  required?: boolean;
+  // Set for lists; these are the fields available inside {{#each}}
+  fields?: TemplateVariable[];
+}
+
+export interface TemplateSchema {
+  label: string;
+  description: string;
+  variables: TemplateVariable[];
+  sampleData: Record<string, any>;
+}
+
+const sampleDashboardUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toLocaleDateString();
+
+const dashboardUrl: TemplateVariable = { name: 'dashboardUrl', description: 'Link to the ticket or dashboard' };
+const clientName: TemplateVariable = { name: 'clientName', description: 'Recipient company name' };
+const ticketId: TemplateVariable = { name: 'ticketId', description: 'Ticket ID' };
+const equipmentName: TemplateVariable = { name: 'equipmentName', description: 'Equipment name' };
+// Filled in from the vendor's branding when the email is sent
+const brandName: TemplateVariable = { name: 'brandName', description: 'Vendor brand name (Fire Guardian by default)' };
+
+export const EmailTemplateSchemas: Record<EmailTemplateType, TemplateSchema> = {
+  maintenanceTicketCreated: {
+    label: 'Ticket created',
+    description: 'Sent to the client and vendor when a service request is opened',
+    variables: [
+      clientName,
+      ticketId,
+      equipmentName,
+      { name: 'serialNumber', description: 'Equipment serial number' },
+      { name: 'scheduledDate', description: 'Scheduled service date' },
+      { name: 'priority', description: 'Ticket priority' },
+      { name: 'status', description: 'Ticket status' },
+      { name: 'description', description: 'Issue description (may be empty)' },
+      dashboardUrl,
+      brandName,
+    ],
+    sampleData: {
+      clientName: 'Sample Client Corp',
+      ticketId: 12345,
+      equipmentName: 'Fire Extinguisher ABC-123',
+      serialNumber: 'FE-2024-001',
+      scheduledDate: new Date().toLocaleDateString(),
+      priority: 'High',
+      status: 'Open',
+      description: 'Routine maintenance inspection required',
+      dashboardUrl: sampleDashboardUrl,
+    },
+  },
+  maintenanceTicketUpdated: {
+    label: 'Ticket updated',
+    description: 'Sent when a ticket changes status or gets technician notes',
+    variables: [
+      clientName,
+      ticketId,
+      equipmentName,
+      { name: 'status', description: 'New ticket status' },
+      { name: 'completedDate', description: 'Completion date (may be empty)' },
+      { name: 'technicianName', description: 'Assigned technician (may be empty)' },
+      { name: 'technicianNotes', description: 'Technician notes (may be empty)' },
+      { name: 'updateReason', description: 'Why the ticket changed (may be empty)' },
+      dashboardUrl,
+      brandName,
+    ],
+    sampleData: {
+      clientName: 'Sample Client Corp',
+      ticketId: 12345,
+      equipmentName: 'Fire Extinguisher ABC-123',
+      status: 'In Progress',
+      technicianName: 'John Technician',
+      technicianNotes: 'Equipment inspected. All systems functioning properly.',
+      updateReason: 'Status updated after inspection',
+      dashboardUrl: sampleDashboardUrl,
+    },
+  },
+  maintenanceCompleted: {
+    label: 'Maintenance completed',
+    description: 'Sent when a ticket is resolved',
+    variables: [
+      clientName,
+      ticketId,
+      equipmentName,
+      { name: 'completedDate', description: 'Completion date' },
+      { name: 'technicianName', description: 'Technician who did the work' },
+      { name: 'technicianNotes', description: 'Resolution notes (may be empty)' },
+      { name: 'complianceStatus', description: 'Compliance status after the work' },
+      { name: 'nextMaintenanceDate', description: 'Next maintenance date' },
+      dashboardUrl,
+      brandName,
+    ],
+    sampleData: {
+      clientName: 'Sample Client Corp',
+      ticketId: 12345,
+      equipmentName: 'Fire Extinguisher ABC-123',
+      completedDate: new Date().toLocaleDateString(),
+      technicianName: 'John Technician',
+      technicianNotes: 'Equipment serviced successfully. All tests passed.',
+      complianceStatus: 'Fully Compliant',
+      nextMaintenanceDate: inDays(365),
+      dashboardUrl: sampleDashboardUrl,
+    },
+  },
+  complianceDigest: {
+    label: 'Compliance digest',
+    description: 'Scheduled summary of due maintenance, expiries and tickets for each client and vendor',
+    variables: [
+      { name: 'recipientName', description: 'Client or vendor company name' },
+      { name: 'periodLabel', description: '"Daily" or "Weekly"' },
+      { name: 'period', description: '"daily" or "weekly"' },
+      { name: 'date', description: 'Date the digest was built' },
+      {
+        name: 'sections',
+        description: 'Digest sections',
+        required: true,
+        fields: [
+          { name: 'title', description: 'Section title' },
+          { name: 'total', description: 'Number of rows in the section' },
+          { name: 'warning', description: 'Whether the section needs attention' },
+          { name: 'more', description: 'Rows left out of the email' },
+          {
+            name: 'items',
+            description: 'First rows of the section',
+            fields: [
+              { name: 'label', description: 'Serial or ticket number' },
+              { name: 'value', description: 'Row details' },
+            ],
+          },
+        ],
+      },
+      { name: 'attachmentName', description: 'Attached file name (may be empty)' },
+      dashboardUrl,
+      brandName,
+    ],
+    sampleData: {
+      recipientName: 'Sample Client Corp',
+      periodLabel: 'Daily',
+      period: 'daily',
+      date: new Date().toLocaleDateString(),
+      sections: [
+        {
+          title: 'Maintenance Due',
+          total: 12,
+          warning: true,
+          more: 10,
+          items: [
+            { label: 'FE-2024-001', value: 'Fire Extinguisher ABC-123 (Sample Client Corp) - In 7 days, 2026-10-26' },
+            { label: 'FE-2024-014', value: 'Fire Extinguisher ABC-123 (Sample Client Corp) - Overdue since 2 days ago, 2026-10-17' },
+          ],
+        },
+        {
+          title: 'Open Service Requests',
+          total: 1,
+          more: 0,
+          items: [
+            { label: 'MT-2026-0042', value: 'Smoke Detector SD-9 (Sample Client Corp) - in progress, 15/10/2026' },
+          ],
+        },
+      ],
+      dashboardUrl: sampleDashboardUrl,
+      attachmentName: 'compliance-digest.csv',
+    },
+  },
+  temporaryPassword: {
+    label: 'New account credentials',
+    description: 'Sent to new clients, vendors and technicians with their first password',
+    variables: [
+      { name: 'userName', description: 'Name of the new user' },
+      { name: 'email', description: 'Login email address', required: true },
+      { name: 'temporaryPassword', description: 'Temporary password', required: true },
+      { name: 'accountType', description: 'e.g. "Vendor Account"' },
+      { name: 'loginUrl', description: 'Sign-in page link' },
+      brandName,
+    ],
+    sampleData: {
+      userName: 'Sample Client Corp',
+      email: 'client@example.com',
+      temporaryPassword: 'Xk7#pQ2m',
+      accountType: 'Client Account',
+      loginUrl: sampleDashboardUrl,
+    },
+  },
+  passwordReset: {
+    label: 'Password reset',
+    description: 'Sent when a user asks to reset their password',
+    variables: [
+      { name: 'userName', description: 'Name of the user' },
+      { name: 'resetUrl', description: 'Password reset link', required: true },
+      { name: 'expiresInMinutes', description: 'How long the link works' },
+      brandName,
+    ],
+    sampleData: {
+      userName: 'Sample Client Corp',
+      resetUrl: `${sampleDashboardUrl}/reset-password?token=sample`,
+      expiresInMinutes: 60,
+    },
+  },
+  notificationDigest: {
+    label: 'Notification digest',
+    description: 'Daily summary for users who chose digest emails',
+    variables: [
+      { name: 'userName', description: 'Name of the user' },
+      { name: 'itemCount', description: 'Number of notifications' },
+      { name: 'itemLabel', description: '"notification" or "notifications"' },
+      {
+        name: 'items',
+        description: 'Notifications held for the digest',
+        required: true,
+        fields: [
+          { name: 'time', description: 'When it happened' },
+          { name: 'subject', description: 'Email subject' },
+          { name: 'actionUrl', description: 'Link (may be empty)' },
+        ],
+      },
+      { name: 'preferencesUrl', description: 'Notification settings link' },
+      brandName,
+    ],
+    sampleData: {
+      userName: 'Sample Client Corp',
+      itemCount: 2,
+      itemLabel: 'notifications',
+      items: [
+        { time: '09:00', subject: 'Maintenance Ticket Created - #12344', actionUrl: sampleDashboardUrl },
+        { time: '14:30', subject: 'Maintenance Ticket Updated - #12345', actionUrl: sampleDashboardUrl },
+      ],
+      preferencesUrl: `${sampleDashboardUrl}/profile?tab=notifications`,
+    },
+  },
+};
+
+export const SmsTemplateSchemas: Record<SmsMessageType, TemplateSchema> = {
+  [SmsMessageType.HIGH_PRIORITY_TICKET]: {
+    label: 'High-priority ticket',
+    description: 'Sent when a high-priority service request is opened',
+    variables: [
+      { name: 'ticketNumber', description: 'Ticket number', required: true },
+      equipmentName,
+    ],
+    sampleData: { ticketNumber: 'MT-2026-0042', equipmentName: 'Fire Extinguisher ABC-123' },
+  },
+  [SmsMessageType.COMPLIANCE_EXPIRING_7_DAYS]: {
+    label: 'Compliance expiring soon',
+    description: 'Sent when a compliance certificate is about to expire',
+    variables: [
+      equipmentName,
+      { name: 'expiryDate', description: 'Expiry date', required: true },
+    ],
+    sampleData: { equipmentName: 'Fire Extinguisher ABC-123', expiryDate: inDays(7) },
+  },
+  [SmsMessageType.COMPLIANCE_EXPIRING_TODAY]: {
+    label: 'Compliance expiring today',
+    description: 'Sent on the day a compliance certificate expires',
+    variables: [equipmentName],
+    sampleData: { equipmentName: 'Fire Extinguisher ABC-123' },
+  },
+  [SmsMessageType.MAINTENANCE_DUE_3_DAYS]: {
+    label: 'Maintenance due soon',
+    description: 'Sent a few days before maintenance is due',
+    variables: [
+      equipmentName,
+      { name: 'dueDate', description: 'Maintenance due date', required: true },
+    ],
+    sampleData: { equipmentName: 'Fire Extinguisher ABC-123', dueDate: inDays(3) },
+  },
+  [SmsMessageType.MAINTENANCE_OVERDUE]: {
+    label: 'Maintenance overdue',
+    description: 'Sent while maintenance is past due',
+    variables: [
+      equipmentName,
+      { name: 'daysPastDue', description: 'Days past the due date', required: true },
+    ],
+    sampleData: { equipmentName: 'Fire Extinguisher ABC-123', daysPastDue: 5 },
+  },
+  [SmsMessageType.TICKET_STATUS_UPDATE]: {
+    label: 'Ticket status update',
+    description: 'Sent when a ticket changes status',
+    variables: [
+      { name: 'ticketNumber', description: 'Ticket number', required: true },
+      { name: 'status', description: 'New status', required: true },
+    ],
+    sampleData: { ticketNumber: 'MT-2026-0042', status: 'in_progress' },
+  },
+  [SmsMessageType.EQUIPMENT_ASSIGNED]: {
+    label: 'Equipment assigned',
+    description: 'Sent when equipment is assigned to a client',
+    variables: [
+      { name: 'count', description: 'Number of units', required: true },
+      equipmentName,
+    ],
+    sampleData: { count: 4, equipmentName: 'Fire Extinguisher ABC-123' },
+  },
+  [SmsMessageType.SLA_BREACH]: {
+    label: 'SLA breach',
+    description: 'Sent to the vendor when a ticket misses a service contract target',
+    variables: [
+      { name: 'ticketNumber', description: 'Ticket number', required: true },
+      { name: 'priority', description: 'Ticket priority', required: true },
+      { name: 'target', description: 'Target missed (response or resolution)', required: true },
+      { name: 'dueAt', description: 'When the target fell due', required: true },
+    ],
+    sampleData: { ticketNumber: 'MT-2026-0042', priority: 'high', target: 'response', dueAt: 'Oct 19, 2:00 PM' },
+  },
+};
@@ -1,19 +1,41 @@
+import path from 'path';
+
 /**
- * Dialog eSMS Configuration
- * Sri Lanka's Dialog Axiata SMS Gateway
- * 
- * Uses token-based authentication:
- * 1. Get token via POST to /api/v1/login with username/password
- * 2. Use token in Bearer header for SMS API calls
- * 3. Refresh token when expired (12 hour expiration)
+ * SMS Configuration
+ * Messages go out through one of several providers, picked by the
+ * sms_provider system setting (falling back to SMS_PROVIDER):
+ *
+ * - dialog: Sri Lanka's Dialog Axiata eSMS gateway. Uses token-based
+ *   authentication: get a token via POST to /api/v1/login with
+ *   username/password, send it as a Bearer header, and log in again when it
+ *   expires (12 hours)
+ * - http: any Twilio-style HTTP API taking form-encoded To/From/Body with
+ *   basic auth, one request per recipient
+ * - mock: writes messages to the console and a local outbox file instead of
+ *   sending them, for development and testing
  */
 
+export const SmsProviderNames = ['dialog', 'http', 'mock'] as const;
+export type SmsProviderName = typeof SmsProviderNames[number];
+
 export const smsConfig = {
   username: process.env.DIALOG_SMS_USERNAME || '',
   password: process.env.DIALOG_SMS_PASSWORD || '',
   sourceAddress: process.env.DIALOG_SMS_SOURCE_ADDRESS || 'Pegasus', // Default sender mask
-  enabled: process.env.DIALOG_SMS_ENABLED === 'true',
+  enabled: (process.env.SMS_ENABLED ?? process.env.DIALOG_SMS_ENABLED) === 'true',
   timeout: 10000, // 10 seconds for API calls
+  provider: (process.env.SMS_PROVIDER || 'dialog') as SmsProviderName,
+  // Country code assumed for numbers entered without one (94 = Sri Lanka)
+  defaultCountryCode: process.env.SMS_DEFAULT_COUNTRY_CODE || '94',
+  http: {
+    url: process.env.SMS_HTTP_URL || '',
+    username: process.env.SMS_HTTP_USERNAME || '',
+    password: process.env.SMS_HTTP_PASSWORD || '',
+    from: process.env.SMS_HTTP_FROM || '',
+  },
+  mock: {
+    outboxPath: process.env.SMS_MOCK_OUTBOX_PATH || path.join(process.cwd(), 'logs', 'sms-outbox.log'),
+  },
 };
 
 // SMS Message Types
@@ -25,6 +47,7 @@ export enum SmsMessageType {
   MAINTENANCE_OVERDUE = 'MAINTENANCE_OVERDUE',
   TICKET_STATUS_UPDATE = 'TICKET_STATUS_UPDATE',
   EQUIPMENT_ASSIGNED = 'EQUIPMENT_ASSIGNED',
+  SLA_BREACH = 'SLA_BREACH',
 }
 
 // SMS Status Codes from Dialog eSMS
@@ -43,26 +66,30 @@ export const SmsStatusCodes: Record<string, string> = {
   '2011': 'Transactional error',
 };
 
-// Message templates (keep under 160 chars for single SMS)
-export const SmsTemplates = {
-  [SmsMessageType.HIGH_PRIORITY_TICKET]: (ticketId: string, equipment: string) =>
-    `URGENT: Service ticket #${ticketId} created for ${equipment}. Priority: HIGH. Check FireGuardian for details.`,
-  
-  [SmsMessageType.COMPLIANCE_EXPIRING_7_DAYS]: (equipment: string, expiryDate: string) =>
-    `ALERT: Compliance certificate for ${equipment} expires on ${expiryDate}. Take action immediately.`,
-  
-  [SmsMessageType.COMPLIANCE_EXPIRING_TODAY]: (equipment: string) =>
-    `CRITICAL: Compliance certificate for ${equipment} expires TODAY! Urgent action required.`,
-  
-  [SmsMessageType.MAINTENANCE_DUE_3_DAYS]: (equipment: string, dueDate: string) =>
-    `REMINDER: Maintenance for ${equipment} due on ${dueDate}. Schedule service soon.`,
-  
-  [SmsMessageType.MAINTENANCE_OVERDUE]: (equipment: string, daysPastDue: number) =>
-    `OVERDUE: Maintenance for ${equipment} is ${daysPastDue} days past due. Immediate attention required.`,
-  
-  [SmsMessageType.TICKET_STATUS_UPDATE]: (ticketId: string, status: string) =>
-    `Ticket #${ticketId} status updated to: ${status}. View details in FireGuardian.`,
-  
-  [SmsMessageType.EQUIPMENT_ASSIGNED]: (equipment: string, count: number) =>
-    `${count} ${equipment} unit(s) assigned to your account. Check FireGuardian dashboard.`,
+// Built-in message templates (Handlebars, keep under 160 chars for single
+// SMS). Admins can override these from Settings > Templates.
+export const SmsTemplates: Record<SmsMessageType, string> = {
+  [SmsMessageType.HIGH_PRIORITY_TICKET]:
+    'URGENT: Service ticket #{{ticketNumber}} created for {{equipmentName}}. Priority: HIGH. Check FireGuardian for details.',
+
+  [SmsMessageType.COMPLIANCE_EXPIRING_7_DAYS]:
+    'ALERT: Compliance certificate for {{equipmentName}} expires on {{expiryDate}}. Take action immediately.',
+
+  [SmsMessageType.COMPLIANCE_EXPIRING_TODAY]:
+    'CRITICAL: Compliance certificate for {{equipmentName}} expires TODAY! Urgent action required.',
+
+  [SmsMessageType.MAINTENANCE_DUE_3_DAYS]:
+    'REMINDER: Maintenance for {{equipmentName}} due on {{dueDate}}. Schedule service soon.',
+
+  [SmsMessageType.MAINTENANCE_OVERDUE]:
+    'OVERDUE: Maintenance for {{equipmentName}} is {{daysPastDue}} days past due. Immediate attention required.',
+
+  [SmsMessageType.TICKET_STATUS_UPDATE]:
+    'Ticket #{{ticketNumber}} status updated to: {{status}}. View details in FireGuardian.',
+
+  [SmsMessageType.EQUIPMENT_ASSIGNED]:
+    '{{count}} {{equipmentName}} unit(s) assigned to your account. Check FireGuardian dashboard.',
+
+  [SmsMessageType.SLA_BREACH]:
+    'SLA BREACH: Ticket #{{ticketNumber}} ({{priority}} priority) missed its {{target}} target of {{dueAt}}. Check FireGuardian.',
 };
@@ -0,0 +1,29 @@
+import path from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Attachment Storage Configuration
+ * Only the local disk driver exists today; the driver setting is the switch
+ * for adding object storage later without touching callers.
+ */
+export const storageConfig = {
+  driver: process.env.ATTACHMENT_STORAGE_DRIVER || 'local',
+  localPath: process.env.ATTACHMENT_STORAGE_PATH || path.join(process.cwd(), 'uploads', 'attachments'),
+  maxFileSizeBytes: parseInt(process.env.ATTACHMENT_MAX_FILE_SIZE_MB || '5') * 1024 * 1024,
+  maxFilesPerServiceRequest: 3,
+  // Upload routes accept base64 JSON, so they need more room than the global body limit
+  requestBodyLimit: '25mb',
+};
+
+// Allowed upload types and the extension used when storing them
+export const AllowedAttachmentTypes: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+};
+
+export const AttachmentCategories = ['before', 'after', 'certificate', 'other'] as const;
+export type AttachmentCategory = typeof AttachmentCategories[number];
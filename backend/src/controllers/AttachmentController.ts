@@ -0,0 +1,193 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import { AttachmentRepository, Attachment, AttachmentEntityType, AttachmentOwner } from '../models/AttachmentRepository';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { ClientViewsRepository } from '../models/ClientViewsRepository';
+import { TechnicianRepository } from '../models/TechnicianRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { validateUpload, storeAttachment, readAttachment, contentDisposition } from '../services/attachmentService';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+/**
+ * Attachment Controller
+ * Uploads, lists and downloads photos and documents on tickets and equipment
+ * instances, scoped to the tenant that owns the record
+ */
+export class AttachmentController extends BaseController {
+
+  /**
+   * Check whether the user can see attachments on a record.
+   * Clients can't write to equipment instances; everyone else with read
+   * access may also upload.
+   */
+  private async canAccess(
+    req: AuthenticatedRequest,
+    entityType: AttachmentEntityType,
+    owner: AttachmentOwner,
+    forWrite: boolean = false
+  ): Promise<boolean> {
+    const user = req.user!;
+
+    switch (user.user_type) {
+      case 'admin':
+        return true;
+      case 'vendor': {
+        const vendorId = await DashboardRepository.getVendorIdFromUserId(user.userId);
+        return !!vendorId && vendorId === owner.vendor_id;
+      }
+      case 'client': {
+        if (forWrite && entityType !== 'maintenance_ticket') return false;
+        const clientId = await ClientViewsRepository.getClientIdFromUserId(user.userId);
+        return !!clientId && clientId === owner.client_id;
+      }
+      case 'technician': {
+        const technician = await TechnicianRepository.getTechnicianByUserId(user.userId);
+        if (!technician || technician.status !== 'active') return false;
+        return entityType === 'maintenance_ticket'
+          ? owner.assigned_technician === user.userId
+          : technician.vendor_id === owner.vendor_id;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Leave the storage location out of API responses
+   */
+  private toResponse(attachment: Attachment) {
+    const { storage_key, ...rest } = attachment;
+    return rest;
+  }
+
+  /**
+   * List attachments on a record the user can access
+   */
+  private async listFor(req: AuthenticatedRequest, res: Response, entityType: AttachmentEntityType) {
+    if (!this.handleValidation(req, res)) return;
+
+    const entityId = parseInt(req.params.id);
+    const owner = await AttachmentRepository.getOwner(entityType, entityId);
+    if (!owner || !(await this.canAccess(req, entityType, owner))) {
+      return ApiResponseUtil.notFound(res, 'Record not found');
+    }
+
+    const attachments = await AttachmentRepository.getAttachmentsForEntity(entityType, entityId);
+    return ApiResponseUtil.success(res, attachments, 'Attachments retrieved successfully');
+  }
+
+  /**
+   * Validate, store and audit an upload against a record
+   */
+  private async uploadFor(req: AuthenticatedRequest, res: Response, entityType: AttachmentEntityType) {
+    if (!this.handleValidation(req, res)) return;
+
+    const entityId = parseInt(req.params.id);
+    const owner = await AttachmentRepository.getOwner(entityType, entityId);
+    if (!owner || !(await this.canAccess(req, entityType, owner))) {
+      return ApiResponseUtil.notFound(res, 'Record not found');
+    }
+    if (!(await this.canAccess(req, entityType, owner, true))) {
+      return ApiResponseUtil.forbidden(res, 'You cannot add attachments to this record');
+    }
+
+    const upload = validateUpload(req.body);
+    const attachment = await storeAttachment(entityType, entityId, upload, req.user!.userId);
+
+    await AuditRepository.createLog(
+      'attachment',
+      { attachment_id: attachment.id },
+      'INSERT',
+      { action: 'attachment_uploaded', entity_type: entityType, entity_id: entityId, file_size: attachment.file_size },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    return ApiResponseUtil.created(res, this.toResponse(attachment), 'Attachment uploaded successfully');
+  }
+
+  /**
+   * GET /api/attachments/tickets/:id
+   */
+  getTicketAttachments = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    return this.listFor(req, res, 'maintenance_ticket');
+  });
+
+  /**
+   * POST /api/attachments/tickets/:id
+   */
+  uploadTicketAttachment = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    return this.uploadFor(req, res, 'maintenance_ticket');
+  });
+
+  /**
+   * GET /api/attachments/equipment-instances/:id
+   */
+  getInstanceAttachments = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    return this.listFor(req, res, 'equipment_instance');
+  });
+
+  /**
+   * POST /api/attachments/equipment-instances/:id
+   */
+  uploadInstanceAttachment = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    return this.uploadFor(req, res, 'equipment_instance');
+  });
+
+  /**
+   * Download an attachment
+   * GET /api/attachments/:id/download
+   */
+  downloadAttachment = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const attachment = await AttachmentRepository.getAttachmentById(parseInt(req.params.id));
+    const owner = attachment && await AttachmentRepository.getOwner(attachment.entity_type, attachment.entity_id);
+    if (!attachment || !owner || !(await this.canAccess(req, attachment.entity_type, owner))) {
+      return ApiResponseUtil.notFound(res, 'Attachment not found');
+    }
+
+    const contents = await readAttachment(attachment);
+    const disposition = req.query.inline === 'true' ? 'inline' : 'attachment';
+
+    res.setHeader('Content-Type', attachment.mime_type);
+    res.setHeader('Content-Length', contents.length);
+    res.setHeader('Content-Disposition', contentDisposition(disposition, attachment.original_name));
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(contents);
+  });
+
+  /**
+   * Delete an attachment. Allowed for the uploader, the owning vendor and admins.
+   * DELETE /api/attachments/:id
+   */
+  deleteAttachment = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const attachmentId = parseInt(req.params.id);
+    const attachment = await AttachmentRepository.getAttachmentById(attachmentId);
+    const owner = attachment && await AttachmentRepository.getOwner(attachment.entity_type, attachment.entity_id);
+    if (!attachment || !owner || !(await this.canAccess(req, attachment.entity_type, owner))) {
+      return ApiResponseUtil.notFound(res, 'Attachment not found');
+    }
+
+    const userType = req.user!.user_type;
+    if (attachment.uploaded_by !== req.user!.userId && userType !== 'vendor' && userType !== 'admin') {
+      return ApiResponseUtil.forbidden(res, 'Only the uploader or the vendor can delete this attachment');
+    }
+
+    await AttachmentRepository.deleteAttachment(attachmentId);
+
+    await AuditRepository.createLog(
+      'attachment',
+      { attachment_id: attachmentId },
+      'DELETE',
+      { action: 'attachment_deleted', entity_type: attachment.entity_type, entity_id: attachment.entity_id },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    return ApiResponseUtil.success(res, null, 'Attachment deleted successfully');
+  });
+}
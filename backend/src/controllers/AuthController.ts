@@ -3,12 +3,25 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { BaseController } from './BaseController';
 import { UserRepository } from '../models/UserRepository';
+import { TechnicianRepository } from '../models/TechnicianRepository';
 import { AuditRepository } from '../models/AuditRepository';
 import { SystemSettingsRepository } from '../models/SystemSettingsRepository';
 import { ApiResponseUtil } from '../utils/ApiResponse';
 import { AuthenticatedRequest } from '../types/api';
-import { LoginRequest, CreateUserRequest } from '../types';
+import { LoginRequest, CreateUserRequest, User } from '../types';
 import { pool } from '../config/database';
+import { ProfileRepository } from '../models/ProfileRepository';
+import { PasswordResetRepository } from '../models/PasswordResetRepository';
+import { requestPasswordReset, completePasswordReset, hashResetToken } from '../services/passwordResetService';
+import { TwoFactorRepository } from '../models/TwoFactorRepository';
+import { startSession, endSession, revokeAllSessions } from '../services/sessionService';
+import {
+  supportsTwoFactor,
+  isTwoFactorRequired,
+  issueLoginChallenge,
+  verifyLoginChallenge,
+  verifySecondFactor
+} from '../services/twoFactorService';
 
 /**
  * Authentication Controller
@@ -18,15 +31,14 @@ export class AuthController extends BaseController {
 
   /**
    * POST /api/auth/login
-   * User login endpoint
+   * User login endpoint. Accounts with two-factor enabled get a challenge
+   * token instead, to exchange at /login/two-factor with their code.
    */
   login = this.asyncHandler(async (req: Request, res: Response) => {
     // Validate request
     if (!this.handleValidation(req, res)) return;
 
     const { email, password }: LoginRequest = req.body;
-    const clientIP = this.getClientIP(req);
-    const userAgent = req.headers['user-agent'];
 
     try {
       // Find user by email
@@ -49,24 +61,7 @@ export class AuthController extends BaseController {
       // Verify password
       const isPasswordValid = await bcrypt.compare(password, user.password);
       if (!isPasswordValid) {
-        // Increment failed attempts
-        await UserRepository.incrementFailedAttempts(user.id);
-        
-        // Get dynamic settings for failed attempts and lock duration
-        const maxFailedAttempts = await SystemSettingsRepository.getTypedValue<number>(
-          'max_failed_login_attempts',
-          5
-        );
-        const lockDurationMinutes = await SystemSettingsRepository.getTypedValue<number>(
-          'account_lock_duration_minutes',
-          30
-        );
-        
-        // Lock account after max failed attempts (subtract 1 because we already incremented)
-        if (user.failed_login_attempts >= (maxFailedAttempts - 1)) {
-          await UserRepository.lockAccount(user.id, lockDurationMinutes);
-        }
-
+        await this.recordFailedLogin(user);
         return ApiResponseUtil.unauthorized(res, 'Invalid credentials');
       }
 
@@ -76,68 +71,199 @@ export class AuthController extends BaseController {
         this.logAction('LOGIN_FAILED', user.id, { reason: 'JWT_SECRET not configured' });
         return ApiResponseUtil.internalError(res, 'Server configuration error');
       }
-      
-      // Get session timeout from settings
-      const sessionTimeoutMinutes = await SystemSettingsRepository.getTypedValue<number>(
-        'session_timeout_minutes',
-        30
-      );
-      
-      // Get vendor_id if user is a vendor
-      let vendorId = null;
-      if (user.user_type === 'vendor') {
-        try {
-          const vendorQuery = 'SELECT id FROM vendors WHERE user_id = $1';
-          const vendorResult = await pool.query(vendorQuery, [user.id]);
-          if (vendorResult.rows.length > 0) {
-            vendorId = vendorResult.rows[0].id;
-          }
-        } catch (error) {
-          console.error('Error fetching vendor_id:', error);
-          // Continue without vendor_id - will be handled by authorization middleware
-        }
+
+      const twoFactor = await TwoFactorRepository.getStatus(user.id);
+      if (twoFactor.enabled && supportsTwoFactor(user.user_type)) {
+        this.logAction('LOGIN_TWO_FACTOR_CHALLENGE', user.id, { clientIP: this.getClientIP(req) });
+        return ApiResponseUtil.success(res, {
+          twoFactorRequired: true,
+          challengeToken: issueLoginChallenge(user.id, jwtSecret)
+        }, 'Enter the code from your authenticator app');
       }
-      
-      const token = jwt.sign(
-        { 
-          userId: user.id, 
-          email: user.email, 
-          user_type: user.user_type,
-          role_id: user.role_id,
-          vendorId: vendorId
-        },
-        jwtSecret,
-        { expiresIn: `${sessionTimeoutMinutes}m` }
-      );
 
-      // Update last login information
-      await UserRepository.updateLastLogin(user.id, clientIP);
+      await this.completeLogin(req, res, user, jwtSecret, false);
 
-      // Log the login
-      await AuditRepository.logLogin(user.id, clientIP, userAgent);
+    } catch (error) {
+      this.logAction('LOGIN_ERROR', undefined, { error: error instanceof Error ? error.message : 'Unknown error', email });
+      console.error('Error during login:', error);
+      return ApiResponseUtil.internalError(res);
+    }
+  });
 
-      this.logAction('LOGIN_SUCCESS', user.id, { clientIP });
+  /**
+   * POST /api/auth/login/two-factor
+   * Second login step: exchange a challenge token and an authenticator or
+   * recovery code for a session
+   */
+  loginTwoFactor = this.asyncHandler(async (req: Request, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
 
-      // Return success response
-      ApiResponseUtil.success(res, {
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          display_name: user.display_name || `${user.first_name || ''} ${user.last_name || ''}`.trim(),
-          user_type: user.user_type,
-          role_id: user.role_id
-        },
-        requirePasswordChange: user.is_temporary_password || false
-      }, 'Login successful');
+    const { challengeToken, code } = req.body;
+    const clientIP = this.getClientIP(req);
+
+    try {
+      const jwtSecret = process.env.JWT_SECRET;
+      if (!jwtSecret) {
+        return ApiResponseUtil.internalError(res, 'Server configuration error');
+      }
+
+      const userId = verifyLoginChallenge(challengeToken, jwtSecret);
+      const user = userId ? await UserRepository.findById(userId) : null;
+      if (!user) {
+        return ApiResponseUtil.error(res, 'Your sign-in has expired. Please log in again.', 401, 'TWO_FACTOR_CHALLENGE_EXPIRED');
+      }
+
+      const isLocked = await UserRepository.isAccountLocked(user.id);
+      if (isLocked) {
+        return ApiResponseUtil.error(
+          res,
+          'Account is temporarily locked due to multiple failed login attempts',
+          423,
+          'ACCOUNT_LOCKED'
+        );
+      }
+
+      const method = await verifySecondFactor(user.id, code);
+      if (!method) {
+        await this.recordFailedLogin(user);
+        await AuditRepository.createLog(
+          'user',
+          { user_id: user.id },
+          'UPDATE',
+          { action: 'two_factor_failed', context: 'login' },
+          { ip_address: clientIP }
+        );
+        this.logAction('LOGIN_TWO_FACTOR_FAILED', user.id, { clientIP });
+        return ApiResponseUtil.unauthorized(res, 'Invalid verification code');
+      }
+
+      if (method === 'recovery') {
+        await AuditRepository.createLog(
+          'user',
+          { user_id: user.id },
+          'UPDATE',
+          { action: 'two_factor_recovery_code_used' },
+          { ip_address: clientIP }
+        );
+      }
+
+      await this.completeLogin(req, res, user, jwtSecret, true);
 
     } catch (error) {
-      this.logAction('LOGIN_ERROR', undefined, { error: error instanceof Error ? error.message : 'Unknown error', email });
-      console.error('Error during login:', error);
+      console.error('Error during two-factor login:', error);
       return ApiResponseUtil.internalError(res);
     }
   });
 
+  /**
+   * Count a failed password or code, locking the account at the configured limit
+   */
+  private async recordFailedLogin(user: User): Promise<void> {
+    await UserRepository.incrementFailedAttempts(user.id);
+
+    // Get dynamic settings for failed attempts and lock duration
+    const maxFailedAttempts = await SystemSettingsRepository.getTypedValue<number>(
+      'max_failed_login_attempts',
+      5
+    );
+    const lockDurationMinutes = await SystemSettingsRepository.getTypedValue<number>(
+      'account_lock_duration_minutes',
+      30
+    );
+
+    // Lock account after max failed attempts (subtract 1 because we already incremented)
+    if (user.failed_login_attempts >= (maxFailedAttempts - 1)) {
+      await UserRepository.lockAccount(user.id, lockDurationMinutes);
+    }
+  }
+
+  /**
+   * Start a session for a user who has passed every login check and send
+   * back their token
+   */
+  private async completeLogin(
+    req: Request,
+    res: Response,
+    user: User,
+    jwtSecret: string,
+    twoFactorVerified: boolean
+  ): Promise<void> {
+    const clientIP = this.getClientIP(req);
+    const userAgent = req.headers['user-agent'];
+
+    // Get session timeout from settings
+    const sessionTimeoutMinutes = await SystemSettingsRepository.getTypedValue<number>(
+      'session_timeout_minutes',
+      30
+    );
+    
+    // Get vendor_id if user is a vendor
+    let vendorId = null;
+    if (user.user_type === 'vendor') {
+      try {
+        const vendorQuery = 'SELECT id FROM vendors WHERE user_id = $1';
+        const vendorResult = await pool.query(vendorQuery, [user.id]);
+        if (vendorResult.rows.length > 0) {
+          vendorId = vendorResult.rows[0].id;
+        }
+      } catch (error) {
+        console.error('Error fetching vendor_id:', error);
+        // Continue without vendor_id - will be handled by authorization middleware
+      }
+    }
+
+    // Technicians carry their vendor's ID and cannot log in once deactivated
+    if (user.user_type === 'technician') {
+      const technician = await TechnicianRepository.getTechnicianByUserId(user.id);
+      if (!technician || technician.status !== 'active') {
+        this.logAction('LOGIN_FAILED', user.id, { reason: 'Technician account inactive', clientIP });
+        return ApiResponseUtil.forbidden(res, 'Technician account is inactive. Please contact your vendor.');
+      }
+      vendorId = technician.vendor_id;
+    }
+
+    // Each login gets its own session so devices can be signed out individually
+    const sessionId = await startSession(user.id, { ipAddress: clientIP, userAgent }, sessionTimeoutMinutes);
+    
+    const token = jwt.sign(
+      { 
+        userId: user.id, 
+        email: user.email, 
+        user_type: user.user_type,
+        role_id: user.role_id,
+        vendorId: vendorId,
+        sessionId
+      },
+      jwtSecret,
+      { expiresIn: `${sessionTimeoutMinutes}m` }
+    );
+
+    // Update last login information
+    await UserRepository.updateLastLogin(user.id, clientIP);
+
+    // Log the login
+    await AuditRepository.logLogin(user.id, clientIP, userAgent);
+
+    this.logAction('LOGIN_SUCCESS', user.id, { clientIP, twoFactorVerified });
+
+    // Admin-enforced two-factor: sign in, but send them to enroll first
+    const requireTwoFactorSetup = !twoFactorVerified && await isTwoFactorRequired(user.user_type);
+
+    // Return success response
+    ApiResponseUtil.success(res, {
+      token,
+      user: {
+        id: user.id,
+        email: user.email,
+        display_name: user.display_name || `${user.first_name || ''} ${user.last_name || ''}`.trim(),
+        user_type: user.user_type,
+        role_id: user.role_id
+      },
+      requirePasswordChange: user.is_temporary_password || false,
+      requireTwoFactorSetup
+    }, 'Login successful');
+  }
+
   /**
    * POST /api/auth/register
    * User registration endpoint (admin only for creating vendor accounts)
@@ -226,6 +352,9 @@ export class AuthController extends BaseController {
         30
       );
 
+      // authenticateToken has already checked the session is still active
+      const sessionId = req.user!.sessionId;
+
       // Get vendor_id if user is a vendor (for token consistency)
       let vendorId = req.user!.vendorId;
       if (req.user!.user_type === 'vendor' && !vendorId) {
@@ -247,7 +376,8 @@ export class AuthController extends BaseController {
           email: req.user!.email, 
           user_type: req.user!.user_type,
           role_id: req.user!.role_id,
-          vendorId: vendorId
+          vendorId: vendorId,
+          sessionId
         },
         jwtSecret,
         { expiresIn: `${sessionTimeoutMinutes}m` }
@@ -278,6 +408,10 @@ export class AuthController extends BaseController {
 
     try {
       const clientIP = this.getClientIP(req);
+
+      if (req.user!.sessionId) {
+        await endSession(req.user!.userId, req.user!.sessionId);
+      }
       
       // Log the logout
       await AuditRepository.createLog(
@@ -340,6 +474,7 @@ export class AuthController extends BaseController {
 
       // Update password and clear temporary flag
       await UserRepository.updatePassword(userId, hashedPassword);
+      await revokeAllSessions(userId, userId, req.user!.sessionId);
 
       // Log the password change
       const clientIP = this.getClientIP(req);
@@ -360,4 +495,90 @@ export class AuthController extends BaseController {
       return ApiResponseUtil.internalError(res);
     }
   });
-}
\ No newline at end of file
+
+  /**
+   * POST /api/auth/forgot-password
+   * Email a reset link. Always answers the same way so it cannot be used to
+   * discover which addresses have accounts.
+   */
+  forgotPassword = this.asyncHandler(async (req: Request, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const { email } = req.body;
+    const clientIP = this.getClientIP(req);
+
+    try {
+      await requestPasswordReset(email, {
+        ipAddress: clientIP,
+        userAgent: req.headers['user-agent']
+      });
+    } catch (error) {
+      // Swallowed so failures look the same as unknown addresses
+      console.error('Error requesting password reset:', error);
+    }
+
+    this.logAction('PASSWORD_RESET_REQUESTED', undefined, { clientIP });
+
+    ApiResponseUtil.success(
+      res,
+      null,
+      'If an account exists for that email, a password reset link has been sent'
+    );
+  });
+
+  /**
+   * POST /api/auth/reset-password/verify
+   * Check a reset link before the user picks a new password
+   */
+  verifyResetToken = this.asyncHandler(async (req: Request, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    try {
+      const reset = await PasswordResetRepository.findValidReset(hashResetToken(req.body.token));
+      if (!reset) {
+        return ApiResponseUtil.badRequest(res, 'This reset link is invalid or has expired');
+      }
+
+      const policy = await ProfileRepository.getPasswordPolicy();
+      ApiResponseUtil.success(res, { expires_at: reset.expires_at, password_policy: policy }, 'Reset link is valid');
+
+    } catch (error) {
+      console.error('Error verifying password reset token:', error);
+      return ApiResponseUtil.internalError(res);
+    }
+  });
+
+  /**
+   * POST /api/auth/reset-password
+   * Set a new password with a single-use reset token
+   */
+  resetPassword = this.asyncHandler(async (req: Request, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const { token, newPassword } = req.body;
+    const clientIP = this.getClientIP(req);
+
+    try {
+      const result = await completePasswordReset(token, newPassword);
+      if (!result.success) {
+        return ApiResponseUtil.error(res, result.message, 400, undefined, result.errors);
+      }
+
+      await AuditRepository.createLog(
+        'user',
+        { user_id: result.userId },
+        'UPDATE',
+        { action: 'password_reset' },
+        { ip_address: clientIP }
+      );
+
+      this.logAction('PASSWORD_RESET', result.userId, { clientIP });
+
+      ApiResponseUtil.success(res, null, result.message);
+
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      return ApiResponseUtil.internalError(res);
+    }
+  });
+}
@@ -0,0 +1,514 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { ClientViewsRepository } from '../models/ClientViewsRepository';
+import { BillingLineInput, BillingRepository, InvoiceStatus, PriceListItemData, QuoteStatus } from '../models/BillingRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import {
+  createInvoice,
+  createPriceListItem,
+  createQuote,
+  deletePriceListItem,
+  draftRentalLines,
+  draftTicketLines,
+  getClientInvoice,
+  getClientQuote,
+  getVendorInvoice,
+  getVendorQuote,
+  invoicePdf,
+  issueInvoice,
+  quotePdf,
+  recordPayment,
+  respondToQuote,
+  sendQuote,
+  updateInvoice,
+  updatePriceListItem,
+  updateQuote,
+  voidInvoice
+} from '../services/billing';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+/**
+ * Billing Controller
+ * Vendors keep a price list, quote for tickets and invoice for tickets and
+ * rentals; clients accept or decline quotes and see their invoices
+ */
+export class BillingController extends BaseController {
+
+  private async getVendorId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'vendor') {
+      return null;
+    }
+    return req.user.vendorId || await DashboardRepository.getVendorIdFromUserId(req.user.userId);
+  }
+
+  private async getClientId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'client') {
+      return null;
+    }
+    return ClientViewsRepository.getClientIdFromUserId(req.user.userId);
+  }
+
+  private textFrom(value: unknown): string | null {
+    return typeof value === 'string' ? value.trim() || null : null;
+  }
+
+  private linesFrom(req: AuthenticatedRequest): BillingLineInput[] {
+    return (req.body.lines || []).map((line: any) => ({
+      line_type: line.line_type,
+      description: line.description.trim(),
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+      part_id: line.part_id ?? null
+    }));
+  }
+
+  private priceListItemFrom(req: AuthenticatedRequest): PriceListItemData {
+    return {
+      rate_type: req.body.rate_type,
+      equipment_type: this.textFrom(req.body.equipment_type),
+      service_category: req.body.rate_type === 'rental' ? null : this.textFrom(req.body.service_category),
+      description: req.body.description.trim(),
+      unit_price: req.body.unit_price
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Price list
+  // ---------------------------------------------------------------------------
+
+  /**
+   * GET /api/billing/price-list
+   */
+  getPriceList = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+    return ApiResponseUtil.success(res, await BillingRepository.listPriceList(vendorId), 'Price list retrieved successfully');
+  });
+
+  /**
+   * POST /api/billing/price-list
+   */
+  createPriceListItem = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const item = await createPriceListItem(vendorId, this.priceListItemFrom(req));
+    await this.logChange(req, 'price_list_item', item.id, 'INSERT', item);
+    return ApiResponseUtil.created(res, item, 'Rate added to price list');
+  });
+
+  /**
+   * PUT /api/billing/price-list/:id
+   */
+  updatePriceListItem = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const item = await updatePriceListItem(vendorId, parseInt(req.params.id), this.priceListItemFrom(req));
+    await this.logChange(req, 'price_list_item', item.id, 'UPDATE', item);
+    return ApiResponseUtil.success(res, item, 'Rate updated');
+  });
+
+  /**
+   * DELETE /api/billing/price-list/:id
+   */
+  deletePriceListItem = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const itemId = parseInt(req.params.id);
+    await deletePriceListItem(vendorId, itemId);
+    await this.logChange(req, 'price_list_item', itemId, 'DELETE', { action: 'rate_removed' });
+    return ApiResponseUtil.success(res, null, 'Rate removed from price list');
+  });
+
+  // ---------------------------------------------------------------------------
+  // Suggested lines
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lines for a ticket's quote or invoice, priced from the price list
+   * GET /api/billing/tickets/:ticketId/draft-lines?for=quote|invoice
+   */
+  getTicketDraftLines = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const draft = await draftTicketLines(vendorId, parseInt(req.params.ticketId), req.query.for === 'quote' ? 'quote' : 'invoice');
+    return ApiResponseUtil.success(res, draft, 'Draft lines retrieved successfully');
+  });
+
+  /**
+   * Rental lines for a client's equipment over a period
+   * GET /api/billing/rentals/draft-lines?client_id=&start=&end=
+   */
+  getRentalDraftLines = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const draft = await draftRentalLines(vendorId, Number(req.query.client_id), String(req.query.start), String(req.query.end));
+    return ApiResponseUtil.success(res, draft, 'Draft lines retrieved successfully');
+  });
+
+  // ---------------------------------------------------------------------------
+  // Quotes
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A vendor's quotes, or those sent to a client
+   * GET /api/billing/quotes?status=&ticket_id=
+   */
+  getQuotes = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const filters = {
+      status: req.query.status as QuoteStatus | undefined,
+      ticketId: req.query.ticket_id ? Number(req.query.ticket_id) : undefined
+    };
+
+    const clientId = await this.getClientId(req);
+    if (clientId) {
+      const quotes = await BillingRepository.listQuotes({ clientId }, { ...filters, excludeDrafts: true });
+      return ApiResponseUtil.success(res, quotes, 'Quotes retrieved successfully');
+    }
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor or client role required.');
+    }
+    return ApiResponseUtil.success(res, await BillingRepository.listQuotes({ vendorId }, filters), 'Quotes retrieved successfully');
+  });
+
+  /**
+   * GET /api/billing/quotes/:id
+   */
+  getQuote = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+    return ApiResponseUtil.success(res, await this.findQuote(req), 'Quote retrieved successfully');
+  });
+
+  /**
+   * POST /api/billing/quotes
+   */
+  createQuote = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const quote = await createQuote(vendorId, req.user!.userId, {
+      ticket_id: req.body.ticket_id,
+      valid_until: req.body.valid_until || null,
+      notes: this.textFrom(req.body.notes),
+      tax_rate: req.body.tax_rate ?? 0,
+      lines: this.linesFrom(req)
+    });
+
+    await this.logChange(req, 'quote', quote.id, 'INSERT', { action: 'quote_created', quote_number: quote.quote_number, total: quote.total });
+    return ApiResponseUtil.created(res, quote, 'Quote created');
+  });
+
+  /**
+   * Replace a draft quote's lines and terms
+   * PUT /api/billing/quotes/:id
+   */
+  updateQuote = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const quote = await updateQuote(vendorId, parseInt(req.params.id), {
+      valid_until: req.body.valid_until || null,
+      notes: this.textFrom(req.body.notes),
+      tax_rate: req.body.tax_rate ?? 0,
+      lines: this.linesFrom(req)
+    });
+
+    await this.logChange(req, 'quote', quote.id, 'UPDATE', { action: 'quote_updated', total: quote.total });
+    return ApiResponseUtil.success(res, quote, 'Quote updated');
+  });
+
+  /**
+   * POST /api/billing/quotes/:id/send
+   */
+  sendQuote = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const quote = await sendQuote(vendorId, parseInt(req.params.id));
+    await this.logChange(req, 'quote', quote.id, 'UPDATE', { action: 'quote_sent' });
+    return ApiResponseUtil.success(res, quote, 'Quote sent to client');
+  });
+
+  /**
+   * POST /api/billing/quotes/:id/accept
+   */
+  acceptQuote = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    return this.respond(req, res, 'accepted');
+  });
+
+  /**
+   * POST /api/billing/quotes/:id/decline
+   */
+  declineQuote = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    return this.respond(req, res, 'declined');
+  });
+
+  /**
+   * GET /api/billing/quotes/:id/pdf
+   */
+  getQuotePdf = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const quote = await this.findQuote(req);
+    const pdf = await quotePdf(quote);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${quote.quote_number}.pdf"`);
+    return res.send(pdf);
+  });
+
+  // ---------------------------------------------------------------------------
+  // Invoices
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A vendor's invoices, or those issued to a client
+   * GET /api/billing/invoices?status=&ticket_id=&client_id=&overdue=
+   */
+  getInvoices = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const filters = {
+      status: req.query.status as InvoiceStatus | undefined,
+      ticketId: req.query.ticket_id ? Number(req.query.ticket_id) : undefined,
+      overdue: req.query.overdue === 'true'
+    };
+
+    const clientId = await this.getClientId(req);
+    if (clientId) {
+      const invoices = await BillingRepository.listInvoices({ clientId }, { ...filters, excludeDrafts: true });
+      return ApiResponseUtil.success(res, invoices, 'Invoices retrieved successfully');
+    }
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor or client role required.');
+    }
+
+    const invoices = await BillingRepository.listInvoices({ vendorId }, {
+      ...filters,
+      clientId: req.query.client_id ? Number(req.query.client_id) : undefined
+    });
+    return ApiResponseUtil.success(res, invoices, 'Invoices retrieved successfully');
+  });
+
+  /**
+   * GET /api/billing/invoices/:id
+   */
+  getInvoice = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+    return ApiResponseUtil.success(res, await this.findInvoice(req), 'Invoice retrieved successfully');
+  });
+
+  /**
+   * Raise a draft invoice for a ticket, or for rentals over a period
+   * POST /api/billing/invoices
+   */
+  createInvoice = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const invoice = await createInvoice(vendorId, req.user!.userId, {
+      ticket_id: req.body.ticket_id || null,
+      client_id: req.body.client_id || null,
+      period_start: req.body.period_start || null,
+      period_end: req.body.period_end || null,
+      due_date: req.body.due_date || null,
+      notes: this.textFrom(req.body.notes),
+      tax_rate: req.body.tax_rate ?? 0,
+      lines: this.linesFrom(req)
+    });
+
+    await this.logChange(req, 'invoice', invoice.id, 'INSERT', { action: 'invoice_created', invoice_number: invoice.invoice_number, total: invoice.total });
+    return ApiResponseUtil.created(res, invoice, 'Invoice created');
+  });
+
+  /**
+   * Replace a draft invoice's lines and terms
+   * PUT /api/billing/invoices/:id
+   */
+  updateInvoice = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const invoice = await updateInvoice(vendorId, parseInt(req.params.id), {
+      due_date: req.body.due_date || null,
+      notes: this.textFrom(req.body.notes),
+      tax_rate: req.body.tax_rate ?? 0,
+      lines: this.linesFrom(req)
+    });
+
+    await this.logChange(req, 'invoice', invoice.id, 'UPDATE', { action: 'invoice_updated', total: invoice.total });
+    return ApiResponseUtil.success(res, invoice, 'Invoice updated');
+  });
+
+  /**
+   * POST /api/billing/invoices/:id/issue
+   */
+  issueInvoice = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const invoice = await issueInvoice(vendorId, parseInt(req.params.id), req.user!.userId);
+    await this.logChange(req, 'invoice', invoice.id, 'UPDATE', { action: 'invoice_issued', due_date: invoice.due_date });
+    return ApiResponseUtil.success(res, invoice, 'Invoice issued to client');
+  });
+
+  /**
+   * POST /api/billing/invoices/:id/payments
+   */
+  recordPayment = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const payment = {
+      amount: req.body.amount,
+      payment_date: req.body.payment_date || null,
+      method: req.body.method,
+      reference: this.textFrom(req.body.reference)
+    };
+    const invoice = await recordPayment(vendorId, parseInt(req.params.id), req.user!.userId, payment);
+
+    await this.logChange(req, 'invoice', invoice.id, 'UPDATE', { action: 'payment_recorded', ...payment, status: invoice.status });
+    return ApiResponseUtil.success(res, invoice, invoice.status === 'paid' ? 'Invoice paid in full' : 'Payment recorded');
+  });
+
+  /**
+   * POST /api/billing/invoices/:id/void
+   */
+  voidInvoice = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const reason = this.textFrom(req.body.reason);
+    const invoice = await voidInvoice(vendorId, parseInt(req.params.id), reason);
+    await this.logChange(req, 'invoice', invoice.id, 'UPDATE', { action: 'invoice_voided', reason });
+    return ApiResponseUtil.success(res, invoice, 'Invoice voided');
+  });
+
+  /**
+   * GET /api/billing/invoices/:id/pdf
+   */
+  getInvoicePdf = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const invoice = await this.findInvoice(req);
+    const pdf = await invoicePdf(invoice);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoice_number}.pdf"`);
+    return res.send(pdf);
+  });
+
+  /**
+   * The quote in the URL as the signed-in client or vendor may see it.
+   * Throws a 404 for anyone else.
+   */
+  private async findQuote(req: AuthenticatedRequest) {
+    const quoteId = parseInt(req.params.id);
+    const clientId = await this.getClientId(req);
+    return clientId ? getClientQuote(clientId, quoteId) : getVendorQuote((await this.getVendorId(req)) || 0, quoteId);
+  }
+
+  private async findInvoice(req: AuthenticatedRequest) {
+    const invoiceId = parseInt(req.params.id);
+    const clientId = await this.getClientId(req);
+    return clientId ? getClientInvoice(clientId, invoiceId) : getVendorInvoice((await this.getVendorId(req)) || 0, invoiceId);
+  }
+
+  private async respond(req: AuthenticatedRequest, res: Response, decision: 'accepted' | 'declined') {
+    if (!this.handleValidation(req, res)) return;
+
+    const clientId = await this.getClientId(req);
+    if (!clientId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Client role required.');
+    }
+
+    const notes = this.textFrom(req.body.notes);
+    const quote = await respondToQuote(clientId, parseInt(req.params.id), req.user!.userId, decision, notes);
+    await this.logChange(req, 'quote', quote.id, 'UPDATE', { action: `quote_${decision}`, notes });
+
+    return ApiResponseUtil.success(res, quote, decision === 'accepted' ? 'Quote accepted' : 'Quote declined');
+  }
+
+  private async logChange(
+    req: AuthenticatedRequest,
+    table: 'price_list_item' | 'quote' | 'invoice',
+    recordId: number,
+    action: 'INSERT' | 'UPDATE' | 'DELETE',
+    changes: any
+  ) {
+    await AuditRepository.createLog(
+      table,
+      { id: recordId },
+      action,
+      changes,
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { Request, Response } from 'express';
+import { BaseController } from './BaseController';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { VendorBrandingRepository, VendorBrandingUpdate } from '../models/VendorBrandingRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import {
+  getBranding,
+  getBrandingForUser,
+  readBrandingLogo,
+  removeBrandingLogo,
+  saveBrandingLogo
+} from '../services/branding';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+// Request body field -> vendors column
+const BRANDING_FIELDS: Record<string, keyof VendorBrandingUpdate> = {
+  brandName: 'brand_name',
+  tagline: 'brand_tagline',
+  primaryColor: 'brand_primary_color',
+  secondaryColor: 'brand_secondary_color',
+  contactEmail: 'brand_contact_email',
+  website: 'brand_website',
+  emailSenderName: 'email_sender_name',
+};
+
+/**
+ * Branding Controller
+ * Serves the branding each user's portal is shown with, and lets vendors
+ * white-label what their clients see
+ */
+export class BrandingController extends BaseController {
+
+  private async getVendorId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'vendor') {
+      return null;
+    }
+    return req.user.vendorId || await DashboardRepository.getVendorIdFromUserId(req.user.userId);
+  }
+
+  /**
+   * Branding for the signed-in user's portal
+   * GET /api/branding
+   */
+  getMyBranding = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const branding = await getBrandingForUser(req.user!.userId);
+    return ApiResponseUtil.success(res, branding, 'Branding retrieved successfully');
+  });
+
+  /**
+   * A vendor's logo. Public, since emails link to it.
+   * GET /api/branding/vendors/:vendorId/logo
+   */
+  getVendorLogo = this.asyncHandler(async (req: Request, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const logo = await readBrandingLogo(parseInt(req.params.vendorId));
+    if (!logo) {
+      return ApiResponseUtil.notFound(res, 'Logo not found');
+    }
+
+    // The URL changes whenever the logo does, so it can be cached for long
+    res.setHeader('Content-Type', logo.mimeType);
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    return res.send(logo.data);
+  });
+
+  /**
+   * The vendor's branding settings and how they come out
+   * GET /api/branding/vendor
+   */
+  getVendorBranding = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    return this.respondWithSettings(res, vendorId, 'Branding retrieved successfully');
+  });
+
+  /**
+   * Update the vendor's name, colors, contact block and sender name.
+   * Empty values go back to the default.
+   * PUT /api/branding/vendor
+   */
+  updateVendorBranding = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const updates: VendorBrandingUpdate = {};
+    for (const [field, column] of Object.entries(BRANDING_FIELDS)) {
+      if (req.body[field] === undefined) continue;
+      const value = typeof req.body[field] === 'string' ? req.body[field].trim() : null;
+      updates[column] = value || null;
+    }
+
+    await VendorBrandingRepository.update(vendorId, updates);
+    await this.logChange(req, vendorId, { action: 'branding_updated', ...updates });
+
+    return this.respondWithSettings(res, vendorId, 'Branding updated successfully');
+  });
+
+  /**
+   * Upload a new logo (base64 PNG or JPEG)
+   * PUT /api/branding/vendor/logo
+   */
+  uploadVendorLogo = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    await saveBrandingLogo(vendorId, req.body);
+    await this.logChange(req, vendorId, { action: 'branding_logo_uploaded', mime_type: req.body.mime_type });
+
+    return this.respondWithSettings(res, vendorId, 'Logo uploaded successfully');
+  });
+
+  /**
+   * Remove the logo
+   * DELETE /api/branding/vendor/logo
+   */
+  deleteVendorLogo = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    await removeBrandingLogo(vendorId);
+    await this.logChange(req, vendorId, { action: 'branding_logo_removed' });
+
+    return this.respondWithSettings(res, vendorId, 'Logo removed');
+  });
+
+  /**
+   * The saved values for the form alongside the resolved branding
+   */
+  private async respondWithSettings(res: Response, vendorId: number, message: string) {
+    const [row, branding] = await Promise.all([
+      VendorBrandingRepository.findByVendorId(vendorId),
+      getBranding(vendorId)
+    ]);
+    if (!row) {
+      return ApiResponseUtil.notFound(res, 'Vendor not found');
+    }
+
+    const settings = Object.fromEntries(
+      Object.entries(BRANDING_FIELDS).map(([field, column]) => [field, row[column] ?? ''])
+    );
+
+    return ApiResponseUtil.success(res, { settings, branding }, message);
+  }
+
+  private async logChange(req: AuthenticatedRequest, vendorId: number, changes: any) {
+    await AuditRepository.createLog(
+      'vendors',
+      { vendor_id: vendorId },
+      'UPDATE',
+      changes,
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+  }
+}
@@ -0,0 +1,215 @@
+import { Request, Response } from 'express';
+import { BaseController } from './BaseController';
+import { CalendarFeedRepository, CalendarFeed } from '../models/CalendarFeedRepository';
+import MaintenanceTicketRepository from '../models/MaintenanceTicketRepository';
+import { TechnicianRepository } from '../models/TechnicianRepository';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { buildIcsCalendar } from '../utils/ics';
+import { AuthenticatedRequest } from '../types/api';
+
+// Feeds cover recent history and the coming months
+const FEED_DAYS_BEHIND = 30;
+const FEED_DAYS_AHEAD = 180;
+
+/**
+ * Calendar Feed Controller
+ * Issues ICS subscription URLs for a vendor's or a technician's scheduled
+ * tickets and serves the feeds to calendar apps
+ */
+export class CalendarFeedController extends BaseController {
+
+  /**
+   * Get vendor ID for the authenticated user
+   */
+  private async getVendorId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'vendor') {
+      return null;
+    }
+    return await DashboardRepository.getVendorIdFromUserId(req.user.userId);
+  }
+
+  /**
+   * Build the public URLs for a feed. API_PUBLIC_URL should be set when the
+   * API sits behind a proxy, since calendar apps need the external address.
+   */
+  private formatFeed(req: Request, feed: CalendarFeed) {
+    const baseUrl = (process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+    const url = `${baseUrl}/api/calendar-feeds/${feed.token}.ics`;
+
+    return {
+      technician_user_id: feed.technician_user_id,
+      url,
+      webcal_url: url.replace(/^https?:\/\//, 'webcal://'),
+      created_at: feed.created_at,
+      last_accessed_at: feed.last_accessed_at
+    };
+  }
+
+  /**
+   * Resolve the vendor and optional technician a vendor is managing a feed for
+   */
+  private async resolveVendorFeedTarget(req: AuthenticatedRequest, res: Response): Promise<{ vendorId: number; technicianUserId: number | null } | null> {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+      return null;
+    }
+
+    if (!this.handleValidation(req, res)) return null;
+
+    const rawTechnicianId = req.query.technician_id ?? req.body?.technician_id;
+    const technicianUserId = rawTechnicianId ? parseInt(rawTechnicianId as string) : null;
+
+    if (technicianUserId && !(await TechnicianRepository.isAssignableForVendor(technicianUserId, vendorId))) {
+      ApiResponseUtil.notFound(res, 'Technician not found');
+      return null;
+    }
+
+    return { vendorId, technicianUserId };
+  }
+
+  /**
+   * Resolve the vendor of the authenticated, active technician
+   */
+  private async resolveTechnicianFeedTarget(req: AuthenticatedRequest, res: Response): Promise<{ vendorId: number; technicianUserId: number } | null> {
+    const technician = req.user?.user_type === 'technician'
+      ? await TechnicianRepository.getTechnicianByUserId(req.user.userId)
+      : null;
+
+    if (!technician || technician.status !== 'active') {
+      ApiResponseUtil.forbidden(res, 'Access denied. Active technician account required.');
+      return null;
+    }
+
+    return { vendorId: technician.vendor_id, technicianUserId: req.user!.userId };
+  }
+
+  /**
+   * Get the vendor-wide feed, or a technician's feed when technician_id is given
+   * GET /api/vendor/tickets/calendar/feed
+   */
+  getVendorFeed = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const target = await this.resolveVendorFeedTarget(req, res);
+    if (!target) return;
+
+    const feed = await CalendarFeedRepository.getOrCreateFeed(target.vendorId, target.technicianUserId, req.user!.userId);
+    return ApiResponseUtil.success(res, this.formatFeed(req, feed), 'Calendar feed retrieved successfully');
+  });
+
+  /**
+   * Issue a new token for a vendor or technician feed, revoking the old URL
+   * POST /api/vendor/tickets/calendar/feed/rotate
+   */
+  rotateVendorFeed = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const target = await this.resolveVendorFeedTarget(req, res);
+    if (!target) return;
+
+    const feed = await CalendarFeedRepository.rotateFeed(target.vendorId, target.technicianUserId, req.user!.userId);
+
+    await AuditRepository.createLog(
+      'calendar_feed',
+      { feed_id: feed.id },
+      'UPDATE',
+      { action: 'calendar_feed_rotated', technician_user_id: target.technicianUserId },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    return ApiResponseUtil.success(res, this.formatFeed(req, feed), 'Calendar feed URL regenerated');
+  });
+
+  /**
+   * Get the authenticated technician's own feed
+   * GET /api/technician/tickets/calendar/feed
+   */
+  getTechnicianFeed = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const target = await this.resolveTechnicianFeedTarget(req, res);
+    if (!target) return;
+
+    const feed = await CalendarFeedRepository.getOrCreateFeed(target.vendorId, target.technicianUserId, req.user!.userId);
+    return ApiResponseUtil.success(res, this.formatFeed(req, feed), 'Calendar feed retrieved successfully');
+  });
+
+  /**
+   * Issue a new token for the authenticated technician's feed
+   * POST /api/technician/tickets/calendar/feed/rotate
+   */
+  rotateTechnicianFeed = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const target = await this.resolveTechnicianFeedTarget(req, res);
+    if (!target) return;
+
+    const feed = await CalendarFeedRepository.rotateFeed(target.vendorId, target.technicianUserId, req.user!.userId);
+
+    await AuditRepository.createLog(
+      'calendar_feed',
+      { feed_id: feed.id },
+      'UPDATE',
+      { action: 'calendar_feed_rotated', technician_user_id: target.technicianUserId },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    return ApiResponseUtil.success(res, this.formatFeed(req, feed), 'Calendar feed URL regenerated');
+  });
+
+  /**
+   * Serve a feed as text/calendar. The token in the URL is the only credential.
+   * GET /api/calendar-feeds/:token.ics
+   */
+  serveFeed = this.asyncHandler(async (req: Request, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const token = (req.params.token as string).replace(/\.ics$/, '');
+    const feed = await CalendarFeedRepository.getFeedByToken(token);
+    if (!feed) {
+      return ApiResponseUtil.notFound(res, 'Calendar feed not found');
+    }
+
+    const now = Date.now();
+    const tickets = await MaintenanceTicketRepository.getCalendarTickets(
+      feed.vendor_id,
+      new Date(now - FEED_DAYS_BEHIND * 24 * 3600000).toISOString(),
+      new Date(now + FEED_DAYS_AHEAD * 24 * 3600000).toISOString(),
+      feed.technician_user_id ?? undefined
+    );
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const calendarName = feed.technician_name
+      ? `${feed.company_name} - ${feed.technician_name}`
+      : `${feed.company_name} - Maintenance Tickets`;
+
+    const calendar = buildIcsCalendar(calendarName, tickets.map(ticket => {
+      const subject = [ticket.category || ticket.support_type, ticket.equipment_serial, ticket.client_name]
+        .filter(Boolean)
+        .join(' - ');
+
+      return {
+        uid: `ticket-${ticket.id}@fire-guardian`,
+        summary: `${ticket.ticket_status === 'open' ? '' : `[${ticket.ticket_status}] `}${ticket.ticket_number}: ${subject}`,
+        description: [
+          ticket.issue_description,
+          `Priority: ${ticket.priority}`,
+          !feed.technician_user_id && ticket.technician_name ? `Technician: ${ticket.technician_name}` : null
+        ].filter(Boolean).join('\n'),
+        location: ticket.client_address || undefined,
+        url: feed.technician_user_id
+          ? `${frontendUrl}/technician-tickets/${ticket.id}`
+          : `${frontendUrl}/maintenance-tickets/${ticket.id}`,
+        start: new Date(ticket.scheduled_date as string),
+        durationHours: ticket.estimated_hours || undefined,
+        allDayDate: ticket.is_all_day ? ticket.schedule_day as string : undefined
+      };
+    }));
+
+    CalendarFeedRepository.markAccessed(feed.id).catch(err => {
+      console.error('Failed to record calendar feed access:', err);
+    });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="tickets.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(calendar);
+  });
+}
@@ -132,6 +132,26 @@ export class ClientAnalyticsController extends BaseController {
     }
   }
 
+  /**
+   * Get compliance per site
+   * GET /api/client/analytics/compliance/by-site
+   */
+  async getComplianceBySite(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const client_id = await this.validateClientAccess(req);
+      if (!client_id) {
+        return ApiResponseUtil.unauthorized(res, 'Client access required');
+      }
+
+      const data = await this.clientAnalyticsRepo.getComplianceBySite(client_id);
+
+      ApiResponseUtil.success(res, data);
+    } catch (error) {
+      console.error('Error fetching compliance by site:', error);
+      return ApiResponseUtil.internalError(res, 'Failed to fetch compliance by site');
+    }
+  }
+
   /**
    * Get request trends
    * GET /api/client/analytics/requests/trend?start=2025-01-01&end=2025-12-31
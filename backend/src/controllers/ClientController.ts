@@ -5,7 +5,9 @@ import { ClientRepository } from '../models/ClientRepository';
 import { ApiResponseUtil } from '../utils/ApiResponse';
 import { AuthenticatedRequest } from '../types/api';
 import { generateTemporaryPassword } from '../utils/passwordGenerator';
+import { toCsv } from '../utils/csv';
 import emailService from '../services/emailService';
+import { validateClientImport } from '../services/clientImportService';
 
 export class ClientController extends BaseController {
   private clientRepository: ClientRepository;
@@ -202,7 +204,8 @@ export class ClientController extends BaseController {
         email,
         userName,
         temporaryPassword,
-        'client'
+        'client',
+        vendorId
       );
     } catch (emailError) {
       console.error('Failed to send temporary password email:', emailError);
@@ -212,6 +215,152 @@ export class ClientController extends BaseController {
     return ApiResponseUtil.created(res, newClient, 'Client created successfully. Temporary password sent via email.');
   });
 
+  /**
+   * Validate a CSV of clients and, unless dry_run is set, create them all in
+   * one transaction and email each contact a temporary password
+   * POST /api/vendor/clients/import
+   */
+  importClients = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const { csv } = req.body;
+    const dryRun = req.body.dry_run !== false && req.body.dry_run !== 'false';
+
+    if (typeof csv !== 'string' || csv.trim() === '') {
+      return ApiResponseUtil.badRequest(res, 'CSV file contents are required');
+    }
+
+    const report = await validateClientImport(csv, this.clientRepository);
+    const summary = {
+      dry_run: dryRun,
+      total_rows: report.total_rows,
+      valid_rows: report.valid_rows,
+      errors: report.errors
+    };
+
+    if (dryRun) {
+      return ApiResponseUtil.success(res, summary, report.errors.length > 0
+        ? `${report.errors.length} row(s) need fixing before import`
+        : `${report.valid_rows} row(s) ready to import`);
+    }
+
+    if (report.errors.length > 0) {
+      return ApiResponseUtil.error(
+        res,
+        `${report.errors.length} row(s) need fixing before import. Nothing was imported.`,
+        400,
+        'IMPORT_VALIDATION_FAILED',
+        report.errors
+      );
+    }
+
+    // Generate and hash a temporary password per contact
+    const saltRounds = 10;
+    const accounts = await Promise.all(report.clients.map(async (row) => {
+      const temporaryPassword = generateTemporaryPassword();
+      return {
+        row,
+        temporaryPassword,
+        clientData: {
+          ...row,
+          password: await bcrypt.hash(temporaryPassword, saltRounds),
+          is_temporary_password: true
+        }
+      };
+    }));
+
+    let created;
+    try {
+      created = await this.clientRepository.createClients(vendorId, accounts.map(account => account.clientData));
+    } catch (error: any) {
+      // Another account may have taken an email since validation
+      if (error?.code === '23505') {
+        return ApiResponseUtil.conflict(res, 'An email in this file was registered by someone else. Validate the file again.');
+      }
+      throw error;
+    }
+
+    // Send credentials only once every account exists
+    let emailsFailed = 0;
+    for (const { row, temporaryPassword } of accounts) {
+      try {
+        const result = await emailService.sendTemporaryPassword(
+          row.email,
+          `${row.first_name} ${row.last_name}`,
+          temporaryPassword,
+          'client',
+          vendorId
+        );
+        if (!result.success) emailsFailed++;
+      } catch (emailError) {
+        console.error('Failed to send temporary password email:', emailError);
+        emailsFailed++;
+      }
+    }
+
+    this.logAction('CLIENTS_IMPORTED', req.user!.userId, { vendorId, count: created.length, emailsFailed });
+
+    return ApiResponseUtil.created(
+      res,
+      { ...summary, imported: created.length, emails_failed: emailsFailed, clients: created },
+      emailsFailed > 0
+        ? `${created.length} client(s) imported. ${emailsFailed} welcome email(s) could not be sent.`
+        : `${created.length} client(s) imported. Temporary passwords sent via email.`
+    );
+  });
+
+  /**
+   * Export the vendor's clients as CSV with equipment and compliance counts
+   * GET /api/vendor/clients/export
+   */
+  exportClients = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const clients = await this.clientRepository.getClientsForExport(vendorId);
+
+    const headers = [
+      'company_name', 'business_type', 'status', 'first_name', 'last_name', 'email', 'phone',
+      'primary_phone', 'street_address', 'city', 'zip_code', 'country',
+      'equipment_count', 'compliant_count', 'due_soon_count', 'overdue_count', 'expired_count',
+      'compliance_percentage', 'last_service_date', 'created_at'
+    ];
+    const csv = toCsv(headers, clients.map(client => [
+      client.company_name,
+      client.business_type,
+      client.status,
+      client.first_name,
+      client.last_name,
+      client.email,
+      client.phone,
+      client.primary_phone,
+      client.street_address,
+      client.city,
+      client.zip_code,
+      client.country,
+      client.equipment_count,
+      client.compliant_count,
+      client.due_soon_count,
+      client.overdue_count,
+      client.expired_count,
+      client.compliance_percentage,
+      client.last_service_date,
+      client.created_at
+    ]));
+
+    this.logAction('CLIENTS_EXPORTED', req.user!.userId, { vendorId, count: clients.length });
+
+    const date = new Date().toISOString().split('T')[0];
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="clients_${date}.csv"`);
+    res.send(csv);
+  });
+
   /**
    * Update client information
    * PUT /api/vendor/clients/:id
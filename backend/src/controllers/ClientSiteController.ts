@@ -0,0 +1,306 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { ClientViewsRepository } from '../models/ClientViewsRepository';
+import { ClientSiteData, ClientSiteRepository } from '../models/ClientSiteRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import {
+  SiteScope,
+  addZone,
+  createSite,
+  deleteSite,
+  deleteZone,
+  getSiteWithZones,
+  listSitesWithZones,
+  placeEquipment,
+  renameZone,
+  updateSite,
+  vendorOwnsSite
+} from '../services/clientSites';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+const SITE_FIELDS: (keyof ClientSiteData)[] = [
+  'site_name',
+  'street_address',
+  'city',
+  'state',
+  'zip_code',
+  'country',
+  'latitude',
+  'longitude',
+  'contact_name',
+  'contact_phone',
+  'contact_email',
+  'notes',
+];
+
+/**
+ * Client Site Controller
+ * Vendors manage their clients' sites and building/floor/room zones and place
+ * equipment in them; clients can view their own sites
+ */
+export class ClientSiteController extends BaseController {
+
+  private async getVendorId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'vendor') {
+      return null;
+    }
+    return req.user.vendorId || await DashboardRepository.getVendorIdFromUserId(req.user.userId);
+  }
+
+  /**
+   * The sites the signed-in user can see: all of a vendor's clients' sites, or
+   * a client's own
+   */
+  private async getScope(req: AuthenticatedRequest): Promise<SiteScope | null> {
+    if (req.user?.user_type === 'client') {
+      const clientId = await ClientViewsRepository.getClientIdFromUserId(req.user.userId);
+      return clientId ? { clientId } : null;
+    }
+    const vendorId = await this.getVendorId(req);
+    return vendorId ? { vendorId } : null;
+  }
+
+  private async canViewSite(scope: SiteScope, siteId: number): Promise<boolean> {
+    const owner = await ClientSiteRepository.getSiteOwner(siteId);
+    if (!owner) return false;
+    return scope.clientId ? owner.client_id === scope.clientId : owner.vendor_id === scope.vendorId;
+  }
+
+  private pickSiteFields(body: any): ClientSiteData {
+    const data: ClientSiteData = {};
+    for (const field of SITE_FIELDS) {
+      if (body[field] === undefined) continue;
+      const value = typeof body[field] === 'string' ? body[field].trim() : body[field];
+      (data as any)[field] = value === '' ? null : value;
+    }
+    return data;
+  }
+
+  /**
+   * List sites with their zones
+   * GET /api/client-sites?client_id=
+   */
+  getSites = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const scope = await this.getScope(req);
+    if (!scope) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor or client role required.');
+    }
+
+    // Vendors can narrow the list to one of their clients
+    if (scope.vendorId && req.query.client_id) {
+      scope.clientId = parseInt(req.query.client_id as string);
+    }
+
+    const sites = await listSitesWithZones(scope);
+    return ApiResponseUtil.success(res, sites, 'Sites retrieved successfully');
+  });
+
+  /**
+   * Get one site with its zones
+   * GET /api/client-sites/:id
+   */
+  getSite = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const scope = await this.getScope(req);
+    if (!scope) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor or client role required.');
+    }
+
+    const siteId = parseInt(req.params.id);
+    if (!(await this.canViewSite(scope, siteId))) {
+      return ApiResponseUtil.notFound(res, 'Site not found');
+    }
+
+    return ApiResponseUtil.success(res, await getSiteWithZones(siteId), 'Site retrieved successfully');
+  });
+
+  /**
+   * Add a site for one of the vendor's clients
+   * POST /api/client-sites
+   */
+  createSite = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const clientId = parseInt(req.body.client_id);
+    if ((await ClientSiteRepository.getClientVendorId(clientId)) !== vendorId) {
+      return ApiResponseUtil.notFound(res, 'Client not found');
+    }
+
+    const site = await createSite(clientId, this.pickSiteFields(req.body));
+    await this.logChange(req, site.id, 'INSERT', { action: 'site_created', client_id: clientId, site_name: site.site_name });
+
+    return ApiResponseUtil.created(res, { ...site, zones: [] }, 'Site created successfully');
+  });
+
+  /**
+   * Update a site's name, address, coordinates or contact person
+   * PUT /api/client-sites/:id
+   */
+  updateSite = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const siteId = parseInt(req.params.id);
+    if (!(await vendorOwnsSite(vendorId, siteId))) {
+      return ApiResponseUtil.notFound(res, 'Site not found');
+    }
+
+    const changes = this.pickSiteFields(req.body);
+    await updateSite(siteId, changes);
+    await this.logChange(req, siteId, 'UPDATE', { action: 'site_updated', ...changes });
+
+    return ApiResponseUtil.success(res, await getSiteWithZones(siteId), 'Site updated successfully');
+  });
+
+  /**
+   * Delete a site that has no equipment placed at it
+   * DELETE /api/client-sites/:id
+   */
+  deleteSite = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const siteId = parseInt(req.params.id);
+    if (!(await vendorOwnsSite(vendorId, siteId))) {
+      return ApiResponseUtil.notFound(res, 'Site not found');
+    }
+
+    await deleteSite(siteId);
+    await this.logChange(req, siteId, 'DELETE', { action: 'site_deleted' });
+
+    return ApiResponseUtil.success(res, null, 'Site deleted successfully');
+  });
+
+  /**
+   * Add a building, floor or room to a site
+   * POST /api/client-sites/:id/zones
+   */
+  createZone = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const siteId = parseInt(req.params.id);
+    if (!(await vendorOwnsSite(vendorId, siteId))) {
+      return ApiResponseUtil.notFound(res, 'Site not found');
+    }
+
+    const { zone_type, parent_id } = req.body;
+    const zoneName = req.body.zone_name.trim();
+    const zoneId = await addZone(siteId, { zone_type, zone_name: zoneName, parent_id });
+    await this.logChange(req, siteId, 'UPDATE', { action: 'zone_created', zone_id: zoneId, zone_type, zone_name: zoneName });
+
+    return ApiResponseUtil.created(res, await getSiteWithZones(siteId), 'Zone added successfully');
+  });
+
+  /**
+   * Rename a zone
+   * PUT /api/client-sites/zones/:zoneId
+   */
+  updateZone = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const zoneId = parseInt(req.params.zoneId);
+    const zone = await ClientSiteRepository.getZoneOwner(zoneId);
+    if (!zone || zone.vendor_id !== vendorId) {
+      return ApiResponseUtil.notFound(res, 'Zone not found');
+    }
+
+    const zoneName = req.body.zone_name.trim();
+    await renameZone(zoneId, zoneName);
+    await this.logChange(req, zone.site_id, 'UPDATE', { action: 'zone_renamed', zone_id: zoneId, zone_name: zoneName });
+
+    return ApiResponseUtil.success(res, await getSiteWithZones(zone.site_id), 'Zone updated successfully');
+  });
+
+  /**
+   * Delete a zone and the zones inside it
+   * DELETE /api/client-sites/zones/:zoneId
+   */
+  deleteZone = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const zoneId = parseInt(req.params.zoneId);
+    const zone = await ClientSiteRepository.getZoneOwner(zoneId);
+    if (!zone || zone.vendor_id !== vendorId) {
+      return ApiResponseUtil.notFound(res, 'Zone not found');
+    }
+
+    await deleteZone(zoneId);
+    await this.logChange(req, zone.site_id, 'UPDATE', { action: 'zone_deleted', zone_id: zoneId });
+
+    return ApiResponseUtil.success(res, await getSiteWithZones(zone.site_id), 'Zone deleted successfully');
+  });
+
+  /**
+   * Place an equipment instance at a site and zone
+   * PUT /api/client-sites/equipment/:instanceId
+   */
+  placeEquipment = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const instanceId = parseInt(req.params.instanceId);
+    const { site_id, zone_id } = req.body;
+    const location = typeof req.body.location === 'string' ? req.body.location.trim() || null : req.body.location;
+
+    await placeEquipment(vendorId, instanceId, { site_id, zone_id, location }, req.user!.userId);
+
+    await AuditRepository.createLog(
+      'equipment_instance',
+      { id: instanceId },
+      'UPDATE',
+      { action: 'placement_updated', site_id: site_id ?? null, zone_id: zone_id ?? null, location },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    return ApiResponseUtil.success(res, null, 'Equipment placement updated');
+  });
+
+  private async logChange(req: AuthenticatedRequest, siteId: number, action: 'INSERT' | 'UPDATE' | 'DELETE', changes: any) {
+    await AuditRepository.createLog(
+      'client_site',
+      { site_id: siteId },
+      action,
+      changes,
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+  }
+}
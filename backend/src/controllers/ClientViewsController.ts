@@ -2,9 +2,12 @@ import { Response } from 'express';
 import { BaseController } from './BaseController';
 import { AuthenticatedRequest } from '../types/api';
 import { ClientViewsRepository } from '../models/ClientViewsRepository';
+import { InspectionChecklistRepository } from '../models/InspectionChecklistRepository';
 import { emailService } from '../services/emailService';
+import { validateUpload, storeAttachment, AttachmentUploadInput, ValidatedUpload } from '../services/attachmentService';
+import { storageConfig } from '../config/storage';
 import { pool } from '../config/database';
-import { emailRepository } from '../models/EmailRepository';
+import { messageQueue } from '../services/messageQueue';
 
 export class ClientViewsController extends BaseController {
   
@@ -307,7 +310,9 @@ export class ClientViewsController extends BaseController {
         return;
       }
 
-      res.json({ success: true, data: equipmentDetail });
+      const failedInspectionItems = await InspectionChecklistRepository.getLatestFailedItemsForEquipment(equipmentId, { clientUserId: userId });
+
+      res.json({ success: true, data: { ...equipmentDetail, failed_inspection_items: failedInspectionItems } });
     } catch (error) {
       console.error('Error fetching equipment detail:', error);
       res.status(500).json({ success: false, message: 'Failed to fetch equipment detail' });
@@ -336,7 +341,9 @@ export class ClientViewsController extends BaseController {
     try {
       const userId = req.user!.userId;
       
-      const overview = await ClientViewsRepository.getEquipmentTypesOverview(userId);
+      const siteId = parseInt(req.query.site_id as string) || undefined;
+
+      const overview = await ClientViewsRepository.getEquipmentTypesOverview(userId, siteId);
       res.json({ success: true, data: overview });
     } catch (error) {
       console.error('Error fetching equipment types overview:', error);
@@ -410,6 +417,24 @@ export class ClientViewsController extends BaseController {
         return;
       }
 
+      // Check photos up front so a bad file doesn't leave a ticket without its attachments
+      const attachmentInputs = Array.isArray(req.body.attachments) ? req.body.attachments : [];
+      if (attachmentInputs.length > storageConfig.maxFilesPerServiceRequest) {
+        res.status(400).json({
+          success: false,
+          message: `You can attach up to ${storageConfig.maxFilesPerServiceRequest} files`
+        });
+        return;
+      }
+
+      let uploads: ValidatedUpload[];
+      try {
+        uploads = attachmentInputs.map((input: AttachmentUploadInput) => validateUpload(input));
+      } catch (error: any) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+
       const ticketData = {
         equipment_instance_id: equipmentInstance.id,
         priority,
@@ -420,6 +445,10 @@ export class ClientViewsController extends BaseController {
       const result = await ClientViewsRepository.createServiceRequest(clientId, ticketData);
       
       if (result.success && result.data) {
+        for (const upload of uploads) {
+          await storeAttachment('maintenance_ticket', result.data.id, upload, req.user!.userId);
+        }
+
         // Send email notifications to both client and vendor
         this.sendServiceRequestCreatedEmail(result.data.id).catch(err => {
           console.error('Failed to send service request email:', err);
@@ -476,12 +505,12 @@ export class ClientViewsController extends BaseController {
   }
 
   /**
-   * Send email notifications when a service request is created
+   * Queue email notifications when a service request is created
    * Private helper method
    */
   private static async sendServiceRequestCreatedEmail(ticketId: number): Promise<void> {
     try {
-      console.log('\n===== SENDING SERVICE REQUEST CREATED EMAILS =====');
+      console.log('\n===== QUEUEING SERVICE REQUEST CREATED EMAILS =====');
       console.log('[Ticket ID]:', ticketId);
       console.log('[Timestamp]:', new Date().toISOString());
       
@@ -497,8 +526,11 @@ export class ClientViewsController extends BaseController {
           eq.equipment_name,
           ei.serial_number,
           c.company_name as client_name,
+          cu.id as client_user_id,
           cu.email as client_email,
+          mt.vendor_id,
           v.company_name as vendor_name,
+          vu.id as vendor_user_id,
           vu.email as vendor_email
         FROM maintenance_ticket mt
         LEFT JOIN equipment_instance ei ON mt.equipment_instance_id = ei.id
@@ -528,77 +560,63 @@ export class ClientViewsController extends BaseController {
       
       const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
 
-      console.log('\n[Sending email to CLIENT]');
-      // Send email to CLIENT
-      const clientEmailResult = await emailService.sendMaintenanceTicketCreated({
-        to: ticket.client_email,
-        clientName: ticket.client_name,
-        ticketId: ticketId,
-        equipmentName: ticket.equipment_name || 'General Maintenance',
-        serialNumber: ticket.serial_number || 'N/A',
-        scheduledDate: ticket.scheduled_date 
-          ? new Date(ticket.scheduled_date).toLocaleDateString() 
-          : 'To be scheduled',
-        priority: ticket.priority,
-        status: ticket.ticket_status,
-        description: ticket.issue_description,
-        dashboardUrl: `${frontendUrl}/client/tickets/${ticket.ticket_number}`,
-      });
-
-      // Log client email
-      await emailRepository.logEmail({
-        recipientEmail: ticket.client_email,
-        templateType: 'maintenanceTicketCreated',
-        subject: `New Service Request Created - #${ticketId}`,
-        status: clientEmailResult.success ? 'sent' : 'failed',
-        messageId: clientEmailResult.messageId,
-        errorMessage: clientEmailResult.error,
-        metadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'client' },
-      });
-      
-      if (clientEmailResult.success) {
-        console.log('[SUCCESS] Client email sent successfully');
-      } else {
-        console.log('[FAILED] Client email failed:', clientEmailResult.error);
-      }
+      // Queue email to CLIENT
+      await messageQueue.queueEmail(
+        emailService.buildMaintenanceTicketCreated({
+          to: ticket.client_email,
+          vendorId: ticket.vendor_id,
+          clientName: ticket.client_name,
+          ticketId: ticketId,
+          equipmentName: ticket.equipment_name || 'General Maintenance',
+          serialNumber: ticket.serial_number || 'N/A',
+          scheduledDate: ticket.scheduled_date 
+            ? new Date(ticket.scheduled_date).toLocaleDateString() 
+            : 'To be scheduled',
+          priority: ticket.priority,
+          status: ticket.ticket_status,
+          description: ticket.issue_description,
+          dashboardUrl: `${frontendUrl}/client/tickets/${ticket.ticket_number}`,
+        }),
+        {
+          idempotencyKey: `ticket-created:${ticketId}:client`,
+          relatedEntityType: 'ticket',
+          relatedEntityId: ticketId,
+          recipientUserId: ticket.client_user_id,
+          eventType: 'ticket_created',
+          actionUrl: `${frontendUrl}/client/tickets/${ticket.ticket_number}`,
+          logMetadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'client' },
+        }
+      );
 
-      console.log('\n[Sending email to VENDOR]');
-      // Send email to VENDOR
-      const vendorEmailResult = await emailService.sendMaintenanceTicketCreated({
-        to: ticket.vendor_email,
-        clientName: ticket.vendor_name,
-        ticketId: ticketId,
-        equipmentName: ticket.equipment_name || 'General Maintenance',
-        serialNumber: ticket.serial_number || 'N/A',
-        scheduledDate: ticket.scheduled_date 
-          ? new Date(ticket.scheduled_date).toLocaleDateString() 
-          : 'To be scheduled',
-        priority: ticket.priority,
-        status: ticket.ticket_status,
-        description: ticket.issue_description,
-        dashboardUrl: `${frontendUrl}/vendors/tickets`,
-      });
-
-      // Log vendor email
-      await emailRepository.logEmail({
-        recipientEmail: ticket.vendor_email,
-        templateType: 'maintenanceTicketCreated',
-        subject: `New Service Request Created - #${ticketId}`,
-        status: vendorEmailResult.success ? 'sent' : 'failed',
-        messageId: vendorEmailResult.messageId,
-        errorMessage: vendorEmailResult.error,
-        metadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'vendor' },
-      });
-      
-      if (vendorEmailResult.success) {
-        console.log('[SUCCESS] Vendor email sent successfully');
-      } else {
-        console.log('[FAILED] Vendor email failed:', vendorEmailResult.error);
-      }
-      
-      console.log('\n[SERVICE REQUEST EMAIL PROCESS COMPLETED]');
-      console.log('   - Client Email:', clientEmailResult.success ? '[SENT]' : '[FAILED]');
-      console.log('   - Vendor Email:', vendorEmailResult.success ? '[SENT]' : '[FAILED]');
+      // Queue email to VENDOR
+      await messageQueue.queueEmail(
+        emailService.buildMaintenanceTicketCreated({
+          to: ticket.vendor_email,
+          vendorId: ticket.vendor_id,
+          clientName: ticket.vendor_name,
+          ticketId: ticketId,
+          equipmentName: ticket.equipment_name || 'General Maintenance',
+          serialNumber: ticket.serial_number || 'N/A',
+          scheduledDate: ticket.scheduled_date 
+            ? new Date(ticket.scheduled_date).toLocaleDateString() 
+            : 'To be scheduled',
+          priority: ticket.priority,
+          status: ticket.ticket_status,
+          description: ticket.issue_description,
+          dashboardUrl: `${frontendUrl}/vendors/tickets`,
+        }),
+        {
+          idempotencyKey: `ticket-created:${ticketId}:vendor`,
+          relatedEntityType: 'ticket',
+          relatedEntityId: ticketId,
+          recipientUserId: ticket.vendor_user_id,
+          eventType: 'ticket_created',
+          actionUrl: `${frontendUrl}/vendors/tickets`,
+          logMetadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'vendor' },
+        }
+      );
+
+      console.log('[SERVICE REQUEST EMAILS QUEUED]');
       console.log('===========================\n');
     } catch (error) {
       console.error('\n[ERROR IN SERVICE REQUEST EMAIL PROCESS]');
@@ -4,6 +4,10 @@ import { ApiResponseUtil } from '../utils/ApiResponse';
 import { emailService } from '../services/emailService';
 import { emailRepository } from '../models/EmailRepository';
 import { emailScheduler } from '../services/emailScheduler';
+import { DigestAttachmentFormats, DigestFrequencies, getDigestSchedule } from '../services/complianceDigest';
+import { SystemSettingsRepository } from '../models/SystemSettingsRepository';
+import { getTemplateSchema, renderTemplate, resolveTemplate } from '../services/messageTemplates';
+import { getBranding } from '../services/branding';
 import { verifyEmailConfig } from '../config/email';
 import { AuthenticatedRequest } from '../types/api';
 
@@ -14,8 +18,9 @@ export class EmailTestController extends BaseController {
     this.sendTestEmail = this.sendTestEmail.bind(this);
     this.getEmailLogs = this.getEmailLogs.bind(this);
     this.getEmailStats = this.getEmailStats.bind(this);
-    this.triggerMaintenanceReminders = this.triggerMaintenanceReminders.bind(this);
-    this.triggerExpirationAlerts = this.triggerExpirationAlerts.bind(this);
+    this.triggerComplianceDigest = this.triggerComplianceDigest.bind(this);
+    this.getDigestSettings = this.getDigestSettings.bind(this);
+    this.updateDigestSettings = this.updateDigestSettings.bind(this);
     this.verifyEmailConfiguration = this.verifyEmailConfiguration.bind(this);
     this.previewEmailTemplate = this.previewEmailTemplate.bind(this);
   }
@@ -97,38 +102,92 @@ export class EmailTestController extends BaseController {
   }
 
   /**
-   * Manually trigger maintenance reminders
-   * POST /api/email/trigger/maintenance-reminders
+   * Manually send the compliance digest to every client and vendor
+   * POST /api/email/trigger/compliance-digest
    */
-  async triggerMaintenanceReminders(req: Request, res: Response): Promise<void> {
+  async triggerComplianceDigest(req: Request, res: Response): Promise<void> {
     try {
-      // Run reminders in the background
-      emailScheduler.triggerMaintenanceReminders().catch(err => {
-        console.error('Background maintenance reminder job failed:', err);
+      // Run the digest in the background
+      emailScheduler.triggerComplianceDigest().catch(err => {
+        console.error('Background compliance digest job failed:', err);
       });
 
-      ApiResponseUtil.success(res, null, 'Maintenance reminder job triggered successfully');
+      ApiResponseUtil.success(res, null, 'Compliance digest job triggered successfully');
     } catch (error) {
-      console.error('Error triggering maintenance reminders:', error);
-      ApiResponseUtil.internalError(res, 'Failed to trigger maintenance reminders');
+      console.error('Error triggering compliance digest:', error);
+      ApiResponseUtil.internalError(res, 'Failed to trigger compliance digest');
     }
   }
 
   /**
-   * Manually trigger expiration alerts
-   * POST /api/email/trigger/expiration-alerts
+   * Get the compliance digest schedule
+   * GET /api/email/digest-settings
    */
-  async triggerExpirationAlerts(req: Request, res: Response): Promise<void> {
+  async getDigestSettings(req: Request, res: Response): Promise<void> {
     try {
-      // Run alerts in the background
-      emailScheduler.triggerExpirationAlerts().catch(err => {
-        console.error('Background expiration alert job failed:', err);
-      });
+      const schedule = await getDigestSchedule();
+      ApiResponseUtil.success(res, schedule, 'Digest settings retrieved successfully');
+    } catch (error) {
+      console.error('Error fetching digest settings:', error);
+      ApiResponseUtil.internalError(res, 'Failed to fetch digest settings');
+    }
+  }
 
-      ApiResponseUtil.success(res, null, 'Expiration alert job triggered successfully');
+  /**
+   * Update the compliance digest schedule
+   * PUT /api/email/digest-settings
+   */
+  async updateDigestSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const { frequency, weekday, hour, lookaheadDays, attachment } = req.body;
+      const updates: { key: string; value: string }[] = [];
+
+      if (frequency !== undefined) {
+        if (!(DigestFrequencies as readonly string[]).includes(frequency)) {
+          ApiResponseUtil.badRequest(res, `Frequency must be one of: ${DigestFrequencies.join(', ')}`);
+          return;
+        }
+        updates.push({ key: 'compliance_digest_frequency', value: frequency });
+      }
+      if (weekday !== undefined) {
+        if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+          ApiResponseUtil.badRequest(res, 'Weekday must be between 0 (Sunday) and 6 (Saturday)');
+          return;
+        }
+        updates.push({ key: 'compliance_digest_weekday', value: String(weekday) });
+      }
+      if (hour !== undefined) {
+        if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+          ApiResponseUtil.badRequest(res, 'Hour must be between 0 and 23');
+          return;
+        }
+        updates.push({ key: 'compliance_digest_hour', value: String(hour) });
+      }
+      if (lookaheadDays !== undefined) {
+        if (!Number.isInteger(lookaheadDays) || lookaheadDays < 1 || lookaheadDays > 365) {
+          ApiResponseUtil.badRequest(res, 'Lookahead must be between 1 and 365 days');
+          return;
+        }
+        updates.push({ key: 'compliance_digest_lookahead_days', value: String(lookaheadDays) });
+      }
+      if (attachment !== undefined) {
+        if (!(DigestAttachmentFormats as readonly string[]).includes(attachment)) {
+          ApiResponseUtil.badRequest(res, `Attachment must be one of: ${DigestAttachmentFormats.join(', ')}`);
+          return;
+        }
+        updates.push({ key: 'compliance_digest_attachment', value: attachment });
+      }
+
+      if (updates.length > 0) {
+        await SystemSettingsRepository.updateMultipleSettings(updates, authReq.user!.userId);
+      }
+
+      const schedule = await getDigestSchedule();
+      ApiResponseUtil.success(res, schedule, 'Digest settings updated successfully');
     } catch (error) {
-      console.error('Error triggering expiration alerts:', error);
-      ApiResponseUtil.internalError(res, 'Failed to trigger expiration alerts');
+      console.error('Error updating digest settings:', error);
+      ApiResponseUtil.internalError(res, 'Failed to update digest settings');
     }
   }
 
@@ -152,86 +211,26 @@ export class EmailTestController extends BaseController {
   }
 
   /**
-   * Preview email template (returns HTML)
-   * GET /api/email/preview/:templateType
+   * Preview email template (returns HTML), using the saved template if it
+   * has been edited and the vendor's branding
+   * GET /api/email/preview/:templateType?vendorId=
    */
   async previewEmailTemplate(req: Request, res: Response): Promise<void> {
     try {
       const { templateType } = req.params;
-      
-      const validTemplates = [
-        'maintenanceTicketCreated',
-        'maintenanceTicketUpdated',
-        'maintenanceDueReminder',
-        'equipmentExpirationAlert',
-        'maintenanceCompleted'
-      ];
-
-      if (!validTemplates.includes(templateType)) {
+      const schema = getTemplateSchema('email', templateType);
+
+      if (!schema) {
         ApiResponseUtil.badRequest(res, 'Invalid template type');
         return;
       }
 
-      // Sample data for preview
-      const sampleData: any = {
-        maintenanceTicketCreated: {
-          clientName: 'Sample Client Corp',
-          ticketId: 12345,
-          equipmentName: 'Fire Extinguisher ABC-123',
-          serialNumber: 'FE-2024-001',
-          scheduledDate: new Date().toLocaleDateString(),
-          priority: 'High',
-          status: 'Open',
-          description: 'Routine maintenance inspection required',
-          dashboardUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
-        },
-        maintenanceTicketUpdated: {
-          clientName: 'Sample Client Corp',
-          ticketId: 12345,
-          equipmentName: 'Fire Extinguisher ABC-123',
-          status: 'In Progress',
-          technicianName: 'John Technician',
-          technicianNotes: 'Equipment inspected. All systems functioning properly.',
-          updateReason: 'Status updated after inspection',
-          dashboardUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
-        },
-        maintenanceDueReminder: {
-          clientName: 'Sample Client Corp',
-          equipmentName: 'Fire Extinguisher ABC-123',
-          serialNumber: 'FE-2024-001',
-          location: 'Building A, Floor 3',
-          maintenanceDueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toLocaleDateString(),
-          maintenanceType: 'Annual Inspection',
-          daysUntilDue: 30,
-          dashboardUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
-        },
-        equipmentExpirationAlert: {
-          clientName: 'Sample Client Corp',
-          equipmentName: 'Fire Extinguisher ABC-123',
-          serialNumber: 'FE-2024-001',
-          location: 'Building A, Floor 3',
-          expirationDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toLocaleDateString(),
-          status: 'Active',
-          daysUntilExpiration: 30,
-          dashboardUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
-        },
-        maintenanceCompleted: {
-          clientName: 'Sample Client Corp',
-          ticketId: 12345,
-          equipmentName: 'Fire Extinguisher ABC-123',
-          completedDate: new Date().toLocaleDateString(),
-          technicianName: 'John Technician',
-          technicianNotes: 'Equipment serviced successfully. All tests passed.',
-          complianceStatus: 'Fully Compliant',
-          nextMaintenanceDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toLocaleDateString(),
-          dashboardUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
-        },
-      };
-
-      const { generateEmailHTML } = require('../utils/emailTemplates');
-      const data = sampleData[templateType];
-      const subject = `Preview: ${templateType}`;
-      const html = generateEmailHTML(templateType, data, subject);
+      const vendorId = req.query.vendorId ? parseInt(req.query.vendorId as string) : null;
+      const [template, brand] = await Promise.all([
+        resolveTemplate('email', templateType, vendorId),
+        getBranding(vendorId)
+      ]);
+      const { html } = renderTemplate('email', templateType, template, schema.sampleData, `Preview: ${templateType}`, brand);
 
       res.setHeader('Content-Type', 'text/html');
       res.send(html);
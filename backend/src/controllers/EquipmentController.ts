@@ -2,9 +2,12 @@ import { Response } from 'express';
 import { BaseController } from './BaseController';
 import { EquipmentRepository, EquipmentFilters, CreateEquipmentInstanceData, UpdateEquipmentInstanceData, AssignEquipmentData, BulkAssignEquipmentData, CreateEquipmentTypeData, UpdateEquipmentTypeData } from '../models/EquipmentRepository';
 import { DashboardRepository } from '../models/DashboardRepository';
+import { InspectionChecklistRepository } from '../models/InspectionChecklistRepository';
 import { ApiResponseUtil } from '../utils/ApiResponse';
+import { PDFService } from '../utils/PDFService';
 import { DebugLogger } from '../utils/DebugLogger';
-import { AuthenticatedRequest, PaginationQuery } from '../types/api';
+import { validateEquipmentImport } from '../services/equipmentImportService';
+import { ApiError, AuthenticatedRequest, HttpStatus, PaginationQuery } from '../types/api';
 
 /**
  * Equipment Controller
@@ -37,7 +40,7 @@ export class EquipmentController extends BaseController {
         return ApiResponseUtil.notFound(res, 'Vendor profile not found');
       }
 
-      const { page = '1', limit = '25', status, compliance_status, search, equipment_type_id } = req.query;
+      const { page = '1', limit = '25', status, compliance_status, search, equipment_type_id, site_id } = req.query;
 
       const pagination: PaginationQuery = {
         page: parseInt(page as string),
@@ -48,7 +51,8 @@ export class EquipmentController extends BaseController {
         status: status as string,
         compliance_status: compliance_status as string,
         search: search as string,
-        equipment_type_id: equipment_type_id ? parseInt(equipment_type_id as string) : undefined
+        equipment_type_id: equipment_type_id ? parseInt(equipment_type_id as string) : undefined,
+        site_id: site_id ? parseInt(site_id as string) : undefined
       };
 
       DebugLogger.log('Fetching equipment list', { vendorId, pagination, filters }, 'EQUIPMENT');
@@ -117,10 +121,11 @@ export class EquipmentController extends BaseController {
         return ApiResponseUtil.notFound(res, 'Vendor profile not found');
       }
 
-      const { search, category } = req.query;
+      const { search, category, site_id } = req.query;
       const filters = {
         search: search as string,
-        category: category as string
+        category: category as string,
+        site_id: site_id ? parseInt(site_id as string) : undefined
       };
 
       DebugLogger.log('Fetching equipment types', { userId, vendorId, filters }, 'EQUIPMENT');
@@ -246,7 +251,7 @@ export class EquipmentController extends BaseController {
 
       DebugLogger.log('Adding equipment instance', { vendorId, equipmentData }, 'EQUIPMENT');
 
-      const newEquipment = await EquipmentRepository.addEquipmentInstance(equipmentData);
+      const newEquipment = await EquipmentRepository.addEquipmentInstance(equipmentData, userId);
 
       DebugLogger.log('Equipment instance added successfully', { 
         vendorId, 
@@ -319,7 +324,7 @@ export class EquipmentController extends BaseController {
 
       DebugLogger.log('Assigning equipment to client', { vendorId, assignmentData }, 'EQUIPMENT');
 
-      const assignment = await EquipmentRepository.bulkAssignEquipmentToClient(assignmentData);
+      const assignment = await EquipmentRepository.bulkAssignEquipmentToClient(assignmentData, userId);
 
       DebugLogger.log('Equipment assigned successfully', { 
         vendorId, 
@@ -382,7 +387,7 @@ export class EquipmentController extends BaseController {
         equipmentInstanceId 
       }, 'EQUIPMENT');
 
-      const result = await EquipmentRepository.removeEquipmentAssignment(equipmentInstanceId, vendorId);
+      const result = await EquipmentRepository.removeEquipmentAssignment(equipmentInstanceId, vendorId, userId);
 
       if (!result.success) {
         return ApiResponseUtil.notFound(res, result.message || 'Equipment instance not found or not assigned');
@@ -412,6 +417,143 @@ export class EquipmentController extends BaseController {
     }
   });
 
+  /**
+   * POST /api/equipment/import
+   * Validate a CSV of equipment instances and, unless dry_run is set, import
+   * them all in one transaction. Nothing is written if any row has errors.
+   */
+  importEquipmentInstances = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.requireAuth(req, res)) return;
+
+    const startTime = DebugLogger.startTimer();
+    const dryRun = req.body.dry_run !== false && req.body.dry_run !== 'false';
+    DebugLogger.api('POST', '/api/equipment/import', { dry_run: dryRun });
+
+    try {
+      const userId = req.user!.userId;
+
+      if (req.user!.user_type !== 'vendor') {
+        return ApiResponseUtil.forbidden(res, 'Access denied. Vendor access required.');
+      }
+
+      const vendorId = await DashboardRepository.getVendorIdFromUserId(userId);
+      if (!vendorId) {
+        return ApiResponseUtil.notFound(res, 'Vendor profile not found');
+      }
+
+      if (typeof req.body.csv !== 'string' || req.body.csv.trim() === '') {
+        return ApiResponseUtil.badRequest(res, 'CSV file contents are required');
+      }
+
+      const report = await validateEquipmentImport(req.body.csv, vendorId);
+      const summary = {
+        dry_run: dryRun,
+        total_rows: report.total_rows,
+        valid_rows: report.valid_rows,
+        errors: report.errors
+      };
+
+      if (dryRun) {
+        DebugLogger.performance('Equipment import validation', startTime, { vendorId, rows: report.total_rows });
+        return ApiResponseUtil.success(res, summary, report.errors.length > 0
+          ? `${report.errors.length} row(s) need fixing before import`
+          : `${report.valid_rows} row(s) ready to import`);
+      }
+
+      if (report.errors.length > 0) {
+        return ApiResponseUtil.error(
+          res,
+          `${report.errors.length} row(s) need fixing before import. Nothing was imported.`,
+          HttpStatus.BAD_REQUEST,
+          'IMPORT_VALIDATION_FAILED',
+          report.errors
+        );
+      }
+
+      const created = await EquipmentRepository.importEquipmentInstances(vendorId, report.instances, userId);
+
+      this.logAction('EQUIPMENT_INSTANCES_IMPORTED', userId, { vendorId, count: created.length });
+      DebugLogger.performance('Equipment import', startTime, { vendorId, count: created.length });
+
+      return ApiResponseUtil.created(
+        res,
+        { ...summary, imported: created.length, instances: created },
+        `${created.length} equipment instance(s) imported successfully`
+      );
+
+    } catch (error: any) {
+      if (error instanceof ApiError) throw error;
+
+      // Another upload may have claimed a serial number since validation
+      if (error?.code === '23505') {
+        return ApiResponseUtil.conflict(res, 'A serial number in this file was added by someone else. Validate the file again.');
+      }
+
+      DebugLogger.error('Error importing equipment instances', error, { userId: req.user?.userId });
+      return ApiResponseUtil.internalError(res);
+    }
+  });
+
+  /**
+   * GET /api/equipment/types/:id/labels
+   * Download a PDF sheet of QR asset labels for an equipment type's instances
+   */
+  getAssetLabels = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.requireAuth(req, res)) return;
+
+    const startTime = DebugLogger.startTimer();
+    DebugLogger.api('GET', `/api/equipment/types/${req.params.id}/labels`, req.query);
+
+    try {
+      const userId = req.user!.userId;
+
+      if (req.user!.user_type !== 'vendor') {
+        return ApiResponseUtil.forbidden(res, 'Access denied. Vendor access required.');
+      }
+
+      const equipmentTypeId = parseInt(req.params.id);
+      if (isNaN(equipmentTypeId)) {
+        return ApiResponseUtil.badRequest(res, 'Invalid equipment ID');
+      }
+
+      const vendorId = await DashboardRepository.getVendorIdFromUserId(userId);
+      if (!vendorId) {
+        return ApiResponseUtil.notFound(res, 'Vendor profile not found');
+      }
+
+      // Optional comma-separated list to print only some instances
+      const instanceIds = typeof req.query.instance_ids === 'string'
+        ? req.query.instance_ids.split(',').map(id => parseInt(id)).filter(id => !isNaN(id))
+        : undefined;
+
+      const instances = await EquipmentRepository.getInstancesForLabels(equipmentTypeId, vendorId, instanceIds);
+      if (instances.length === 0) {
+        return ApiResponseUtil.notFound(res, 'No equipment instances found to label');
+      }
+
+      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+      const pdf = await PDFService.generateAssetLabels(instances.map((instance: any) => ({
+        scanUrl: `${frontendUrl}/scan/${instance.id}`,
+        serialNumber: instance.serial_number,
+        assetTag: instance.asset_tag,
+        equipmentName: instance.equipment_name,
+        vendorName: instance.vendor_name,
+        location: instance.location
+      })));
+
+      this.logAction('EQUIPMENT_LABELS_GENERATED', userId, { vendorId, equipmentTypeId, count: instances.length });
+      DebugLogger.performance('Asset label generation', startTime, { count: instances.length });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="Asset_Labels_${equipmentTypeId}.pdf"`);
+      res.send(pdf);
+
+    } catch (error) {
+      DebugLogger.error('Error generating asset labels', error, { userId: req.user?.userId });
+      return ApiResponseUtil.internalError(res);
+    }
+  });
+
   /**
    * GET /api/equipment/:id
    * Get equipment type details with comprehensive metrics and instance data
@@ -447,6 +589,8 @@ export class EquipmentController extends BaseController {
         return ApiResponseUtil.notFound(res, 'Equipment type not found');
       }
 
+      const failedInspectionItems = await InspectionChecklistRepository.getLatestFailedItemsForEquipment(equipmentId, { vendorId });
+
       DebugLogger.log('Equipment type details retrieved successfully', { 
         vendorId, 
         equipmentId,
@@ -456,7 +600,7 @@ export class EquipmentController extends BaseController {
       this.logAction('EQUIPMENT_TYPE_DETAILS_ACCESSED', userId, { vendorId, equipmentId });
 
       DebugLogger.performance('Equipment type details fetch', startTime, { vendorId, equipmentId });
-      ApiResponseUtil.success(res, equipmentDetails, 'Equipment type details retrieved successfully');
+      ApiResponseUtil.success(res, { ...equipmentDetails, failed_inspection_items: failedInspectionItems }, 'Equipment type details retrieved successfully');
 
     } catch (error) {
       DebugLogger.error('Error getting equipment type details', error, { userId: req.user?.userId });
@@ -633,7 +777,7 @@ export class EquipmentController extends BaseController {
 
       DebugLogger.log('Updating equipment instance', { vendorId, equipmentInstanceId, updateData }, 'EQUIPMENT');
 
-      const updatedEquipment = await EquipmentRepository.updateEquipmentInstance(equipmentInstanceId, vendorId, updateData);
+      const updatedEquipment = await EquipmentRepository.updateEquipmentInstance(equipmentInstanceId, vendorId, updateData, userId);
 
       if (!updatedEquipment) {
         return ApiResponseUtil.notFound(res, 'Equipment instance not found');
@@ -694,7 +838,7 @@ export class EquipmentController extends BaseController {
 
       DebugLogger.log('Deleting equipment instance', { vendorId, equipmentInstanceId }, 'EQUIPMENT');
 
-      const deletedEquipment = await EquipmentRepository.deleteEquipmentInstance(equipmentInstanceId, vendorId);
+      const deletedEquipment = await EquipmentRepository.deleteEquipmentInstance(equipmentInstanceId, vendorId, userId);
 
       if (!deletedEquipment) {
         return ApiResponseUtil.notFound(res, 'Equipment instance not found');
@@ -779,7 +923,7 @@ export class EquipmentController extends BaseController {
 
       DebugLogger.log('Assigning equipment', { vendorId, equipmentInstanceId, assignmentData }, 'EQUIPMENT');
 
-      const assignment = await EquipmentRepository.assignEquipment(equipmentInstanceId, assignmentData);
+      const assignment = await EquipmentRepository.assignEquipment(equipmentInstanceId, assignmentData, userId);
 
       DebugLogger.log('Equipment assigned successfully', { 
         vendorId, 
@@ -1076,7 +1220,7 @@ export class EquipmentController extends BaseController {
       }
 
       // Parse query parameters
-      const { page = '1', limit = '25', status, compliance_status, search } = req.query;
+      const { page = '1', limit = '25', status, compliance_status, search, site_id } = req.query;
 
       const pagination: PaginationQuery = {
         page: parseInt(page as string),
@@ -1086,7 +1230,8 @@ export class EquipmentController extends BaseController {
       const filters: EquipmentFilters = {
         status: status as string,
         compliance_status: compliance_status as string,
-        search: search as string
+        search: search as string,
+        site_id: site_id ? parseInt(site_id as string) : undefined
       };
 
       DebugLogger.log('Fetching equipment instances with maintenance info', { 
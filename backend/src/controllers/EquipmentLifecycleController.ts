@@ -0,0 +1,79 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { ClientViewsRepository } from '../models/ClientViewsRepository';
+import {
+  LifecycleScope,
+  getLifecycle,
+  lifecycleCsv,
+  lifecycleFilename,
+  lifecyclePdf
+} from '../services/equipmentLifecycle';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+/**
+ * Equipment Lifecycle Controller
+ * Timeline of lifecycle events for an equipment instance, and its export
+ */
+export class EquipmentLifecycleController extends BaseController {
+
+  private async getScope(req: AuthenticatedRequest): Promise<LifecycleScope | null> {
+    if (req.user?.user_type === 'vendor') {
+      const vendorId = req.user.vendorId || await DashboardRepository.getVendorIdFromUserId(req.user.userId);
+      return vendorId ? { vendorId } : null;
+    }
+    if (req.user?.user_type === 'client') {
+      const clientId = await ClientViewsRepository.getClientIdFromUserId(req.user.userId);
+      return clientId ? { clientId } : null;
+    }
+    return null;
+  }
+
+  /**
+   * Get an instance's lifecycle timeline
+   * GET /api/equipment-lifecycle/:instanceId
+   */
+  getTimeline = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const scope = await this.getScope(req);
+    if (!scope) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor or client role required.');
+    }
+
+    const lifecycle = await getLifecycle(parseInt(req.params.instanceId), scope);
+    return ApiResponseUtil.success(res, lifecycle, 'Lifecycle timeline retrieved successfully');
+  });
+
+  /**
+   * Download the timeline as CSV or PDF
+   * GET /api/equipment-lifecycle/:instanceId/export?format=pdf|csv
+   */
+  exportTimeline = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const scope = await this.getScope(req);
+    if (!scope) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor or client role required.');
+    }
+
+    const instanceId = parseInt(req.params.instanceId);
+    const lifecycle = await getLifecycle(instanceId, scope);
+    const format = req.query.format === 'csv' ? 'csv' : 'pdf';
+
+    this.logAction('EQUIPMENT_LIFECYCLE_EXPORTED', req.user!.userId, { instanceId, format, events: lifecycle.events.length });
+
+    res.setHeader('Content-Disposition', `attachment; filename="${lifecycleFilename(lifecycle.instance, format)}"`);
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      return res.send(lifecycleCsv(lifecycle));
+    }
+
+    const recipientName = 'vendorId' in scope
+      ? lifecycle.instance.vendor_name || ''
+      : lifecycle.events.find(event => event.client_name)?.client_name || '';
+    res.setHeader('Content-Type', 'application/pdf');
+    return res.send(await lifecyclePdf(lifecycle, recipientName));
+  });
+}
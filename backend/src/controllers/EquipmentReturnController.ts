@@ -0,0 +1,179 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { ClientViewsRepository } from '../models/ClientViewsRepository';
+import { EquipmentReturnRepository, ReturnStatus } from '../models/EquipmentReturnRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { completeReturn, requestReturn, reviewReturn } from '../services/equipmentReturns';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+/**
+ * Equipment Return Controller
+ * Clients request returns and swaps of their assigned equipment; vendors
+ * approve, reject and complete them
+ */
+export class EquipmentReturnController extends BaseController {
+
+  private async getVendorId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'vendor') {
+      return null;
+    }
+    return req.user.vendorId || await DashboardRepository.getVendorIdFromUserId(req.user.userId);
+  }
+
+  private async getClientId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'client') {
+      return null;
+    }
+    return ClientViewsRepository.getClientIdFromUserId(req.user.userId);
+  }
+
+  private notesFrom(req: AuthenticatedRequest): string | null {
+    return typeof req.body.notes === 'string' ? req.body.notes.trim() || null : null;
+  }
+
+  /**
+   * List the signed-in client's or vendor's requests
+   * GET /api/equipment-returns?status=
+   */
+  getReturns = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const status = req.query.status as ReturnStatus | undefined;
+    const clientId = await this.getClientId(req);
+    if (clientId) {
+      return ApiResponseUtil.success(res, await EquipmentReturnRepository.listReturns({ clientId }, status), 'Return requests retrieved successfully');
+    }
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor or client role required.');
+    }
+    return ApiResponseUtil.success(res, await EquipmentReturnRepository.listReturns({ vendorId }, status), 'Return requests retrieved successfully');
+  });
+
+  /**
+   * Get one request with its units
+   * GET /api/equipment-returns/:id
+   */
+  getReturn = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const request = await EquipmentReturnRepository.findById(parseInt(req.params.id));
+    const clientId = await this.getClientId(req);
+    const vendorId = clientId ? null : await this.getVendorId(req);
+
+    if (!request || (clientId ? request.client_id !== clientId : request.vendor_id !== vendorId)) {
+      return ApiResponseUtil.notFound(res, 'Return request not found');
+    }
+    return ApiResponseUtil.success(res, request, 'Return request retrieved successfully');
+  });
+
+  /**
+   * Ask for assigned units to be returned or swapped
+   * POST /api/equipment-returns
+   */
+  createReturn = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const clientId = await this.getClientId(req);
+    if (!clientId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Client role required.');
+    }
+
+    const request = await requestReturn(clientId, req.user!.userId, {
+      request_type: req.body.request_type,
+      instance_ids: req.body.instance_ids,
+      reason: req.body.reason.trim()
+    });
+
+    await this.logChange(req, request.id, 'INSERT', {
+      action: 'return_requested',
+      return_number: request.return_number,
+      request_type: request.request_type,
+      instance_ids: request.items.map(item => item.equipment_instance_id)
+    });
+
+    return ApiResponseUtil.created(res, request, 'Return request submitted');
+  });
+
+  /**
+   * Approve a pending request
+   * PUT /api/equipment-returns/:id/approve
+   */
+  approveReturn = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    return this.review(req, res, 'approved');
+  });
+
+  /**
+   * Reject a pending request
+   * PUT /api/equipment-returns/:id/reject
+   */
+  rejectReturn = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    return this.review(req, res, 'rejected');
+  });
+
+  /**
+   * Complete an approved request: take the units back and, for swaps, assign
+   * the replacements
+   * POST /api/equipment-returns/:id/complete
+   */
+  completeReturn = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const returnId = parseInt(req.params.id);
+    const request = await completeReturn(vendorId, returnId, req.user!.userId, req.body.items || [], this.notesFrom(req));
+
+    await this.logChange(req, returnId, 'UPDATE', { action: 'return_completed', items: request.items });
+    for (const item of request.items) {
+      await AuditRepository.createLog(
+        'equipment_instance',
+        { id: item.equipment_instance_id },
+        'UPDATE',
+        {
+          action: item.replacement_instance_id ? 'swapped_out' : 'returned',
+          return_number: request.return_number,
+          disposition: item.disposition,
+          replacement_instance_id: item.replacement_instance_id
+        },
+        { ip_address: this.getClientIP(req) },
+        req.user!.userId
+      );
+    }
+
+    return ApiResponseUtil.success(res, request, 'Return request completed');
+  });
+
+  private async review(req: AuthenticatedRequest, res: Response, decision: 'approved' | 'rejected') {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const returnId = parseInt(req.params.id);
+    const notes = this.notesFrom(req);
+    const request = await reviewReturn(vendorId, returnId, req.user!.userId, decision, notes);
+    await this.logChange(req, returnId, 'UPDATE', { action: `return_${decision}`, notes });
+
+    return ApiResponseUtil.success(res, request, decision === 'approved' ? 'Return request approved' : 'Return request rejected');
+  }
+
+  private async logChange(req: AuthenticatedRequest, returnId: number, action: 'INSERT' | 'UPDATE', changes: any) {
+    await AuditRepository.createLog(
+      'equipment_return',
+      { id: returnId },
+      action,
+      changes,
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import { InspectionChecklistRepository, ChecklistItemInput } from '../models/InspectionChecklistRepository';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+/**
+ * Inspection Checklist Controller
+ * Lets vendors define inspection checklists per equipment type
+ */
+export class InspectionChecklistController extends BaseController {
+
+  /**
+   * Get vendor ID for the authenticated user
+   */
+  private async getVendorId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'vendor') {
+      return null;
+    }
+    return await DashboardRepository.getVendorIdFromUserId(req.user.userId);
+  }
+
+  /**
+   * Normalize checklist items from the request body
+   */
+  private parseItems(value: any[]): ChecklistItemInput[] {
+    return value.map((item: any) => ({
+      id: item.id ? parseInt(item.id) : undefined,
+      item_text: String(item.item_text).trim()
+    }));
+  }
+
+  /**
+   * Get the vendor's checklists
+   * GET /api/vendor/checklists
+   */
+  getChecklists = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const checklists = await InspectionChecklistRepository.getChecklistsByVendor(vendorId);
+    return ApiResponseUtil.success(res, checklists, 'Checklists retrieved successfully');
+  });
+
+  /**
+   * Get equipment types from the vendor's catalogue
+   * GET /api/vendor/checklists/equipment-types
+   */
+  getEquipmentTypes = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const types = await InspectionChecklistRepository.getVendorEquipmentTypes(vendorId);
+    return ApiResponseUtil.success(res, types, 'Equipment types retrieved successfully');
+  });
+
+  /**
+   * Get a single checklist
+   * GET /api/vendor/checklists/:id
+   */
+  getChecklistById = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    if (!this.handleValidation(req, res)) return;
+
+    const checklist = await InspectionChecklistRepository.getChecklistById(parseInt(req.params.id), vendorId);
+    if (!checklist) {
+      return ApiResponseUtil.notFound(res, 'Checklist not found');
+    }
+
+    return ApiResponseUtil.success(res, checklist, 'Checklist retrieved successfully');
+  });
+
+  /**
+   * Create a checklist for an equipment type
+   * POST /api/vendor/checklists
+   */
+  createChecklist = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    if (!this.handleValidation(req, res)) return;
+
+    const { equipment_type, checklist_name, items } = req.body;
+
+    try {
+      const checklistId = await InspectionChecklistRepository.createChecklist(vendorId, {
+        equipment_type: equipment_type.trim(),
+        checklist_name: checklist_name.trim(),
+        items: this.parseItems(items)
+      });
+
+      await AuditRepository.createLog(
+        'inspection_checklist',
+        { checklist_id: checklistId },
+        'INSERT',
+        { action: 'checklist_created', equipment_type, item_count: items.length },
+        { ip_address: this.getClientIP(req) },
+        req.user!.userId
+      );
+
+      const checklist = await InspectionChecklistRepository.getChecklistById(checklistId, vendorId);
+      return ApiResponseUtil.created(res, checklist, 'Checklist created successfully');
+    } catch (error: any) {
+      if (error.code === '23505') {
+        return ApiResponseUtil.conflict(res, `A checklist already exists for ${equipment_type}`);
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Update a checklist's name, status or items
+   * PUT /api/vendor/checklists/:id
+   */
+  updateChecklist = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    if (!this.handleValidation(req, res)) return;
+
+    const checklistId = parseInt(req.params.id);
+    const updated = await InspectionChecklistRepository.updateChecklist(checklistId, vendorId, {
+      checklist_name: req.body.checklist_name?.trim(),
+      is_active: req.body.is_active,
+      items: Array.isArray(req.body.items) ? this.parseItems(req.body.items) : undefined
+    });
+
+    if (!updated) {
+      return ApiResponseUtil.notFound(res, 'Checklist not found');
+    }
+
+    await AuditRepository.createLog(
+      'inspection_checklist',
+      { checklist_id: checklistId },
+      'UPDATE',
+      { action: 'checklist_updated', fields: Object.keys(req.body) },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    const checklist = await InspectionChecklistRepository.getChecklistById(checklistId, vendorId);
+    return ApiResponseUtil.success(res, checklist, 'Checklist updated successfully');
+  });
+
+  /**
+   * Delete a checklist
+   * DELETE /api/vendor/checklists/:id
+   */
+  deleteChecklist = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    if (!this.handleValidation(req, res)) return;
+
+    const checklistId = parseInt(req.params.id);
+    const deleted = await InspectionChecklistRepository.deleteChecklist(checklistId, vendorId);
+    if (!deleted) {
+      return ApiResponseUtil.notFound(res, 'Checklist not found');
+    }
+
+    await AuditRepository.createLog(
+      'inspection_checklist',
+      { checklist_id: checklistId },
+      'DELETE',
+      { action: 'checklist_deleted' },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    return ApiResponseUtil.success(res, null, 'Checklist deleted successfully');
+  });
+}
@@ -0,0 +1,202 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import { MaintenancePlanRepository } from '../models/MaintenancePlanRepository';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+/**
+ * Maintenance Plan Controller
+ * Lets vendors attach recurring maintenance schedules to equipment types and
+ * individual instances, and view the resulting due dates
+ */
+export class MaintenancePlanController extends BaseController {
+
+  /**
+   * Get vendor ID for the authenticated user
+   */
+  private async getVendorId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'vendor') {
+      return null;
+    }
+    return await DashboardRepository.getVendorIdFromUserId(req.user.userId);
+  }
+
+  /**
+   * Get an equipment type's schedules and the upcoming due dates of its instances
+   * GET /api/vendor/maintenance-plans/equipment-types/:id
+   */
+  getEquipmentPlan = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    if (!this.handleValidation(req, res)) return;
+
+    const equipmentId = parseInt(req.params.id);
+    if (!(await MaintenancePlanRepository.ownsTarget(vendorId, { equipment_id: equipmentId }))) {
+      return ApiResponseUtil.notFound(res, 'Equipment type not found');
+    }
+
+    const monthsAhead = Math.min(parseInt(req.query.months as string) || 12, 120);
+    const [schedules, timeline] = await Promise.all([
+      MaintenancePlanRepository.getSchedulesForEquipment(equipmentId, vendorId),
+      MaintenancePlanRepository.getEquipmentTimeline(equipmentId, vendorId, monthsAhead)
+    ]);
+
+    return ApiResponseUtil.success(res, { schedules, timeline }, 'Maintenance plan retrieved successfully');
+  });
+
+  /**
+   * Get an instance's own schedules and every schedule that applies to it
+   * GET /api/vendor/maintenance-plans/equipment-instances/:id
+   */
+  getInstancePlan = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    if (!this.handleValidation(req, res)) return;
+
+    const instanceId = parseInt(req.params.id);
+    if (!(await MaintenancePlanRepository.ownsTarget(vendorId, { equipment_instance_id: instanceId }))) {
+      return ApiResponseUtil.notFound(res, 'Equipment instance not found');
+    }
+
+    const [schedules, timeline] = await Promise.all([
+      MaintenancePlanRepository.getSchedulesForInstance(instanceId, vendorId),
+      MaintenancePlanRepository.getInstanceTimeline(instanceId, vendorId)
+    ]);
+
+    return ApiResponseUtil.success(res, { schedules, timeline }, 'Maintenance plan retrieved successfully');
+  });
+
+  /**
+   * Add a schedule to an equipment type or instance
+   * POST /api/vendor/maintenance-plans
+   */
+  createSchedule = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    if (!this.handleValidation(req, res)) return;
+
+    const equipmentId = req.body.equipment_id ? parseInt(req.body.equipment_id) : undefined;
+    const instanceId = req.body.equipment_instance_id ? parseInt(req.body.equipment_instance_id) : undefined;
+
+    if (!equipmentId === !instanceId) {
+      return ApiResponseUtil.badRequest(res, 'Provide either equipment_id or equipment_instance_id');
+    }
+
+    const target = { equipment_id: equipmentId, equipment_instance_id: instanceId };
+    if (!(await MaintenancePlanRepository.ownsTarget(vendorId, target))) {
+      return ApiResponseUtil.notFound(res, equipmentId ? 'Equipment type not found' : 'Equipment instance not found');
+    }
+
+    const category = req.body.category.trim();
+
+    try {
+      const schedule = await MaintenancePlanRepository.createSchedule(vendorId, {
+        ...target,
+        schedule_name: req.body.schedule_name.trim(),
+        category,
+        interval_months: parseInt(req.body.interval_months),
+        lead_days: req.body.lead_days !== undefined ? parseInt(req.body.lead_days) : undefined,
+        is_active: req.body.is_active
+      });
+
+      await MaintenancePlanRepository.syncInstanceMaintenanceDates();
+
+      await AuditRepository.createLog(
+        'maintenance_schedule',
+        { schedule_id: schedule.id },
+        'INSERT',
+        { action: 'schedule_created', ...target, category, interval_months: schedule.interval_months },
+        { ip_address: this.getClientIP(req) },
+        req.user!.userId
+      );
+
+      return ApiResponseUtil.created(res, schedule, 'Schedule created successfully');
+    } catch (error: any) {
+      if (error.code === '23505') {
+        return ApiResponseUtil.conflict(res, `A ${category} schedule already exists here`);
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Update a schedule's name, interval, lead time or status
+   * PUT /api/vendor/maintenance-plans/:id
+   */
+  updateSchedule = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    if (!this.handleValidation(req, res)) return;
+
+    const scheduleId = parseInt(req.params.id);
+    const schedule = await MaintenancePlanRepository.updateSchedule(scheduleId, vendorId, {
+      schedule_name: req.body.schedule_name?.trim(),
+      interval_months: req.body.interval_months !== undefined ? parseInt(req.body.interval_months) : undefined,
+      lead_days: req.body.lead_days !== undefined ? parseInt(req.body.lead_days) : undefined,
+      is_active: req.body.is_active
+    });
+
+    if (!schedule) {
+      return ApiResponseUtil.notFound(res, 'Schedule not found');
+    }
+
+    await MaintenancePlanRepository.syncInstanceMaintenanceDates();
+
+    await AuditRepository.createLog(
+      'maintenance_schedule',
+      { schedule_id: scheduleId },
+      'UPDATE',
+      { action: 'schedule_updated', fields: Object.keys(req.body) },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    return ApiResponseUtil.success(res, schedule, 'Schedule updated successfully');
+  });
+
+  /**
+   * Delete a schedule
+   * DELETE /api/vendor/maintenance-plans/:id
+   */
+  deleteSchedule = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    if (!this.handleValidation(req, res)) return;
+
+    const scheduleId = parseInt(req.params.id);
+    const deleted = await MaintenancePlanRepository.deleteSchedule(scheduleId, vendorId);
+    if (!deleted) {
+      return ApiResponseUtil.notFound(res, 'Schedule not found');
+    }
+
+    await MaintenancePlanRepository.syncInstanceMaintenanceDates();
+
+    await AuditRepository.createLog(
+      'maintenance_schedule',
+      { schedule_id: scheduleId },
+      'DELETE',
+      { action: 'schedule_deleted' },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    return ApiResponseUtil.success(res, null, 'Schedule deleted successfully');
+  });
+}
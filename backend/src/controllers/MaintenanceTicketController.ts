@@ -5,16 +5,22 @@ import MaintenanceTicketRepository, {
   CreateTicketData, 
   UpdateTicketData, 
   ResolveTicketData, 
-  TicketFilters 
+  TicketFilters,
+  TechnicianTicketUpdateData
 } from '../models/MaintenanceTicketRepository';
+import { TechnicianRepository } from '../models/TechnicianRepository';
+import { InspectionChecklistRepository, InspectionResultInput } from '../models/InspectionChecklistRepository';
 import { ApiResponseUtil } from '../utils/ApiResponse';
 import { AuthenticatedRequest } from '../types/api';
 import { DashboardRepository } from '../models/DashboardRepository';
 import { emailService } from '../services/emailService';
-import { emailRepository } from '../models/EmailRepository';
 import { pool } from '../config/database';
-import SmsService from '../services/SmsService';
-import { SmsMessageType, SmsTemplates } from '../config/sms';
+import { messageQueue } from '../services/messageQueue';
+import { getScheduleWarnings, WORKDAY_HOURS } from '../utils/ticketScheduling';
+import { SmsMessageType } from '../config/sms';
+import { renderSms } from '../services/messageTemplates';
+import { notifyLowStock } from '../services/partsInventory';
+import { PartsRepository, TicketPartLine } from '../models/PartsRepository';
 
 export class MaintenanceTicketController extends BaseController {
 
@@ -34,6 +40,13 @@ export class MaintenanceTicketController extends BaseController {
     this.getRelatedTickets = this.getRelatedTickets.bind(this);
     this.getEquipmentForClient = this.getEquipmentForClient.bind(this);
     this.sendHighPriorityTicketSms = this.sendHighPriorityTicketSms.bind(this);
+    this.getAssignedTickets = this.getAssignedTickets.bind(this);
+    this.getAssignedTicketDetails = this.getAssignedTicketDetails.bind(this);
+    this.updateAssignedTicket = this.updateAssignedTicket.bind(this);
+    this.resolveAssignedTicket = this.resolveAssignedTicket.bind(this);
+    this.getTicketChecklist = this.getTicketChecklist.bind(this);
+    this.getAssignedTicketChecklist = this.getAssignedTicketChecklist.bind(this);
+    this.getCalendarTickets = this.getCalendarTickets.bind(this);
   }
 
   /**
@@ -46,6 +59,44 @@ export class MaintenanceTicketController extends BaseController {
     return await DashboardRepository.getVendorIdFromUserId(req.user.userId);
   }
 
+  /**
+   * Get the user ID of the authenticated technician, if their account is active
+   */
+  private async getActiveTechnicianUserId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'technician') {
+      return null;
+    }
+    const technician = await TechnicianRepository.getTechnicianByUserId(req.user.userId);
+    return technician && technician.status === 'active' ? req.user.userId : null;
+  }
+
+  /**
+   * Normalize checklist results from the request body
+   */
+  private parseChecklistResults(value: any): InspectionResultInput[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value.map((entry: any) => ({
+      checklist_item_id: parseInt(entry.checklist_item_id),
+      result: entry.result,
+      notes: entry.notes || undefined
+    }));
+  }
+
+  /**
+   * Normalize the parts used from the request body
+   */
+  private parseParts(value: any): TicketPartLine[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value.map((entry: any) => ({
+      part_id: parseInt(entry.part_id),
+      quantity: parseFloat(entry.quantity)
+    }));
+  }
+
   /**
    * Get KPI data for maintenance tickets dashboard
    * GET /api/vendor/tickets/kpis
@@ -237,6 +288,7 @@ export class MaintenanceTicketController extends BaseController {
         issue_description,
         priority,
         scheduled_date: req.body.scheduled_date || undefined,
+        estimated_hours: req.body.estimated_hours ? parseFloat(req.body.estimated_hours) : undefined,
         // Auto-assign to current vendor user, or use provided technician ID
         assigned_technician: req.body.assigned_technician ? parseInt(req.body.assigned_technician) : currentUserId
       };
@@ -268,6 +320,51 @@ export class MaintenanceTicketController extends BaseController {
     }
   }
 
+  /**
+   * Get tickets scheduled in a date range with technician workload warnings
+   * GET /api/vendor/tickets/calendar
+   */
+  async getCalendarTickets(req: Request, res: Response): Promise<void> {
+    try {
+      const vendorId = await this.getVendorId(req as AuthenticatedRequest);
+
+      if (!vendorId) {
+        ApiResponseUtil.unauthorized(res);
+        return;
+      }
+
+      if (!this.handleValidation(req, res)) return;
+
+      const start = new Date(req.query.start as string);
+      const end = new Date(req.query.end as string);
+      const rangeDays = (end.getTime() - start.getTime()) / (24 * 3600000);
+
+      if (rangeDays <= 0 || rangeDays > 62) {
+        ApiResponseUtil.badRequest(res, 'End must be after start and the range at most 62 days');
+        return;
+      }
+
+      const technicianId = req.query.technician_id ? parseInt(req.query.technician_id as string) : undefined;
+
+      const [tickets, unscheduled] = await Promise.all([
+        MaintenanceTicketRepository.getCalendarTickets(vendorId, start.toISOString(), end.toISOString(), technicianId),
+        req.query.include_unscheduled === 'true'
+          ? MaintenanceTicketRepository.getUnscheduledTickets(vendorId)
+          : Promise.resolve([])
+      ]);
+
+      ApiResponseUtil.success(res, {
+        tickets,
+        unscheduled,
+        warnings: getScheduleWarnings(tickets),
+        capacity_hours: WORKDAY_HOURS
+      }, 'Calendar retrieved successfully');
+    } catch (error) {
+      console.error('Error fetching ticket calendar:', error);
+      ApiResponseUtil.internalError(res, 'Failed to fetch ticket calendar');
+    }
+  }
+
   /**
    * Get detailed ticket information
    * GET /api/vendor/tickets/:id
@@ -383,13 +480,16 @@ export class MaintenanceTicketController extends BaseController {
         priority: req.body.priority,
         issue_description: req.body.issue_description,
         scheduled_date: req.body.scheduled_date,
-        assigned_technician: req.body.assigned_technician ? parseInt(req.body.assigned_technician) : undefined
+        estimated_hours: req.body.estimated_hours ? parseFloat(req.body.estimated_hours) : undefined,
+        assigned_technician: req.body.assigned_technician === null
+          ? null
+          : req.body.assigned_technician ? parseInt(req.body.assigned_technician) : undefined
       };
 
-      // Remove undefined values and empty strings
+      // Remove undefined values and empty strings; a null technician unassigns the ticket
       Object.keys(updateData).forEach(key => {
         const value = updateData[key as keyof UpdateTicketData];
-        if (value === undefined || value === '' || value === null) {
+        if (value === undefined || value === '' || (value === null && key !== 'assigned_technician')) {
           delete updateData[key as keyof UpdateTicketData];
         }
       });
@@ -427,6 +527,8 @@ export class MaintenanceTicketController extends BaseController {
         ApiResponseUtil.unauthorized(res);
         return;
       }
+
+      if (!this.handleValidation(req, res)) return;
       
       const idParam = req.params.id;
       let ticketNumber: string;
@@ -460,9 +562,13 @@ export class MaintenanceTicketController extends BaseController {
       const resolveData: ResolveTicketData = {
         resolution_description,
         actual_hours: req.body.actual_hours ? parseFloat(req.body.actual_hours) : undefined,
+        checklist_results: this.parseChecklistResults(req.body.checklist_results),
+        parts: this.parseParts(req.body.parts),
+        resolved_by: (req as AuthenticatedRequest).user?.userId
       };
 
       const result = await MaintenanceTicketRepository.resolveTicket(ticketNumber, vendorId, resolveData);
+      await notifyLowStock(vendorId);
       
       // Get ticket details for email notification
       const ticketDetails = await MTRepository.getTicketDetailsByNumber(ticketNumber, vendorId);
@@ -483,6 +589,64 @@ export class MaintenanceTicketController extends BaseController {
     }
   }
 
+  /**
+   * Get the inspection checklist for a ticket
+   * GET /api/vendor/tickets/:id/checklist
+   */
+  async getTicketChecklist(req: Request, res: Response): Promise<void> {
+    try {
+      const vendorId = await this.getVendorId(req as AuthenticatedRequest);
+      
+      if (!vendorId) {
+        ApiResponseUtil.unauthorized(res);
+        return;
+      }
+      
+      const ticketId = parseInt(req.params.id);
+      
+      if (isNaN(ticketId)) {
+        ApiResponseUtil.badRequest(res, 'Invalid ticket ID');
+        return;
+      }
+
+      const checklist = await InspectionChecklistRepository.getTicketChecklist(ticketId, vendorId);
+      ApiResponseUtil.success(res, checklist, 'Ticket checklist retrieved successfully');
+    } catch (error) {
+      console.error('Error fetching ticket checklist:', error);
+      ApiResponseUtil.internalError(res, 'Failed to fetch ticket checklist');
+    }
+  }
+
+  /**
+   * Get the parts used on a ticket
+   * GET /api/vendor/tickets/:id/parts
+   */
+  async getTicketParts(req: Request, res: Response): Promise<void> {
+    try {
+      const vendorId = await this.getVendorId(req as AuthenticatedRequest);
+
+      if (!vendorId) {
+        ApiResponseUtil.unauthorized(res);
+        return;
+      }
+
+      if (!this.handleValidation(req, res)) return;
+
+      const ticket = await MaintenanceTicketRepository.getTicketById(parseInt(req.params.id), vendorId);
+
+      if (!ticket) {
+        ApiResponseUtil.notFound(res, 'Ticket not found');
+        return;
+      }
+
+      const parts = await PartsRepository.getTicketParts(ticket.id);
+      ApiResponseUtil.success(res, parts, 'Ticket parts retrieved successfully');
+    } catch (error) {
+      console.error('Error fetching ticket parts:', error);
+      ApiResponseUtil.internalError(res, 'Failed to fetch ticket parts');
+    }
+  }
+
   /**
    * Close ticket
    * PUT /api/vendor/tickets/:id/close
@@ -562,12 +726,225 @@ export class MaintenanceTicketController extends BaseController {
   }
 
   /**
-   * Send ticket created email to client
+   * Get tickets assigned to the authenticated technician
+   * GET /api/technician/tickets
+   */
+  async getAssignedTickets(req: Request, res: Response): Promise<void> {
+    try {
+      const technicianUserId = await this.getActiveTechnicianUserId(req as AuthenticatedRequest);
+
+      if (!technicianUserId) {
+        ApiResponseUtil.forbidden(res, 'Access denied. Active technician account required.');
+        return;
+      }
+
+      const tickets = await MaintenanceTicketRepository.getTechnicianTickets(technicianUserId, {
+        status: req.query.status as string,
+        search: req.query.search as string
+      });
+
+      ApiResponseUtil.success(res, tickets, 'Assigned tickets retrieved successfully');
+    } catch (error) {
+      console.error('Error fetching assigned tickets:', error);
+      ApiResponseUtil.internalError(res, 'Failed to fetch assigned tickets');
+    }
+  }
+
+  /**
+   * Get an assigned ticket's details
+   * GET /api/technician/tickets/:id
+   */
+  async getAssignedTicketDetails(req: Request, res: Response): Promise<void> {
+    try {
+      const technicianUserId = await this.getActiveTechnicianUserId(req as AuthenticatedRequest);
+
+      if (!technicianUserId) {
+        ApiResponseUtil.forbidden(res, 'Access denied. Active technician account required.');
+        return;
+      }
+
+      if (!this.handleValidation(req, res)) return;
+
+      const ticket = await MaintenanceTicketRepository.getTechnicianTicketDetails(parseInt(req.params.id), technicianUserId);
+
+      if (!ticket) {
+        ApiResponseUtil.notFound(res, 'Ticket not found');
+        return;
+      }
+
+      ApiResponseUtil.success(res, ticket, 'Ticket details retrieved successfully');
+    } catch (error) {
+      console.error('Error fetching assigned ticket details:', error);
+      ApiResponseUtil.internalError(res, 'Failed to fetch ticket details');
+    }
+  }
+
+  /**
+   * Get the inspection checklist for an assigned ticket
+   * GET /api/technician/tickets/:id/checklist
+   */
+  async getAssignedTicketChecklist(req: Request, res: Response): Promise<void> {
+    try {
+      const technicianUserId = await this.getActiveTechnicianUserId(req as AuthenticatedRequest);
+
+      if (!technicianUserId) {
+        ApiResponseUtil.forbidden(res, 'Access denied. Active technician account required.');
+        return;
+      }
+
+      if (!this.handleValidation(req, res)) return;
+
+      const ticket = await MaintenanceTicketRepository.getTechnicianTicketDetails(parseInt(req.params.id), technicianUserId);
+
+      if (!ticket) {
+        ApiResponseUtil.notFound(res, 'Ticket not found');
+        return;
+      }
+
+      const checklist = await InspectionChecklistRepository.getTicketChecklist(ticket.id, ticket.vendor_id);
+      ApiResponseUtil.success(res, checklist, 'Ticket checklist retrieved successfully');
+    } catch (error) {
+      console.error('Error fetching assigned ticket checklist:', error);
+      ApiResponseUtil.internalError(res, 'Failed to fetch ticket checklist');
+    }
+  }
+
+  /**
+   * Get the parts used on an assigned ticket
+   * GET /api/technician/tickets/:id/parts
+   */
+  async getAssignedTicketParts(req: Request, res: Response): Promise<void> {
+    try {
+      const technicianUserId = await this.getActiveTechnicianUserId(req as AuthenticatedRequest);
+
+      if (!technicianUserId) {
+        ApiResponseUtil.forbidden(res, 'Access denied. Active technician account required.');
+        return;
+      }
+
+      if (!this.handleValidation(req, res)) return;
+
+      const ticket = await MaintenanceTicketRepository.getTechnicianTicketDetails(parseInt(req.params.id), technicianUserId);
+
+      if (!ticket) {
+        ApiResponseUtil.notFound(res, 'Ticket not found');
+        return;
+      }
+
+      const parts = await PartsRepository.getTicketParts(ticket.id);
+      ApiResponseUtil.success(res, parts, 'Ticket parts retrieved successfully');
+    } catch (error) {
+      console.error('Error fetching assigned ticket parts:', error);
+      ApiResponseUtil.internalError(res, 'Failed to fetch ticket parts');
+    }
+  }
+
+  /**
+   * Record hours and resolution notes on an assigned ticket
+   * PUT /api/technician/tickets/:id
+   */
+  async updateAssignedTicket(req: Request, res: Response): Promise<void> {
+    try {
+      const technicianUserId = await this.getActiveTechnicianUserId(req as AuthenticatedRequest);
+
+      if (!technicianUserId) {
+        ApiResponseUtil.forbidden(res, 'Access denied. Active technician account required.');
+        return;
+      }
+
+      if (!this.handleValidation(req, res)) return;
+
+      const updateData: TechnicianTicketUpdateData = {
+        actual_hours: req.body.actual_hours !== undefined && req.body.actual_hours !== ''
+          ? parseFloat(req.body.actual_hours)
+          : undefined,
+        resolution_description: req.body.resolution_description || undefined
+      };
+
+      if (updateData.actual_hours === undefined && updateData.resolution_description === undefined) {
+        ApiResponseUtil.badRequest(res, 'No update data provided');
+        return;
+      }
+
+      const result = await MaintenanceTicketRepository.updateTechnicianTicket(
+        parseInt(req.params.id),
+        technicianUserId,
+        updateData
+      );
+
+      ApiResponseUtil.success(res, result, 'Ticket updated successfully');
+    } catch (error) {
+      console.error('Error updating assigned ticket:', error);
+      if (error instanceof Error) {
+        ApiResponseUtil.badRequest(res, error.message);
+      } else {
+        ApiResponseUtil.internalError(res, 'Failed to update ticket');
+      }
+    }
+  }
+
+  /**
+   * Resolve an assigned ticket
+   * PUT /api/technician/tickets/:id/resolve
+   */
+  async resolveAssignedTicket(req: Request, res: Response): Promise<void> {
+    try {
+      const technicianUserId = await this.getActiveTechnicianUserId(req as AuthenticatedRequest);
+
+      if (!technicianUserId) {
+        ApiResponseUtil.forbidden(res, 'Access denied. Active technician account required.');
+        return;
+      }
+
+      if (!this.handleValidation(req, res)) return;
+
+      const ticket = await MaintenanceTicketRepository.getTechnicianTicketDetails(parseInt(req.params.id), technicianUserId);
+
+      if (!ticket) {
+        ApiResponseUtil.notFound(res, 'Ticket not found');
+        return;
+      }
+
+      const { resolution_description } = req.body;
+
+      if (!resolution_description) {
+        ApiResponseUtil.badRequest(res, 'Resolution description is required');
+        return;
+      }
+
+      const resolveData: ResolveTicketData = {
+        resolution_description,
+        actual_hours: req.body.actual_hours ? parseFloat(req.body.actual_hours) : undefined,
+        checklist_results: this.parseChecklistResults(req.body.checklist_results),
+        parts: this.parseParts(req.body.parts),
+        resolved_by: technicianUserId
+      };
+
+      const result = await MaintenanceTicketRepository.resolveTicket(ticket.ticket_number, ticket.vendor_id, resolveData);
+      await notifyLowStock(ticket.vendor_id);
+
+      this.sendTicketCompletedEmail(ticket.id).catch((err: Error) => {
+        console.error('Failed to send ticket completion email:', err);
+      });
+
+      ApiResponseUtil.success(res, result, 'Ticket resolved successfully');
+    } catch (error) {
+      console.error('Error resolving assigned ticket:', error);
+      if (error instanceof Error) {
+        ApiResponseUtil.badRequest(res, error.message);
+      } else {
+        ApiResponseUtil.internalError(res, 'Failed to resolve ticket');
+      }
+    }
+  }
+
+  /**
+   * Queue ticket created emails to client and vendor
    * Private helper method
    */
   private async sendTicketCreatedEmail(ticketId: number): Promise<void> {
     try {
-      console.log('\n===== SENDING TICKET CREATED EMAILS =====');
+      console.log('\n===== QUEUEING TICKET CREATED EMAILS =====');
       console.log('[Ticket ID]:', ticketId);
       console.log('[Timestamp]:', new Date().toISOString());
       
@@ -583,8 +960,11 @@ export class MaintenanceTicketController extends BaseController {
           eq.equipment_name,
           ei.serial_number,
           c.company_name as client_name,
+          cu.id as client_user_id,
           cu.email as client_email,
+          mt.vendor_id,
           v.company_name as vendor_name,
+          vu.id as vendor_user_id,
           vu.email as vendor_email
         FROM maintenance_ticket mt
         LEFT JOIN equipment_instance ei ON mt.equipment_instance_id = ei.id
@@ -614,77 +994,63 @@ export class MaintenanceTicketController extends BaseController {
       
       const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
 
-      console.log('\n[Sending email to CLIENT]');
-      // Send email to CLIENT
-      const clientEmailResult = await emailService.sendMaintenanceTicketCreated({
-        to: ticket.client_email,
-        clientName: ticket.client_name,
-        ticketId: ticketId,
-        equipmentName: ticket.equipment_name || 'General Maintenance',
-        serialNumber: ticket.serial_number || 'N/A',
-        scheduledDate: ticket.scheduled_date 
-          ? new Date(ticket.scheduled_date).toLocaleDateString() 
-          : 'To be scheduled',
-        priority: ticket.priority,
-        status: ticket.ticket_status,
-        description: ticket.issue_description,
-        dashboardUrl: `${frontendUrl}/client/tickets/${ticket.ticket_number}`,
-      });
-
-      // Log client email
-      await emailRepository.logEmail({
-        recipientEmail: ticket.client_email,
-        templateType: 'maintenanceTicketCreated',
-        subject: `New Maintenance Ticket Created - #${ticketId}`,
-        status: clientEmailResult.success ? 'sent' : 'failed',
-        messageId: clientEmailResult.messageId,
-        errorMessage: clientEmailResult.error,
-        metadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'client' },
-      });
-      
-      if (clientEmailResult.success) {
-        console.log('[SUCCESS] Client email sent successfully');
-      } else {
-        console.log('[FAILED] Client email failed:', clientEmailResult.error);
-      }
+      // Queue email to CLIENT
+      await messageQueue.queueEmail(
+        emailService.buildMaintenanceTicketCreated({
+          to: ticket.client_email,
+          vendorId: ticket.vendor_id,
+          clientName: ticket.client_name,
+          ticketId: ticketId,
+          equipmentName: ticket.equipment_name || 'General Maintenance',
+          serialNumber: ticket.serial_number || 'N/A',
+          scheduledDate: ticket.scheduled_date 
+            ? new Date(ticket.scheduled_date).toLocaleDateString() 
+            : 'To be scheduled',
+          priority: ticket.priority,
+          status: ticket.ticket_status,
+          description: ticket.issue_description,
+          dashboardUrl: `${frontendUrl}/client/tickets/${ticket.ticket_number}`,
+        }),
+        {
+          idempotencyKey: `ticket-created:${ticketId}:client`,
+          relatedEntityType: 'ticket',
+          relatedEntityId: ticketId,
+          recipientUserId: ticket.client_user_id,
+          eventType: 'ticket_created',
+          actionUrl: `${frontendUrl}/client/tickets/${ticket.ticket_number}`,
+          logMetadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'client' },
+        }
+      );
 
-      console.log('\n[Sending email to VENDOR]');
-      // Send email to VENDOR
-      const vendorEmailResult = await emailService.sendMaintenanceTicketCreated({
-        to: ticket.vendor_email,
-        clientName: ticket.vendor_name,
-        ticketId: ticketId,
-        equipmentName: ticket.equipment_name || 'General Maintenance',
-        serialNumber: ticket.serial_number || 'N/A',
-        scheduledDate: ticket.scheduled_date 
-          ? new Date(ticket.scheduled_date).toLocaleDateString() 
-          : 'To be scheduled',
-        priority: ticket.priority,
-        status: ticket.ticket_status,
-        description: ticket.issue_description,
-        dashboardUrl: `${frontendUrl}/vendor/tickets/${ticket.ticket_number}`,
-      });
+      // Queue email to VENDOR
+      await messageQueue.queueEmail(
+        emailService.buildMaintenanceTicketCreated({
+          to: ticket.vendor_email,
+          vendorId: ticket.vendor_id,
+          clientName: ticket.vendor_name,
+          ticketId: ticketId,
+          equipmentName: ticket.equipment_name || 'General Maintenance',
+          serialNumber: ticket.serial_number || 'N/A',
+          scheduledDate: ticket.scheduled_date 
+            ? new Date(ticket.scheduled_date).toLocaleDateString() 
+            : 'To be scheduled',
+          priority: ticket.priority,
+          status: ticket.ticket_status,
+          description: ticket.issue_description,
+          dashboardUrl: `${frontendUrl}/vendor/tickets/${ticket.ticket_number}`,
+        }),
+        {
+          idempotencyKey: `ticket-created:${ticketId}:vendor`,
+          relatedEntityType: 'ticket',
+          relatedEntityId: ticketId,
+          recipientUserId: ticket.vendor_user_id,
+          eventType: 'ticket_created',
+          actionUrl: `${frontendUrl}/vendor/tickets/${ticket.ticket_number}`,
+          logMetadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'vendor' },
+        }
+      );
 
-      // Log vendor email
-      await emailRepository.logEmail({
-        recipientEmail: ticket.vendor_email,
-        templateType: 'maintenanceTicketCreated',
-        subject: `New Maintenance Ticket Created - #${ticketId}`,
-        status: vendorEmailResult.success ? 'sent' : 'failed',
-        messageId: vendorEmailResult.messageId,
-        errorMessage: vendorEmailResult.error,
-        metadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'vendor' },
-      });
-      
-      if (vendorEmailResult.success) {
-        console.log('[SUCCESS] Vendor email sent successfully');
-      } else {
-        console.log('[FAILED] Vendor email failed:', vendorEmailResult.error);
-      }
-      
-      console.log('\n[TICKET CREATED EMAIL PROCESS COMPLETED]');
-      console.log('   - Client Email:', clientEmailResult.success ? '[SENT]' : '[FAILED]');
-      console.log('   - Vendor Email:', vendorEmailResult.success ? '[SENT]' : '[FAILED]');
+      console.log('[TICKET CREATED EMAILS QUEUED]');
       console.log('===========================\n');
     } catch (error) {
       console.error('\n[ERROR IN TICKET CREATED EMAIL PROCESS]');
@@ -696,11 +1062,11 @@ export class MaintenanceTicketController extends BaseController {
   }
 
   /**
-   * Send ticket updated email to client
+   * Queue ticket updated emails to client and vendor
    * Private helper method
    */
   private async sendTicketUpdatedEmail(ticketId: number, updateReason?: string): Promise<void> {
-    console.log('\n===== SENDING TICKET UPDATED EMAILS =====');
+    console.log('\n===== QUEUEING TICKET UPDATED EMAILS =====');
     console.log('[Ticket ID]:', ticketId);
     if (updateReason) console.log('[Update Reason]:', updateReason);
     console.log('[Timestamp]:', new Date().toISOString());
@@ -711,12 +1077,16 @@ export class MaintenanceTicketController extends BaseController {
           mt.id,
           mt.ticket_number,
           mt.ticket_status,
+          mt.updated_at,
           mt.resolved_at as completed_at,
           mt.resolution_description as technician_notes,
           eq.equipment_name,
           c.company_name as client_name,
+          cu.id as client_user_id,
           cu.email as client_email,
+          mt.vendor_id,
           v.company_name as vendor_name,
+          vu.id as vendor_user_id,
           vu.email as vendor_email,
           tech_user.first_name || ' ' || tech_user.last_name as technician_name
         FROM maintenance_ticket mt
@@ -742,88 +1112,55 @@ export class MaintenanceTicketController extends BaseController {
 
       // Send emails to both CLIENT and VENDOR
       const isCompleted = ticket.ticket_status === 'resolved' && ticket.completed_at;
-      
-      // Send to CLIENT
-      let clientEmailResult;
-      if (isCompleted) {
-        clientEmailResult = await emailService.sendMaintenanceCompleted({
-          to: ticket.client_email,
-          clientName: ticket.client_name,
-          ticketId: ticketId,
-          equipmentName: ticket.equipment_name || 'General Maintenance',
-          completedDate: new Date(ticket.completed_at).toLocaleDateString(),
-          technicianName: ticket.technician_name || 'Service Team',
-          technicianNotes: ticket.technician_notes,
-          complianceStatus: 'Compliant',
-          nextMaintenanceDate: 'To be determined',
-          dashboardUrl: `${frontendUrl}/client/tickets/${ticket.ticket_number}`,
-        });
-      } else {
-        clientEmailResult = await emailService.sendMaintenanceTicketUpdated({
-          to: ticket.client_email,
-          clientName: ticket.client_name,
-          ticketId: ticketId,
-          equipmentName: ticket.equipment_name || 'General Maintenance',
-          status: ticket.ticket_status,
-          completedDate: ticket.completed_at ? new Date(ticket.completed_at).toLocaleDateString() : undefined,
-          technicianName: ticket.technician_name,
-          technicianNotes: ticket.technician_notes,
-          updateReason: updateReason,
-          dashboardUrl: `${frontendUrl}/client/tickets/${ticket.ticket_number}`,
-        });
-      }
 
-      // Log client email
-      await emailRepository.logEmail({
-        recipientEmail: ticket.client_email,
-        templateType: isCompleted ? 'maintenanceCompleted' : 'maintenanceTicketUpdated',
-        subject: `Maintenance Ticket Updated - #${ticketId}`,
-        status: clientEmailResult.success ? 'sent' : 'failed',
-        messageId: clientEmailResult.messageId,
-        errorMessage: clientEmailResult.error,
-        metadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'client' },
-      });
+      // One notification per saved revision of the ticket
+      const revision = new Date(ticket.updated_at).getTime();
 
-      // Send to VENDOR
-      let vendorEmailResult;
-      if (isCompleted) {
-        vendorEmailResult = await emailService.sendMaintenanceCompleted({
-          to: ticket.vendor_email,
-          clientName: ticket.vendor_name,
-          ticketId: ticketId,
-          equipmentName: ticket.equipment_name || 'General Maintenance',
-          completedDate: new Date(ticket.completed_at).toLocaleDateString(),
-          technicianName: ticket.technician_name || 'Service Team',
-          technicianNotes: ticket.technician_notes,
-          complianceStatus: 'Compliant',
-          nextMaintenanceDate: 'To be determined',
-          dashboardUrl: `${frontendUrl}/vendor/tickets/${ticket.ticket_number}`,
-        });
-      } else {
-        vendorEmailResult = await emailService.sendMaintenanceTicketUpdated({
-          to: ticket.vendor_email,
-          clientName: ticket.vendor_name,
-          ticketId: ticketId,
-          equipmentName: ticket.equipment_name || 'General Maintenance',
-          status: ticket.ticket_status,
-          completedDate: ticket.completed_at ? new Date(ticket.completed_at).toLocaleDateString() : undefined,
-          technicianName: ticket.technician_name,
-          technicianNotes: ticket.technician_notes,
-          updateReason: updateReason,
-          dashboardUrl: `${frontendUrl}/vendor/tickets/${ticket.ticket_number}`,
+      const recipients = [
+        { role: 'client', userId: ticket.client_user_id, email: ticket.client_email, name: ticket.client_name },
+        { role: 'vendor', userId: ticket.vendor_user_id, email: ticket.vendor_email, name: ticket.vendor_name },
+      ];
+
+      for (const recipient of recipients) {
+        const dashboardUrl = `${frontendUrl}/${recipient.role}/tickets/${ticket.ticket_number}`;
+        const options = isCompleted
+          ? emailService.buildMaintenanceCompleted({
+              to: recipient.email,
+              vendorId: ticket.vendor_id,
+              clientName: recipient.name,
+              ticketId: ticketId,
+              equipmentName: ticket.equipment_name || 'General Maintenance',
+              completedDate: new Date(ticket.completed_at).toLocaleDateString(),
+              technicianName: ticket.technician_name || 'Service Team',
+              technicianNotes: ticket.technician_notes,
+              complianceStatus: 'Compliant',
+              nextMaintenanceDate: 'To be determined',
+              dashboardUrl,
+            })
+          : emailService.buildMaintenanceTicketUpdated({
+              to: recipient.email,
+              vendorId: ticket.vendor_id,
+              clientName: recipient.name,
+              ticketId: ticketId,
+              equipmentName: ticket.equipment_name || 'General Maintenance',
+              status: ticket.ticket_status,
+              completedDate: ticket.completed_at ? new Date(ticket.completed_at).toLocaleDateString() : undefined,
+              technicianName: ticket.technician_name,
+              technicianNotes: ticket.technician_notes,
+              updateReason: updateReason,
+              dashboardUrl,
+            });
+
+        await messageQueue.queueEmail(options, {
+          idempotencyKey: `ticket-updated:${ticketId}:${revision}:${recipient.role}`,
+          relatedEntityType: 'ticket',
+          relatedEntityId: ticketId,
+          recipientUserId: recipient.userId,
+          eventType: isCompleted ? 'ticket_resolved' : 'ticket_updated',
+          actionUrl: dashboardUrl,
+          logMetadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: recipient.role },
         });
       }
-
-      // Log vendor email
-      await emailRepository.logEmail({
-        recipientEmail: ticket.vendor_email,
-        templateType: isCompleted ? 'maintenanceCompleted' : 'maintenanceTicketUpdated',
-        subject: `Maintenance Ticket Updated - #${ticketId}`,
-        status: vendorEmailResult.success ? 'sent' : 'failed',
-        messageId: vendorEmailResult.messageId,
-        errorMessage: vendorEmailResult.error,
-        metadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'vendor' },
-      });
     } catch (error) {
       console.error('Error sending ticket updated email:', error);
       throw error;
@@ -831,12 +1168,12 @@ export class MaintenanceTicketController extends BaseController {
   }
 
   /**
-   * Send ticket completion email to client and vendor
+   * Queue ticket completion emails to client and vendor
    * Private helper method
    */
   private async sendTicketCompletedEmail(ticketId: number): Promise<void> {
     try {
-      console.log('\n===== SENDING TICKET COMPLETED EMAILS =====');
+      console.log('\n===== QUEUEING TICKET COMPLETED EMAILS =====');
       console.log('[Ticket ID]:', ticketId);
       console.log('[Timestamp]:', new Date().toISOString());
       
@@ -850,8 +1187,11 @@ export class MaintenanceTicketController extends BaseController {
           mt.resolution_description as technician_notes,
           eq.equipment_name,
           c.company_name as client_name,
+          cu.id as client_user_id,
           cu.email as client_email,
+          mt.vendor_id,
           v.company_name as vendor_name,
+          vu.id as vendor_user_id,
           vu.email as vendor_email,
           tech_user.first_name || ' ' || tech_user.last_name as technician_name
         FROM maintenance_ticket mt
@@ -880,76 +1220,66 @@ export class MaintenanceTicketController extends BaseController {
       console.log('   - Technician:', ticket.technician_name);
       
       const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+      const completedDate = ticket.completed_at 
+        ? new Date(ticket.completed_at).toLocaleDateString() 
+        : new Date().toLocaleDateString();
 
-      console.log('\n[Sending completion email to CLIENT]');
-      // Send completion email to CLIENT
-      const clientEmailResult = await emailService.sendMaintenanceCompleted({
-        to: ticket.client_email,
-        clientName: ticket.client_name,
-        ticketId: ticketId,
-        equipmentName: ticket.equipment_name || 'Equipment',
-        completedDate: ticket.completed_at 
-          ? new Date(ticket.completed_at).toLocaleDateString() 
-          : new Date().toLocaleDateString(),
-        technicianName: ticket.technician_name || 'Service Team',
-        technicianNotes: ticket.technician_notes,
-        complianceStatus: 'Compliant',
-        nextMaintenanceDate: 'To be scheduled',
-        dashboardUrl: `${frontendUrl}/service-requests`,
-      });
+      // A reopened ticket that is resolved again gets a new resolved_at
+      const resolution = ticket.completed_at ? new Date(ticket.completed_at).getTime() : 'unresolved';
 
-      await emailRepository.logEmail({
-        recipientEmail: ticket.client_email,
-        templateType: 'maintenanceCompleted',
-        subject: `Service Request Completed - #${ticketId}`,
-        status: clientEmailResult.success ? 'sent' : 'failed',
-        messageId: clientEmailResult.messageId,
-        errorMessage: clientEmailResult.error,
-        metadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'client' },
-      });
-      
-      if (clientEmailResult.success) {
-        console.log('[SUCCESS] Client completion email sent');
-      } else {
-        console.log('[FAILED] Client completion email failed:', clientEmailResult.error);
-      }
+      // Queue completion email to CLIENT
+      await messageQueue.queueEmail(
+        emailService.buildMaintenanceCompleted({
+          to: ticket.client_email,
+          vendorId: ticket.vendor_id,
+          clientName: ticket.client_name,
+          ticketId: ticketId,
+          equipmentName: ticket.equipment_name || 'Equipment',
+          completedDate,
+          technicianName: ticket.technician_name || 'Service Team',
+          technicianNotes: ticket.technician_notes,
+          complianceStatus: 'Compliant',
+          nextMaintenanceDate: 'To be scheduled',
+          dashboardUrl: `${frontendUrl}/service-requests`,
+        }),
+        {
+          idempotencyKey: `ticket-completed:${ticketId}:${resolution}:client`,
+          relatedEntityType: 'ticket',
+          relatedEntityId: ticketId,
+          recipientUserId: ticket.client_user_id,
+          eventType: 'ticket_resolved',
+          actionUrl: `${frontendUrl}/service-requests`,
+          logMetadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'client' },
+        }
+      );
 
-      console.log('\n[Sending completion email to VENDOR]');
-      // Send completion email to VENDOR
-      const vendorEmailResult = await emailService.sendMaintenanceCompleted({
-        to: ticket.vendor_email,
-        clientName: ticket.vendor_name,
-        ticketId: ticketId,
-        equipmentName: ticket.equipment_name || 'Equipment',
-        completedDate: ticket.completed_at 
-          ? new Date(ticket.completed_at).toLocaleDateString() 
-          : new Date().toLocaleDateString(),
-        technicianName: ticket.technician_name || 'Service Team',
-        technicianNotes: ticket.technician_notes,
-        complianceStatus: 'Compliant',
-        nextMaintenanceDate: 'To be scheduled',
-        dashboardUrl: `${frontendUrl}/vendors/tickets`,
-      });
+      // Queue completion email to VENDOR
+      await messageQueue.queueEmail(
+        emailService.buildMaintenanceCompleted({
+          to: ticket.vendor_email,
+          vendorId: ticket.vendor_id,
+          clientName: ticket.vendor_name,
+          ticketId: ticketId,
+          equipmentName: ticket.equipment_name || 'Equipment',
+          completedDate,
+          technicianName: ticket.technician_name || 'Service Team',
+          technicianNotes: ticket.technician_notes,
+          complianceStatus: 'Compliant',
+          nextMaintenanceDate: 'To be scheduled',
+          dashboardUrl: `${frontendUrl}/vendors/tickets`,
+        }),
+        {
+          idempotencyKey: `ticket-completed:${ticketId}:${resolution}:vendor`,
+          relatedEntityType: 'ticket',
+          relatedEntityId: ticketId,
+          recipientUserId: ticket.vendor_user_id,
+          eventType: 'ticket_resolved',
+          actionUrl: `${frontendUrl}/vendors/tickets`,
+          logMetadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'vendor' },
+        }
+      );
 
-      await emailRepository.logEmail({
-        recipientEmail: ticket.vendor_email,
-        templateType: 'maintenanceCompleted',
-        subject: `Service Request Completed - #${ticketId}`,
-        status: vendorEmailResult.success ? 'sent' : 'failed',
-        messageId: vendorEmailResult.messageId,
-        errorMessage: vendorEmailResult.error,
-        metadata: { ticketId, ticketNumber: ticket.ticket_number, recipient: 'vendor' },
-      });
-      
-      if (vendorEmailResult.success) {
-        console.log('[SUCCESS] Vendor completion email sent');
-      } else {
-        console.log('[FAILED] Vendor completion email failed:', vendorEmailResult.error);
-      }
-      
-      console.log('\n[TICKET COMPLETED EMAIL PROCESS FINISHED]');
-      console.log('   - Client Email:', clientEmailResult.success ? '[SENT]' : '[FAILED]');
-      console.log('   - Vendor Email:', vendorEmailResult.success ? '[SENT]' : '[FAILED]');
+      console.log('[TICKET COMPLETED EMAILS QUEUED]');
       console.log('===========================\n');
     } catch (error) {
       console.error('\n[ERROR IN TICKET COMPLETED EMAIL PROCESS]');
@@ -966,7 +1296,7 @@ export class MaintenanceTicketController extends BaseController {
    */
   private async sendHighPriorityTicketSms(ticketId: number, vendorId: number, clientId?: number): Promise<void> {
     try {
-      console.log('\n===== SENDING HIGH PRIORITY TICKET SMS =====');
+      console.log('\n===== QUEUEING HIGH PRIORITY TICKET SMS =====');
       console.log('[Ticket ID]:', ticketId);
       console.log('[Timestamp]:', new Date().toISOString());
       
@@ -1030,29 +1360,22 @@ export class MaintenanceTicketController extends BaseController {
 
       // Generate message
       const equipmentName = ticket.equipment_name || 'equipment';
-      const message = SmsTemplates[SmsMessageType.HIGH_PRIORITY_TICKET](
-        ticket.ticket_number,
-        equipmentName
+      const message = await renderSms(
+        SmsMessageType.HIGH_PRIORITY_TICKET,
+        { ticketNumber: ticket.ticket_number, equipmentName },
+        vendorId
       );
 
       console.log('[Message]:', message);
       console.log('[Recipients]:', recipients.length);
       
-      // Send SMS
-      const smsResult = await SmsService.sendSms(
-        recipients,
-        message,
-        SmsMessageType.HIGH_PRIORITY_TICKET,
-        'ticket',
-        ticketId
-      );
-      
-      if (smsResult.success) {
-        console.log('[SUCCESS] SMS sent to', smsResult.recipientCount, 'recipient(s)');
-      } else {
-        console.log('[FAILED] SMS sending failed:', smsResult.statusMessage);
-      }
+      await messageQueue.queueSms(recipients, message, SmsMessageType.HIGH_PRIORITY_TICKET, {
+        idempotencyKey: `ticket-high-priority:${ticketId}`,
+        relatedEntityType: 'ticket',
+        relatedEntityId: ticketId,
+      });
       
+      console.log('[SMS QUEUED]');
       console.log('===========================\n');
     } catch (error) {
       console.error('\n[ERROR IN HIGH PRIORITY SMS PROCESS]');
@@ -0,0 +1,127 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import {
+  MessageChannel,
+  MessageStatus,
+  OutboundMessageRepository
+} from '../models/OutboundMessageRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { messageQueue } from '../services/messageQueue';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+/**
+ * Message Queue Controller
+ * Lets admins inspect queued emails and SMS, and retry or cancel the ones
+ * that failed
+ */
+export class MessageQueueController extends BaseController {
+
+  /**
+   * List queued messages, newest first
+   * GET /api/message-queue
+   */
+  getMessages = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+
+    const { messages, total } = await OutboundMessageRepository.list({
+      status: req.query.status as MessageStatus | undefined,
+      channel: req.query.channel as MessageChannel | undefined,
+      search: (req.query.search as string | undefined)?.trim() || undefined,
+      limit,
+      offset: (page - 1) * limit
+    });
+
+    return ApiResponseUtil.paginated(res, messages, page, limit, total, 'Messages retrieved successfully');
+  });
+
+  /**
+   * Message counts by channel and status
+   * GET /api/message-queue/stats
+   */
+  getStats = this.asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+    const stats = await OutboundMessageRepository.getStats();
+    return ApiResponseUtil.success(res, stats, 'Queue statistics retrieved successfully');
+  });
+
+  /**
+   * Get a single message with its payload
+   * GET /api/message-queue/:id
+   */
+  getMessage = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const message = await OutboundMessageRepository.findById(parseInt(req.params.id));
+    if (!message) {
+      return ApiResponseUtil.notFound(res, 'Message not found');
+    }
+
+    return ApiResponseUtil.success(res, message, 'Message retrieved successfully');
+  });
+
+  /**
+   * Queue a dead, skipped or cancelled message for delivery again
+   * POST /api/message-queue/:id/retry
+   */
+  retryMessage = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const messageId = parseInt(req.params.id);
+    const message = await OutboundMessageRepository.retry(messageId);
+    if (!message) {
+      return this.respondNotChanged(res, messageId, 'Only dead, skipped or cancelled messages can be retried');
+    }
+
+    await AuditRepository.createLog(
+      'outbound_message',
+      { message_id: messageId },
+      'UPDATE',
+      { action: 'message_retried', channel: message.channel },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    messageQueue.processDue().catch(error => console.error('❌ Message queue run failed:', error));
+
+    return ApiResponseUtil.success(res, message, 'Message queued for retry');
+  });
+
+  /**
+   * Stop a pending or dead message from being delivered
+   * POST /api/message-queue/:id/cancel
+   */
+  cancelMessage = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const messageId = parseInt(req.params.id);
+    const message = await OutboundMessageRepository.cancel(messageId);
+    if (!message) {
+      return this.respondNotChanged(res, messageId, 'Only pending or dead messages can be cancelled');
+    }
+
+    await AuditRepository.createLog(
+      'outbound_message',
+      { message_id: messageId },
+      'UPDATE',
+      { action: 'message_cancelled', channel: message.channel },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    return ApiResponseUtil.success(res, message, 'Message cancelled');
+  });
+
+  /**
+   * 404 if the message doesn't exist, 409 if it's in the wrong state
+   */
+  private async respondNotChanged(res: Response, messageId: number, conflictMessage: string) {
+    const existing = await OutboundMessageRepository.findById(messageId);
+    if (!existing) {
+      return ApiResponseUtil.notFound(res, 'Message not found');
+    }
+    return ApiResponseUtil.error(res, conflictMessage, 409, 'INVALID_MESSAGE_STATUS');
+  }
+}
@@ -0,0 +1,227 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import {
+  MessageTemplateChannel,
+  MessageTemplateRepository
+} from '../models/MessageTemplateRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import {
+  getDefaultTemplate,
+  getTemplateSchema,
+  listTemplates,
+  renderTemplate,
+  resolveTemplate,
+  TemplateContent,
+  validateTemplate
+} from '../services/messageTemplates';
+import { getBranding } from '../services/branding';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+/**
+ * Message Template Controller
+ * Lets admins edit the wording of emails and SMS, system-wide or for one
+ * vendor, preview the result and roll back to an earlier version
+ */
+export class MessageTemplateController extends BaseController {
+
+  /**
+   * Every template type with its saved overrides
+   * GET /api/message-templates
+   */
+  getTemplates = this.asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+    const templates = await listTemplates();
+    return ApiResponseUtil.success(res, templates, 'Templates retrieved successfully');
+  });
+
+  /**
+   * A template type's variables, built-in template, override and history
+   * GET /api/message-templates/:channel/:templateType
+   */
+  getTemplate = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const { channel, templateType, vendorId } = this.scope(req);
+    const schema = getTemplateSchema(channel, templateType);
+    if (!schema) {
+      return ApiResponseUtil.notFound(res, 'Template type not found');
+    }
+
+    const override = await MessageTemplateRepository.find(channel, templateType, vendorId);
+    const versions = override ? await MessageTemplateRepository.getVersions(override.id) : [];
+
+    return ApiResponseUtil.success(res, {
+      channel,
+      templateType,
+      vendorId,
+      label: schema.label,
+      description: schema.description,
+      variables: schema.variables,
+      defaultTemplate: getDefaultTemplate(channel, templateType),
+      // What a vendor without its own override currently gets
+      inherited: vendorId ? await resolveTemplate(channel, templateType) : null,
+      override,
+      versions
+    }, 'Template retrieved successfully');
+  });
+
+  /**
+   * Save an edited template as a new version
+   * PUT /api/message-templates/:channel/:templateType
+   */
+  saveTemplate = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const { channel, templateType, vendorId } = this.scope(req);
+    if (!getTemplateSchema(channel, templateType)) {
+      return ApiResponseUtil.notFound(res, 'Template type not found');
+    }
+
+    const content: TemplateContent = {
+      subject: channel === 'email' && req.body.subject?.trim() ? req.body.subject.trim() : null,
+      body: req.body.body
+    };
+    if (!this.respondIfInvalid(res, channel, templateType, content)) return;
+
+    const template = await MessageTemplateRepository.save({
+      channel,
+      template_type: templateType,
+      vendor_id: vendorId,
+      ...content,
+      change_note: req.body.changeNote?.trim() || null
+    }, req.user!.userId);
+
+    await this.logChange(req, template.id, 'UPDATE', {
+      action: 'template_saved', channel, templateType, vendorId, version: template.current_version
+    });
+
+    return ApiResponseUtil.success(res, template, 'Template saved');
+  });
+
+  /**
+   * Render a draft (or the saved template) with sample data
+   * POST /api/message-templates/:channel/:templateType/preview
+   */
+  previewTemplate = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const { channel, templateType, vendorId } = this.scope(req);
+    const schema = getTemplateSchema(channel, templateType);
+    if (!schema) {
+      return ApiResponseUtil.notFound(res, 'Template type not found');
+    }
+
+    const content: TemplateContent = typeof req.body.body === 'string'
+      ? { subject: channel === 'email' ? req.body.subject?.trim() || null : null, body: req.body.body }
+      : await resolveTemplate(channel, templateType, vendorId);
+
+    const errors = validateTemplate(channel, templateType, content);
+    const rendered = errors.length === 0
+      ? renderTemplate(channel, templateType, content, schema.sampleData, `Preview: ${schema.label}`, await getBranding(vendorId))
+      : null;
+
+    return ApiResponseUtil.success(res, { errors, ...rendered }, 'Template rendered');
+  });
+
+  /**
+   * Restore an earlier version, saved as a new version on top
+   * POST /api/message-templates/:channel/:templateType/rollback
+   */
+  rollbackTemplate = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const { channel, templateType, vendorId } = this.scope(req);
+    const override = await MessageTemplateRepository.find(channel, templateType, vendorId);
+    if (!override) {
+      return ApiResponseUtil.notFound(res, 'Template has no saved versions');
+    }
+
+    const version = parseInt(req.body.version);
+    const target = await MessageTemplateRepository.getVersion(override.id, version);
+    if (!target) {
+      return ApiResponseUtil.notFound(res, 'Version not found');
+    }
+
+    // Variables may have changed since the version was saved
+    const content: TemplateContent = { subject: target.subject, body: target.body };
+    if (!this.respondIfInvalid(res, channel, templateType, content)) return;
+
+    const template = await MessageTemplateRepository.save({
+      channel,
+      template_type: templateType,
+      vendor_id: vendorId,
+      ...content,
+      change_note: `Rolled back to version ${version}`
+    }, req.user!.userId);
+
+    await this.logChange(req, template.id, 'UPDATE', {
+      action: 'template_rolled_back', channel, templateType, vendorId, fromVersion: version, version: template.current_version
+    });
+
+    return ApiResponseUtil.success(res, template, `Rolled back to version ${version}`);
+  });
+
+  /**
+   * Delete an override and its history, going back to the built-in template
+   * DELETE /api/message-templates/:channel/:templateType
+   */
+  resetTemplate = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const { channel, templateType, vendorId } = this.scope(req);
+    const override = await MessageTemplateRepository.find(channel, templateType, vendorId);
+    if (!override) {
+      return ApiResponseUtil.notFound(res, 'Template is not customized');
+    }
+
+    await MessageTemplateRepository.delete(override.id);
+    await this.logChange(req, override.id, 'DELETE', {
+      action: 'template_reset', channel, templateType, vendorId, lastVersion: override.current_version
+    });
+
+    return ApiResponseUtil.success(res, null, vendorId ? 'Vendor template removed' : 'Template reset to the built-in version');
+  });
+
+  /**
+   * Channel and template type from the path; vendorId from the query or body
+   */
+  private scope(req: AuthenticatedRequest) {
+    const vendorId = req.query.vendorId ?? req.body?.vendorId;
+    return {
+      channel: req.params.channel as MessageTemplateChannel,
+      templateType: req.params.templateType,
+      vendorId: vendorId ? parseInt(vendorId as string) : null
+    };
+  }
+
+  /**
+   * Responds with the template's problems and returns false when it's invalid
+   */
+  private respondIfInvalid(
+    res: Response,
+    channel: MessageTemplateChannel,
+    templateType: string,
+    content: TemplateContent
+  ): boolean {
+    const errors = validateTemplate(channel, templateType, content);
+    if (errors.length === 0) return true;
+
+    ApiResponseUtil.validationError(res, errors.map(message => ({
+      field: message.startsWith('Subject') ? 'subject' : 'body',
+      message,
+      code: 'INVALID_TEMPLATE'
+    })));
+    return false;
+  }
+
+  private async logChange(req: AuthenticatedRequest, templateId: number, action: 'UPDATE' | 'DELETE', changes: any) {
+    await AuditRepository.createLog(
+      'message_template',
+      { template_id: templateId },
+      action,
+      changes,
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+  }
+}
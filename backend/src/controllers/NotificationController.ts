@@ -2,6 +2,10 @@ import { Response } from 'express';
 import { BaseController } from './BaseController';
 import { AuthenticatedRequest } from '../types/api';
 import { NotificationRepository } from '../models/NotificationRepository';
+import { notificationStream } from '../services/notificationStream';
+
+// setTimeout overflows beyond ~24.8 days
+const MAX_TIMER_MS = 2147483647;
 
 export class NotificationController extends BaseController {
 
@@ -130,4 +134,22 @@ export class NotificationController extends BaseController {
       res.status(500).json({ success: false, message: 'Failed to archive notification' });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Stream new notifications to the authenticated user as server-sent events
+   */
+  static streamNotifications(req: AuthenticatedRequest, res: Response): void {
+    const unsubscribe = notificationStream.subscribe(req.user!.userId, res, req.user!.sessionId);
+
+    // The token is only checked on connect, so end the stream when it expires;
+    // the client reconnects with its refreshed token
+    const expiryTimer = req.user!.exp
+      ? setTimeout(() => res.end(), Math.min(Math.max(req.user!.exp * 1000 - Date.now(), 0), MAX_TIMER_MS))
+      : null;
+
+    req.on('close', () => {
+      if (expiryTimer) clearTimeout(expiryTimer);
+      unsubscribe();
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { PDFReportsRepository } from '../models/PDFReportsRepository';
 import { PDFReportService } from '../services/pdfReportService';
+import { getBrandingWithLogo } from '../services/branding';
 
 export class PDFReportsController {
   private reportsRepository: PDFReportsRepository;
@@ -90,8 +91,9 @@ export class PDFReportsController {
         return;
       }
 
-      // Generate PDF
-      const pdfDoc = this.pdfService.generateClientReport(reportData);
+      // Generate PDF in the service provider's branding
+      const branding = await getBrandingWithLogo(reportData.vendorInfo.id);
+      const pdfDoc = this.pdfService.generateClientReport(reportData, branding);
 
       // Set response headers for PDF download
       res.setHeader('Content-Type', 'application/pdf');
@@ -313,8 +315,9 @@ export class PDFReportsController {
         return;
       }
 
-      // Generate PDF
-      const pdfDoc = this.pdfService.generateClientReport(reportData);
+      // Generate PDF in the service provider's branding
+      const branding = await getBrandingWithLogo(reportData.vendorInfo.id);
+      const pdfDoc = this.pdfService.generateClientReport(reportData, branding);
 
       // Set response headers for PDF download
       res.setHeader('Content-Type', 'application/pdf');
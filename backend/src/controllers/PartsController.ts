@@ -0,0 +1,169 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { TechnicianRepository } from '../models/TechnicianRepository';
+import { PartCategory, PartsRepository } from '../models/PartsRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { adjustStock, createPart, updatePart } from '../services/partsInventory';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+/**
+ * Parts Controller
+ * Vendors keep a catalog of spare parts and consumables and book stock in
+ * and out; technicians can look up parts to record on their tickets
+ */
+export class PartsController extends BaseController {
+
+  private async getVendorId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'vendor') {
+      return null;
+    }
+    return req.user.vendorId || await DashboardRepository.getVendorIdFromUserId(req.user.userId);
+  }
+
+  /**
+   * The vendor whose catalog a technician works from
+   */
+  private async getTechnicianVendorId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'technician') {
+      return null;
+    }
+    const technician = await TechnicianRepository.getTechnicianByUserId(req.user.userId);
+    return technician && technician.status === 'active' ? technician.vendor_id : null;
+  }
+
+  /**
+   * List the catalog. Technicians only see parts still in use.
+   * GET /api/parts?search=&category=&low_stock=&include_inactive=
+   */
+  getParts = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const filters = {
+      search: (req.query.search as string) || undefined,
+      category: (req.query.category as PartCategory) || undefined,
+      lowStock: req.query.low_stock === 'true'
+    };
+
+    const technicianVendorId = await this.getTechnicianVendorId(req);
+    if (technicianVendorId) {
+      const parts = await PartsRepository.listParts(technicianVendorId, { ...filters, activeOnly: true });
+      return ApiResponseUtil.success(res, parts, 'Parts retrieved successfully');
+    }
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const parts = await PartsRepository.listParts(vendorId, {
+      ...filters,
+      activeOnly: req.query.include_inactive !== 'true'
+    });
+    return ApiResponseUtil.success(res, parts, 'Parts retrieved successfully');
+  });
+
+  /**
+   * Get a part with its recent stock movements
+   * GET /api/parts/:id
+   */
+  getPart = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const partId = parseInt(req.params.id);
+    const part = await PartsRepository.findById(partId, vendorId);
+    if (!part) {
+      return ApiResponseUtil.notFound(res, 'Part not found');
+    }
+
+    const movements = await PartsRepository.getMovements(partId, vendorId);
+    return ApiResponseUtil.success(res, { ...part, movements }, 'Part retrieved successfully');
+  });
+
+  /**
+   * Add a part to the catalog
+   * POST /api/parts
+   */
+  createPart = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const part = await createPart(vendorId, req.user!.userId, {
+      part_number: req.body.part_number,
+      part_name: req.body.part_name,
+      category: req.body.category || 'other',
+      unit: req.body.unit || 'each',
+      unit_cost: req.body.unit_cost ?? 0,
+      reorder_level: req.body.reorder_level ?? 0
+    }, req.body.quantity_on_hand ?? 0);
+
+    await this.logChange(req, part.id, 'INSERT', { action: 'part_created', ...req.body });
+    return ApiResponseUtil.created(res, part, 'Part added to catalog');
+  });
+
+  /**
+   * Update a part's details, or stop using it
+   * PUT /api/parts/:id
+   */
+  updatePart = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const partId = parseInt(req.params.id);
+    const { part_number, part_name, category, unit, unit_cost, reorder_level, is_active } = req.body;
+    const part = await updatePart(vendorId, partId, { part_number, part_name, category, unit, unit_cost, reorder_level, is_active });
+
+    await this.logChange(req, partId, 'UPDATE', { action: 'part_updated', ...req.body });
+    return ApiResponseUtil.success(res, part, 'Part updated successfully');
+  });
+
+  /**
+   * Receive stock or correct the count
+   * POST /api/parts/:id/stock
+   */
+  adjustStock = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const partId = parseInt(req.params.id);
+    const movement = {
+      movement_type: req.body.movement_type,
+      quantity: req.body.quantity,
+      unit_cost: req.body.unit_cost ?? null,
+      notes: typeof req.body.notes === 'string' ? req.body.notes.trim() || null : null
+    };
+    const part = await adjustStock(vendorId, partId, req.user!.userId, movement);
+
+    await this.logChange(req, partId, 'UPDATE', { action: `stock_${movement.movement_type}`, ...movement });
+    return ApiResponseUtil.success(res, part, movement.movement_type === 'received' ? 'Stock received' : 'Stock adjusted');
+  });
+
+  private async logChange(req: AuthenticatedRequest, partId: number, action: 'INSERT' | 'UPDATE', changes: any) {
+    await AuditRepository.createLog(
+      'part',
+      { id: partId },
+      action,
+      changes,
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+  }
+}
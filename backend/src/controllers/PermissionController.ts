@@ -0,0 +1,240 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import { PermissionRepository } from '../models/PermissionRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+import { getUserPermissions, invalidatePermissionCache } from '../middleware/auth';
+
+/**
+ * Permission Controller
+ * Manages roles and the permissions granted to them
+ */
+export class PermissionController extends BaseController {
+
+  /**
+   * GET /api/permissions/me
+   * Get the effective permissions of the current user
+   */
+  getMyPermissions = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.requireAuth(req, res)) return;
+
+    const permissions = await getUserPermissions(req.user!.userId);
+    ApiResponseUtil.success(res, Array.from(permissions).sort(), 'Permissions retrieved successfully');
+  });
+
+  /**
+   * GET /api/permissions
+   * Get all available permissions
+   */
+  getPermissions = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const permissions = await PermissionRepository.getPermissions();
+      ApiResponseUtil.success(res, permissions, 'Permissions retrieved successfully');
+    } catch (error) {
+      console.error('Error getting permissions:', error);
+      ApiResponseUtil.internalError(res, 'Failed to retrieve permissions');
+    }
+  });
+
+  /**
+   * GET /api/permissions/roles
+   * Get all roles with permission and user counts
+   */
+  getRoles = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const roles = await PermissionRepository.getRoles();
+      ApiResponseUtil.success(res, roles, 'Roles retrieved successfully');
+    } catch (error) {
+      console.error('Error getting roles:', error);
+      ApiResponseUtil.internalError(res, 'Failed to retrieve roles');
+    }
+  });
+
+  /**
+   * POST /api/permissions/roles
+   * Create a new role
+   */
+  createRole = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    try {
+      const { role_name, description } = req.body;
+      const role = await PermissionRepository.createRole(role_name, description);
+
+      await AuditRepository.createLog(
+        'role',
+        { role_id: role.id },
+        'INSERT',
+        { action: 'role_created', role_name: role.roleName },
+        { ip_address: this.getClientIP(req) },
+        req.user!.userId
+      );
+
+      this.logAction('ROLE_CREATED', req.user!.userId, { roleId: role.id, roleName: role.roleName });
+      ApiResponseUtil.created(res, role, 'Role created successfully');
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('role_role_name_key')) {
+        return ApiResponseUtil.conflict(res, 'A role with this name already exists');
+      }
+      console.error('Error creating role:', error);
+      ApiResponseUtil.internalError(res, 'Failed to create role');
+    }
+  });
+
+  /**
+   * GET /api/permissions/roles/:roleId
+   * Get the permissions granted to a role
+   */
+  getRolePermissions = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    try {
+      const roleId = parseInt(req.params.roleId);
+      const role = await PermissionRepository.getRoleById(roleId);
+      if (!role) {
+        return ApiResponseUtil.notFound(res, 'Role not found');
+      }
+
+      const permissions = await PermissionRepository.getRolePermissions(roleId);
+      ApiResponseUtil.success(res, { role, permissions }, 'Role permissions retrieved successfully');
+    } catch (error) {
+      console.error('Error getting role permissions:', error);
+      ApiResponseUtil.internalError(res, 'Failed to retrieve role permissions');
+    }
+  });
+
+  /**
+   * PUT /api/permissions/roles/:roleId/permissions/:permissionId
+   * Grant a permission to a role
+   */
+  grantPermission = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    try {
+      const roleId = parseInt(req.params.roleId);
+      const permissionId = parseInt(req.params.permissionId);
+
+      const [role, permission] = await Promise.all([
+        PermissionRepository.getRoleById(roleId),
+        PermissionRepository.getPermissionById(permissionId)
+      ]);
+      if (!role || !permission) {
+        return ApiResponseUtil.notFound(res, 'Role or permission not found');
+      }
+
+      const granted = await PermissionRepository.grantPermission(roleId, permissionId, req.user!.userId);
+      invalidatePermissionCache();
+
+      if (granted) {
+        await AuditRepository.createLog(
+          'role_permission',
+          { role_id: roleId, permission_id: permissionId },
+          'INSERT',
+          { action: 'permission_granted', role_name: role.roleName, permission_name: permission.permissionName },
+          { ip_address: this.getClientIP(req) },
+          req.user!.userId
+        );
+      }
+
+      this.logAction('PERMISSION_GRANTED', req.user!.userId, { roleId, permission: permission.permissionName });
+      ApiResponseUtil.success(
+        res,
+        { roleId, permissionId, granted: true },
+        granted ? 'Permission granted successfully' : 'Permission was already granted'
+      );
+    } catch (error) {
+      console.error('Error granting permission:', error);
+      ApiResponseUtil.internalError(res, 'Failed to grant permission');
+    }
+  });
+
+  /**
+   * DELETE /api/permissions/roles/:roleId/permissions/:permissionId
+   * Revoke a permission from a role
+   */
+  revokePermission = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    try {
+      const roleId = parseInt(req.params.roleId);
+      const permissionId = parseInt(req.params.permissionId);
+
+      const [role, permission] = await Promise.all([
+        PermissionRepository.getRoleById(roleId),
+        PermissionRepository.getPermissionById(permissionId)
+      ]);
+      if (!role || !permission) {
+        return ApiResponseUtil.notFound(res, 'Role or permission not found');
+      }
+
+      // Prevent admins from locking themselves out of permission management
+      if (role.roleName === 'admin' && permission.permissionName === 'manage_permissions') {
+        return ApiResponseUtil.badRequest(res, 'The admin role must keep the manage_permissions permission');
+      }
+
+      const revoked = await PermissionRepository.revokePermission(roleId, permissionId);
+      invalidatePermissionCache();
+
+      if (revoked) {
+        await AuditRepository.createLog(
+          'role_permission',
+          { role_id: roleId, permission_id: permissionId },
+          'DELETE',
+          { action: 'permission_revoked', role_name: role.roleName, permission_name: permission.permissionName },
+          { ip_address: this.getClientIP(req) },
+          req.user!.userId
+        );
+      }
+
+      this.logAction('PERMISSION_REVOKED', req.user!.userId, { roleId, permission: permission.permissionName });
+      ApiResponseUtil.success(
+        res,
+        { roleId, permissionId, granted: false },
+        revoked ? 'Permission revoked successfully' : 'Permission was not granted'
+      );
+    } catch (error) {
+      console.error('Error revoking permission:', error);
+      ApiResponseUtil.internalError(res, 'Failed to revoke permission');
+    }
+  });
+
+  /**
+   * PUT /api/permissions/users/:userId/role
+   * Assign a role to a user
+   */
+  assignUserRole = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    try {
+      const userId = parseInt(req.params.userId);
+      const roleId = parseInt(req.body.role_id);
+
+      const role = await PermissionRepository.getRoleById(roleId);
+      if (!role) {
+        return ApiResponseUtil.notFound(res, 'Role not found');
+      }
+
+      const updated = await PermissionRepository.assignRoleToUser(userId, roleId);
+      if (!updated) {
+        return ApiResponseUtil.notFound(res, 'User not found');
+      }
+      invalidatePermissionCache(userId);
+
+      await AuditRepository.createLog(
+        'user',
+        { user_id: userId },
+        'UPDATE',
+        { action: 'role_assigned', role_id: roleId, role_name: role.roleName },
+        { ip_address: this.getClientIP(req) },
+        req.user!.userId
+      );
+
+      this.logAction('USER_ROLE_ASSIGNED', req.user!.userId, { userId, roleId });
+      ApiResponseUtil.success(res, { userId, roleId }, 'Role assigned successfully');
+    } catch (error) {
+      console.error('Error assigning role:', error);
+      ApiResponseUtil.internalError(res, 'Failed to assign role');
+    }
+  });
+}
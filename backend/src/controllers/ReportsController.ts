@@ -520,6 +520,57 @@ export class ReportsController extends BaseController {
     }
   }
 
+  /**
+   * Get the amount owed on issued invoices, overdue amounts and this month's collections
+   */
+  async getReceivables(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const vendorId = await this.getVendorId(req);
+      if (!vendorId) {
+        res.status(401).json({ success: false, message: 'Unauthorized' });
+        return;
+      }
+
+      const receivables = await ReportsRepository.getReceivables(vendorId);
+      res.json({ success: true, data: receivables });
+    } catch (error) {
+      console.error('Error fetching receivables:', error);
+      res.status(500).json({ success: false, message: 'Failed to fetch receivables' });
+    }
+  }
+
+  /**
+   * Get parts usage and cost, per part and per client for the period and
+   * per month for the last year
+   */
+  async getPartsUsage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const vendorId = await this.getVendorId(req);
+      if (!vendorId) {
+        res.status(401).json({ success: false, message: 'Unauthorized' });
+        return;
+      }
+
+      const { startDate, endDate } = req.query as { startDate?: string; endDate?: string };
+
+      // Default to last 30 days if not provided
+      const end = endDate || new Date().toISOString().split('T')[0];
+      const start = startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+      const [parts, clients, months] = await Promise.all([
+        ReportsRepository.getPartsUsage(vendorId, start, end),
+        ReportsRepository.getPartsCostByClient(vendorId, start, end),
+        ReportsRepository.getPartsCostByMonth(vendorId)
+      ]);
+
+      const totalCost = parts.reduce((sum, part) => sum + part.total_cost, 0);
+      res.json({ success: true, data: { startDate: start, endDate: end, total_cost: totalCost, parts, clients, months } });
+    } catch (error) {
+      console.error('Error fetching parts usage:', error);
+      res.status(500).json({ success: false, message: 'Failed to fetch parts usage' });
+    }
+  }
+
   /**
    * Get compliance issues
    */
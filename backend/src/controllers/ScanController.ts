@@ -0,0 +1,70 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import { EquipmentRepository } from '../models/EquipmentRepository';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { ClientViewsRepository } from '../models/ClientViewsRepository';
+import MaintenanceTicketRepository from '../models/MaintenanceTicketRepository';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+/**
+ * Scan Controller
+ * Resolves a scanned QR asset label to the page the signed-in user should see
+ */
+export class ScanController extends BaseController {
+
+  /**
+   * Work out where a scanned equipment instance should open for this user.
+   * Instances the user can't see are reported as not found.
+   * GET /api/scan/equipment/:id
+   */
+  resolveEquipmentScan = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.requireAuth(req, res)) return;
+    if (!this.handleValidation(req, res)) return;
+
+    const instance = await EquipmentRepository.getInstanceForScan(parseInt(req.params.id));
+    const { userId, user_type: userType } = req.user!;
+    let path: string | null = null;
+
+    if (instance) {
+      switch (userType) {
+        case 'vendor': {
+          const vendorId = await DashboardRepository.getVendorIdFromUserId(userId);
+          if (vendorId === instance.vendor_id) {
+            path = `/equipment/${instance.equipment_id}`;
+          }
+          break;
+        }
+        case 'client': {
+          const clientId = await ClientViewsRepository.getClientIdFromUserId(userId);
+          if (clientId && clientId === instance.assigned_to) {
+            path = `/client-equipment/${instance.equipment_id}`;
+          }
+          break;
+        }
+        case 'technician': {
+          const ticketId = await MaintenanceTicketRepository.getOpenTechnicianTicketForInstance(instance.id, userId);
+          if (ticketId) {
+            path = `/technician-tickets/${ticketId}`;
+          }
+          break;
+        }
+        case 'admin':
+          path = `/equipment/${instance.equipment_id}`;
+          break;
+      }
+    }
+
+    if (!instance || !path) {
+      return ApiResponseUtil.notFound(res, 'This equipment is not linked to your account');
+    }
+
+    this.logAction('EQUIPMENT_SCANNED', userId, { instanceId: instance.id, userType });
+
+    return ApiResponseUtil.success(res, {
+      instance_id: instance.id,
+      serial_number: instance.serial_number,
+      path
+    }, 'Scan resolved successfully');
+  });
+}
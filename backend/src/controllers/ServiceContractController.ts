@@ -0,0 +1,143 @@
+import { Response } from 'express';
+import { BaseController } from './BaseController';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { ServiceContractData, ServiceContractRepository, SlaTarget } from '../models/ServiceContractRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { createContract, getContract, updateContract } from '../services/serviceContracts';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+
+/**
+ * Service Contract Controller
+ * Vendors agree what each client's contract covers, how often covered
+ * equipment is visited and how quickly tickets must be answered and resolved
+ */
+export class ServiceContractController extends BaseController {
+
+  private async getVendorId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'vendor') {
+      return null;
+    }
+    return req.user.vendorId || await DashboardRepository.getVendorIdFromUserId(req.user.userId);
+  }
+
+  private contractFrom(req: AuthenticatedRequest): ServiceContractData {
+    const coversAll = req.body.covers_all_equipment ?? true;
+    return {
+      client_id: req.body.client_id,
+      contract_name: req.body.contract_name.trim(),
+      start_date: req.body.start_date,
+      end_date: req.body.end_date || null,
+      covers_all_equipment: coversAll,
+      visits_per_year: req.body.visits_per_year ?? 1,
+      is_active: req.body.is_active ?? true,
+      notes: typeof req.body.notes === 'string' ? req.body.notes.trim() || null : null,
+      sla_targets: (req.body.sla_targets || []).map((target: SlaTarget) => ({
+        priority: target.priority,
+        response_hours: target.response_hours,
+        resolution_hours: target.resolution_hours
+      })),
+      equipment_instance_ids: coversAll ? [] : [...new Set<number>(req.body.equipment_instance_ids || [])]
+    };
+  }
+
+  /**
+   * GET /api/service-contracts?client_id=
+   */
+  getContracts = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const contracts = await ServiceContractRepository.listContracts(vendorId, {
+      clientId: req.query.client_id ? parseInt(req.query.client_id as string) : undefined
+    });
+    return ApiResponseUtil.success(res, contracts, 'Service contracts retrieved successfully');
+  });
+
+  /**
+   * GET /api/service-contracts/:id
+   */
+  getContract = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const contract = await getContract(vendorId, parseInt(req.params.id));
+    return ApiResponseUtil.success(res, contract, 'Service contract retrieved successfully');
+  });
+
+  /**
+   * GET /api/service-contracts/clients/:clientId/equipment
+   */
+  getClientEquipment = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const clientId = parseInt(req.params.clientId);
+    if (!await ServiceContractRepository.isVendorClient(vendorId, clientId)) {
+      return ApiResponseUtil.notFound(res, 'Client not found');
+    }
+
+    const equipment = await ServiceContractRepository.listClientEquipment(vendorId, clientId);
+    return ApiResponseUtil.success(res, equipment, 'Client equipment retrieved successfully');
+  });
+
+  /**
+   * POST /api/service-contracts
+   */
+  createContract = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const data = this.contractFrom(req);
+    const contract = await createContract(vendorId, req.user!.userId, data);
+
+    await this.logChange(req, contract.id, 'INSERT', { action: 'service_contract_created', ...data });
+    return ApiResponseUtil.created(res, contract, 'Service contract added');
+  });
+
+  /**
+   * PUT /api/service-contracts/:id
+   */
+  updateContract = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!this.handleValidation(req, res)) return;
+
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const contractId = parseInt(req.params.id);
+    const data = this.contractFrom(req);
+    const contract = await updateContract(vendorId, contractId, data);
+
+    await this.logChange(req, contractId, 'UPDATE', { action: 'service_contract_updated', ...data });
+    return ApiResponseUtil.success(res, contract, 'Service contract updated');
+  });
+
+  private async logChange(req: AuthenticatedRequest, contractId: number, action: 'INSERT' | 'UPDATE', changes: any) {
+    await AuditRepository.createLog(
+      'service_contract',
+      { id: contractId },
+      action,
+      changes,
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+  }
+}
@@ -4,7 +4,32 @@ import { ApiResponseUtil } from '../utils/ApiResponse';
 import { AuthenticatedRequest } from '../types/api';
 import SmsService from '../services/SmsService';
 import NotificationScheduler from '../services/NotificationScheduler';
+import { isSmsProviderName, getDefaultCountryCode } from '../services/smsProviders';
+import { SmsProviderNames } from '../config/sms';
+import { normalizePhoneNumber } from '../utils/phoneNumber';
 import { pool } from '../config/database';
+import {
+  NotificationEventType,
+  NotificationPreference,
+  NotificationPreferenceRepository
+} from '../models/NotificationPreferenceRepository';
+
+// The original SMS preference flags and the events they now stand for
+const LEGACY_SMS_FLAGS: Record<string, NotificationEventType[]> = {
+  sms_high_priority_tickets: ['ticket_created'],
+  sms_compliance_alerts: ['equipment_expiry'],
+  sms_maintenance_reminders: ['maintenance_due'],
+};
+
+const smsPreferenceFlags = async (userId: number): Promise<Record<string, boolean>> => {
+  const preferences = await NotificationPreferenceRepository.getPreferences(userId);
+  return Object.fromEntries(
+    Object.entries(LEGACY_SMS_FLAGS).map(([flag, eventTypes]) => [
+      flag,
+      eventTypes.every(eventType => preferences.find(p => p.event_type === eventType)?.sms_enabled !== false)
+    ])
+  );
+};
 
 export class SmsController extends BaseController {
   constructor() {
@@ -20,7 +45,7 @@ export class SmsController extends BaseController {
   }
 
   /**
-   * Check Dialog eSMS account balance
+   * Check SMS provider account balance
    * GET /api/sms/balance
    */
   async getBalance(req: Request, res: Response): Promise<void> {
@@ -85,9 +110,7 @@ export class SmsController extends BaseController {
       }
 
       const result = await pool.query(
-        `SELECT sms_notifications_enabled, sms_high_priority_tickets, 
-                sms_compliance_alerts, sms_maintenance_reminders, phone
-         FROM "user" WHERE id = $1`,
+        `SELECT sms_notifications_enabled, phone FROM "user" WHERE id = $1`,
         [userId]
       );
 
@@ -96,7 +119,8 @@ export class SmsController extends BaseController {
         return;
       }
 
-      ApiResponseUtil.success(res, result.rows[0], 'Preferences retrieved successfully');
+      const preferences = await smsPreferenceFlags(userId);
+      ApiResponseUtil.success(res, { ...result.rows[0], ...preferences }, 'Preferences retrieved successfully');
     } catch (error) {
       console.error('Error fetching SMS preferences:', error);
       ApiResponseUtil.internalError(res, 'Failed to fetch preferences');
@@ -117,36 +141,42 @@ export class SmsController extends BaseController {
         return;
       }
 
-      const {
-        sms_notifications_enabled,
-        sms_high_priority_tickets,
-        sms_compliance_alerts,
-        sms_maintenance_reminders,
-        phone,
-      } = req.body;
+      const { sms_notifications_enabled, phone } = req.body;
+
+      // Store numbers in E.164 so they work with any provider
+      let normalizedPhone: string | undefined;
+      if (phone !== undefined && phone !== null && phone !== '') {
+        const normalized = normalizePhoneNumber(String(phone), await getDefaultCountryCode());
+        if (!normalized) {
+          ApiResponseUtil.badRequest(res, 'Enter a valid phone number, including the country code for numbers outside the default country');
+          return;
+        }
+        normalizedPhone = normalized;
+      }
 
       const result = await pool.query(
         `UPDATE "user" 
          SET sms_notifications_enabled = COALESCE($1, sms_notifications_enabled),
-             sms_high_priority_tickets = COALESCE($2, sms_high_priority_tickets),
-             sms_compliance_alerts = COALESCE($3, sms_compliance_alerts),
-             sms_maintenance_reminders = COALESCE($4, sms_maintenance_reminders),
-             phone = COALESCE($5, phone),
+             phone = COALESCE($2, phone),
              updated_at = CURRENT_TIMESTAMP
-         WHERE id = $6
-         RETURNING sms_notifications_enabled, sms_high_priority_tickets, 
-                   sms_compliance_alerts, sms_maintenance_reminders, phone`,
-        [
-          sms_notifications_enabled,
-          sms_high_priority_tickets,
-          sms_compliance_alerts,
-          sms_maintenance_reminders,
-          phone,
-          userId,
-        ]
+         WHERE id = $3
+         RETURNING sms_notifications_enabled, phone`,
+        [sms_notifications_enabled, normalizedPhone, userId]
       );
 
-      ApiResponseUtil.success(res, result.rows[0], 'Preferences updated successfully');
+      // The per-type switches now live in the notification preference matrix
+      const changes: Partial<NotificationPreference>[] = [];
+      for (const [flag, eventTypes] of Object.entries(LEGACY_SMS_FLAGS)) {
+        const value = req.body[flag];
+        if (value === undefined || value === null) continue;
+        for (const event_type of eventTypes) {
+          changes.push({ event_type, sms_enabled: Boolean(value) });
+        }
+      }
+      await NotificationPreferenceRepository.save(userId, changes);
+
+      const preferences = await smsPreferenceFlags(userId);
+      ApiResponseUtil.success(res, { ...result.rows[0], ...preferences }, 'Preferences updated successfully');
     } catch (error) {
       console.error('Error updating SMS preferences:', error);
       ApiResponseUtil.internalError(res, 'Failed to update preferences');
@@ -172,7 +202,8 @@ export class SmsController extends BaseController {
          FROM system_settings
          WHERE setting_key IN (
            'sms_enabled', 'sms_daily_limit', 
-           'sms_compliance_warning_days', 'sms_maintenance_warning_days'
+           'sms_compliance_warning_days', 'sms_maintenance_warning_days',
+           'sms_provider', 'sms_default_country_code'
          )`
       );
 
@@ -208,10 +239,28 @@ export class SmsController extends BaseController {
         sms_daily_limit,
         sms_compliance_warning_days,
         sms_maintenance_warning_days,
+        sms_provider,
+        sms_default_country_code,
       } = req.body;
 
       const updates: any[] = [];
 
+      if (sms_provider !== undefined) {
+        if (!isSmsProviderName(String(sms_provider))) {
+          ApiResponseUtil.badRequest(res, `SMS provider must be one of: ${SmsProviderNames.join(', ')}`);
+          return;
+        }
+        updates.push(['sms_provider', String(sms_provider)]);
+      }
+      if (sms_default_country_code !== undefined) {
+        const countryCode = String(sms_default_country_code).replace(/^\+/, '');
+        if (!/^[1-9]\d{0,2}$/.test(countryCode)) {
+          ApiResponseUtil.badRequest(res, 'Default country code must be 1-3 digits, e.g. 94');
+          return;
+        }
+        updates.push(['sms_default_country_code', countryCode]);
+      }
+
       if (sms_enabled !== undefined) {
         updates.push(['sms_enabled', sms_enabled.toString()]);
       }
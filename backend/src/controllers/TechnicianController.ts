@@ -0,0 +1,165 @@
+import { Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { BaseController } from './BaseController';
+import { TechnicianRepository, UpdateTechnicianData } from '../models/TechnicianRepository';
+import { DashboardRepository } from '../models/DashboardRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { ApiResponseUtil } from '../utils/ApiResponse';
+import { AuthenticatedRequest } from '../types/api';
+import { generateTemporaryPassword } from '../utils/passwordGenerator';
+import emailService from '../services/emailService';
+import { revokeAllSessions } from '../services/sessionService';
+
+/**
+ * Technician Controller
+ * Lets vendors create and manage technician sub-accounts
+ */
+export class TechnicianController extends BaseController {
+
+  /**
+   * Get vendor ID for the authenticated user
+   */
+  private async getVendorId(req: AuthenticatedRequest): Promise<number | null> {
+    if (!req.user || req.user.user_type !== 'vendor') {
+      return null;
+    }
+    return await DashboardRepository.getVendorIdFromUserId(req.user.userId);
+  }
+
+  /**
+   * Get technicians for the vendor
+   * GET /api/vendor/technicians
+   */
+  getTechnicians = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const technicians = await TechnicianRepository.getTechniciansByVendor(vendorId, req.query.status as string);
+    return ApiResponseUtil.success(res, technicians, 'Technicians retrieved successfully');
+  });
+
+  /**
+   * Get a single technician
+   * GET /api/vendor/technicians/:id
+   */
+  getTechnicianById = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    const technicianId = parseInt(req.params.id);
+    if (isNaN(technicianId)) {
+      return ApiResponseUtil.error(res, 'Invalid technician ID', 400);
+    }
+
+    const technician = await TechnicianRepository.getTechnicianById(technicianId, vendorId);
+    if (!technician) {
+      return ApiResponseUtil.notFound(res, 'Technician not found');
+    }
+
+    return ApiResponseUtil.success(res, technician, 'Technician retrieved successfully');
+  });
+
+  /**
+   * Create a technician account and email a temporary password
+   * POST /api/vendor/technicians
+   */
+  createTechnician = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    if (!this.handleValidation(req, res)) return;
+
+    const { first_name, last_name, email, phone, job_title } = req.body;
+
+    if (await TechnicianRepository.isEmailTaken(email)) {
+      return ApiResponseUtil.error(res, 'Email address is already in use', 400);
+    }
+
+    const temporaryPassword = generateTemporaryPassword();
+    const hashedPassword = await bcrypt.hash(temporaryPassword, 10);
+
+    const technician = await TechnicianRepository.createTechnician(vendorId, {
+      first_name,
+      last_name,
+      email,
+      password: hashedPassword,
+      phone,
+      job_title
+    });
+
+    await AuditRepository.createLog(
+      'technicians',
+      { technician_id: technician.id, user_id: technician.user_id },
+      'INSERT',
+      { action: 'technician_created', vendor_id: vendorId, email },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    try {
+      await emailService.sendTemporaryPassword(
+        email,
+        `${first_name} ${last_name}`,
+        temporaryPassword,
+        'technician',
+        vendorId
+      );
+    } catch (emailError) {
+      console.error('Failed to send temporary password email:', emailError);
+      // Don't fail the technician creation if email fails
+    }
+
+    return ApiResponseUtil.created(res, technician, 'Technician created successfully. Temporary password sent via email.');
+  });
+
+  /**
+   * Update technician details or activate/deactivate the account
+   * PUT /api/vendor/technicians/:id
+   */
+  updateTechnician = this.asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vendorId = await this.getVendorId(req);
+    if (!vendorId) {
+      return ApiResponseUtil.forbidden(res, 'Access denied. Vendor role required.');
+    }
+
+    if (!this.handleValidation(req, res)) return;
+
+    const technicianId = parseInt(req.params.id);
+    const updateData: UpdateTechnicianData = {
+      first_name: req.body.first_name,
+      last_name: req.body.last_name,
+      phone: req.body.phone,
+      job_title: req.body.job_title,
+      status: req.body.status
+    };
+
+    const updated = await TechnicianRepository.updateTechnician(technicianId, vendorId, updateData);
+    if (!updated) {
+      return ApiResponseUtil.notFound(res, 'Technician not found');
+    }
+
+    await AuditRepository.createLog(
+      'technicians',
+      { technician_id: technicianId },
+      'UPDATE',
+      { action: 'technician_updated', ...updateData },
+      { ip_address: this.getClientIP(req) },
+      req.user!.userId
+    );
+
+    const technician = await TechnicianRepository.getTechnicianById(technicianId, vendorId);
+
+    // A deactivated technician is signed out everywhere
+    if (technician && technician.status === 'inactive') {
+      await revokeAllSessions(technician.user_id, req.user!.userId);
+    }
+
+    return ApiResponseUtil.success(res, technician, 'Technician updated successfully');
+  });
+}
@@ -156,6 +156,61 @@ export class VendorAnalyticsController extends BaseController {
     }
   }
 
+  /**
+   * GET /api/vendor/tickets/sla
+   * Get response and resolution SLA compliance per priority for contract tickets
+   */
+  async getSlaCompliance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const vendorId = await this.getVendorId(req);
+      if (!vendorId) {
+        return ApiResponseUtil.unauthorized(res, 'Vendor access required');
+      }
+
+      const { start, end, client_id } = req.query;
+
+      // Set default date range if not provided (last 90 days)
+      const endDate = end ? String(end) : new Date().toISOString().split('T')[0];
+      const startDate = start ? String(start) : new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+      const compliance = await this.vendorAnalyticsRepo.getSlaCompliance(
+        vendorId,
+        startDate,
+        endDate,
+        client_id ? Number(client_id) : undefined
+      );
+
+      ApiResponseUtil.success(res, compliance);
+    } catch (error) {
+      console.error('Error fetching SLA compliance:', error);
+      return ApiResponseUtil.internalError(res, 'Failed to fetch SLA compliance');
+    }
+  }
+
+  /**
+   * GET /api/vendor/clients/contracts
+   * Get planned visit compliance for each current service contract
+   */
+  async getContractVisitCompliance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const vendorId = await this.getVendorId(req);
+      if (!vendorId) {
+        return ApiResponseUtil.unauthorized(res, 'Vendor access required');
+      }
+
+      const { client_id } = req.query;
+      const contracts = await this.vendorAnalyticsRepo.getContractVisitCompliance(
+        vendorId,
+        client_id ? Number(client_id) : undefined
+      );
+
+      ApiResponseUtil.success(res, contracts);
+    } catch (error) {
+      console.error('Error fetching contract visit compliance:', error);
+      return ApiResponseUtil.internalError(res, 'Failed to fetch contract visit compliance');
+    }
+  }
+
   /**
    * GET /api/vendor/clients/ranking
    * Get client performance rankings (top 10 clients)
@@ -2,6 +2,12 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { JwtPayload } from '../types';
 import { UserRepository } from '../models/UserRepository';
+import { PermissionRepository } from '../models/PermissionRepository';
+import { TechnicianRepository } from '../models/TechnicianRepository';
+import { validateSession, checkTwoFactorSetup } from './security';
+
+// Reachable before enrolling in required two-factor, so users can set it up
+const TWO_FACTOR_SETUP_ALLOWED_PATHS = ['/api/auth', '/api/profile'];
 
 // Extend Express Request interface to include user
 declare global {
@@ -70,6 +76,31 @@ export const authenticateToken = async (
       return;
     }
 
+    // Signed-out and idle sessions end here
+    const sessionFailure = await validateSession(decoded);
+    if (sessionFailure) {
+      res.status(sessionFailure.status).json({
+        success: false,
+        message: sessionFailure.message,
+        code: sessionFailure.code
+      });
+      return;
+    }
+
+    // Until required two-factor is set up, only profile and auth endpoints work
+    if (!TWO_FACTOR_SETUP_ALLOWED_PATHS.includes(req.baseUrl)) {
+      const twoFactorFailure = await checkTwoFactorSetup(decoded);
+      if (twoFactorFailure) {
+        res.status(twoFactorFailure.status).json({
+          success: false,
+          message: twoFactorFailure.message,
+          code: twoFactorFailure.code,
+          redirectTo: twoFactorFailure.redirectTo
+        });
+        return;
+      }
+    }
+
     // Add user info to request
     req.user = decoded;
     
@@ -158,6 +189,107 @@ export const requireVendorOrAdmin = requireRole(['admin', 'vendor']);
  */
 export const requireClient = requireRole(['client']);
 
+/**
+ * Effective permissions cache, keyed by user ID.
+ * Entries expire after PERMISSION_CACHE_TTL_MS and are dropped whenever grants change.
+ */
+const PERMISSION_CACHE_TTL_MS = 5 * 60 * 1000;
+const permissionCache = new Map<number, { permissions: Set<string>; expiresAt: number }>();
+
+/**
+ * Resolve the effective permissions for a user, using the cache when possible
+ */
+export const getUserPermissions = async (userId: number): Promise<Set<string>> => {
+  const cached = permissionCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.permissions;
+  }
+
+  const permissions = new Set(await PermissionRepository.getPermissionsForUser(userId));
+  permissionCache.set(userId, { permissions, expiresAt: Date.now() + PERMISSION_CACHE_TTL_MS });
+  return permissions;
+};
+
+/**
+ * Drop cached permissions for one user, or for everyone when no user ID is given
+ */
+export const invalidatePermissionCache = (userId?: number): void => {
+  if (userId === undefined) {
+    permissionCache.clear();
+  } else {
+    permissionCache.delete(userId);
+  }
+};
+
+/**
+ * Middleware to check if user has all of the required permissions
+ */
+export const requirePermission = (...requiredPermissions: string[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    try {
+      const permissions = await getUserPermissions(req.user.userId);
+      const missing = requiredPermissions.filter(permission => !permissions.has(permission));
+
+      if (missing.length > 0) {
+        res.status(403).json({
+          success: false,
+          message: 'Insufficient permissions',
+          error: `Missing permission: ${missing.join(', ')}`
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('Permission check error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Authorization failed'
+      });
+    }
+  };
+};
+
+/**
+ * Middleware to stop technicians whose vendor has deactivated them
+ */
+export const requireActiveTechnician = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required'
+    });
+    return;
+  }
+
+  try {
+    const technician = await TechnicianRepository.getTechnicianByUserId(req.user.userId);
+    if (!technician || technician.status !== 'active') {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied. Active technician account required.'
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('Technician status check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Authorization failed'
+    });
+  }
+};
+
 /**
  * Middleware to extract IP address from request
  */
@@ -5,8 +5,12 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { pool } from '../config/database';
+import { JwtPayload } from '../types';
 import { SystemSettingsRepository } from '../models/SystemSettingsRepository';
 import { ProfileRepository } from '../models/ProfileRepository';
+import { UserSessionRepository } from '../models/UserSessionRepository';
+import { TwoFactorRepository } from '../models/TwoFactorRepository';
+import { isTwoFactorRequired } from '../services/twoFactorService';
 
 /**
  * Check if user's password has expired
@@ -48,77 +52,70 @@ export const checkPasswordExpiry = async (
   }
 };
 
+export interface SecurityCheckFailure {
+  status: number;
+  message: string;
+  code: string;
+  redirectTo?: string;
+}
+
 /**
- * Check session timeout based on last activity
+ * Check the token's session is still active and record activity on it.
+ * Each login has its own session, so inactivity on one device does not
+ * sign out another. Returns the error to send, or null if the session is fine.
+ *
+ * Called from authenticateToken: securityMiddleware runs before the routers
+ * authenticate, so it never sees the token's user.
  */
-export const checkSessionTimeout = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    const user = (req as any).user;
-    
-    if (!user || !user.userId) {
-      return next();
-    }
-
-    // Get session timeout setting
-    const timeoutMinutes = await SystemSettingsRepository.getTypedValue<number>(
-      'session_timeout_minutes',
-      30
-    );
+export const validateSession = async (user: JwtPayload): Promise<SecurityCheckFailure | null> => {
+  // Tokens issued before per-device sessions have nothing to check against
+  if (!user.sessionId) {
+    return { status: 401, message: 'Session invalid. Please login again.', code: 'SESSION_INVALID' };
+  }
 
-    // Get user's last activity
-    const userQuery = await pool.query(
-      `SELECT last_login FROM "user" WHERE id = $1 AND deleted_at IS NULL`,
-      [user.userId]
-    );
+  // Get session timeout setting
+  const timeoutMinutes = await SystemSettingsRepository.getTypedValue<number>(
+    'session_timeout_minutes',
+    30
+  );
 
-    if (userQuery.rows.length === 0) {
-      return res.status(401).json({
-        success: false,
-        message: 'Session invalid. Please login again.',
-        code: 'SESSION_INVALID'
-      });
-    }
+  const session = await UserSessionRepository.touchSession(user.userId, user.sessionId, timeoutMinutes);
 
-    const lastLogin = userQuery.rows[0].last_login;
-    
-    if (!lastLogin) {
-      // No last login recorded, allow but update it
-      await pool.query(
-        `UPDATE "user" SET last_login = CURRENT_TIMESTAMP WHERE id = $1`,
-        [user.userId]
-      );
-      return next();
-    }
+  if (session.status === 'revoked') {
+    return { status: 401, message: 'This device has been signed out. Please login again.', code: 'SESSION_REVOKED' };
+  }
 
-    // Calculate time since last activity
-    const lastLoginTime = new Date(lastLogin).getTime();
-    const now = new Date().getTime();
-    const minutesSinceLastActivity = Math.floor((now - lastLoginTime) / (1000 * 60));
+  if (session.status === 'expired') {
+    return {
+      status: 401,
+      message: 'Your session has expired due to inactivity. Please login again.',
+      code: 'SESSION_EXPIRED'
+    };
+  }
 
-    if (minutesSinceLastActivity >= timeoutMinutes) {
-      return res.status(401).json({
-        success: false,
-        message: 'Your session has expired due to inactivity. Please login again.',
-        code: 'SESSION_EXPIRED'
-      });
-    }
+  return null;
+};
 
-    // Update last activity time
-    await pool.query(
-      `UPDATE "user" SET last_login = CURRENT_TIMESTAMP WHERE id = $1`,
-      [user.userId]
-    );
+/**
+ * Block admin and vendor accounts that have not enrolled in two-factor
+ * authentication when an admin has made it mandatory
+ */
+export const checkTwoFactorSetup = async (user: JwtPayload): Promise<SecurityCheckFailure | null> => {
+  if (!(await isTwoFactorRequired(user.user_type))) {
+    return null;
+  }
 
-    next();
-  } catch (error) {
-    console.error('Error checking session timeout:', error);
-    // Don't block request on error, just log it
-    next();
+  const { enabled } = await TwoFactorRepository.getStatus(user.userId);
+  if (enabled) {
+    return null;
   }
+
+  return {
+    status: 403,
+    message: 'You must set up two-factor authentication before continuing.',
+    code: 'TWO_FACTOR_SETUP_REQUIRED',
+    redirectTo: '/profile?tab=security'
+  };
 };
 
 /**
@@ -213,10 +210,9 @@ export const cleanupExpiredSessions = async (): Promise<void> => {
 
 /**
  * Combined security middleware
- * Checks session timeout, password expiry, and first login password change
+ * Checks password expiry and first login password change
  */
 export const securityMiddleware = [
-  checkSessionTimeout,
   checkPasswordExpiry,
   checkFirstLoginPasswordChange
 ];
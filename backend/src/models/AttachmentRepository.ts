@@ -0,0 +1,123 @@
+/**
+ * AttachmentRepository
+ * Metadata for files attached to maintenance tickets and equipment instances,
+ * plus the ownership lookups used for tenant access checks
+ */
+
+import { pool } from '../config/database';
+import { AttachmentCategory } from '../config/storage';
+
+export type AttachmentEntityType = 'maintenance_ticket' | 'equipment_instance';
+
+export interface Attachment {
+  id: number;
+  entity_type: AttachmentEntityType;
+  entity_id: number;
+  category: AttachmentCategory;
+  original_name: string;
+  storage_key: string;
+  mime_type: string;
+  file_size: number;
+  uploaded_by: number | null;
+  uploaded_by_name?: string;
+  created_at: string;
+}
+
+export interface CreateAttachmentData {
+  entity_type: AttachmentEntityType;
+  entity_id: number;
+  category: AttachmentCategory;
+  original_name: string;
+  storage_key: string;
+  mime_type: string;
+  file_size: number;
+  uploaded_by: number;
+}
+
+/**
+ * Tenant ownership of the record an attachment hangs off
+ */
+export interface AttachmentOwner {
+  vendor_id: number | null;
+  client_id: number | null;
+  assigned_technician: number | null;
+}
+
+export class AttachmentRepository {
+  /**
+   * Record a stored attachment
+   */
+  static async createAttachment(data: CreateAttachmentData): Promise<Attachment> {
+    const result = await pool.query(
+      `INSERT INTO attachment (entity_type, entity_id, category, original_name, storage_key, mime_type, file_size, uploaded_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id, entity_type, entity_id, category, original_name, storage_key, mime_type, file_size, uploaded_by, created_at`,
+      [
+        data.entity_type,
+        data.entity_id,
+        data.category,
+        data.original_name,
+        data.storage_key,
+        data.mime_type,
+        data.file_size,
+        data.uploaded_by
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Get an attachment by ID
+   */
+  static async getAttachmentById(attachmentId: number): Promise<Attachment | null> {
+    const result = await pool.query(
+      `SELECT id, entity_type, entity_id, category, original_name, storage_key, mime_type, file_size, uploaded_by, created_at
+       FROM attachment
+       WHERE id = $1 AND deleted_at IS NULL`,
+      [attachmentId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * List the attachments on a ticket or equipment instance
+   */
+  static async getAttachmentsForEntity(entityType: AttachmentEntityType, entityId: number): Promise<Attachment[]> {
+    const result = await pool.query(
+      `SELECT
+         a.id, a.entity_type, a.entity_id, a.category, a.original_name, a.mime_type,
+         a.file_size, a.uploaded_by, a.created_at,
+         u.display_name AS uploaded_by_name
+       FROM attachment a
+       LEFT JOIN "user" u ON a.uploaded_by = u.id
+       WHERE a.entity_type = $1 AND a.entity_id = $2 AND a.deleted_at IS NULL
+       ORDER BY a.created_at DESC`,
+      [entityType, entityId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Soft delete an attachment
+   */
+  static async deleteAttachment(attachmentId: number): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE attachment SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1 AND deleted_at IS NULL`,
+      [attachmentId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Get the vendor, client and technician a ticket or equipment instance belongs to
+   */
+  static async getOwner(entityType: AttachmentEntityType, entityId: number): Promise<AttachmentOwner | null> {
+    const query = entityType === 'maintenance_ticket'
+      ? `SELECT vendor_id, client_id, assigned_technician FROM maintenance_ticket WHERE id = $1`
+      : `SELECT vendor_id, assigned_to AS client_id, NULL::int4 AS assigned_technician
+         FROM equipment_instance WHERE id = $1 AND deleted_at IS NULL`;
+
+    const result = await pool.query(query, [entityId]);
+    return result.rows[0] || null;
+  }
+}
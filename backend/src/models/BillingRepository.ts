@@ -0,0 +1,863 @@
+/**
+ * BillingRepository
+ * Vendor price lists, quotes raised from tickets, invoices raised from
+ * tickets or rented equipment, and the payments made against them
+ */
+
+import { PoolClient } from 'pg';
+import { pool } from '../config/database';
+
+export type RateType = 'labour' | 'call_out' | 'rental';
+export type LineType = 'labour' | 'call_out' | 'part' | 'rental' | 'other';
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined';
+export type InvoiceStatus = 'draft' | 'issued' | 'partially_paid' | 'paid' | 'void';
+export type PaymentMethod = 'cash' | 'bank_transfer' | 'card' | 'cheque' | 'other';
+
+export const RATE_TYPES: RateType[] = ['labour', 'call_out', 'rental'];
+export const LINE_TYPES: LineType[] = ['labour', 'call_out', 'part', 'rental', 'other'];
+export const QUOTE_STATUSES: QuoteStatus[] = ['draft', 'sent', 'accepted', 'declined'];
+export const INVOICE_STATUSES: InvoiceStatus[] = ['draft', 'issued', 'partially_paid', 'paid', 'void'];
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'bank_transfer', 'card', 'cheque', 'other'];
+
+// Invoices that count as billed: issued and not voided
+export const BILLED_INVOICE_STATUSES: InvoiceStatus[] = ['issued', 'partially_paid', 'paid'];
+
+export interface PriceListItem {
+  id: number;
+  vendor_id: number;
+  rate_type: RateType;
+  equipment_type: string | null;
+  service_category: string | null;
+  description: string;
+  unit_price: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PriceListItemData {
+  rate_type: RateType;
+  equipment_type: string | null;
+  service_category: string | null;
+  description: string;
+  unit_price: number;
+}
+
+export interface BillingLineInput {
+  line_type: LineType;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  part_id?: number | null;
+}
+
+export interface BillingLine extends BillingLineInput {
+  id: number;
+  amount: number;
+}
+
+export interface Quote {
+  id: number;
+  quote_number: string;
+  vendor_id: number;
+  client_id: number;
+  client_name: string;
+  client_address: string;
+  ticket_id: number | null;
+  ticket_number: string | null;
+  status: QuoteStatus;
+  valid_until: string | null;
+  // A sent quote past its valid-until date can no longer be accepted
+  is_expired: boolean;
+  notes: string | null;
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  created_by_name: string | null;
+  sent_at: string | null;
+  responded_by_name: string | null;
+  responded_at: string | null;
+  response_notes: string | null;
+  // The invoice raised from this quote, if any
+  invoice_number: string | null;
+  created_at: string;
+  updated_at: string;
+  lines: BillingLine[];
+}
+
+export interface InvoicePayment {
+  id: number;
+  amount: number;
+  payment_date: string;
+  method: PaymentMethod;
+  reference: string | null;
+  recorded_by_name: string | null;
+  created_at: string;
+}
+
+export interface Invoice {
+  id: number;
+  invoice_number: string;
+  vendor_id: number;
+  client_id: number;
+  client_name: string;
+  client_address: string;
+  ticket_id: number | null;
+  ticket_number: string | null;
+  quote_id: number | null;
+  quote_number: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  status: InvoiceStatus;
+  is_overdue: boolean;
+  issue_date: string | null;
+  due_date: string | null;
+  notes: string | null;
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  amount_paid: number;
+  balance_due: number;
+  created_by_name: string | null;
+  issued_by_name: string | null;
+  paid_at: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  lines: BillingLine[];
+  payments: InvoicePayment[];
+}
+
+export interface QuoteData {
+  vendor_id: number;
+  client_id: number;
+  ticket_id: number | null;
+  valid_until: string | null;
+  notes: string | null;
+  tax_rate: number;
+  created_by: number;
+  lines: BillingLineInput[];
+}
+
+export interface InvoiceData {
+  vendor_id: number;
+  client_id: number;
+  ticket_id: number | null;
+  quote_id: number | null;
+  period_start: string | null;
+  period_end: string | null;
+  due_date: string | null;
+  notes: string | null;
+  tax_rate: number;
+  created_by: number;
+  lines: BillingLineInput[];
+}
+
+export type DraftChanges = Pick<QuoteData, 'notes' | 'tax_rate' | 'lines'> & { valid_until?: string | null; due_date?: string | null };
+
+export interface PaymentData {
+  amount: number;
+  payment_date: string | null;
+  method: PaymentMethod;
+  reference: string | null;
+}
+
+// What a ticket's quote or invoice is priced from
+export interface TicketBillingSource {
+  id: number;
+  ticket_number: string;
+  client_id: number | null;
+  ticket_status: string;
+  category: string | null;
+  estimated_hours: number | null;
+  actual_hours: number | null;
+  equipment_type: string | null;
+  equipment_name: string | null;
+  serial_number: string | null;
+}
+
+// Units of one equipment type a client had on hire during a period
+export interface RentalUsage {
+  equipment_type: string;
+  units: number;
+  // Days on hire in the period, summed over the units
+  unit_days: number;
+}
+
+const PRICE_LIST_SELECT = `
+  SELECT id, vendor_id, rate_type, equipment_type, service_category, description,
+         unit_price::float AS unit_price, created_at, updated_at
+  FROM public.price_list_item`;
+
+const linesJson = (table: 'quote_line' | 'invoice_line', key: 'quote_id' | 'invoice_id', parent: string) => `
+  COALESCE((
+    SELECT json_agg(json_build_object(
+             'id', l.id,
+             'line_type', l.line_type,
+             'description', l.description,
+             'quantity', l.quantity::float,
+             'unit_price', l.unit_price::float,
+             'amount', l.amount::float,
+             'part_id', l.part_id
+           ) ORDER BY l.sort_order, l.id)
+    FROM public.${table} l
+    WHERE l.${key} = ${parent}
+  ), '[]'::json)`;
+
+const CLIENT_ADDRESS = `concat_ws(', ', c.street_address, c.city, c.state, c.zip_code, c.country)`;
+
+const QUOTE_SELECT = `
+  SELECT q.id, q.quote_number, q.vendor_id, q.client_id, c.company_name AS client_name,
+         ${CLIENT_ADDRESS} AS client_address,
+         q.ticket_id, mt.ticket_number, q.status,
+         to_char(q.valid_until, 'YYYY-MM-DD') AS valid_until,
+         (q.status = 'sent' AND q.valid_until < CURRENT_DATE) AS is_expired,
+         q.notes, q.subtotal::float AS subtotal, q.tax_rate::float AS tax_rate,
+         q.tax_amount::float AS tax_amount, q.total::float AS total,
+         creator.display_name AS created_by_name, q.sent_at,
+         responder.display_name AS responded_by_name, q.responded_at, q.response_notes,
+         (SELECT i.invoice_number FROM public.invoice i
+          WHERE i.quote_id = q.id AND i.status <> 'void'
+          ORDER BY i.id DESC LIMIT 1) AS invoice_number,
+         q.created_at, q.updated_at,
+         ${linesJson('quote_line', 'quote_id', 'q.id')} AS lines
+  FROM public.quote q
+  JOIN public.clients c ON q.client_id = c.id
+  LEFT JOIN public.maintenance_ticket mt ON q.ticket_id = mt.id
+  LEFT JOIN public.user creator ON q.created_by = creator.id
+  LEFT JOIN public.user responder ON q.responded_by = responder.id`;
+
+const INVOICE_SELECT = `
+  SELECT i.id, i.invoice_number, i.vendor_id, i.client_id, c.company_name AS client_name,
+         ${CLIENT_ADDRESS} AS client_address,
+         i.ticket_id, mt.ticket_number, i.quote_id, q.quote_number,
+         to_char(i.period_start, 'YYYY-MM-DD') AS period_start,
+         to_char(i.period_end, 'YYYY-MM-DD') AS period_end,
+         i.status,
+         (i.status IN ('issued', 'partially_paid') AND i.due_date < CURRENT_DATE) AS is_overdue,
+         to_char(i.issue_date, 'YYYY-MM-DD') AS issue_date,
+         to_char(i.due_date, 'YYYY-MM-DD') AS due_date,
+         i.notes, i.subtotal::float AS subtotal, i.tax_rate::float AS tax_rate,
+         i.tax_amount::float AS tax_amount, i.total::float AS total,
+         i.amount_paid::float AS amount_paid,
+         CASE WHEN i.status = 'void' THEN 0 ELSE (i.total - i.amount_paid)::float END AS balance_due,
+         creator.display_name AS created_by_name, issuer.display_name AS issued_by_name,
+         i.paid_at, i.voided_at, i.void_reason, i.created_at, i.updated_at,
+         ${linesJson('invoice_line', 'invoice_id', 'i.id')} AS lines,
+         COALESCE((
+           SELECT json_agg(json_build_object(
+                    'id', p.id,
+                    'amount', p.amount::float,
+                    'payment_date', to_char(p.payment_date, 'YYYY-MM-DD'),
+                    'method', p.method,
+                    'reference', p.reference,
+                    'recorded_by_name', recorder.display_name,
+                    'created_at', p.created_at
+                  ) ORDER BY p.payment_date, p.id)
+           FROM public.invoice_payment p
+           LEFT JOIN public.user recorder ON p.recorded_by = recorder.id
+           WHERE p.invoice_id = i.id
+         ), '[]'::json) AS payments
+  FROM public.invoice i
+  JOIN public.clients c ON i.client_id = c.id
+  LEFT JOIN public.maintenance_ticket mt ON i.ticket_id = mt.id
+  LEFT JOIN public.quote q ON i.quote_id = q.id
+  LEFT JOIN public.user creator ON i.created_by = creator.id
+  LEFT JOIN public.user issuer ON i.issued_by = issuer.id`;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class BillingRepository {
+  // ---------------------------------------------------------------------------
+  // Price list
+  // ---------------------------------------------------------------------------
+
+  static async listPriceList(vendorId: number): Promise<PriceListItem[]> {
+    const result = await pool.query(
+      `${PRICE_LIST_SELECT}
+       WHERE vendor_id = $1
+       ORDER BY rate_type, equipment_type NULLS FIRST, service_category NULLS FIRST`,
+      [vendorId]
+    );
+    return result.rows;
+  }
+
+  static async findPriceListItem(itemId: number, vendorId: number): Promise<PriceListItem | null> {
+    const result = await pool.query(`${PRICE_LIST_SELECT} WHERE id = $1 AND vendor_id = $2`, [itemId, vendorId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Whether another rate already covers the same type, equipment type and
+   * service category
+   */
+  static async isPriceScopeTaken(vendorId: number, data: PriceListItemData, excludeItemId?: number): Promise<boolean> {
+    const result = await pool.query(
+      `SELECT 1 FROM public.price_list_item
+       WHERE vendor_id = $1 AND rate_type = $2
+         AND lower(COALESCE(equipment_type, '')) = lower(COALESCE($3, ''))
+         AND lower(COALESCE(service_category, '')) = lower(COALESCE($4, ''))
+         AND id <> COALESCE($5, 0)`,
+      [vendorId, data.rate_type, data.equipment_type, data.service_category, excludeItemId ?? null]
+    );
+    return result.rows.length > 0;
+  }
+
+  static async createPriceListItem(vendorId: number, data: PriceListItemData): Promise<PriceListItem> {
+    const result = await pool.query(
+      `INSERT INTO public.price_list_item (vendor_id, rate_type, equipment_type, service_category, description, unit_price)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [vendorId, data.rate_type, data.equipment_type, data.service_category, data.description, data.unit_price]
+    );
+    return (await this.findPriceListItem(result.rows[0].id, vendorId))!;
+  }
+
+  static async updatePriceListItem(itemId: number, vendorId: number, data: PriceListItemData): Promise<PriceListItem | null> {
+    const result = await pool.query(
+      `UPDATE public.price_list_item
+       SET rate_type = $3, equipment_type = $4, service_category = $5,
+           description = $6, unit_price = $7, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND vendor_id = $2`,
+      [itemId, vendorId, data.rate_type, data.equipment_type, data.service_category, data.description, data.unit_price]
+    );
+    return (result.rowCount ?? 0) > 0 ? this.findPriceListItem(itemId, vendorId) : null;
+  }
+
+  static async deletePriceListItem(itemId: number, vendorId: number): Promise<boolean> {
+    const result = await pool.query(
+      'DELETE FROM public.price_list_item WHERE id = $1 AND vendor_id = $2',
+      [itemId, vendorId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * The most specific rate that applies: one for both the equipment type and
+   * service category beats one for either, which beats the vendor default
+   */
+  static async findRate(
+    vendorId: number,
+    rateType: RateType,
+    equipmentType: string | null,
+    serviceCategory: string | null
+  ): Promise<PriceListItem | null> {
+    const result = await pool.query(
+      `${PRICE_LIST_SELECT}
+       WHERE vendor_id = $1 AND rate_type = $2
+         AND (equipment_type IS NULL OR lower(equipment_type) = lower($3))
+         AND (service_category IS NULL OR lower(service_category) = lower($4))
+       ORDER BY (equipment_type IS NOT NULL)::int + (service_category IS NOT NULL)::int DESC,
+                equipment_type IS NOT NULL DESC
+       LIMIT 1`,
+      [vendorId, rateType, equipmentType, serviceCategory]
+    );
+    return result.rows[0] || null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // What documents are priced from
+  // ---------------------------------------------------------------------------
+
+  static async getTicketBillingSource(ticketId: number, vendorId: number): Promise<TicketBillingSource | null> {
+    const result = await pool.query(
+      `SELECT mt.id, mt.ticket_number, mt.client_id, mt.ticket_status, mt.category,
+              mt.estimated_hours::float AS estimated_hours, mt.actual_hours::float AS actual_hours,
+              e.equipment_type, e.equipment_name, ei.serial_number
+       FROM public.maintenance_ticket mt
+       LEFT JOIN public.equipment_instance ei ON mt.equipment_instance_id = ei.id
+       LEFT JOIN public.equipment e ON ei.equipment_id = e.id
+       WHERE mt.id = $1 AND mt.vendor_id = $2`,
+      [ticketId, vendorId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Equipment the client had from the vendor, by type, with the days each
+   * unit was on hire between start and end. Hire periods come from the
+   * lifecycle ledger, so units returned or swapped out during the period
+   * are billed for the days the client held them.
+   */
+  static async getRentalUsage(vendorId: number, clientId: number, start: string, end: string): Promise<RentalUsage[]> {
+    const result = await pool.query(
+      `WITH hire_events AS (
+         SELECT le.equipment_instance_id, le.client_id, le.event_type, le.event_date::date AS event_day,
+                LEAD(le.event_date::date) OVER (
+                  PARTITION BY le.equipment_instance_id ORDER BY le.event_date, le.id
+                ) AS next_event_day
+         FROM public.equipment_lifecycle_event le
+         WHERE le.vendor_id = $1
+           AND le.event_type IN ('assigned', 'returned')
+       ),
+       hire_periods AS (
+         -- Each assignment to the client runs until the unit's next return or reassignment
+         SELECT equipment_instance_id, event_day AS start_day, COALESCE(next_event_day, $4::date) AS end_day
+         FROM hire_events
+         WHERE event_type = 'assigned' AND client_id = $2
+         UNION ALL
+         -- Units on hire with no assignment in the ledger
+         SELECT ei.id, COALESCE(ei.assigned_at::date, $3::date), $4::date
+         FROM public.equipment_instance ei
+         WHERE ei.vendor_id = $1
+           AND ei.assigned_to = $2
+           AND ei.deleted_at IS NULL
+           AND NOT EXISTS (
+             SELECT 1 FROM public.equipment_lifecycle_event le
+             WHERE le.equipment_instance_id = ei.id AND le.event_type = 'assigned' AND le.client_id = $2
+           )
+       ),
+       unit_usage AS (
+         SELECT equipment_instance_id,
+                SUM(LEAST(end_day, $4::date) - GREATEST(start_day, $3::date) + 1) AS unit_days
+         FROM hire_periods
+         WHERE start_day <= $4::date AND end_day >= $3::date
+         GROUP BY equipment_instance_id
+       )
+       SELECT e.equipment_type,
+              COUNT(*)::int AS units,
+              SUM(uu.unit_days)::int AS unit_days
+       FROM unit_usage uu
+       JOIN public.equipment_instance ei ON uu.equipment_instance_id = ei.id
+       JOIN public.equipment e ON ei.equipment_id = e.id
+       GROUP BY e.equipment_type
+       ORDER BY e.equipment_type`,
+      [vendorId, clientId, start, end]
+    );
+    return result.rows;
+  }
+
+  /**
+   * A client the vendor looks after: one they created, or one holding their equipment
+   */
+  static async isVendorClient(clientId: number, vendorId: number): Promise<boolean> {
+    const result = await pool.query(
+      `SELECT 1 FROM public.clients c
+       WHERE c.id = $1
+         AND (c.created_by_vendor_id = $2
+              OR EXISTS (SELECT 1 FROM public.equipment_instance ei
+                         WHERE ei.assigned_to = c.id AND ei.vendor_id = $2))`,
+      [clientId, vendorId]
+    );
+    return result.rows.length > 0;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Quotes
+  // ---------------------------------------------------------------------------
+
+  static async listQuotes(
+    scope: { vendorId?: number; clientId?: number },
+    filters: { status?: QuoteStatus; ticketId?: number; excludeDrafts?: boolean } = {}
+  ): Promise<Quote[]> {
+    const { conditions, params } = this.scopeConditions('q', scope);
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`q.status = $${params.length}`);
+    }
+    if (filters.ticketId) {
+      params.push(filters.ticketId);
+      conditions.push(`q.ticket_id = $${params.length}`);
+    }
+    if (filters.excludeDrafts) {
+      conditions.push(`q.status <> 'draft'`);
+    }
+
+    const result = await pool.query(
+      `${QUOTE_SELECT}
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY q.created_at DESC`,
+      params
+    );
+    return result.rows;
+  }
+
+  static async findQuoteById(quoteId: number): Promise<Quote | null> {
+    const result = await pool.query(`${QUOTE_SELECT} WHERE q.id = $1`, [quoteId]);
+    return result.rows[0] || null;
+  }
+
+  static async findAcceptedQuoteForTicket(ticketId: number): Promise<{ id: number; quote_number: string } | null> {
+    const result = await pool.query(
+      `SELECT id, quote_number FROM public.quote
+       WHERE ticket_id = $1 AND status = 'accepted'
+       ORDER BY responded_at DESC LIMIT 1`,
+      [ticketId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * QUO-YYYYMMDD-NNN, numbered per day like assignment numbers
+   */
+  static async generateQuoteNumber(db: PoolClient): Promise<string> {
+    return this.generateNumber(db, 'QUO', 'quote', 'quote_number');
+  }
+
+  static async createQuote(data: QuoteData): Promise<number> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const totals = this.priceLines(data.lines, data.tax_rate);
+      const quoteNumber = await this.generateQuoteNumber(client);
+      const result = await client.query(
+        `INSERT INTO public.quote (quote_number, vendor_id, client_id, ticket_id, valid_until, notes,
+                                   subtotal, tax_rate, tax_amount, total, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         RETURNING id`,
+        [quoteNumber, data.vendor_id, data.client_id, data.ticket_id, data.valid_until, data.notes,
+         totals.subtotal, data.tax_rate, totals.tax_amount, totals.total, data.created_by]
+      );
+      const quoteId = result.rows[0].id;
+      await this.insertLines(client, 'quote_line', 'quote_id', quoteId, totals.lines);
+
+      await client.query('COMMIT');
+      return quoteId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replace a draft quote's lines and terms. Returns false if it is no longer a draft.
+   */
+  static async updateQuoteDraft(quoteId: number, changes: DraftChanges): Promise<boolean> {
+    return this.updateDraft('quote', 'quote_line', 'quote_id', quoteId, changes, (db, totals) =>
+      db.query(
+        `UPDATE public.quote
+         SET valid_until = $2, notes = $3, tax_rate = $4,
+             subtotal = $5, tax_amount = $6, total = $7, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [quoteId, changes.valid_until ?? null, changes.notes, changes.tax_rate, totals.subtotal, totals.tax_amount, totals.total]
+      )
+    );
+  }
+
+  static async markQuoteSent(quoteId: number): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE public.quote
+       SET status = 'sent', sent_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'draft'`,
+      [quoteId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * The client accepts or declines a sent quote that hasn't expired.
+   * Returns false if it was no longer open.
+   */
+  static async respondToQuote(
+    quoteId: number,
+    status: 'accepted' | 'declined',
+    respondedBy: number,
+    notes: string | null
+  ): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE public.quote
+       SET status = $2, responded_by = $3, responded_at = CURRENT_TIMESTAMP,
+           response_notes = $4, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'sent'
+         AND (valid_until IS NULL OR valid_until >= CURRENT_DATE)`,
+      [quoteId, status, respondedBy, notes]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Invoices
+  // ---------------------------------------------------------------------------
+
+  static async listInvoices(
+    scope: { vendorId?: number; clientId?: number },
+    filters: { status?: InvoiceStatus; ticketId?: number; clientId?: number; overdue?: boolean; excludeDrafts?: boolean } = {}
+  ): Promise<Invoice[]> {
+    const { conditions, params } = this.scopeConditions('i', scope);
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`i.status = $${params.length}`);
+    }
+    if (filters.ticketId) {
+      params.push(filters.ticketId);
+      conditions.push(`i.ticket_id = $${params.length}`);
+    }
+    if (filters.clientId) {
+      params.push(filters.clientId);
+      conditions.push(`i.client_id = $${params.length}`);
+    }
+    if (filters.overdue) {
+      conditions.push(`i.status IN ('issued', 'partially_paid') AND i.due_date < CURRENT_DATE`);
+    }
+    if (filters.excludeDrafts) {
+      conditions.push(`i.status <> 'draft'`);
+    }
+
+    const result = await pool.query(
+      `${INVOICE_SELECT}
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY i.created_at DESC`,
+      params
+    );
+    return result.rows;
+  }
+
+  static async findInvoiceById(invoiceId: number): Promise<Invoice | null> {
+    const result = await pool.query(`${INVOICE_SELECT} WHERE i.id = $1`, [invoiceId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * A ticket's current invoice, so it isn't billed twice
+   */
+  static async findOpenInvoiceForTicket(ticketId: number): Promise<{ id: number; invoice_number: string } | null> {
+    const result = await pool.query(
+      `SELECT id, invoice_number FROM public.invoice
+       WHERE ticket_id = $1 AND status <> 'void'
+       ORDER BY id DESC LIMIT 1`,
+      [ticketId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * INV-YYYYMMDD-NNN, numbered per day like assignment numbers
+   */
+  static async generateInvoiceNumber(db: PoolClient): Promise<string> {
+    return this.generateNumber(db, 'INV', 'invoice', 'invoice_number');
+  }
+
+  static async createInvoice(data: InvoiceData): Promise<number> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const totals = this.priceLines(data.lines, data.tax_rate);
+      const invoiceNumber = await this.generateInvoiceNumber(client);
+      const result = await client.query(
+        `INSERT INTO public.invoice (invoice_number, vendor_id, client_id, ticket_id, quote_id,
+                                     period_start, period_end, due_date, notes,
+                                     subtotal, tax_rate, tax_amount, total, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+         RETURNING id`,
+        [invoiceNumber, data.vendor_id, data.client_id, data.ticket_id, data.quote_id,
+         data.period_start, data.period_end, data.due_date, data.notes,
+         totals.subtotal, data.tax_rate, totals.tax_amount, totals.total, data.created_by]
+      );
+      const invoiceId = result.rows[0].id;
+      await this.insertLines(client, 'invoice_line', 'invoice_id', invoiceId, totals.lines);
+
+      await client.query('COMMIT');
+      return invoiceId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Replace a draft invoice's lines and terms. Returns false if it is no longer a draft.
+   */
+  static async updateInvoiceDraft(invoiceId: number, changes: DraftChanges): Promise<boolean> {
+    return this.updateDraft('invoice', 'invoice_line', 'invoice_id', invoiceId, changes, (db, totals) =>
+      db.query(
+        `UPDATE public.invoice
+         SET due_date = $2, notes = $3, tax_rate = $4,
+             subtotal = $5, tax_amount = $6, total = $7, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [invoiceId, changes.due_date ?? null, changes.notes, changes.tax_rate, totals.subtotal, totals.tax_amount, totals.total]
+      )
+    );
+  }
+
+  /**
+   * Issue a draft, dating it today. The due date falls back to the given
+   * payment terms when the draft didn't set one.
+   */
+  static async issueInvoice(invoiceId: number, issuedBy: number, paymentTermsDays: number): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE public.invoice
+       SET status = 'issued', issue_date = CURRENT_DATE,
+           due_date = COALESCE(due_date, CURRENT_DATE + $3::int),
+           issued_by = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'draft'`,
+      [invoiceId, issuedBy, paymentTermsDays]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Record a payment against an issued invoice and move it to partially paid
+   * or paid. Returns null if the invoice can't take the payment: it isn't
+   * awaiting payment any more, or the amount is more than is owed.
+   */
+  static async recordPayment(invoiceId: number, payment: PaymentData, recordedBy: number): Promise<InvoiceStatus | null> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const invoice = await client.query(
+        `SELECT status, total, amount_paid FROM public.invoice WHERE id = $1 FOR UPDATE`,
+        [invoiceId]
+      );
+      const row = invoice.rows[0];
+      const balance = row ? round2(parseFloat(row.total) - parseFloat(row.amount_paid)) : 0;
+
+      if (!row || !['issued', 'partially_paid'].includes(row.status) || payment.amount > balance) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query(
+        `INSERT INTO public.invoice_payment (invoice_id, amount, payment_date, method, reference, recorded_by)
+         VALUES ($1, $2, COALESCE($3::date, CURRENT_DATE), $4, $5, $6)`,
+        [invoiceId, payment.amount, payment.payment_date, payment.method, payment.reference, recordedBy]
+      );
+
+      const status: InvoiceStatus = payment.amount >= balance ? 'paid' : 'partially_paid';
+      await client.query(
+        `UPDATE public.invoice
+         SET amount_paid = amount_paid + $2, status = $3::varchar,
+             paid_at = CASE WHEN $3::varchar = 'paid' THEN CURRENT_TIMESTAMP ELSE NULL END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [invoiceId, payment.amount, status]
+      );
+
+      await client.query('COMMIT');
+      return status;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Void an invoice nothing has been paid against. Returns false otherwise.
+   */
+  static async voidInvoice(invoiceId: number, reason: string | null): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE public.invoice
+       SET status = 'void', voided_at = CURRENT_TIMESTAMP, void_reason = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status IN ('draft', 'issued') AND amount_paid = 0`,
+      [invoiceId, reason]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async getNotifyUsers(clientId: number, vendorId: number): Promise<{ client_user_id: number | null; vendor_user_id: number | null }> {
+    const result = await pool.query(
+      `SELECT (SELECT user_id FROM public.clients WHERE id = $1) AS client_user_id,
+              (SELECT user_id FROM public.vendors WHERE id = $2) AS vendor_user_id`,
+      [clientId, vendorId]
+    );
+    return result.rows[0];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private static scopeConditions(alias: 'q' | 'i', scope: { vendorId?: number; clientId?: number }) {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (scope.vendorId) {
+      params.push(scope.vendorId);
+      conditions.push(`${alias}.vendor_id = $${params.length}`);
+    }
+    if (scope.clientId) {
+      params.push(scope.clientId);
+      conditions.push(`${alias}.client_id = $${params.length}`);
+    }
+    return { conditions, params };
+  }
+
+  private static async generateNumber(
+    db: PoolClient,
+    prefix: 'QUO' | 'INV',
+    table: 'quote' | 'invoice',
+    column: 'quote_number' | 'invoice_number'
+  ): Promise<string> {
+    const today = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const result = await db.query(
+      `SELECT COUNT(*) AS count FROM public.${table} WHERE ${column} LIKE $1`,
+      [`${prefix}-${today}%`]
+    );
+    return `${prefix}-${today}-${(parseInt(result.rows[0].count) + 1).toString().padStart(3, '0')}`;
+  }
+
+  /**
+   * Line amounts and document totals, rounded to cents
+   */
+  static priceLines(lines: BillingLineInput[], taxRate: number) {
+    const priced = lines.map(line => ({ ...line, amount: round2(line.quantity * line.unit_price) }));
+    const subtotal = round2(priced.reduce((sum, line) => sum + line.amount, 0));
+    const taxAmount = round2(subtotal * taxRate / 100);
+    return { lines: priced, subtotal, tax_amount: taxAmount, total: round2(subtotal + taxAmount) };
+  }
+
+  private static async insertLines(
+    db: PoolClient,
+    table: 'quote_line' | 'invoice_line',
+    key: 'quote_id' | 'invoice_id',
+    documentId: number,
+    lines: (BillingLineInput & { amount: number })[]
+  ): Promise<void> {
+    for (const [index, line] of lines.entries()) {
+      await db.query(
+        `INSERT INTO public.${table} (${key}, line_type, description, quantity, unit_price, amount, part_id, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [documentId, line.line_type, line.description, line.quantity, line.unit_price, line.amount, line.part_id ?? null, index]
+      );
+    }
+  }
+
+  private static async updateDraft(
+    table: 'quote' | 'invoice',
+    lineTable: 'quote_line' | 'invoice_line',
+    key: 'quote_id' | 'invoice_id',
+    documentId: number,
+    changes: DraftChanges,
+    updateDocument: (db: PoolClient, totals: { subtotal: number; tax_amount: number; total: number }) => Promise<unknown>
+  ): Promise<boolean> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const current = await client.query(`SELECT status FROM public.${table} WHERE id = $1 FOR UPDATE`, [documentId]);
+      if (current.rows[0]?.status !== 'draft') {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      const totals = this.priceLines(changes.lines, changes.tax_rate);
+      await client.query(`DELETE FROM public.${lineTable} WHERE ${key} = $1`, [documentId]);
+      await this.insertLines(client, lineTable, key, documentId, totals.lines);
+      await updateDocument(client, totals);
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * CalendarFeedRepository
+ * Handles the secret tokens behind vendor and technician ICS calendar feeds
+ */
+
+import crypto from 'crypto';
+import { pool } from '../config/database';
+
+export interface CalendarFeed {
+  id: number;
+  vendor_id: number;
+  technician_user_id: number | null;
+  token: string;
+  created_at: string;
+  last_accessed_at: string | null;
+}
+
+export interface ResolvedCalendarFeed extends CalendarFeed {
+  company_name: string;
+  technician_name: string | null;
+}
+
+export class CalendarFeedRepository {
+  private static generateToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Get the vendor-wide feed (technicianUserId null) or a technician's feed,
+   * creating it on first use
+   */
+  static async getOrCreateFeed(vendorId: number, technicianUserId: number | null, createdBy: number): Promise<CalendarFeed> {
+    const existing = await pool.query(
+      `SELECT * FROM calendar_feed
+       WHERE vendor_id = $1 AND technician_user_id IS NOT DISTINCT FROM $2`,
+      [vendorId, technicianUserId]
+    );
+    if (existing.rows[0]) {
+      return existing.rows[0];
+    }
+
+    // A concurrent request may have created it; keep whichever token won
+    await pool.query(
+      `INSERT INTO calendar_feed (vendor_id, technician_user_id, token, created_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT DO NOTHING`,
+      [vendorId, technicianUserId, this.generateToken(), createdBy]
+    );
+
+    const result = await pool.query(
+      `SELECT * FROM calendar_feed
+       WHERE vendor_id = $1 AND technician_user_id IS NOT DISTINCT FROM $2`,
+      [vendorId, technicianUserId]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Replace a feed's token so previously shared URLs stop working
+   */
+  static async rotateFeed(vendorId: number, technicianUserId: number | null, createdBy: number): Promise<CalendarFeed> {
+    const result = await pool.query(
+      `UPDATE calendar_feed
+       SET token = $3, created_by = $4, created_at = CURRENT_TIMESTAMP, last_accessed_at = NULL
+       WHERE vendor_id = $1 AND technician_user_id IS NOT DISTINCT FROM $2
+       RETURNING *`,
+      [vendorId, technicianUserId, this.generateToken(), createdBy]
+    );
+    return result.rows[0] || this.getOrCreateFeed(vendorId, technicianUserId, createdBy);
+  }
+
+  /**
+   * Resolve a feed token. Feeds of inactive vendors and of technicians who
+   * left the vendor no longer resolve.
+   */
+  static async getFeedByToken(token: string): Promise<ResolvedCalendarFeed | null> {
+    const result = await pool.query(
+      `SELECT cf.*, v.company_name,
+              CASE WHEN u.id IS NOT NULL
+                THEN COALESCE(u.display_name, CONCAT(u.first_name, ' ', u.last_name))
+              END AS technician_name
+       FROM calendar_feed cf
+       JOIN vendors v ON cf.vendor_id = v.id AND v.status = 'active'
+       LEFT JOIN "user" u ON cf.technician_user_id = u.id
+       WHERE cf.token = $1
+         AND (
+           cf.technician_user_id IS NULL
+           OR v.user_id = cf.technician_user_id
+           OR EXISTS (
+             SELECT 1 FROM technicians t
+             WHERE t.user_id = cf.technician_user_id AND t.vendor_id = cf.vendor_id
+               AND t.status = 'active' AND u.deleted_at IS NULL
+           )
+         )`,
+      [token]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Record that a calendar app fetched the feed
+   */
+  static async markAccessed(feedId: number): Promise<void> {
+    await pool.query('UPDATE calendar_feed SET last_accessed_at = CURRENT_TIMESTAMP WHERE id = $1', [feedId]);
+  }
+}
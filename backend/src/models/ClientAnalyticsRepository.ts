@@ -1,5 +1,6 @@
 import { Pool } from 'pg';
 import { DebugLogger } from '../utils/DebugLogger';
+import { PLACEMENT_JOINS, ZONE_PATH_SQL } from './ClientSiteRepository';
 
 // Type definitions for client analytics data
 export interface ClientOverview {
@@ -33,6 +34,23 @@ export interface ComplianceByType {
   compliance_rate_pct: number;
 }
 
+export interface ComplianceBySite {
+  // Null for equipment not placed at any site
+  site_id: number | null;
+  site_name: string;
+  city: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  total: number;
+  compliant: number;
+  due_soon: number;
+  overdue: number;
+  expired: number;
+  // Null when nothing is placed at the site
+  compliance_rate_pct: number | null;
+  open_requests: number;
+}
+
 export interface RequestTrend {
   month: string;
   submitted: number;
@@ -50,6 +68,8 @@ export interface NonCompliantEquipment {
   equipment_name: string;
   serial_number: string;
   location: string;
+  site_name: string | null;
+  zone_path: string | null;
   compliance_status: string;
   next_maintenance: string;
   days_until_maintenance: string;
@@ -257,6 +277,72 @@ export class ClientAnalyticsRepository {
     return result.rows;
   }
 
+  /**
+   * Get compliance per site, including sites with nothing placed yet and a
+   * row for assigned equipment that isn't placed at any site
+   */
+  async getComplianceBySite(clientId: number): Promise<ComplianceBySite[]> {
+    DebugLogger.log('Fetching compliance by site', { clientId }, 'CLIENT_ANALYTICS');
+
+    const query = `
+      WITH assigned AS (
+          SELECT ei.id, ei.site_id, ei.compliance_status
+          FROM public.equipment_instance ei
+          WHERE ei.assigned_to = $1
+            AND ei.status = 'assigned'
+            AND ei.deleted_at IS NULL
+      ),
+      open_requests AS (
+          SELECT ei.site_id, COUNT(*)::int AS count
+          FROM public.maintenance_ticket mt
+          JOIN public.equipment_instance ei ON mt.equipment_instance_id = ei.id
+          WHERE mt.client_id = $1
+            AND mt.ticket_status IN ('open', 'in_progress')
+          GROUP BY ei.site_id
+      ),
+      by_site AS (
+          SELECT
+              s.id AS site_id,
+              s.site_name,
+              s.city,
+              s.latitude::float AS latitude,
+              s.longitude::float AS longitude,
+              COUNT(a.id)::int AS total,
+              COUNT(a.id) FILTER (WHERE a.compliance_status = 'compliant')::int AS compliant,
+              COUNT(a.id) FILTER (WHERE a.compliance_status = 'due_soon')::int AS due_soon,
+              COUNT(a.id) FILTER (WHERE a.compliance_status = 'overdue')::int AS overdue,
+              COUNT(a.id) FILTER (WHERE a.compliance_status = 'expired')::int AS expired
+          FROM public.client_site s
+          LEFT JOIN assigned a ON a.site_id = s.id
+          WHERE s.client_id = $1
+          GROUP BY s.id
+
+          UNION ALL
+
+          SELECT
+              NULL, 'Not placed at a site', NULL, NULL, NULL,
+              COUNT(*)::int,
+              COUNT(*) FILTER (WHERE a.compliance_status = 'compliant')::int,
+              COUNT(*) FILTER (WHERE a.compliance_status = 'due_soon')::int,
+              COUNT(*) FILTER (WHERE a.compliance_status = 'overdue')::int,
+              COUNT(*) FILTER (WHERE a.compliance_status = 'expired')::int
+          FROM assigned a
+          WHERE a.site_id IS NULL
+          HAVING COUNT(*) > 0
+      )
+      SELECT
+          bs.*,
+          ROUND((bs.compliant::numeric / NULLIF(bs.total, 0) * 100)::numeric, 1)::float AS compliance_rate_pct,
+          COALESCE(orq.count, 0) AS open_requests
+      FROM by_site bs
+      LEFT JOIN open_requests orq ON orq.site_id IS NOT DISTINCT FROM bs.site_id
+      ORDER BY bs.site_id IS NULL, compliance_rate_pct ASC NULLS LAST, bs.site_name;
+    `;
+
+    const result = await this.pool.query(query, [clientId]);
+    return result.rows;
+  }
+
   /**
    * Get service request trends for line chart
    */
@@ -318,6 +404,8 @@ export class ClientAnalyticsRepository {
           e.equipment_name,
           ei.serial_number,
           ei.location,
+          psite.site_name,
+          ${ZONE_PATH_SQL} AS zone_path,
           ei.compliance_status,
           TO_CHAR(ei.next_maintenance_date, 'Mon DD, YYYY') AS next_maintenance,
           (ei.next_maintenance_date - CURRENT_DATE)::text AS days_until_maintenance,
@@ -325,6 +413,7 @@ export class ClientAnalyticsRepository {
           (ei.expiry_date - CURRENT_DATE)::text AS days_until_expiry
       FROM public.equipment_instance ei
       JOIN public.equipment e ON ei.equipment_id = e.id
+      ${PLACEMENT_JOINS}
       WHERE ei.assigned_to = $1
         AND ei.status = 'assigned'
         AND ei.deleted_at IS NULL
@@ -1,4 +1,4 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 
 export interface ClientKPIs {
   total_clients: number;
@@ -135,6 +135,29 @@ export interface ClientFilters {
   limit?: number;
 }
 
+export interface ClientExportRow {
+  company_name: string;
+  business_type: string;
+  status: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  primary_phone: string;
+  street_address: string;
+  city: string;
+  zip_code: string;
+  country: string;
+  equipment_count: number;
+  compliant_count: number;
+  due_soon_count: number;
+  overdue_count: number;
+  expired_count: number;
+  compliance_percentage: number;
+  last_service_date: string | null;
+  created_at: string;
+}
+
 export interface PaginationInfo {
   page: number;
   limit: number;
@@ -537,6 +560,93 @@ export class ClientRepository {
     return parseInt(result.rows[0].count) === 0;
   }
 
+  /**
+   * Find which of the given emails already belong to a user.
+   * The unique index covers deleted users too, so they count as taken.
+   */
+  async getExistingEmails(emails: string[]): Promise<string[]> {
+    if (emails.length === 0) return [];
+
+    const result = await this.pool.query(
+      'SELECT LOWER(email) AS email FROM "user" WHERE LOWER(email) = ANY($1::text[])',
+      [emails.map(email => email.toLowerCase())]
+    );
+    return result.rows.map(row => row.email);
+  }
+
+  /**
+   * Insert the user and client records for one client on an open transaction
+   */
+  private async insertClient(
+    db: PoolClient,
+    vendorId: number,
+    clientData: CreateClientData
+  ): Promise<{ id: number; company_name: string }> {
+    // Create user record
+    const userQuery = `
+      INSERT INTO "user" (
+        first_name, last_name, display_name, email, password, user_type, 
+        role_id, phone, is_temporary_password, created_at, updated_at, last_password_change
+      ) VALUES (
+        $1, $2, $3, $4, $5, 'client', 3, $6, $7, 
+        CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+      ) RETURNING id
+    `;
+
+    const displayName = `${clientData.first_name} ${clientData.last_name}`;
+    const userResult = await db.query(userQuery, [
+      clientData.first_name,
+      clientData.last_name,
+      displayName,
+      clientData.email,
+      clientData.password,
+      clientData.phone,
+      clientData.is_temporary_password || false
+    ]);
+
+    const userId = userResult.rows[0].id;
+
+    // Create client record
+    const clientQuery = `
+      INSERT INTO clients (
+        user_id, created_by_vendor_id, company_name, business_type, 
+        primary_phone, street_address, city, zip_code, country, status, 
+        created_at, updated_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, 
+        'active', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+      ) RETURNING id, company_name
+    `;
+
+    const clientResult = await db.query(clientQuery, [
+      userId,
+      vendorId,
+      clientData.company_name,
+      clientData.business_type,
+      clientData.primary_phone,
+      clientData.street_address,
+      clientData.city,
+      clientData.zip_code,
+      clientData.country
+    ]);
+
+    // Every client starts with one site at their address; more can be added later
+    await db.query(
+      `INSERT INTO client_site (client_id, site_name, street_address, city, zip_code, country, contact_phone)
+       VALUES ($1, 'Main Site', $2, $3, $4, $5, $6)`,
+      [
+        clientResult.rows[0].id,
+        clientData.street_address,
+        clientData.city,
+        clientData.zip_code,
+        clientData.country,
+        clientData.primary_phone
+      ]
+    );
+
+    return clientResult.rows[0];
+  }
+
   /**
    * Create a new client (user + client records)
    */
@@ -545,57 +655,37 @@ export class ClientRepository {
     
     try {
       await client.query('BEGIN');
+      const created = await this.insertClient(client, vendorId, clientData);
+      await client.query('COMMIT');
+      return created;
 
-      // Create user record
-      const userQuery = `
-        INSERT INTO "user" (
-          first_name, last_name, display_name, email, password, user_type, 
-          role_id, phone, is_temporary_password, created_at, updated_at, last_password_change
-        ) VALUES (
-          $1, $2, $3, $4, $5, 'client', 3, $6, $7, 
-          CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
-        ) RETURNING id
-      `;
-
-      const displayName = `${clientData.first_name} ${clientData.last_name}`;
-      const userResult = await client.query(userQuery, [
-        clientData.first_name,
-        clientData.last_name,
-        displayName,
-        clientData.email,
-        clientData.password,
-        clientData.phone,
-        clientData.is_temporary_password || false
-      ]);
-
-      const userId = userResult.rows[0].id;
-
-      // Create client record
-      const clientQuery = `
-        INSERT INTO clients (
-          user_id, created_by_vendor_id, company_name, business_type, 
-          primary_phone, street_address, city, zip_code, country, status, 
-          created_at, updated_at
-        ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, 
-          'active', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
-        ) RETURNING id, company_name
-      `;
-
-      const clientResult = await client.query(clientQuery, [
-        userId,
-        vendorId,
-        clientData.company_name,
-        clientData.business_type,
-        clientData.primary_phone,
-        clientData.street_address,
-        clientData.city,
-        clientData.zip_code,
-        clientData.country
-      ]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Create several clients in one transaction. Either all are created or none.
+   */
+  async createClients(
+    vendorId: number,
+    clients: CreateClientData[]
+  ): Promise<Array<{ id: number; company_name: string }>> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const created = [];
+      for (const clientData of clients) {
+        created.push(await this.insertClient(client, vendorId, clientData));
+      }
 
       await client.query('COMMIT');
-      return clientResult.rows[0];
+      return created;
 
     } catch (error) {
       await client.query('ROLLBACK');
@@ -605,6 +695,53 @@ export class ClientRepository {
     }
   }
 
+  /**
+   * Get every client of a vendor with equipment and compliance counts for export
+   */
+  async getClientsForExport(vendorId: number): Promise<ClientExportRow[]> {
+    const query = `
+      SELECT
+        c.company_name,
+        c.business_type,
+        c.status,
+        u.first_name,
+        u.last_name,
+        u.email,
+        u.phone,
+        c.primary_phone,
+        c.street_address,
+        c.city,
+        c.zip_code,
+        c.country,
+        COUNT(ei.id)::int AS equipment_count,
+        COUNT(ei.id) FILTER (WHERE ei.compliance_status = 'compliant')::int AS compliant_count,
+        COUNT(ei.id) FILTER (WHERE ei.compliance_status = 'due_soon')::int AS due_soon_count,
+        COUNT(ei.id) FILTER (WHERE ei.compliance_status = 'overdue')::int AS overdue_count,
+        COUNT(ei.id) FILTER (WHERE ei.compliance_status = 'expired')::int AS expired_count,
+        COALESCE(
+          ROUND(
+            (COUNT(ei.id) FILTER (WHERE ei.compliance_status = 'compliant')::numeric
+              / NULLIF(COUNT(ei.id), 0) * 100),
+            2
+          ),
+          0
+        )::float AS compliance_percentage,
+        (SELECT MAX(mt.resolved_at)
+         FROM maintenance_ticket mt
+         WHERE mt.client_id = c.id AND mt.ticket_status = 'resolved') AS last_service_date,
+        c.created_at
+      FROM clients c
+      JOIN "user" u ON c.user_id = u.id
+      LEFT JOIN equipment_instance ei ON ei.assigned_to = c.id AND ei.deleted_at IS NULL
+      WHERE c.created_by_vendor_id = $1 AND u.deleted_at IS NULL
+      GROUP BY c.id, u.id
+      ORDER BY c.company_name
+    `;
+
+    const result = await this.pool.query(query, [vendorId]);
+    return result.rows;
+  }
+
   /**
    * Update client information
    */
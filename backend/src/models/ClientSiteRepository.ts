@@ -0,0 +1,347 @@
+/**
+ * ClientSiteRepository
+ * A client's sites, the building/floor/room zones inside them, and where
+ * each equipment instance is placed
+ */
+
+import { pool } from '../config/database';
+import { EquipmentLifecycleRepository } from './EquipmentLifecycleRepository';
+
+export type ZoneType = 'building' | 'floor' | 'room';
+
+export interface ClientSite {
+  id: number;
+  client_id: number;
+  client_name: string;
+  site_name: string;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  zip_code: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  contact_name: string | null;
+  contact_phone: string | null;
+  contact_email: string | null;
+  notes: string | null;
+  equipment_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ClientSiteData = Partial<Pick<ClientSite,
+  | 'site_name'
+  | 'street_address'
+  | 'city'
+  | 'state'
+  | 'zip_code'
+  | 'country'
+  | 'latitude'
+  | 'longitude'
+  | 'contact_name'
+  | 'contact_phone'
+  | 'contact_email'
+  | 'notes'
+>>;
+
+export interface SiteZone {
+  id: number;
+  site_id: number;
+  parent_id: number | null;
+  zone_type: ZoneType;
+  zone_name: string;
+  // Names from the building down, e.g. "Block A / Level 2 / Plant Room"
+  path: string;
+  equipment_count: number;
+}
+
+// Which client and vendor a site or zone belongs to, for access checks
+export interface SiteOwner {
+  site_id: number;
+  client_id: number;
+  vendor_id: number | null;
+}
+
+export interface ZoneOwner extends SiteOwner {
+  zone_id: number;
+  zone_type: ZoneType;
+}
+
+/**
+ * Joins and columns for showing where an instance is placed. Zones are at
+ * most three deep, so the path needs no recursion. Expects the instance
+ * aliased as `ei`.
+ */
+export const PLACEMENT_JOINS = `
+  LEFT JOIN public.client_site psite ON ei.site_id = psite.id
+  LEFT JOIN public.site_zone pzone ON ei.zone_id = pzone.id
+  LEFT JOIN public.site_zone pzone_parent ON pzone.parent_id = pzone_parent.id
+  LEFT JOIN public.site_zone pzone_top ON pzone_parent.parent_id = pzone_top.id`;
+
+export const ZONE_PATH_SQL = `NULLIF(concat_ws(' / ', pzone_top.zone_name, pzone_parent.zone_name, pzone.zone_name), '')`;
+
+/**
+ * Site to place newly assigned equipment in: the client's only site, or
+ * none when they have several and someone needs to choose
+ */
+export const SINGLE_SITE_SQL = (clientParam: string) =>
+  `(SELECT MIN(id) FROM public.client_site WHERE client_id = ${clientParam} HAVING COUNT(*) = 1)`;
+
+const SITE_COLUMNS: (keyof ClientSiteData)[] = [
+  'site_name',
+  'street_address',
+  'city',
+  'state',
+  'zip_code',
+  'country',
+  'latitude',
+  'longitude',
+  'contact_name',
+  'contact_phone',
+  'contact_email',
+  'notes',
+];
+
+const SITE_SELECT = `
+  SELECT s.id, s.client_id, c.company_name AS client_name, s.site_name,
+         s.street_address, s.city, s.state, s.zip_code, s.country,
+         s.latitude::float AS latitude, s.longitude::float AS longitude,
+         s.contact_name, s.contact_phone, s.contact_email, s.notes,
+         (SELECT COUNT(*)::int FROM public.equipment_instance ei
+          WHERE ei.site_id = s.id AND ei.deleted_at IS NULL) AS equipment_count,
+         s.created_at, s.updated_at
+  FROM public.client_site s
+  JOIN public.clients c ON s.client_id = c.id`;
+
+export class ClientSiteRepository {
+  /**
+   * Sites of one client, or of every client a vendor manages
+   */
+  static async listSites(scope: { clientId?: number; vendorId?: number }): Promise<ClientSite[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (scope.clientId) {
+      params.push(scope.clientId);
+      conditions.push(`s.client_id = $${params.length}`);
+    }
+    if (scope.vendorId) {
+      params.push(scope.vendorId);
+      conditions.push(`c.created_by_vendor_id = $${params.length}`);
+    }
+
+    const result = await pool.query(
+      `${SITE_SELECT}
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY c.company_name, s.site_name`,
+      params
+    );
+    return result.rows;
+  }
+
+  static async findSite(siteId: number): Promise<ClientSite | null> {
+    const result = await pool.query(`${SITE_SELECT} WHERE s.id = $1`, [siteId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Zones of the given sites, parents before children
+   */
+  static async listZones(siteIds: number[]): Promise<SiteZone[]> {
+    if (siteIds.length === 0) return [];
+
+    const result = await pool.query(
+      `WITH RECURSIVE tree AS (
+         SELECT z.id, z.site_id, z.parent_id, z.zone_type, z.zone_name,
+                z.zone_name::text AS path, lower(z.zone_name)::text AS sort_key
+         FROM public.site_zone z
+         WHERE z.site_id = ANY($1::int[]) AND z.parent_id IS NULL
+         UNION ALL
+         SELECT z.id, z.site_id, z.parent_id, z.zone_type, z.zone_name,
+                tree.path || ' / ' || z.zone_name, tree.sort_key || '/' || lower(z.zone_name)
+         FROM public.site_zone z
+         JOIN tree ON z.parent_id = tree.id
+       )
+       SELECT tree.id, tree.site_id, tree.parent_id, tree.zone_type, tree.zone_name, tree.path,
+              (SELECT COUNT(*)::int FROM public.equipment_instance ei
+               WHERE ei.zone_id = tree.id AND ei.deleted_at IS NULL) AS equipment_count
+       FROM tree
+       ORDER BY tree.site_id, tree.sort_key`,
+      [siteIds]
+    );
+    return result.rows;
+  }
+
+  /**
+   * The vendor managing a client, or null if there's no such client
+   */
+  static async getClientVendorId(clientId: number): Promise<number | null> {
+    const result = await pool.query('SELECT created_by_vendor_id FROM public.clients WHERE id = $1', [clientId]);
+    return result.rows[0]?.created_by_vendor_id ?? null;
+  }
+
+  static async getSiteOwner(siteId: number): Promise<SiteOwner | null> {
+    const result = await pool.query(
+      `SELECT s.id AS site_id, s.client_id, c.created_by_vendor_id AS vendor_id
+       FROM public.client_site s
+       JOIN public.clients c ON s.client_id = c.id
+       WHERE s.id = $1`,
+      [siteId]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async getZoneOwner(zoneId: number): Promise<ZoneOwner | null> {
+    const result = await pool.query(
+      `SELECT z.id AS zone_id, z.zone_type, s.id AS site_id, s.client_id, c.created_by_vendor_id AS vendor_id
+       FROM public.site_zone z
+       JOIN public.client_site s ON z.site_id = s.id
+       JOIN public.clients c ON s.client_id = c.id
+       WHERE z.id = $1`,
+      [zoneId]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async createSite(clientId: number, data: ClientSiteData): Promise<ClientSite> {
+    const columns = SITE_COLUMNS.filter(column => data[column] !== undefined);
+    const result = await pool.query(
+      `INSERT INTO public.client_site (client_id${columns.map(column => `, ${column}`).join('')})
+       VALUES ($1${columns.map((_, index) => `, $${index + 2}`).join('')})
+       RETURNING id`,
+      [clientId, ...columns.map(column => data[column])]
+    );
+    return (await this.findSite(result.rows[0].id))!;
+  }
+
+  static async updateSite(siteId: number, data: ClientSiteData): Promise<ClientSite | null> {
+    const columns = SITE_COLUMNS.filter(column => data[column] !== undefined);
+    if (columns.length > 0) {
+      await pool.query(
+        `UPDATE public.client_site
+         SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')},
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [siteId, ...columns.map(column => data[column])]
+      );
+    }
+    return this.findSite(siteId);
+  }
+
+  static async deleteSite(siteId: number): Promise<void> {
+    await pool.query('DELETE FROM public.client_site WHERE id = $1', [siteId]);
+  }
+
+  static async createZone(siteId: number, parentId: number | null, zoneType: ZoneType, zoneName: string): Promise<number> {
+    const result = await pool.query(
+      `INSERT INTO public.site_zone (site_id, parent_id, zone_type, zone_name)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [siteId, parentId, zoneType, zoneName]
+    );
+    return result.rows[0].id;
+  }
+
+  static async renameZone(zoneId: number, zoneName: string): Promise<void> {
+    await pool.query(
+      'UPDATE public.site_zone SET zone_name = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [zoneId, zoneName]
+    );
+  }
+
+  static async deleteZone(zoneId: number): Promise<void> {
+    await pool.query('DELETE FROM public.site_zone WHERE id = $1', [zoneId]);
+  }
+
+  /**
+   * Equipment placed in a zone or any zone beneath it
+   */
+  static async countEquipmentInZone(zoneId: number): Promise<number> {
+    const result = await pool.query(
+      `WITH RECURSIVE subtree AS (
+         SELECT id FROM public.site_zone WHERE id = $1
+         UNION ALL
+         SELECT z.id FROM public.site_zone z JOIN subtree ON z.parent_id = subtree.id
+       )
+       SELECT COUNT(*)::int AS count
+       FROM public.equipment_instance ei
+       WHERE ei.zone_id IN (SELECT id FROM subtree) AND ei.deleted_at IS NULL`,
+      [zoneId]
+    );
+    return result.rows[0].count;
+  }
+
+  /**
+   * The instance's vendor and client, for checking a placement
+   */
+  static async getInstanceOwner(instanceId: number): Promise<{ vendor_id: number; assigned_to: number | null } | null> {
+    const result = await pool.query(
+      `SELECT vendor_id, assigned_to FROM public.equipment_instance WHERE id = $1 AND deleted_at IS NULL`,
+      [instanceId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Place an instance at a site and zone (both null to clear), optionally
+   * updating the free-text location. A change of place is recorded in the
+   * instance's lifecycle ledger.
+   */
+  static async placeInstance(
+    instanceId: number,
+    siteId: number | null,
+    zoneId: number | null,
+    location?: string | null,
+    recordedBy?: number
+  ): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE public.equipment_instance ei
+         SET site_id = $2,
+             zone_id = $3,
+             location = CASE WHEN $4::boolean THEN $5 ELSE ei.location END,
+             updated_at = CURRENT_TIMESTAMP
+         FROM (
+           SELECT id, site_id, zone_id, location FROM public.equipment_instance WHERE id = $1 FOR UPDATE
+         ) previous
+         WHERE ei.id = previous.id
+         RETURNING ei.location,
+                   (ei.site_id IS DISTINCT FROM previous.site_id
+                    OR ei.zone_id IS DISTINCT FROM previous.zone_id
+                    OR ei.location IS DISTINCT FROM previous.location) AS moved`,
+        [instanceId, siteId, zoneId, location !== undefined, location ?? null]
+      );
+
+      if (result.rows[0]?.moved) {
+        const place = await client.query(
+          `SELECT psite.site_name, ${ZONE_PATH_SQL} AS zone_path, ei.location
+           FROM public.equipment_instance ei
+           ${PLACEMENT_JOINS}
+           WHERE ei.id = $1`,
+          [instanceId]
+        );
+        const { site_name, zone_path, location: details } = place.rows[0];
+        const where = [site_name, zone_path, details].filter(Boolean).join(' · ');
+
+        await EquipmentLifecycleRepository.record(client, instanceId, {
+          event_type: 'relocated',
+          description: where ? `Moved to ${where}` : 'Placement cleared',
+          metadata: { site_id: siteId, zone_id: zoneId },
+          recorded_by: recordedBy
+        });
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -1,4 +1,6 @@
 import { pool } from '../config/database';
+import { PLACEMENT_JOINS, ZONE_PATH_SQL } from './ClientSiteRepository';
+import { slaOutcomeColumns } from './ServiceContractRepository';
 
 export class ClientViewsRepository {
   
@@ -270,8 +272,10 @@ export class ClientViewsRepository {
   /**
    * Get equipment types overview for client (similar to vendor equipment types page)
    */
-  static async getEquipmentTypesOverview(userId: number) {
+  static async getEquipmentTypesOverview(userId: number, siteId?: number) {
     try {
+      // Optionally only count equipment placed at one of the client's sites
+      const siteFilter = siteId ? 'AND ei.site_id = $2' : '';
       const query = `
         WITH client_data AS (
             SELECT c.id AS client_id
@@ -323,6 +327,7 @@ export class ClientViewsRepository {
                     WHERE ei.equipment_id = e.id
                       AND ei.status = 'assigned'
                       AND ei.deleted_at IS NULL
+                      ${siteFilter}
                 ) inst ON TRUE
                 WHERE inst.total > 0
                   AND e.deleted_at IS NULL
@@ -332,10 +337,11 @@ export class ClientViewsRepository {
         JOIN public.equipment e ON ei.equipment_id = e.id
         JOIN client_data cd ON ei.assigned_to = cd.client_id
         WHERE ei.status = 'assigned'
-          AND ei.deleted_at IS NULL;
+          AND ei.deleted_at IS NULL
+          ${siteFilter};
       `;
       
-      const result = await pool.query(query, [userId]);
+      const result = await pool.query(query, siteId ? [userId, siteId] : [userId]);
       return result.rows[0] || {
         total_equipment_types: '0',
         total_assigned: '0',
@@ -756,6 +762,8 @@ export class ClientViewsRepository {
                 ei.serial_number,
                 ei.asset_tag,
                 ei.location,
+                psite.site_name,
+                ${ZONE_PATH_SQL} AS zone_path,
                 ei.next_maintenance_date,
                 ei.last_maintenance_date,
                 ei.expiry_date,
@@ -804,6 +812,7 @@ export class ClientViewsRepository {
 
             FROM public.equipment_instance ei
             JOIN client_data cd ON ei.assigned_to = cd.client_id
+            ${PLACEMENT_JOINS}
             LEFT JOIN public.assignment_item ai ON ei.id = ai.equipment_instance_id
             LEFT JOIN public.equipment_assignment ea ON ai.assignment_id = ea.id
             LEFT JOIN public.vendors v ON ea.vendor_id = v.id
@@ -874,6 +883,8 @@ export class ClientViewsRepository {
                     'serial_number', iwa.serial_number,
                     'asset_tag', iwa.asset_tag,
                     'location', COALESCE(iwa.location, 'Not specified'),
+                    'site_name', iwa.site_name,
+                    'zone_path', iwa.zone_path,
                     'compliance_status', iwa.compliance_status,
                     'next_maintenance_date', TO_CHAR(iwa.next_maintenance_date, 'Mon DD, YYYY'),
                     'days_until_maintenance', (iwa.next_maintenance_date - CURRENT_DATE),
@@ -1091,7 +1102,13 @@ export class ClientViewsRepository {
           COALESCE(v.street_address, 'N/A') AS vendor_address,
           -- Technician information
           COALESCE(u.display_name, 'Not Assigned') AS technician_name,
-          COALESCE(u.email, 'N/A') AS technician_email
+          COALESCE(u.email, 'N/A') AS technician_email,
+          -- Service contract due-by times
+          sc.contract_name AS service_contract_name,
+          TO_CHAR(mt.response_due_at, 'YYYY-MM-DD"T"HH24:MI:SS') AS response_due_at,
+          TO_CHAR(mt.resolution_due_at, 'YYYY-MM-DD"T"HH24:MI:SS') AS resolution_due_at,
+          TO_CHAR(mt.responded_at, 'YYYY-MM-DD"T"HH24:MI:SS') AS responded_at,
+          ${slaOutcomeColumns('mt')}
         FROM public.maintenance_ticket mt
         -- Join to get client information and verify ownership
         JOIN public.clients c ON mt.client_id = c.id
@@ -1102,6 +1119,7 @@ export class ClientViewsRepository {
         LEFT JOIN public.vendors v ON mt.vendor_id = v.id
         LEFT JOIN public.user vu ON v.user_id = vu.id  -- Join vendor user for email
         LEFT JOIN public.user u ON mt.assigned_technician = u.id
+        LEFT JOIN public.service_contract sc ON mt.service_contract_id = sc.id
         WHERE mt.id = $1 
           AND cu.id = $2  -- Ensure this ticket belongs to the logged-in client
           AND c.status = 'active'
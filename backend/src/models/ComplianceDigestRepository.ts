@@ -0,0 +1,166 @@
+/**
+ * ComplianceDigestRepository
+ * Gathers what goes into a client's or vendor's compliance digest: upcoming
+ * and overdue maintenance, expiring equipment, open tickets and tickets
+ * resolved since the last digest
+ */
+
+import { pool } from '../config/database';
+
+export type DigestRecipientType = 'client' | 'vendor';
+
+export interface ComplianceDigestRecipient {
+  recipient_type: DigestRecipientType;
+  // clients.id or vendors.id
+  entity_id: number;
+  company_name: string;
+  user_id: number;
+  email: string;
+  // Whose branding the digest is sent in: the vendor itself, or the client's vendor
+  vendor_id: number | null;
+}
+
+export interface DigestEquipmentItem {
+  equipment_id: number;
+  equipment_name: string;
+  serial_number: string;
+  location: string | null;
+  client_name: string;
+  due_date: string;
+  days_until_due: number;
+}
+
+export interface DigestTicketItem {
+  ticket_id: number;
+  ticket_number: string;
+  equipment_name: string | null;
+  client_name: string;
+  priority: string;
+  ticket_status: string;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface ComplianceDigestData {
+  maintenance: DigestEquipmentItem[];
+  expiries: DigestEquipmentItem[];
+  openTickets: DigestTicketItem[];
+  resolvedTickets: DigestTicketItem[];
+}
+
+export class ComplianceDigestRepository {
+
+  /**
+   * Every active client and vendor account with a login to send to
+   */
+  static async findRecipients(): Promise<ComplianceDigestRecipient[]> {
+    const result = await pool.query(
+      `SELECT 'client' AS recipient_type, c.id AS entity_id, c.company_name,
+              u.id AS user_id, u.email, c.created_by_vendor_id AS vendor_id
+       FROM public.clients c
+       JOIN public."user" u ON c.user_id = u.id
+       WHERE c.status = 'active' AND u.deleted_at IS NULL
+       UNION ALL
+       SELECT 'vendor' AS recipient_type, v.id AS entity_id, v.company_name,
+              u.id AS user_id, u.email, v.id AS vendor_id
+       FROM public.vendors v
+       JOIN public."user" u ON v.user_id = u.id
+       WHERE v.status = 'active' AND u.deleted_at IS NULL
+       ORDER BY recipient_type, entity_id`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Digest contents for one client or vendor. Overdue maintenance and
+   * expired equipment are always included; upcoming items only within
+   * `lookaheadDays`. Resolved tickets cover the last `sinceDays`.
+   */
+  static async getDigestData(
+    recipientType: DigestRecipientType,
+    entityId: number,
+    lookaheadDays: number,
+    sinceDays: number
+  ): Promise<ComplianceDigestData> {
+    const equipmentScope = recipientType === 'client' ? 'ei.assigned_to = $1' : 'ei.vendor_id = $1';
+    const ticketScope = recipientType === 'client' ? 'mt.client_id = $1' : 'mt.vendor_id = $1';
+
+    const equipmentColumns = `
+      ei.id AS equipment_id,
+      eq.equipment_name,
+      ei.serial_number,
+      ei.location,
+      c.company_name AS client_name`;
+
+    const ticketColumns = `
+      mt.id AS ticket_id,
+      mt.ticket_number,
+      eq.equipment_name,
+      c.company_name AS client_name,
+      mt.priority,
+      mt.ticket_status,
+      mt.created_at,
+      mt.resolved_at`;
+
+    const [maintenance, expiries, openTickets, resolvedTickets] = await Promise.all([
+      pool.query(
+        `SELECT ${equipmentColumns},
+                to_char(ei.next_maintenance_date, 'YYYY-MM-DD') AS due_date,
+                (ei.next_maintenance_date - CURRENT_DATE) AS days_until_due
+         FROM public.equipment_instance ei
+         JOIN public.equipment eq ON ei.equipment_id = eq.id
+         JOIN public.clients c ON ei.assigned_to = c.id
+         WHERE ${equipmentScope}
+           AND ei.deleted_at IS NULL
+           AND ei.status <> 'retired'
+           AND ei.next_maintenance_date IS NOT NULL
+           AND ei.next_maintenance_date <= CURRENT_DATE + $2::int
+         ORDER BY ei.next_maintenance_date, ei.serial_number`,
+        [entityId, lookaheadDays]
+      ),
+      pool.query(
+        `SELECT ${equipmentColumns},
+                to_char(ei.expiry_date, 'YYYY-MM-DD') AS due_date,
+                (ei.expiry_date - CURRENT_DATE) AS days_until_due
+         FROM public.equipment_instance ei
+         JOIN public.equipment eq ON ei.equipment_id = eq.id
+         JOIN public.clients c ON ei.assigned_to = c.id
+         WHERE ${equipmentScope}
+           AND ei.deleted_at IS NULL
+           AND ei.status <> 'retired'
+           AND ei.expiry_date <= CURRENT_DATE + $2::int
+         ORDER BY ei.expiry_date, ei.serial_number`,
+        [entityId, lookaheadDays]
+      ),
+      pool.query(
+        `SELECT ${ticketColumns}
+         FROM public.maintenance_ticket mt
+         JOIN public.clients c ON mt.client_id = c.id
+         LEFT JOIN public.equipment_instance ei ON mt.equipment_instance_id = ei.id
+         LEFT JOIN public.equipment eq ON ei.equipment_id = eq.id
+         WHERE ${ticketScope}
+           AND mt.ticket_status NOT IN ('resolved', 'closed')
+         ORDER BY mt.created_at`,
+        [entityId]
+      ),
+      pool.query(
+        `SELECT ${ticketColumns}
+         FROM public.maintenance_ticket mt
+         JOIN public.clients c ON mt.client_id = c.id
+         LEFT JOIN public.equipment_instance ei ON mt.equipment_instance_id = ei.id
+         LEFT JOIN public.equipment eq ON ei.equipment_id = eq.id
+         WHERE ${ticketScope}
+           AND mt.resolved_at >= CURRENT_TIMESTAMP - make_interval(days => $2::int)
+         ORDER BY mt.resolved_at DESC`,
+        [entityId, sinceDays]
+      )
+    ]);
+
+    return {
+      maintenance: maintenance.rows,
+      expiries: expiries.rows,
+      openTickets: openTickets.rows,
+      resolvedTickets: resolvedTickets.rows
+    };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * EquipmentLifecycleRepository
+ * Append-only ledger of lifecycle events per equipment instance. Events are
+ * written inside the transaction of the change they describe; the table
+ * rejects updates and deletes.
+ */
+
+import { PoolClient } from 'pg';
+import { pool } from '../config/database';
+
+export type LifecycleEventType =
+  | 'received'
+  | 'assigned'
+  | 'relocated'
+  | 'inspected'
+  | 'serviced'
+  | 'recharged'
+  | 'failed_inspection'
+  | 'returned'
+  | 'retired'
+  | 'disposed';
+
+export const LIFECYCLE_EVENT_LABELS: Record<LifecycleEventType, string> = {
+  received: 'Received',
+  assigned: 'Assigned',
+  relocated: 'Relocated',
+  inspected: 'Inspected',
+  serviced: 'Serviced',
+  recharged: 'Recharged',
+  failed_inspection: 'Failed inspection',
+  returned: 'Returned',
+  retired: 'Retired',
+  disposed: 'Disposed'
+};
+
+export interface LifecycleEventInput {
+  event_type: LifecycleEventType;
+  description: string;
+  // Defaults to the client the unit is assigned to when the event is written
+  client_id?: number | null;
+  ticket_id?: number | null;
+  reference_number?: string | null;
+  metadata?: Record<string, unknown>;
+  recorded_by?: number | null;
+}
+
+export interface LifecycleEvent {
+  id: number;
+  equipment_instance_id: number;
+  event_type: LifecycleEventType;
+  event_date: string;
+  description: string;
+  client_id: number | null;
+  client_name: string | null;
+  ticket_id: number | null;
+  reference_number: string | null;
+  metadata: Record<string, unknown>;
+  recorded_by_name: string | null;
+}
+
+// The instance a timeline belongs to, as shown at the top of an export
+export interface LifecycleInstance {
+  id: number;
+  serial_number: string;
+  asset_tag: string | null;
+  equipment_name: string;
+  equipment_type: string | null;
+  manufacturer: string | null;
+  model: string | null;
+  status: string;
+  purchase_date: string | null;
+  expiry_date: string | null;
+  vendor_id: number;
+  vendor_name: string | null;
+  assigned_to: number | null;
+  client_name: string | null;
+  deleted_at: string | null;
+}
+
+export class EquipmentLifecycleRepository {
+
+  /**
+   * Append one event to each of the given instances. Pass the transaction
+   * client when the event belongs to a larger change.
+   */
+  static async record(
+    db: PoolClient | typeof pool,
+    instanceIds: number | number[],
+    event: LifecycleEventInput
+  ): Promise<void> {
+    const ids = Array.isArray(instanceIds) ? instanceIds : [instanceIds];
+    if (ids.length === 0) return;
+
+    await db.query(
+      `INSERT INTO public.equipment_lifecycle_event (
+         equipment_instance_id, vendor_id, client_id, event_type, description,
+         ticket_id, reference_number, metadata, recorded_by
+       )
+       SELECT ei.id, ei.vendor_id, COALESCE($2, ei.assigned_to), $3, $4, $5, $6, $7, $8
+       FROM public.equipment_instance ei
+       WHERE ei.id = ANY($1::int[])`,
+      [
+        ids,
+        event.client_id ?? null,
+        event.event_type,
+        event.description,
+        event.ticket_id ?? null,
+        event.reference_number ?? null,
+        JSON.stringify(event.metadata || {}),
+        event.recorded_by ?? null
+      ]
+    );
+  }
+
+  static async getInstance(instanceId: number): Promise<LifecycleInstance | null> {
+    const result = await pool.query(
+      `SELECT ei.id, ei.serial_number, ei.asset_tag, e.equipment_name, e.equipment_type,
+              e.manufacturer, e.model, ei.status,
+              TO_CHAR(ei.purchase_date, 'YYYY-MM-DD') AS purchase_date,
+              TO_CHAR(ei.expiry_date, 'YYYY-MM-DD') AS expiry_date,
+              ei.vendor_id, v.company_name AS vendor_name,
+              ei.assigned_to, c.company_name AS client_name, ei.deleted_at
+       FROM public.equipment_instance ei
+       JOIN public.equipment e ON ei.equipment_id = e.id
+       LEFT JOIN public.vendors v ON ei.vendor_id = v.id
+       LEFT JOIN public.clients c ON ei.assigned_to = c.id
+       WHERE ei.id = $1`,
+      [instanceId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Events for an instance, oldest first. With a client ID only the events
+   * from while that client held the unit are returned.
+   */
+  static async getTimeline(instanceId: number, clientId?: number): Promise<LifecycleEvent[]> {
+    const params: number[] = [instanceId];
+    let clientFilter = '';
+    if (clientId) {
+      params.push(clientId);
+      clientFilter = 'AND le.client_id = $2';
+    }
+
+    const result = await pool.query(
+      `SELECT le.id, le.equipment_instance_id, le.event_type, le.event_date, le.description,
+              le.client_id, c.company_name AS client_name, le.ticket_id, le.reference_number,
+              le.metadata, u.display_name AS recorded_by_name
+       FROM public.equipment_lifecycle_event le
+       LEFT JOIN public.clients c ON le.client_id = c.id
+       LEFT JOIN public.user u ON le.recorded_by = u.id
+       WHERE le.equipment_instance_id = $1
+       ${clientFilter}
+       ORDER BY le.event_date, le.id`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Whether the client has ever held the instance, including units since
+   * returned to the vendor
+   */
+  static async clientHasHistory(instanceId: number, clientId: number): Promise<boolean> {
+    const result = await pool.query(
+      `SELECT EXISTS (
+         SELECT 1 FROM public.equipment_instance WHERE id = $1 AND assigned_to = $2
+         UNION ALL
+         SELECT 1 FROM public.equipment_lifecycle_event WHERE equipment_instance_id = $1 AND client_id = $2
+       ) AS has_history`,
+      [instanceId, clientId]
+    );
+    return result.rows[0].has_history;
+  }
+}
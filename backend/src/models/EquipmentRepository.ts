@@ -1,12 +1,15 @@
 import { pool } from '../config/database';
 import { PaginationQuery } from '../types/api';
 import { DebugLogger } from '../utils/DebugLogger';
+import { PLACEMENT_JOINS, SINGLE_SITE_SQL, ZONE_PATH_SQL } from './ClientSiteRepository';
+import { EquipmentLifecycleRepository } from './EquipmentLifecycleRepository';
 
 export interface EquipmentFilters {
   status?: string;
   compliance_status?: string;
   search?: string;
   equipment_type_id?: number;
+  site_id?: number;
 }
 
 export interface CreateEquipmentInstanceData {
@@ -20,6 +23,18 @@ export interface CreateEquipmentInstanceData {
   notes?: string;
 }
 
+export interface ImportEquipmentInstanceData {
+  equipment_id: number;
+  serial_number: string;
+  asset_tag?: string;
+  purchase_date: string;
+  warranty_expiry?: string;
+  expiry_date?: string;
+  maintenance_interval_days: number;
+  location?: string;
+  notes?: string;
+}
+
 export interface UpdateEquipmentInstanceData {
   status?: string;
   next_maintenance_date?: string;
@@ -122,6 +137,13 @@ export class EquipmentRepository {
         queryParams.push(filters.equipment_type_id);
       }
 
+      // Add site filter
+      if (filters.site_id) {
+        paramCount++;
+        whereClause += ` AND ei.site_id = $${paramCount}`;
+        queryParams.push(filters.site_id);
+      }
+
       const query = `
         SELECT 
           ei.id,
@@ -131,6 +153,10 @@ export class EquipmentRepository {
           ei.status,
           ei.compliance_status,
           ei.location,
+          ei.site_id,
+          psite.site_name,
+          ei.zone_id,
+          ${ZONE_PATH_SQL} AS zone_path,
           ei.next_maintenance_date,
           ei.expiry_date AS warranty_expiry,
           ei.created_at,
@@ -138,6 +164,7 @@ export class EquipmentRepository {
         FROM equipment_instance ei
         JOIN equipment e ON ei.equipment_id = e.id
         LEFT JOIN clients c ON ei.assigned_to = c.id
+        ${PLACEMENT_JOINS}
         ${whereClause}
         ORDER BY ei.serial_number
         LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
@@ -194,6 +221,13 @@ export class EquipmentRepository {
         queryParams.push(filters.equipment_type_id);
       }
 
+      // Add site filter
+      if (filters.site_id) {
+        paramCount++;
+        whereClause += ` AND ei.site_id = $${paramCount}`;
+        queryParams.push(filters.site_id);
+      }
+
       const query = `
         SELECT COUNT(*) as count
         FROM equipment_instance ei
@@ -214,7 +248,7 @@ export class EquipmentRepository {
    * Get equipment catalog for equipment management page
    * Uses direct SQL queries as specified
    */
-  static async getEquipmentTypes(vendorId?: number, filters: { search?: string, category?: string } = {}) {
+  static async getEquipmentTypes(vendorId?: number, filters: { search?: string, category?: string, site_id?: number } = {}) {
     const startTime = DebugLogger.startTimer();
     DebugLogger.log('Getting vendor equipment catalog', { vendorId, filters }, 'EQUIPMENT_REPO');
 
@@ -241,6 +275,16 @@ export class EquipmentRepository {
         queryParams.push(filters.category);
       }
 
+      // Add site filter: count only instances placed at the site, and hide
+      // types that have none there
+      let siteFilter = '';
+      if (filters.site_id) {
+        paramCount++;
+        siteFilter = ` AND ei.site_id = $${paramCount}`;
+        additionalFilters += ' AND inst.cnt > 0';
+        queryParams.push(filters.site_id);
+      }
+
       // Get the equipment types list - only show equipment types owned by this vendor
       const query = `
         SELECT jsonb_build_object(
@@ -273,7 +317,7 @@ export class EquipmentRepository {
           FROM equipment_instance ei
           WHERE ei.equipment_id = e.id
             AND ei.vendor_id = $1
-            AND ei.deleted_at IS NULL
+            AND ei.deleted_at IS NULL${siteFilter}
         ) inst ON TRUE
         WHERE e.vendor_id = $1 
           AND e.deleted_at IS NULL ${additionalFilters}
@@ -487,11 +531,15 @@ export class EquipmentRepository {
   /**
    * Add new equipment instance
    */
-  static async addEquipmentInstance(data: CreateEquipmentInstanceData) {
+  static async addEquipmentInstance(data: CreateEquipmentInstanceData, recordedBy?: number) {
     const startTime = DebugLogger.startTimer();
     DebugLogger.log('Adding equipment instance', { data }, 'EQUIPMENT_REPO');
 
+    const client = await pool.connect();
+
     try {
+      await client.query('BEGIN');
+
       const query = `
         INSERT INTO public.equipment_instance (
           equipment_id,
@@ -532,14 +580,25 @@ export class EquipmentRepository {
       ];
 
       DebugLogger.database('Add Equipment Instance Query', query);
-      const result = await pool.query(query, queryParams);
+      const result = await client.query(query, queryParams);
+
+      await EquipmentLifecycleRepository.record(client, result.rows[0].id, {
+        event_type: 'received',
+        description: 'Added to inventory',
+        recorded_by: recordedBy
+      });
+
+      await client.query('COMMIT');
 
       DebugLogger.performance('Equipment instance add', startTime, { id: result.rows[0].id });
       return result.rows[0];
 
     } catch (error) {
+      await client.query('ROLLBACK');
       DebugLogger.error('Error adding equipment instance', error, { data });
       throw error;
+    } finally {
+      client.release();
     }
   }
 
@@ -618,23 +677,55 @@ export class EquipmentRepository {
   }
 
   /**
-   * Get assignment history for equipment instance
+   * Get assignment history for equipment instance, including the return and
+   * swap requests it was part of (as the unit sent back or the replacement)
    */
   static async getAssignmentHistory(equipmentInstanceId: number, vendorId: number) {
     const startTime = DebugLogger.startTimer();
     DebugLogger.log('Getting assignment history', { equipmentInstanceId, vendorId }, 'EQUIPMENT_REPO');
 
     try {
+      // Returned units lose their assignment_item row, so past assignments
+      // are also found through the return requests that recorded them
       const query = `
         SELECT 
-          ea.assignment_number, c.company_name AS client, 
-          ea.assigned_at, ea.status, ea.total_cost
+          'assignment' AS event_type,
+          ea.assignment_number, NULL AS return_number, c.company_name AS client,
+          ea.assigned_at AS event_date, ea.status,
+          NULL AS request_type, NULL AS disposition, NULL AS reason, NULL AS vendor_notes,
+          NULL AS related_serial_number
         FROM equipment_assignment ea
-        JOIN assignment_item ai ON ea.id = ai.assignment_id
         JOIN clients c ON ea.client_id = c.id
-        WHERE ai.equipment_instance_id = $1
-        AND ea.vendor_id = $2
-        ORDER BY ea.assigned_at DESC
+        WHERE ea.vendor_id = $2
+        AND ea.id IN (
+          SELECT assignment_id FROM assignment_item WHERE equipment_instance_id = $1
+          UNION
+          SELECT assignment_id FROM equipment_return_item
+          WHERE (equipment_instance_id = $1 OR replacement_instance_id = $1) AND assignment_id IS NOT NULL
+        )
+
+        UNION ALL
+
+        SELECT 
+          CASE
+            WHEN ri.replacement_instance_id = $1 THEN 'swap_in'
+            WHEN r.request_type = 'swap' THEN 'swap_out'
+            ELSE 'return'
+          END AS event_type,
+          ea.assignment_number, r.return_number, c.company_name AS client,
+          COALESCE(r.return_date::timestamptz, r.created_at) AS event_date, r.status,
+          r.request_type, ri.disposition, r.reason, r.vendor_notes,
+          CASE WHEN ri.replacement_instance_id = $1 THEN old.serial_number ELSE rep.serial_number END AS related_serial_number
+        FROM equipment_return r
+        JOIN equipment_return_item ri ON r.id = ri.return_id
+        JOIN clients c ON r.client_id = c.id
+        JOIN equipment_instance old ON ri.equipment_instance_id = old.id
+        LEFT JOIN equipment_instance rep ON ri.replacement_instance_id = rep.id
+        LEFT JOIN equipment_assignment ea ON ri.assignment_id = ea.id
+        WHERE (ri.equipment_instance_id = $1 OR ri.replacement_instance_id = $1)
+        AND r.vendor_id = $2
+
+        ORDER BY event_date DESC
       `;
 
       const result = await pool.query(query, [equipmentInstanceId, vendorId]);
@@ -683,24 +774,34 @@ export class EquipmentRepository {
   static async updateEquipmentInstance(
     equipmentInstanceId: number,
     vendorId: number,
-    data: UpdateEquipmentInstanceData
+    data: UpdateEquipmentInstanceData,
+    recordedBy?: number
   ) {
     const startTime = DebugLogger.startTimer();
     DebugLogger.log('Updating equipment instance', { equipmentInstanceId, vendorId, data }, 'EQUIPMENT_REPO');
 
+    const client = await pool.connect();
+
     try {
+      await client.query('BEGIN');
+
+      // The previous status and location decide which lifecycle events to record
       const query = `
-        UPDATE equipment_instance
+        UPDATE equipment_instance ei
         SET 
-          status = COALESCE($3, status),
-          next_maintenance_date = COALESCE($4, next_maintenance_date),
-          location = COALESCE($5, location),
-          notes = COALESCE($6, notes),
+          status = COALESCE($3, ei.status),
+          next_maintenance_date = COALESCE($4, ei.next_maintenance_date),
+          location = COALESCE($5, ei.location),
+          notes = COALESCE($6, ei.notes),
           updated_at = CURRENT_TIMESTAMP
-        WHERE id = $1
-        AND vendor_id = $2
-        AND deleted_at IS NULL
-        RETURNING id, serial_number
+        FROM (
+          SELECT id, status, location FROM equipment_instance WHERE id = $1 FOR UPDATE
+        ) previous
+        WHERE ei.id = previous.id
+        AND ei.vendor_id = $2
+        AND ei.deleted_at IS NULL
+        RETURNING ei.id, ei.serial_number, ei.status, ei.location,
+                  previous.status AS previous_status, previous.location AS previous_location
       `;
 
       const queryParams = [
@@ -712,37 +813,67 @@ export class EquipmentRepository {
         data.notes || null
       ];
 
-      const result = await pool.query(query, queryParams);
+      const result = await client.query(query, queryParams);
 
       if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
         return null;
       }
 
+      const updated = result.rows[0];
+      if (updated.location !== updated.previous_location) {
+        await EquipmentLifecycleRepository.record(client, equipmentInstanceId, {
+          event_type: 'relocated',
+          description: `Moved to ${updated.location}`,
+          metadata: { previous_location: updated.previous_location, location: updated.location },
+          recorded_by: recordedBy
+        });
+      }
+      if (updated.status === 'retired' && updated.previous_status !== 'retired') {
+        await EquipmentLifecycleRepository.record(client, equipmentInstanceId, {
+          event_type: 'retired',
+          description: data.notes ? `Retired: ${data.notes}` : 'Retired from service',
+          metadata: { previous_status: updated.previous_status },
+          recorded_by: recordedBy
+        });
+      }
+
+      await client.query('COMMIT');
+
       DebugLogger.performance('Equipment instance update', startTime);
-      return result.rows[0];
+      return { id: updated.id, serial_number: updated.serial_number };
 
     } catch (error) {
+      await client.query('ROLLBACK');
       DebugLogger.error('Error updating equipment instance', error, { equipmentInstanceId, vendorId, data });
       throw error;
+    } finally {
+      client.release();
     }
   }
 
   /**
    * Soft delete equipment instance
    */
-  static async deleteEquipmentInstance(equipmentInstanceId: number, vendorId: number) {
+  static async deleteEquipmentInstance(equipmentInstanceId: number, vendorId: number, recordedBy?: number) {
     const startTime = DebugLogger.startTimer();
     DebugLogger.log('Deleting equipment instance', { equipmentInstanceId, vendorId }, 'EQUIPMENT_REPO');
 
+    const client = await pool.connect();
+
     try {
+      await client.query('BEGIN');
+
       // First check if instance is assigned
       const checkQuery = `
         SELECT assigned_to FROM equipment_instance
         WHERE id = $1 AND vendor_id = $2 AND deleted_at IS NULL
+        FOR UPDATE
       `;
-      const checkResult = await pool.query(checkQuery, [equipmentInstanceId, vendorId]);
+      const checkResult = await client.query(checkQuery, [equipmentInstanceId, vendorId]);
 
       if (checkResult.rows.length === 0) {
+        await client.query('ROLLBACK');
         return null;
       }
 
@@ -759,14 +890,25 @@ export class EquipmentRepository {
         RETURNING id, serial_number
       `;
 
-      const result = await pool.query(query, [equipmentInstanceId, vendorId]);
+      const result = await client.query(query, [equipmentInstanceId, vendorId]);
+
+      await EquipmentLifecycleRepository.record(client, equipmentInstanceId, {
+        event_type: 'disposed',
+        description: 'Removed from inventory',
+        recorded_by: recordedBy
+      });
+
+      await client.query('COMMIT');
 
       DebugLogger.performance('Equipment instance delete', startTime);
       return result.rows[0];
 
     } catch (error) {
+      await client.query('ROLLBACK');
       DebugLogger.error('Error deleting equipment instance', error, { equipmentInstanceId, vendorId });
       throw error;
+    } finally {
+      client.release();
     }
   }
 
@@ -825,7 +967,7 @@ export class EquipmentRepository {
   /**
    * Assign equipment to client
    */
-  static async assignEquipment(equipmentInstanceId: number, data: AssignEquipmentData) {
+  static async assignEquipment(equipmentInstanceId: number, data: AssignEquipmentData, recordedBy?: number) {
     const startTime = DebugLogger.startTimer();
     DebugLogger.log('Assigning equipment', { equipmentInstanceId, data }, 'EQUIPMENT_REPO');
 
@@ -873,7 +1015,8 @@ export class EquipmentRepository {
       // Update equipment instance status
       const updateQuery = `
         UPDATE equipment_instance
-        SET status = 'assigned', assigned_to = $2, assigned_at = CURRENT_TIMESTAMP
+        SET status = 'assigned', assigned_to = $2, assigned_at = CURRENT_TIMESTAMP,
+            site_id = ${SINGLE_SITE_SQL('$2')}, zone_id = NULL
         WHERE id = $1
         AND vendor_id = $3
         AND deleted_at IS NULL
@@ -890,6 +1033,14 @@ export class EquipmentRepository {
         throw new Error('Equipment instance not found or not owned by vendor');
       }
 
+      await EquipmentLifecycleRepository.record(client, equipmentInstanceId, {
+        event_type: 'assigned',
+        description: `Assigned under ${data.assignment_number}`,
+        client_id: data.client_id,
+        reference_number: data.assignment_number,
+        recorded_by: recordedBy
+      });
+
       await client.query('COMMIT');
 
       DebugLogger.performance('Equipment assignment', startTime);
@@ -1100,7 +1251,7 @@ export class EquipmentRepository {
   /**
    * Bulk assign multiple equipment instances to a client
    */
-  static async bulkAssignEquipmentToClient(data: BulkAssignEquipmentData) {
+  static async bulkAssignEquipmentToClient(data: BulkAssignEquipmentData, recordedBy?: number) {
     const startTime = DebugLogger.startTimer();
     DebugLogger.log('Bulk assigning equipment to client', { data }, 'EQUIPMENT_REPO');
 
@@ -1149,12 +1300,22 @@ export class EquipmentRepository {
       // Update equipment instance statuses to 'assigned' and set assigned_to
       const updateInstancesQuery = `
         UPDATE equipment_instance 
-        SET status = 'assigned', assigned_to = $1, assigned_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        SET status = 'assigned', assigned_to = $1, assigned_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP,
+            site_id = ${SINGLE_SITE_SQL('$1')}, zone_id = NULL
         WHERE id = ANY($2::int[])
       `;
       
       await client.query(updateInstancesQuery, [data.client_id, data.equipment_instances]);
 
+      await EquipmentLifecycleRepository.record(client, data.equipment_instances, {
+        event_type: 'assigned',
+        description: `Assigned under ${assignment_number}`,
+        client_id: data.client_id,
+        reference_number: assignment_number,
+        metadata: data.notes ? { notes: data.notes } : {},
+        recorded_by: recordedBy
+      });
+
       await client.query('COMMIT');
 
       DebugLogger.performance('Bulk equipment assignment', startTime);
@@ -1180,7 +1341,7 @@ export class EquipmentRepository {
   /**
    * Remove equipment assignment from client
    */
-  static async removeEquipmentAssignment(equipmentInstanceId: number, vendorId: number) {
+  static async removeEquipmentAssignment(equipmentInstanceId: number, vendorId: number, recordedBy?: number) {
     const startTime = DebugLogger.startTimer();
     DebugLogger.log('Removing equipment assignment', { equipmentInstanceId, vendorId }, 'EQUIPMENT_REPO');
 
@@ -1233,12 +1394,21 @@ export class EquipmentRepository {
           status = 'available',
           assigned_to = NULL,
           assigned_at = NULL,
+          site_id = NULL,
+          zone_id = NULL,
           updated_at = CURRENT_TIMESTAMP
         WHERE id = $1
       `;
       
       await client.query(updateEquipmentQuery, [equipmentInstanceId]);
 
+      await EquipmentLifecycleRepository.record(client, equipmentInstanceId, {
+        event_type: 'returned',
+        description: 'Assignment removed; back in stock',
+        client_id: clientId,
+        recorded_by: recordedBy
+      });
+
       // Check if there are any assignments with no items left and mark them as inactive
       const cleanupAssignmentsQuery = `
         UPDATE equipment_assignment 
@@ -1308,6 +1478,12 @@ export class EquipmentRepository {
         queryParams.push(`%${filters.search}%`);
       }
 
+      if (filters.site_id) {
+        paramCount++;
+        whereClause += ` AND ei.site_id = $${paramCount}`;
+        queryParams.push(filters.site_id);
+      }
+
       const query = `
         SELECT 
           ei.id,
@@ -1315,6 +1491,10 @@ export class EquipmentRepository {
           ei.status,
           ei.compliance_status,
           ei.location,
+          ei.site_id,
+          psite.site_name,
+          ei.zone_id,
+          ${ZONE_PATH_SQL} AS zone_path,
           ei.next_maintenance_date,
           ei.last_maintenance_date,
           ei.maintenance_interval_days,
@@ -1370,6 +1550,7 @@ export class EquipmentRepository {
         FROM equipment_instance ei
         JOIN equipment e ON ei.equipment_id = e.id
         LEFT JOIN clients c ON ei.assigned_to = c.id
+        ${PLACEMENT_JOINS}
         LEFT JOIN maintenance_ticket mt ON ei.id = mt.equipment_instance_id 
           AND mt.ticket_status IN ('open', 'resolved') 
           AND mt.support_type = 'maintenance'
@@ -1400,4 +1581,155 @@ export class EquipmentRepository {
       throw error;
     }
   }
+
+  /**
+   * Get instances of an equipment type for printing asset labels
+   */
+  static async getInstancesForLabels(equipmentTypeId: number, vendorId: number, instanceIds?: number[]) {
+    const startTime = DebugLogger.startTimer();
+    DebugLogger.log('Getting instances for labels', { equipmentTypeId, vendorId, instanceIds }, 'EQUIPMENT_REPO');
+
+    try {
+      const params: any[] = [equipmentTypeId, vendorId];
+      let instanceFilter = '';
+      if (instanceIds && instanceIds.length > 0) {
+        params.push(instanceIds);
+        instanceFilter = 'AND ei.id = ANY($3::int[])';
+      }
+
+      const query = `
+        SELECT
+          ei.id, ei.serial_number, ei.asset_tag, ei.location,
+          e.equipment_name, e.equipment_type,
+          v.company_name AS vendor_name,
+          c.company_name AS client_name
+        FROM equipment_instance ei
+        JOIN equipment e ON ei.equipment_id = e.id
+        JOIN vendors v ON ei.vendor_id = v.id
+        LEFT JOIN clients c ON ei.assigned_to = c.id
+        WHERE ei.equipment_id = $1
+        AND ei.vendor_id = $2
+        AND ei.deleted_at IS NULL
+        ${instanceFilter}
+        ORDER BY ei.serial_number
+      `;
+
+      const result = await pool.query(query, params);
+
+      DebugLogger.performance('Label instances fetch', startTime, { count: result.rows.length });
+      return result.rows;
+
+    } catch (error) {
+      DebugLogger.error('Error fetching instances for labels', error, { equipmentTypeId, vendorId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the ownership of a scanned equipment instance
+   */
+  static async getInstanceForScan(equipmentInstanceId: number): Promise<{
+    id: number;
+    equipment_id: number;
+    vendor_id: number;
+    assigned_to: number | null;
+    serial_number: string;
+  } | null> {
+    const result = await pool.query(
+      `SELECT id, equipment_id, vendor_id, assigned_to, serial_number
+       FROM equipment_instance
+       WHERE id = $1 AND deleted_at IS NULL`,
+      [equipmentInstanceId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get a vendor's equipment types keyed for lookup by equipment code
+   */
+  static async getEquipmentTypesByCode(vendorId: number): Promise<Array<{
+    id: number;
+    equipment_code: string;
+    equipment_name: string;
+    default_lifespan_years: number | null;
+  }>> {
+    const result = await pool.query(
+      `SELECT id, equipment_code, equipment_name, default_lifespan_years
+       FROM equipment
+       WHERE vendor_id = $1 AND equipment_code IS NOT NULL AND deleted_at IS NULL`,
+      [vendorId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Find which of the given serial numbers are already taken.
+   * Deleted instances still hold their serial in the unique index.
+   */
+  static async getExistingSerialNumbers(serialNumbers: string[]): Promise<string[]> {
+    if (serialNumbers.length === 0) return [];
+
+    const result = await pool.query(
+      `SELECT serial_number FROM equipment_instance WHERE serial_number = ANY($1::text[])`,
+      [serialNumbers]
+    );
+    return result.rows.map(row => row.serial_number);
+  }
+
+  /**
+   * Insert imported equipment instances in a single transaction
+   */
+  static async importEquipmentInstances(vendorId: number, instances: ImportEquipmentInstanceData[], recordedBy?: number) {
+    const startTime = DebugLogger.startTimer();
+    DebugLogger.log('Importing equipment instances', { vendorId, count: instances.length }, 'EQUIPMENT_REPO');
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const created = [];
+      for (const instance of instances) {
+        // expiry_date falls back to the type's default lifespan via trigger when null
+        const result = await client.query(
+          `INSERT INTO public.equipment_instance (
+            equipment_id, serial_number, asset_tag, vendor_id, purchase_date,
+            warranty_expiry, expiry_date, location, notes, status, maintenance_interval_days
+          ) VALUES ($1, $2, $3, $4, $5::date, $6::date, $7::date, $8, $9, 'available', $10)
+          RETURNING id, serial_number, expiry_date, next_maintenance_date`,
+          [
+            instance.equipment_id,
+            instance.serial_number,
+            instance.asset_tag || null,
+            vendorId,
+            instance.purchase_date,
+            instance.warranty_expiry || null,
+            instance.expiry_date || null,
+            instance.location || null,
+            instance.notes || null,
+            instance.maintenance_interval_days
+          ]
+        );
+        created.push(result.rows[0]);
+      }
+
+      await EquipmentLifecycleRepository.record(client, created.map(instance => instance.id), {
+        event_type: 'received',
+        description: 'Added to inventory by import',
+        recorded_by: recordedBy
+      });
+
+      await client.query('COMMIT');
+
+      DebugLogger.performance('Equipment instance import', startTime, { count: created.length });
+      return created;
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      DebugLogger.error('Error importing equipment instances', error, { vendorId, count: instances.length });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
 }
@@ -0,0 +1,439 @@
+/**
+ * EquipmentReturnRepository
+ * Client requests to return or swap assigned equipment, and completing them:
+ * returned units leave the client, swap replacements join the same assignment
+ */
+
+import { pool } from '../config/database';
+import { EquipmentReturn, EquipmentReturnItem } from '../types';
+import { EquipmentLifecycleRepository } from './EquipmentLifecycleRepository';
+
+export type ReturnRequestType = EquipmentReturn['request_type'];
+export type ReturnStatus = EquipmentReturn['status'];
+export type ReturnDisposition = NonNullable<EquipmentReturnItem['disposition']>;
+
+export interface ReturnRequestItem {
+  equipment_instance_id: number;
+  serial_number: string;
+  equipment_id: number;
+  equipment_name: string;
+  assignment_id: number | null;
+  assignment_number: string | null;
+  replacement_instance_id: number | null;
+  replacement_serial_number: string | null;
+  disposition: ReturnDisposition | null;
+}
+
+export interface ReturnRequest {
+  id: number;
+  return_number: string;
+  client_id: number;
+  client_name: string;
+  vendor_id: number;
+  request_type: ReturnRequestType;
+  status: ReturnStatus;
+  reason: string;
+  vendor_notes: string | null;
+  requested_by_name: string | null;
+  reviewed_by_name: string | null;
+  reviewed_at: string | null;
+  returned_by_name: string | null;
+  return_date: string | null;
+  created_at: string;
+  updated_at: string;
+  items: ReturnRequestItem[];
+}
+
+// An assigned unit a client may ask to return, with the assignment it's on
+export interface ReturnableInstance {
+  id: number;
+  serial_number: string;
+  vendor_id: number;
+  assignment_id: number | null;
+}
+
+export interface CompleteReturnLine {
+  equipment_instance_id: number;
+  disposition: ReturnDisposition;
+  replacement_instance_id: number | null;
+}
+
+export const OPEN_RETURN_STATUSES: ReturnStatus[] = ['pending', 'approved'];
+
+const RETURN_SELECT = `
+  SELECT r.id, r.return_number, r.client_id, c.company_name AS client_name, r.vendor_id,
+         r.request_type, r.status, r.reason, r.vendor_notes,
+         requester.display_name AS requested_by_name,
+         reviewer.display_name AS reviewed_by_name, r.reviewed_at,
+         returner.display_name AS returned_by_name, r.return_date,
+         r.created_at, r.updated_at,
+         COALESCE((
+           SELECT json_agg(json_build_object(
+                    'equipment_instance_id', ri.equipment_instance_id,
+                    'serial_number', ei.serial_number,
+                    'equipment_id', ei.equipment_id,
+                    'equipment_name', e.equipment_name,
+                    'assignment_id', ri.assignment_id,
+                    'assignment_number', ea.assignment_number,
+                    'replacement_instance_id', ri.replacement_instance_id,
+                    'replacement_serial_number', rep.serial_number,
+                    'disposition', ri.disposition
+                  ) ORDER BY ei.serial_number)
+           FROM public.equipment_return_item ri
+           JOIN public.equipment_instance ei ON ri.equipment_instance_id = ei.id
+           JOIN public.equipment e ON ei.equipment_id = e.id
+           LEFT JOIN public.equipment_assignment ea ON ri.assignment_id = ea.id
+           LEFT JOIN public.equipment_instance rep ON ri.replacement_instance_id = rep.id
+           WHERE ri.return_id = r.id
+         ), '[]'::json) AS items
+  FROM public.equipment_return r
+  JOIN public.clients c ON r.client_id = c.id
+  LEFT JOIN public.user requester ON r.requested_by = requester.id
+  LEFT JOIN public.user reviewer ON r.reviewed_by = reviewer.id
+  LEFT JOIN public.user returner ON r.returned_by = returner.id`;
+
+export class EquipmentReturnRepository {
+  /**
+   * Requests for one client or vendor, newest first
+   */
+  static async listReturns(
+    scope: { clientId?: number; vendorId?: number },
+    status?: ReturnStatus
+  ): Promise<ReturnRequest[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (scope.clientId) {
+      params.push(scope.clientId);
+      conditions.push(`r.client_id = $${params.length}`);
+    }
+    if (scope.vendorId) {
+      params.push(scope.vendorId);
+      conditions.push(`r.vendor_id = $${params.length}`);
+    }
+    if (status) {
+      params.push(status);
+      conditions.push(`r.status = $${params.length}`);
+    }
+
+    const result = await pool.query(
+      `${RETURN_SELECT}
+       ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY r.created_at DESC`,
+      params
+    );
+    return result.rows;
+  }
+
+  static async findById(returnId: number): Promise<ReturnRequest | null> {
+    const result = await pool.query(`${RETURN_SELECT} WHERE r.id = $1`, [returnId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * The given units that are currently assigned to the client, with the
+   * active assignment each one is on (null for direct assignments)
+   */
+  static async getReturnableInstances(clientId: number, instanceIds: number[]): Promise<ReturnableInstance[]> {
+    const result = await pool.query(
+      `SELECT ei.id, ei.serial_number, ei.vendor_id,
+              (SELECT ai.assignment_id
+               FROM public.assignment_item ai
+               JOIN public.equipment_assignment ea ON ai.assignment_id = ea.id
+               WHERE ai.equipment_instance_id = ei.id AND ea.client_id = ei.assigned_to
+               ORDER BY ea.assigned_at DESC
+               LIMIT 1) AS assignment_id
+       FROM public.equipment_instance ei
+       WHERE ei.id = ANY($1::int[])
+         AND ei.assigned_to = $2
+         AND ei.status = 'assigned'
+         AND ei.deleted_at IS NULL`,
+      [instanceIds, clientId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Units among the given ones that are already part of an open request
+   */
+  static async findOpenRequestsFor(instanceIds: number[]): Promise<{ equipment_instance_id: number; return_number: string }[]> {
+    const result = await pool.query(
+      `SELECT ri.equipment_instance_id, r.return_number
+       FROM public.equipment_return_item ri
+       JOIN public.equipment_return r ON ri.return_id = r.id
+       WHERE ri.equipment_instance_id = ANY($1::int[])
+         AND r.status = ANY($2::text[])`,
+      [instanceIds, OPEN_RETURN_STATUSES]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Available units of the vendor's among the given ones, for swap replacements
+   */
+  static async getAvailableInstances(vendorId: number, instanceIds: number[]): Promise<{ id: number; equipment_id: number }[]> {
+    const result = await pool.query(
+      `SELECT id, equipment_id
+       FROM public.equipment_instance
+       WHERE id = ANY($1::int[])
+         AND vendor_id = $2
+         AND status = 'available'
+         AND assigned_to IS NULL
+         AND deleted_at IS NULL`,
+      [instanceIds, vendorId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * RET-YYYYMMDD-NNN, numbered per day like assignment numbers
+   */
+  static async generateReturnNumber(): Promise<string> {
+    const today = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const prefix = `RET-${today}`;
+    const result = await pool.query(
+      'SELECT COUNT(*) AS count FROM public.equipment_return WHERE return_number LIKE $1',
+      [`${prefix}%`]
+    );
+    return `${prefix}-${(parseInt(result.rows[0].count) + 1).toString().padStart(3, '0')}`;
+  }
+
+  static async createReturn(data: {
+    client_id: number;
+    vendor_id: number;
+    request_type: ReturnRequestType;
+    reason: string;
+    requested_by: number;
+    items: { equipment_instance_id: number; assignment_id: number | null }[];
+  }): Promise<number> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const returnNumber = await this.generateReturnNumber();
+      const result = await client.query(
+        `INSERT INTO public.equipment_return (return_number, client_id, vendor_id, request_type, reason, requested_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id`,
+        [returnNumber, data.client_id, data.vendor_id, data.request_type, data.reason, data.requested_by]
+      );
+      const returnId = result.rows[0].id;
+
+      for (const item of data.items) {
+        await client.query(
+          `INSERT INTO public.equipment_return_item (return_id, equipment_instance_id, assignment_id)
+           VALUES ($1, $2, $3)`,
+          [returnId, item.equipment_instance_id, item.assignment_id]
+        );
+      }
+
+      await client.query('COMMIT');
+      return returnId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Approve or reject a pending request. Returns false if it was no longer pending.
+   */
+  static async reviewReturn(
+    returnId: number,
+    status: 'approved' | 'rejected',
+    reviewedBy: number,
+    notes: string | null
+  ): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE public.equipment_return
+       SET status = $2,
+           reviewed_by = $3,
+           reviewed_at = CURRENT_TIMESTAMP,
+           vendor_notes = COALESCE($4, vendor_notes),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'pending'`,
+      [returnId, status, reviewedBy, notes]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Complete an approved request in one transaction. Each returned unit leaves
+   * the client and goes back to stock or is retired; a swap's replacement is
+   * assigned to the client in the old unit's place, on the same assignment
+   * and at the same site, zone and location.
+   */
+  static async completeReturn(
+    returnId: number,
+    completedBy: number,
+    lines: CompleteReturnLine[],
+    notes: string | null
+  ) {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const header = await client.query(
+        `SELECT id, return_number, request_type, client_id, vendor_id, status
+         FROM public.equipment_return
+         WHERE id = $1
+         FOR UPDATE`,
+        [returnId]
+      );
+      const request = header.rows[0];
+      if (!request || request.status !== 'approved') {
+        await client.query('ROLLBACK');
+        return { success: false, message: 'Only approved requests can be completed' };
+      }
+
+      const touchedAssignments = new Set<number>();
+
+      for (const line of lines) {
+        const item = await client.query(
+          `SELECT ri.assignment_id, ei.site_id, ei.zone_id, ei.location
+           FROM public.equipment_return_item ri
+           JOIN public.equipment_instance ei ON ri.equipment_instance_id = ei.id
+           WHERE ri.return_id = $1
+             AND ri.equipment_instance_id = $2
+             AND ei.assigned_to = $3
+             AND ei.status = 'assigned'
+           FOR UPDATE OF ei`,
+          [returnId, line.equipment_instance_id, request.client_id]
+        );
+        const old = item.rows[0];
+        if (!old) {
+          await client.query('ROLLBACK');
+          return { success: false, message: 'A unit in this request is no longer assigned to the client' };
+        }
+
+        await client.query('DELETE FROM public.assignment_item WHERE equipment_instance_id = $1', [line.equipment_instance_id]);
+        await client.query(
+          `UPDATE public.equipment_instance
+           SET status = $2,
+               assigned_to = NULL,
+               assigned_at = NULL,
+               site_id = NULL,
+               zone_id = NULL,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [line.equipment_instance_id, line.disposition === 'retired' ? 'retired' : 'available']
+        );
+
+        await EquipmentLifecycleRepository.record(client, line.equipment_instance_id, {
+          event_type: 'returned',
+          description: `${line.replacement_instance_id ? 'Swapped out' : 'Returned'} under ${request.return_number}`,
+          client_id: request.client_id,
+          reference_number: request.return_number,
+          metadata: { request_type: request.request_type, disposition: line.disposition },
+          recorded_by: completedBy
+        });
+        if (line.disposition === 'retired') {
+          await EquipmentLifecycleRepository.record(client, line.equipment_instance_id, {
+            event_type: 'retired',
+            description: `Retired after ${request.return_number}`,
+            reference_number: request.return_number,
+            recorded_by: completedBy
+          });
+        }
+
+        if (line.replacement_instance_id) {
+          const replaced = await client.query(
+            `UPDATE public.equipment_instance
+             SET status = 'assigned',
+                 assigned_to = $2,
+                 assigned_at = CURRENT_TIMESTAMP,
+                 site_id = $4,
+                 zone_id = $5,
+                 location = COALESCE($6, location),
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1
+               AND vendor_id = $3
+               AND status = 'available'
+               AND assigned_to IS NULL
+               AND deleted_at IS NULL`,
+            [line.replacement_instance_id, request.client_id, request.vendor_id, old.site_id, old.zone_id, old.location]
+          );
+          if (replaced.rowCount === 0) {
+            await client.query('ROLLBACK');
+            return { success: false, message: 'A replacement unit is no longer available' };
+          }
+
+          if (old.assignment_id) {
+            await client.query(
+              `INSERT INTO public.assignment_item (assignment_id, equipment_instance_id, quantity, notes)
+               VALUES ($1, $2, 1, $3)`,
+              [old.assignment_id, line.replacement_instance_id, `Swapped in by return request #${returnId}`]
+            );
+          }
+
+          await EquipmentLifecycleRepository.record(client, line.replacement_instance_id, {
+            event_type: 'assigned',
+            description: `Swapped in under ${request.return_number}`,
+            client_id: request.client_id,
+            reference_number: request.return_number,
+            metadata: { replaces_instance_id: line.equipment_instance_id },
+            recorded_by: completedBy
+          });
+        }
+
+        if (old.assignment_id) {
+          touchedAssignments.add(old.assignment_id);
+        }
+
+        await client.query(
+          `UPDATE public.equipment_return_item
+           SET disposition = $3, replacement_instance_id = $4
+           WHERE return_id = $1 AND equipment_instance_id = $2`,
+          [returnId, line.equipment_instance_id, line.disposition, line.replacement_instance_id]
+        );
+      }
+
+      // Assignments left without any units are no longer active
+      if (touchedAssignments.size > 0) {
+        await client.query(
+          `UPDATE public.equipment_assignment ea
+           SET status = 'inactive', updated_at = CURRENT_TIMESTAMP
+           WHERE ea.id = ANY($1::int[])
+             AND ea.status = 'active'
+             AND NOT EXISTS (SELECT 1 FROM public.assignment_item ai WHERE ai.assignment_id = ea.id)`,
+          [[...touchedAssignments]]
+        );
+      }
+
+      await client.query(
+        `UPDATE public.equipment_return
+         SET status = 'completed',
+             returned_by = $2,
+             return_date = CURRENT_DATE,
+             vendor_notes = COALESCE($3, vendor_notes),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [returnId, completedBy, notes]
+      );
+
+      await client.query('COMMIT');
+      return { success: true, message: 'Return request completed' };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * User accounts to notify about a request
+   */
+  static async getNotifyUsers(clientId: number, vendorId: number): Promise<{ client_user_id: number | null; vendor_user_id: number | null }> {
+    const result = await pool.query(
+      `SELECT (SELECT user_id FROM public.clients WHERE id = $1) AS client_user_id,
+              (SELECT user_id FROM public.vendors WHERE id = $2) AS vendor_user_id`,
+      [clientId, vendorId]
+    );
+    return result.rows[0];
+  }
+}
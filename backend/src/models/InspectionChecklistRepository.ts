@@ -0,0 +1,406 @@
+/**
+ * InspectionChecklistRepository
+ * Handles inspection checklist templates per equipment type and the
+ * per-ticket results recorded against them
+ */
+
+import { PoolClient } from 'pg';
+import { pool } from '../config/database';
+
+export type InspectionResultValue = 'pass' | 'fail' | 'na';
+
+export interface InspectionChecklistItem {
+  id: number;
+  item_text: string;
+  sort_order: number;
+}
+
+export interface InspectionChecklist {
+  id: number;
+  vendor_id: number;
+  equipment_type: string;
+  checklist_name: string;
+  is_active: boolean;
+  items: InspectionChecklistItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChecklistItemInput {
+  id?: number;
+  item_text: string;
+}
+
+export interface CreateChecklistData {
+  equipment_type: string;
+  checklist_name: string;
+  items: ChecklistItemInput[];
+}
+
+export interface UpdateChecklistData {
+  checklist_name?: string;
+  is_active?: boolean;
+  items?: ChecklistItemInput[];
+}
+
+export interface InspectionResultInput {
+  checklist_item_id: number;
+  result: InspectionResultValue;
+  notes?: string;
+}
+
+export interface FailedInspectionItem {
+  ticket_id: number;
+  ticket_number: string;
+  serial_number?: string;
+  equipment_name?: string;
+  item_text: string;
+  notes?: string;
+  recorded_at: string;
+}
+
+export class InspectionChecklistRepository {
+  private static readonly SELECT_CHECKLIST = `
+    SELECT
+      ic.id, ic.vendor_id, ic.equipment_type, ic.checklist_name, ic.is_active,
+      ic.created_at, ic.updated_at,
+      COALESCE((
+        SELECT json_agg(json_build_object(
+          'id', ici.id,
+          'item_text', ici.item_text,
+          'sort_order', ici.sort_order
+        ) ORDER BY ici.sort_order, ici.id)
+        FROM inspection_checklist_item ici
+        WHERE ici.checklist_id = ic.id AND ici.is_active = true
+      ), '[]'::json) AS items
+    FROM inspection_checklist ic
+  `;
+
+  /**
+   * Get all checklists for a vendor
+   */
+  static async getChecklistsByVendor(vendorId: number): Promise<InspectionChecklist[]> {
+    const result = await pool.query(
+      `${this.SELECT_CHECKLIST} WHERE ic.vendor_id = $1 ORDER BY ic.equipment_type`,
+      [vendorId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get a checklist by ID, scoped to the vendor
+   */
+  static async getChecklistById(checklistId: number, vendorId: number): Promise<InspectionChecklist | null> {
+    const result = await pool.query(
+      `${this.SELECT_CHECKLIST} WHERE ic.id = $1 AND ic.vendor_id = $2`,
+      [checklistId, vendorId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get the active checklist a vendor uses for an equipment type
+   */
+  static async getActiveChecklistForType(vendorId: number, equipmentType: string, db: PoolClient | typeof pool = pool): Promise<InspectionChecklist | null> {
+    const result = await db.query(
+      `${this.SELECT_CHECKLIST} WHERE ic.vendor_id = $1 AND LOWER(ic.equipment_type) = LOWER($2) AND ic.is_active = true`,
+      [vendorId, equipmentType]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get the distinct equipment types in a vendor's catalogue
+   */
+  static async getVendorEquipmentTypes(vendorId: number): Promise<string[]> {
+    const result = await pool.query(
+      `SELECT DISTINCT equipment_type FROM equipment
+       WHERE vendor_id = $1 AND deleted_at IS NULL
+       ORDER BY equipment_type`,
+      [vendorId]
+    );
+    return result.rows.map((row: any) => row.equipment_type);
+  }
+
+  /**
+   * Create a checklist with its items
+   */
+  static async createChecklist(vendorId: number, data: CreateChecklistData): Promise<number> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const checklistResult = await client.query(
+        `INSERT INTO inspection_checklist (vendor_id, equipment_type, checklist_name)
+         VALUES ($1, $2, $3)
+         RETURNING id`,
+        [vendorId, data.equipment_type, data.checklist_name]
+      );
+      const checklistId = checklistResult.rows[0].id;
+
+      await this.saveItems(client, checklistId, data.items);
+
+      await client.query('COMMIT');
+      return checklistId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update a checklist. When items are given they replace the current list;
+   * removed items are deactivated so past results keep their reference.
+   */
+  static async updateChecklist(checklistId: number, vendorId: number, data: UpdateChecklistData): Promise<boolean> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const checklistResult = await client.query(
+        `UPDATE inspection_checklist
+         SET checklist_name = COALESCE($1, checklist_name),
+             is_active = COALESCE($2, is_active),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3 AND vendor_id = $4
+         RETURNING id`,
+        [data.checklist_name ?? null, data.is_active ?? null, checklistId, vendorId]
+      );
+
+      if (checklistResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      if (data.items) {
+        await this.saveItems(client, checklistId, data.items);
+      }
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Delete a checklist. Recorded results keep their copied item text.
+   */
+  static async deleteChecklist(checklistId: number, vendorId: number): Promise<boolean> {
+    const result = await pool.query(
+      'DELETE FROM inspection_checklist WHERE id = $1 AND vendor_id = $2',
+      [checklistId, vendorId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Get the checklist for a ticket's equipment together with any recorded results
+   */
+  static async getTicketChecklist(ticketId: number, vendorId: number): Promise<{
+    checklist: InspectionChecklist | null;
+    results: Array<{ checklist_item_id: number | null; item_text: string; result: InspectionResultValue; notes?: string }>;
+  }> {
+    const ticketResult = await pool.query(
+      `SELECT e.equipment_type
+       FROM maintenance_ticket mt
+       LEFT JOIN equipment_instance ei ON mt.equipment_instance_id = ei.id
+       LEFT JOIN equipment e ON ei.equipment_id = e.id
+       WHERE mt.id = $1 AND mt.vendor_id = $2`,
+      [ticketId, vendorId]
+    );
+
+    if (ticketResult.rows.length === 0) {
+      return { checklist: null, results: [] };
+    }
+
+    const equipmentType = ticketResult.rows[0].equipment_type;
+    const checklist = equipmentType
+      ? await this.getActiveChecklistForType(vendorId, equipmentType)
+      : null;
+
+    const results = await pool.query(
+      `SELECT checklist_item_id, item_text, result, notes
+       FROM inspection_result
+       WHERE ticket_id = $1
+       ORDER BY id`,
+      [ticketId]
+    );
+
+    return { checklist, results: results.rows };
+  }
+
+  /**
+   * Record checklist results for a ticket inside the caller's transaction.
+   * Every active item of the equipment type's checklist must be answered.
+   */
+  static async saveTicketResults(
+    client: PoolClient,
+    ticketId: number,
+    vendorId: number,
+    results: InspectionResultInput[],
+    recordedBy: number | null
+  ): Promise<void> {
+    const ticketResult = await client.query(
+      `SELECT mt.equipment_instance_id, e.equipment_type
+       FROM maintenance_ticket mt
+       JOIN equipment_instance ei ON mt.equipment_instance_id = ei.id
+       JOIN equipment e ON ei.equipment_id = e.id
+       WHERE mt.id = $1 AND mt.vendor_id = $2`,
+      [ticketId, vendorId]
+    );
+
+    if (ticketResult.rows.length === 0) {
+      if (results.length > 0) {
+        throw new Error('Checklist results require a ticket with equipment');
+      }
+      return;
+    }
+
+    const { equipment_instance_id, equipment_type } = ticketResult.rows[0];
+    const checklist = await this.getActiveChecklistForType(vendorId, equipment_type, client);
+
+    if (!checklist) {
+      if (results.length > 0) {
+        throw new Error(`No inspection checklist is defined for ${equipment_type}`);
+      }
+      return;
+    }
+
+    const itemsById = new Map(checklist.items.map(item => [item.id, item]));
+    const answered = new Set<number>();
+
+    for (const entry of results) {
+      if (!itemsById.has(entry.checklist_item_id)) {
+        throw new Error('Checklist result does not match the equipment checklist');
+      }
+      answered.add(entry.checklist_item_id);
+    }
+
+    if (answered.size < itemsById.size) {
+      throw new Error('Complete every inspection checklist item before resolving');
+    }
+
+    for (const entry of results) {
+      await client.query(
+        `INSERT INTO inspection_result (
+           ticket_id, equipment_instance_id, checklist_item_id, item_text, result, notes, recorded_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (ticket_id, checklist_item_id) DO UPDATE
+         SET result = EXCLUDED.result,
+             notes = EXCLUDED.notes,
+             recorded_by = EXCLUDED.recorded_by,
+             recorded_at = CURRENT_TIMESTAMP`,
+        [
+          ticketId,
+          equipment_instance_id,
+          entry.checklist_item_id,
+          itemsById.get(entry.checklist_item_id)!.item_text,
+          entry.result,
+          entry.notes || null,
+          recordedBy
+        ]
+      );
+    }
+  }
+
+  /**
+   * Get failed items from the most recent inspection of each instance of an equipment type.
+   * Scope to a vendor's instances or to the instances assigned to a client user.
+   */
+  static async getLatestFailedItemsForEquipment(
+    equipmentId: number,
+    scope: { vendorId?: number; clientUserId?: number } = {}
+  ): Promise<FailedInspectionItem[]> {
+    const params: any[] = [equipmentId];
+    let scopeFilter = '';
+
+    if (scope.vendorId) {
+      params.push(scope.vendorId);
+      scopeFilter = `AND ei.vendor_id = $${params.length}`;
+    } else if (scope.clientUserId) {
+      params.push(scope.clientUserId);
+      scopeFilter = `AND ei.assigned_to = (SELECT id FROM clients WHERE user_id = $${params.length})`;
+    }
+
+    const result = await pool.query(
+      `WITH latest AS (
+         SELECT DISTINCT ON (ir.equipment_instance_id) ir.equipment_instance_id, ir.ticket_id
+         FROM inspection_result ir
+         JOIN equipment_instance ei ON ir.equipment_instance_id = ei.id
+         WHERE ei.equipment_id = $1 AND ei.deleted_at IS NULL ${scopeFilter}
+         ORDER BY ir.equipment_instance_id, ir.recorded_at DESC
+       )
+       SELECT
+         ir.ticket_id, mt.ticket_number, ei.serial_number,
+         ir.item_text, ir.notes, ir.recorded_at
+       FROM inspection_result ir
+       JOIN latest l ON ir.ticket_id = l.ticket_id AND ir.equipment_instance_id = l.equipment_instance_id
+       JOIN maintenance_ticket mt ON ir.ticket_id = mt.id
+       JOIN equipment_instance ei ON ir.equipment_instance_id = ei.id
+       WHERE ir.result = 'fail'
+       ORDER BY ei.serial_number, ir.id`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get failed items recorded for a client's equipment within a date range
+   */
+  static async getFailedItemsForClient(clientId: number, startDate: string, endDate: string): Promise<FailedInspectionItem[]> {
+    const result = await pool.query(
+      `SELECT
+         ir.ticket_id, mt.ticket_number, ei.serial_number, e.equipment_name,
+         ir.item_text, ir.notes, TO_CHAR(ir.recorded_at, 'YYYY-MM-DD') AS recorded_at
+       FROM inspection_result ir
+       JOIN maintenance_ticket mt ON ir.ticket_id = mt.id
+       LEFT JOIN equipment_instance ei ON ir.equipment_instance_id = ei.id
+       LEFT JOIN equipment e ON ei.equipment_id = e.id
+       WHERE mt.client_id = $1
+         AND ir.result = 'fail'
+         AND ir.recorded_at >= $2::date AND ir.recorded_at < $3::date + 1
+       ORDER BY ir.recorded_at DESC, ir.id`,
+      [clientId, startDate, endDate]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Replace the active item list of a checklist
+   */
+  private static async saveItems(client: PoolClient, checklistId: number, items: ChecklistItemInput[]): Promise<void> {
+    const keptIds = items.filter(item => item.id).map(item => item.id as number);
+
+    await client.query(
+      `UPDATE inspection_checklist_item
+       SET is_active = false
+       WHERE checklist_id = $1 AND NOT (id = ANY($2::int[]))`,
+      [checklistId, keptIds]
+    );
+
+    for (const [index, item] of items.entries()) {
+      if (item.id) {
+        await client.query(
+          `UPDATE inspection_checklist_item
+           SET item_text = $1, sort_order = $2, is_active = true
+           WHERE id = $3 AND checklist_id = $4`,
+          [item.item_text, index, item.id, checklistId]
+        );
+      } else {
+        await client.query(
+          `INSERT INTO inspection_checklist_item (checklist_id, item_text, sort_order)
+           VALUES ($1, $2, $3)`,
+          [checklistId, item.item_text, index]
+        );
+      }
+    }
+  }
+}
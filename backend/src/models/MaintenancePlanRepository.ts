@@ -0,0 +1,329 @@
+/**
+ * MaintenancePlanRepository
+ * Handles recurring maintenance schedules on equipment types and instances,
+ * and the per-instance due dates they produce
+ */
+
+import { PoolClient } from 'pg';
+import { pool } from '../config/database';
+
+export type ScheduleComplianceStatus = 'compliant' | 'due_soon' | 'overdue';
+
+export interface MaintenanceSchedule {
+  id: number;
+  vendor_id: number;
+  equipment_id: number | null;
+  equipment_instance_id: number | null;
+  schedule_name: string;
+  category: string;
+  interval_months: number;
+  lead_days: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateScheduleData {
+  equipment_id?: number;
+  equipment_instance_id?: number;
+  schedule_name: string;
+  category: string;
+  interval_months: number;
+  lead_days?: number;
+  is_active?: boolean;
+}
+
+export interface UpdateScheduleData {
+  schedule_name?: string;
+  interval_months?: number;
+  lead_days?: number;
+  is_active?: boolean;
+}
+
+export interface ScheduleDueItem {
+  equipment_instance_id: number;
+  serial_number: string;
+  client_name: string | null;
+  schedule_id: number;
+  schedule_name: string;
+  category: string;
+  interval_months: number;
+  is_instance_schedule: boolean;
+  last_completed_date: string | null;
+  next_due_date: string;
+  compliance_status: ScheduleComplianceStatus;
+  open_ticket_number: string | null;
+}
+
+export interface DueScheduleForTicket {
+  equipment_instance_id: number;
+  vendor_id: number;
+  client_id: number | null;
+  schedule_id: number;
+  schedule_name: string;
+  category: string;
+  next_due_date: string;
+  serial_number: string;
+  equipment_name: string;
+  equipment_type: string;
+  client_name: string | null;
+}
+
+export class MaintenancePlanRepository {
+  private static readonly SELECT_DUE_ITEMS = `
+    SELECT
+      d.equipment_instance_id, ei.serial_number, c.company_name AS client_name,
+      d.schedule_id, d.schedule_name, d.category, d.interval_months, d.is_instance_schedule,
+      TO_CHAR(d.last_completed_date, 'YYYY-MM-DD') AS last_completed_date,
+      TO_CHAR(d.next_due_date, 'YYYY-MM-DD') AS next_due_date,
+      d.compliance_status,
+      (SELECT mt.ticket_number FROM maintenance_ticket mt
+       WHERE mt.maintenance_schedule_id = d.schedule_id
+         AND mt.equipment_instance_id = d.equipment_instance_id
+         AND mt.ticket_status = 'open'
+       ORDER BY mt.created_at DESC LIMIT 1) AS open_ticket_number
+    FROM equipment_schedule_due d
+    JOIN equipment_instance ei ON d.equipment_instance_id = ei.id
+    LEFT JOIN clients c ON d.client_id = c.id
+  `;
+
+  /**
+   * Get the schedules defined directly on an equipment type
+   */
+  static async getSchedulesForEquipment(equipmentId: number, vendorId: number): Promise<MaintenanceSchedule[]> {
+    const result = await pool.query(
+      `SELECT * FROM maintenance_schedule
+       WHERE equipment_id = $1 AND vendor_id = $2
+       ORDER BY interval_months, schedule_name`,
+      [equipmentId, vendorId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get the schedules defined directly on an instance (overrides and extras)
+   */
+  static async getSchedulesForInstance(equipmentInstanceId: number, vendorId: number): Promise<MaintenanceSchedule[]> {
+    const result = await pool.query(
+      `SELECT * FROM maintenance_schedule
+       WHERE equipment_instance_id = $1 AND vendor_id = $2
+       ORDER BY interval_months, schedule_name`,
+      [equipmentInstanceId, vendorId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get a schedule by ID, scoped to the vendor
+   */
+  static async getScheduleById(scheduleId: number, vendorId: number): Promise<MaintenanceSchedule | null> {
+    const result = await pool.query(
+      'SELECT * FROM maintenance_schedule WHERE id = $1 AND vendor_id = $2',
+      [scheduleId, vendorId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Check that the equipment type or instance a schedule targets belongs to the vendor
+   */
+  static async ownsTarget(vendorId: number, target: { equipment_id?: number; equipment_instance_id?: number }): Promise<boolean> {
+    const result = target.equipment_id
+      ? await pool.query(
+        'SELECT 1 FROM equipment WHERE id = $1 AND vendor_id = $2 AND deleted_at IS NULL',
+        [target.equipment_id, vendorId]
+      )
+      : await pool.query(
+        'SELECT 1 FROM equipment_instance WHERE id = $1 AND vendor_id = $2 AND deleted_at IS NULL',
+        [target.equipment_instance_id, vendorId]
+      );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Create a schedule on an equipment type or instance
+   */
+  static async createSchedule(vendorId: number, data: CreateScheduleData): Promise<MaintenanceSchedule> {
+    const result = await pool.query(
+      `INSERT INTO maintenance_schedule (
+         vendor_id, equipment_id, equipment_instance_id, schedule_name, category,
+         interval_months, lead_days, is_active
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        vendorId,
+        data.equipment_id ?? null,
+        data.equipment_instance_id ?? null,
+        data.schedule_name,
+        data.category,
+        data.interval_months,
+        data.lead_days ?? 7,
+        data.is_active ?? true
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Update a schedule. The category is fixed because open tickets and
+   * instance overrides are matched on it.
+   */
+  static async updateSchedule(scheduleId: number, vendorId: number, data: UpdateScheduleData): Promise<MaintenanceSchedule | null> {
+    const result = await pool.query(
+      `UPDATE maintenance_schedule
+       SET schedule_name = COALESCE($1, schedule_name),
+           interval_months = COALESCE($2, interval_months),
+           lead_days = COALESCE($3, lead_days),
+           is_active = COALESCE($4, is_active),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 AND vendor_id = $6
+       RETURNING *`,
+      [
+        data.schedule_name ?? null,
+        data.interval_months ?? null,
+        data.lead_days ?? null,
+        data.is_active ?? null,
+        scheduleId,
+        vendorId
+      ]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Delete a schedule. Tickets it raised are kept and lose the link.
+   */
+  static async deleteSchedule(scheduleId: number, vendorId: number): Promise<boolean> {
+    const result = await pool.query(
+      'DELETE FROM maintenance_schedule WHERE id = $1 AND vendor_id = $2',
+      [scheduleId, vendorId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Get upcoming and overdue schedule dates for every instance of an equipment type
+   */
+  static async getEquipmentTimeline(equipmentId: number, vendorId: number, monthsAhead: number = 12): Promise<ScheduleDueItem[]> {
+    const result = await pool.query(
+      `${this.SELECT_DUE_ITEMS}
+       WHERE ei.equipment_id = $1 AND d.vendor_id = $2
+         AND d.next_due_date <= CURRENT_DATE + make_interval(months => $3)
+       ORDER BY d.next_due_date, ei.serial_number`,
+      [equipmentId, vendorId, monthsAhead]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get every effective schedule of an instance with its due date and status
+   */
+  static async getInstanceTimeline(equipmentInstanceId: number, vendorId: number): Promise<ScheduleDueItem[]> {
+    const result = await pool.query(
+      `${this.SELECT_DUE_ITEMS}
+       WHERE d.equipment_instance_id = $1 AND d.vendor_id = $2
+       ORDER BY d.next_due_date`,
+      [equipmentInstanceId, vendorId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get instance schedules that fall within their lead time and have no open ticket yet
+   */
+  static async getSchedulesDueForTickets(): Promise<DueScheduleForTicket[]> {
+    const result = await pool.query(
+      `SELECT
+         d.equipment_instance_id, d.vendor_id, d.client_id,
+         d.schedule_id, d.schedule_name, d.category,
+         TO_CHAR(d.next_due_date, 'YYYY-MM-DD') AS next_due_date,
+         ei.serial_number, e.equipment_name, e.equipment_type,
+         c.company_name AS client_name
+       FROM equipment_schedule_due d
+       JOIN equipment_instance ei ON d.equipment_instance_id = ei.id
+       JOIN equipment e ON ei.equipment_id = e.id
+       LEFT JOIN clients c ON d.client_id = c.id
+       WHERE d.next_due_date <= CURRENT_DATE + make_interval(days => d.lead_days)
+         AND ei.status NOT IN ('retired', 'recalled')
+         AND NOT EXISTS (
+           SELECT 1 FROM maintenance_ticket mt
+           WHERE mt.equipment_instance_id = d.equipment_instance_id
+             AND mt.maintenance_schedule_id = d.schedule_id
+             AND mt.ticket_status = 'open'
+         )
+       ORDER BY d.next_due_date`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Point each planned instance's next_maintenance_date at its earliest due
+   * schedule so the existing compliance status reflects the whole plan
+   */
+  static async syncInstanceMaintenanceDates(db: PoolClient | typeof pool = pool, equipmentInstanceId?: number): Promise<number> {
+    const params: any[] = [];
+    let instanceFilter = '';
+    if (equipmentInstanceId) {
+      params.push(equipmentInstanceId);
+      instanceFilter = 'WHERE equipment_instance_id = $1';
+    }
+
+    const result = await db.query(
+      `UPDATE equipment_instance ei
+       SET next_maintenance_date = due.next_due_date,
+           updated_at = CURRENT_TIMESTAMP
+       FROM (
+         SELECT equipment_instance_id, MIN(next_due_date) AS next_due_date
+         FROM equipment_schedule_due
+         ${instanceFilter}
+         GROUP BY equipment_instance_id
+       ) due
+       WHERE ei.id = due.equipment_instance_id
+         AND ei.next_maintenance_date IS DISTINCT FROM due.next_due_date`,
+      params
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Check whether an instance is covered by at least one active schedule
+   */
+  static async hasActiveSchedules(equipmentInstanceId: number, db: PoolClient | typeof pool = pool): Promise<boolean> {
+    const result = await db.query(
+      'SELECT 1 FROM equipment_schedule_due WHERE equipment_instance_id = $1 LIMIT 1',
+      [equipmentInstanceId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Record a completed schedule ticket inside the caller's transaction and
+   * move the schedule's next due date one interval on from the completion date
+   */
+  static async completeSchedule(
+    client: PoolClient,
+    ticketId: number,
+    equipmentInstanceId: number,
+    scheduleId: number,
+    completedDate: string | null,
+    nextDueDate: string | null
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO equipment_schedule_status (
+         equipment_instance_id, schedule_id, last_completed_date, next_due_date, last_ticket_id
+       )
+       SELECT $1, ms.id, done.completed,
+              COALESCE($4::date, (done.completed + make_interval(months => ms.interval_months))::date),
+              $5
+       FROM maintenance_schedule ms
+       CROSS JOIN (SELECT COALESCE($3::date, CURRENT_DATE) AS completed) done
+       WHERE ms.id = $2
+       ON CONFLICT (equipment_instance_id, schedule_id) DO UPDATE
+       SET last_completed_date = EXCLUDED.last_completed_date,
+           next_due_date = EXCLUDED.next_due_date,
+           last_ticket_id = EXCLUDED.last_ticket_id,
+           updated_at = CURRENT_TIMESTAMP`,
+      [equipmentInstanceId, scheduleId, completedDate, nextDueDate, ticketId]
+    );
+  }
+}
@@ -1,5 +1,11 @@
 import { Pool } from 'pg';
 import { pool } from '../config/database';
+import { TechnicianRepository } from './TechnicianRepository';
+import { InspectionChecklistRepository, InspectionResultInput } from './InspectionChecklistRepository';
+import { MaintenancePlanRepository } from './MaintenancePlanRepository';
+import { EquipmentLifecycleRepository, LifecycleEventType } from './EquipmentLifecycleRepository';
+import { PartsRepository, TicketPartLine } from './PartsRepository';
+import { slaOutcomeColumns } from './ServiceContractRepository';
 
 export interface MaintenanceTicket {
   id: number;
@@ -73,6 +79,7 @@ export interface CreateTicketData {
   issue_description: string;
   priority: 'low' | 'normal' | 'high';
   scheduled_date?: string;
+  estimated_hours?: number;
   assigned_technician?: number;
 }
 
@@ -81,7 +88,8 @@ export interface UpdateTicketData {
   priority?: 'low' | 'normal' | 'high';
   issue_description?: string;
   scheduled_date?: string;
-  assigned_technician?: number;
+  estimated_hours?: number;
+  assigned_technician?: number | null; // null unassigns the ticket
 }
 
 export interface ResolveTicketData {
@@ -90,6 +98,34 @@ export interface ResolveTicketData {
   cost?: number;
   custom_maintenance_date?: string; // ISO date string for override
   custom_next_maintenance_date?: string; // ISO date string for override
+  checklist_results?: InspectionResultInput[];
+  parts?: TicketPartLine[];
+  resolved_by?: number;
+}
+
+export interface TechnicianTicketUpdateData {
+  actual_hours?: number;
+  resolution_description?: string;
+}
+
+export interface CalendarTicket {
+  id: number;
+  ticket_number: string;
+  ticket_status: string;
+  support_type: string;
+  priority: string;
+  category: string | null;
+  issue_description: string;
+  scheduled_date: string | null;
+  schedule_day: string | null;
+  is_all_day: boolean;
+  estimated_hours: number | null;
+  assigned_technician: number | null;
+  technician_name: string | null;
+  client_name: string | null;
+  client_address: string | null;
+  equipment_serial: string | null;
+  equipment_name: string | null;
 }
 
 export interface TicketFilters {
@@ -197,6 +233,7 @@ export class MaintenanceTicketRepository {
                   'priority', mt.priority,
                   'type', mt.support_type,
                   'status', mt.ticket_status,
+                  'technician', COALESCE(tu.display_name, 'Unassigned'),
                   'scheduled_date', TO_CHAR(mt.scheduled_date, 'DD/MM/YYYY'),
                   'created_at', mt.created_at,
                   'actions', jsonb_build_array('View', 'Edit')
@@ -205,6 +242,7 @@ export class MaintenanceTicketRepository {
               FROM maintenance_ticket mt
               LEFT JOIN equipment_instance ei ON mt.equipment_instance_id = ei.id
               LEFT JOIN clients c ON mt.client_id = c.id
+              LEFT JOIN "user" tu ON mt.assigned_technician = tu.id
               WHERE mt.vendor_id = $1
                 AND c.created_by_vendor_id = $1
                 ${additionalFilters}
@@ -306,17 +344,32 @@ export class MaintenanceTicketRepository {
   }
 
   /**
-   * Fetch technicians for Create Ticket modal
+   * Fetch technicians for Create Ticket modal (vendor owner first, then active technicians)
    */
-  async getTechniciansForDropdown(vendorId: number): Promise<{id: number, display_name: string}[]> {
+  async getTechniciansForDropdown(vendorId: number): Promise<{id: number, display_name: string, is_owner: boolean}[]> {
     const query = `
-      SELECT u.id, 
-             COALESCE(u.display_name, CONCAT(u.first_name, ' ', u.last_name)) as display_name
-      FROM vendors v
-      JOIN "user" u ON v.user_id = u.id
-      WHERE v.id = $1
-      AND v.status = 'active'
-      ORDER BY u.display_name
+      SELECT id, display_name, is_owner
+      FROM (
+        SELECT u.id, 
+               COALESCE(u.display_name, CONCAT(u.first_name, ' ', u.last_name)) as display_name,
+               true AS is_owner
+        FROM vendors v
+        JOIN "user" u ON v.user_id = u.id
+        WHERE v.id = $1
+        AND v.status = 'active'
+
+        UNION ALL
+
+        SELECT u.id,
+               COALESCE(u.display_name, CONCAT(u.first_name, ' ', u.last_name)) as display_name,
+               false AS is_owner
+        FROM technicians t
+        JOIN "user" u ON t.user_id = u.id
+        WHERE t.vendor_id = $1
+        AND t.status = 'active'
+        AND u.deleted_at IS NULL
+      ) assignees
+      ORDER BY is_owner DESC, display_name
     `;
     
     const result = await pool.query(query, [vendorId]);
@@ -363,14 +416,22 @@ export class MaintenanceTicketRepository {
       }
     }
 
+    // Validate technician belongs to vendor if provided
+    if (ticketData.assigned_technician) {
+      const isAssignable = await TechnicianRepository.isAssignableForVendor(ticketData.assigned_technician, vendorId);
+      if (!isAssignable) {
+        throw new Error('Invalid technician selected');
+      }
+    }
+
     // Insert the ticket - the database trigger will automatically generate the ticket_number
     const query = `
       INSERT INTO maintenance_ticket (
         equipment_instance_id, client_id, vendor_id, 
         ticket_status, support_type, issue_description, priority, 
-        scheduled_date, assigned_technician, created_at, updated_at
+        scheduled_date, assigned_technician, estimated_hours, created_at, updated_at
       ) VALUES (
-        $1, $2, $3, 'open', $4, $5, $6, $7, $8, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+        $1, $2, $3, 'open', $4, $5, $6, $7, $8, $9, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
       ) RETURNING id, ticket_number
     `;
     
@@ -382,7 +443,8 @@ export class MaintenanceTicketRepository {
       ticketData.issue_description,
       ticketData.priority,
       ticketData.scheduled_date || null,
-      ticketData.assigned_technician || null
+      ticketData.assigned_technician || null,
+      ticketData.estimated_hours ?? null
     ];
     
     const result = await pool.query(query, params);
@@ -473,11 +535,24 @@ export class MaintenanceTicketRepository {
 
     if (updateData.scheduled_date !== undefined) {
       paramCount++;
-      setClauses.push(`scheduled_date = $${paramCount}::date`);
+      setClauses.push(`scheduled_date = $${paramCount}::timestamptz`);
       params.push(updateData.scheduled_date || null);
     }
 
+    if (updateData.estimated_hours !== undefined) {
+      paramCount++;
+      setClauses.push(`estimated_hours = $${paramCount}::numeric`);
+      params.push(updateData.estimated_hours);
+    }
+
     if (updateData.assigned_technician !== undefined) {
+      if (updateData.assigned_technician !== null) {
+        const isAssignable = await TechnicianRepository.isAssignableForVendor(updateData.assigned_technician, vendorId);
+        if (!isAssignable) {
+          throw new Error('Invalid technician selected');
+        }
+      }
+
       paramCount++;
       setClauses.push(`assigned_technician = $${paramCount}::integer`);
       params.push(updateData.assigned_technician);
@@ -537,10 +612,13 @@ export class MaintenanceTicketRepository {
           AND vendor_id = $4
           AND ticket_status = 'open'
         RETURNING 
+          id,
           ticket_number,
           TO_CHAR(resolved_at, 'Mon DD, YYYY HH12:MI AM') AS resolved_at,
           equipment_instance_id,
-          support_type
+          support_type,
+          category,
+          maintenance_schedule_id
       `;
       
       const ticketParams = [
@@ -559,8 +637,37 @@ export class MaintenanceTicketRepository {
       
       const ticket = ticketResult.rows[0];
       
-      // 2. Update equipment maintenance dates if it's a maintenance ticket with equipment
+      // 2. Record inspection checklist results for maintenance work on equipment
       if (ticket.support_type === 'maintenance' && ticket.equipment_instance_id) {
+        await InspectionChecklistRepository.saveTicketResults(
+          client,
+          ticket.id,
+          vendorId,
+          resolveData.checklist_results || [],
+          resolveData.resolved_by ?? null
+        );
+      }
+      
+      // 3. Tickets raised by a maintenance plan schedule advance that schedule only
+      if (ticket.maintenance_schedule_id && ticket.equipment_instance_id) {
+        await MaintenancePlanRepository.completeSchedule(
+          client,
+          ticket.id,
+          ticket.equipment_instance_id,
+          ticket.maintenance_schedule_id,
+          resolveData.custom_maintenance_date || null,
+          resolveData.custom_next_maintenance_date || null
+        );
+
+        await client.query(
+          `UPDATE equipment_instance
+           SET last_maintenance_date = COALESCE($1::date, CURRENT_DATE), updated_at = CURRENT_TIMESTAMP
+           WHERE id = $2 AND vendor_id = $3`,
+          [resolveData.custom_maintenance_date || null, ticket.equipment_instance_id, vendorId]
+        );
+      }
+      // 4. Otherwise update equipment maintenance dates if it's a maintenance ticket with equipment
+      else if (ticket.support_type === 'maintenance' && ticket.equipment_instance_id) {
         // Use custom dates if provided, otherwise use automatic calculation
         const lastMaintenanceDate = resolveData.custom_maintenance_date || 'CURRENT_DATE';
         const nextMaintenanceDate = resolveData.custom_next_maintenance_date 
@@ -589,6 +696,42 @@ export class MaintenanceTicketRepository {
           console.log(`${dateType} equipment maintenance dates updated for ${equipmentResult.rows[0].serial_number}. Last: ${equipmentResult.rows[0].new_last_maintenance_date}, Next: ${equipmentResult.rows[0].new_next_maintenance_date}`);
         }
       }
+
+      // Instances on a maintenance plan take their next date from the earliest due schedule
+      if (ticket.equipment_instance_id) {
+        await MaintenancePlanRepository.syncInstanceMaintenanceDates(client, ticket.equipment_instance_id);
+      }
+
+      // 5. Add the visit to the instance's lifecycle ledger
+      if (ticket.support_type === 'maintenance' && ticket.equipment_instance_id) {
+        const results = resolveData.checklist_results || [];
+        const failedCount = results.filter(result => result.result === 'fail').length;
+        const scheduleResult = ticket.maintenance_schedule_id
+          ? await client.query('SELECT schedule_name, category FROM maintenance_schedule WHERE id = $1', [ticket.maintenance_schedule_id])
+          : null;
+        const schedule = scheduleResult?.rows[0];
+
+        await EquipmentLifecycleRepository.record(client, ticket.equipment_instance_id, {
+          event_type: this.getServiceEventType(
+            [ticket.category, schedule?.category, schedule?.schedule_name].filter(Boolean).join(' '),
+            results.length,
+            failedCount
+          ),
+          description: resolveData.resolution_description,
+          ticket_id: ticket.id,
+          reference_number: ticket.ticket_number,
+          metadata: {
+            ...(schedule ? { schedule: schedule.schedule_name } : {}),
+            ...(results.length > 0 ? { checklist_items: results.length, failed_items: failedCount } : {})
+          },
+          recorded_by: resolveData.resolved_by ?? null
+        });
+      }
+
+      // 6. Take the parts used out of the vendor's stock
+      if (resolveData.parts && resolveData.parts.length > 0) {
+        await PartsRepository.consumeForTicket(client, vendorId, ticket.id, resolveData.parts, resolveData.resolved_by ?? null);
+      }
       
       await client.query('COMMIT');
       
@@ -604,7 +747,21 @@ export class MaintenanceTicketRepository {
     } finally {
       client.release();
     }
-  }  /**
+  }
+
+  /**
+   * Classify a resolved maintenance visit for the lifecycle ledger. A failed
+   * checklist item outranks everything; otherwise the ticket or schedule
+   * category says whether it was a recharge or an inspection.
+   */
+  private getServiceEventType(category: string, checklistCount: number, failedCount: number): LifecycleEventType {
+    if (failedCount > 0) return 'failed_inspection';
+    if (/recharg|refill/i.test(category)) return 'recharged';
+    if (checklistCount > 0 || /inspect/i.test(category)) return 'inspected';
+    return 'serviced';
+  }
+
+  /**
    * Close ticket
    */
   async closeTicket(ticketId: number, vendorId: number): Promise<{id: number, ticket_number: string}> {
@@ -627,6 +784,85 @@ export class MaintenanceTicketRepository {
     return result.rows[0];
   }
 
+  /**
+   * Fetch tickets scheduled within [start, end) for the calendar and technician board.
+   * schedule_day and is_all_day use the database time zone; tickets saved with
+   * a date only sit at midnight and are treated as all-day.
+   */
+  async getCalendarTickets(vendorId: number, start: string, end: string, technicianUserId?: number): Promise<CalendarTicket[]> {
+    const params: any[] = [vendorId, start, end];
+    let technicianFilter = '';
+    if (technicianUserId) {
+      params.push(technicianUserId);
+      technicianFilter = 'AND mt.assigned_technician = $4';
+    }
+
+    const query = `
+      SELECT
+        mt.id, mt.ticket_number, mt.ticket_status, mt.support_type, mt.priority, mt.category,
+        mt.issue_description, mt.scheduled_date,
+        TO_CHAR(mt.scheduled_date, 'YYYY-MM-DD') AS schedule_day,
+        (mt.scheduled_date = date_trunc('day', mt.scheduled_date)) AS is_all_day,
+        mt.estimated_hours::float AS estimated_hours,
+        mt.assigned_technician,
+        CASE WHEN tu.id IS NOT NULL
+          THEN COALESCE(tu.display_name, CONCAT(tu.first_name, ' ', tu.last_name))
+        END AS technician_name,
+        c.company_name AS client_name,
+        c.street_address AS client_address,
+        ei.serial_number AS equipment_serial,
+        e.equipment_name
+      FROM maintenance_ticket mt
+      LEFT JOIN "user" tu ON mt.assigned_technician = tu.id
+      LEFT JOIN clients c ON mt.client_id = c.id
+      LEFT JOIN equipment_instance ei ON mt.equipment_instance_id = ei.id
+      LEFT JOIN equipment e ON ei.equipment_id = e.id
+      WHERE mt.vendor_id = $1
+        AND mt.scheduled_date >= $2::timestamptz
+        AND mt.scheduled_date < $3::timestamptz
+        ${technicianFilter}
+      ORDER BY mt.scheduled_date, mt.id
+    `;
+
+    const result = await pool.query(query, params);
+    return result.rows;
+  }
+
+  /**
+   * Fetch open tickets that have not been given a date yet
+   */
+  async getUnscheduledTickets(vendorId: number, limit: number = 100): Promise<CalendarTicket[]> {
+    const query = `
+      SELECT
+        mt.id, mt.ticket_number, mt.ticket_status, mt.support_type, mt.priority, mt.category,
+        mt.issue_description, NULL AS scheduled_date, NULL AS schedule_day, false AS is_all_day,
+        mt.estimated_hours::float AS estimated_hours,
+        mt.assigned_technician,
+        CASE WHEN tu.id IS NOT NULL
+          THEN COALESCE(tu.display_name, CONCAT(tu.first_name, ' ', tu.last_name))
+        END AS technician_name,
+        c.company_name AS client_name,
+        c.street_address AS client_address,
+        ei.serial_number AS equipment_serial,
+        e.equipment_name
+      FROM maintenance_ticket mt
+      LEFT JOIN "user" tu ON mt.assigned_technician = tu.id
+      LEFT JOIN clients c ON mt.client_id = c.id
+      LEFT JOIN equipment_instance ei ON mt.equipment_instance_id = ei.id
+      LEFT JOIN equipment e ON ei.equipment_id = e.id
+      WHERE mt.vendor_id = $1
+        AND mt.ticket_status = 'open'
+        AND mt.scheduled_date IS NULL
+      ORDER BY
+        CASE mt.priority WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END,
+        mt.created_at
+      LIMIT $2
+    `;
+
+    const result = await pool.query(query, [vendorId, limit]);
+    return result.rows;
+  }
+
   /**
    * Get ticket by ID for validation
    */
@@ -640,6 +876,118 @@ export class MaintenanceTicketRepository {
     return result.rows[0] || null;
   }
 
+  /**
+   * Fetch tickets assigned to a technician
+   */
+  async getTechnicianTickets(technicianUserId: number, filters: TicketFilters = {}): Promise<any[]> {
+    const params: any[] = [technicianUserId];
+    let additionalFilters = '';
+
+    if (filters.status) {
+      params.push(filters.status);
+      additionalFilters += ` AND mt.ticket_status = $${params.length}`;
+    }
+
+    if (filters.search) {
+      params.push(`%${filters.search}%`);
+      additionalFilters += ` AND (mt.ticket_number ILIKE $${params.length} OR mt.issue_description ILIKE $${params.length})`;
+    }
+
+    const query = `
+      SELECT 
+        mt.id, mt.ticket_number, mt.ticket_status, mt.support_type, mt.priority,
+        mt.issue_description, mt.scheduled_date, mt.actual_hours, mt.created_at,
+        c.company_name AS client_name, c.street_address AS client_address,
+        ei.serial_number AS equipment_serial, e.equipment_name, ei.location AS equipment_location
+      FROM maintenance_ticket mt
+      LEFT JOIN clients c ON mt.client_id = c.id
+      LEFT JOIN equipment_instance ei ON mt.equipment_instance_id = ei.id
+      LEFT JOIN equipment e ON ei.equipment_id = e.id
+      WHERE mt.assigned_technician = $1
+        ${additionalFilters}
+      ORDER BY 
+        CASE mt.ticket_status WHEN 'open' THEN 0 ELSE 1 END,
+        mt.scheduled_date ASC NULLS LAST,
+        mt.created_at DESC
+      LIMIT 200
+    `;
+
+    const result = await pool.query(query, params);
+    return result.rows;
+  }
+
+  /**
+   * Fetch a single ticket assigned to a technician
+   */
+  async getTechnicianTicketDetails(ticketId: number, technicianUserId: number): Promise<any | null> {
+    const query = `
+      SELECT 
+        mt.id, mt.ticket_number, mt.vendor_id, mt.ticket_status, mt.support_type, mt.priority,
+        mt.issue_description, mt.resolution_description, mt.scheduled_date,
+        mt.actual_hours, mt.created_at, mt.updated_at, mt.resolved_at,
+        c.company_name AS client_name, c.primary_phone AS client_phone,
+        c.street_address AS client_address, c.city AS client_city,
+        ei.id AS equipment_id, ei.serial_number, e.equipment_name, e.equipment_type,
+        ei.location AS equipment_location, ei.compliance_status,
+        sc.contract_name AS service_contract_name,
+        mt.response_due_at, mt.resolution_due_at, mt.responded_at,
+        ${slaOutcomeColumns('mt')}
+      FROM maintenance_ticket mt
+      LEFT JOIN clients c ON mt.client_id = c.id
+      LEFT JOIN equipment_instance ei ON mt.equipment_instance_id = ei.id
+      LEFT JOIN equipment e ON ei.equipment_id = e.id
+      LEFT JOIN service_contract sc ON mt.service_contract_id = sc.id
+      WHERE mt.id = $1 AND mt.assigned_technician = $2
+    `;
+
+    const result = await pool.query(query, [ticketId, technicianUserId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find the most recent open ticket on an equipment instance assigned to a technician
+   */
+  async getOpenTechnicianTicketForInstance(equipmentInstanceId: number, technicianUserId: number): Promise<number | null> {
+    const result = await pool.query(
+      `SELECT id FROM maintenance_ticket
+       WHERE equipment_instance_id = $1 AND assigned_technician = $2 AND ticket_status = 'open'
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [equipmentInstanceId, technicianUserId]
+    );
+    return result.rows[0]?.id ?? null;
+  }
+
+  /**
+   * Record progress (hours and resolution notes) on an open ticket assigned to a technician
+   */
+  async updateTechnicianTicket(ticketId: number, technicianUserId: number, updateData: TechnicianTicketUpdateData): Promise<{id: number, ticket_number: string}> {
+    const query = `
+      UPDATE maintenance_ticket
+      SET 
+        actual_hours = COALESCE($1, actual_hours),
+        resolution_description = COALESCE($2, resolution_description),
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $3
+        AND assigned_technician = $4
+        AND ticket_status = 'open'
+      RETURNING id, ticket_number
+    `;
+
+    const result = await pool.query(query, [
+      updateData.actual_hours ?? null,
+      updateData.resolution_description ?? null,
+      ticketId,
+      technicianUserId
+    ]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Ticket not found, not open, or not assigned to you');
+    }
+
+    return result.rows[0];
+  }
+
   /**
    * Get comprehensive ticket details for detail page
    */
@@ -655,6 +1003,7 @@ export class MaintenanceTicketRepository {
         mt.issue_description,
         mt.resolution_description,
         mt.scheduled_date,
+        mt.estimated_hours::float AS estimated_hours,
         mt.created_at,
         mt.updated_at,
         mt.resolved_at,
@@ -668,6 +1017,16 @@ export class MaintenanceTicketRepository {
             END::NUMERIC, 2
         ) AS calculated_hours,
         0 AS cost,
+        mt.actual_hours,
+
+        -- Assigned technician
+        CASE 
+            WHEN mt.assigned_technician IS NOT NULL THEN jsonb_build_object(
+                'id', tu.id,
+                'display_name', COALESCE(tu.display_name, CONCAT(tu.first_name, ' ', tu.last_name))
+            )
+            ELSE NULL 
+        END AS assigned_technician,
 
         -- Client object - Match frontend client interface
         CASE 
@@ -691,13 +1050,22 @@ export class MaintenanceTicketRepository {
                 'compliance_status', ei.compliance_status
             )
             ELSE NULL 
-        END AS equipment
+        END AS equipment,
+
+        -- Service contract due-by times
+        sc.contract_name AS service_contract_name,
+        mt.response_due_at,
+        mt.resolution_due_at,
+        mt.responded_at,
+        ${slaOutcomeColumns('mt')}
 
       FROM public.maintenance_ticket mt
       LEFT JOIN public.clients c ON mt.client_id = c.id
       LEFT JOIN public."user" cu ON c.user_id = cu.id
       LEFT JOIN public.equipment_instance ei ON mt.equipment_instance_id = ei.id
       LEFT JOIN public.equipment e ON ei.equipment_id = e.id
+      LEFT JOIN public."user" tu ON mt.assigned_technician = tu.id
+      LEFT JOIN public.service_contract sc ON mt.service_contract_id = sc.id
 
       WHERE mt.ticket_number = $1
         AND mt.vendor_id = $2
@@ -0,0 +1,187 @@
+/**
+ * MessageTemplateRepository
+ * Admin overrides of the built-in email and SMS templates, system-wide or
+ * per vendor, with every saved version kept for rollback
+ */
+
+import { pool } from '../config/database';
+
+export type MessageTemplateChannel = 'email' | 'sms';
+
+export interface MessageTemplate {
+  id: number;
+  channel: MessageTemplateChannel;
+  template_type: string;
+  vendor_id: number | null;
+  vendor_name?: string | null;
+  subject: string | null;
+  body: string;
+  current_version: number;
+  created_at: string;
+  updated_at: string;
+  updated_by: number | null;
+}
+
+export interface MessageTemplateVersion {
+  id: number;
+  template_id: number;
+  version: number;
+  subject: string | null;
+  body: string;
+  change_note: string | null;
+  created_at: string;
+  created_by: number | null;
+  created_by_name?: string | null;
+}
+
+export interface SaveTemplateData {
+  channel: MessageTemplateChannel;
+  template_type: string;
+  vendor_id: number | null;
+  subject: string | null;
+  body: string;
+  change_note?: string | null;
+}
+
+export class MessageTemplateRepository {
+
+  /**
+   * The template a message should use: the vendor's override if there is
+   * one, otherwise the system-wide override
+   */
+  static async findEffective(
+    channel: MessageTemplateChannel,
+    templateType: string,
+    vendorId?: number | null
+  ): Promise<MessageTemplate | null> {
+    const result = await pool.query(
+      `SELECT * FROM public.message_template
+       WHERE channel = $1 AND template_type = $2
+         AND (vendor_id IS NULL OR vendor_id = $3)
+       ORDER BY vendor_id NULLS LAST
+       LIMIT 1`,
+      [channel, templateType, vendorId ?? null]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * The override for exactly this scope (vendorId null = system-wide)
+   */
+  static async find(
+    channel: MessageTemplateChannel,
+    templateType: string,
+    vendorId: number | null
+  ): Promise<MessageTemplate | null> {
+    const result = await pool.query(
+      `SELECT mt.*, v.company_name AS vendor_name
+       FROM public.message_template mt
+       LEFT JOIN public.vendors v ON mt.vendor_id = v.id
+       WHERE mt.channel = $1 AND mt.template_type = $2
+         AND COALESCE(mt.vendor_id, 0) = COALESCE($3::int, 0)`,
+      [channel, templateType, vendorId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Every override, for the template list
+   */
+  static async findAll(): Promise<MessageTemplate[]> {
+    const result = await pool.query(
+      `SELECT mt.*, v.company_name AS vendor_name
+       FROM public.message_template mt
+       LEFT JOIN public.vendors v ON mt.vendor_id = v.id
+       ORDER BY mt.channel, mt.template_type, mt.vendor_id NULLS FIRST`
+    );
+    return result.rows;
+  }
+
+  static async getVersions(templateId: number): Promise<MessageTemplateVersion[]> {
+    const result = await pool.query(
+      `SELECT mtv.*, COALESCE(u.display_name, u.first_name || ' ' || u.last_name) AS created_by_name
+       FROM public.message_template_version mtv
+       LEFT JOIN public."user" u ON mtv.created_by = u.id
+       WHERE mtv.template_id = $1
+       ORDER BY mtv.version DESC`,
+      [templateId]
+    );
+    return result.rows;
+  }
+
+  static async getVersion(templateId: number, version: number): Promise<MessageTemplateVersion | null> {
+    const result = await pool.query(
+      `SELECT * FROM public.message_template_version
+       WHERE template_id = $1 AND version = $2`,
+      [templateId, version]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create or update an override and record the change as a new version
+   */
+  static async save(data: SaveTemplateData, userId: number): Promise<MessageTemplate> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query(
+        `SELECT id FROM public.message_template
+         WHERE channel = $1 AND template_type = $2
+           AND COALESCE(vendor_id, 0) = COALESCE($3::int, 0)
+         FOR UPDATE`,
+        [data.channel, data.template_type, data.vendor_id]
+      );
+
+      let template: MessageTemplate;
+      if (existing.rows.length > 0) {
+        const result = await client.query(
+          `UPDATE public.message_template
+           SET subject = $1, body = $2, current_version = current_version + 1,
+               updated_at = CURRENT_TIMESTAMP, updated_by = $3
+           WHERE id = $4
+           RETURNING *`,
+          [data.subject, data.body, userId, existing.rows[0].id]
+        );
+        template = result.rows[0];
+      } else {
+        const result = await client.query(
+          `INSERT INTO public.message_template
+             (channel, template_type, vendor_id, subject, body, current_version, updated_by)
+           VALUES ($1, $2, $3, $4, $5, 1, $6)
+           RETURNING *`,
+          [data.channel, data.template_type, data.vendor_id, data.subject, data.body, userId]
+        );
+        template = result.rows[0];
+      }
+
+      await client.query(
+        `INSERT INTO public.message_template_version
+           (template_id, version, subject, body, change_note, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [template.id, template.current_version, data.subject, data.body, data.change_note || null, userId]
+      );
+
+      await client.query('COMMIT');
+      return template;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Remove an override and its history, going back to the built-in template
+   */
+  static async delete(templateId: number): Promise<boolean> {
+    const result = await pool.query(
+      'DELETE FROM public.message_template WHERE id = $1',
+      [templateId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * NotificationPreferenceRepository
+ * Per-user notification choices: which channels each event type is sent on,
+ * quiet hours, and the daily email digest
+ */
+
+import { pool } from '../config/database';
+
+export const NotificationEventTypes = [
+  'ticket_created',
+  'ticket_updated',
+  'ticket_resolved',
+  'maintenance_due',
+  'equipment_expiry',
+  'assignment',
+  'account',
+  'low_stock',
+  'billing',
+  'sla'
+] as const;
+export type NotificationEventType = typeof NotificationEventTypes[number];
+
+export const NotificationChannels = ['in_app', 'email', 'sms'] as const;
+export type NotificationChannel = typeof NotificationChannels[number];
+
+export const isNotificationEventType = (value: string): value is NotificationEventType =>
+  (NotificationEventTypes as readonly string[]).includes(value);
+
+export interface NotificationPreference {
+  event_type: NotificationEventType;
+  in_app_enabled: boolean;
+  email_enabled: boolean;
+  sms_enabled: boolean;
+}
+
+export interface NotificationSettings {
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string | null;
+  email_digest_enabled: boolean;
+  email_digest_hour: number;
+}
+
+/**
+ * One user's preference for a single event type, plus the settings needed
+ * to decide when to deliver it
+ */
+export interface DeliveryPreference extends NotificationSettings {
+  user_id: number;
+  in_app_enabled: boolean;
+  email_enabled: boolean;
+  sms_enabled: boolean;
+}
+
+export interface DigestItem {
+  id: number;
+  event_type: NotificationEventType;
+  subject: string;
+  action_url: string | null;
+  created_at: string;
+}
+
+export interface DigestRecipient {
+  user_id: number;
+  email: string;
+  display_name: string;
+  timezone: string | null;
+  email_digest_hour: number;
+}
+
+const SETTINGS_COLUMNS = `
+  to_char(u.quiet_hours_start, 'HH24:MI') AS quiet_hours_start,
+  to_char(u.quiet_hours_end, 'HH24:MI') AS quiet_hours_end,
+  u.notification_timezone AS timezone,
+  u.email_digest_enabled,
+  u.email_digest_hour`;
+
+export class NotificationPreferenceRepository {
+
+  /**
+   * Full event type x channel matrix for a user; events without a stored
+   * row are on for every channel
+   */
+  static async getPreferences(userId: number): Promise<NotificationPreference[]> {
+    const result = await pool.query(
+      `SELECT event_type, in_app_enabled, email_enabled, sms_enabled
+       FROM public.notification_preference
+       WHERE user_id = $1`,
+      [userId]
+    );
+
+    const stored = new Map<string, NotificationPreference>(
+      result.rows.map(row => [row.event_type, row])
+    );
+
+    return NotificationEventTypes.map(eventType => stored.get(eventType) || {
+      event_type: eventType,
+      in_app_enabled: true,
+      email_enabled: true,
+      sms_enabled: true
+    });
+  }
+
+  static async getSettings(userId: number): Promise<NotificationSettings | null> {
+    const result = await pool.query(
+      `SELECT ${SETTINGS_COLUMNS}
+       FROM public."user" u
+       WHERE u.id = $1`,
+      [userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Preferences of several users for one event type
+   */
+  static async getDeliveryPreferences(
+    userIds: number[],
+    eventType: NotificationEventType
+  ): Promise<DeliveryPreference[]> {
+    if (userIds.length === 0) return [];
+
+    const result = await pool.query(
+      `SELECT u.id AS user_id,
+              COALESCE(np.in_app_enabled, true) AS in_app_enabled,
+              COALESCE(np.email_enabled, true) AS email_enabled,
+              COALESCE(np.sms_enabled, true) AS sms_enabled,
+              ${SETTINGS_COLUMNS}
+       FROM public."user" u
+       LEFT JOIN public.notification_preference np
+         ON np.user_id = u.id AND np.event_type = $2
+       WHERE u.id = ANY($1)`,
+      [userIds, eventType]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Save the matrix rows that were sent and, if given, the delivery settings
+   */
+  static async save(
+    userId: number,
+    preferences: Partial<NotificationPreference>[],
+    settings?: NotificationSettings
+  ): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const preference of preferences) {
+        await client.query(
+          `INSERT INTO public.notification_preference
+             (user_id, event_type, in_app_enabled, email_enabled, sms_enabled)
+           VALUES ($1, $2, COALESCE($3, true), COALESCE($4, true), COALESCE($5, true))
+           ON CONFLICT (user_id, event_type) DO UPDATE SET
+             in_app_enabled = COALESCE($3, notification_preference.in_app_enabled),
+             email_enabled = COALESCE($4, notification_preference.email_enabled),
+             sms_enabled = COALESCE($5, notification_preference.sms_enabled),
+             updated_at = CURRENT_TIMESTAMP`,
+          [
+            userId,
+            preference.event_type,
+            preference.in_app_enabled ?? null,
+            preference.email_enabled ?? null,
+            preference.sms_enabled ?? null
+          ]
+        );
+      }
+
+      if (settings) {
+        await client.query(
+          `UPDATE public."user"
+           SET quiet_hours_start = $2,
+               quiet_hours_end = $3,
+               notification_timezone = $4,
+               email_digest_enabled = $5,
+               email_digest_hour = $6,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [
+            userId,
+            settings.quiet_hours_start,
+            settings.quiet_hours_end,
+            settings.timezone,
+            settings.email_digest_enabled,
+            settings.email_digest_hour
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Hold an email back for the user's next digest
+   */
+  static async addDigestItem(
+    userId: number,
+    eventType: NotificationEventType,
+    subject: string,
+    actionUrl?: string
+  ): Promise<void> {
+    await pool.query(
+      `INSERT INTO public.notification_digest_item (user_id, event_type, subject, action_url)
+       VALUES ($1, $2, $3, $4)`,
+      [userId, eventType, subject, actionUrl || null]
+    );
+  }
+
+  /**
+   * Users with digest items waiting, with what's needed to decide whether
+   * it's their digest hour yet
+   */
+  static async findDigestRecipients(): Promise<DigestRecipient[]> {
+    const result = await pool.query(
+      `SELECT u.id AS user_id, u.email,
+              COALESCE(u.display_name, u.first_name, u.email) AS display_name,
+              u.notification_timezone AS timezone, u.email_digest_hour
+       FROM public."user" u
+       WHERE u.deleted_at IS NULL
+         AND EXISTS (
+           SELECT 1 FROM public.notification_digest_item di
+           WHERE di.user_id = u.id AND di.digested_at IS NULL
+         )`
+    );
+    return result.rows;
+  }
+
+  static async getPendingDigestItems(userId: number): Promise<DigestItem[]> {
+    const result = await pool.query(
+      `SELECT id, event_type, subject, action_url, created_at
+       FROM public.notification_digest_item
+       WHERE user_id = $1 AND digested_at IS NULL
+       ORDER BY created_at`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  static async markDigested(itemIds: number[]): Promise<void> {
+    if (itemIds.length === 0) return;
+    await pool.query(
+      `UPDATE public.notification_digest_item
+       SET digested_at = CURRENT_TIMESTAMP
+       WHERE id = ANY($1)`,
+      [itemIds]
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { pool } from '../config/database';
+import { NotificationEventType } from './NotificationPreferenceRepository';
 
 export interface Notification {
   id: number;
@@ -30,6 +31,8 @@ export interface CreateNotificationData {
   type?: 'info' | 'success' | 'warning' | 'error' | 'alert';
   priority?: 'low' | 'normal' | 'high';
   category: string;
+  // Derived from the category when left out; decides which preference applies
+  event_type?: NotificationEventType;
   action_url?: string;
   metadata?: any;
   expires_at?: string;
@@ -103,6 +106,28 @@ export class NotificationRepository {
     }
   }
 
+  /**
+   * Get a single notification by ID
+   */
+  static async getNotificationById(notificationId: number): Promise<Notification | null> {
+    try {
+      const query = `
+        SELECT
+          id, user_id, title, message, type, priority, category,
+          is_read, is_archived, read_at, action_url, metadata,
+          created_at, expires_at
+        FROM public.notification
+        WHERE id = $1
+      `;
+
+      const result = await pool.query(query, [notificationId]);
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error getting notification:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get notification KPIs for a user
    */
@@ -132,16 +157,17 @@ export class NotificationRepository {
   }
 
   /**
-   * Create a new notification
+   * Create a new notification. Returns null when the user has turned in-app
+   * notifications off for this event type.
    */
-  static async createNotification(data: CreateNotificationData): Promise<Notification> {
+  static async createNotification(data: CreateNotificationData): Promise<Notification | null> {
     try {
       const query = `
         INSERT INTO public.notification (
           user_id, title, message, type, priority, category,
-          action_url, metadata, expires_at, created_at
+          action_url, metadata, expires_at, event_type, created_at
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, CURRENT_TIMESTAMP
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, CURRENT_TIMESTAMP
         ) RETURNING 
           id, user_id, title, message, type, priority, category,
           is_read, is_archived, read_at, action_url, metadata,
@@ -157,10 +183,11 @@ export class NotificationRepository {
         data.category,
         data.action_url,
         data.metadata ? JSON.stringify(data.metadata) : null,
-        data.expires_at
+        data.expires_at,
+        data.event_type || null
       ]);
 
-      return result.rows[0];
+      return result.rows[0] || null;
     } catch (error) {
       console.error('Error creating notification:', error);
       throw error;
@@ -267,6 +294,7 @@ export class NotificationRepository {
               type: 'info',
               priority: 'normal',
               category: 'ticket',
+              event_type: 'ticket_created',
               action_url: `/maintenance-tickets/${ticketData.ticket_id}`,
               metadata: { ticket_id: ticketData.ticket_id, ticket_number: ticketData.ticket_number }
             });
@@ -283,6 +311,7 @@ export class NotificationRepository {
               type: 'info',
               priority: 'normal',
               category: 'ticket',
+              event_type: 'ticket_updated',
               action_url: `/service-requests/${ticketData.ticket_id}`,
               metadata: { ticket_id: ticketData.ticket_id, ticket_number: ticketData.ticket_number }
             });
@@ -299,6 +328,7 @@ export class NotificationRepository {
               type: 'success',
               priority: 'normal',
               category: 'ticket',
+              event_type: 'ticket_resolved',
               action_url: `/service-requests/${ticketData.ticket_id}`,
               metadata: { ticket_id: ticketData.ticket_id, ticket_number: ticketData.ticket_number }
             });
@@ -349,6 +379,7 @@ export class NotificationRepository {
               type: 'success',
               priority: 'normal',
               category: 'client',
+              event_type: 'account',
               action_url: `/clients/${clientData.client_id}`,
               metadata: { client_id: clientData.client_id }
             });
@@ -363,6 +394,7 @@ export class NotificationRepository {
               type: 'success',
               priority: 'normal',
               category: 'account',
+              event_type: 'account',
               action_url: `/dashboard`,
               metadata: { client_id: clientData.client_id }
             });
@@ -0,0 +1,236 @@
+/**
+ * OutboundMessageRepository
+ * Postgres-backed queue of emails and SMS waiting to be delivered
+ */
+
+import { pool } from '../config/database';
+
+export type MessageChannel = 'email' | 'sms';
+export type MessageStatus = 'pending' | 'processing' | 'sent' | 'skipped' | 'dead' | 'cancelled';
+
+export interface OutboundMessage {
+  id: number;
+  channel: MessageChannel;
+  payload: any;
+  idempotency_key: string | null;
+  status: MessageStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  related_entity_type: string | null;
+  related_entity_id: number | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EnqueueMessageData {
+  channel: MessageChannel;
+  payload: any;
+  idempotency_key?: string;
+  max_attempts?: number;
+  related_entity_type?: string;
+  related_entity_id?: number;
+  // Hold delivery until then, e.g. for the recipient's quiet hours
+  next_attempt_at?: Date;
+}
+
+export interface MessageListFilters {
+  status?: MessageStatus;
+  channel?: MessageChannel;
+  search?: string;
+  limit: number;
+  offset: number;
+}
+
+export class OutboundMessageRepository {
+
+  /**
+   * Add a message to the queue. Returns null when a message with the same
+   * idempotency key already exists.
+   */
+  static async enqueue(data: EnqueueMessageData): Promise<number | null> {
+    const result = await pool.query(
+      `INSERT INTO public.outbound_message
+         (channel, payload, idempotency_key, max_attempts, related_entity_type, related_entity_id, next_attempt_at)
+       VALUES ($1, $2, $3, COALESCE($4, 6), $5, $6, COALESCE($7, CURRENT_TIMESTAMP))
+       ON CONFLICT (idempotency_key) DO NOTHING
+       RETURNING id`,
+      [
+        data.channel,
+        JSON.stringify(data.payload),
+        data.idempotency_key || null,
+        data.max_attempts ?? null,
+        data.related_entity_type || null,
+        data.related_entity_id ?? null,
+        data.next_attempt_at ?? null
+      ]
+    );
+    return result.rows[0]?.id ?? null;
+  }
+
+  /**
+   * Claim up to `limit` due messages for delivery. SKIP LOCKED lets several
+   * workers poll the same table without sending a message twice.
+   */
+  static async claimDue(limit: number): Promise<OutboundMessage[]> {
+    const result = await pool.query(
+      `UPDATE public.outbound_message
+       SET status = 'processing',
+           attempts = attempts + 1,
+           locked_at = CURRENT_TIMESTAMP,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id IN (
+         SELECT id FROM public.outbound_message
+         WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+         ORDER BY next_attempt_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Put messages claimed by a worker that died back in the queue
+   */
+  static async releaseStale(lockTimeoutMinutes: number): Promise<number> {
+    const result = await pool.query(
+      `UPDATE public.outbound_message
+       SET status = 'pending', locked_at = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE status = 'processing'
+         AND locked_at < CURRENT_TIMESTAMP - make_interval(mins => $1)`,
+      [lockTimeoutMinutes]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  static async markSent(id: number): Promise<void> {
+    await pool.query(
+      `UPDATE public.outbound_message
+       SET status = 'sent', sent_at = CURRENT_TIMESTAMP, locked_at = NULL,
+           last_error = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id]
+    );
+  }
+
+  static async markSkipped(id: number, reason: string): Promise<void> {
+    await pool.query(
+      `UPDATE public.outbound_message
+       SET status = 'skipped', locked_at = NULL, last_error = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, reason]
+    );
+  }
+
+  /**
+   * Record a failed attempt: schedule the next one, or move the message to
+   * the dead-letter state when nextAttemptAt is null
+   */
+  static async markFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await pool.query(
+      `UPDATE public.outbound_message
+       SET status = CASE WHEN $3::timestamptz IS NULL THEN 'dead' ELSE 'pending' END,
+           next_attempt_at = COALESCE($3::timestamptz, next_attempt_at),
+           last_error = $2,
+           locked_at = NULL,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, error, nextAttemptAt]
+    );
+  }
+
+  /**
+   * Queue a dead, skipped or cancelled message again with a fresh set of attempts
+   */
+  static async retry(id: number): Promise<OutboundMessage | null> {
+    const result = await pool.query(
+      `UPDATE public.outbound_message
+       SET status = 'pending', attempts = 0, next_attempt_at = CURRENT_TIMESTAMP,
+           last_error = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status IN ('dead', 'skipped', 'cancelled')
+       RETURNING *`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Stop a pending or dead message from being delivered
+   */
+  static async cancel(id: number): Promise<OutboundMessage | null> {
+    const result = await pool.query(
+      `UPDATE public.outbound_message
+       SET status = 'cancelled', locked_at = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status IN ('pending', 'dead')
+       RETURNING *`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async findById(id: number): Promise<OutboundMessage | null> {
+    const result = await pool.query(
+      `SELECT * FROM public.outbound_message WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Newest messages first, optionally filtered by status, channel or a
+   * recipient/subject/idempotency key search
+   */
+  static async list(filters: MessageListFilters): Promise<{ messages: OutboundMessage[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filters.channel) {
+      params.push(filters.channel);
+      conditions.push(`channel = $${params.length}`);
+    }
+    if (filters.search) {
+      params.push(`%${filters.search}%`);
+      conditions.push(`(payload::text ILIKE $${params.length} OR idempotency_key ILIKE $${params.length})`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await pool.query(
+      `SELECT COUNT(*)::int AS total FROM public.outbound_message ${where}`,
+      params
+    );
+
+    params.push(filters.limit, filters.offset);
+    const result = await pool.query(
+      `SELECT * FROM public.outbound_message ${where}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+
+    return { messages: result.rows, total: countResult.rows[0].total };
+  }
+
+  /**
+   * Message counts per channel and status
+   */
+  static async getStats(): Promise<{ channel: MessageChannel; status: MessageStatus; count: number }[]> {
+    const result = await pool.query(
+      `SELECT channel, status, COUNT(*)::int AS count
+       FROM public.outbound_message
+       GROUP BY channel, status
+       ORDER BY channel, status`
+    );
+    return result.rows;
+  }
+}
@@ -1,4 +1,6 @@
 import { pool } from '../config/database';
+import { InspectionChecklistRepository } from './InspectionChecklistRepository';
+import { ClientSlaSummary, ServiceContractRepository } from './ServiceContractRepository';
 
 export interface ClientReportData {
   clientInfo: {
@@ -13,6 +15,8 @@ export interface ClientReportData {
     email: string;
   };
   vendorInfo: {
+    // Null when the client has no vendor
+    id: number | null;
     companyName: string;
     licenseNumber: string;
     phone: string;
@@ -58,6 +62,16 @@ export interface ClientReportData {
     status: string;
     category: string;
   }>;
+  failedInspectionItems: Array<{
+    ticketNumber: string;
+    equipmentName: string;
+    serialNumber: string;
+    itemText: string;
+    notes: string;
+    recordedDate: string;
+  }>;
+  // Service contract SLA outcomes for tickets raised in the date range
+  serviceLevel: ClientSlaSummary;
   complianceSummary: {
     nfpaCompliant: boolean;
     totalInspections: number;
@@ -104,6 +118,7 @@ export class PDFReportsRepository {
       // 2. Get vendor info (the vendor who created this client)
       const vendorResult = await pool.query(
         `SELECT 
+          v.id,
           v.company_name,
           v.license_number,
           v.primary_phone,
@@ -114,6 +129,7 @@ export class PDFReportsRepository {
       );
 
       const vendor = vendorResult.rows[0] || {
+        id: null,
         company_name: 'N/A',
         license_number: 'N/A',
         primary_phone: 'N/A',
@@ -194,6 +210,12 @@ export class PDFReportsRepository {
       ).length;
       const upcomingInspections = parseInt(summary.maintenance_due) || 0;
 
+      // 7. Failed inspection checklist items within date range
+      const failedItems = await InspectionChecklistRepository.getFailedItemsForClient(client.id, startDate, endDate);
+
+      // 8. Service contract SLA outcomes within date range
+      const serviceLevel = await ServiceContractRepository.getClientSlaSummary(client.id, vendor.id, startDate, endDate);
+
       // Generate report number
       const reportNumber = `FG-${client.id}-${new Date().getFullYear()}${String(new Date().getMonth() + 1).padStart(2, '0')}${String(new Date().getDate()).padStart(2, '0')}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
 
@@ -210,6 +232,7 @@ export class PDFReportsRepository {
           email: client.email
         },
         vendorInfo: {
+          id: vendor.id,
           companyName: vendor.company_name,
           licenseNumber: vendor.license_number,
           phone: vendor.primary_phone,
@@ -255,6 +278,15 @@ export class PDFReportsRepository {
           status: mt.ticket_status,
           category: mt.category || 'General'
         })),
+        failedInspectionItems: failedItems.map((item) => ({
+          ticketNumber: item.ticket_number,
+          equipmentName: item.equipment_name || 'N/A',
+          serialNumber: item.serial_number || 'N/A',
+          itemText: item.item_text,
+          notes: item.notes || '',
+          recordedDate: item.recorded_at
+        })),
+        serviceLevel,
         complianceSummary: {
           nfpaCompliant: (parseInt(summary.compliant_equipment) || 0) >= (parseInt(summary.total_equipment) || 1) * 0.9,
           totalInspections: totalInspections,
@@ -307,6 +339,7 @@ export class PDFReportsRepository {
       // 2. Get vendor info
       const vendorResult = await pool.query(
         `SELECT 
+          v.id,
           v.company_name,
           v.license_number,
           v.primary_phone,
@@ -317,6 +350,7 @@ export class PDFReportsRepository {
       );
 
       const vendor = vendorResult.rows[0] || {
+        id: null,
         company_name: 'N/A',
         license_number: 'N/A',
         primary_phone: 'N/A',
@@ -399,6 +433,12 @@ export class PDFReportsRepository {
       ).length;
       const upcomingInspections = parseInt(summary.maintenance_due) || 0;
 
+      // 7. Failed inspection checklist items within date range
+      const failedItems = await InspectionChecklistRepository.getFailedItemsForClient(client.id, startDate, endDate);
+
+      // 8. Service contract SLA outcomes within date range
+      const serviceLevel = await ServiceContractRepository.getClientSlaSummary(client.id, vendorId, startDate, endDate);
+
       // Generate report number
       const reportNumber = `FG-${vendorId}-${clientId}-${new Date().getFullYear()}${String(new Date().getMonth() + 1).padStart(2, '0')}${String(new Date().getDate()).padStart(2, '0')}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
 
@@ -415,6 +455,7 @@ export class PDFReportsRepository {
           email: client.email
         },
         vendorInfo: {
+          id: vendor.id,
           companyName: vendor.company_name,
           licenseNumber: vendor.license_number,
           phone: vendor.primary_phone,
@@ -460,6 +501,15 @@ export class PDFReportsRepository {
           status: mt.ticket_status,
           category: mt.category || 'General'
         })),
+        failedInspectionItems: failedItems.map((item) => ({
+          ticketNumber: item.ticket_number,
+          equipmentName: item.equipment_name || 'N/A',
+          serialNumber: item.serial_number || 'N/A',
+          itemText: item.item_text,
+          notes: item.notes || '',
+          recordedDate: item.recorded_at
+        })),
+        serviceLevel,
         complianceSummary: {
           nfpaCompliant: (parseInt(summary.compliant_equipment) || 0) >= (parseInt(summary.total_equipment) || 1) * 0.9,
           totalInspections: totalInspections,
@@ -0,0 +1,403 @@
+/**
+ * PartsRepository
+ * Each vendor's catalog of spare parts and consumables, the stock held of
+ * each, the movements that changed it and the parts used on tickets
+ */
+
+import { PoolClient } from 'pg';
+import { pool } from '../config/database';
+
+export type PartCategory = 'extinguishing_agent' | 'seal' | 'pin' | 'gauge' | 'hose' | 'other';
+export type StockMovementType = 'received' | 'adjusted' | 'used';
+
+export const PART_CATEGORIES: PartCategory[] = ['extinguishing_agent', 'seal', 'pin', 'gauge', 'hose', 'other'];
+
+export interface Part {
+  id: number;
+  vendor_id: number;
+  part_number: string;
+  part_name: string;
+  category: PartCategory;
+  unit: string;
+  unit_cost: number;
+  quantity_on_hand: number;
+  reorder_level: number;
+  is_active: boolean;
+  is_low_stock: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PartData {
+  part_number: string;
+  part_name: string;
+  category: PartCategory;
+  unit: string;
+  unit_cost: number;
+  reorder_level: number;
+}
+
+export interface StockMovement {
+  id: number;
+  movement_type: StockMovementType;
+  quantity: number;
+  quantity_after: number;
+  unit_cost: number | null;
+  ticket_id: number | null;
+  ticket_number: string | null;
+  notes: string | null;
+  recorded_by_name: string | null;
+  created_at: string;
+}
+
+export interface TicketPartLine {
+  part_id: number;
+  quantity: number;
+}
+
+export interface TicketPart {
+  part_id: number;
+  part_number: string;
+  part_name: string;
+  unit: string;
+  quantity: number;
+  unit_cost: number;
+  line_cost: number;
+}
+
+const PART_SELECT = `
+  SELECT p.id, p.vendor_id, p.part_number, p.part_name, p.category, p.unit,
+         p.unit_cost::float AS unit_cost, p.quantity_on_hand::float AS quantity_on_hand,
+         p.reorder_level::float AS reorder_level, p.is_active,
+         p.quantity_on_hand <= p.reorder_level AS is_low_stock,
+         p.created_at, p.updated_at
+  FROM public.part p`;
+
+export class PartsRepository {
+  /**
+   * A vendor's parts by part number
+   */
+  static async listParts(
+    vendorId: number,
+    filters: { search?: string; category?: PartCategory; activeOnly?: boolean; lowStock?: boolean } = {}
+  ): Promise<Part[]> {
+    const conditions = ['p.vendor_id = $1'];
+    const params: any[] = [vendorId];
+
+    if (filters.search) {
+      params.push(`%${filters.search}%`);
+      conditions.push(`(p.part_number ILIKE $${params.length} OR p.part_name ILIKE $${params.length})`);
+    }
+    if (filters.category) {
+      params.push(filters.category);
+      conditions.push(`p.category = $${params.length}`);
+    }
+    if (filters.activeOnly) {
+      conditions.push('p.is_active = true');
+    }
+    if (filters.lowStock) {
+      conditions.push('p.quantity_on_hand <= p.reorder_level');
+    }
+
+    const result = await pool.query(
+      `${PART_SELECT} WHERE ${conditions.join(' AND ')} ORDER BY p.part_number`,
+      params
+    );
+    return result.rows;
+  }
+
+  static async findById(partId: number, vendorId: number): Promise<Part | null> {
+    const result = await pool.query(`${PART_SELECT} WHERE p.id = $1 AND p.vendor_id = $2`, [partId, vendorId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * The ones among partIds that are in the vendor's catalog
+   */
+  static async findVendorPartIds(vendorId: number, partIds: number[]): Promise<number[]> {
+    const result = await pool.query(
+      `SELECT id FROM public.part WHERE id = ANY($1::int[]) AND vendor_id = $2`,
+      [partIds, vendorId]
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  static async isPartNumberTaken(vendorId: number, partNumber: string, excludePartId?: number): Promise<boolean> {
+    const result = await pool.query(
+      `SELECT 1 FROM public.part WHERE vendor_id = $1 AND LOWER(part_number) = LOWER($2) AND id <> COALESCE($3, 0)`,
+      [vendorId, partNumber, excludePartId ?? null]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Add a part to the catalog, booking any opening stock as received
+   */
+  static async createPart(vendorId: number, data: PartData, openingStock: number, userId: number): Promise<number> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO public.part (vendor_id, part_number, part_name, category, unit, unit_cost, reorder_level)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING id`,
+        [vendorId, data.part_number, data.part_name, data.category, data.unit, data.unit_cost, data.reorder_level]
+      );
+      const partId = result.rows[0].id;
+
+      if (openingStock > 0) {
+        await this.moveStock(client, partId, {
+          movement_type: 'received',
+          quantity: openingStock,
+          unit_cost: data.unit_cost,
+          notes: 'Opening stock',
+          recorded_by: userId
+        });
+      }
+
+      await client.query('COMMIT');
+      return partId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async updatePart(partId: number, vendorId: number, data: Partial<PartData> & { is_active?: boolean }): Promise<boolean> {
+    const fields = ['part_number', 'part_name', 'category', 'unit', 'unit_cost', 'reorder_level', 'is_active'] as const;
+    const sets: string[] = [];
+    const params: any[] = [];
+    // Lowering the reorder level below stock on hand re-arms the low-stock alert
+    let reorderLevel = 'reorder_level';
+
+    for (const field of fields) {
+      if (data[field] !== undefined) {
+        params.push(data[field]);
+        sets.push(`${field} = $${params.length}`);
+        if (field === 'reorder_level') reorderLevel = `$${params.length}`;
+      }
+    }
+    if (sets.length === 0) return true;
+
+    params.push(partId, vendorId);
+    const result = await pool.query(
+      `UPDATE public.part
+       SET ${sets.join(', ')},
+           low_stock_notified_at = CASE WHEN quantity_on_hand > ${reorderLevel} THEN NULL ELSE low_stock_notified_at END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $${params.length - 1} AND vendor_id = $${params.length}`,
+      params
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Receive stock or correct the count. Returns the new quantity on hand, or
+   * null when the part isn't the vendor's.
+   */
+  static async adjustStock(
+    partId: number,
+    vendorId: number,
+    movement: { movement_type: 'received' | 'adjusted'; quantity: number; unit_cost?: number | null; notes?: string | null },
+    userId: number
+  ): Promise<number | null> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const part = await client.query(
+        'SELECT id FROM public.part WHERE id = $1 AND vendor_id = $2 FOR UPDATE',
+        [partId, vendorId]
+      );
+      if (part.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const quantityAfter = await this.moveStock(client, partId, { ...movement, recorded_by: userId });
+
+      // Stock received at a new price becomes the part's cost from now on
+      if (movement.movement_type === 'received' && movement.unit_cost != null) {
+        await client.query(
+          'UPDATE public.part SET unit_cost = $1 WHERE id = $2',
+          [movement.unit_cost, partId]
+        );
+      }
+
+      await client.query('COMMIT');
+      return quantityAfter;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getMovements(partId: number, vendorId: number, limit: number = 100): Promise<StockMovement[]> {
+    const result = await pool.query(
+      `SELECT m.id, m.movement_type, m.quantity::float AS quantity, m.quantity_after::float AS quantity_after,
+              m.unit_cost::float AS unit_cost, m.ticket_id, mt.ticket_number, m.notes,
+              u.display_name AS recorded_by_name, m.created_at
+       FROM public.part_stock_movement m
+       JOIN public.part p ON m.part_id = p.id
+       LEFT JOIN public.maintenance_ticket mt ON m.ticket_id = mt.id
+       LEFT JOIN public.user u ON m.recorded_by = u.id
+       WHERE m.part_id = $1 AND p.vendor_id = $2
+       ORDER BY m.created_at DESC, m.id DESC
+       LIMIT $3`,
+      [partId, vendorId, limit]
+    );
+    return result.rows;
+  }
+
+  static async getTicketParts(ticketId: number): Promise<TicketPart[]> {
+    const result = await pool.query(
+      `SELECT tp.part_id, p.part_number, p.part_name, p.unit,
+              tp.quantity::float AS quantity, tp.unit_cost::float AS unit_cost,
+              (tp.quantity * tp.unit_cost)::float AS line_cost
+       FROM public.maintenance_ticket_part tp
+       JOIN public.part p ON tp.part_id = p.id
+       WHERE tp.ticket_id = $1
+       ORDER BY p.part_number`,
+      [ticketId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Record the parts used on a ticket and take them out of stock, inside the
+   * resolve transaction. Throws when a part isn't the vendor's, is inactive
+   * or doesn't have enough stock, so the ticket stays open.
+   */
+  static async consumeForTicket(
+    db: PoolClient,
+    vendorId: number,
+    ticketId: number,
+    lines: TicketPartLine[],
+    recordedBy: number | null
+  ): Promise<void> {
+    const quantities = new Map<number, number>();
+    for (const line of lines) {
+      quantities.set(line.part_id, (quantities.get(line.part_id) || 0) + line.quantity);
+    }
+    if (quantities.size === 0) return;
+
+    const partIds = [...quantities.keys()];
+    const parts = await db.query(
+      `SELECT id, part_number, part_name, unit, unit_cost, quantity_on_hand::float AS quantity_on_hand, is_active
+       FROM public.part
+       WHERE id = ANY($1::int[]) AND vendor_id = $2
+       ORDER BY id
+       FOR UPDATE`,
+      [partIds, vendorId]
+    );
+
+    if (parts.rows.length !== partIds.length) {
+      throw new Error('One or more parts were not found');
+    }
+
+    for (const part of parts.rows) {
+      const quantity = quantities.get(part.id)!;
+      if (!part.is_active) {
+        throw new Error(`Part ${part.part_number} is no longer in use`);
+      }
+      if (part.quantity_on_hand < quantity) {
+        throw new Error(`Not enough ${part.part_name} in stock: ${part.quantity_on_hand} ${part.unit} left, ${quantity} needed`);
+      }
+
+      await db.query(
+        `INSERT INTO public.maintenance_ticket_part (ticket_id, part_id, quantity, unit_cost)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (ticket_id, part_id) DO UPDATE SET quantity = maintenance_ticket_part.quantity + EXCLUDED.quantity`,
+        [ticketId, part.id, quantity, part.unit_cost]
+      );
+
+      await this.moveStock(db, part.id, {
+        movement_type: 'used',
+        quantity: -quantity,
+        unit_cost: part.unit_cost,
+        ticket_id: ticketId,
+        recorded_by: recordedBy
+      });
+    }
+  }
+
+  /**
+   * Parts that have fallen to their reorder level since the vendor was last
+   * told, marked as notified so each drop is only reported once
+   */
+  static async claimLowStockParts(vendorId: number): Promise<Part[]> {
+    const result = await pool.query(
+      `UPDATE public.part p
+       SET low_stock_notified_at = CURRENT_TIMESTAMP
+       WHERE p.vendor_id = $1
+         AND p.is_active = true
+         AND p.quantity_on_hand <= p.reorder_level
+         AND p.low_stock_notified_at IS NULL
+       RETURNING p.id, p.vendor_id, p.part_number, p.part_name, p.category, p.unit,
+                 p.unit_cost::float AS unit_cost, p.quantity_on_hand::float AS quantity_on_hand,
+                 p.reorder_level::float AS reorder_level, p.is_active, true AS is_low_stock,
+                 p.created_at, p.updated_at`,
+      [vendorId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * The account that owns the vendor, who receives stock alerts
+   */
+  static async getVendorOwnerUserId(vendorId: number): Promise<number | null> {
+    const result = await pool.query('SELECT user_id FROM public.vendors WHERE id = $1', [vendorId]);
+    return result.rows[0]?.user_id ?? null;
+  }
+
+  /**
+   * Apply a stock change and log it. Restocking above the reorder level
+   * re-arms the low-stock alert. Returns the new quantity on hand.
+   */
+  private static async moveStock(
+    db: PoolClient,
+    partId: number,
+    movement: {
+      movement_type: StockMovementType;
+      quantity: number;
+      unit_cost?: number | null;
+      ticket_id?: number | null;
+      notes?: string | null;
+      recorded_by: number | null;
+    }
+  ): Promise<number> {
+    const updated = await db.query(
+      `UPDATE public.part
+       SET quantity_on_hand = quantity_on_hand + $1,
+           low_stock_notified_at = CASE WHEN quantity_on_hand + $1 > reorder_level THEN NULL ELSE low_stock_notified_at END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+       RETURNING quantity_on_hand::float AS quantity_on_hand`,
+      [movement.quantity, partId]
+    );
+    const quantityAfter = updated.rows[0].quantity_on_hand;
+
+    await db.query(
+      `INSERT INTO public.part_stock_movement (part_id, movement_type, quantity, quantity_after, unit_cost, ticket_id, notes, recorded_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        partId,
+        movement.movement_type,
+        movement.quantity,
+        quantityAfter,
+        movement.unit_cost ?? null,
+        movement.ticket_id ?? null,
+        movement.notes ?? null,
+        movement.recorded_by
+      ]
+    );
+    return quantityAfter;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * PasswordResetRepository
+ * Single-use password reset tokens. Only a SHA-256 hash of each token is
+ * stored, so a leaked table cannot be used to take over accounts.
+ */
+
+import { PoolClient } from 'pg';
+import { pool } from '../config/database';
+
+export interface CreatePasswordResetData {
+  user_id: number;
+  token_hash: string;
+  expires_at: Date;
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export class PasswordResetRepository {
+
+  /**
+   * Store a new reset token, invalidating any the user still has outstanding
+   */
+  static async createReset(data: CreatePasswordResetData): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `UPDATE public.password_reset
+         SET expires_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1 AND used = false AND expires_at > CURRENT_TIMESTAMP`,
+        [data.user_id]
+      );
+
+      await client.query(
+        `INSERT INTO public.password_reset (user_id, reset_token, ip_address, user_agent, expires_at)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [data.user_id, data.token_hash, data.ip_address || null, data.user_agent || null, data.expires_at]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error creating password reset:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Count reset requests made for a user within the last few minutes
+   */
+  static async countRecentForUser(userId: number, windowMinutes: number): Promise<number> {
+    const result = await pool.query(
+      `SELECT COUNT(*)::int AS count
+       FROM public.password_reset
+       WHERE user_id = $1 AND created_at > CURRENT_TIMESTAMP - make_interval(mins => $2)`,
+      [userId, windowMinutes]
+    );
+    return result.rows[0].count;
+  }
+
+  /**
+   * Look up the user a valid, unused token belongs to
+   */
+  static async findValidReset(tokenHash: string): Promise<{ user_id: number; expires_at: string } | null> {
+    const result = await pool.query(
+      `SELECT pr.user_id, pr.expires_at
+       FROM public.password_reset pr
+       JOIN public."user" u ON u.id = pr.user_id AND u.deleted_at IS NULL
+       WHERE pr.reset_token = $1 AND pr.used = false AND pr.expires_at > CURRENT_TIMESTAMP`,
+      [tokenHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Mark a token used and return its user. Returns null when the token is
+   * unknown, expired or already used; the conditional update makes this
+   * safe against two requests racing for the same token.
+   */
+  static async consumeReset(client: PoolClient, tokenHash: string): Promise<number | null> {
+    const result = await client.query(
+      `UPDATE public.password_reset pr
+       SET used = true, used_at = CURRENT_TIMESTAMP
+       FROM public."user" u
+       WHERE pr.reset_token = $1
+         AND pr.used = false
+         AND pr.expires_at > CURRENT_TIMESTAMP
+         AND u.id = pr.user_id
+         AND u.deleted_at IS NULL
+       RETURNING pr.user_id`,
+      [tokenHash]
+    );
+    return result.rows[0]?.user_id ?? null;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * PermissionRepository
+ * Reads and maintains the role / permission / role_permission tables
+ */
+
+import { pool } from '../config/database';
+
+export interface Role {
+  id: number;
+  roleName: string;
+  description?: string;
+  permissionCount: number;
+  userCount: number;
+  createdAt: Date;
+}
+
+export interface Permission {
+  id: number;
+  permissionName: string;
+  description?: string;
+  category: string;
+}
+
+export interface RolePermission {
+  permissionId: number;
+  permissionName: string;
+  category: string;
+  grantedBy?: number;
+  grantedAt: Date;
+}
+
+export class PermissionRepository {
+  /**
+   * Get the effective permission names for a user.
+   * Users without an explicit role_id fall back to the role named after their user_type.
+   */
+  static async getPermissionsForUser(userId: number): Promise<string[]> {
+    const query = `
+      SELECT DISTINCT p.permission_name
+      FROM "user" u
+      JOIN role r ON r.id = COALESCE(u.role_id, (SELECT id FROM role WHERE role_name = u.user_type))
+      JOIN role_permission rp ON rp.role_id = r.id
+      JOIN permission p ON p.id = rp.permission_id
+      WHERE u.id = $1 AND u.deleted_at IS NULL
+    `;
+
+    const result = await pool.query(query, [userId]);
+    return result.rows.map((row: any) => row.permission_name);
+  }
+
+  /**
+   * Get all roles with permission and user counts
+   */
+  static async getRoles(): Promise<Role[]> {
+    const query = `
+      SELECT
+        r.id,
+        r.role_name,
+        r.description,
+        r.created_at,
+        (SELECT COUNT(*) FROM role_permission rp WHERE rp.role_id = r.id) AS permission_count,
+        (SELECT COUNT(*) FROM "user" u WHERE u.role_id = r.id AND u.deleted_at IS NULL) AS user_count
+      FROM role r
+      ORDER BY r.id
+    `;
+
+    const result = await pool.query(query);
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      roleName: row.role_name,
+      description: row.description,
+      permissionCount: parseInt(row.permission_count),
+      userCount: parseInt(row.user_count),
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Get a role by ID
+   */
+  static async getRoleById(roleId: number): Promise<{ id: number; roleName: string } | null> {
+    const result = await pool.query('SELECT id, role_name FROM role WHERE id = $1', [roleId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return { id: result.rows[0].id, roleName: result.rows[0].role_name };
+  }
+
+  /**
+   * Create a new role (e.g. a read-only auditor)
+   */
+  static async createRole(roleName: string, description?: string): Promise<{ id: number; roleName: string }> {
+    const query = `
+      INSERT INTO role (role_name, description)
+      VALUES ($1, $2)
+      RETURNING id, role_name
+    `;
+
+    const result = await pool.query(query, [roleName, description || null]);
+    return { id: result.rows[0].id, roleName: result.rows[0].role_name };
+  }
+
+  /**
+   * Get all permissions ordered by category
+   */
+  static async getPermissions(): Promise<Permission[]> {
+    const query = `
+      SELECT id, permission_name, description, category
+      FROM permission
+      ORDER BY category, permission_name
+    `;
+
+    const result = await pool.query(query);
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      permissionName: row.permission_name,
+      description: row.description,
+      category: row.category
+    }));
+  }
+
+  /**
+   * Get a permission by ID
+   */
+  static async getPermissionById(permissionId: number): Promise<Permission | null> {
+    const result = await pool.query(
+      'SELECT id, permission_name, description, category FROM permission WHERE id = $1',
+      [permissionId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      permissionName: row.permission_name,
+      description: row.description,
+      category: row.category
+    };
+  }
+
+  /**
+   * Get the permissions granted to a role
+   */
+  static async getRolePermissions(roleId: number): Promise<RolePermission[]> {
+    const query = `
+      SELECT p.id, p.permission_name, p.category, rp.granted_by, rp.granted_at
+      FROM role_permission rp
+      JOIN permission p ON p.id = rp.permission_id
+      WHERE rp.role_id = $1
+      ORDER BY p.category, p.permission_name
+    `;
+
+    const result = await pool.query(query, [roleId]);
+
+    return result.rows.map((row: any) => ({
+      permissionId: row.id,
+      permissionName: row.permission_name,
+      category: row.category,
+      grantedBy: row.granted_by,
+      grantedAt: row.granted_at
+    }));
+  }
+
+  /**
+   * Grant a permission to a role. Returns false if it was already granted.
+   */
+  static async grantPermission(roleId: number, permissionId: number, grantedBy: number): Promise<boolean> {
+    const query = `
+      INSERT INTO role_permission (role_id, permission_id, granted_by, granted_at)
+      VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+      ON CONFLICT (role_id, permission_id) DO NOTHING
+    `;
+
+    const result = await pool.query(query, [roleId, permissionId, grantedBy]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Revoke a permission from a role. Returns false if it was not granted.
+   */
+  static async revokePermission(roleId: number, permissionId: number): Promise<boolean> {
+    const result = await pool.query(
+      'DELETE FROM role_permission WHERE role_id = $1 AND permission_id = $2',
+      [roleId, permissionId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Assign a role to a user
+   */
+  static async assignRoleToUser(userId: number, roleId: number): Promise<boolean> {
+    const result = await pool.query(
+      'UPDATE "user" SET role_id = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 AND deleted_at IS NULL',
+      [roleId, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -59,6 +59,51 @@ export interface RevenueAnalytics {
   total_revenue: number;
 }
 
+export interface RevenueByClient {
+  id: number;
+  company_name: string;
+  invoices_count: number;
+  equipment_revenue: number;
+  maintenance_revenue: number;
+  total_revenue: number;
+  collected: number;
+  outstanding: number;
+}
+
+export interface ReceivablesSummary {
+  open_invoices: number;
+  outstanding: number;
+  overdue_invoices: number;
+  overdue: number;
+  collected_this_month: number;
+}
+
+export interface PartUsage {
+  part_id: number;
+  part_number: string;
+  part_name: string;
+  category: string;
+  unit: string;
+  quantity_used: number;
+  total_cost: number;
+  tickets_count: number;
+  quantity_on_hand: number;
+  reorder_level: number;
+}
+
+export interface PartsCostByClient {
+  client_id: number | null;
+  client_name: string;
+  tickets_count: number;
+  total_cost: number;
+}
+
+export interface PartsCostByMonth {
+  month: string;
+  quantity_used: number;
+  total_cost: number;
+}
+
 export interface DropdownOption {
   id: number;
   name: string;
@@ -111,14 +156,14 @@ export class ReportsRepository {
          AND ei.compliance_status IN ('overdue', 'expired') 
          AND ei.deleted_at IS NULL) AS maintenance_overdue,
         
-        -- Revenue This Month (from assignment costs)
+        -- Revenue This Month (invoiced before tax)
         COALESCE(
-          (SELECT SUM(ea.total_cost) 
-           FROM equipment_assignment ea 
-           WHERE ea.vendor_id = $1 
-           AND EXTRACT(MONTH FROM ea.created_at) = EXTRACT(MONTH FROM CURRENT_DATE)
-           AND EXTRACT(YEAR FROM ea.created_at) = EXTRACT(YEAR FROM CURRENT_DATE)), 0
-        ) AS revenue_this_month
+          (SELECT SUM(inv.subtotal)
+           FROM invoice inv
+           WHERE inv.vendor_id = $1
+           AND inv.status IN ('issued', 'partially_paid', 'paid')
+           AND DATE_TRUNC('month', inv.issue_date) = DATE_TRUNC('month', CURRENT_DATE)), 0
+        )::float AS revenue_this_month
     `;
     
     const result = await pool.query(query, [vendorId]);
@@ -235,27 +280,29 @@ export class ReportsRepository {
         COALESCE(t.tickets_created, 0) AS tickets_created,
         COALESCE(t.tickets_resolved, 0) AS tickets_resolved,
         COALESCE(t.avg_resolution_time_hours, 0) AS avg_resolution_time_hours,
-        COALESCE(t.total_cost, 0) AS total_cost
+        COALESCE(t.total_cost, 0)::float AS total_cost
       FROM months m
       LEFT JOIN (
         SELECT 
-          TO_CHAR(created_at, 'YYYY-MM') AS month,
+          TO_CHAR(mt.created_at, 'YYYY-MM') AS month,
           COUNT(*) AS tickets_created,
-          SUM(CASE WHEN ticket_status = 'resolved' THEN 1 ELSE 0 END) AS tickets_resolved,
+          SUM(CASE WHEN mt.ticket_status = 'resolved' THEN 1 ELSE 0 END) AS tickets_resolved,
           COALESCE(
             AVG(
               CASE 
-                WHEN resolved_at IS NOT NULL THEN 
-                  EXTRACT(EPOCH FROM (resolved_at - created_at)) / 3600.0
+                WHEN mt.resolved_at IS NOT NULL THEN 
+                  EXTRACT(EPOCH FROM (mt.resolved_at - mt.created_at)) / 3600.0
                 ELSE NULL 
               END
             )::numeric, 0
           ) AS avg_resolution_time_hours,
-          COALESCE(SUM(cost), 0) AS total_cost
-        FROM maintenance_ticket
-        WHERE vendor_id = $1
-        AND created_at >= CURRENT_DATE - INTERVAL '11 months'
-        GROUP BY TO_CHAR(created_at, 'YYYY-MM')
+          -- What the tickets were invoiced at; a ticket has at most one live invoice
+          COALESCE(SUM(inv.subtotal), 0) AS total_cost
+        FROM maintenance_ticket mt
+        LEFT JOIN invoice inv ON inv.ticket_id = mt.id AND inv.status IN ('issued', 'partially_paid', 'paid')
+        WHERE mt.vendor_id = $1
+        AND mt.created_at >= CURRENT_DATE - INTERVAL '11 months'
+        GROUP BY TO_CHAR(mt.created_at, 'YYYY-MM')
       ) t ON m.month = t.month
       ORDER BY m.month
     `;
@@ -265,7 +312,9 @@ export class ReportsRepository {
   }
 
   /**
-   * Get revenue analytics over time (last 12 months)
+   * Get revenue analytics over time (last 12 months), from issued invoices by
+   * issue date. Rental lines are equipment revenue; labour, call-outs, parts
+   * and other lines are maintenance revenue. Amounts are before tax.
    */
   async getRevenueAnalytics(vendorId: number): Promise<RevenueAnalytics[]> {
     const query = `
@@ -279,40 +328,21 @@ export class ReportsRepository {
       )
       SELECT 
         m.month,
-        COALESCE(r.equipment_revenue, 0) AS equipment_revenue,
-        COALESCE(r.maintenance_revenue, 0) AS maintenance_revenue,
-        COALESCE(r.equipment_revenue, 0) + COALESCE(r.maintenance_revenue, 0) AS total_revenue
+        COALESCE(r.equipment_revenue, 0)::float AS equipment_revenue,
+        COALESCE(r.maintenance_revenue, 0)::float AS maintenance_revenue,
+        (COALESCE(r.equipment_revenue, 0) + COALESCE(r.maintenance_revenue, 0))::float AS total_revenue
       FROM months m
       LEFT JOIN (
         SELECT 
-          month,
-          SUM(equipment_revenue) AS equipment_revenue,
-          SUM(maintenance_revenue) AS maintenance_revenue
-        FROM (
-          -- Equipment assignment revenue
-          SELECT 
-            TO_CHAR(created_at, 'YYYY-MM') AS month,
-            SUM(total_cost) AS equipment_revenue,
-            0 AS maintenance_revenue
-          FROM equipment_assignment
-          WHERE vendor_id = $1
-          AND created_at >= CURRENT_DATE - INTERVAL '11 months'
-          GROUP BY TO_CHAR(created_at, 'YYYY-MM')
-          
-          UNION ALL
-          
-          -- Maintenance ticket revenue
-          SELECT 
-            TO_CHAR(resolved_at, 'YYYY-MM') AS month,
-            0 AS equipment_revenue,
-            SUM(cost) AS maintenance_revenue
-          FROM maintenance_ticket
-          WHERE vendor_id = $1
-          AND resolved_at IS NOT NULL
-          AND resolved_at >= CURRENT_DATE - INTERVAL '11 months'
-          GROUP BY TO_CHAR(resolved_at, 'YYYY-MM')
-        ) combined
-        GROUP BY month
+          TO_CHAR(inv.issue_date, 'YYYY-MM') AS month,
+          SUM(il.amount) FILTER (WHERE il.line_type = 'rental') AS equipment_revenue,
+          SUM(il.amount) FILTER (WHERE il.line_type <> 'rental') AS maintenance_revenue
+        FROM invoice inv
+        JOIN invoice_line il ON il.invoice_id = inv.id
+        WHERE inv.vendor_id = $1
+        AND inv.status IN ('issued', 'partially_paid', 'paid')
+        AND inv.issue_date >= DATE_TRUNC('month', CURRENT_DATE - INTERVAL '11 months')
+        GROUP BY TO_CHAR(inv.issue_date, 'YYYY-MM')
       ) r ON m.month = r.month
       ORDER BY m.month
     `;
@@ -487,7 +517,7 @@ export class ReportsRepository {
                 END
               )::numeric, 0
             ),
-            'total_cost', COALESCE(SUM(mt.cost), 0),
+            'total_cost', COALESCE(SUM(inv.subtotal), 0),
             'high_priority_tickets', SUM(CASE WHEN mt.priority = 'high' THEN 1 ELSE 0 END)
           ),
           'details', jsonb_agg(
@@ -506,13 +536,15 @@ export class ReportsRepository {
                   EXTRACT(EPOCH FROM (mt.resolved_at - mt.created_at)) / 3600.0
                 ELSE NULL 
               END,
-              'cost', mt.cost,
+              'cost', inv.subtotal,
+              'invoice_number', inv.invoice_number,
               'actual_hours', mt.actual_hours
             )
           )
         ) AS report_data
       FROM maintenance_ticket mt
       LEFT JOIN clients c ON mt.client_id = c.id
+      LEFT JOIN invoice inv ON inv.ticket_id = mt.id AND inv.status IN ('issued', 'partially_paid', 'paid')
       WHERE mt.vendor_id = $1
       AND mt.created_at BETWEEN $2 AND $3
       ${clientFilter}
@@ -869,39 +901,155 @@ export class ReportsRepository {
   }
 
   /**
-   * Get revenue breakdown by client
+   * Get revenue breakdown by client: what was invoiced in the period (before
+   * tax), what has been collected against those invoices and what is still owed
    */
-  async getRevenueByClient(vendorId: number, startDate: string, endDate: string) {
+  async getRevenueByClient(vendorId: number, startDate: string, endDate: string): Promise<RevenueByClient[]> {
     const query = `
       SELECT 
         c.id,
         c.company_name,
-        COUNT(DISTINCT ei.id) as equipment_count,
-        COALESCE(SUM(e.price), 0) as equipment_value,
-        COUNT(CASE WHEN mt.resolved_at BETWEEN $2 AND $3 THEN 1 END) as services_completed,
-        -- Estimated service revenue (using equipment price as proxy)
-        COALESCE(
-          SUM(CASE WHEN mt.resolved_at BETWEEN $2 AND $3 THEN e.price * 0.1 ELSE 0 END), 0
-        ) as estimated_service_revenue,
-        AVG(
-          CASE WHEN mt.resolved_at IS NOT NULL 
-          THEN EXTRACT(EPOCH FROM (mt.resolved_at - mt.created_at)) / 3600.0 
-          END
-        ) as avg_resolution_hours
-      FROM clients c
-      LEFT JOIN equipment_instance ei ON ei.assigned_to = c.id AND ei.deleted_at IS NULL
-      LEFT JOIN equipment e ON e.id = ei.equipment_id
-      LEFT JOIN maintenance_ticket mt ON mt.client_id = c.id
-      WHERE c.created_by_vendor_id = $1 AND c.status = 'active'
+        COUNT(*)::int AS invoices_count,
+        COALESCE(SUM(il.rental), 0)::float AS equipment_revenue,
+        COALESCE(SUM(il.service), 0)::float AS maintenance_revenue,
+        COALESCE(SUM(inv.subtotal), 0)::float AS total_revenue,
+        COALESCE(SUM(inv.amount_paid), 0)::float AS collected,
+        COALESCE(SUM(inv.total - inv.amount_paid), 0)::float AS outstanding
+      FROM invoice inv
+      JOIN clients c ON inv.client_id = c.id
+      CROSS JOIN LATERAL (
+        SELECT SUM(amount) FILTER (WHERE line_type = 'rental') AS rental,
+               SUM(amount) FILTER (WHERE line_type <> 'rental') AS service
+        FROM invoice_line
+        WHERE invoice_id = inv.id
+      ) il
+      WHERE inv.vendor_id = $1
+      AND inv.status IN ('issued', 'partially_paid', 'paid')
+      AND inv.issue_date BETWEEN $2 AND $3
       GROUP BY c.id, c.company_name
-      HAVING COUNT(DISTINCT ei.id) > 0
-      ORDER BY estimated_service_revenue DESC, equipment_value DESC
+      ORDER BY total_revenue DESC
     `;
     
     const result = await pool.query(query, [vendorId, startDate, endDate]);
     return result.rows;
   }
 
+  /**
+   * Money owed to the vendor on issued invoices, and how much of it is overdue
+   */
+  async getReceivables(vendorId: number): Promise<ReceivablesSummary> {
+    const query = `
+      SELECT 
+        COUNT(*) FILTER (WHERE status IN ('issued', 'partially_paid'))::int AS open_invoices,
+        COALESCE(SUM(total - amount_paid) FILTER (WHERE status IN ('issued', 'partially_paid')), 0)::float AS outstanding,
+        COUNT(*) FILTER (WHERE status IN ('issued', 'partially_paid') AND due_date < CURRENT_DATE)::int AS overdue_invoices,
+        COALESCE(SUM(total - amount_paid) FILTER (WHERE status IN ('issued', 'partially_paid') AND due_date < CURRENT_DATE), 0)::float AS overdue,
+        COALESCE((
+          SELECT SUM(p.amount)
+          FROM invoice_payment p
+          JOIN invoice pi ON p.invoice_id = pi.id
+          WHERE pi.vendor_id = $1
+          AND DATE_TRUNC('month', p.payment_date) = DATE_TRUNC('month', CURRENT_DATE)
+        ), 0)::float AS collected_this_month
+      FROM invoice
+      WHERE vendor_id = $1
+    `;
+
+    const result = await pool.query(query, [vendorId]);
+    return result.rows[0];
+  }
+
+  /**
+   * Parts used on tickets resolved in the period, per part, costed at the
+   * price when each was used
+   */
+  async getPartsUsage(vendorId: number, startDate: string, endDate: string): Promise<PartUsage[]> {
+    const query = `
+      SELECT 
+        p.id AS part_id,
+        p.part_number,
+        p.part_name,
+        p.category,
+        p.unit,
+        SUM(tp.quantity)::float AS quantity_used,
+        SUM(tp.quantity * tp.unit_cost)::float AS total_cost,
+        COUNT(DISTINCT tp.ticket_id)::int AS tickets_count,
+        p.quantity_on_hand::float AS quantity_on_hand,
+        p.reorder_level::float AS reorder_level
+      FROM maintenance_ticket_part tp
+      JOIN part p ON tp.part_id = p.id
+      JOIN maintenance_ticket mt ON tp.ticket_id = mt.id
+      WHERE p.vendor_id = $1
+        AND mt.resolved_at >= $2::date
+        AND mt.resolved_at < $3::date + INTERVAL '1 day'
+      GROUP BY p.id
+      ORDER BY total_cost DESC, p.part_number
+    `;
+
+    const result = await pool.query(query, [vendorId, startDate, endDate]);
+    return result.rows;
+  }
+
+  /**
+   * Cost of parts used per client over the period
+   */
+  async getPartsCostByClient(vendorId: number, startDate: string, endDate: string): Promise<PartsCostByClient[]> {
+    const query = `
+      SELECT 
+        c.id AS client_id,
+        COALESCE(c.company_name, 'No client') AS client_name,
+        COUNT(DISTINCT tp.ticket_id)::int AS tickets_count,
+        SUM(tp.quantity * tp.unit_cost)::float AS total_cost
+      FROM maintenance_ticket_part tp
+      JOIN maintenance_ticket mt ON tp.ticket_id = mt.id
+      LEFT JOIN clients c ON mt.client_id = c.id
+      WHERE mt.vendor_id = $1
+        AND mt.resolved_at >= $2::date
+        AND mt.resolved_at < $3::date + INTERVAL '1 day'
+      GROUP BY c.id, c.company_name
+      ORDER BY total_cost DESC
+    `;
+
+    const result = await pool.query(query, [vendorId, startDate, endDate]);
+    return result.rows;
+  }
+
+  /**
+   * Monthly parts cost over the last 12 months
+   */
+  async getPartsCostByMonth(vendorId: number): Promise<PartsCostByMonth[]> {
+    const query = `
+      WITH months AS (
+        SELECT 
+          TO_CHAR(generate_series(
+            CURRENT_DATE - INTERVAL '11 months',
+            CURRENT_DATE,
+            INTERVAL '1 month'
+          ), 'YYYY-MM') AS month
+      )
+      SELECT 
+        m.month,
+        COALESCE(u.quantity_used, 0)::float AS quantity_used,
+        COALESCE(u.total_cost, 0)::float AS total_cost
+      FROM months m
+      LEFT JOIN (
+        SELECT 
+          TO_CHAR(mt.resolved_at, 'YYYY-MM') AS month,
+          SUM(tp.quantity) AS quantity_used,
+          SUM(tp.quantity * tp.unit_cost) AS total_cost
+        FROM maintenance_ticket_part tp
+        JOIN maintenance_ticket mt ON tp.ticket_id = mt.id
+        WHERE mt.vendor_id = $1
+          AND mt.resolved_at >= DATE_TRUNC('month', CURRENT_DATE - INTERVAL '11 months')
+        GROUP BY TO_CHAR(mt.resolved_at, 'YYYY-MM')
+      ) u ON m.month = u.month
+      ORDER BY m.month
+    `;
+
+    const result = await pool.query(query, [vendorId]);
+    return result.rows;
+  }
+
   /**
    * Get compliance issues requiring immediate attention
    */
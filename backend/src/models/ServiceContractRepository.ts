@@ -0,0 +1,465 @@
+/**
+ * ServiceContractRepository
+ * Vendor-client service contracts: the equipment they cover, planned visits
+ * and response/resolution targets per priority, and the SLA outcome of the
+ * tickets raised under them
+ */
+
+import { PoolClient } from 'pg';
+import { pool } from '../config/database';
+
+export type TicketPriority = 'low' | 'normal' | 'high';
+export type ContractStatus = 'active' | 'scheduled' | 'expired' | 'inactive';
+export type SlaOutcome = 'met' | 'breached' | 'pending';
+
+export const TICKET_PRIORITIES: TicketPriority[] = ['low', 'normal', 'high'];
+
+export interface SlaTarget {
+  priority: TicketPriority;
+  response_hours: number;
+  resolution_hours: number;
+}
+
+export interface ServiceContract {
+  id: number;
+  vendor_id: number;
+  client_id: number;
+  client_name: string;
+  contract_name: string;
+  start_date: string;
+  end_date: string | null;
+  covers_all_equipment: boolean;
+  visits_per_year: number;
+  is_active: boolean;
+  status: ContractStatus;
+  notes: string | null;
+  sla_targets: SlaTarget[];
+  covered_instances: number;
+  open_breaches: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CoveredInstance {
+  id: number;
+  serial_number: string;
+  equipment_name: string;
+  location: string | null;
+}
+
+export interface ServiceContractDetail extends ServiceContract {
+  // Only the instances named on the contract; empty when it covers all equipment
+  equipment: CoveredInstance[];
+}
+
+export interface ServiceContractData {
+  client_id: number;
+  contract_name: string;
+  start_date: string;
+  end_date: string | null;
+  covers_all_equipment: boolean;
+  visits_per_year: number;
+  is_active: boolean;
+  notes: string | null;
+  sla_targets: SlaTarget[];
+  equipment_instance_ids: number[];
+}
+
+export interface SlaEscalationTicket {
+  id: number;
+  ticket_number: string;
+  priority: TicketPriority;
+  vendor_id: number;
+  client_id: number | null;
+  client_name: string | null;
+  client_user_id: number | null;
+  assigned_technician: number | null;
+  vendor_user_id: number | null;
+  vendor_phone: string | null;
+  due_at: string;
+}
+
+export interface ClientSlaSummary {
+  contracts: Array<{
+    contract_name: string;
+    start_date: string;
+    end_date: string | null;
+    visits_per_year: number;
+  }>;
+  tickets_with_sla: number;
+  response_met: number;
+  response_breached: number;
+  resolution_met: number;
+  resolution_breached: number;
+  breaches: Array<{
+    ticket_number: string;
+    priority: TicketPriority;
+    target: 'response' | 'resolution';
+    due_at: string;
+    completed_at: string | null;
+  }>;
+}
+
+/**
+ * Response and resolution outcome columns for a maintenance_ticket row.
+ * A target is met when it was completed by its due time, breached once
+ * the due time passes without it, and pending until then.
+ */
+export const slaOutcomeColumns = (alias: string = 'mt'): string => `
+  CASE
+    WHEN ${alias}.response_due_at IS NULL THEN NULL
+    WHEN ${alias}.responded_at IS NOT NULL AND ${alias}.responded_at <= ${alias}.response_due_at THEN 'met'
+    WHEN COALESCE(${alias}.responded_at, CURRENT_TIMESTAMP) > ${alias}.response_due_at THEN 'breached'
+    ELSE 'pending'
+  END AS response_status,
+  CASE
+    WHEN ${alias}.resolution_due_at IS NULL THEN NULL
+    WHEN ${alias}.ticket_status <> 'open'
+      AND COALESCE(${alias}.resolved_at, ${alias}.closed_at, ${alias}.updated_at) <= ${alias}.resolution_due_at THEN 'met'
+    WHEN ${alias}.ticket_status <> 'open' OR CURRENT_TIMESTAMP > ${alias}.resolution_due_at THEN 'breached'
+    ELSE 'pending'
+  END AS resolution_status`;
+
+/**
+ * Instances a contract covers: everything assigned to the client, or the
+ * instances named on it
+ */
+export const coveredInstancesSql = (contractAlias: string): string => `
+  SELECT ei.id
+  FROM public.equipment_instance ei
+  WHERE ei.vendor_id = ${contractAlias}.vendor_id
+    AND ei.deleted_at IS NULL
+    AND (
+      (${contractAlias}.covers_all_equipment AND ei.assigned_to = ${contractAlias}.client_id AND ei.status = 'assigned')
+      OR (NOT ${contractAlias}.covers_all_equipment AND ei.id IN (
+        SELECT sce.equipment_instance_id FROM public.service_contract_equipment sce WHERE sce.contract_id = ${contractAlias}.id
+      ))
+    )`;
+
+const CONTRACT_SELECT = `
+  SELECT sc.id, sc.vendor_id, sc.client_id, c.company_name AS client_name, sc.contract_name,
+         to_char(sc.start_date, 'YYYY-MM-DD') AS start_date, to_char(sc.end_date, 'YYYY-MM-DD') AS end_date,
+         sc.covers_all_equipment, sc.visits_per_year, sc.is_active,
+         CASE
+           WHEN NOT sc.is_active THEN 'inactive'
+           WHEN sc.start_date > CURRENT_DATE THEN 'scheduled'
+           WHEN sc.end_date < CURRENT_DATE THEN 'expired'
+           ELSE 'active'
+         END AS status,
+         sc.notes,
+         COALESCE((
+           SELECT json_agg(json_build_object(
+                    'priority', sla.priority,
+                    'response_hours', sla.response_hours,
+                    'resolution_hours', sla.resolution_hours
+                  ) ORDER BY CASE sla.priority WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END)
+           FROM public.service_contract_sla sla
+           WHERE sla.contract_id = sc.id
+         ), '[]'::json) AS sla_targets,
+         (SELECT COUNT(*) FROM (${coveredInstancesSql('sc')}) covered)::int AS covered_instances,
+         (SELECT COUNT(*) FROM public.maintenance_ticket mt
+          WHERE mt.service_contract_id = sc.id
+            AND mt.ticket_status = 'open'
+            AND (mt.response_breached_at IS NOT NULL OR mt.resolution_breached_at IS NOT NULL))::int AS open_breaches,
+         sc.created_at, sc.updated_at
+  FROM public.service_contract sc
+  JOIN public.clients c ON sc.client_id = c.id`;
+
+export class ServiceContractRepository {
+  /**
+   * A vendor's contracts, current ones first
+   */
+  static async listContracts(vendorId: number, filters: { clientId?: number } = {}): Promise<ServiceContract[]> {
+    const params: any[] = [vendorId];
+    let where = 'WHERE sc.vendor_id = $1';
+
+    if (filters.clientId) {
+      params.push(filters.clientId);
+      where += ` AND sc.client_id = $${params.length}`;
+    }
+
+    const result = await pool.query(
+      `${CONTRACT_SELECT}
+       ${where}
+       ORDER BY sc.is_active DESC, sc.end_date IS NOT NULL AND sc.end_date < CURRENT_DATE, c.company_name, sc.start_date DESC`,
+      params
+    );
+    return result.rows;
+  }
+
+  static async findById(contractId: number, vendorId: number): Promise<ServiceContractDetail | null> {
+    const result = await pool.query(`${CONTRACT_SELECT} WHERE sc.id = $1 AND sc.vendor_id = $2`, [contractId, vendorId]);
+    const contract = result.rows[0];
+    if (!contract) return null;
+
+    const equipment = await pool.query(
+      `SELECT ei.id, ei.serial_number, e.equipment_name, ei.location
+       FROM public.service_contract_equipment sce
+       JOIN public.equipment_instance ei ON sce.equipment_instance_id = ei.id
+       JOIN public.equipment e ON ei.equipment_id = e.id
+       WHERE sce.contract_id = $1 AND ei.deleted_at IS NULL
+       ORDER BY ei.serial_number`,
+      [contractId]
+    );
+    return { ...contract, equipment: equipment.rows };
+  }
+
+  static async isVendorClient(vendorId: number, clientId: number): Promise<boolean> {
+    const result = await pool.query(
+      'SELECT 1 FROM public.clients WHERE id = $1 AND created_by_vendor_id = $2',
+      [clientId, vendorId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Equipment assigned to a client that a contract can name
+   */
+  static async listClientEquipment(vendorId: number, clientId: number): Promise<CoveredInstance[]> {
+    const result = await pool.query(
+      `SELECT ei.id, ei.serial_number, e.equipment_name, ei.location
+       FROM public.equipment_instance ei
+       JOIN public.equipment e ON ei.equipment_id = e.id
+       WHERE ei.vendor_id = $1 AND ei.assigned_to = $2 AND ei.status = 'assigned' AND ei.deleted_at IS NULL
+       ORDER BY e.equipment_name, ei.serial_number`,
+      [vendorId, clientId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * How many of the given instances are the vendor's and assigned to the client
+   */
+  static async countClientInstances(vendorId: number, clientId: number, instanceIds: number[]): Promise<number> {
+    if (instanceIds.length === 0) return 0;
+    const result = await pool.query(
+      `SELECT COUNT(*)::int AS count
+       FROM public.equipment_instance
+       WHERE id = ANY($1::int[]) AND vendor_id = $2 AND assigned_to = $3 AND deleted_at IS NULL`,
+      [instanceIds, vendorId, clientId]
+    );
+    return result.rows[0].count;
+  }
+
+  static async createContract(vendorId: number, data: ServiceContractData, createdBy: number): Promise<number> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO public.service_contract (vendor_id, client_id, contract_name, start_date, end_date,
+                                              covers_all_equipment, visits_per_year, is_active, notes, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING id`,
+        [vendorId, data.client_id, data.contract_name, data.start_date, data.end_date,
+         data.covers_all_equipment, data.visits_per_year, data.is_active, data.notes, createdBy]
+      );
+      const contractId = result.rows[0].id;
+      await this.replaceTerms(client, contractId, data);
+
+      await client.query('COMMIT');
+      return contractId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update a contract's terms. Tickets already raised keep the due-by times
+   * they were given.
+   */
+  static async updateContract(contractId: number, vendorId: number, data: ServiceContractData): Promise<boolean> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE public.service_contract
+         SET client_id = $3, contract_name = $4, start_date = $5, end_date = $6,
+             covers_all_equipment = $7, visits_per_year = $8, is_active = $9, notes = $10,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND vendor_id = $2`,
+        [contractId, vendorId, data.client_id, data.contract_name, data.start_date, data.end_date,
+         data.covers_all_equipment, data.visits_per_year, data.is_active, data.notes]
+      );
+      if (result.rowCount === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+      await this.replaceTerms(client, contractId, data);
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Tickets still waiting for a first response after it fell due. Each is
+   * returned once: the breach is stamped as it is claimed.
+   */
+  static async claimResponseBreaches(): Promise<SlaEscalationTicket[]> {
+    return this.claimTickets(
+      'response_breached_at = CURRENT_TIMESTAMP',
+      `mt.responded_at IS NULL
+       AND mt.response_due_at <= CURRENT_TIMESTAMP
+       AND mt.response_breached_at IS NULL`,
+      'response_due_at'
+    );
+  }
+
+  /**
+   * Open tickets past their resolution time, each returned once
+   */
+  static async claimResolutionBreaches(): Promise<SlaEscalationTicket[]> {
+    return this.claimTickets(
+      'resolution_breached_at = CURRENT_TIMESTAMP',
+      `mt.resolution_due_at <= CURRENT_TIMESTAMP
+       AND mt.resolution_breached_at IS NULL`,
+      'resolution_due_at'
+    );
+  }
+
+  /**
+   * Open tickets that have used up the given share of their resolution
+   * window and have not been warned about yet
+   */
+  static async claimAtRiskTickets(windowFraction: number): Promise<SlaEscalationTicket[]> {
+    return this.claimTickets(
+      'sla_warned_at = CURRENT_TIMESTAMP',
+      `mt.resolution_due_at > CURRENT_TIMESTAMP
+       AND CURRENT_TIMESTAMP >= mt.created_at + (mt.resolution_due_at - mt.created_at) * ${Number(windowFraction)}
+       AND mt.sla_warned_at IS NULL`,
+      'resolution_due_at'
+    );
+  }
+
+  /**
+   * Contracts and SLA outcomes for a client's report. With a vendor only
+   * that vendor's contracts and tickets are included.
+   */
+  static async getClientSlaSummary(
+    clientId: number,
+    vendorId: number | null,
+    startDate: string,
+    endDate: string
+  ): Promise<ClientSlaSummary> {
+    const [contracts, outcomes] = await Promise.all([
+      pool.query(
+        `SELECT contract_name, to_char(start_date, 'YYYY-MM-DD') AS start_date,
+                to_char(end_date, 'YYYY-MM-DD') AS end_date, visits_per_year
+         FROM public.service_contract
+         WHERE client_id = $1
+           AND ($2::int IS NULL OR vendor_id = $2)
+           AND is_active
+           AND start_date <= $4::date
+           AND (end_date IS NULL OR end_date >= $3::date)
+         ORDER BY start_date`,
+        [clientId, vendorId, startDate, endDate]
+      ),
+      pool.query(
+        `SELECT ticket_number, priority, response_status, resolution_status,
+                response_due_at, resolution_due_at, responded_at, completed_at
+         FROM (
+           SELECT mt.ticket_number, mt.priority, mt.created_at,
+                  mt.response_due_at, mt.resolution_due_at, mt.responded_at,
+                  CASE WHEN mt.ticket_status <> 'open' THEN COALESCE(mt.resolved_at, mt.closed_at, mt.updated_at) END AS completed_at,
+                  ${slaOutcomeColumns('mt')}
+           FROM public.maintenance_ticket mt
+           WHERE mt.client_id = $1
+             AND ($2::int IS NULL OR mt.vendor_id = $2)
+             AND mt.service_contract_id IS NOT NULL
+             AND mt.created_at >= $3::date AND mt.created_at < $4::date + INTERVAL '1 day'
+         ) outcomes
+         ORDER BY created_at DESC`,
+        [clientId, vendorId, startDate, endDate]
+      )
+    ]);
+
+    const rows = outcomes.rows;
+    const count = (column: 'response_status' | 'resolution_status', outcome: SlaOutcome) =>
+      rows.filter(row => row[column] === outcome).length;
+
+    const breaches: ClientSlaSummary['breaches'] = [];
+    for (const row of rows) {
+      if (row.response_status === 'breached') {
+        breaches.push({
+          ticket_number: row.ticket_number,
+          priority: row.priority,
+          target: 'response',
+          due_at: row.response_due_at,
+          completed_at: row.responded_at
+        });
+      }
+      if (row.resolution_status === 'breached') {
+        breaches.push({
+          ticket_number: row.ticket_number,
+          priority: row.priority,
+          target: 'resolution',
+          due_at: row.resolution_due_at,
+          completed_at: row.completed_at
+        });
+      }
+    }
+
+    return {
+      contracts: contracts.rows,
+      tickets_with_sla: rows.length,
+      response_met: count('response_status', 'met'),
+      response_breached: count('response_status', 'breached'),
+      resolution_met: count('resolution_status', 'met'),
+      resolution_breached: count('resolution_status', 'breached'),
+      breaches
+    };
+  }
+
+  private static async claimTickets(set: string, condition: string, dueColumn: string): Promise<SlaEscalationTicket[]> {
+    const result = await pool.query(
+      `WITH claimed AS (
+         UPDATE public.maintenance_ticket mt
+         SET ${set}
+         WHERE mt.ticket_status = 'open'
+           AND ${condition}
+         RETURNING mt.id, mt.ticket_number, mt.priority, mt.vendor_id, mt.client_id,
+                   mt.assigned_technician, mt.${dueColumn} AS due_at
+       )
+       SELECT claimed.*, c.company_name AS client_name, c.user_id AS client_user_id,
+              v.user_id AS vendor_user_id, vu.phone AS vendor_phone
+       FROM claimed
+       JOIN public.vendors v ON claimed.vendor_id = v.id
+       LEFT JOIN public."user" vu ON v.user_id = vu.id
+       LEFT JOIN public.clients c ON claimed.client_id = c.id
+       ORDER BY claimed.due_at`
+    );
+    return result.rows;
+  }
+
+  private static async replaceTerms(client: PoolClient, contractId: number, data: ServiceContractData): Promise<void> {
+    await client.query('DELETE FROM public.service_contract_sla WHERE contract_id = $1', [contractId]);
+    for (const target of data.sla_targets) {
+      await client.query(
+        `INSERT INTO public.service_contract_sla (contract_id, priority, response_hours, resolution_hours)
+         VALUES ($1, $2, $3, $4)`,
+        [contractId, target.priority, target.response_hours, target.resolution_hours]
+      );
+    }
+
+    await client.query('DELETE FROM public.service_contract_equipment WHERE contract_id = $1', [contractId]);
+    if (!data.covers_all_equipment && data.equipment_instance_ids.length > 0) {
+      await client.query(
+        `INSERT INTO public.service_contract_equipment (contract_id, equipment_instance_id)
+         SELECT $1, unnest($2::int[])`,
+        [contractId, data.equipment_instance_ids]
+      );
+    }
+  }
+}
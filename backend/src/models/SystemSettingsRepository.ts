@@ -249,6 +249,7 @@ export class SystemSettingsRepository {
     requirePasswordChangeOnFirstLogin: boolean;
     maxFailedLoginAttempts: number;
     accountLockDurationMinutes: number;
+    requireTwoFactorAuth: boolean;
   }> {
     const settings = await this.getAllSettings();
 
@@ -261,7 +262,8 @@ export class SystemSettingsRepository {
       passwordMinLength: Number(findSetting('password_min_length')?.settingValue || 8),
       requirePasswordChangeOnFirstLogin: findSetting('require_password_change_on_first_login')?.settingValue === 'true',
       maxFailedLoginAttempts: Number(findSetting('max_failed_login_attempts')?.settingValue || 5),
-      accountLockDurationMinutes: Number(findSetting('account_lock_duration_minutes')?.settingValue || 30)
+      accountLockDurationMinutes: Number(findSetting('account_lock_duration_minutes')?.settingValue || 30),
+      requireTwoFactorAuth: findSetting('require_two_factor_auth')?.settingValue === 'true'
     };
   }
 }
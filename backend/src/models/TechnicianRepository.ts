@@ -0,0 +1,227 @@
+/**
+ * TechnicianRepository
+ * Handles technician sub-accounts that belong to a vendor
+ */
+
+import { pool } from '../config/database';
+
+export interface Technician {
+  id: number;
+  user_id: number;
+  vendor_id: number;
+  first_name: string;
+  last_name: string;
+  display_name: string;
+  email: string;
+  phone?: string;
+  job_title?: string;
+  status: 'active' | 'inactive';
+  last_login?: string;
+  open_tickets: number;
+  created_at: string;
+}
+
+export interface CreateTechnicianData {
+  first_name: string;
+  last_name: string;
+  email: string;
+  password: string;
+  phone?: string;
+  job_title?: string;
+}
+
+export interface UpdateTechnicianData {
+  first_name?: string;
+  last_name?: string;
+  phone?: string;
+  job_title?: string;
+  status?: 'active' | 'inactive';
+}
+
+export class TechnicianRepository {
+  private static readonly SELECT_FIELDS = `
+    t.id, t.user_id, t.vendor_id, t.job_title, t.status, t.created_at,
+    u.first_name, u.last_name,
+    COALESCE(u.display_name, CONCAT(u.first_name, ' ', u.last_name)) AS display_name,
+    u.email, u.phone, u.last_login,
+    (
+      SELECT COUNT(*)::int FROM maintenance_ticket mt
+      WHERE mt.assigned_technician = t.user_id AND mt.ticket_status = 'open'
+    ) AS open_tickets
+  `;
+
+  /**
+   * Get all technicians for a vendor
+   */
+  static async getTechniciansByVendor(vendorId: number, status?: string): Promise<Technician[]> {
+    const params: any[] = [vendorId];
+    let statusFilter = '';
+
+    if (status) {
+      params.push(status);
+      statusFilter = 'AND t.status = $2';
+    }
+
+    const query = `
+      SELECT ${this.SELECT_FIELDS}
+      FROM technicians t
+      JOIN "user" u ON t.user_id = u.id
+      WHERE t.vendor_id = $1
+        AND u.deleted_at IS NULL
+        ${statusFilter}
+      ORDER BY u.first_name, u.last_name
+    `;
+
+    const result = await pool.query(query, params);
+    return result.rows;
+  }
+
+  /**
+   * Get a technician by ID, scoped to the vendor
+   */
+  static async getTechnicianById(technicianId: number, vendorId: number): Promise<Technician | null> {
+    const query = `
+      SELECT ${this.SELECT_FIELDS}
+      FROM technicians t
+      JOIN "user" u ON t.user_id = u.id
+      WHERE t.id = $1 AND t.vendor_id = $2 AND u.deleted_at IS NULL
+    `;
+
+    const result = await pool.query(query, [technicianId, vendorId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get the technician record for a logged-in technician user
+   */
+  static async getTechnicianByUserId(userId: number): Promise<{ id: number; vendor_id: number; status: string } | null> {
+    const query = `
+      SELECT t.id, t.vendor_id, t.status
+      FROM technicians t
+      JOIN "user" u ON t.user_id = u.id
+      WHERE t.user_id = $1 AND u.deleted_at IS NULL
+    `;
+
+    const result = await pool.query(query, [userId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Check whether a user can be assigned tickets for a vendor.
+   * Valid assignees are the vendor owner account and the vendor's active technicians.
+   */
+  static async isAssignableForVendor(userId: number, vendorId: number): Promise<boolean> {
+    const query = `
+      SELECT 1 FROM vendors v WHERE v.id = $2 AND v.user_id = $1
+      UNION ALL
+      SELECT 1 FROM technicians t
+      JOIN "user" u ON t.user_id = u.id
+      WHERE t.user_id = $1 AND t.vendor_id = $2 AND t.status = 'active' AND u.deleted_at IS NULL
+      LIMIT 1
+    `;
+
+    const result = await pool.query(query, [userId, vendorId]);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Create a technician user and link it to the vendor
+   */
+  static async createTechnician(vendorId: number, data: CreateTechnicianData): Promise<{ id: number; user_id: number }> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const userQuery = `
+        INSERT INTO "user" (
+          first_name, last_name, display_name, email, password, user_type,
+          role_id, phone, is_temporary_password, created_at, updated_at, last_password_change
+        ) VALUES (
+          $1, $2, $3, $4, $5, 'technician',
+          (SELECT id FROM role WHERE role_name = 'technician'), $6, true,
+          CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+        ) RETURNING id
+      `;
+
+      const userResult = await client.query(userQuery, [
+        data.first_name,
+        data.last_name,
+        `${data.first_name} ${data.last_name}`,
+        data.email,
+        data.password,
+        data.phone || null
+      ]);
+      const userId = userResult.rows[0].id;
+
+      const technicianQuery = `
+        INSERT INTO technicians (user_id, vendor_id, job_title, status)
+        VALUES ($1, $2, $3, 'active')
+        RETURNING id
+      `;
+
+      const technicianResult = await client.query(technicianQuery, [userId, vendorId, data.job_title || null]);
+
+      await client.query('COMMIT');
+      return { id: technicianResult.rows[0].id, user_id: userId };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update technician profile and status
+   */
+  static async updateTechnician(technicianId: number, vendorId: number, data: UpdateTechnicianData): Promise<boolean> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const technicianResult = await client.query(
+        `UPDATE technicians
+         SET job_title = COALESCE($1, job_title),
+             status = COALESCE($2, status),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3 AND vendor_id = $4
+         RETURNING user_id`,
+        [data.job_title ?? null, data.status ?? null, technicianId, vendorId]
+      );
+
+      if (technicianResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      await client.query(
+        `UPDATE "user"
+         SET first_name = COALESCE($1, first_name),
+             last_name = COALESCE($2, last_name),
+             display_name = CONCAT(COALESCE($1, first_name), ' ', COALESCE($2, last_name)),
+             phone = COALESCE($3, phone),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $4`,
+        [data.first_name ?? null, data.last_name ?? null, data.phone ?? null, technicianResult.rows[0].user_id]
+      );
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Check if an email address is already used by any account
+   */
+  static async isEmailTaken(email: string): Promise<boolean> {
+    const result = await pool.query('SELECT 1 FROM "user" WHERE LOWER(email) = LOWER($1)', [email]);
+    return result.rows.length > 0;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * TwoFactorRepository
+ * TOTP secrets and recovery codes for users with two-factor authentication
+ */
+
+import { pool } from '../config/database';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  recovery_codes_remaining: number;
+}
+
+export class TwoFactorRepository {
+
+  /**
+   * Whether a user has two-factor enabled and how many recovery codes are left
+   */
+  static async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const result = await pool.query(
+      `SELECT u.two_factor_enabled AS enabled,
+              u.two_factor_enabled_at AS enabled_at,
+              (SELECT COUNT(*)::int FROM public.user_recovery_code rc
+               WHERE rc.user_id = u.id AND rc.used_at IS NULL) AS recovery_codes_remaining
+       FROM public."user" u
+       WHERE u.id = $1`,
+      [userId]
+    );
+    return result.rows[0] || { enabled: false, enabled_at: null, recovery_codes_remaining: 0 };
+  }
+
+  /**
+   * Active TOTP secret, or null when two-factor is off
+   */
+  static async getSecret(userId: number): Promise<string | null> {
+    const result = await pool.query(
+      `SELECT two_factor_secret FROM public."user"
+       WHERE id = $1 AND two_factor_enabled = true`,
+      [userId]
+    );
+    return result.rows[0]?.two_factor_secret ?? null;
+  }
+
+  /**
+   * Store the secret shown during enrollment until the user confirms it
+   */
+  static async setPendingSecret(userId: number, secret: string): Promise<void> {
+    await pool.query(
+      `UPDATE public."user" SET two_factor_pending_secret = $2 WHERE id = $1`,
+      [userId, secret]
+    );
+  }
+
+  static async getPendingSecret(userId: number): Promise<string | null> {
+    const result = await pool.query(
+      `SELECT two_factor_pending_secret FROM public."user" WHERE id = $1`,
+      [userId]
+    );
+    return result.rows[0]?.two_factor_pending_secret ?? null;
+  }
+
+  /**
+   * Turn two-factor on with the pending secret and a fresh set of recovery codes
+   */
+  static async enable(userId: number, acceptedStep: number, recoveryCodeHashes: string[]): Promise<boolean> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE public."user"
+         SET two_factor_enabled = true,
+             two_factor_secret = two_factor_pending_secret,
+             two_factor_pending_secret = NULL,
+             two_factor_enabled_at = CURRENT_TIMESTAMP,
+             two_factor_last_step = $2
+         WHERE id = $1 AND two_factor_pending_secret IS NOT NULL`,
+        [userId, acceptedStep]
+      );
+      if (result.rowCount === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      await client.query(`DELETE FROM public.user_recovery_code WHERE user_id = $1`, [userId]);
+      await client.query(
+        `INSERT INTO public.user_recovery_code (user_id, code_hash)
+         SELECT $1, unnest($2::varchar[])`,
+        [userId, recoveryCodeHashes]
+      );
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error enabling two-factor authentication:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Turn two-factor off and discard the secret and recovery codes
+   */
+  static async disable(userId: number): Promise<boolean> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE public."user"
+         SET two_factor_enabled = false,
+             two_factor_secret = NULL,
+             two_factor_pending_secret = NULL,
+             two_factor_enabled_at = NULL,
+             two_factor_last_step = NULL
+         WHERE id = $1 AND two_factor_enabled = true`,
+        [userId]
+      );
+      await client.query(`DELETE FROM public.user_recovery_code WHERE user_id = $1`, [userId]);
+
+      await client.query('COMMIT');
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error disabling two-factor authentication:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record that a time step's code was used. Returns false if that step (or a
+   * later one) was already accepted, so each code only works once.
+   */
+  static async claimTimeStep(userId: number, step: number): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE public."user"
+       SET two_factor_last_step = $2
+       WHERE id = $1 AND (two_factor_last_step IS NULL OR two_factor_last_step < $2)`,
+      [userId, step]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Mark an unused recovery code as used. Returns false if it didn't match.
+   */
+  static async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE public.user_recovery_code
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE id = (
+         SELECT id FROM public.user_recovery_code
+         WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+         LIMIT 1
+       ) AND used_at IS NULL`,
+      [userId, codeHash]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Replace all of a user's recovery codes
+   */
+  static async replaceRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(`DELETE FROM public.user_recovery_code WHERE user_id = $1`, [userId]);
+      await client.query(
+        `INSERT INTO public.user_recovery_code (user_id, code_hash)
+         SELECT $1, unnest($2::varchar[])`,
+        [userId, recoveryCodeHashes]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error replacing recovery codes:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -652,7 +652,7 @@ export class UserRepository {
         SELECT 
           u.id, u.first_name, u.last_name, u.display_name, u.email, u.user_type,
           u.is_locked, u.last_login, u.created_at, u.last_login_ip, u.phone,
-          u.avatar_url, u.bio,
+          u.avatar_url, u.bio, u.two_factor_enabled,
           r.role_name
         FROM "user" u
         LEFT JOIN role r ON u.role_id = r.id
@@ -0,0 +1,158 @@
+/**
+ * UserSessionRepository
+ * One row per signed-in device. Access tokens carry the row's session_token,
+ * so deactivating a row signs that device out.
+ */
+
+import crypto from 'crypto';
+import { isIP } from 'net';
+import { pool } from '../config/database';
+
+export interface UserSession {
+  id: number;
+  user_id: number;
+  device_name: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  last_activity: string;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface CreateUserSessionData {
+  user_id: number;
+  ip_address?: string;
+  user_agent?: string;
+  device_name?: string;
+  timeout_minutes: number;
+}
+
+export type SessionCheckResult =
+  | { status: 'active' }
+  | { status: 'revoked' }
+  | { status: 'expired' };
+
+const SESSION_COLUMNS = `id, user_id, device_name, host(ip_address) AS ip_address, user_agent,
+  last_activity, expires_at, created_at`;
+
+export class UserSessionRepository {
+
+  /**
+   * Record a new login and return its session token
+   */
+  static async createSession(data: CreateUserSessionData): Promise<string> {
+    const sessionToken = crypto.randomBytes(32).toString('hex');
+
+    await pool.query(
+      `INSERT INTO public.user_sessions
+         (user_id, session_token, ip_address, user_agent, device_name, last_activity, expires_at)
+       VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP + make_interval(mins => $6))`,
+      [
+        data.user_id,
+        sessionToken,
+        // ip_address is inet; anything unparseable (e.g. "unknown") is dropped
+        data.ip_address && isIP(data.ip_address) ? data.ip_address : null,
+        data.user_agent || null,
+        data.device_name || null,
+        data.timeout_minutes
+      ]
+    );
+
+    return sessionToken;
+  }
+
+  /**
+   * Check a session is still usable and, if so, record activity on it.
+   * Sessions idle for longer than the timeout are deactivated.
+   */
+  static async touchSession(userId: number, sessionToken: string, timeoutMinutes: number): Promise<SessionCheckResult> {
+    const result = await pool.query(
+      `SELECT is_active,
+              expires_at <= CURRENT_TIMESTAMP
+                OR last_activity <= CURRENT_TIMESTAMP - make_interval(mins => $3) AS is_expired
+       FROM public.user_sessions
+       WHERE session_token = $1 AND user_id = $2`,
+      [sessionToken, userId, timeoutMinutes]
+    );
+
+    const session = result.rows[0];
+    if (!session || !session.is_active) {
+      return { status: 'revoked' };
+    }
+
+    if (session.is_expired) {
+      await pool.query(
+        `UPDATE public.user_sessions SET is_active = false WHERE session_token = $1`,
+        [sessionToken]
+      );
+      return { status: 'expired' };
+    }
+
+    await pool.query(
+      `UPDATE public.user_sessions
+       SET last_activity = CURRENT_TIMESTAMP,
+           expires_at = CURRENT_TIMESTAMP + make_interval(mins => $2)
+       WHERE session_token = $1`,
+      [sessionToken, timeoutMinutes]
+    );
+    return { status: 'active' };
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  static async getActiveSessions(userId: number): Promise<(UserSession & { session_token: string })[]> {
+    const result = await pool.query(
+      `SELECT ${SESSION_COLUMNS}, session_token
+       FROM public.user_sessions
+       WHERE user_id = $1 AND is_active = true AND expires_at > CURRENT_TIMESTAMP
+       ORDER BY last_activity DESC`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Sign out one of a user's sessions. Returns the revoked session token,
+   * or null if the session was not found or already inactive.
+   */
+  static async revokeSession(userId: number, sessionId: number, revokedBy: number): Promise<string | null> {
+    const result = await pool.query(
+      `UPDATE public.user_sessions
+       SET is_active = false, revoked_at = CURRENT_TIMESTAMP, revoked_by = $3
+       WHERE id = $1 AND user_id = $2 AND is_active = true
+       RETURNING session_token`,
+      [sessionId, userId, revokedBy]
+    );
+    return result.rows[0]?.session_token ?? null;
+  }
+
+  /**
+   * Sign out a session by its token, as on logout
+   */
+  static async revokeSessionByToken(userId: number, sessionToken: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE public.user_sessions
+       SET is_active = false, revoked_at = CURRENT_TIMESTAMP, revoked_by = $1
+       WHERE session_token = $2 AND user_id = $1 AND is_active = true`,
+      [userId, sessionToken]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Sign out all of a user's sessions, optionally keeping one.
+   * Returns the revoked session tokens.
+   */
+  static async revokeAllSessions(userId: number, revokedBy: number | null, exceptToken?: string): Promise<string[]> {
+    const result = await pool.query(
+      `UPDATE public.user_sessions
+       SET is_active = false, revoked_at = CURRENT_TIMESTAMP, revoked_by = $2
+       WHERE user_id = $1 AND is_active = true
+         AND ($3::varchar IS NULL OR session_token <> $3)
+       RETURNING session_token`,
+      [userId, revokedBy, exceptToken || null]
+    );
+    return result.rows.map(row => row.session_token);
+  }
+}
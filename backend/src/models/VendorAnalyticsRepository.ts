@@ -1,5 +1,6 @@
 import { Pool } from 'pg';
 import { DebugLogger } from '../utils/DebugLogger';
+import { coveredInstancesSql, slaOutcomeColumns } from './ServiceContractRepository';
 
 export interface VendorOverviewKPIs {
   active_clients: string;
@@ -89,6 +90,29 @@ export interface VendorAudit {
   timestamp: string;
 }
 
+export interface SlaCompliance {
+  priority: string;
+  tickets: number;
+  response_met: number;
+  response_breached: number;
+  response_met_pct: number | null;
+  resolution_met: number;
+  resolution_breached: number;
+  resolution_met_pct: number | null;
+  open_breaches: number;
+}
+
+export interface ContractVisitCompliance {
+  contract_id: number;
+  contract_name: string;
+  client: string;
+  visits_per_year: number;
+  covered_instances: number;
+  visited_on_schedule: number;
+  overdue_visits: number;
+  visit_compliance_pct: number;
+}
+
 export class VendorAnalyticsRepository {
   private pool: Pool;
 
@@ -510,6 +534,113 @@ export class VendorAnalyticsRepository {
   /**
    * Get list of clients for dropdown filter
    */
+  /**
+   * Get response and resolution SLA outcomes per priority for tickets raised
+   * under a service contract in the period
+   */
+  async getSlaCompliance(
+    vendorId: number,
+    startDate: string,
+    endDate: string,
+    clientId?: number
+  ): Promise<SlaCompliance[]> {
+    DebugLogger.log('Fetching SLA compliance', { vendorId, startDate, endDate, clientId }, 'VENDOR_ANALYTICS');
+
+    const query = `
+      WITH outcomes AS (
+          SELECT mt.priority, mt.ticket_status,
+                 ${slaOutcomeColumns('mt')}
+          FROM public.maintenance_ticket mt
+          WHERE mt.vendor_id = $1
+            AND mt.service_contract_id IS NOT NULL
+            AND mt.created_at >= $2::date
+            AND mt.created_at < $3::date + INTERVAL '1 day'
+            AND ($4::int IS NULL OR mt.client_id = $4)
+      )
+      SELECT
+          priority,
+          COUNT(*)::int AS tickets,
+          COUNT(*) FILTER (WHERE response_status = 'met')::int AS response_met,
+          COUNT(*) FILTER (WHERE response_status = 'breached')::int AS response_breached,
+          ROUND(
+              (COUNT(*) FILTER (WHERE response_status = 'met')::float
+              / NULLIF(COUNT(*) FILTER (WHERE response_status <> 'pending'), 0) * 100)::numeric, 1
+          )::float AS response_met_pct,
+          COUNT(*) FILTER (WHERE resolution_status = 'met')::int AS resolution_met,
+          COUNT(*) FILTER (WHERE resolution_status = 'breached')::int AS resolution_breached,
+          ROUND(
+              (COUNT(*) FILTER (WHERE resolution_status = 'met')::float
+              / NULLIF(COUNT(*) FILTER (WHERE resolution_status <> 'pending'), 0) * 100)::numeric, 1
+          )::float AS resolution_met_pct,
+          COUNT(*) FILTER (
+              WHERE ticket_status = 'open' AND (response_status = 'breached' OR resolution_status = 'breached')
+          )::int AS open_breaches
+      FROM outcomes
+      GROUP BY priority
+      ORDER BY CASE priority WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END
+    `;
+
+    const result = await this.pool.query(query, [vendorId, startDate, endDate, clientId]);
+    return result.rows;
+  }
+
+  /**
+   * Get how much of each current contract's equipment has been visited within
+   * its contracted interval (a year divided by the visits per year)
+   */
+  async getContractVisitCompliance(vendorId: number, clientId?: number): Promise<ContractVisitCompliance[]> {
+    DebugLogger.log('Fetching contract visit compliance', { vendorId, clientId }, 'VENDOR_ANALYTICS');
+
+    const query = `
+      WITH contracts AS (
+          SELECT sc.*
+          FROM public.service_contract sc
+          WHERE sc.vendor_id = $1
+            AND sc.is_active
+            AND sc.visits_per_year > 0
+            AND sc.start_date <= CURRENT_DATE
+            AND (sc.end_date IS NULL OR sc.end_date >= CURRENT_DATE)
+            AND ($2::int IS NULL OR sc.client_id = $2)
+      ),
+      covered AS (
+          SELECT sc.id AS contract_id, covered.id AS equipment_instance_id,
+                 (
+                     SELECT MAX(ele.event_date)
+                     FROM public.equipment_lifecycle_event ele
+                     WHERE ele.equipment_instance_id = covered.id
+                       AND ele.vendor_id = sc.vendor_id
+                       AND ele.event_type IN ('inspected', 'serviced', 'recharged', 'failed_inspection')
+                 ) AS last_visit,
+                 CURRENT_DATE - (365 / sc.visits_per_year) AS visit_due_after
+          FROM contracts sc
+          CROSS JOIN LATERAL (${coveredInstancesSql('sc')}) covered
+      )
+      SELECT
+          sc.id AS contract_id,
+          sc.contract_name,
+          c.company_name AS client,
+          sc.visits_per_year,
+          COUNT(cv.equipment_instance_id)::int AS covered_instances,
+          COUNT(*) FILTER (WHERE cv.last_visit >= cv.visit_due_after)::int AS visited_on_schedule,
+          COUNT(*) FILTER (
+              WHERE cv.equipment_instance_id IS NOT NULL
+                AND (cv.last_visit IS NULL OR cv.last_visit < cv.visit_due_after)
+          )::int AS overdue_visits,
+          COALESCE(ROUND(
+              (COUNT(*) FILTER (WHERE cv.last_visit >= cv.visit_due_after)::float
+              / NULLIF(COUNT(cv.equipment_instance_id), 0) * 100)::numeric, 1
+          ), 0)::float AS visit_compliance_pct
+      FROM contracts sc
+      JOIN public.clients c ON sc.client_id = c.id
+      LEFT JOIN covered cv ON cv.contract_id = sc.id
+      GROUP BY sc.id, sc.contract_name, c.company_name, sc.visits_per_year
+      ORDER BY visit_compliance_pct ASC, c.company_name
+    `;
+
+    const result = await this.pool.query(query, [vendorId, clientId]);
+    return result.rows;
+  }
+
   async getClientsForDropdown(vendorId: number): Promise<any[]> {
     const query = `
       SELECT id, company_name 
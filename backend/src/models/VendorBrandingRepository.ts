@@ -0,0 +1,116 @@
+/**
+ * VendorBrandingRepository
+ * White-label settings stored on each vendors row, and which vendor's
+ * branding a user sees
+ */
+
+import { pool } from '../config/database';
+
+export interface VendorBranding {
+  vendor_id: number;
+  company_name: string;
+  brand_name: string | null;
+  brand_tagline: string | null;
+  brand_primary_color: string | null;
+  brand_secondary_color: string | null;
+  brand_logo_key: string | null;
+  brand_logo_mime_type: string | null;
+  brand_contact_email: string | null;
+  brand_website: string | null;
+  email_sender_name: string | null;
+  brand_updated_at: string | null;
+  // Contact block, from the vendor's own details
+  primary_phone: string | null;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  zip_code: string | null;
+  country: string | null;
+}
+
+export type VendorBrandingUpdate = Partial<Pick<VendorBranding,
+  | 'brand_name'
+  | 'brand_tagline'
+  | 'brand_primary_color'
+  | 'brand_secondary_color'
+  | 'brand_contact_email'
+  | 'brand_website'
+  | 'email_sender_name'
+>>;
+
+const BRANDING_COLUMNS = `
+  v.id AS vendor_id, v.company_name,
+  v.brand_name, v.brand_tagline, v.brand_primary_color, v.brand_secondary_color,
+  v.brand_logo_key, v.brand_logo_mime_type, v.brand_contact_email, v.brand_website,
+  v.email_sender_name, v.brand_updated_at,
+  v.primary_phone, v.street_address, v.city, v.state, v.zip_code, v.country`;
+
+const UPDATABLE_COLUMNS: (keyof VendorBrandingUpdate)[] = [
+  'brand_name',
+  'brand_tagline',
+  'brand_primary_color',
+  'brand_secondary_color',
+  'brand_contact_email',
+  'brand_website',
+  'email_sender_name',
+];
+
+export class VendorBrandingRepository {
+  static async findByVendorId(vendorId: number): Promise<VendorBranding | null> {
+    const result = await pool.query(
+      `SELECT ${BRANDING_COLUMNS} FROM public.vendors v WHERE v.id = $1`,
+      [vendorId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * The vendor whose branding a user sees: their own for vendors and
+   * technicians, the vendor that manages them for clients. Null for admins.
+   */
+  static async findVendorIdForUser(userId: number): Promise<number | null> {
+    const result = await pool.query(
+      `SELECT COALESCE(
+         (SELECT v.id FROM public.vendors v WHERE v.user_id = $1),
+         (SELECT t.vendor_id FROM public.technicians t WHERE t.user_id = $1),
+         (SELECT c.created_by_vendor_id FROM public.clients c WHERE c.user_id = $1)
+       ) AS vendor_id`,
+      [userId]
+    );
+    return result.rows[0]?.vendor_id ?? null;
+  }
+
+  static async update(vendorId: number, data: VendorBrandingUpdate): Promise<VendorBranding | null> {
+    const columns = UPDATABLE_COLUMNS.filter(column => data[column] !== undefined);
+    if (columns.length > 0) {
+      await pool.query(
+        `UPDATE public.vendors
+         SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')},
+             brand_updated_at = CURRENT_TIMESTAMP,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [vendorId, ...columns.map(column => data[column])]
+      );
+    }
+    return this.findByVendorId(vendorId);
+  }
+
+  /**
+   * Point the vendor at a new logo (or none), returning the old storage key
+   * so the caller can remove the file
+   */
+  static async setLogo(vendorId: number, storageKey: string | null, mimeType: string | null): Promise<string | null> {
+    const result = await pool.query(
+      `UPDATE public.vendors v
+       SET brand_logo_key = $2,
+           brand_logo_mime_type = $3,
+           brand_updated_at = CURRENT_TIMESTAMP,
+           updated_at = CURRENT_TIMESTAMP
+       FROM (SELECT id, brand_logo_key FROM public.vendors WHERE id = $1 FOR UPDATE) previous
+       WHERE v.id = previous.id
+       RETURNING previous.brand_logo_key AS previous_key`,
+      [vendorId, storageKey, mimeType]
+    );
+    return result.rows[0]?.previous_key ?? null;
+  }
+}
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { AdminAnalyticsController } from '../controllers/AdminAnalyticsController';
-import { authenticateToken, requireSuperAdmin } from '../middleware/auth';
+import { authenticateToken, requireSuperAdmin, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -91,21 +91,21 @@ router.get('/equipment/categories', AdminAnalyticsController.getEquipmentCategor
  * @access  Admin only
  * @query   startDate, endDate (optional)
  */
-router.get('/audit/trends', AdminAnalyticsController.getAuditTrends);
+router.get('/audit/trends', requirePermission('view_audit_logs'), AdminAnalyticsController.getAuditTrends);
 
 /**
  * @route   GET /api/admin/analytics/audit/recent
  * @desc    Get recent audit events
  * @access  Admin only
  */
-router.get('/audit/recent', AdminAnalyticsController.getRecentAuditEvents);
+router.get('/audit/recent', requirePermission('view_audit_logs'), AdminAnalyticsController.getRecentAuditEvents);
 
 /**
  * @route   GET /api/admin/analytics/security/summary
  * @desc    Get security summary
  * @access  Admin only
  */
-router.get('/security/summary', AdminAnalyticsController.getSecuritySummary);
+router.get('/security/summary', requirePermission('view_audit_logs'), AdminAnalyticsController.getSecuritySummary);
 
 /**
  * @route   GET /api/admin/analytics/users/trends
@@ -136,6 +136,6 @@ router.get('/report/comprehensive', AdminAnalyticsController.getComprehensiveRep
  * @access  Admin only
  * @query   startDate, endDate (optional)
  */
-router.get('/security/analytics', AdminAnalyticsController.getSecurityAnalytics);
+router.get('/security/analytics', requirePermission('view_audit_logs'), AdminAnalyticsController.getSecurityAnalytics);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { AttachmentController } from '../controllers/AttachmentController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { AttachmentCategories } from '../config/storage';
+
+const router = Router();
+const attachmentController = new AttachmentController();
+
+// Tenant access is checked per record in the controller
+router.use(authenticateToken);
+router.use(requireRole(['admin', 'vendor', 'client', 'technician']));
+
+const validateId = param('id').isInt({ min: 1 }).withMessage('Invalid ID');
+
+const validateUpload = [
+  validateId,
+  body('file_name').isString().isLength({ min: 1, max: 255 }).withMessage('File name is required'),
+  body('mime_type').isString().notEmpty().withMessage('File type is required'),
+  body('data').isString().notEmpty().withMessage('File contents are required'),
+  body('category').optional().isIn([...AttachmentCategories]).withMessage(`Category must be one of: ${AttachmentCategories.join(', ')}`)
+];
+
+/**
+ * @route   GET /api/attachments/tickets/:id
+ * @desc    List attachments on a maintenance ticket
+ * @access  Admin, owning vendor, ticket's client, assigned technician
+ */
+router.get('/tickets/:id', validateId, attachmentController.getTicketAttachments);
+
+/**
+ * @route   POST /api/attachments/tickets/:id
+ * @desc    Attach a photo or document to a maintenance ticket
+ * @access  Admin, owning vendor, ticket's client, assigned technician
+ * @body    { file_name, mime_type, data (base64), category? }
+ */
+router.post('/tickets/:id', validateUpload, attachmentController.uploadTicketAttachment);
+
+/**
+ * @route   GET /api/attachments/equipment-instances/:id
+ * @desc    List attachments on an equipment instance
+ * @access  Admin, owning vendor and its technicians, assigned client
+ */
+router.get('/equipment-instances/:id', validateId, attachmentController.getInstanceAttachments);
+
+/**
+ * @route   POST /api/attachments/equipment-instances/:id
+ * @desc    Attach a photo or document to an equipment instance
+ * @access  Admin, owning vendor and its technicians
+ * @body    { file_name, mime_type, data (base64), category? }
+ */
+router.post('/equipment-instances/:id', validateUpload, attachmentController.uploadInstanceAttachment);
+
+/**
+ * @route   GET /api/attachments/:id/download
+ * @desc    Download an attachment
+ * @access  Anyone who can see the record it is attached to
+ * @query   inline - 'true' to display in the browser instead of downloading
+ */
+router.get('/:id/download', validateId, attachmentController.downloadAttachment);
+
+/**
+ * @route   DELETE /api/attachments/:id
+ * @desc    Delete an attachment
+ * @access  Uploader, owning vendor, admin
+ */
+router.delete('/:id', validateId, attachmentController.deleteAttachment);
+
+export default router;
@@ -1,5 +1,6 @@
 import express from 'express';
 import { body } from 'express-validator';
+import rateLimit from 'express-rate-limit';
 import { AuthController } from '../controllers/AuthController';
 import { authenticateToken } from '../middleware/auth';
 
@@ -17,6 +18,19 @@ const loginValidation = [
     .withMessage('Password must be at least 6 characters long')
 ];
 
+// Second login step validation middleware
+const twoFactorLoginValidation = [
+  body('challengeToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  body('code')
+    .isString()
+    .trim()
+    .isLength({ min: 6, max: 20 })
+    .withMessage('Please enter your verification code')
+];
+
 // Register validation middleware
 const registerValidation = [
   body('email')
@@ -40,6 +54,41 @@ const registerValidation = [
     .withMessage('User type must be admin, vendor, or client')
 ];
 
+// Forgot password validation middleware
+const forgotPasswordValidation = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address')
+];
+
+const resetTokenValidation = [
+  body('token')
+    .matches(/^[a-f0-9]{64}$/)
+    .withMessage('Invalid reset token')
+];
+
+const resetPasswordValidation = [
+  ...resetTokenValidation,
+  body('newPassword')
+    .isString()
+    .notEmpty()
+    .withMessage('New password is required')
+];
+
+// Per-IP limits on the public reset endpoints, applied in every environment.
+// Requests per account are limited separately when the link is issued.
+const passwordResetLimiter = (max: number) => rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max,
+  message: {
+    success: false,
+    message: 'Too many password reset attempts. Please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
 /**
  * @route   POST /api/auth/login
  * @desc    User login
@@ -47,6 +96,22 @@ const registerValidation = [
  */
 router.post('/login', loginValidation, authController.login);
 
+/**
+ * @route   POST /api/auth/login/two-factor
+ * @desc    Complete login with an authenticator or recovery code
+ * @access  Public (requires the challenge token from /login)
+ */
+router.post('/login/two-factor', rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: {
+    success: false,
+    message: 'Too many verification attempts. Please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+}), twoFactorLoginValidation, authController.loginTwoFactor);
+
 /**
  * @route   POST /api/auth/register
  * @desc    Register new user (admin only)
@@ -75,4 +140,25 @@ router.post('/logout', authenticateToken, authController.logout);
  */
 router.post('/change-password', authenticateToken, authController.changePassword);
 
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a password reset link
+ * @access  Public
+ */
+router.post('/forgot-password', passwordResetLimiter(5), forgotPasswordValidation, authController.forgotPassword);
+
+/**
+ * @route   POST /api/auth/reset-password/verify
+ * @desc    Check that a password reset link is still valid
+ * @access  Public
+ */
+router.post('/reset-password/verify', passwordResetLimiter(20), resetTokenValidation, authController.verifyResetToken);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password with a reset token
+ * @access  Public
+ */
+router.post('/reset-password', passwordResetLimiter(10), resetPasswordValidation, authController.resetPassword);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,290 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { BillingController } from '../controllers/BillingController';
+import { INVOICE_STATUSES, LINE_TYPES, PAYMENT_METHODS, QUOTE_STATUSES, RATE_TYPES } from '../models/BillingRepository';
+import { authenticateToken, requireRole, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const billingController = new BillingController();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const validateId = (label: string) => param('id').isInt({ min: 1 }).withMessage(`Invalid ${label} ID`);
+const validateDate = (field: string, label: string) =>
+  body(field).optional({ values: 'falsy' }).isISO8601({ strict: true }).withMessage(`${label} must be a date`);
+const validateNotes = (field = 'notes') =>
+  body(field).optional({ values: 'null' }).isString().isLength({ max: 2000 }).withMessage('Notes must be at most 2000 characters');
+
+const validatePriceListItem = [
+  body('rate_type').isIn(RATE_TYPES).withMessage(`Rate type must be one of: ${RATE_TYPES.join(', ')}`),
+  body('equipment_type').optional({ values: 'null' }).isString().isLength({ max: 100 }).withMessage('Equipment type must be at most 100 characters'),
+  body('service_category').optional({ values: 'null' }).isString().isLength({ max: 100 }).withMessage('Service category must be at most 100 characters'),
+  body('description').isString().trim().isLength({ min: 1, max: 255 }).withMessage('Description is required'),
+  body('unit_price').isFloat({ min: 0, max: 99999999 }).withMessage('Price must be zero or more').toFloat()
+];
+
+// Lines and terms shared by quotes and invoices
+const validateDocument = [
+  body('tax_rate').optional().isFloat({ min: 0, max: 100 }).withMessage('Tax rate must be between 0 and 100').toFloat(),
+  validateNotes(),
+  body('lines').isArray({ min: 1, max: 200 }).withMessage('Add at least one line'),
+  body('lines.*.line_type').isIn(LINE_TYPES).withMessage(`Line type must be one of: ${LINE_TYPES.join(', ')}`),
+  body('lines.*.description').isString().trim().isLength({ min: 1, max: 500 }).withMessage('Each line needs a description'),
+  body('lines.*.quantity').isFloat({ gt: 0, max: 99999999 }).withMessage('Quantity must be greater than zero').toFloat(),
+  body('lines.*.unit_price').isFloat({ min: 0, max: 99999999 }).withMessage('Unit price must be zero or more').toFloat(),
+  body('lines.*.part_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Invalid part ID').toInt()
+];
+
+const vendorBilling = [requireRole(['vendor']), requirePermission('manage_billing')];
+
+/**
+ * @route   GET /api/billing/price-list
+ * @desc    List the vendor's labour, call-out and rental rates
+ * @access  Vendor only
+ */
+router.get('/price-list', ...vendorBilling, billingController.getPriceList);
+
+/**
+ * @route   POST /api/billing/price-list
+ * @desc    Add a rate. Leave the equipment type or service category out for a
+ *          rate that applies to all of them; the most specific rate wins.
+ * @access  Vendor only
+ * @body    rate_type, equipment_type?, service_category?, description, unit_price
+ */
+router.post('/price-list', ...vendorBilling, validatePriceListItem, billingController.createPriceListItem);
+
+/**
+ * @route   PUT /api/billing/price-list/:id
+ * @desc    Update a rate. Existing quotes and invoices keep the price they were raised at.
+ * @access  Vendor only
+ */
+router.put('/price-list/:id', ...vendorBilling, [validateId('rate'), ...validatePriceListItem], billingController.updatePriceListItem);
+
+/**
+ * @route   DELETE /api/billing/price-list/:id
+ * @desc    Remove a rate
+ * @access  Vendor only
+ */
+router.delete('/price-list/:id', ...vendorBilling, validateId('rate'), billingController.deletePriceListItem);
+
+/**
+ * @route   GET /api/billing/tickets/:ticketId/draft-lines
+ * @desc    Suggested lines for a ticket, priced from the price list, with
+ *          warnings for work no rate covers
+ * @access  Vendor only
+ * @query   for - quote (estimated hours) or invoice (actual hours and parts used)
+ */
+router.get('/tickets/:ticketId/draft-lines',
+  ...vendorBilling,
+  [
+    param('ticketId').isInt({ min: 1 }).withMessage('Invalid ticket ID'),
+    query('for').isIn(['quote', 'invoice']).withMessage('Draft lines are for a quote or an invoice')
+  ],
+  billingController.getTicketDraftLines
+);
+
+/**
+ * @route   GET /api/billing/rentals/draft-lines
+ * @desc    Suggested rental lines for the equipment a client had over a period
+ * @access  Vendor only
+ * @query   client_id, start, end (YYYY-MM-DD)
+ */
+router.get('/rentals/draft-lines',
+  ...vendorBilling,
+  [
+    query('client_id').isInt({ min: 1 }).withMessage('Choose a client'),
+    query('start').isISO8601({ strict: true }).withMessage('Start must be a date'),
+    query('end').isISO8601({ strict: true }).withMessage('End must be a date')
+  ],
+  billingController.getRentalDraftLines
+);
+
+/**
+ * @route   GET /api/billing/quotes
+ * @desc    List a vendor's quotes, or the quotes sent to a client
+ * @access  Vendor, Client
+ * @query   status?, ticket_id?
+ */
+router.get('/quotes',
+  requireRole(['vendor', 'client']),
+  [
+    query('status').optional().isIn(QUOTE_STATUSES).withMessage('Invalid status'),
+    query('ticket_id').optional().isInt({ min: 1 }).withMessage('Invalid ticket ID')
+  ],
+  billingController.getQuotes
+);
+
+/**
+ * @route   GET /api/billing/quotes/:id
+ * @desc    Get a quote with its lines
+ * @access  Vendor, Client
+ */
+router.get('/quotes/:id', requireRole(['vendor', 'client']), validateId('quote'), billingController.getQuote);
+
+/**
+ * @route   GET /api/billing/quotes/:id/pdf
+ * @desc    Download a quote as a PDF in the vendor's branding
+ * @access  Vendor, Client
+ */
+router.get('/quotes/:id/pdf', requireRole(['vendor', 'client']), validateId('quote'), billingController.getQuotePdf);
+
+/**
+ * @route   POST /api/billing/quotes
+ * @desc    Draft a quote for an open ticket
+ * @access  Vendor only
+ * @body    ticket_id, valid_until?, tax_rate?, notes?, lines[]
+ */
+router.post('/quotes',
+  ...vendorBilling,
+  [
+    body('ticket_id').isInt({ min: 1 }).withMessage('Invalid ticket ID').toInt(),
+    validateDate('valid_until', 'Valid until'),
+    ...validateDocument
+  ],
+  billingController.createQuote
+);
+
+/**
+ * @route   PUT /api/billing/quotes/:id
+ * @desc    Replace a draft quote's lines and terms
+ * @access  Vendor only
+ * @body    valid_until?, tax_rate?, notes?, lines[]
+ */
+router.put('/quotes/:id',
+  ...vendorBilling,
+  [validateId('quote'), validateDate('valid_until', 'Valid until'), ...validateDocument],
+  billingController.updateQuote
+);
+
+/**
+ * @route   POST /api/billing/quotes/:id/send
+ * @desc    Send a draft quote to the client for approval
+ * @access  Vendor only
+ */
+router.post('/quotes/:id/send', ...vendorBilling, validateId('quote'), billingController.sendQuote);
+
+/**
+ * @route   POST /api/billing/quotes/:id/accept
+ * @desc    Accept a quote before it expires
+ * @access  Client only
+ * @body    notes?
+ */
+router.post('/quotes/:id/accept',
+  requireRole(['client']),
+  [validateId('quote'), validateNotes()],
+  billingController.acceptQuote
+);
+
+/**
+ * @route   POST /api/billing/quotes/:id/decline
+ * @desc    Decline a quote; the notes are shown to the vendor
+ * @access  Client only
+ * @body    notes?
+ */
+router.post('/quotes/:id/decline',
+  requireRole(['client']),
+  [validateId('quote'), validateNotes()],
+  billingController.declineQuote
+);
+
+/**
+ * @route   GET /api/billing/invoices
+ * @desc    List a vendor's invoices, or the invoices issued to a client
+ * @access  Vendor, Client
+ * @query   status?, ticket_id?, client_id? (vendor), overdue? ('true')
+ */
+router.get('/invoices',
+  requireRole(['vendor', 'client']),
+  [
+    query('status').optional().isIn(INVOICE_STATUSES).withMessage('Invalid status'),
+    query('ticket_id').optional().isInt({ min: 1 }).withMessage('Invalid ticket ID'),
+    query('client_id').optional().isInt({ min: 1 }).withMessage('Invalid client ID')
+  ],
+  billingController.getInvoices
+);
+
+/**
+ * @route   GET /api/billing/invoices/:id
+ * @desc    Get an invoice with its lines and payments
+ * @access  Vendor, Client
+ */
+router.get('/invoices/:id', requireRole(['vendor', 'client']), validateId('invoice'), billingController.getInvoice);
+
+/**
+ * @route   GET /api/billing/invoices/:id/pdf
+ * @desc    Download an invoice as a PDF in the vendor's branding
+ * @access  Vendor, Client
+ */
+router.get('/invoices/:id/pdf', requireRole(['vendor', 'client']), validateId('invoice'), billingController.getInvoicePdf);
+
+/**
+ * @route   POST /api/billing/invoices
+ * @desc    Draft an invoice for a resolved ticket (linked to its accepted quote,
+ *          if any) or for a client's rentals over a period
+ * @access  Vendor only
+ * @body    ticket_id | (client_id, period_start, period_end), due_date?, tax_rate?, notes?, lines[]
+ */
+router.post('/invoices',
+  ...vendorBilling,
+  [
+    body('ticket_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Invalid ticket ID').toInt(),
+    body('client_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Invalid client ID').toInt(),
+    validateDate('period_start', 'Period start'),
+    validateDate('period_end', 'Period end'),
+    validateDate('due_date', 'Due date'),
+    ...validateDocument
+  ],
+  billingController.createInvoice
+);
+
+/**
+ * @route   PUT /api/billing/invoices/:id
+ * @desc    Replace a draft invoice's lines and terms
+ * @access  Vendor only
+ * @body    due_date?, tax_rate?, notes?, lines[]
+ */
+router.put('/invoices/:id',
+  ...vendorBilling,
+  [validateId('invoice'), validateDate('due_date', 'Due date'), ...validateDocument],
+  billingController.updateInvoice
+);
+
+/**
+ * @route   POST /api/billing/invoices/:id/issue
+ * @desc    Issue a draft invoice to the client, due in 30 days unless a due date was set
+ * @access  Vendor only
+ */
+router.post('/invoices/:id/issue', ...vendorBilling, validateId('invoice'), billingController.issueInvoice);
+
+/**
+ * @route   POST /api/billing/invoices/:id/payments
+ * @desc    Record a payment; the invoice becomes partially paid or paid
+ * @access  Vendor only
+ * @body    amount, method, payment_date?, reference?
+ */
+router.post('/invoices/:id/payments',
+  ...vendorBilling,
+  [
+    validateId('invoice'),
+    body('amount').isFloat({ gt: 0, max: 99999999 }).withMessage('Amount must be greater than zero').toFloat(),
+    body('method').isIn(PAYMENT_METHODS).withMessage(`Method must be one of: ${PAYMENT_METHODS.join(', ')}`),
+    validateDate('payment_date', 'Payment date'),
+    body('reference').optional({ values: 'null' }).isString().isLength({ max: 100 }).withMessage('Reference must be at most 100 characters')
+  ],
+  billingController.recordPayment
+);
+
+/**
+ * @route   POST /api/billing/invoices/:id/void
+ * @desc    Void an invoice nothing has been paid against
+ * @access  Vendor only
+ * @body    reason?
+ */
+router.post('/invoices/:id/void',
+  ...vendorBilling,
+  [validateId('invoice'), validateNotes('reason')],
+  billingController.voidInvoice
+);
+
+export default router;
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { BrandingController } from '../controllers/BrandingController';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { BRAND_COLOR_PATTERN } from '../config/branding';
+
+const router = Router();
+const brandingController = new BrandingController();
+
+/**
+ * @route   GET /api/branding/vendors/:vendorId/logo
+ * @desc    Get a vendor's logo (linked from branded emails)
+ * @access  Public
+ */
+router.get('/vendors/:vendorId/logo',
+  param('vendorId').isInt({ min: 1 }).withMessage('Invalid vendor ID'),
+  brandingController.getVendorLogo
+);
+
+// Everything else requires a signed-in user
+router.use(authenticateToken);
+
+/**
+ * @route   GET /api/branding
+ * @desc    Get the branding for the signed-in user's portal
+ * @access  Private
+ */
+router.get('/', brandingController.getMyBranding);
+
+/**
+ * @route   GET /api/branding/vendor
+ * @desc    Get the vendor's branding settings
+ * @access  Vendor only
+ */
+router.get('/vendor', requireRole(['vendor']), brandingController.getVendorBranding);
+
+/**
+ * @route   PUT /api/branding/vendor
+ * @desc    Update the vendor's branding; empty values restore the default
+ * @access  Vendor only
+ * @body    brandName?, tagline?, primaryColor?, secondaryColor?, contactEmail?, website?, emailSenderName?
+ */
+router.put('/vendor',
+  requireRole(['vendor']),
+  [
+    body('brandName').optional({ values: 'null' }).isString().trim().isLength({ max: 200 }).withMessage('Brand name must be at most 200 characters'),
+    body('tagline').optional({ values: 'null' }).isString().trim().isLength({ max: 255 }).withMessage('Tagline must be at most 255 characters'),
+    body('primaryColor').optional({ values: 'falsy' }).matches(BRAND_COLOR_PATTERN).withMessage('Primary color must be a hex color like #E53935'),
+    body('secondaryColor').optional({ values: 'falsy' }).matches(BRAND_COLOR_PATTERN).withMessage('Secondary color must be a hex color like #C62828'),
+    body('contactEmail').optional({ values: 'falsy' }).isEmail().isLength({ max: 255 }).withMessage('Contact email must be a valid email address'),
+    body('website').optional({ values: 'falsy' }).isURL({ protocols: ['http', 'https'], require_protocol: true }).isLength({ max: 255 }).withMessage('Website must be a full http(s) URL'),
+    body('emailSenderName').optional({ values: 'falsy' }).isString().trim().isLength({ max: 100 })
+      .not().matches(/[<>"\r\n]/).withMessage('Email sender name must be at most 100 characters, without <, > or quotes')
+  ],
+  brandingController.updateVendorBranding
+);
+
+/**
+ * @route   PUT /api/branding/vendor/logo
+ * @desc    Upload the vendor's logo
+ * @access  Vendor only
+ * @body    file_name, mime_type (image/png or image/jpeg), data (base64)
+ */
+router.put('/vendor/logo',
+  requireRole(['vendor']),
+  [
+    body('file_name').isString().notEmpty().withMessage('File name is required'),
+    body('mime_type').isIn(['image/png', 'image/jpeg']).withMessage('Logos must be PNG or JPEG images'),
+    body('data').isString().notEmpty().withMessage('File contents are required')
+  ],
+  brandingController.uploadVendorLogo
+);
+
+/**
+ * @route   DELETE /api/branding/vendor/logo
+ * @desc    Remove the vendor's logo
+ * @access  Vendor only
+ */
+router.delete('/vendor/logo', requireRole(['vendor']), brandingController.deleteVendorLogo);
+
+export default router;
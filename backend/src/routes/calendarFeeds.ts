@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { param } from 'express-validator';
+import { CalendarFeedController } from '../controllers/CalendarFeedController';
+
+const router = Router();
+const calendarFeedController = new CalendarFeedController();
+
+// Calendar apps cannot send auth headers, so feeds are authorised by their secret token
+
+/**
+ * @route   GET /api/calendar-feeds/:token.ics
+ * @desc    ICS feed of a vendor's or technician's scheduled tickets
+ * @access  Public (feed token)
+ */
+router.get(
+  '/:token',
+  param('token').matches(/^[a-f0-9]{64}(\.ics)?$/).withMessage('Invalid calendar feed'),
+  calendarFeedController.serveFeed
+);
+
+export default router;
@@ -28,6 +28,7 @@ router.get('/equipment/non-compliant', clientAnalyticsController.getNonCompliant
 // Compliance Analytics
 router.get('/compliance/trend', clientAnalyticsController.getComplianceTrend.bind(clientAnalyticsController));
 router.get('/compliance/by-type', clientAnalyticsController.getComplianceByType.bind(clientAnalyticsController));
+router.get('/compliance/by-site', clientAnalyticsController.getComplianceBySite.bind(clientAnalyticsController));
 
 // Request/Ticket Analytics
 router.get('/requests/trend', clientAnalyticsController.getRequestTrends.bind(clientAnalyticsController));
@@ -0,0 +1,149 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { ClientSiteController } from '../controllers/ClientSiteController';
+import { authenticateToken, requireRole, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const clientSiteController = new ClientSiteController();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const validateId = param('id').isInt({ min: 1 }).withMessage('Invalid site ID');
+const validateZoneId = param('zoneId').isInt({ min: 1 }).withMessage('Invalid zone ID');
+const validateZoneName = body('zone_name').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Zone name is required');
+
+const validateSiteFields = [
+  body('street_address').optional({ values: 'null' }).isString().trim().isLength({ max: 500 }),
+  body('city').optional({ values: 'null' }).isString().trim().isLength({ max: 200 }),
+  body('state').optional({ values: 'null' }).isString().trim().isLength({ max: 200 }),
+  body('zip_code').optional({ values: 'null' }).isString().trim().isLength({ max: 50 }),
+  body('country').optional({ values: 'null' }).isString().trim().isLength({ max: 200 }),
+  body('latitude').optional({ values: 'null' }).isFloat({ min: -90, max: 90 }).withMessage('Latitude must be between -90 and 90').toFloat(),
+  body('longitude').optional({ values: 'null' }).isFloat({ min: -180, max: 180 }).withMessage('Longitude must be between -180 and 180').toFloat(),
+  body('contact_name').optional({ values: 'null' }).isString().trim().isLength({ max: 200 }),
+  body('contact_phone').optional({ values: 'null' }).isString().trim().isLength({ max: 50 }),
+  body('contact_email').optional({ values: 'falsy' }).isEmail().withMessage('Contact email must be a valid email address'),
+  body('notes').optional({ values: 'null' }).isString()
+];
+
+/**
+ * @route   GET /api/client-sites
+ * @desc    List sites with their building/floor/room zones and equipment counts.
+ *          Vendors see their clients' sites, clients their own.
+ * @access  Vendor, Client
+ * @query   client_id? - Vendors only: limit to one client
+ */
+router.get('/',
+  requireRole(['vendor', 'client']),
+  query('client_id').optional().isInt({ min: 1 }).withMessage('Invalid client ID'),
+  clientSiteController.getSites
+);
+
+/**
+ * @route   PUT /api/client-sites/equipment/:instanceId
+ * @desc    Place an equipment instance at a site of the client it's assigned to.
+ *          A zone alone implies its site; no site and no zone clears the placement.
+ * @access  Vendor only
+ * @body    site_id?, zone_id?, location? (free-text detail)
+ */
+router.put('/equipment/:instanceId',
+  requireRole(['vendor']),
+  requirePermission('assign_equipment'),
+  [
+    param('instanceId').isInt({ min: 1 }).withMessage('Invalid equipment instance ID'),
+    body('site_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Invalid site ID').toInt(),
+    body('zone_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Invalid zone ID').toInt(),
+    body('location').optional({ values: 'null' }).isString().isLength({ max: 500 }).withMessage('Location must be at most 500 characters')
+  ],
+  clientSiteController.placeEquipment
+);
+
+/**
+ * @route   PUT /api/client-sites/zones/:zoneId
+ * @desc    Rename a zone
+ * @access  Vendor only
+ * @body    zone_name
+ */
+router.put('/zones/:zoneId',
+  requireRole(['vendor']),
+  requirePermission('manage_clients'),
+  [validateZoneId, validateZoneName],
+  clientSiteController.updateZone
+);
+
+/**
+ * @route   DELETE /api/client-sites/zones/:zoneId
+ * @desc    Delete a zone and the zones inside it (refused while equipment is placed there)
+ * @access  Vendor only
+ */
+router.delete('/zones/:zoneId', requireRole(['vendor']), requirePermission('manage_clients'), validateZoneId, clientSiteController.deleteZone);
+
+/**
+ * @route   GET /api/client-sites/:id
+ * @desc    Get a site with its zones
+ * @access  Vendor, Client
+ */
+router.get('/:id', requireRole(['vendor', 'client']), validateId, clientSiteController.getSite);
+
+/**
+ * @route   POST /api/client-sites
+ * @desc    Add a site for one of the vendor's clients
+ * @access  Vendor only
+ * @body    client_id, site_name, street_address?, city?, state?, zip_code?, country?,
+ *          latitude?, longitude?, contact_name?, contact_phone?, contact_email?, notes?
+ */
+router.post('/',
+  requireRole(['vendor']),
+  requirePermission('manage_clients'),
+  [
+    body('client_id').isInt({ min: 1 }).withMessage('Client is required'),
+    body('site_name').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Site name is required'),
+    ...validateSiteFields
+  ],
+  clientSiteController.createSite
+);
+
+/**
+ * @route   PUT /api/client-sites/:id
+ * @desc    Update a site
+ * @access  Vendor only
+ * @body    Any of the fields accepted when creating, except client_id
+ */
+router.put('/:id',
+  requireRole(['vendor']),
+  requirePermission('manage_clients'),
+  [
+    validateId,
+    body('site_name').optional().isString().trim().isLength({ min: 1, max: 200 }).withMessage('Site name must be between 1 and 200 characters'),
+    ...validateSiteFields
+  ],
+  clientSiteController.updateSite
+);
+
+/**
+ * @route   DELETE /api/client-sites/:id
+ * @desc    Delete a site and its zones (refused while equipment is placed there)
+ * @access  Vendor only
+ */
+router.delete('/:id', requireRole(['vendor']), requirePermission('manage_clients'), validateId, clientSiteController.deleteSite);
+
+/**
+ * @route   POST /api/client-sites/:id/zones
+ * @desc    Add a building (no parent), a floor (in a building) or a room (in a floor)
+ * @access  Vendor only
+ * @body    zone_type, zone_name, parent_id?
+ */
+router.post('/:id/zones',
+  requireRole(['vendor']),
+  requirePermission('manage_clients'),
+  [
+    validateId,
+    body('zone_type').isIn(['building', 'floor', 'room']).withMessage('Zone type must be building, floor or room'),
+    validateZoneName,
+    body('parent_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Invalid parent zone').toInt()
+  ],
+  clientSiteController.createZone
+);
+
+export default router;
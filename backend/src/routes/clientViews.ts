@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { ClientViewsController } from '../controllers/ClientViewsController';
-import { authenticateToken, requireClient } from '../middleware/auth';
+import { authenticateToken, requireClient, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -13,25 +13,25 @@ router.get('/dashboard/kpis', ClientViewsController.getDashboardKPIs.bind(Client
 router.get('/dashboard/activity', ClientViewsController.getRecentActivity.bind(ClientViewsController));
 
 // Client Equipment
-router.get('/equipment', ClientViewsController.getEquipmentList.bind(ClientViewsController));
-router.get('/equipment/overview', ClientViewsController.getEquipmentTypesOverview.bind(ClientViewsController));
-router.get('/equipment/stats', ClientViewsController.getEquipmentStats.bind(ClientViewsController));
-router.get('/equipment/:id', ClientViewsController.getEquipmentDetail.bind(ClientViewsController));
+router.get('/equipment', requirePermission('view_equipment'), ClientViewsController.getEquipmentList.bind(ClientViewsController));
+router.get('/equipment/overview', requirePermission('view_equipment'), ClientViewsController.getEquipmentTypesOverview.bind(ClientViewsController));
+router.get('/equipment/stats', requirePermission('view_equipment'), ClientViewsController.getEquipmentStats.bind(ClientViewsController));
+router.get('/equipment/:id', requirePermission('view_equipment'), ClientViewsController.getEquipmentDetail.bind(ClientViewsController));
 
 // Client Service Requests (Tickets)
-router.get('/service-requests', ClientViewsController.getServiceRequests.bind(ClientViewsController));
-router.post('/service-requests', ClientViewsController.createServiceRequest.bind(ClientViewsController));
-router.get('/service-requests/:id', ClientViewsController.getServiceRequestDetails.bind(ClientViewsController));
+router.get('/service-requests', requirePermission('view_maintenance'), ClientViewsController.getServiceRequests.bind(ClientViewsController));
+router.post('/service-requests', requirePermission('create_service_requests'), ClientViewsController.createServiceRequest.bind(ClientViewsController));
+router.get('/service-requests/:id', requirePermission('view_maintenance'), ClientViewsController.getServiceRequestDetails.bind(ClientViewsController));
 
 // Client Reports
-router.get('/reports/kpis', ClientViewsController.getReportsKPIs.bind(ClientViewsController));
-router.get('/reports/compliance-chart', ClientViewsController.getComplianceChartData.bind(ClientViewsController));
-router.get('/reports', ClientViewsController.getReportsList.bind(ClientViewsController));
-router.get('/reports/:id', ClientViewsController.getReportDetails.bind(ClientViewsController));
-router.get('/reports/:id/related', ClientViewsController.getRelatedReports.bind(ClientViewsController));
+router.get('/reports/kpis', requirePermission('view_maintenance'), ClientViewsController.getReportsKPIs.bind(ClientViewsController));
+router.get('/reports/compliance-chart', requirePermission('view_maintenance'), ClientViewsController.getComplianceChartData.bind(ClientViewsController));
+router.get('/reports', requirePermission('view_maintenance'), ClientViewsController.getReportsList.bind(ClientViewsController));
+router.get('/reports/:id', requirePermission('view_maintenance'), ClientViewsController.getReportDetails.bind(ClientViewsController));
+router.get('/reports/:id/related', requirePermission('view_maintenance'), ClientViewsController.getRelatedReports.bind(ClientViewsController));
 
 // Export functionality
-router.get('/reports/export-all', ClientViewsController.exportAllReports.bind(ClientViewsController));
-router.get('/reports/:id/export', ClientViewsController.exportSingleReport.bind(ClientViewsController));
+router.get('/reports/export-all', requirePermission('view_maintenance'), ClientViewsController.exportAllReports.bind(ClientViewsController));
+router.get('/reports/:id/export', requirePermission('view_maintenance'), ClientViewsController.exportSingleReport.bind(ClientViewsController));
 
 export default router;
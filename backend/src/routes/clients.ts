@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { ClientController } from '../controllers/ClientController';
 import { ClientRepository } from '../models/ClientRepository';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 import { pool } from '../config/database';
 
 const router = Router();
@@ -18,7 +18,7 @@ router.use(authenticateToken);
  * @desc    Get KPI data for vendor's clients (Total, Active, Compliance)
  * @access  Vendor only
  */
-router.get('/kpis', clientController.getClientKPIs);
+router.get('/kpis', requirePermission('view_clients'), clientController.getClientKPIs);
 
 /**
  * @route   GET /api/vendor/clients
@@ -26,28 +26,35 @@ router.get('/kpis', clientController.getClientKPIs);
  * @access  Vendor only
  * @query   status, search, page, limit
  */
-router.get('/', clientController.getClientList);
+router.get('/', requirePermission('view_clients'), clientController.getClientList);
+
+/**
+ * @route   GET /api/vendor/clients/export
+ * @desc    Download the vendor's clients as CSV with equipment and compliance counts
+ * @access  Vendor only
+ */
+router.get('/export', requirePermission('view_clients'), clientController.exportClients);
 
 /**
  * @route   GET /api/vendor/clients/:id
  * @desc    Get detailed information for a specific client
  * @access  Vendor only (own clients)
  */
-router.get('/:id', clientController.getClientDetails);
+router.get('/:id', requirePermission('view_clients'), clientController.getClientDetails);
 
 /**
  * @route   GET /api/vendor/clients/:id/equipment
  * @desc    Get equipment assigned to a specific client
  * @access  Vendor only (own clients)
  */
-router.get('/:id/equipment', clientController.getClientEquipment);
+router.get('/:id/equipment', requirePermission('view_clients'), clientController.getClientEquipment);
 
 /**
  * @route   GET /api/vendor/clients/:id/maintenance
  * @desc    Get maintenance history for a specific client
  * @access  Vendor only (own clients)
  */
-router.get('/:id/maintenance', clientController.getClientMaintenanceHistory);
+router.get('/:id/maintenance', requirePermission('view_clients'), clientController.getClientMaintenanceHistory);
 
 /**
  * @route   POST /api/vendor/clients
@@ -55,7 +62,18 @@ router.get('/:id/maintenance', clientController.getClientMaintenanceHistory);
  * @access  Vendor only
  * @body    first_name, last_name, email, password, phone, company_name, business_type, primary_phone, street_address, city, zip_code
  */
-router.post('/', clientController.createClient);
+router.post('/', requirePermission('manage_clients'), clientController.createClient);
+
+/**
+ * @route   POST /api/vendor/clients/import
+ * @desc    Bulk create clients from CSV. Validates every row first and creates all
+ *          clients in one transaction, or none if any row has errors.
+ * @access  Vendor only
+ * @body    csv - CSV contents with columns company_name, business_type, first_name, last_name,
+ *                email, phone, primary_phone, street_address, city, zip_code, country
+ * @body    dry_run - Only validate and return the per-row report (default: true)
+ */
+router.post('/import', requirePermission('manage_clients'), clientController.importClients);
 
 /**
  * @route   PUT /api/vendor/clients/:id
@@ -63,13 +81,13 @@ router.post('/', clientController.createClient);
  * @access  Vendor only (own clients)
  * @body    Optional fields to update
  */
-router.put('/:id', clientController.updateClient);
+router.put('/:id', requirePermission('manage_clients'), clientController.updateClient);
 
 /**
  * @route   DELETE /api/vendor/clients/:id
  * @desc    Soft delete a client
  * @access  Vendor only (own clients)
  */
-router.delete('/:id', clientController.deleteClient);
+router.delete('/:id', requirePermission('manage_clients'), clientController.deleteClient);
 
 export default router;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import EmailTestController from '../controllers/EmailTestController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -29,18 +29,25 @@ router.get('/logs', EmailTestController.getEmailLogs);
 router.get('/stats', EmailTestController.getEmailStats);
 
 /**
- * @route   POST /api/email/trigger/maintenance-reminders
- * @desc    Manually trigger maintenance reminder emails
- * @access  Private (Admin/Vendor)
+ * @route   POST /api/email/trigger/compliance-digest
+ * @desc    Send the compliance digest to every client and vendor now
+ * @access  Private (Admin)
  */
-router.post('/trigger/maintenance-reminders', EmailTestController.triggerMaintenanceReminders);
+router.post('/trigger/compliance-digest', requirePermission('manage_system_settings'), EmailTestController.triggerComplianceDigest);
 
 /**
- * @route   POST /api/email/trigger/expiration-alerts
- * @desc    Manually trigger expiration alert emails
- * @access  Private (Admin/Vendor)
+ * @route   GET /api/email/digest-settings
+ * @desc    Get the compliance digest schedule
+ * @access  Private (Admin)
+ */
+router.get('/digest-settings', requirePermission('manage_system_settings'), EmailTestController.getDigestSettings);
+
+/**
+ * @route   PUT /api/email/digest-settings
+ * @desc    Update the compliance digest schedule
+ * @access  Private (Admin)
  */
-router.post('/trigger/expiration-alerts', EmailTestController.triggerExpirationAlerts);
+router.put('/digest-settings', requirePermission('manage_system_settings'), EmailTestController.updateDigestSettings);
 
 /**
  * @route   GET /api/email/verify
@@ -1,6 +1,6 @@
 import express from 'express';
 import { EquipmentController } from '../controllers/EquipmentController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const router = express.Router();
 const equipmentController = new EquipmentController();
@@ -23,14 +23,14 @@ router.use(authenticateToken);
  * @query compliance_status - Filter by compliance (compliant, non-compliant, expired)
  * @query search - Search by serial number, location, or notes
  */
-router.get('/', equipmentController.getEquipmentList);
+router.get('/', requirePermission('view_equipment'), equipmentController.getEquipmentList);
 
 /**
  * @route GET /api/equipment/types
  * @desc Get equipment types for dropdown
  * @access Vendor
  */
-router.get('/types', equipmentController.getEquipmentTypes);
+router.get('/types', requirePermission('view_equipment'), equipmentController.getEquipmentTypes);
 
 /**
  * @route POST /api/equipment/types
@@ -48,7 +48,7 @@ router.get('/types', equipmentController.getEquipmentTypes);
  * @body warranty_years - Warranty period
  * @body default_lifespan_years - Default lifespan
  */
-router.post('/types', equipmentController.createEquipmentType);
+router.post('/types', requirePermission('manage_equipment'), equipmentController.createEquipmentType);
 
 /**
  * @route PUT /api/equipment/types/:id
@@ -65,21 +65,30 @@ router.post('/types', equipmentController.createEquipmentType);
  * @body default_lifespan_years - Default lifespan
  * @note equipment_code and equipment_type cannot be modified
  */
-router.put('/types/:id', equipmentController.updateEquipmentType);
+router.put('/types/:id', requirePermission('manage_equipment'), equipmentController.updateEquipmentType);
+
+/**
+ * @route GET /api/equipment/types/:id/labels
+ * @desc Download a printable PDF of QR asset labels for an equipment type's instances
+ * @access Vendor
+ * @param id - Equipment type ID
+ * @query instance_ids - Optional comma-separated instance IDs to limit the sheet
+ */
+router.get('/types/:id/labels', requirePermission('view_equipment'), equipmentController.getAssetLabels);
 
 /**
  * @route GET /api/equipment/stats
  * @desc Get aggregated equipment statistics for management page
  * @access Vendor/Admin
  */
-router.get('/stats', equipmentController.getEquipmentStats);
+router.get('/stats', requirePermission('view_equipment'), equipmentController.getEquipmentStats);
 
 /**
  * @route GET /api/equipment/clients
  * @desc Get clients for assignment modal
  * @access Vendor
  */
-router.get('/clients', equipmentController.getClientsForAssignment);
+router.get('/clients', requirePermission('assign_equipment'), equipmentController.getClientsForAssignment);
 
 /**
  * @route POST /api/equipment/assign
@@ -90,14 +99,14 @@ router.get('/clients', equipmentController.getClientsForAssignment);
  * @body assignment_date - Assignment date
  * @body notes - Assignment notes (optional)
  */
-router.post('/assign', equipmentController.bulkAssignEquipment);
+router.post('/assign', requirePermission('assign_equipment'), equipmentController.bulkAssignEquipment);
 
 /**
  * @route DELETE /api/equipment/:id/remove-assignment
  * @desc Remove equipment assignment from client
  * @access Vendor
  */
-router.delete('/:id/remove-assignment', equipmentController.removeEquipmentAssignment);
+router.delete('/:id/remove-assignment', requirePermission('assign_equipment'), equipmentController.removeEquipmentAssignment);
 
 /**
  * @route POST /api/equipment
@@ -111,7 +120,19 @@ router.delete('/:id/remove-assignment', equipmentController.removeEquipmentAssig
  * @body location - Equipment location (optional)
  * @body notes - Additional notes (optional)
  */
-router.post('/', equipmentController.addEquipmentInstance);
+router.post('/', requirePermission('manage_equipment'), equipmentController.addEquipmentInstance);
+
+/**
+ * @route POST /api/equipment/import
+ * @desc Bulk import equipment instances from CSV. Validates every row first and
+ *       imports all rows in one transaction, or none if any row has errors.
+ * @access Vendor
+ * @body csv - CSV contents with columns equipment_code, serial_number, purchase_date
+ *             and optionally asset_tag, warranty_expiry, expiry_date,
+ *             maintenance_interval_days, location, notes
+ * @body dry_run - Only validate and return the per-row report (default: true)
+ */
+router.post('/import', requirePermission('manage_equipment'), equipmentController.importEquipmentInstances);
 
 /**
  * @route GET /api/equipment/instances/:equipmentTypeId
@@ -124,7 +145,7 @@ router.post('/', equipmentController.addEquipmentInstance);
  * @query compliance_status - Filter by compliance status
  * @query search - Search term
  */
-router.get('/instances/:equipmentTypeId', equipmentController.getEquipmentInstancesWithMaintenance);
+router.get('/instances/:equipmentTypeId', requirePermission('view_equipment'), equipmentController.getEquipmentInstancesWithMaintenance);
 
 /**
  * @route GET /api/equipment/:id
@@ -132,7 +153,7 @@ router.get('/instances/:equipmentTypeId', equipmentController.getEquipmentInstan
  * @access Vendor/Admin
  * @param id - Equipment type ID
  */
-router.get('/:id', equipmentController.getEquipmentDetails);
+router.get('/:id', requirePermission('view_equipment'), equipmentController.getEquipmentDetails);
 
 /**
  * @route PUT /api/equipment/:id
@@ -144,7 +165,7 @@ router.get('/:id', equipmentController.getEquipmentDetails);
  * @body location - Equipment location (optional)
  * @body notes - Additional notes (optional)
  */
-router.put('/:id', equipmentController.updateEquipmentInstance);
+router.put('/:id', requirePermission('manage_equipment'), equipmentController.updateEquipmentInstance);
 
 /**
  * @route DELETE /api/equipment/:id
@@ -152,7 +173,7 @@ router.put('/:id', equipmentController.updateEquipmentInstance);
  * @access Vendor
  * @param id - Equipment instance ID
  */
-router.delete('/:id', equipmentController.deleteEquipmentInstance);
+router.delete('/:id', requirePermission('manage_equipment'), equipmentController.deleteEquipmentInstance);
 
 /**
  * @route GET /api/equipment/:id/related
@@ -160,7 +181,7 @@ router.delete('/:id', equipmentController.deleteEquipmentInstance);
  * @access Vendor
  * @param id - Equipment instance ID
  */
-router.get('/:id/related', equipmentController.getRelatedEquipment);
+router.get('/:id/related', requirePermission('view_equipment'), equipmentController.getRelatedEquipment);
 
 /**
  * @route GET /api/equipment/:id/assignments
@@ -168,7 +189,7 @@ router.get('/:id/related', equipmentController.getRelatedEquipment);
  * @access Vendor
  * @param id - Equipment instance ID
  */
-router.get('/:id/assignments', equipmentController.getAssignmentHistory);
+router.get('/:id/assignments', requirePermission('view_equipment'), equipmentController.getAssignmentHistory);
 
 /**
  * @route GET /api/equipment/:id/maintenance
@@ -176,7 +197,7 @@ router.get('/:id/assignments', equipmentController.getAssignmentHistory);
  * @access Vendor
  * @param id - Equipment instance ID
  */
-router.get('/:id/maintenance', equipmentController.getMaintenanceHistory);
+router.get('/:id/maintenance', requirePermission('view_equipment'), equipmentController.getMaintenanceHistory);
 
 /**
  * @route POST /api/equipment/:id/assign
@@ -187,6 +208,6 @@ router.get('/:id/maintenance', equipmentController.getMaintenanceHistory);
  * @body unit_cost - Unit cost for assignment
  * @body total_cost - Total cost for assignment
  */
-router.post('/:id/assign', equipmentController.assignEquipment);
+router.post('/:id/assign', requirePermission('assign_equipment'), equipmentController.assignEquipment);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { EquipmentLifecycleController } from '../controllers/EquipmentLifecycleController';
+import { authenticateToken, requireRole, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const equipmentLifecycleController = new EquipmentLifecycleController();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const validateInstanceId = param('instanceId').isInt({ min: 1 }).withMessage('Invalid equipment instance ID');
+
+/**
+ * @route   GET /api/equipment-lifecycle/:instanceId
+ * @desc    Lifecycle timeline of an equipment instance, oldest event first.
+ *          Clients only see events from while they held the unit.
+ * @access  Vendor, Client
+ */
+router.get('/:instanceId',
+  requireRole(['vendor', 'client']),
+  requirePermission('view_equipment'),
+  validateInstanceId,
+  equipmentLifecycleController.getTimeline
+);
+
+/**
+ * @route   GET /api/equipment-lifecycle/:instanceId/export
+ * @desc    Download the timeline, e.g. for an insurer
+ * @access  Vendor, Client
+ * @query   format? - pdf (default) or csv
+ */
+router.get('/:instanceId/export',
+  requireRole(['vendor', 'client']),
+  requirePermission('view_equipment'),
+  [
+    validateInstanceId,
+    query('format').optional().isIn(['pdf', 'csv']).withMessage('Format must be pdf or csv')
+  ],
+  equipmentLifecycleController.exportTimeline
+);
+
+export default router;
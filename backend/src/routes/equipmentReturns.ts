@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { EquipmentReturnController } from '../controllers/EquipmentReturnController';
+import { authenticateToken, requireRole, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const equipmentReturnController = new EquipmentReturnController();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const validateId = param('id').isInt({ min: 1 }).withMessage('Invalid return request ID');
+const validateNotes = body('notes').optional({ values: 'null' }).isString().isLength({ max: 2000 }).withMessage('Notes must be at most 2000 characters');
+
+/**
+ * @route   GET /api/equipment-returns
+ * @desc    List return and swap requests: a client's own, or those sent to a vendor
+ * @access  Vendor, Client
+ * @query   status? - pending, approved, rejected or completed
+ */
+router.get('/',
+  requireRole(['vendor', 'client']),
+  query('status').optional().isIn(['pending', 'approved', 'rejected', 'completed']).withMessage('Invalid status'),
+  equipmentReturnController.getReturns
+);
+
+/**
+ * @route   GET /api/equipment-returns/:id
+ * @desc    Get a request with its units and any replacements
+ * @access  Vendor, Client
+ */
+router.get('/:id', requireRole(['vendor', 'client']), validateId, equipmentReturnController.getReturn);
+
+/**
+ * @route   POST /api/equipment-returns
+ * @desc    Ask for assigned units to be returned, or swapped for replacements
+ * @access  Client only
+ * @body    request_type ('return' | 'swap'), instance_ids[], reason
+ */
+router.post('/',
+  requireRole(['client']),
+  [
+    body('request_type').isIn(['return', 'swap']).withMessage('Request type must be return or swap'),
+    body('instance_ids').isArray({ min: 1, max: 100 }).withMessage('Choose at least one unit'),
+    body('instance_ids.*').isInt({ min: 1 }).withMessage('Invalid equipment instance ID').toInt(),
+    body('reason').isString().trim().isLength({ min: 1, max: 2000 }).withMessage('Please give a reason')
+  ],
+  equipmentReturnController.createReturn
+);
+
+/**
+ * @route   PUT /api/equipment-returns/:id/approve
+ * @desc    Approve a pending request
+ * @access  Vendor only
+ * @body    notes?
+ */
+router.put('/:id/approve',
+  requireRole(['vendor']),
+  requirePermission('assign_equipment'),
+  [validateId, validateNotes],
+  equipmentReturnController.approveReturn
+);
+
+/**
+ * @route   PUT /api/equipment-returns/:id/reject
+ * @desc    Reject a pending request; the notes are shown to the client
+ * @access  Vendor only
+ * @body    notes
+ */
+router.put('/:id/reject',
+  requireRole(['vendor']),
+  requirePermission('assign_equipment'),
+  [
+    validateId,
+    body('notes').isString().trim().isLength({ min: 1, max: 2000 }).withMessage('Please say why the request is rejected')
+  ],
+  equipmentReturnController.rejectReturn
+);
+
+/**
+ * @route   POST /api/equipment-returns/:id/complete
+ * @desc    Complete an approved request. Returned units go back to stock or are
+ *          retired; for swaps each unit's replacement is assigned in its place.
+ * @access  Vendor only
+ * @body    items[] ({ equipment_instance_id, disposition?: 'returned' | 'retired',
+ *          replacement_instance_id? }), notes?
+ */
+router.post('/:id/complete',
+  requireRole(['vendor']),
+  requirePermission('assign_equipment'),
+  [
+    validateId,
+    body('items').optional().isArray({ max: 100 }),
+    body('items.*.equipment_instance_id').isInt({ min: 1 }).withMessage('Invalid equipment instance ID').toInt(),
+    body('items.*.disposition').optional().isIn(['returned', 'retired']).withMessage('Disposition must be returned or retired'),
+    body('items.*.replacement_instance_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Invalid replacement ID').toInt(),
+    validateNotes
+  ],
+  equipmentReturnController.completeReturn
+);
+
+export default router;
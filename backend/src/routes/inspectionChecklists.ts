@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { InspectionChecklistController } from '../controllers/InspectionChecklistController';
+import { authenticateToken, requireRole, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const checklistController = new InspectionChecklistController();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+router.use(requireRole(['vendor']));
+
+const validateChecklistId = param('id').isInt({ min: 1 }).withMessage('Invalid checklist ID');
+
+const validateItems = [
+  body('items.*.id').optional().isInt({ min: 1 }).withMessage('Invalid checklist item ID'),
+  body('items.*.item_text').trim().isLength({ min: 1, max: 500 }).withMessage('Checklist item text must be between 1 and 500 characters')
+];
+
+/**
+ * @route   GET /api/vendor/checklists
+ * @desc    Get the vendor's inspection checklists with their items
+ * @access  Vendor only
+ */
+router.get('/', requirePermission('view_maintenance'), checklistController.getChecklists);
+
+/**
+ * @route   GET /api/vendor/checklists/equipment-types
+ * @desc    Get equipment types from the vendor's catalogue
+ * @access  Vendor only
+ */
+router.get('/equipment-types', requirePermission('view_maintenance'), checklistController.getEquipmentTypes);
+
+/**
+ * @route   GET /api/vendor/checklists/:id
+ * @desc    Get checklist details
+ * @access  Vendor only
+ */
+router.get('/:id', requirePermission('view_maintenance'), validateChecklistId, checklistController.getChecklistById);
+
+/**
+ * @route   POST /api/vendor/checklists
+ * @desc    Create an inspection checklist for an equipment type
+ * @access  Vendor only
+ * @body    equipment_type, checklist_name, items[{ item_text }]
+ */
+router.post('/',
+  requirePermission('manage_maintenance'),
+  [
+    body('equipment_type').trim().isLength({ min: 1, max: 100 }).withMessage('Equipment type is required'),
+    body('checklist_name').trim().isLength({ min: 1, max: 200 }).withMessage('Checklist name is required'),
+    body('items').isArray({ min: 1 }).withMessage('At least one checklist item is required'),
+    ...validateItems
+  ],
+  checklistController.createChecklist
+);
+
+/**
+ * @route   PUT /api/vendor/checklists/:id
+ * @desc    Update a checklist; items replace the current list
+ * @access  Vendor only
+ * @body    checklist_name?, is_active?, items?[{ id?, item_text }]
+ */
+router.put('/:id',
+  requirePermission('manage_maintenance'),
+  [
+    validateChecklistId,
+    body('checklist_name').optional().trim().isLength({ min: 1, max: 200 }).withMessage('Checklist name must be between 1 and 200 characters'),
+    body('is_active').optional().isBoolean().withMessage('is_active must be a boolean'),
+    body('items').optional().isArray({ min: 1 }).withMessage('At least one checklist item is required'),
+    ...validateItems
+  ],
+  checklistController.updateChecklist
+);
+
+/**
+ * @route   DELETE /api/vendor/checklists/:id
+ * @desc    Delete a checklist (recorded results are kept)
+ * @access  Vendor only
+ */
+router.delete('/:id', requirePermission('manage_maintenance'), validateChecklistId, checklistController.deleteChecklist);
+
+export default router;
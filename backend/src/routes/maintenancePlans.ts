@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { MaintenancePlanController } from '../controllers/MaintenancePlanController';
+import { authenticateToken, requireRole, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const maintenancePlanController = new MaintenancePlanController();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+router.use(requireRole(['vendor']));
+
+const validateId = param('id').isInt({ min: 1 }).withMessage('Invalid ID');
+
+const validateScheduleFields = [
+  body('interval_months').optional().isInt({ min: 1, max: 240 }).withMessage('Interval must be between 1 and 240 months'),
+  body('lead_days').optional().isInt({ min: 0, max: 90 }).withMessage('Lead time must be between 0 and 90 days'),
+  body('is_active').optional().isBoolean().withMessage('is_active must be a boolean')
+];
+
+/**
+ * @route   GET /api/vendor/maintenance-plans/equipment-types/:id
+ * @desc    Get an equipment type's schedules and the upcoming due dates of its instances
+ * @access  Vendor only
+ * @query   months - How far ahead to include due dates (default: 12)
+ */
+router.get('/equipment-types/:id', requirePermission('view_maintenance'), validateId, maintenancePlanController.getEquipmentPlan);
+
+/**
+ * @route   GET /api/vendor/maintenance-plans/equipment-instances/:id
+ * @desc    Get an instance's own schedules and the status of every schedule that applies to it
+ * @access  Vendor only
+ */
+router.get('/equipment-instances/:id', requirePermission('view_maintenance'), validateId, maintenancePlanController.getInstancePlan);
+
+/**
+ * @route   POST /api/vendor/maintenance-plans
+ * @desc    Add a recurring schedule to an equipment type or a single instance.
+ *          An instance schedule replaces the type schedule with the same category.
+ * @access  Vendor only
+ * @body    equipment_id | equipment_instance_id, schedule_name, category, interval_months, lead_days?, is_active?
+ */
+router.post('/',
+  requirePermission('manage_maintenance'),
+  [
+    body('equipment_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Invalid equipment ID'),
+    body('equipment_instance_id').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Invalid equipment instance ID'),
+    body('schedule_name').trim().isLength({ min: 1, max: 200 }).withMessage('Schedule name is required'),
+    body('category').trim().isLength({ min: 1, max: 100 }).withMessage('Ticket category is required'),
+    body('interval_months').exists().withMessage('Interval is required'),
+    ...validateScheduleFields
+  ],
+  maintenancePlanController.createSchedule
+);
+
+/**
+ * @route   PUT /api/vendor/maintenance-plans/:id
+ * @desc    Update a schedule (the category cannot be changed)
+ * @access  Vendor only
+ * @body    schedule_name?, interval_months?, lead_days?, is_active?
+ */
+router.put('/:id',
+  requirePermission('manage_maintenance'),
+  [
+    validateId,
+    body('schedule_name').optional().trim().isLength({ min: 1, max: 200 }).withMessage('Schedule name must be between 1 and 200 characters'),
+    ...validateScheduleFields
+  ],
+  maintenancePlanController.updateSchedule
+);
+
+/**
+ * @route   DELETE /api/vendor/maintenance-plans/:id
+ * @desc    Delete a schedule (tickets it raised are kept)
+ * @access  Vendor only
+ */
+router.delete('/:id', requirePermission('manage_maintenance'), validateId, maintenancePlanController.deleteSchedule);
+
+export default router;
@@ -1,9 +1,11 @@
 import { Router } from 'express';
-import { authenticateToken, requireVendorOrAdmin } from '../middleware/auth';
+import { authenticateToken, requireVendorOrAdmin, requirePermission } from '../middleware/auth';
 import MaintenanceTicketController from '../controllers/MaintenanceTicketController';
+import { CalendarFeedController } from '../controllers/CalendarFeedController';
 import { body, param, query } from 'express-validator';
 
 const router = Router();
+const calendarFeedController = new CalendarFeedController();
 
 // Apply auth middleware to all routes
 router.use(authenticateToken);
@@ -54,6 +56,10 @@ const validateCreateTicket = [
     .optional()
     .isISO8601()
     .withMessage('Scheduled date must be a valid ISO 8601 date'),
+  body('estimated_hours')
+    .optional({ values: 'falsy' })
+    .isFloat({ min: 0.25, max: 999.99 })
+    .withMessage('Estimated hours must be between 0.25 and 999.99'),
   body('assigned_technician')
     .optional()
     .isInt({ min: 1 })
@@ -78,8 +84,12 @@ const validateUpdateTicket = [
     .optional()
     .isISO8601()
     .withMessage('Scheduled date must be a valid ISO 8601 date'),
+  body('estimated_hours')
+    .optional({ values: 'falsy' })
+    .isFloat({ min: 0.25, max: 999.99 })
+    .withMessage('Estimated hours must be between 0.25 and 999.99'),
   body('assigned_technician')
-    .optional()
+    .optional({ values: 'null' })
     .isInt({ min: 1 })
     .withMessage('Assigned technician must be a positive integer')
 ];
@@ -96,7 +106,27 @@ const validateResolveTicket = [
   body('cost')
     .optional()
     .isFloat({ min: 0, max: 999999.99 })
-    .withMessage('Cost must be between 0 and 999999.99')
+    .withMessage('Cost must be between 0 and 999999.99'),
+  body('checklist_results')
+    .optional()
+    .isArray()
+    .withMessage('Checklist results must be an array'),
+  body('checklist_results.*.checklist_item_id')
+    .isInt({ min: 1 })
+    .withMessage('Checklist item ID must be a positive integer'),
+  body('checklist_results.*.result')
+    .isIn(['pass', 'fail', 'na'])
+    .withMessage('Checklist result must be one of: pass, fail, na'),
+  body('parts')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Parts must be an array'),
+  body('parts.*.part_id')
+    .isInt({ min: 1 })
+    .withMessage('Part ID must be a positive integer'),
+  body('parts.*.quantity')
+    .isFloat({ gt: 0, max: 99999 })
+    .withMessage('Part quantity must be greater than zero')
 ];
 
 const validateTicketFilters = [
@@ -127,47 +157,90 @@ const validateTicketFilters = [
     .withMessage('Offset must be non-negative')
 ];
 
+const validateCalendarRange = [
+  query('start')
+    .isISO8601()
+    .withMessage('Start must be a valid ISO 8601 date'),
+  query('end')
+    .isISO8601()
+    .withMessage('End must be a valid ISO 8601 date'),
+  query('technician_id')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Technician ID must be a positive integer'),
+  query('include_unscheduled')
+    .optional()
+    .isBoolean()
+    .withMessage('include_unscheduled must be a boolean')
+];
+
+const validateFeedTechnician = [
+  query('technician_id')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Technician ID must be a positive integer'),
+  body('technician_id')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Technician ID must be a positive integer')
+];
+
 /**
  * Routes
  */
 
 // GET /api/vendor/tickets/kpis - Get KPI data for dashboard
-router.get('/kpis', MaintenanceTicketController.getTicketKPIs);
+router.get('/kpis', requirePermission('view_maintenance'), MaintenanceTicketController.getTicketKPIs);
 
 // GET /api/vendor/tickets/clients - Get clients for dropdown
-router.get('/clients', MaintenanceTicketController.getClientsForDropdown);
+router.get('/clients', requirePermission('view_maintenance'), MaintenanceTicketController.getClientsForDropdown);
 
 // GET /api/vendor/tickets/equipment - Get equipment for dropdown
-router.get('/equipment', MaintenanceTicketController.getEquipmentForDropdown);
+router.get('/equipment', requirePermission('view_maintenance'), MaintenanceTicketController.getEquipmentForDropdown);
 
 // GET /api/vendor/tickets/equipment/:clientId - Get equipment for specific client
-router.get('/equipment/:clientId', param('clientId').isInt({ min: 1 }), MaintenanceTicketController.getEquipmentForClient);
+router.get('/equipment/:clientId', requirePermission('view_maintenance'), param('clientId').isInt({ min: 1 }), MaintenanceTicketController.getEquipmentForClient);
 
 // GET /api/vendor/tickets/technicians - Get technicians for dropdown
-router.get('/technicians', MaintenanceTicketController.getTechniciansForDropdown);
+router.get('/technicians', requirePermission('view_maintenance'), MaintenanceTicketController.getTechniciansForDropdown);
+
+// GET /api/vendor/tickets/calendar - Get tickets scheduled in a date range with workload warnings
+router.get('/calendar', requirePermission('view_maintenance'), validateCalendarRange, MaintenanceTicketController.getCalendarTickets);
+
+// GET /api/vendor/tickets/calendar/feed - Get the ICS subscription URL (vendor-wide or ?technician_id=)
+router.get('/calendar/feed', requirePermission('view_maintenance'), validateFeedTechnician, calendarFeedController.getVendorFeed);
+
+// POST /api/vendor/tickets/calendar/feed/rotate - Regenerate an ICS subscription URL
+router.post('/calendar/feed/rotate', requirePermission('manage_maintenance'), validateFeedTechnician, calendarFeedController.rotateVendorFeed);
 
 // GET /api/vendor/tickets - Get paginated ticket list with filters
-router.get('/', validateTicketFilters, MaintenanceTicketController.getTickets);
+router.get('/', requirePermission('view_maintenance'), validateTicketFilters, MaintenanceTicketController.getTickets);
 
 // POST /api/vendor/tickets - Create new ticket
-router.post('/', validateCreateTicket, MaintenanceTicketController.createTicket);
+router.post('/', requirePermission('manage_maintenance'), validateCreateTicket, MaintenanceTicketController.createTicket);
 
 // GET /api/vendor/tickets/:id - Get ticket details
-router.get('/:id', validateTicketId, MaintenanceTicketController.getTicketDetails);
+router.get('/:id', requirePermission('view_maintenance'), validateTicketId, MaintenanceTicketController.getTicketDetails);
 
 // GET /api/vendor/tickets/:id/related - Get related tickets
-router.get('/:id/related', validateTicketId, MaintenanceTicketController.getRelatedTickets);
+router.get('/:id/related', requirePermission('view_maintenance'), validateTicketId, MaintenanceTicketController.getRelatedTickets);
+
+// GET /api/vendor/tickets/:id/checklist - Get inspection checklist and recorded results
+router.get('/:id/checklist', requirePermission('view_maintenance'), validateTicketId, MaintenanceTicketController.getTicketChecklist);
+
+// GET /api/vendor/tickets/:id/parts - Get the parts used on the ticket
+router.get('/:id/parts', requirePermission('view_maintenance'), validateTicketId, MaintenanceTicketController.getTicketParts);
 
 // PUT /api/vendor/tickets/:id - Update ticket
-router.put('/:id', validateTicketId, validateUpdateTicket, MaintenanceTicketController.updateTicket);
+router.put('/:id', requirePermission('manage_maintenance'), validateTicketId, validateUpdateTicket, MaintenanceTicketController.updateTicket);
 
 // PUT /api/vendor/tickets/:id/resolve - Resolve ticket
-router.put('/:id/resolve', validateTicketIdOrNumber, validateResolveTicket, MaintenanceTicketController.resolveTicket);
+router.put('/:id/resolve', requirePermission('manage_maintenance'), validateTicketIdOrNumber, validateResolveTicket, MaintenanceTicketController.resolveTicket);
 
 // PUT /api/vendor/tickets/:id/close - Close ticket
-router.put('/:id/close', validateTicketId, MaintenanceTicketController.closeTicket);
+router.put('/:id/close', requirePermission('manage_maintenance'), validateTicketId, MaintenanceTicketController.closeTicket);
 
 // DELETE /api/vendor/tickets/:id - Delete ticket (disabled for safety)
-router.delete('/:id', validateTicketId, MaintenanceTicketController.deleteTicket);
+router.delete('/:id', requirePermission('manage_maintenance'), validateTicketId, MaintenanceTicketController.deleteTicket);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { MessageQueueController } from '../controllers/MessageQueueController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const messageQueueController = new MessageQueueController();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+router.use(requirePermission('manage_system_settings'));
+
+const validateId = param('id').isInt({ min: 1 }).withMessage('Invalid message ID');
+
+/**
+ * @route   GET /api/message-queue
+ * @desc    List queued emails and SMS, newest first
+ * @access  Admin (manage_system_settings)
+ * @query   status?, channel?, search?, page?, limit?
+ */
+router.get('/',
+  [
+    query('status').optional().isIn(['pending', 'processing', 'sent', 'skipped', 'dead', 'cancelled']).withMessage('Invalid status'),
+    query('channel').optional().isIn(['email', 'sms']).withMessage('Invalid channel'),
+    query('page').optional().isInt({ min: 1 }).withMessage('Invalid page'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+  ],
+  messageQueueController.getMessages
+);
+
+/**
+ * @route   GET /api/message-queue/stats
+ * @desc    Message counts by channel and status
+ * @access  Admin (manage_system_settings)
+ */
+router.get('/stats', messageQueueController.getStats);
+
+/**
+ * @route   GET /api/message-queue/:id
+ * @desc    Get a message with its payload and last error
+ * @access  Admin (manage_system_settings)
+ */
+router.get('/:id', validateId, messageQueueController.getMessage);
+
+/**
+ * @route   POST /api/message-queue/:id/retry
+ * @desc    Queue a dead, skipped or cancelled message again with fresh attempts
+ * @access  Admin (manage_system_settings)
+ */
+router.post('/:id/retry', validateId, messageQueueController.retryMessage);
+
+/**
+ * @route   POST /api/message-queue/:id/cancel
+ * @desc    Stop a pending or dead message from being delivered
+ * @access  Admin (manage_system_settings)
+ */
+router.post('/:id/cancel', validateId, messageQueueController.cancelMessage);
+
+export default router;
@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { MessageTemplateController } from '../controllers/MessageTemplateController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const messageTemplateController = new MessageTemplateController();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+router.use(requirePermission('manage_system_settings'));
+
+const validateTemplateParams = [
+  param('channel').isIn(['email', 'sms']).withMessage('Channel must be email or sms'),
+  param('templateType').matches(/^[A-Za-z0-9_]+$/).withMessage('Invalid template type')
+];
+const validateQueryVendor = query('vendorId').optional().isInt({ min: 1 }).withMessage('Invalid vendor ID');
+const validateBodyVendor = body('vendorId').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Invalid vendor ID');
+
+/**
+ * @route   GET /api/message-templates
+ * @desc    List email and SMS template types with their saved overrides
+ * @access  Admin (manage_system_settings)
+ */
+router.get('/', messageTemplateController.getTemplates);
+
+/**
+ * @route   GET /api/message-templates/:channel/:templateType
+ * @desc    Get a template's variables, built-in version, override and history
+ * @access  Admin (manage_system_settings)
+ * @query   vendorId? - the vendor's override instead of the system-wide one
+ */
+router.get('/:channel/:templateType',
+  [...validateTemplateParams, validateQueryVendor],
+  messageTemplateController.getTemplate
+);
+
+/**
+ * @route   PUT /api/message-templates/:channel/:templateType
+ * @desc    Save an edited template as a new version
+ * @access  Admin (manage_system_settings)
+ * @body    body, subject? (email only), vendorId?, changeNote?
+ */
+router.put('/:channel/:templateType',
+  [
+    ...validateTemplateParams,
+    validateBodyVendor,
+    body('body').isString().notEmpty().withMessage('Template body is required'),
+    body('subject').optional({ values: 'null' }).isString().isLength({ max: 255 }).withMessage('Subject must be at most 255 characters'),
+    body('changeNote').optional({ values: 'null' }).isString().isLength({ max: 255 }).withMessage('Change note must be at most 255 characters')
+  ],
+  messageTemplateController.saveTemplate
+);
+
+/**
+ * @route   POST /api/message-templates/:channel/:templateType/preview
+ * @desc    Render a draft, or the saved template, with sample data
+ * @access  Admin (manage_system_settings)
+ * @body    body?, subject?, vendorId?
+ */
+router.post('/:channel/:templateType/preview',
+  [...validateTemplateParams, validateBodyVendor],
+  messageTemplateController.previewTemplate
+);
+
+/**
+ * @route   POST /api/message-templates/:channel/:templateType/rollback
+ * @desc    Restore an earlier version of a template
+ * @access  Admin (manage_system_settings)
+ * @body    version, vendorId?
+ */
+router.post('/:channel/:templateType/rollback',
+  [
+    ...validateTemplateParams,
+    validateBodyVendor,
+    body('version').isInt({ min: 1 }).withMessage('Version is required')
+  ],
+  messageTemplateController.rollbackTemplate
+);
+
+/**
+ * @route   DELETE /api/message-templates/:channel/:templateType
+ * @desc    Remove an override and go back to the built-in template
+ * @access  Admin (manage_system_settings)
+ * @query   vendorId?
+ */
+router.delete('/:channel/:templateType',
+  [...validateTemplateParams, validateQueryVendor],
+  messageTemplateController.resetTemplate
+);
+
+export default router;
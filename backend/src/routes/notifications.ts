@@ -10,6 +10,9 @@ router.use(authenticateToken);
 // Get user notifications with pagination and filtering
 router.get('/', NotificationController.getUserNotifications);
 
+// Live stream of new notifications (server-sent events)
+router.get('/stream', NotificationController.streamNotifications);
+
 // Get notification KPIs (unread count, etc.)
 router.get('/kpis', NotificationController.getNotificationKPIs);
 
@@ -0,0 +1,104 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { PartsController } from '../controllers/PartsController';
+import { PART_CATEGORIES } from '../models/PartsRepository';
+import { authenticateToken, requireRole, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const partsController = new PartsController();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const validateId = param('id').isInt({ min: 1 }).withMessage('Invalid part ID');
+const categoryMessage = `Category must be one of: ${PART_CATEGORIES.join(', ')}`;
+
+const validatePartFields = (optional: boolean) => {
+  const field = (name: string) => optional ? body(name).optional() : body(name);
+  return [
+    field('part_number').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Part number is required'),
+    field('part_name').isString().trim().isLength({ min: 1, max: 255 }).withMessage('Part name is required'),
+    body('category').optional().isIn(PART_CATEGORIES).withMessage(categoryMessage),
+    body('unit').optional().isString().trim().isLength({ min: 1, max: 20 }).withMessage('Unit must be at most 20 characters'),
+    body('unit_cost').optional().isFloat({ min: 0, max: 99999999 }).withMessage('Unit cost must be zero or more').toFloat(),
+    body('reorder_level').optional().isFloat({ min: 0, max: 99999999 }).withMessage('Reorder level must be zero or more').toFloat()
+  ];
+};
+
+/**
+ * @route   GET /api/parts
+ * @desc    List the parts catalog with stock on hand
+ * @access  Vendor, Technician (active parts of their vendor)
+ * @query   search?, category?, low_stock? ('true'), include_inactive? ('true')
+ */
+router.get('/',
+  requireRole(['vendor', 'technician']),
+  [
+    query('search').optional().isString().isLength({ max: 100 }),
+    query('category').optional().isIn(PART_CATEGORIES).withMessage(categoryMessage)
+  ],
+  partsController.getParts
+);
+
+/**
+ * @route   GET /api/parts/:id
+ * @desc    Get a part with its recent stock movements
+ * @access  Vendor only
+ */
+router.get('/:id', requireRole(['vendor']), requirePermission('manage_parts'), validateId, partsController.getPart);
+
+/**
+ * @route   POST /api/parts
+ * @desc    Add a part to the catalog, optionally with opening stock
+ * @access  Vendor only
+ * @body    part_number, part_name, category?, unit?, unit_cost?, reorder_level?, quantity_on_hand?
+ */
+router.post('/',
+  requireRole(['vendor']),
+  requirePermission('manage_parts'),
+  [
+    ...validatePartFields(false),
+    body('quantity_on_hand').optional().isFloat({ min: 0, max: 99999999 }).withMessage('Opening stock must be zero or more').toFloat()
+  ],
+  partsController.createPart
+);
+
+/**
+ * @route   PUT /api/parts/:id
+ * @desc    Update a part's details or take it out of use. Stock is changed
+ *          through /stock so every change is recorded.
+ * @access  Vendor only
+ * @body    part_number?, part_name?, category?, unit?, unit_cost?, reorder_level?, is_active?
+ */
+router.put('/:id',
+  requireRole(['vendor']),
+  requirePermission('manage_parts'),
+  [
+    validateId,
+    ...validatePartFields(true),
+    body('is_active').optional().isBoolean().withMessage('is_active must be true or false').toBoolean()
+  ],
+  partsController.updatePart
+);
+
+/**
+ * @route   POST /api/parts/:id/stock
+ * @desc    Receive a delivery or correct the count after a stocktake
+ * @access  Vendor only
+ * @body    movement_type ('received' | 'adjusted'), quantity (signed for
+ *          adjustments), unit_cost? (received only), notes?
+ */
+router.post('/:id/stock',
+  requireRole(['vendor']),
+  requirePermission('manage_parts'),
+  [
+    validateId,
+    body('movement_type').isIn(['received', 'adjusted']).withMessage('Movement type must be received or adjusted'),
+    body('quantity').isFloat({ min: -99999999, max: 99999999 }).withMessage('Quantity must be a number').toFloat(),
+    body('unit_cost').optional({ values: 'null' }).isFloat({ min: 0, max: 99999999 }).withMessage('Unit cost must be zero or more').toFloat(),
+    body('notes').optional({ values: 'null' }).isString().isLength({ max: 2000 }).withMessage('Notes must be at most 2000 characters')
+  ],
+  partsController.adjustStock
+);
+
+export default router;
@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { PermissionController } from '../controllers/PermissionController';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const permissionController = new PermissionController();
+
+// All permission routes require authentication
+router.use(authenticateToken);
+
+const validateRoleId = param('roleId').isInt({ min: 1 }).withMessage('Invalid role ID');
+const validatePermissionId = param('permissionId').isInt({ min: 1 }).withMessage('Invalid permission ID');
+
+/**
+ * @route   GET /api/permissions/me
+ * @desc    Get the effective permissions of the current user
+ * @access  Private
+ */
+router.get('/me', permissionController.getMyPermissions);
+
+/**
+ * @route   GET /api/permissions
+ * @desc    Get all available permissions
+ * @access  Private (manage_permissions)
+ */
+router.get('/', requirePermission('manage_permissions'), permissionController.getPermissions);
+
+/**
+ * @route   GET /api/permissions/roles
+ * @desc    Get all roles with permission and user counts
+ * @access  Private (manage_permissions)
+ */
+router.get('/roles', requirePermission('manage_permissions'), permissionController.getRoles);
+
+/**
+ * @route   POST /api/permissions/roles
+ * @desc    Create a new role
+ * @access  Private (manage_permissions)
+ * @body    role_name, description?
+ */
+router.post('/roles',
+  requirePermission('manage_permissions'),
+  [
+    body('role_name')
+      .trim()
+      .matches(/^[a-z][a-z0-9_]{1,99}$/)
+      .withMessage('Role name must be lowercase letters, digits or underscores'),
+    body('description')
+      .optional()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Description must be at most 500 characters')
+  ],
+  permissionController.createRole
+);
+
+/**
+ * @route   GET /api/permissions/roles/:roleId
+ * @desc    Get the permissions granted to a role
+ * @access  Private (manage_permissions)
+ * @params  roleId
+ */
+router.get('/roles/:roleId',
+  requirePermission('manage_permissions'),
+  validateRoleId,
+  permissionController.getRolePermissions
+);
+
+/**
+ * @route   PUT /api/permissions/roles/:roleId/permissions/:permissionId
+ * @desc    Grant a permission to a role
+ * @access  Private (manage_permissions)
+ * @params  roleId, permissionId
+ */
+router.put('/roles/:roleId/permissions/:permissionId',
+  requirePermission('manage_permissions'),
+  [validateRoleId, validatePermissionId],
+  permissionController.grantPermission
+);
+
+/**
+ * @route   DELETE /api/permissions/roles/:roleId/permissions/:permissionId
+ * @desc    Revoke a permission from a role
+ * @access  Private (manage_permissions)
+ * @params  roleId, permissionId
+ */
+router.delete('/roles/:roleId/permissions/:permissionId',
+  requirePermission('manage_permissions'),
+  [validateRoleId, validatePermissionId],
+  permissionController.revokePermission
+);
+
+/**
+ * @route   PUT /api/permissions/users/:userId/role
+ * @desc    Assign a role to a user
+ * @access  Private (manage_permissions, manage_users)
+ * @params  userId
+ * @body    role_id
+ */
+router.put('/users/:userId/role',
+  requirePermission('manage_permissions', 'manage_users'),
+  [
+    param('userId').isInt({ min: 1 }).withMessage('Invalid user ID'),
+    body('role_id').isInt({ min: 1 }).withMessage('Invalid role ID')
+  ],
+  permissionController.assignUserRole
+);
+
+export default router;
@@ -4,8 +4,28 @@
  */
 
 import express, { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
 import { ProfileRepository } from '../models/ProfileRepository';
+import { UserRepository } from '../models/UserRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { TwoFactorRepository } from '../models/TwoFactorRepository';
 import { authenticateToken } from '../middleware/auth';
+import { UserSessionRepository } from '../models/UserSessionRepository';
+import { revokeSession, revokeAllSessions } from '../services/sessionService';
+import {
+  supportsTwoFactor,
+  isTwoFactorRequired,
+  beginEnrollment,
+  confirmEnrollment,
+  verifySecondFactor,
+  regenerateRecoveryCodes
+} from '../services/twoFactorService';
+import {
+  isNotificationEventType,
+  NotificationPreference,
+  NotificationPreferenceRepository
+} from '../models/NotificationPreferenceRepository';
+import { isValidTimeZone } from '../services/notificationPreferences';
 
 const router = express.Router();
 
@@ -188,6 +208,9 @@ router.post('/change-password', authenticateToken, async (req: Request, res: Res
       });
     }
 
+    // Sign out other devices that may still be using the old password
+    await revokeAllSessions(userId, userId, (req as any).user.sessionId);
+
     res.json({
       success: true,
       message: result.message
@@ -246,4 +269,424 @@ router.get('/password-expired', authenticateToken, async (req: Request, res: Res
   }
 });
 
+/**
+ * List the devices the current user is signed in on
+ * GET /api/profile/sessions
+ */
+router.get('/sessions', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { userId, sessionId } = (req as any).user;
+    const sessions = await UserSessionRepository.getActiveSessions(userId);
+
+    res.json({
+      success: true,
+      data: sessions.map(({ session_token, ...session }) => ({
+        ...session,
+        is_current: session_token === sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch sessions'
+    });
+  }
+});
+
+/**
+ * Sign out every device except the current one
+ * POST /api/profile/sessions/revoke-others
+ */
+router.post('/sessions/revoke-others', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { userId, sessionId } = (req as any).user;
+    const revoked = await revokeAllSessions(userId, userId, sessionId);
+
+    res.json({
+      success: true,
+      message: revoked === 1 ? 'Signed out 1 other device' : `Signed out ${revoked} other devices`,
+      data: { revoked }
+    });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out other devices'
+    });
+  }
+});
+
+/**
+ * Sign out one device
+ * DELETE /api/profile/sessions/:sessionId
+ */
+router.delete('/sessions/:sessionId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.userId;
+    const sessionId = parseInt(req.params.sessionId);
+
+    if (isNaN(sessionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid session ID'
+      });
+    }
+
+    const revoked = await revokeSession(userId, sessionId, userId);
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Device signed out'
+    });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out device'
+    });
+  }
+});
+
+/**
+ * Get notification preferences: the event/channel matrix plus quiet hours
+ * and digest settings
+ * GET /api/profile/notification-preferences
+ */
+router.get('/notification-preferences', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.userId;
+    const [preferences, settings] = await Promise.all([
+      NotificationPreferenceRepository.getPreferences(userId),
+      NotificationPreferenceRepository.getSettings(userId)
+    ]);
+
+    if (!settings) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { preferences, settings }
+    });
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch notification preferences'
+    });
+  }
+});
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Update notification preferences
+ * PUT /api/profile/notification-preferences
+ */
+router.put('/notification-preferences', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { preferences = [], settings } = req.body;
+
+    if (!Array.isArray(preferences) || preferences.some((p: any) => !p || !isNotificationEventType(String(p.event_type)))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid notification event type'
+      });
+    }
+
+    const changes: Partial<NotificationPreference>[] = preferences.map((p: any) => ({
+      event_type: p.event_type,
+      in_app_enabled: typeof p.in_app_enabled === 'boolean' ? p.in_app_enabled : undefined,
+      email_enabled: typeof p.email_enabled === 'boolean' ? p.email_enabled : undefined,
+      sms_enabled: typeof p.sms_enabled === 'boolean' ? p.sms_enabled : undefined
+    }));
+
+    if (settings) {
+      const quietStart = settings.quiet_hours_start || null;
+      const quietEnd = settings.quiet_hours_end || null;
+
+      if ((quietStart && !TIME_OF_DAY.test(quietStart)) || (quietEnd && !TIME_OF_DAY.test(quietEnd))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Quiet hours must be times in HH:MM format'
+        });
+      }
+      if (!quietStart !== !quietEnd) {
+        return res.status(400).json({
+          success: false,
+          message: 'Quiet hours need both a start and an end time'
+        });
+      }
+      if (settings.timezone && !isValidTimeZone(settings.timezone)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Unknown time zone'
+        });
+      }
+
+      const digestHour = Number(settings.email_digest_hour ?? 8);
+      if (!Number.isInteger(digestHour) || digestHour < 0 || digestHour > 23) {
+        return res.status(400).json({
+          success: false,
+          message: 'Digest hour must be between 0 and 23'
+        });
+      }
+
+      await NotificationPreferenceRepository.save(userId, changes, {
+        quiet_hours_start: quietStart,
+        quiet_hours_end: quietEnd,
+        timezone: settings.timezone || null,
+        email_digest_enabled: Boolean(settings.email_digest_enabled),
+        email_digest_hour: digestHour
+      });
+    } else {
+      await NotificationPreferenceRepository.save(userId, changes);
+    }
+
+    const [updatedPreferences, updatedSettings] = await Promise.all([
+      NotificationPreferenceRepository.getPreferences(userId),
+      NotificationPreferenceRepository.getSettings(userId)
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Notification preferences updated',
+      data: { preferences: updatedPreferences, settings: updatedSettings }
+    });
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update notification preferences'
+    });
+  }
+});
+
+/**
+ * Record a two-factor change or failed code in the audit log
+ */
+const logTwoFactorEvent = (req: Request, userId: number, action: string) =>
+  AuditRepository.createLog(
+    'user',
+    { user_id: userId },
+    'UPDATE',
+    { action },
+    { ip_address: req.ip },
+    userId
+  );
+
+/**
+ * Get two-factor authentication status
+ * GET /api/profile/two-factor
+ */
+router.get('/two-factor', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { userId, user_type } = (req as any).user;
+    const status = await TwoFactorRepository.getStatus(userId);
+
+    res.json({
+      success: true,
+      data: {
+        available: supportsTwoFactor(user_type),
+        required: await isTwoFactorRequired(user_type),
+        enabled: status.enabled,
+        enabledAt: status.enabled_at,
+        recoveryCodesRemaining: status.recovery_codes_remaining
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch two-factor status'
+    });
+  }
+});
+
+/**
+ * Start two-factor enrollment, returning the secret and QR code to scan
+ * POST /api/profile/two-factor/setup
+ */
+router.post('/two-factor/setup', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { userId, user_type, email } = (req as any).user;
+
+    if (!supportsTwoFactor(user_type)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Two-factor authentication is only available for admin and vendor accounts'
+      });
+    }
+
+    const status = await TwoFactorRepository.getStatus(userId);
+    if (status.enabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    const enrollment = await beginEnrollment({ id: userId, email });
+
+    res.json({
+      success: true,
+      data: enrollment
+    });
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start two-factor setup'
+    });
+  }
+});
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * POST /api/profile/two-factor/enable
+ */
+router.post('/two-factor/enable', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { code } = req.body;
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification code is required'
+      });
+    }
+
+    const recoveryCodes = await confirmEnrollment(userId, code);
+    if (!recoveryCodes) {
+      await logTwoFactorEvent(req, userId, 'two_factor_failed');
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid verification code. Check your authenticator app and try again.'
+      });
+    }
+
+    await logTwoFactorEvent(req, userId, 'two_factor_enabled');
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    console.error('Error enabling two-factor:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to enable two-factor authentication'
+    });
+  }
+});
+
+/**
+ * Turn two-factor off. Needs the password and a current code.
+ * POST /api/profile/two-factor/disable
+ */
+router.post('/two-factor/disable', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { userId, user_type } = (req as any).user;
+    const { password, code } = req.body;
+
+    if (!password || typeof password !== 'string' || !code || typeof code !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Password and verification code are required'
+      });
+    }
+
+    if (await isTwoFactorRequired(user_type)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Two-factor authentication is required for your account and cannot be turned off'
+      });
+    }
+
+    const user = await UserRepository.findById(userId);
+    if (!user || !(await bcrypt.compare(password, user.password))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Password is incorrect'
+      });
+    }
+
+    if (!(await verifySecondFactor(userId, code))) {
+      await logTwoFactorEvent(req, userId, 'two_factor_failed');
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid verification code'
+      });
+    }
+
+    await TwoFactorRepository.disable(userId);
+    await logTwoFactorEvent(req, userId, 'two_factor_disabled');
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    console.error('Error disabling two-factor:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to disable two-factor authentication'
+    });
+  }
+});
+
+/**
+ * Replace recovery codes. Needs a current code.
+ * POST /api/profile/two-factor/recovery-codes
+ */
+router.post('/two-factor/recovery-codes', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { code } = req.body;
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification code is required'
+      });
+    }
+
+    if (!(await verifySecondFactor(userId, code))) {
+      await logTwoFactorEvent(req, userId, 'two_factor_failed');
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid verification code'
+      });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(userId);
+    await logTwoFactorEvent(req, userId, 'two_factor_recovery_codes_regenerated');
+
+    res.json({
+      success: true,
+      message: 'New recovery codes generated',
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate recovery codes'
+    });
+  }
+});
+
 export default router;
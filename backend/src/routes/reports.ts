@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import ReportsController from '../controllers/ReportsController';
-import { authenticateToken, requireVendorOrAdmin } from '../middleware/auth';
+import { authenticateToken, requireVendorOrAdmin, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
 // Apply authentication and vendor role check to all routes
 router.use(authenticateToken);
 router.use(requireVendorOrAdmin);
+router.use(requirePermission('view_maintenance'));
 
 // KPI and Dashboard Data
 router.get('/kpis', ReportsController.getKPIData.bind(ReportsController));
@@ -29,7 +30,9 @@ router.get('/top-clients', ReportsController.getTopClients.bind(ReportsControlle
 router.get('/equipment-performance', ReportsController.getEquipmentPerformance.bind(ReportsController));
 router.get('/maintenance-backlog', ReportsController.getMaintenanceBacklog.bind(ReportsController));
 router.get('/revenue-by-client', ReportsController.getRevenueByClient.bind(ReportsController));
+router.get('/receivables', ReportsController.getReceivables.bind(ReportsController));
 router.get('/compliance-issues', ReportsController.getComplianceIssues.bind(ReportsController));
+router.get('/parts-usage', ReportsController.getPartsUsage.bind(ReportsController));
 
 // Analytics Endpoints
 router.get('/client-performance', ReportsController.getClientPerformance.bind(ReportsController));
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { param } from 'express-validator';
+import { ScanController } from '../controllers/ScanController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+const scanController = new ScanController();
+
+// Any signed-in user may scan; the controller only resolves records they can see
+router.use(authenticateToken);
+
+/**
+ * @route   GET /api/scan/equipment/:id
+ * @desc    Resolve a scanned asset label to the page to open for the current user
+ * @access  Authenticated users
+ */
+router.get('/equipment/:id', param('id').isInt({ min: 1 }).withMessage('Invalid equipment ID'), scanController.resolveEquipmentScan);
+
+export default router;
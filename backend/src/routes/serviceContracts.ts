@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { ServiceContractController } from '../controllers/ServiceContractController';
+import { TICKET_PRIORITIES } from '../models/ServiceContractRepository';
+import { authenticateToken, requireRole, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const serviceContractController = new ServiceContractController();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const vendorContracts = [requireRole(['vendor']), requirePermission('manage_service_contracts')];
+
+const validateContract = [
+  body('client_id').isInt({ min: 1 }).withMessage('Client is required').toInt(),
+  body('contract_name').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Contract name is required'),
+  body('start_date').isISO8601({ strict: true }).withMessage('Start date must be a date'),
+  body('end_date').optional({ values: 'falsy' }).isISO8601({ strict: true }).withMessage('End date must be a date')
+    .custom((endDate, { req }) => endDate >= req.body.start_date).withMessage('End date must be on or after the start date'),
+  body('covers_all_equipment').optional().isBoolean().withMessage('covers_all_equipment must be true or false').toBoolean(),
+  body('equipment_instance_ids').optional().isArray({ max: 1000 }).withMessage('equipment_instance_ids must be a list'),
+  body('equipment_instance_ids.*').isInt({ min: 1 }).withMessage('Invalid equipment ID').toInt(),
+  body('visits_per_year').optional().isInt({ min: 0, max: 52 }).withMessage('Visits per year must be between 0 and 52').toInt(),
+  body('is_active').optional().isBoolean().withMessage('is_active must be true or false').toBoolean(),
+  body('notes').optional({ values: 'null' }).isString().isLength({ max: 2000 }).withMessage('Notes must be at most 2000 characters'),
+  body('sla_targets').optional().isArray({ max: TICKET_PRIORITIES.length }).withMessage('sla_targets must be a list'),
+  body('sla_targets.*.priority').isIn(TICKET_PRIORITIES).withMessage(`Priority must be one of: ${TICKET_PRIORITIES.join(', ')}`),
+  body('sla_targets.*.response_hours').isInt({ min: 1, max: 8760 }).withMessage('Response target must be between 1 and 8760 hours').toInt(),
+  body('sla_targets.*.resolution_hours').isInt({ min: 1, max: 8760 }).withMessage('Resolution target must be between 1 and 8760 hours').toInt()
+];
+
+/**
+ * @route   GET /api/service-contracts
+ * @desc    List the vendor's service contracts with their SLA targets,
+ *          covered equipment count and open breaches
+ * @access  Vendor only
+ * @query   client_id?
+ */
+router.get('/',
+  ...vendorContracts,
+  query('client_id').optional().isInt({ min: 1 }).withMessage('Invalid client ID'),
+  serviceContractController.getContracts
+);
+
+/**
+ * @route   GET /api/service-contracts/clients/:clientId/equipment
+ * @desc    Equipment assigned to a client, to choose what a contract covers
+ * @access  Vendor only
+ */
+router.get('/clients/:clientId/equipment',
+  ...vendorContracts,
+  param('clientId').isInt({ min: 1 }).withMessage('Invalid client ID'),
+  serviceContractController.getClientEquipment
+);
+
+/**
+ * @route   GET /api/service-contracts/:id
+ * @desc    Get a contract with the equipment it names
+ * @access  Vendor only
+ */
+router.get('/:id',
+  ...vendorContracts,
+  param('id').isInt({ min: 1 }).withMessage('Invalid contract ID'),
+  serviceContractController.getContract
+);
+
+/**
+ * @route   POST /api/service-contracts
+ * @desc    Add a contract. Tickets the client raises from the start date get
+ *          due-by times from its SLA targets.
+ * @access  Vendor only
+ * @body    client_id, contract_name, start_date, end_date?, covers_all_equipment?,
+ *          equipment_instance_ids?, visits_per_year?, is_active?, notes?,
+ *          sla_targets? [{ priority, response_hours, resolution_hours }]
+ */
+router.post('/', ...vendorContracts, validateContract, serviceContractController.createContract);
+
+/**
+ * @route   PUT /api/service-contracts/:id
+ * @desc    Update a contract, or end it by switching it off. Tickets already
+ *          raised keep their due-by times.
+ * @access  Vendor only
+ */
+router.put('/:id',
+  ...vendorContracts,
+  [param('id').isInt({ min: 1 }).withMessage('Invalid contract ID'), ...validateContract],
+  serviceContractController.updateContract
+);
+
+export default router;
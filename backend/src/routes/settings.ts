@@ -5,7 +5,7 @@
 
 import express, { Request, Response } from 'express';
 import { SystemSettingsRepository } from '../models/SystemSettingsRepository';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 // Add request logging middleware
 const logAllRequests = (req: Request, res: Response, next: Function) => {
@@ -54,7 +54,7 @@ const requireAdmin = (req: Request, res: Response, next: Function) => {
  * Get all system settings
  * GET /api/settings
  */
-router.get('/', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+router.get('/', authenticateToken, requireAdmin, requirePermission('manage_system_settings'), async (req: Request, res: Response) => {
   try {
     const settings = await SystemSettingsRepository.getAllSettings();
 
@@ -75,7 +75,7 @@ router.get('/', authenticateToken, requireAdmin, async (req: Request, res: Respo
  * Get security settings
  * GET /api/settings/security
  */
-router.get('/security', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+router.get('/security', authenticateToken, requireAdmin, requirePermission('manage_system_settings'), async (req: Request, res: Response) => {
   try {
     const securitySettings = await SystemSettingsRepository.getSecuritySettings();
 
@@ -96,7 +96,7 @@ router.get('/security', authenticateToken, requireAdmin, async (req: Request, re
  * Get a specific setting by key
  * GET /api/settings/:key
  */
-router.get('/:key', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+router.get('/:key', authenticateToken, requireAdmin, requirePermission('manage_system_settings'), async (req: Request, res: Response) => {
   try {
     const { key } = req.params;
 
@@ -129,7 +129,7 @@ router.get('/:key', authenticateToken, requireAdmin, async (req: Request, res: R
 router.put('/bulk', (req: Request, res: Response, next: Function) => {
   console.error('🔥🔥🔥 BULK ROUTE HIT - BEFORE AUTH 🔥🔥🔥');
   next();
-}, authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+}, authenticateToken, requireAdmin, requirePermission('manage_system_settings'), async (req: Request, res: Response) => {
   console.log('\n'.repeat(3));
   console.log('='.repeat(80));
   console.log('🚀🚀🚀 BULK SETTINGS UPDATE STARTED 🚀🚀🚀');
@@ -267,7 +267,7 @@ router.put('/bulk', (req: Request, res: Response, next: Function) => {
  * Update a single setting
  * PUT /api/settings/:key
  */
-router.put('/:key', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+router.put('/:key', authenticateToken, requireAdmin, requirePermission('manage_system_settings'), async (req: Request, res: Response) => {
   try {
     const { key } = req.params;
     const { value } = req.body;
@@ -295,7 +295,7 @@ router.put('/:key', authenticateToken, requireAdmin, async (req: Request, res: R
       }
     }
 
-    if (key === 'require_password_change_on_first_login') {
+    if (key === 'require_password_change_on_first_login' || key === 'require_two_factor_auth') {
       if (value !== 'true' && value !== 'false') {
         return res.status(400).json({
           success: false,
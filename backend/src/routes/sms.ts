@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 import SmsController from '../controllers/SmsController';
 
 const router = Router();
@@ -8,21 +8,21 @@ const router = Router();
 router.use(authenticateToken);
 
 // Balance check (admin only)
-router.get('/balance', SmsController.getBalance);
+router.get('/balance', requirePermission('manage_system_settings'), SmsController.getBalance);
 
 // Statistics (admin only)
-router.get('/statistics', SmsController.getStatistics);
+router.get('/statistics', requirePermission('manage_system_settings'), SmsController.getStatistics);
 
 // User preferences
 router.get('/preferences', SmsController.getUserPreferences);
 router.put('/preferences', SmsController.updateUserPreferences);
 
 // System settings (admin only)
-router.get('/settings', SmsController.getSystemSettings);
-router.put('/settings', SmsController.updateSystemSettings);
+router.get('/settings', requirePermission('manage_system_settings'), SmsController.getSystemSettings);
+router.put('/settings', requirePermission('manage_system_settings'), SmsController.updateSystemSettings);
 
 // Manual check trigger (admin only)
-router.post('/check-now', SmsController.triggerManualCheck);
+router.post('/check-now', requirePermission('manage_system_settings'), SmsController.triggerManualCheck);
 
 // Test SMS
 router.post('/test', SmsController.testSms);
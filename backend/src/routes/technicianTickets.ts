@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { authenticateToken, requireRole, requirePermission, requireActiveTechnician } from '../middleware/auth';
+import MaintenanceTicketController from '../controllers/MaintenanceTicketController';
+import { CalendarFeedController } from '../controllers/CalendarFeedController';
+
+const router = Router();
+const calendarFeedController = new CalendarFeedController();
+
+// Technicians only see and update tickets assigned to them
+router.use(authenticateToken);
+router.use(requireRole(['technician']));
+router.use(requireActiveTechnician);
+router.use(requirePermission('work_assigned_tickets'));
+
+const validateTicketId = param('id').isInt({ min: 1 }).withMessage('Invalid ticket ID');
+
+// GET /api/technician/tickets - List assigned tickets
+router.get('/', MaintenanceTicketController.getAssignedTickets);
+
+// GET /api/technician/tickets/calendar/feed - ICS subscription URL for assigned tickets
+router.get('/calendar/feed', calendarFeedController.getTechnicianFeed);
+
+// POST /api/technician/tickets/calendar/feed/rotate - Regenerate the ICS subscription URL
+router.post('/calendar/feed/rotate', calendarFeedController.rotateTechnicianFeed);
+
+// GET /api/technician/tickets/:id - Assigned ticket details
+router.get('/:id', validateTicketId, MaintenanceTicketController.getAssignedTicketDetails);
+
+// GET /api/technician/tickets/:id/checklist - Inspection checklist for the ticket's equipment
+router.get('/:id/checklist', validateTicketId, MaintenanceTicketController.getAssignedTicketChecklist);
+
+// GET /api/technician/tickets/:id/parts - Parts used on the ticket
+router.get('/:id/parts', validateTicketId, MaintenanceTicketController.getAssignedTicketParts);
+
+// PUT /api/technician/tickets/:id - Record hours and resolution notes
+router.put('/:id', [
+  validateTicketId,
+  body('actual_hours').optional({ values: 'falsy' }).isFloat({ min: 0, max: 999 }).withMessage('Actual hours must be between 0 and 999'),
+  body('resolution_description').optional().isString().isLength({ max: 2000 }).withMessage('Resolution must be at most 2000 characters')
+], MaintenanceTicketController.updateAssignedTicket);
+
+// PUT /api/technician/tickets/:id/resolve - Resolve an assigned ticket
+router.put('/:id/resolve', [
+  validateTicketId,
+  body('resolution_description').isString().isLength({ min: 1, max: 2000 }).withMessage('Resolution description is required'),
+  body('actual_hours').optional({ values: 'falsy' }).isFloat({ min: 0, max: 999 }).withMessage('Actual hours must be between 0 and 999'),
+  body('checklist_results').optional().isArray().withMessage('Checklist results must be an array'),
+  body('checklist_results.*.checklist_item_id').isInt({ min: 1 }).withMessage('Checklist item ID must be a positive integer'),
+  body('checklist_results.*.result').isIn(['pass', 'fail', 'na']).withMessage('Checklist result must be one of: pass, fail, na'),
+  body('parts').optional().isArray({ max: 50 }).withMessage('Parts must be an array'),
+  body('parts.*.part_id').isInt({ min: 1 }).withMessage('Part ID must be a positive integer'),
+  body('parts.*.quantity').isFloat({ gt: 0, max: 99999 }).withMessage('Part quantity must be greater than zero')
+], MaintenanceTicketController.resolveAssignedTicket);
+
+export default router;
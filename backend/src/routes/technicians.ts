@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { TechnicianController } from '../controllers/TechnicianController';
+import { authenticateToken, requireRole, requirePermission } from '../middleware/auth';
+
+const router = Router();
+const technicianController = new TechnicianController();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+router.use(requireRole(['vendor']));
+router.use(requirePermission('manage_technicians'));
+
+const validateTechnicianId = param('id').isInt({ min: 1 }).withMessage('Invalid technician ID');
+
+/**
+ * @route   GET /api/vendor/technicians
+ * @desc    Get the vendor's technicians with open ticket counts
+ * @access  Vendor only
+ * @query   status - Filter by status (active, inactive)
+ */
+router.get('/', technicianController.getTechnicians);
+
+/**
+ * @route   GET /api/vendor/technicians/:id
+ * @desc    Get technician details
+ * @access  Vendor only
+ */
+router.get('/:id', validateTechnicianId, technicianController.getTechnicianById);
+
+/**
+ * @route   POST /api/vendor/technicians
+ * @desc    Create a technician account (temporary password is emailed)
+ * @access  Vendor only
+ * @body    first_name, last_name, email, phone?, job_title?
+ */
+router.post('/',
+  [
+    body('first_name').trim().isLength({ min: 1, max: 100 }).withMessage('First name is required'),
+    body('last_name').trim().isLength({ min: 1, max: 100 }).withMessage('Last name is required'),
+    body('email').isEmail().normalizeEmail().withMessage('Invalid email format'),
+    body('phone').optional({ values: 'falsy' }).trim().isLength({ max: 50 }).withMessage('Phone must be at most 50 characters'),
+    body('job_title').optional({ values: 'falsy' }).trim().isLength({ max: 200 }).withMessage('Job title must be at most 200 characters')
+  ],
+  technicianController.createTechnician
+);
+
+/**
+ * @route   PUT /api/vendor/technicians/:id
+ * @desc    Update technician details or activate/deactivate the account
+ * @access  Vendor only
+ * @body    first_name?, last_name?, phone?, job_title?, status?
+ */
+router.put('/:id',
+  [
+    validateTechnicianId,
+    body('first_name').optional().trim().isLength({ min: 1, max: 100 }).withMessage('First name must be between 1 and 100 characters'),
+    body('last_name').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Last name must be between 1 and 100 characters'),
+    body('phone').optional().trim().isLength({ max: 50 }).withMessage('Phone must be at most 50 characters'),
+    body('job_title').optional().trim().isLength({ max: 200 }).withMessage('Job title must be at most 200 characters'),
+    body('status').optional().isIn(['active', 'inactive']).withMessage('Status must be active or inactive')
+  ],
+  technicianController.updateTechnician
+);
+
+export default router;
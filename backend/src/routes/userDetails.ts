@@ -1,7 +1,12 @@
 import express, { Request, Response } from 'express';
 import { pool } from '../config/database';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 import { UserRepository } from '../models/UserRepository';
+import { UserSessionRepository } from '../models/UserSessionRepository';
+import { TwoFactorRepository } from '../models/TwoFactorRepository';
+import { AuditRepository } from '../models/AuditRepository';
+import { issuePasswordReset } from '../services/passwordResetService';
+import { revokeSession, revokeAllSessions } from '../services/sessionService';
 
 const router = express.Router();
 
@@ -10,7 +15,7 @@ const router = express.Router();
  * @desc Get detailed information for a specific user (role-specific)
  * @access Private
  */
-router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
+router.get('/:id', authenticateToken, requirePermission('view_users'), async (req: Request, res: Response) => {
   try {
     const userId = parseInt(req.params.id);
     
@@ -56,7 +61,7 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
  * @desc Update user details
  * @access Private
  */
-router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
+router.put('/:id', authenticateToken, requirePermission('manage_users'), async (req: Request, res: Response) => {
   try {
     const userId = parseInt(req.params.id);
     const { first_name, last_name } = req.body;
@@ -97,7 +102,7 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
  * @desc Request password reset for a user (Admin only)
  * @access Private
  */
-router.post('/:id/reset-password', authenticateToken, async (req: Request, res: Response) => {
+router.post('/:id/reset-password', authenticateToken, requirePermission('manage_users'), async (req: Request, res: Response) => {
   try {
     // Check if user is admin
     if (req.user?.user_type !== 'admin') {
@@ -112,7 +117,7 @@ router.post('/:id/reset-password', authenticateToken, async (req: Request, res:
 
     // Check if user exists
     const userCheck = await pool.query(
-      'SELECT id, email FROM "user" WHERE id = $1 AND deleted_at IS NULL',
+      'SELECT id, email, display_name, first_name FROM "user" WHERE id = $1 AND deleted_at IS NULL',
       [userId]
     );
 
@@ -124,27 +129,21 @@ router.post('/:id/reset-password', authenticateToken, async (req: Request, res:
       });
     }
 
-    // Generate reset token
-    const crypto = require('crypto');
-    const resetToken = crypto.randomBytes(32).toString('hex');
-    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
-
-    // Store reset token
-    await pool.query(
-      `INSERT INTO password_reset (user_id, reset_token, expires_at)
-       VALUES ($1, $2, $3)`,
-      [userId, resetToken, expiresAt]
+    // Email the user a single-use reset link, valid for 24 hours
+    const { expiresAt, emailSent } = await issuePasswordReset(
+      userCheck.rows[0],
+      { ipAddress: req.ip, userAgent: req.headers['user-agent'] },
+      24 * 60
     );
 
-    // TODO: Send email with reset link
-    // For now, we'll just return the token (in production, this should be sent via email)
-
     res.json({
       success: true,
-      message: 'Password reset link generated successfully',
+      message: emailSent
+        ? 'Password reset link sent to the user\'s email'
+        : 'Password reset link created, but the email could not be sent',
       data: {
-        resetToken, // Remove this in production
-        expiresAt
+        expiresAt,
+        emailSent
       }
     });
   } catch (error) {
@@ -157,12 +156,170 @@ router.post('/:id/reset-password', authenticateToken, async (req: Request, res:
   }
 });
 
+/**
+ * @route POST /api/user-details/:id/reset-two-factor
+ * @desc Turn off a user's two-factor authentication, e.g. after a lost phone (Admin only)
+ * @access Private
+ */
+router.post('/:id/reset-two-factor', authenticateToken, requirePermission('manage_users'), async (req: Request, res: Response) => {
+  try {
+    if (req.user?.user_type !== 'admin') {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. Admin role required.',
+        error: 'Insufficient permissions'
+      });
+    }
+
+    const userId = parseInt(req.params.id);
+
+    const reset = await TwoFactorRepository.disable(userId);
+    if (!reset) {
+      return res.status(404).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled for this user',
+        error: 'Nothing to reset'
+      });
+    }
+
+    // Anyone holding the lost device may already be signed in
+    await revokeAllSessions(userId, req.user.userId);
+
+    await AuditRepository.createLog(
+      'user',
+      { user_id: userId },
+      'UPDATE',
+      { action: 'two_factor_reset_by_admin' },
+      { ip_address: req.ip },
+      req.user.userId
+    );
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication has been reset. The user can set it up again after logging in.'
+    });
+  } catch (error) {
+    console.error('Error resetting two-factor:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reset two-factor authentication',
+      error: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route GET /api/user-details/:id/sessions
+ * @desc List the devices a user is signed in on (Admin only)
+ * @access Private
+ */
+router.get('/:id/sessions', authenticateToken, requirePermission('view_users'), async (req: Request, res: Response) => {
+  try {
+    if (req.user?.user_type !== 'admin') {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. Admin role required.',
+        error: 'Insufficient permissions'
+      });
+    }
+
+    const userId = parseInt(req.params.id);
+    const sessions = await UserSessionRepository.getActiveSessions(userId);
+
+    res.json({
+      success: true,
+      data: sessions.map(({ session_token, ...session }) => session)
+    });
+  } catch (error) {
+    console.error('Error fetching user sessions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch sessions',
+      error: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route DELETE /api/user-details/:id/sessions
+ * @desc Sign a user out of every device (Admin only)
+ * @access Private
+ */
+router.delete('/:id/sessions', authenticateToken, requirePermission('manage_users'), async (req: Request, res: Response) => {
+  try {
+    if (req.user?.user_type !== 'admin') {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. Admin role required.',
+        error: 'Insufficient permissions'
+      });
+    }
+
+    const userId = parseInt(req.params.id);
+    const revoked = await revokeAllSessions(userId, req.user.userId);
+
+    res.json({
+      success: true,
+      message: revoked === 1 ? 'Signed out 1 session' : `Signed out ${revoked} sessions`,
+      data: { revoked }
+    });
+  } catch (error) {
+    console.error('Error revoking user sessions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out sessions',
+      error: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * @route DELETE /api/user-details/:id/sessions/:sessionId
+ * @desc Sign a user out of one device (Admin only)
+ * @access Private
+ */
+router.delete('/:id/sessions/:sessionId', authenticateToken, requirePermission('manage_users'), async (req: Request, res: Response) => {
+  try {
+    if (req.user?.user_type !== 'admin') {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. Admin role required.',
+        error: 'Insufficient permissions'
+      });
+    }
+
+    const userId = parseInt(req.params.id);
+    const sessionId = parseInt(req.params.sessionId);
+
+    const revoked = await revokeSession(userId, sessionId, req.user.userId);
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
+        error: 'Session does not exist or is already signed out'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Session signed out'
+    });
+  } catch (error) {
+    console.error('Error revoking user session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out session',
+      error: 'Internal server error'
+    });
+  }
+});
+
 /**
  * @route GET /api/user-details/:id/deletion-check
  * @desc Check if user can be deleted (Admin only)
  * @access Private
  */
-router.get('/:id/deletion-check', authenticateToken, async (req: Request, res: Response) => {
+router.get('/:id/deletion-check', authenticateToken, requirePermission('manage_users'), async (req: Request, res: Response) => {
   try {
     // Check if user is admin
     if (req.user?.user_type !== 'admin') {
@@ -205,7 +362,7 @@ router.get('/:id/deletion-check', authenticateToken, async (req: Request, res: R
  * @desc Delete user (Admin only)
  * @access Private
  */
-router.delete('/:id', authenticateToken, async (req: Request, res: Response) => {
+router.delete('/:id', authenticateToken, requirePermission('manage_users'), async (req: Request, res: Response) => {
   try {
     // Check if user is admin
     if (req.user?.user_type !== 'admin') {
@@ -1,7 +1,7 @@
 import express, { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { UserRepository } from '../models/UserRepository';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -10,7 +10,7 @@ const router = express.Router();
  * @desc Get all users (Super Admin only)
  * @access Private
  */
-router.get('/', authenticateToken, async (req: Request, res: Response) => {
+router.get('/', authenticateToken, requirePermission('view_users'), async (req: Request, res: Response) => {
   try {
     // Check if user is super admin
     if (req.user?.user_type !== 'admin') {
@@ -61,7 +61,7 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
  * @desc Get user statistics (Super Admin only)
  * @access Private
  */
-router.get('/stats', authenticateToken, async (req: Request, res: Response) => {
+router.get('/stats', authenticateToken, requirePermission('view_users'), async (req: Request, res: Response) => {
   try {
     // Check if user is super admin
     if (req.user?.user_type !== 'admin') {
@@ -95,6 +95,7 @@ router.get('/stats', authenticateToken, async (req: Request, res: Response) => {
  */
 router.put('/:id/status', 
   authenticateToken,
+  requirePermission('manage_users'),
   [
     body('isLocked')
       .isBoolean()
@@ -166,7 +167,7 @@ router.put('/:id/status',
  * @desc Soft delete user (Super Admin only)
  * @access Private
  */
-router.delete('/:id', authenticateToken, async (req: Request, res: Response) => {
+router.delete('/:id', authenticateToken, requirePermission('manage_users'), async (req: Request, res: Response) => {
   try {
     // Check if user is super admin
     if (req.user?.user_type !== 'admin') {
@@ -220,7 +221,7 @@ router.delete('/:id', authenticateToken, async (req: Request, res: Response) =>
  * @desc Get vendor statistics (Super Admin only)
  * @access Private
  */
-router.get('/vendors/stats', authenticateToken, async (req: Request, res: Response) => {
+router.get('/vendors/stats', authenticateToken, requirePermission('view_users', 'view_vendors'), async (req: Request, res: Response) => {
   try {
     // Check if user is super admin
     if (req.user?.user_type !== 'admin') {
@@ -39,11 +39,19 @@ router.get('/tickets/by-type', authenticateToken, (req, res) => {
   vendorAnalyticsController.getTicketsByType(req, res);
 });
 
+router.get('/tickets/sla', authenticateToken, (req, res) => {
+  vendorAnalyticsController.getSlaCompliance(req, res);
+});
+
 // Client Performance Section
 router.get('/clients/ranking', authenticateToken, (req, res) => {
   vendorAnalyticsController.getClientRankings(req, res);
 });
 
+router.get('/clients/contracts', authenticateToken, (req, res) => {
+  vendorAnalyticsController.getContractVisitCompliance(req, res);
+});
+
 router.get('/clients/dropdown', authenticateToken, (req, res) => {
   vendorAnalyticsController.getClientsForDropdown(req, res);
 });
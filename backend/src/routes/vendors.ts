@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
 import { VendorController } from '../controllers/VendorController';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
 
 const router = Router();
 const vendorController = new VendorController();
@@ -17,7 +17,7 @@ router.use(authenticateToken);
  * @desc    Get all available specializations for filter dropdown
  * @access  Private (super_admin only)
  */
-router.get('/specializations', vendorController.getSpecializations);
+router.get('/specializations', requirePermission('view_vendors'), vendorController.getSpecializations);
 
 /**
  * @route   GET /api/vendors
@@ -25,7 +25,7 @@ router.get('/specializations', vendorController.getSpecializations);
  * @access  Private (super_admin, vendor)
  * @query   page, limit, sort, order, search, status, specialization
  */
-router.get('/', vendorController.getVendors);
+router.get('/', requirePermission('view_vendors'), vendorController.getVendors);
 
 /**
  * @route   POST /api/vendors
@@ -34,6 +34,7 @@ router.get('/', vendorController.getVendors);
  * @body    CreateVendorRequest schema
  */
 router.post('/', 
+  requirePermission('manage_vendors'),
   [
     // Company Information
     body('companyName')
@@ -145,6 +146,7 @@ router.post('/',
  * @body    first_name?, last_name?, email?
  */
 router.put('/:id',
+  requirePermission('manage_vendors'),
   [
     body('first_name')
       .optional()
@@ -173,7 +175,7 @@ router.put('/:id',
  * @access  Private (super_admin only)
  * @params  id
  */
-router.get('/:id/deletion-check', vendorController.checkVendorDeletion);
+router.get('/:id/deletion-check', requirePermission('manage_vendors'), vendorController.checkVendorDeletion);
 
 /**
  * @route   DELETE /api/vendors/:id
@@ -181,7 +183,7 @@ router.get('/:id/deletion-check', vendorController.checkVendorDeletion);
  * @access  Private (super_admin only)
  * @params  id
  */
-router.delete('/:id', vendorController.deleteVendor);
+router.delete('/:id', requirePermission('manage_vendors'), vendorController.deleteVendor);
 
 /**
  * @route   GET /api/vendors/:id/stats
@@ -189,7 +191,7 @@ router.delete('/:id', vendorController.deleteVendor);
  * @access  Private (super_admin, vendor owns the record)
  * @params  id
  */
-router.get('/:id/stats', vendorController.getVendorStats);
+router.get('/:id/stats', requirePermission('view_vendors'), vendorController.getVendorStats);
 
 /**
  * @route   GET /api/vendors/:id/equipment
@@ -197,7 +199,7 @@ router.get('/:id/stats', vendorController.getVendorStats);
  * @access  Private (super_admin only)
  * @params  id
  */
-router.get('/:id/equipment', vendorController.getVendorEquipment);
+router.get('/:id/equipment', requirePermission('view_vendors'), vendorController.getVendorEquipment);
 
 /**
  * @route   GET /api/vendors/:id
@@ -205,6 +207,6 @@ router.get('/:id/equipment', vendorController.getVendorEquipment);
  * @access  Private (super_admin, vendor owns the record)
  * @params  id
  */
-router.get('/:id', vendorController.getVendorById);
+router.get('/:id', requirePermission('view_vendors'), vendorController.getVendorById);
 
 export default router;
\ No newline at end of file
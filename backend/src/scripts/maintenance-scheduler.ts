@@ -35,13 +35,19 @@ async function runMaintenanceScheduler() {
     console.log(`   ✅ Created: ${results.proactive.created}`);
     console.log(`   ❌ Errors: ${results.proactive.errors.length}`);
     
+    console.log(`\n🗓️  PLANNED MAINTENANCE TICKETS:`);
+    console.log(`   ✅ Created: ${results.planned.created}`);
+    console.log(`   ❌ Errors: ${results.planned.errors.length}`);
+    
+    const allErrors = [...results.overdue.errors, ...results.proactive.errors, ...results.planned.errors];
+    
     console.log(`\n📊 SUMMARY:`);
-    console.log(`   Total Tickets Created: ${results.overdue.created + results.proactive.created}`);
-    console.log(`   Total Errors: ${results.overdue.errors.length + results.proactive.errors.length}`);
+    console.log(`   Total Tickets Created: ${results.overdue.created + results.proactive.created + results.planned.created}`);
+    console.log(`   Total Errors: ${allErrors.length}`);
     
-    if (results.overdue.errors.length > 0 || results.proactive.errors.length > 0) {
+    if (allErrors.length > 0) {
       console.log(`\n❌ ERRORS ENCOUNTERED:`);
-      [...results.overdue.errors, ...results.proactive.errors].forEach((error, index) => {
+      allErrors.forEach((error, index) => {
         console.log(`   ${index + 1}. Equipment ${error.serial_number}: ${error.error}`);
       });
     }
@@ -52,7 +58,7 @@ async function runMaintenanceScheduler() {
     console.log('='.repeat(60));
     
     // Exit with appropriate code
-    process.exit(results.overdue.errors.length + results.proactive.errors.length > 0 ? 1 : 0);
+    process.exit(allErrors.length > 0 ? 1 : 0);
     
   } catch (error) {
     console.error('\n❌ FATAL ERROR in Maintenance Scheduler:');
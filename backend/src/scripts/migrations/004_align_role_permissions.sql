@@ -0,0 +1,30 @@
+-- Migration 004: Align Role Permissions
+-- Permissions are now enforced by requirePermission middleware, so the seeded
+-- grants must cover what vendors and clients already do in the application.
+-- Created: 2026-10-19
+
+-- seed.sql inserts roles and permissions with explicit ids without advancing
+-- their sequences, so move them past the existing rows first
+SELECT setval('role_id_seq', (SELECT COALESCE(MAX(id), 0) + 1 FROM public.role), false);
+SELECT setval('permission_id_seq', (SELECT COALESCE(MAX(id), 0) + 1 FROM public.permission), false);
+
+-- Clients raise service requests without being able to manage tickets
+INSERT INTO public.permission (permission_name, description, category)
+VALUES ('create_service_requests', 'Raise service requests for assigned equipment', 'maintenance')
+ON CONFLICT (permission_name) DO NOTHING;
+
+-- Vendors create and edit their own clients and equipment inventory
+INSERT INTO public.role_permission (role_id, permission_id, granted_by)
+SELECT r.id, p.id, NULL
+FROM public.role r
+JOIN public.permission p ON p.permission_name IN ('manage_clients', 'manage_equipment')
+WHERE r.role_name = 'vendor'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+-- Admins keep every permission, clients get the new service request permission
+INSERT INTO public.role_permission (role_id, permission_id, granted_by)
+SELECT r.id, p.id, NULL
+FROM public.role r
+JOIN public.permission p ON p.permission_name = 'create_service_requests'
+WHERE r.role_name IN ('admin', 'client')
+ON CONFLICT (role_id, permission_id) DO NOTHING;
@@ -0,0 +1,55 @@
+-- Migration 005: Add Vendor Technicians
+-- Adds technician sub-accounts linked to a vendor so tickets can be assigned
+-- to field staff instead of the vendor owner account
+-- Created: 2026-10-19
+
+-- Allow the new user type
+ALTER TABLE public."user" DROP CONSTRAINT IF EXISTS check_user_type;
+ALTER TABLE public."user" ADD CONSTRAINT check_user_type
+  CHECK (user_type IN ('admin', 'vendor', 'client', 'technician'));
+
+-- Technician profile, one row per technician user
+CREATE SEQUENCE IF NOT EXISTS technician_id_seq;
+CREATE TABLE IF NOT EXISTS public.technicians (
+    id int4 NOT NULL DEFAULT nextval('technician_id_seq'::regclass),
+    user_id int4 NOT NULL,
+    vendor_id int4 NOT NULL,
+    job_title varchar(200),
+    status varchar(20) DEFAULT 'active',
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT technicians_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.user(id) ON DELETE CASCADE,
+    CONSTRAINT technicians_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id) ON DELETE CASCADE,
+    CONSTRAINT check_technician_status CHECK (status IN ('active', 'inactive')),
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS technicians_user_id_key ON public.technicians USING btree (user_id);
+CREATE INDEX IF NOT EXISTS idx_technicians_vendor_id ON public.technicians USING btree (vendor_id);
+CREATE INDEX IF NOT EXISTS idx_technicians_status ON public.technicians USING btree (status);
+
+-- Role and permissions. Move the sequences past seeded ids first.
+SELECT setval('role_id_seq', (SELECT COALESCE(MAX(id), 0) + 1 FROM public.role), false);
+SELECT setval('permission_id_seq', (SELECT COALESCE(MAX(id), 0) + 1 FROM public.permission), false);
+
+INSERT INTO public.role (role_name, description)
+VALUES ('technician', 'Work on maintenance tickets assigned by their vendor')
+ON CONFLICT (role_name) DO NOTHING;
+
+INSERT INTO public.permission (permission_name, description, category) VALUES
+  ('manage_technicians',    'Create and manage technician accounts',      'vendor_management'),
+  ('work_assigned_tickets', 'View and update assigned maintenance tickets', 'maintenance')
+ON CONFLICT (permission_name) DO NOTHING;
+
+INSERT INTO public.role_permission (role_id, permission_id, granted_by)
+SELECT r.id, p.id, NULL
+FROM public.role r
+JOIN public.permission p ON p.permission_name = 'manage_technicians'
+WHERE r.role_name IN ('admin', 'vendor')
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+INSERT INTO public.role_permission (role_id, permission_id, granted_by)
+SELECT r.id, p.id, NULL
+FROM public.role r
+JOIN public.permission p ON p.permission_name IN ('work_assigned_tickets', 'view_equipment')
+WHERE r.role_name = 'technician'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
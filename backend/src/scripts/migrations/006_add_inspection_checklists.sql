@@ -0,0 +1,57 @@
+-- Migration 006: Add Inspection Checklists
+-- Vendors define checklist templates per equipment type; technicians record a
+-- pass/fail/n.a. result for each item when resolving a maintenance ticket
+-- Created: 2026-10-19
+
+-- Checklist template, one per vendor and equipment type
+CREATE SEQUENCE IF NOT EXISTS inspection_checklist_id_seq;
+CREATE TABLE IF NOT EXISTS public.inspection_checklist (
+    id int4 NOT NULL DEFAULT nextval('inspection_checklist_id_seq'::regclass),
+    vendor_id int4 NOT NULL,
+    equipment_type varchar(100) NOT NULL,
+    checklist_name varchar(200) NOT NULL,
+    is_active bool DEFAULT true,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT inspection_checklist_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id) ON DELETE CASCADE,
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS inspection_checklist_vendor_type_key ON public.inspection_checklist USING btree (vendor_id, equipment_type);
+
+-- Checklist items
+CREATE SEQUENCE IF NOT EXISTS inspection_checklist_item_id_seq;
+CREATE TABLE IF NOT EXISTS public.inspection_checklist_item (
+    id int4 NOT NULL DEFAULT nextval('inspection_checklist_item_id_seq'::regclass),
+    checklist_id int4 NOT NULL,
+    item_text varchar(500) NOT NULL,
+    sort_order int4 DEFAULT 0,
+    is_active bool DEFAULT true,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT inspection_checklist_item_checklist_id_fkey FOREIGN KEY (checklist_id) REFERENCES public.inspection_checklist(id) ON DELETE CASCADE,
+    PRIMARY KEY (id)
+);
+CREATE INDEX IF NOT EXISTS idx_inspection_checklist_item_checklist_id ON public.inspection_checklist_item USING btree (checklist_id);
+
+-- Results recorded against a ticket. item_text is copied so results stay
+-- readable after the template changes.
+CREATE SEQUENCE IF NOT EXISTS inspection_result_id_seq;
+CREATE TABLE IF NOT EXISTS public.inspection_result (
+    id int4 NOT NULL DEFAULT nextval('inspection_result_id_seq'::regclass),
+    ticket_id int4 NOT NULL,
+    equipment_instance_id int4,
+    checklist_item_id int4,
+    item_text varchar(500) NOT NULL,
+    result varchar(10) NOT NULL,
+    notes text,
+    recorded_by int4,
+    recorded_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT inspection_result_ticket_id_fkey FOREIGN KEY (ticket_id) REFERENCES public.maintenance_ticket(id) ON DELETE CASCADE,
+    CONSTRAINT inspection_result_equipment_instance_id_fkey FOREIGN KEY (equipment_instance_id) REFERENCES public.equipment_instance(id) ON DELETE SET NULL,
+    CONSTRAINT inspection_result_checklist_item_id_fkey FOREIGN KEY (checklist_item_id) REFERENCES public.inspection_checklist_item(id) ON DELETE SET NULL,
+    CONSTRAINT inspection_result_recorded_by_fkey FOREIGN KEY (recorded_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT check_inspection_result CHECK (result IN ('pass', 'fail', 'na')),
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS inspection_result_ticket_item_key ON public.inspection_result USING btree (ticket_id, checklist_item_id);
+CREATE INDEX IF NOT EXISTS idx_inspection_result_equipment_instance_id ON public.inspection_result USING btree (equipment_instance_id);
+CREATE INDEX IF NOT EXISTS idx_inspection_result_result ON public.inspection_result USING btree (result);
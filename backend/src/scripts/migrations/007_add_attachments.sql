@@ -0,0 +1,25 @@
+-- Migration 007: Add Attachments
+-- Photos and documents attached to maintenance tickets and equipment instances.
+-- File contents live in attachment storage; this table holds the metadata.
+-- Created: 2026-10-19
+
+CREATE SEQUENCE IF NOT EXISTS attachment_id_seq;
+CREATE TABLE IF NOT EXISTS public.attachment (
+    id int4 NOT NULL DEFAULT nextval('attachment_id_seq'::regclass),
+    entity_type varchar(30) NOT NULL,
+    entity_id int4 NOT NULL,
+    category varchar(20) DEFAULT 'other',
+    original_name varchar(255) NOT NULL,
+    storage_key varchar(255) NOT NULL,
+    mime_type varchar(100) NOT NULL,
+    file_size int4 NOT NULL,
+    uploaded_by int4,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    deleted_at timestamptz,
+    CONSTRAINT attachment_uploaded_by_fkey FOREIGN KEY (uploaded_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT check_attachment_entity_type CHECK (entity_type IN ('maintenance_ticket', 'equipment_instance')),
+    CONSTRAINT check_attachment_category CHECK (category IN ('before', 'after', 'certificate', 'other')),
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS attachment_storage_key_key ON public.attachment USING btree (storage_key);
+CREATE INDEX IF NOT EXISTS idx_attachment_entity ON public.attachment USING btree (entity_type, entity_id) WHERE deleted_at IS NULL;
@@ -0,0 +1,112 @@
+-- Migration 008: Add Maintenance Plans
+-- Vendors attach recurring schedules (monthly check, annual service, 5-year
+-- hydrostatic test, 10-year replacement) to an equipment type or a single
+-- instance. Each schedule raises its own tickets and is tracked separately.
+-- Created: 2026-10-19
+
+-- A recurring schedule. Type-level schedules apply to every instance of the
+-- equipment; an instance-level schedule with the same category replaces the
+-- type-level one for that instance (an inactive override switches it off).
+CREATE SEQUENCE IF NOT EXISTS maintenance_schedule_id_seq;
+CREATE TABLE IF NOT EXISTS public.maintenance_schedule (
+    id int4 NOT NULL DEFAULT nextval('maintenance_schedule_id_seq'::regclass),
+    vendor_id int4 NOT NULL,
+    equipment_id int4,
+    equipment_instance_id int4,
+    schedule_name varchar(200) NOT NULL,
+    category varchar(100) NOT NULL,
+    interval_months int4 NOT NULL,
+    lead_days int4 NOT NULL DEFAULT 7,
+    is_active bool DEFAULT true,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT maintenance_schedule_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id) ON DELETE CASCADE,
+    CONSTRAINT maintenance_schedule_equipment_id_fkey FOREIGN KEY (equipment_id) REFERENCES public.equipment(id) ON DELETE CASCADE,
+    CONSTRAINT maintenance_schedule_equipment_instance_id_fkey FOREIGN KEY (equipment_instance_id) REFERENCES public.equipment_instance(id) ON DELETE CASCADE,
+    CONSTRAINT check_schedule_target CHECK ((equipment_id IS NULL) <> (equipment_instance_id IS NULL)),
+    CONSTRAINT check_schedule_interval CHECK (interval_months BETWEEN 1 AND 240),
+    CONSTRAINT check_schedule_lead_days CHECK (lead_days BETWEEN 0 AND 90),
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS maintenance_schedule_equipment_category_key ON public.maintenance_schedule USING btree (equipment_id, category) WHERE equipment_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS maintenance_schedule_instance_category_key ON public.maintenance_schedule USING btree (equipment_instance_id, category) WHERE equipment_instance_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_maintenance_schedule_vendor_id ON public.maintenance_schedule USING btree (vendor_id);
+
+-- Completion tracking per instance and schedule. A missing row means the
+-- schedule has not been completed yet for that instance.
+CREATE TABLE IF NOT EXISTS public.equipment_schedule_status (
+    equipment_instance_id int4 NOT NULL,
+    schedule_id int4 NOT NULL,
+    last_completed_date date,
+    next_due_date date NOT NULL,
+    last_ticket_id int4,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT equipment_schedule_status_instance_fkey FOREIGN KEY (equipment_instance_id) REFERENCES public.equipment_instance(id) ON DELETE CASCADE,
+    CONSTRAINT equipment_schedule_status_schedule_fkey FOREIGN KEY (schedule_id) REFERENCES public.maintenance_schedule(id) ON DELETE CASCADE,
+    CONSTRAINT equipment_schedule_status_ticket_fkey FOREIGN KEY (last_ticket_id) REFERENCES public.maintenance_ticket(id) ON DELETE SET NULL,
+    PRIMARY KEY (equipment_instance_id, schedule_id)
+);
+
+-- Tickets raised by a schedule
+ALTER TABLE public.maintenance_ticket ADD COLUMN IF NOT EXISTS maintenance_schedule_id int4;
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'maintenance_ticket_schedule_id_fkey') THEN
+        ALTER TABLE public.maintenance_ticket
+            ADD CONSTRAINT maintenance_ticket_schedule_id_fkey FOREIGN KEY (maintenance_schedule_id)
+            REFERENCES public.maintenance_schedule(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+CREATE INDEX IF NOT EXISTS idx_maintenance_ticket_schedule_id ON public.maintenance_ticket USING btree (maintenance_schedule_id);
+
+-- Effective schedules per instance with their next due date. Until a schedule
+-- is first completed, it falls due on the first cycle from the purchase date
+-- after the schedule was created, so adding a plan doesn't flood the vendor
+-- with overdue tickets for cycles that predate it.
+CREATE OR REPLACE VIEW public.equipment_schedule_due AS
+SELECT
+    ei.id AS equipment_instance_id,
+    ei.vendor_id,
+    ei.assigned_to AS client_id,
+    ms.id AS schedule_id,
+    ms.schedule_name,
+    ms.category,
+    ms.interval_months,
+    ms.lead_days,
+    (ms.equipment_instance_id IS NOT NULL) AS is_instance_schedule,
+    st.last_completed_date,
+    st.last_ticket_id,
+    due.next_due_date,
+    CASE
+        WHEN due.next_due_date < CURRENT_DATE THEN 'overdue'
+        WHEN due.next_due_date <= CURRENT_DATE + INTERVAL '30 days' THEN 'due_soon'
+        ELSE 'compliant'
+    END AS compliance_status
+FROM public.equipment_instance ei
+JOIN public.maintenance_schedule ms
+    ON ms.vendor_id = ei.vendor_id
+    AND ms.is_active = true
+    AND (
+        ms.equipment_instance_id = ei.id
+        OR (
+            ms.equipment_id = ei.equipment_id
+            AND NOT EXISTS (
+                SELECT 1 FROM public.maintenance_schedule o
+                WHERE o.equipment_instance_id = ei.id AND o.category = ms.category
+            )
+        )
+    )
+LEFT JOIN public.equipment_schedule_status st
+    ON st.equipment_instance_id = ei.id AND st.schedule_id = ms.id
+CROSS JOIN LATERAL (
+    SELECT COALESCE(
+        st.next_due_date,
+        (ei.purchase_date + make_interval(months => ms.interval_months * (
+            GREATEST(0, (
+                EXTRACT(YEAR FROM age(ms.created_at::date, ei.purchase_date)) * 12
+                + EXTRACT(MONTH FROM age(ms.created_at::date, ei.purchase_date))
+            )::int) / ms.interval_months + 1
+        )))::date
+    ) AS next_due_date
+) due
+WHERE ei.deleted_at IS NULL;
@@ -0,0 +1,26 @@
+-- Migration 009: Add Calendar Feeds
+-- Secret-token ICS feeds so vendors and technicians can subscribe to their
+-- scheduled tickets from Google Calendar, Outlook or Apple Calendar
+-- Created: 2026-10-19
+
+-- One feed per vendor (all technicians) and one per technician. The token is
+-- the only credential calendar apps can send, so rotating it revokes access.
+CREATE SEQUENCE IF NOT EXISTS calendar_feed_id_seq;
+CREATE TABLE IF NOT EXISTS public.calendar_feed (
+    id int4 NOT NULL DEFAULT nextval('calendar_feed_id_seq'::regclass),
+    vendor_id int4 NOT NULL,
+    technician_user_id int4,
+    token varchar(64) NOT NULL,
+    created_by int4,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    last_accessed_at timestamptz,
+    CONSTRAINT calendar_feed_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id) ON DELETE CASCADE,
+    CONSTRAINT calendar_feed_technician_user_id_fkey FOREIGN KEY (technician_user_id) REFERENCES public.user(id) ON DELETE CASCADE,
+    CONSTRAINT calendar_feed_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feed_token_key ON public.calendar_feed USING btree (token);
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feed_vendor_technician_key ON public.calendar_feed USING btree (vendor_id, COALESCE(technician_user_id, 0));
+
+-- Calendar queries filter open tickets by technician and date range
+CREATE INDEX IF NOT EXISTS idx_maintenance_ticket_technician_schedule ON public.maintenance_ticket USING btree (assigned_technician, scheduled_date);
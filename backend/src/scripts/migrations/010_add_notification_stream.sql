@@ -0,0 +1,26 @@
+-- Migration 010: Add Notification Stream
+-- Publishes every new notification row on the notification_created channel
+-- so the API can push it to connected browsers over server-sent events.
+-- Covers rows written by the notify_* triggers as well as by the API.
+-- Created: 2026-10-19
+
+-- Only the IDs are sent; NOTIFY payloads are limited to 8000 bytes and the
+-- listener loads the full row itself
+CREATE OR REPLACE FUNCTION publish_notification_created()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.user_id IS NOT NULL THEN
+        PERFORM pg_notify(
+            'notification_created',
+            json_build_object('id', NEW.id, 'user_id', NEW.user_id)::text
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_publish_notification_created ON public.notification;
+CREATE TRIGGER trigger_publish_notification_created
+    AFTER INSERT ON public.notification
+    FOR EACH ROW
+    EXECUTE FUNCTION publish_notification_created();
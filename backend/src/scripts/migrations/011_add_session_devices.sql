@@ -0,0 +1,15 @@
+-- Migration 011: Add Session Devices
+-- Turns user_sessions into one row per login so users can see where they
+-- are signed in and sign devices out remotely. Access tokens carry the
+-- row's session_token; revoking the row ends that device's session.
+-- Created: 2026-10-19
+
+ALTER TABLE public.user_sessions
+    ADD COLUMN IF NOT EXISTS device_name varchar(255),
+    ADD COLUMN IF NOT EXISTS revoked_at timestamptz,
+    ADD COLUMN IF NOT EXISTS revoked_by int4 REFERENCES public."user"(id) ON DELETE SET NULL;
+
+-- Listing a user's active sessions
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_active
+    ON public.user_sessions USING btree (user_id)
+    WHERE is_active = true;
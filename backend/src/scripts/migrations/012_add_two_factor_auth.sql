@@ -0,0 +1,43 @@
+-- Migration 012: Add Two-Factor Authentication
+-- Optional TOTP second factor for admin and vendor accounts, with single-use
+-- recovery codes. Admins can make it mandatory with require_two_factor_auth.
+-- Created: 2026-10-19
+
+ALTER TABLE public."user"
+    ADD COLUMN IF NOT EXISTS two_factor_enabled bool NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS two_factor_secret varchar(64),
+    -- Secret generated during enrollment, promoted once the first code checks out
+    ADD COLUMN IF NOT EXISTS two_factor_pending_secret varchar(64),
+    ADD COLUMN IF NOT EXISTS two_factor_enabled_at timestamptz,
+    -- Last accepted 30-second time step, so a code cannot be replayed
+    ADD COLUMN IF NOT EXISTS two_factor_last_step int8;
+
+-- Only SHA-256 hashes of recovery codes are stored
+CREATE SEQUENCE IF NOT EXISTS user_recovery_code_id_seq;
+CREATE TABLE IF NOT EXISTS public.user_recovery_code (
+    id int4 NOT NULL DEFAULT nextval('user_recovery_code_id_seq'::regclass),
+    user_id int4 NOT NULL,
+    code_hash varchar(64) NOT NULL,
+    used_at timestamptz,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT user_recovery_code_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.user(id) ON DELETE CASCADE,
+    PRIMARY KEY (id)
+);
+CREATE INDEX IF NOT EXISTS idx_user_recovery_code_user_id
+    ON public.user_recovery_code USING btree (user_id);
+
+INSERT INTO public.system_settings (
+  setting_key,
+  setting_value,
+  setting_type,
+  description,
+  updated_at,
+  updated_by
+) VALUES (
+  'require_two_factor_auth',
+  'false',
+  'boolean',
+  'Require admin and vendor accounts to use two-factor authentication',
+  CURRENT_TIMESTAMP,
+  NULL
+) ON CONFLICT (setting_key) DO NOTHING;
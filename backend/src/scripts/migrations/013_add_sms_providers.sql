@@ -0,0 +1,20 @@
+-- Migration 013: Add SMS Providers
+-- Lets admins pick the SMS gateway (Dialog eSMS, a Twilio-style HTTP API or
+-- the local mock) and the country code assumed for numbers entered without one.
+-- Records which provider handled each logged message.
+-- Created: 2026-10-19
+
+ALTER TABLE public.sms_logs
+    ADD COLUMN IF NOT EXISTS provider varchar(20);
+
+INSERT INTO public.system_settings (
+  setting_key,
+  setting_value,
+  setting_type,
+  description,
+  updated_at,
+  updated_by
+) VALUES
+  ('sms_provider', 'dialog', 'string', 'SMS gateway used to send messages: dialog, http or mock', CURRENT_TIMESTAMP, NULL),
+  ('sms_default_country_code', '94', 'string', 'Country calling code assumed for phone numbers entered without one', CURRENT_TIMESTAMP, NULL)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,40 @@
+-- Migration 014: Add Message Queue
+-- Outbound emails and SMS are queued and delivered by a background worker
+-- with exponential backoff, instead of being sent inline from controllers.
+-- Messages that keep failing stop in 'dead' for an admin to retry or cancel.
+-- Created: 2026-10-19
+
+-- status: pending (waiting for first or next attempt), processing (claimed by
+-- a worker), sent, skipped (nothing to deliver, e.g. SMS disabled or the
+-- recipient opted out), dead (gave up after max_attempts), cancelled
+CREATE SEQUENCE IF NOT EXISTS outbound_message_id_seq;
+CREATE TABLE IF NOT EXISTS public.outbound_message (
+    id int4 NOT NULL DEFAULT nextval('outbound_message_id_seq'::regclass),
+    channel varchar(10) NOT NULL,
+    payload jsonb NOT NULL,
+    -- Stops the same notification (e.g. a ticket's creation email) being queued twice
+    idempotency_key varchar(255),
+    status varchar(20) NOT NULL DEFAULT 'pending',
+    attempts int4 NOT NULL DEFAULT 0,
+    max_attempts int4 NOT NULL DEFAULT 6,
+    next_attempt_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_at timestamptz,
+    last_error text,
+    related_entity_type varchar(50),
+    related_entity_id int4,
+    sent_at timestamptz,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT outbound_message_channel_check CHECK (channel IN ('email', 'sms')),
+    CONSTRAINT outbound_message_status_check CHECK (status IN ('pending', 'processing', 'sent', 'skipped', 'dead', 'cancelled')),
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS outbound_message_idempotency_key_key
+    ON public.outbound_message USING btree (idempotency_key);
+
+-- The worker polls for due pending messages
+CREATE INDEX IF NOT EXISTS idx_outbound_message_due
+    ON public.outbound_message USING btree (next_attempt_at)
+    WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_outbound_message_status
+    ON public.outbound_message USING btree (status, created_at DESC);
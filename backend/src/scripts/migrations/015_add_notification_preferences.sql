@@ -0,0 +1,123 @@
+-- Migration 015: Add Notification Preferences
+-- Per-user preference matrix of event type x channel (in-app, email, SMS),
+-- plus quiet hours and a daily email digest. A missing row means every
+-- channel is on for that event.
+-- Created: 2026-10-19
+
+CREATE SEQUENCE IF NOT EXISTS notification_preference_id_seq;
+CREATE TABLE IF NOT EXISTS public.notification_preference (
+    id int4 NOT NULL DEFAULT nextval('notification_preference_id_seq'::regclass),
+    user_id int4 NOT NULL,
+    event_type varchar(30) NOT NULL,
+    in_app_enabled bool NOT NULL DEFAULT true,
+    email_enabled bool NOT NULL DEFAULT true,
+    sms_enabled bool NOT NULL DEFAULT true,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT notification_preference_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.user(id) ON DELETE CASCADE,
+    CONSTRAINT notification_preference_event_type_check CHECK (event_type IN (
+        'ticket_created', 'ticket_updated', 'ticket_resolved',
+        'maintenance_due', 'equipment_expiry', 'assignment', 'account'
+    )),
+    CONSTRAINT notification_preference_user_event_key UNIQUE (user_id, event_type),
+    PRIMARY KEY (id)
+);
+
+-- Quiet hours are wall-clock times in notification_timezone (server time
+-- zone when null). A window may wrap past midnight, e.g. 22:00-07:00.
+ALTER TABLE public."user"
+    ADD COLUMN IF NOT EXISTS quiet_hours_start time,
+    ADD COLUMN IF NOT EXISTS quiet_hours_end time,
+    ADD COLUMN IF NOT EXISTS notification_timezone varchar(64),
+    ADD COLUMN IF NOT EXISTS email_digest_enabled bool NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS email_digest_hour int2 NOT NULL DEFAULT 8;
+
+-- Emails held back for a user's next daily digest
+CREATE SEQUENCE IF NOT EXISTS notification_digest_item_id_seq;
+CREATE TABLE IF NOT EXISTS public.notification_digest_item (
+    id int4 NOT NULL DEFAULT nextval('notification_digest_item_id_seq'::regclass),
+    user_id int4 NOT NULL,
+    event_type varchar(30) NOT NULL,
+    subject varchar(255) NOT NULL,
+    action_url text,
+    digested_at timestamptz,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT notification_digest_item_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.user(id) ON DELETE CASCADE,
+    PRIMARY KEY (id)
+);
+CREATE INDEX IF NOT EXISTS idx_notification_digest_item_pending
+    ON public.notification_digest_item USING btree (user_id, created_at)
+    WHERE digested_at IS NULL;
+
+-- Carry the legacy per-type SMS switches over to the new matrix
+INSERT INTO public.notification_preference (user_id, event_type, sms_enabled)
+SELECT id, 'ticket_created', false FROM public."user" WHERE sms_high_priority_tickets = false
+ON CONFLICT (user_id, event_type) DO NOTHING;
+
+INSERT INTO public.notification_preference (user_id, event_type, sms_enabled)
+SELECT id, 'equipment_expiry', false FROM public."user" WHERE sms_compliance_alerts = false
+ON CONFLICT (user_id, event_type) DO NOTHING;
+
+INSERT INTO public.notification_preference (user_id, event_type, sms_enabled)
+SELECT id, 'maintenance_due', false FROM public."user" WHERE sms_maintenance_reminders = false
+ON CONFLICT (user_id, event_type) DO NOTHING;
+
+-- In-app notifications: most are inserted by triggers, so preferences are
+-- applied in the database. Callers may set event_type explicitly; otherwise
+-- it is derived from the category. Security alerts (lockouts) have no event
+-- type and can't be muted.
+ALTER TABLE public.notification
+    ADD COLUMN IF NOT EXISTS event_type varchar(30);
+
+CREATE OR REPLACE FUNCTION notification_event_type(p_category text, p_title text, p_metadata jsonb)
+RETURNS varchar AS $$
+BEGIN
+    CASE
+        WHEN p_category IN ('ticket', 'service_request', 'ticket_management') THEN
+            RETURN CASE
+                WHEN p_metadata->>'status' IN ('resolved', 'closed') THEN 'ticket_resolved'
+                WHEN p_metadata->>'status' = 'open' THEN 'ticket_created'
+                ELSE 'ticket_updated'
+            END;
+        WHEN p_category IN ('assignment', 'equipment_assignment', 'equipment_management',
+                            'equipment_alert', 'equipment_status') THEN
+            RETURN 'assignment';
+        WHEN p_category = 'equipment' THEN
+            RETURN CASE
+                WHEN p_title ILIKE '%maintenance%' THEN 'maintenance_due'
+                ELSE 'equipment_expiry'
+            END;
+        WHEN p_category IN ('account', 'client', 'client_management', 'vendor_management') THEN
+            RETURN 'account';
+        ELSE
+            RETURN NULL;
+    END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION apply_notification_preferences()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.event_type IS NULL THEN
+        NEW.event_type := notification_event_type(NEW.category, NEW.title, NEW.metadata::jsonb);
+    END IF;
+
+    -- Returning NULL drops the row, so muted notifications are never stored or streamed
+    IF NEW.event_type IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.notification_preference np
+        WHERE np.user_id = NEW.user_id
+          AND np.event_type = NEW.event_type
+          AND np.in_app_enabled = false
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_apply_notification_preferences ON public.notification;
+CREATE TRIGGER trigger_apply_notification_preferences
+    BEFORE INSERT ON public.notification
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_notification_preferences();
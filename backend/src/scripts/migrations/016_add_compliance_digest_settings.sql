@@ -0,0 +1,20 @@
+-- Migration 016: Add Compliance Digest Settings
+-- Maintenance reminders and expiry alerts are grouped into one digest email
+-- per client and vendor instead of one email per equipment item. These
+-- settings control when the digest goes out and what it covers.
+-- Created: 2026-10-19
+
+INSERT INTO public.system_settings (
+  setting_key,
+  setting_value,
+  setting_type,
+  description,
+  updated_at,
+  updated_by
+) VALUES
+  ('compliance_digest_frequency', 'daily', 'string', 'How often the compliance digest email is sent: daily, weekly or off', CURRENT_TIMESTAMP, NULL),
+  ('compliance_digest_weekday', '1', 'number', 'Day of the week weekly digests are sent (0 = Sunday)', CURRENT_TIMESTAMP, NULL),
+  ('compliance_digest_hour', '9', 'number', 'Hour of the day (server time) the compliance digest is sent', CURRENT_TIMESTAMP, NULL),
+  ('compliance_digest_lookahead_days', '30', 'number', 'How many days ahead the digest looks for maintenance and expiries', CURRENT_TIMESTAMP, NULL),
+  ('compliance_digest_attachment', 'csv', 'string', 'Full equipment list attached to the digest: csv, pdf or none', CURRENT_TIMESTAMP, NULL)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,45 @@
+-- Migration 017: Add Message Templates
+-- Admin-edited email and SMS templates. A row overrides the built-in template
+-- for one template type, either for everyone (vendor_id NULL) or for one
+-- vendor's clients. Every save is kept as a version so edits can be rolled back.
+-- Created: 2026-10-19
+
+CREATE SEQUENCE IF NOT EXISTS message_template_id_seq;
+CREATE TABLE IF NOT EXISTS public.message_template (
+    id int4 NOT NULL DEFAULT nextval('message_template_id_seq'::regclass),
+    channel varchar(10) NOT NULL,
+    template_type varchar(60) NOT NULL,
+    vendor_id int4,
+    -- Email only; NULL keeps the subject the application builds
+    subject text,
+    body text NOT NULL,
+    current_version int4 NOT NULL DEFAULT 1,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_by int4,
+    CONSTRAINT message_template_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id) ON DELETE CASCADE,
+    CONSTRAINT message_template_updated_by_fkey FOREIGN KEY (updated_by) REFERENCES public.user(id),
+    CONSTRAINT check_message_template_channel CHECK (channel IN ('email', 'sms')),
+    CONSTRAINT check_message_template_subject CHECK (channel = 'email' OR subject IS NULL),
+    PRIMARY KEY (id)
+);
+-- One override per template type per vendor, and one system-wide
+CREATE UNIQUE INDEX IF NOT EXISTS message_template_scope_key
+    ON public.message_template USING btree (channel, template_type, COALESCE(vendor_id, 0));
+CREATE INDEX IF NOT EXISTS idx_message_template_vendor_id ON public.message_template USING btree (vendor_id);
+
+CREATE SEQUENCE IF NOT EXISTS message_template_version_id_seq;
+CREATE TABLE IF NOT EXISTS public.message_template_version (
+    id int4 NOT NULL DEFAULT nextval('message_template_version_id_seq'::regclass),
+    template_id int4 NOT NULL,
+    version int4 NOT NULL,
+    subject text,
+    body text NOT NULL,
+    change_note varchar(255),
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    created_by int4,
+    CONSTRAINT message_template_version_template_id_fkey FOREIGN KEY (template_id) REFERENCES public.message_template(id) ON DELETE CASCADE,
+    CONSTRAINT message_template_version_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.user(id),
+    CONSTRAINT message_template_version_key UNIQUE (template_id, version),
+    PRIMARY KEY (id)
+);
@@ -0,0 +1,27 @@
+-- Migration 018: Add Vendor Branding
+-- Lets each vendor white-label what their clients see: a display name, logo,
+-- colors, contact block and email sender name, applied to the client portal,
+-- notification emails and PDF reports. NULL columns fall back to the
+-- Fire Guardian defaults. The contact block also uses the vendor's phone
+-- and address columns.
+-- Created: 2026-10-19
+
+ALTER TABLE public.vendors
+    ADD COLUMN IF NOT EXISTS brand_name varchar(200),
+    ADD COLUMN IF NOT EXISTS brand_tagline varchar(255),
+    ADD COLUMN IF NOT EXISTS brand_primary_color varchar(7),
+    ADD COLUMN IF NOT EXISTS brand_secondary_color varchar(7),
+    ADD COLUMN IF NOT EXISTS brand_logo_key varchar(500),
+    ADD COLUMN IF NOT EXISTS brand_logo_mime_type varchar(50),
+    ADD COLUMN IF NOT EXISTS brand_contact_email varchar(255),
+    ADD COLUMN IF NOT EXISTS brand_website varchar(255),
+    ADD COLUMN IF NOT EXISTS email_sender_name varchar(100),
+    ADD COLUMN IF NOT EXISTS brand_updated_at timestamptz;
+
+ALTER TABLE public.vendors
+    DROP CONSTRAINT IF EXISTS check_vendor_brand_colors;
+ALTER TABLE public.vendors
+    ADD CONSTRAINT check_vendor_brand_colors CHECK (
+        (brand_primary_color IS NULL OR brand_primary_color ~ '^#[0-9A-Fa-f]{6}$')
+        AND (brand_secondary_color IS NULL OR brand_secondary_color ~ '^#[0-9A-Fa-f]{6}$')
+    );
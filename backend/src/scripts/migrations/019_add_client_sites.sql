@@ -0,0 +1,86 @@
+-- Migration 019: Add Client Sites
+-- Clients can have many sites (each with its own address, coordinates and
+-- contact person), and each site is divided into buildings, floors and rooms.
+-- Equipment instances are placed into a site and optionally a zone; the free
+-- text location stays for details like "left of the east stairwell".
+-- Created: 2026-10-19
+
+CREATE SEQUENCE IF NOT EXISTS client_site_id_seq;
+CREATE TABLE IF NOT EXISTS public.client_site (
+    id int4 NOT NULL DEFAULT nextval('client_site_id_seq'::regclass),
+    client_id int4 NOT NULL,
+    site_name varchar(200) NOT NULL,
+    street_address text,
+    city varchar(200),
+    state varchar(200),
+    zip_code varchar(50),
+    country varchar(200) DEFAULT 'Sri Lanka',
+    latitude numeric(9,6),
+    longitude numeric(9,6),
+    contact_name varchar(200),
+    contact_phone varchar(50),
+    contact_email varchar(255),
+    notes text,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT client_site_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id) ON DELETE CASCADE,
+    CONSTRAINT check_client_site_latitude CHECK (latitude BETWEEN -90 AND 90),
+    CONSTRAINT check_client_site_longitude CHECK (longitude BETWEEN -180 AND 180),
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS client_site_client_name_key ON public.client_site USING btree (client_id, lower(site_name));
+CREATE INDEX IF NOT EXISTS idx_client_site_client_id ON public.client_site USING btree (client_id);
+
+-- Building -> floor -> room. Buildings have no parent, floors sit in a
+-- building and rooms in a floor; the application enforces the nesting.
+CREATE SEQUENCE IF NOT EXISTS site_zone_id_seq;
+CREATE TABLE IF NOT EXISTS public.site_zone (
+    id int4 NOT NULL DEFAULT nextval('site_zone_id_seq'::regclass),
+    site_id int4 NOT NULL,
+    parent_id int4,
+    zone_type varchar(20) NOT NULL,
+    zone_name varchar(200) NOT NULL,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT site_zone_site_id_fkey FOREIGN KEY (site_id) REFERENCES public.client_site(id) ON DELETE CASCADE,
+    CONSTRAINT site_zone_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES public.site_zone(id) ON DELETE CASCADE,
+    CONSTRAINT check_site_zone_type CHECK (zone_type IN ('building', 'floor', 'room')),
+    CONSTRAINT check_site_zone_parent CHECK ((zone_type = 'building') = (parent_id IS NULL)),
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS site_zone_sibling_name_key ON public.site_zone USING btree (site_id, COALESCE(parent_id, 0), lower(zone_name));
+CREATE INDEX IF NOT EXISTS idx_site_zone_site_id ON public.site_zone USING btree (site_id);
+CREATE INDEX IF NOT EXISTS idx_site_zone_parent_id ON public.site_zone USING btree (parent_id);
+
+-- Where each instance is placed. Cleared when the instance changes client.
+ALTER TABLE public.equipment_instance ADD COLUMN IF NOT EXISTS site_id int4;
+ALTER TABLE public.equipment_instance ADD COLUMN IF NOT EXISTS zone_id int4;
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'equipment_instance_site_id_fkey') THEN
+        ALTER TABLE public.equipment_instance
+            ADD CONSTRAINT equipment_instance_site_id_fkey FOREIGN KEY (site_id)
+            REFERENCES public.client_site(id) ON DELETE SET NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'equipment_instance_zone_id_fkey') THEN
+        ALTER TABLE public.equipment_instance
+            ADD CONSTRAINT equipment_instance_zone_id_fkey FOREIGN KEY (zone_id)
+            REFERENCES public.site_zone(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+CREATE INDEX IF NOT EXISTS idx_equipment_instance_site_id ON public.equipment_instance USING btree (site_id);
+CREATE INDEX IF NOT EXISTS idx_equipment_instance_zone_id ON public.equipment_instance USING btree (zone_id);
+
+-- Every existing client starts with one site at their current address, and
+-- the equipment already assigned to them is placed there
+INSERT INTO public.client_site (client_id, site_name, street_address, city, state, zip_code, country, contact_phone)
+SELECT c.id, 'Main Site', c.street_address, c.city, c.state, c.zip_code, c.country, c.primary_phone
+FROM public.clients c
+WHERE NOT EXISTS (SELECT 1 FROM public.client_site s WHERE s.client_id = c.id);
+
+UPDATE public.equipment_instance ei
+SET site_id = s.id
+FROM public.client_site s
+WHERE s.client_id = ei.assigned_to
+  AND ei.site_id IS NULL
+  AND s.id = (SELECT MIN(id) FROM public.client_site WHERE client_id = ei.assigned_to);
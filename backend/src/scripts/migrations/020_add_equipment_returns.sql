@@ -0,0 +1,55 @@
+-- Migration 020: Add Equipment Returns
+-- Clients ask for assigned units to be taken back (return) or replaced
+-- (swap). The vendor approves or rejects the request, then completes it:
+-- returned units go back to stock or are retired, and swap replacements take
+-- the old unit's place on the same assignment.
+-- Created: 2026-10-19
+
+CREATE SEQUENCE IF NOT EXISTS equipment_return_id_seq;
+CREATE TABLE IF NOT EXISTS public.equipment_return (
+    id int4 NOT NULL DEFAULT nextval('equipment_return_id_seq'::regclass),
+    return_number varchar(100) NOT NULL,
+    client_id int4 NOT NULL,
+    vendor_id int4 NOT NULL,
+    request_type varchar(20) NOT NULL,
+    status varchar(20) NOT NULL DEFAULT 'pending',
+    reason text NOT NULL,
+    vendor_notes text,
+    requested_by int4,
+    reviewed_by int4,
+    reviewed_at timestamptz,
+    returned_by int4,
+    return_date date,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT equipment_return_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id) ON DELETE CASCADE,
+    CONSTRAINT equipment_return_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id) ON DELETE CASCADE,
+    CONSTRAINT equipment_return_requested_by_fkey FOREIGN KEY (requested_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT equipment_return_reviewed_by_fkey FOREIGN KEY (reviewed_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT equipment_return_returned_by_fkey FOREIGN KEY (returned_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT check_equipment_return_type CHECK (request_type IN ('return', 'swap')),
+    CONSTRAINT check_equipment_return_status CHECK (status IN ('pending', 'approved', 'rejected', 'completed')),
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS equipment_return_return_number_key ON public.equipment_return USING btree (return_number);
+CREATE INDEX IF NOT EXISTS idx_equipment_return_client_id ON public.equipment_return USING btree (client_id);
+CREATE INDEX IF NOT EXISTS idx_equipment_return_vendor_status ON public.equipment_return USING btree (vendor_id, status);
+
+-- One row per unit in the request. assignment_id is the assignment the unit
+-- was on when requested; a swap's replacement joins that same assignment.
+-- disposition is filled in when the request is completed.
+CREATE TABLE IF NOT EXISTS public.equipment_return_item (
+    return_id int4 NOT NULL,
+    equipment_instance_id int4 NOT NULL,
+    assignment_id int4,
+    replacement_instance_id int4,
+    disposition varchar(20),
+    CONSTRAINT equipment_return_item_return_id_fkey FOREIGN KEY (return_id) REFERENCES public.equipment_return(id) ON DELETE CASCADE,
+    CONSTRAINT equipment_return_item_instance_id_fkey FOREIGN KEY (equipment_instance_id) REFERENCES public.equipment_instance(id),
+    CONSTRAINT equipment_return_item_assignment_id_fkey FOREIGN KEY (assignment_id) REFERENCES public.equipment_assignment(id) ON DELETE SET NULL,
+    CONSTRAINT equipment_return_item_replacement_id_fkey FOREIGN KEY (replacement_instance_id) REFERENCES public.equipment_instance(id),
+    CONSTRAINT check_equipment_return_disposition CHECK (disposition IN ('returned', 'retired')),
+    PRIMARY KEY (return_id, equipment_instance_id)
+);
+CREATE INDEX IF NOT EXISTS idx_equipment_return_item_instance_id ON public.equipment_return_item USING btree (equipment_instance_id);
+CREATE INDEX IF NOT EXISTS idx_equipment_return_item_replacement_id ON public.equipment_return_item USING btree (replacement_instance_id);
@@ -0,0 +1,103 @@
+-- Migration 021: Add Equipment Lifecycle Events
+-- An append-only ledger of what happened to each equipment instance:
+-- received, assigned, relocated, inspected, serviced, recharged, failed
+-- inspection, returned, retired and disposed. Rows are written alongside the
+-- change they describe and can never be edited or removed, so the timeline
+-- can be handed to insurers as a record of custody and servicing.
+-- Created: 2026-10-19
+
+CREATE SEQUENCE IF NOT EXISTS equipment_lifecycle_event_id_seq;
+CREATE TABLE IF NOT EXISTS public.equipment_lifecycle_event (
+    id int4 NOT NULL DEFAULT nextval('equipment_lifecycle_event_id_seq'::regclass),
+    equipment_instance_id int4 NOT NULL,
+    vendor_id int4 NOT NULL,
+    -- The client holding the unit when the event happened
+    client_id int4,
+    event_type varchar(30) NOT NULL,
+    event_date timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    description text NOT NULL,
+    ticket_id int4,
+    -- Assignment, ticket or return number the event came from
+    reference_number varchar(100),
+    metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+    -- No foreign key: the ledger outlives user accounts
+    recorded_by int4,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT equipment_lifecycle_event_instance_id_fkey FOREIGN KEY (equipment_instance_id) REFERENCES public.equipment_instance(id),
+    CONSTRAINT equipment_lifecycle_event_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id),
+    CONSTRAINT equipment_lifecycle_event_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id),
+    CONSTRAINT equipment_lifecycle_event_ticket_id_fkey FOREIGN KEY (ticket_id) REFERENCES public.maintenance_ticket(id),
+    CONSTRAINT check_lifecycle_event_type CHECK (event_type IN (
+        'received', 'assigned', 'relocated', 'inspected', 'serviced', 'recharged',
+        'failed_inspection', 'returned', 'retired', 'disposed'
+    )),
+    PRIMARY KEY (id)
+);
+CREATE INDEX IF NOT EXISTS idx_lifecycle_event_instance_date ON public.equipment_lifecycle_event USING btree (equipment_instance_id, event_date);
+CREATE INDEX IF NOT EXISTS idx_lifecycle_event_vendor_id ON public.equipment_lifecycle_event USING btree (vendor_id);
+CREATE INDEX IF NOT EXISTS idx_lifecycle_event_client_id ON public.equipment_lifecycle_event USING btree (client_id);
+
+CREATE OR REPLACE FUNCTION prevent_lifecycle_event_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'equipment_lifecycle_event is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_lifecycle_event_change ON public.equipment_lifecycle_event;
+CREATE TRIGGER trigger_prevent_lifecycle_event_change
+    BEFORE UPDATE OR DELETE ON public.equipment_lifecycle_event
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_lifecycle_event_change();
+
+-- Backfill from existing records the first time the migration runs. Only
+-- what can still be reconstructed is included; every row is marked as such.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.equipment_lifecycle_event) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.equipment_lifecycle_event (
+        equipment_instance_id, vendor_id, event_type, event_date, description, metadata
+    )
+    SELECT ei.id, ei.vendor_id, 'received', COALESCE(ei.purchase_date::timestamptz, ei.created_at),
+           'Added to inventory', '{"backfilled": true}'::jsonb
+    FROM public.equipment_instance ei
+    WHERE ei.vendor_id IS NOT NULL;
+
+    INSERT INTO public.equipment_lifecycle_event (
+        equipment_instance_id, vendor_id, client_id, event_type, event_date, description, reference_number, metadata
+    )
+    SELECT ai.equipment_instance_id, ea.vendor_id, ea.client_id, 'assigned', ea.assigned_at,
+           'Assigned to ' || c.company_name, ea.assignment_number, '{"backfilled": true}'::jsonb
+    FROM public.assignment_item ai
+    JOIN public.equipment_assignment ea ON ai.assignment_id = ea.id
+    JOIN public.clients c ON ea.client_id = c.id
+    WHERE ea.vendor_id IS NOT NULL;
+
+    INSERT INTO public.equipment_lifecycle_event (
+        equipment_instance_id, vendor_id, client_id, event_type, event_date, description, ticket_id, reference_number, metadata
+    )
+    SELECT mt.equipment_instance_id, mt.vendor_id, mt.client_id,
+           CASE
+               WHEN EXISTS (SELECT 1 FROM public.inspection_result ir WHERE ir.ticket_id = mt.id AND ir.result = 'fail') THEN 'failed_inspection'
+               WHEN EXISTS (SELECT 1 FROM public.inspection_result ir WHERE ir.ticket_id = mt.id) THEN 'inspected'
+               ELSE 'serviced'
+           END,
+           mt.resolved_at, COALESCE(mt.resolution_description, mt.issue_description),
+           mt.id, mt.ticket_number, '{"backfilled": true}'::jsonb
+    FROM public.maintenance_ticket mt
+    WHERE mt.support_type = 'maintenance'
+      AND mt.equipment_instance_id IS NOT NULL
+      AND mt.vendor_id IS NOT NULL
+      AND mt.resolved_at IS NOT NULL;
+
+    INSERT INTO public.equipment_lifecycle_event (
+        equipment_instance_id, vendor_id, event_type, event_date, description, metadata
+    )
+    SELECT ei.id, ei.vendor_id, 'disposed', ei.deleted_at, 'Removed from inventory', '{"backfilled": true}'::jsonb
+    FROM public.equipment_instance ei
+    WHERE ei.vendor_id IS NOT NULL
+      AND ei.deleted_at IS NOT NULL;
+END $$;
@@ -0,0 +1,94 @@
+-- Migration 022: Add Parts Inventory
+-- A per-vendor catalog of spare parts and consumables (extinguishing agent,
+-- seals, pins, gauges, hoses) with stock on hand. Parts used on a ticket are
+-- recorded as lines on the ticket and deducted from stock when it is
+-- resolved; every change to stock is kept as a movement.
+-- Created: 2026-10-19
+
+CREATE SEQUENCE IF NOT EXISTS part_id_seq;
+CREATE TABLE IF NOT EXISTS public.part (
+    id int4 NOT NULL DEFAULT nextval('part_id_seq'::regclass),
+    vendor_id int4 NOT NULL,
+    part_number varchar(100) NOT NULL,
+    part_name varchar(255) NOT NULL,
+    category varchar(30) NOT NULL DEFAULT 'other',
+    -- Unit stock is counted in, e.g. each, kg or litre
+    unit varchar(20) NOT NULL DEFAULT 'each',
+    unit_cost numeric(10, 2) NOT NULL DEFAULT 0,
+    quantity_on_hand numeric(10, 2) NOT NULL DEFAULT 0,
+    reorder_level numeric(10, 2) NOT NULL DEFAULT 0,
+    is_active bool NOT NULL DEFAULT true,
+    -- Set when the vendor is told stock is low; cleared once it is restocked
+    low_stock_notified_at timestamptz,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT part_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id) ON DELETE CASCADE,
+    CONSTRAINT part_vendor_number_key UNIQUE (vendor_id, part_number),
+    CONSTRAINT check_part_category CHECK (category IN ('extinguishing_agent', 'seal', 'pin', 'gauge', 'hose', 'other')),
+    CONSTRAINT check_part_quantity CHECK (quantity_on_hand >= 0),
+    CONSTRAINT check_part_reorder_level CHECK (reorder_level >= 0),
+    CONSTRAINT check_part_unit_cost CHECK (unit_cost >= 0),
+    PRIMARY KEY (id)
+);
+CREATE INDEX IF NOT EXISTS idx_part_vendor_id ON public.part USING btree (vendor_id);
+
+CREATE SEQUENCE IF NOT EXISTS maintenance_ticket_part_id_seq;
+CREATE TABLE IF NOT EXISTS public.maintenance_ticket_part (
+    id int4 NOT NULL DEFAULT nextval('maintenance_ticket_part_id_seq'::regclass),
+    ticket_id int4 NOT NULL,
+    part_id int4 NOT NULL,
+    quantity numeric(10, 2) NOT NULL,
+    -- Cost at the time of use, so later price changes don't rewrite history
+    unit_cost numeric(10, 2) NOT NULL,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT maintenance_ticket_part_ticket_id_fkey FOREIGN KEY (ticket_id) REFERENCES public.maintenance_ticket(id) ON DELETE CASCADE,
+    CONSTRAINT maintenance_ticket_part_part_id_fkey FOREIGN KEY (part_id) REFERENCES public.part(id),
+    CONSTRAINT maintenance_ticket_part_ticket_part_key UNIQUE (ticket_id, part_id),
+    CONSTRAINT check_ticket_part_quantity CHECK (quantity > 0),
+    PRIMARY KEY (id)
+);
+CREATE INDEX IF NOT EXISTS idx_ticket_part_part_id ON public.maintenance_ticket_part USING btree (part_id);
+
+CREATE SEQUENCE IF NOT EXISTS part_stock_movement_id_seq;
+CREATE TABLE IF NOT EXISTS public.part_stock_movement (
+    id int4 NOT NULL DEFAULT nextval('part_stock_movement_id_seq'::regclass),
+    part_id int4 NOT NULL,
+    movement_type varchar(20) NOT NULL,
+    -- Signed: positive adds to stock, negative takes from it
+    quantity numeric(10, 2) NOT NULL,
+    quantity_after numeric(10, 2) NOT NULL,
+    unit_cost numeric(10, 2),
+    ticket_id int4,
+    notes text,
+    recorded_by int4,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT part_stock_movement_part_id_fkey FOREIGN KEY (part_id) REFERENCES public.part(id) ON DELETE CASCADE,
+    CONSTRAINT part_stock_movement_ticket_id_fkey FOREIGN KEY (ticket_id) REFERENCES public.maintenance_ticket(id) ON DELETE SET NULL,
+    CONSTRAINT part_stock_movement_recorded_by_fkey FOREIGN KEY (recorded_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT check_part_movement_type CHECK (movement_type IN ('received', 'adjusted', 'used')),
+    PRIMARY KEY (id)
+);
+CREATE INDEX IF NOT EXISTS idx_part_movement_part_date ON public.part_stock_movement USING btree (part_id, created_at);
+
+-- Permissions. Move the sequence past seeded ids first.
+SELECT setval('permission_id_seq', (SELECT COALESCE(MAX(id), 0) + 1 FROM public.permission), false);
+
+INSERT INTO public.permission (permission_name, description, category) VALUES
+  ('manage_parts', 'Manage the spare parts catalog and stock levels', 'maintenance')
+ON CONFLICT (permission_name) DO NOTHING;
+
+INSERT INTO public.role_permission (role_id, permission_id, granted_by)
+SELECT r.id, p.id, NULL
+FROM public.role r
+JOIN public.permission p ON p.permission_name = 'manage_parts'
+WHERE r.role_name IN ('admin', 'vendor')
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+-- Low-stock alerts get their own notification preference
+ALTER TABLE public.notification_preference
+    DROP CONSTRAINT IF EXISTS notification_preference_event_type_check;
+ALTER TABLE public.notification_preference
+    ADD CONSTRAINT notification_preference_event_type_check CHECK (event_type IN (
+        'ticket_created', 'ticket_updated', 'ticket_resolved',
+        'maintenance_due', 'equipment_expiry', 'assignment', 'account', 'low_stock'
+    ));
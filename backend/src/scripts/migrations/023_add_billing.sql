@@ -0,0 +1,195 @@
+-- Migration 023: Add Billing
+-- Vendors keep a price list of labour, call-out and rental rates, scoped by
+-- equipment type and service category. Quotes are raised from tickets and
+-- accepted or declined by the client; invoices are raised from tickets
+-- (labour, parts) or from a client's assigned equipment (rentals), issued,
+-- and paid in one or more payments. Revenue reports are built on issued
+-- invoices.
+-- Created: 2026-10-19
+
+-- Price list. A rate with no equipment type or service category is the
+-- vendor's default; the most specific matching rate wins.
+CREATE SEQUENCE IF NOT EXISTS price_list_item_id_seq;
+CREATE TABLE IF NOT EXISTS public.price_list_item (
+    id int4 NOT NULL DEFAULT nextval('price_list_item_id_seq'::regclass),
+    vendor_id int4 NOT NULL,
+    -- labour: per hour, call_out: per ticket, rental: per unit per month
+    rate_type varchar(20) NOT NULL,
+    equipment_type varchar(100),
+    service_category varchar(100),
+    description varchar(255) NOT NULL,
+    unit_price numeric(10, 2) NOT NULL,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT price_list_item_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id) ON DELETE CASCADE,
+    CONSTRAINT check_price_list_rate_type CHECK (rate_type IN ('labour', 'call_out', 'rental')),
+    CONSTRAINT check_price_list_unit_price CHECK (unit_price >= 0),
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS price_list_item_scope_key ON public.price_list_item USING btree (
+    vendor_id, rate_type, lower(COALESCE(equipment_type, '')), lower(COALESCE(service_category, ''))
+);
+
+CREATE SEQUENCE IF NOT EXISTS quote_id_seq;
+CREATE TABLE IF NOT EXISTS public.quote (
+    id int4 NOT NULL DEFAULT nextval('quote_id_seq'::regclass),
+    quote_number varchar(100) NOT NULL,
+    vendor_id int4 NOT NULL,
+    client_id int4 NOT NULL,
+    ticket_id int4,
+    status varchar(20) NOT NULL DEFAULT 'draft',
+    valid_until date,
+    notes text,
+    subtotal numeric(12, 2) NOT NULL DEFAULT 0,
+    tax_rate numeric(5, 2) NOT NULL DEFAULT 0,
+    tax_amount numeric(12, 2) NOT NULL DEFAULT 0,
+    total numeric(12, 2) NOT NULL DEFAULT 0,
+    created_by int4,
+    sent_at timestamptz,
+    responded_by int4,
+    responded_at timestamptz,
+    response_notes text,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT quote_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id) ON DELETE CASCADE,
+    CONSTRAINT quote_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id) ON DELETE CASCADE,
+    CONSTRAINT quote_ticket_id_fkey FOREIGN KEY (ticket_id) REFERENCES public.maintenance_ticket(id) ON DELETE SET NULL,
+    CONSTRAINT quote_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT quote_responded_by_fkey FOREIGN KEY (responded_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT check_quote_status CHECK (status IN ('draft', 'sent', 'accepted', 'declined')),
+    CONSTRAINT check_quote_tax_rate CHECK (tax_rate >= 0 AND tax_rate <= 100),
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS quote_quote_number_key ON public.quote USING btree (quote_number);
+CREATE INDEX IF NOT EXISTS idx_quote_vendor_status ON public.quote USING btree (vendor_id, status);
+CREATE INDEX IF NOT EXISTS idx_quote_client_id ON public.quote USING btree (client_id);
+CREATE INDEX IF NOT EXISTS idx_quote_ticket_id ON public.quote USING btree (ticket_id);
+
+CREATE SEQUENCE IF NOT EXISTS invoice_id_seq;
+CREATE TABLE IF NOT EXISTS public.invoice (
+    id int4 NOT NULL DEFAULT nextval('invoice_id_seq'::regclass),
+    invoice_number varchar(100) NOT NULL,
+    vendor_id int4 NOT NULL,
+    client_id int4 NOT NULL,
+    ticket_id int4,
+    quote_id int4,
+    -- Set for rental invoices: the period the equipment is billed for
+    period_start date,
+    period_end date,
+    status varchar(20) NOT NULL DEFAULT 'draft',
+    issue_date date,
+    due_date date,
+    notes text,
+    subtotal numeric(12, 2) NOT NULL DEFAULT 0,
+    tax_rate numeric(5, 2) NOT NULL DEFAULT 0,
+    tax_amount numeric(12, 2) NOT NULL DEFAULT 0,
+    total numeric(12, 2) NOT NULL DEFAULT 0,
+    amount_paid numeric(12, 2) NOT NULL DEFAULT 0,
+    created_by int4,
+    issued_by int4,
+    paid_at timestamptz,
+    voided_at timestamptz,
+    void_reason text,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT invoice_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id) ON DELETE CASCADE,
+    CONSTRAINT invoice_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id) ON DELETE CASCADE,
+    CONSTRAINT invoice_ticket_id_fkey FOREIGN KEY (ticket_id) REFERENCES public.maintenance_ticket(id) ON DELETE SET NULL,
+    CONSTRAINT invoice_quote_id_fkey FOREIGN KEY (quote_id) REFERENCES public.quote(id) ON DELETE SET NULL,
+    CONSTRAINT invoice_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT invoice_issued_by_fkey FOREIGN KEY (issued_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT check_invoice_status CHECK (status IN ('draft', 'issued', 'partially_paid', 'paid', 'void')),
+    CONSTRAINT check_invoice_tax_rate CHECK (tax_rate >= 0 AND tax_rate <= 100),
+    CONSTRAINT check_invoice_amount_paid CHECK (amount_paid >= 0),
+    CONSTRAINT check_invoice_period CHECK (period_end >= period_start),
+    PRIMARY KEY (id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS invoice_invoice_number_key ON public.invoice USING btree (invoice_number);
+CREATE INDEX IF NOT EXISTS idx_invoice_vendor_status ON public.invoice USING btree (vendor_id, status);
+CREATE INDEX IF NOT EXISTS idx_invoice_vendor_issue_date ON public.invoice USING btree (vendor_id, issue_date);
+CREATE INDEX IF NOT EXISTS idx_invoice_client_id ON public.invoice USING btree (client_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_ticket_id ON public.invoice USING btree (ticket_id);
+
+-- Quote and invoice lines share a shape. Descriptions and prices are copied
+-- in, so editing the price list or parts catalog never changes a document.
+CREATE SEQUENCE IF NOT EXISTS quote_line_id_seq;
+CREATE TABLE IF NOT EXISTS public.quote_line (
+    id int4 NOT NULL DEFAULT nextval('quote_line_id_seq'::regclass),
+    quote_id int4 NOT NULL,
+    line_type varchar(20) NOT NULL,
+    description varchar(500) NOT NULL,
+    quantity numeric(10, 2) NOT NULL,
+    unit_price numeric(10, 2) NOT NULL,
+    amount numeric(12, 2) NOT NULL,
+    part_id int4,
+    sort_order int4 NOT NULL DEFAULT 0,
+    CONSTRAINT quote_line_quote_id_fkey FOREIGN KEY (quote_id) REFERENCES public.quote(id) ON DELETE CASCADE,
+    CONSTRAINT quote_line_part_id_fkey FOREIGN KEY (part_id) REFERENCES public.part(id) ON DELETE SET NULL,
+    CONSTRAINT check_quote_line_type CHECK (line_type IN ('labour', 'call_out', 'part', 'rental', 'other')),
+    CONSTRAINT check_quote_line_quantity CHECK (quantity > 0),
+    CONSTRAINT check_quote_line_unit_price CHECK (unit_price >= 0),
+    PRIMARY KEY (id)
+);
+CREATE INDEX IF NOT EXISTS idx_quote_line_quote_id ON public.quote_line USING btree (quote_id);
+
+CREATE SEQUENCE IF NOT EXISTS invoice_line_id_seq;
+CREATE TABLE IF NOT EXISTS public.invoice_line (
+    id int4 NOT NULL DEFAULT nextval('invoice_line_id_seq'::regclass),
+    invoice_id int4 NOT NULL,
+    line_type varchar(20) NOT NULL,
+    description varchar(500) NOT NULL,
+    quantity numeric(10, 2) NOT NULL,
+    unit_price numeric(10, 2) NOT NULL,
+    amount numeric(12, 2) NOT NULL,
+    part_id int4,
+    sort_order int4 NOT NULL DEFAULT 0,
+    CONSTRAINT invoice_line_invoice_id_fkey FOREIGN KEY (invoice_id) REFERENCES public.invoice(id) ON DELETE CASCADE,
+    CONSTRAINT invoice_line_part_id_fkey FOREIGN KEY (part_id) REFERENCES public.part(id) ON DELETE SET NULL,
+    CONSTRAINT check_invoice_line_type CHECK (line_type IN ('labour', 'call_out', 'part', 'rental', 'other')),
+    CONSTRAINT check_invoice_line_quantity CHECK (quantity > 0),
+    CONSTRAINT check_invoice_line_unit_price CHECK (unit_price >= 0),
+    PRIMARY KEY (id)
+);
+CREATE INDEX IF NOT EXISTS idx_invoice_line_invoice_id ON public.invoice_line USING btree (invoice_id);
+
+CREATE SEQUENCE IF NOT EXISTS invoice_payment_id_seq;
+CREATE TABLE IF NOT EXISTS public.invoice_payment (
+    id int4 NOT NULL DEFAULT nextval('invoice_payment_id_seq'::regclass),
+    invoice_id int4 NOT NULL,
+    amount numeric(12, 2) NOT NULL,
+    payment_date date NOT NULL DEFAULT CURRENT_DATE,
+    method varchar(20) NOT NULL DEFAULT 'bank_transfer',
+    reference varchar(255),
+    recorded_by int4,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT invoice_payment_invoice_id_fkey FOREIGN KEY (invoice_id) REFERENCES public.invoice(id) ON DELETE CASCADE,
+    CONSTRAINT invoice_payment_recorded_by_fkey FOREIGN KEY (recorded_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT check_invoice_payment_amount CHECK (amount > 0),
+    CONSTRAINT check_invoice_payment_method CHECK (method IN ('cash', 'bank_transfer', 'card', 'cheque', 'other')),
+    PRIMARY KEY (id)
+);
+CREATE INDEX IF NOT EXISTS idx_invoice_payment_invoice_id ON public.invoice_payment USING btree (invoice_id);
+
+-- Permissions. Move the sequence past seeded ids first.
+SELECT setval('permission_id_seq', (SELECT COALESCE(MAX(id), 0) + 1 FROM public.permission), false);
+
+INSERT INTO public.permission (permission_name, description, category) VALUES
+  ('manage_billing', 'Manage price lists, quotes, invoices and payments', 'vendor_management')
+ON CONFLICT (permission_name) DO NOTHING;
+
+INSERT INTO public.role_permission (role_id, permission_id, granted_by)
+SELECT r.id, p.id, NULL
+FROM public.role r
+JOIN public.permission p ON p.permission_name = 'manage_billing'
+WHERE r.role_name IN ('admin', 'vendor')
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+-- Quote and invoice notifications get their own preference
+ALTER TABLE public.notification_preference
+    DROP CONSTRAINT IF EXISTS notification_preference_event_type_check;
+ALTER TABLE public.notification_preference
+    ADD CONSTRAINT notification_preference_event_type_check CHECK (event_type IN (
+        'ticket_created', 'ticket_updated', 'ticket_resolved',
+        'maintenance_due', 'equipment_expiry', 'assignment', 'account', 'low_stock',
+        'billing'
+    ));
@@ -0,0 +1,172 @@
+-- Migration 024: Add Service Contracts
+-- Vendors agree a service contract with each client covering all of the
+-- client's equipment or selected instances, a planned number of maintenance
+-- visits a year, and response and resolution targets for each ticket
+-- priority. Tickets raised under a contract get due-by times when they are
+-- opened; a scheduled job flags and escalates tickets that miss them.
+-- Created: 2026-10-19
+
+CREATE SEQUENCE IF NOT EXISTS service_contract_id_seq;
+CREATE TABLE IF NOT EXISTS public.service_contract (
+    id int4 NOT NULL DEFAULT nextval('service_contract_id_seq'::regclass),
+    vendor_id int4 NOT NULL,
+    client_id int4 NOT NULL,
+    contract_name varchar(200) NOT NULL,
+    start_date date NOT NULL,
+    -- Open-ended when null
+    end_date date,
+    -- When false only the instances in service_contract_equipment are covered
+    covers_all_equipment bool NOT NULL DEFAULT true,
+    -- Planned maintenance visits per covered instance per year; 0 for call-out only
+    visits_per_year int4 NOT NULL DEFAULT 1,
+    is_active bool NOT NULL DEFAULT true,
+    notes text,
+    created_by int4,
+    created_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    updated_at timestamptz DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT service_contract_vendor_id_fkey FOREIGN KEY (vendor_id) REFERENCES public.vendors(id) ON DELETE CASCADE,
+    CONSTRAINT service_contract_client_id_fkey FOREIGN KEY (client_id) REFERENCES public.clients(id) ON DELETE CASCADE,
+    CONSTRAINT service_contract_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.user(id) ON DELETE SET NULL,
+    CONSTRAINT check_service_contract_dates CHECK (end_date IS NULL OR end_date >= start_date),
+    CONSTRAINT check_service_contract_visits CHECK (visits_per_year BETWEEN 0 AND 52),
+    PRIMARY KEY (id)
+);
+CREATE INDEX IF NOT EXISTS idx_service_contract_vendor_id ON public.service_contract USING btree (vendor_id);
+CREATE INDEX IF NOT EXISTS idx_service_contract_client_id ON public.service_contract USING btree (client_id);
+
+CREATE TABLE IF NOT EXISTS public.service_contract_equipment (
+    contract_id int4 NOT NULL,
+    equipment_instance_id int4 NOT NULL,
+    CONSTRAINT service_contract_equipment_contract_id_fkey FOREIGN KEY (contract_id) REFERENCES public.service_contract(id) ON DELETE CASCADE,
+    CONSTRAINT service_contract_equipment_instance_id_fkey FOREIGN KEY (equipment_instance_id) REFERENCES public.equipment_instance(id) ON DELETE CASCADE,
+    PRIMARY KEY (contract_id, equipment_instance_id)
+);
+CREATE INDEX IF NOT EXISTS idx_service_contract_equipment_instance_id ON public.service_contract_equipment USING btree (equipment_instance_id);
+
+-- Targets in hours from the time the ticket is opened. A priority with no
+-- row has no target under the contract.
+CREATE TABLE IF NOT EXISTS public.service_contract_sla (
+    contract_id int4 NOT NULL,
+    priority varchar(20) NOT NULL,
+    response_hours int4 NOT NULL,
+    resolution_hours int4 NOT NULL,
+    CONSTRAINT service_contract_sla_contract_id_fkey FOREIGN KEY (contract_id) REFERENCES public.service_contract(id) ON DELETE CASCADE,
+    CONSTRAINT check_service_contract_sla_priority CHECK (priority IN ('low', 'normal', 'high')),
+    CONSTRAINT check_service_contract_sla_response CHECK (response_hours BETWEEN 1 AND 8760),
+    CONSTRAINT check_service_contract_sla_resolution CHECK (resolution_hours BETWEEN response_hours AND 8760),
+    PRIMARY KEY (contract_id, priority)
+);
+
+-- SLA tracking on tickets. A ticket counts as responded to once a
+-- technician is assigned or it leaves the open status. The breach and
+-- warning stamps record that the escalation for it has gone out.
+ALTER TABLE public.maintenance_ticket ADD COLUMN IF NOT EXISTS service_contract_id int4;
+ALTER TABLE public.maintenance_ticket ADD COLUMN IF NOT EXISTS response_due_at timestamptz;
+ALTER TABLE public.maintenance_ticket ADD COLUMN IF NOT EXISTS resolution_due_at timestamptz;
+ALTER TABLE public.maintenance_ticket ADD COLUMN IF NOT EXISTS responded_at timestamptz;
+ALTER TABLE public.maintenance_ticket ADD COLUMN IF NOT EXISTS sla_warned_at timestamptz;
+ALTER TABLE public.maintenance_ticket ADD COLUMN IF NOT EXISTS response_breached_at timestamptz;
+ALTER TABLE public.maintenance_ticket ADD COLUMN IF NOT EXISTS resolution_breached_at timestamptz;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'maintenance_ticket_service_contract_id_fkey') THEN
+        ALTER TABLE public.maintenance_ticket
+            ADD CONSTRAINT maintenance_ticket_service_contract_id_fkey FOREIGN KEY (service_contract_id)
+            REFERENCES public.service_contract(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_ticket_service_contract_id ON public.maintenance_ticket USING btree (service_contract_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_ticket_resolution_due_at ON public.maintenance_ticket USING btree (resolution_due_at) WHERE ticket_status = 'open';
+
+-- Function: Match a ticket to its contract and set its due-by times. Runs
+-- for every way a ticket is raised (vendor, client, maintenance plans).
+-- Targets are recalculated from the opening time when the priority, client
+-- or equipment changes; later edits to a contract do not move existing
+-- tickets.
+CREATE OR REPLACE FUNCTION set_ticket_sla()
+RETURNS TRIGGER AS $$
+DECLARE
+    contract RECORD;
+BEGIN
+    IF NEW.responded_at IS NULL AND (NEW.assigned_technician IS NOT NULL OR NEW.ticket_status <> 'open') THEN
+        NEW.responded_at := CURRENT_TIMESTAMP;
+    END IF;
+
+    IF TG_OP = 'INSERT'
+        OR NEW.priority IS DISTINCT FROM OLD.priority
+        OR NEW.client_id IS DISTINCT FROM OLD.client_id
+        OR NEW.equipment_instance_id IS DISTINCT FROM OLD.equipment_instance_id THEN
+
+        SELECT sc.id, sla.response_hours, sla.resolution_hours
+        INTO contract
+        FROM service_contract sc
+        JOIN service_contract_sla sla ON sla.contract_id = sc.id AND sla.priority = NEW.priority
+        WHERE sc.vendor_id = NEW.vendor_id
+          AND sc.client_id = NEW.client_id
+          AND sc.is_active
+          AND NEW.created_at::date >= sc.start_date
+          AND (sc.end_date IS NULL OR NEW.created_at::date <= sc.end_date)
+          AND (sc.covers_all_equipment OR EXISTS (
+              SELECT 1 FROM service_contract_equipment sce
+              WHERE sce.contract_id = sc.id AND sce.equipment_instance_id = NEW.equipment_instance_id
+          ))
+        -- A contract naming the instance wins over a blanket one
+        ORDER BY sc.covers_all_equipment, sc.start_date DESC, sc.id DESC
+        LIMIT 1;
+
+        IF FOUND THEN
+            NEW.service_contract_id := contract.id;
+            NEW.response_due_at := NEW.created_at + contract.response_hours * INTERVAL '1 hour';
+            NEW.resolution_due_at := NEW.created_at + contract.resolution_hours * INTERVAL '1 hour';
+        ELSE
+            NEW.service_contract_id := NULL;
+            NEW.response_due_at := NULL;
+            NEW.resolution_due_at := NULL;
+        END IF;
+
+        -- Clear escalations that no longer apply under the new targets
+        IF NEW.response_due_at IS NULL OR NEW.response_due_at > CURRENT_TIMESTAMP THEN
+            NEW.response_breached_at := NULL;
+        END IF;
+        IF NEW.resolution_due_at IS NULL OR NEW.resolution_due_at > CURRENT_TIMESTAMP THEN
+            NEW.resolution_breached_at := NULL;
+            NEW.sla_warned_at := NULL;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_ticket_sla ON public.maintenance_ticket;
+CREATE TRIGGER trigger_set_ticket_sla
+    BEFORE INSERT OR UPDATE OF priority, client_id, equipment_instance_id, assigned_technician, ticket_status
+    ON public.maintenance_ticket
+    FOR EACH ROW
+    EXECUTE FUNCTION set_ticket_sla();
+
+-- Permissions. Move the sequence past seeded ids first.
+SELECT setval('permission_id_seq', (SELECT COALESCE(MAX(id), 0) + 1 FROM public.permission), false);
+
+INSERT INTO public.permission (permission_name, description, category) VALUES
+  ('manage_service_contracts', 'Manage client service contracts and SLA targets', 'vendor_management')
+ON CONFLICT (permission_name) DO NOTHING;
+
+INSERT INTO public.role_permission (role_id, permission_id, granted_by)
+SELECT r.id, p.id, NULL
+FROM public.role r
+JOIN public.permission p ON p.permission_name = 'manage_service_contracts'
+WHERE r.role_name IN ('admin', 'vendor')
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+-- SLA warnings and breaches get their own preference
+ALTER TABLE public.notification_preference
+    DROP CONSTRAINT IF EXISTS notification_preference_event_type_check;
+ALTER TABLE public.notification_preference
+    ADD CONSTRAINT notification_preference_event_type_check CHECK (event_type IN (
+        'ticket_created', 'ticket_updated', 'ticket_resolved',
+        'maintenance_due', 'equipment_expiry', 'assignment', 'account', 'low_stock',
+        'billing', 'sla'
+    ));
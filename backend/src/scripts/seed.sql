@@ -24,6 +24,12 @@ DELETE FROM user_sessions;
 DELETE FROM password_reset;
 DELETE FROM "user" WHERE user_type != 'system';
 
+-- Roles and permissions are seeded with fixed ids, including the ones added by
+-- migrations, so drop any rows the migrations inserted before the seed ran
+DELETE FROM role_permission;
+DELETE FROM permission;
+DELETE FROM role;
+
 -- Reset all sequences to start from 1
 ALTER SEQUENCE user_id_seq RESTART WITH 1;
 ALTER SEQUENCE vendor_id_seq RESTART WITH 1;
@@ -162,7 +168,8 @@ ON CONFLICT (id) DO NOTHING;
 INSERT INTO public.role (id, role_name, description, created_at) VALUES
   (1, 'admin',  'Full system access',                     '2025-10-25 11:25:00+05:30'),
   (2, 'vendor', 'Manage own equipment, clients, tickets', '2025-10-25 11:25:00+05:30'),
-  (3, 'client', 'View assigned equipment and tickets',   '2025-10-25 11:25:00+05:30')
+  (3, 'client', 'View assigned equipment and tickets',   '2025-10-25 11:25:00+05:30'),
+  (4, 'technician', 'Work on maintenance tickets assigned by their vendor', '2025-10-25 11:25:00+05:30')
 ON CONFLICT (role_name) DO NOTHING;
 
 -- --------------------------------------------------------------
@@ -182,7 +189,13 @@ INSERT INTO public.permission (id, permission_name, description, category, creat
   (11, 'view_maintenance',      'View maintenance information',          'maintenance',       '2025-10-25 11:25:00+05:30'),
   (12, 'manage_permissions',    'Manage roles and permissions',          'system',            '2025-10-25 11:25:00+05:30'),
   (13, 'view_audit_logs',       'View audit logs',                       'system',            '2025-10-25 11:25:00+05:30'),
-  (14, 'manage_system_settings','Manage system settings',                'system',            '2025-10-25 11:25:00+05:30')
+  (14, 'manage_system_settings','Manage system settings',                'system',            '2025-10-25 11:25:00+05:30'),
+  (15, 'create_service_requests','Raise service requests for assigned equipment','maintenance', '2025-10-25 11:25:00+05:30'),
+  (16, 'manage_technicians',    'Create and manage technician accounts', 'vendor_management','2025-10-25 11:25:00+05:30'),
+  (17, 'work_assigned_tickets', 'View and update assigned maintenance tickets','maintenance', '2025-10-25 11:25:00+05:30'),
+  (18, 'manage_parts',          'Manage the spare parts catalog and stock levels','maintenance', '2025-10-25 11:25:00+05:30'),
+  (19, 'manage_billing',        'Manage price lists, quotes, invoices and payments','vendor_management','2025-10-25 11:25:00+05:30'),
+  (20, 'manage_service_contracts','Manage client service contracts and SLA targets','vendor_management','2025-10-25 11:25:00+05:30')
 ON CONFLICT (permission_name) DO NOTHING;
 
 -- --------------------------------------------------------------
@@ -196,12 +209,21 @@ INSERT INTO public.role_permission (role_id, permission_id, granted_by, granted_
   (1, 9, 1, '2025-10-25 11:25:00+05:30'), (1,10, 1, '2025-10-25 11:25:00+05:30'),
   (1,11, 1, '2025-10-25 11:25:00+05:30'), (1,12, 1, '2025-10-25 11:25:00+05:30'),
   (1,13, 1, '2025-10-25 11:25:00+05:30'), (1,14, 1, '2025-10-25 11:25:00+05:30'),
+  (1,15, 1, '2025-10-25 11:25:00+05:30'), (1,16, 1, '2025-10-25 11:25:00+05:30'),
+  (1,18, 1, '2025-10-25 11:25:00+05:30'), (1,19, 1, '2025-10-25 11:25:00+05:30'),
+  (1,20, 1, '2025-10-25 11:25:00+05:30'),
 
   (2, 8, 1, '2025-10-25 11:25:00+05:30'), (2, 9, 1, '2025-10-25 11:25:00+05:30'),
   (2,10, 1, '2025-10-25 11:25:00+05:30'), (2,11, 1, '2025-10-25 11:25:00+05:30'),
-  (2, 6, 1, '2025-10-25 11:25:00+05:30'),
+  (2, 6, 1, '2025-10-25 11:25:00+05:30'), (2, 5, 1, '2025-10-25 11:25:00+05:30'),
+  (2, 7, 1, '2025-10-25 11:25:00+05:30'), (2,16, 1, '2025-10-25 11:25:00+05:30'),
+  (2,18, 1, '2025-10-25 11:25:00+05:30'), (2,19, 1, '2025-10-25 11:25:00+05:30'),
+  (2,20, 1, '2025-10-25 11:25:00+05:30'),
+
+  (3, 8, 1, '2025-10-25 11:25:00+05:30'), (3,11, 1, '2025-10-25 11:25:00+05:30'),
+  (3,15, 1, '2025-10-25 11:25:00+05:30'),
 
-  (3, 8, 1, '2025-10-25 11:25:00+05:30'), (3,11, 1, '2025-10-25 11:25:00+05:30')
+  (4, 8, 1, '2025-10-25 11:25:00+05:30'), (4,17, 1, '2025-10-25 11:25:00+05:30')
 ON CONFLICT (role_id, permission_id) DO NOTHING;
 
 -- --------------------------------------------------------------
@@ -383,6 +405,7 @@ INSERT INTO public.user_sessions (id, user_id, session_token, ip_address, user_a
 SELECT setval('user_id_seq', (SELECT MAX(id) FROM public.user));
 SELECT setval('system_settings_id_seq', (SELECT MAX(id) FROM public.system_settings));
 SELECT setval('role_id_seq', (SELECT MAX(id) FROM public.role));
+SELECT setval('permission_id_seq', (SELECT MAX(id) FROM public.permission));
 SELECT setval('vendor_id_seq', (SELECT MAX(id) FROM public.vendors));
 SELECT setval('client_id_seq', (SELECT MAX(id) FROM public.clients));
 SELECT setval('specialization_id_seq', (SELECT MAX(id) FROM public.specialization));
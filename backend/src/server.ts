@@ -33,9 +33,26 @@ import clientViewsRoutes from './routes/clientViews';
 import clientAnalyticsRoutes from './routes/clientAnalytics';
 import notificationRoutes from './routes/notifications';
 import emailRoutes from './routes/email';
+import messageQueueRoutes from './routes/messageQueue';
+import messageTemplateRoutes from './routes/messageTemplates';
+import brandingRoutes from './routes/branding';
 import pdfReportsRoutes from './routes/pdfReports';
 import emergencyWarningsRoutes from './routes/emergencyWarnings';
 import smsRoutes from './routes/sms';
+import permissionRoutes from './routes/permissions';
+import technicianRoutes from './routes/technicians';
+import technicianTicketRoutes from './routes/technicianTickets';
+import inspectionChecklistRoutes from './routes/inspectionChecklists';
+import maintenancePlanRoutes from './routes/maintenancePlans';
+import clientSiteRoutes from './routes/clientSites';
+import equipmentReturnRoutes from './routes/equipmentReturns';
+import equipmentLifecycleRoutes from './routes/equipmentLifecycle';
+import partsRoutes from './routes/parts';
+import billingRoutes from './routes/billing';
+import serviceContractRoutes from './routes/serviceContracts';
+import attachmentRoutes from './routes/attachments';
+import scanRoutes from './routes/scan';
+import calendarFeedRoutes from './routes/calendarFeeds';
 
 // Import email services
 import { verifyEmailConfig } from './config/email';
@@ -43,7 +60,12 @@ import { emailScheduler } from './services/emailScheduler';
 
 // Import SMS services
 import NotificationScheduler from './services/NotificationScheduler';
+import { getSmsProvider } from './services/smsProviders';
+import { notificationStream } from './services/notificationStream';
+import { messageQueue } from './services/messageQueue';
+import { slaScheduler } from './services/slaScheduler';
 import { smsConfig } from './config/sms';
+import { storageConfig } from './config/storage';
 
 // Load environment variables
 dotenv.config();
@@ -97,14 +119,24 @@ const initializeDatabase = async () => {
   
   // Verify SMS configuration and start scheduler
   console.log('📱 Verifying SMS configuration...');
-  if (smsConfig.enabled && smsConfig.username && smsConfig.password && smsConfig.sourceAddress) {
+  const smsProvider = await getSmsProvider().catch(() => null);
+  if (smsConfig.enabled && smsProvider?.isConfigured()) {
     NotificationScheduler.start();
-    console.log('✅ SMS notification scheduler started - Daily checks at 8:00 AM');
+    console.log(`✅ SMS notification scheduler started (${smsProvider.name}) - Daily checks at 8:00 AM`);
   } else {
     console.warn('⚠️  SMS service not configured. SMS notifications will be disabled.');
-    console.log('ℹ️  To enable SMS, set DIALOG_SMS_ENABLED=true and DIALOG_SMS_USERNAME, DIALOG_SMS_PASSWORD, DIALOG_SMS_SOURCE_ADDRESS in .env');
+    console.log('ℹ️  To enable SMS, set SMS_ENABLED=true and configure the provider chosen in SMS settings (see .env.example)');
   }
   
+  // Deliver queued emails and SMS, retrying failures
+  messageQueue.start();
+
+  // Flag and escalate tickets that miss their service contract targets
+  slaScheduler.start();
+
+  // Push new notifications to connected browsers
+  await notificationStream.start();
+
   // Start periodic cleanup of expired sessions (every 1 hour)
   setInterval(async () => {
     try {
@@ -188,6 +220,10 @@ if (process.env.NODE_ENV !== 'production') {
 }
 
 // Body parsing middleware
+// Attachment uploads arrive as base64 JSON, so their routes get a larger limit
+app.use(['/api/attachments', '/api/client-views/service-requests'], express.json({
+  limit: storageConfig.requestBodyLimit
+}));
 app.use(express.json({ 
   limit: '10mb',
   type: ['application/json', 'text/plain']
@@ -223,6 +259,9 @@ app.get('/health', async (req, res) => {
 // API routes
 app.use('/api/auth', authRoutes);
 
+// Token-authorised calendar subscriptions (no session)
+app.use('/api/calendar-feeds', calendarFeedRoutes);
+
 // Apply security middleware to all protected routes
 app.use('/api/dashboard', securityMiddleware, dashboardRoutes);
 app.use('/api/vendors', securityMiddleware, vendorRoutes);
@@ -236,13 +275,29 @@ app.use('/api/vendor/analytics', securityMiddleware, vendorAnalyticsRoutes);
 app.use('/api/client/analytics', securityMiddleware, clientAnalyticsRoutes);
 app.use('/api/vendor/clients', securityMiddleware, clientRoutes);
 app.use('/api/vendor/tickets', securityMiddleware, maintenanceTicketRoutes);
+app.use('/api/vendor/technicians', securityMiddleware, technicianRoutes);
+app.use('/api/technician/tickets', securityMiddleware, technicianTicketRoutes);
+app.use('/api/vendor/checklists', securityMiddleware, inspectionChecklistRoutes);
+app.use('/api/vendor/maintenance-plans', securityMiddleware, maintenancePlanRoutes);
+app.use('/api/client-sites', securityMiddleware, clientSiteRoutes);
+app.use('/api/equipment-returns', securityMiddleware, equipmentReturnRoutes);
+app.use('/api/equipment-lifecycle', securityMiddleware, equipmentLifecycleRoutes);
+app.use('/api/parts', securityMiddleware, partsRoutes);
+app.use('/api/billing', securityMiddleware, billingRoutes);
+app.use('/api/service-contracts', securityMiddleware, serviceContractRoutes);
+app.use('/api/attachments', securityMiddleware, attachmentRoutes);
+app.use('/api/scan', securityMiddleware, scanRoutes);
 app.use('/api/reports', securityMiddleware, reportsRoutes);
 app.use('/api/client-views', securityMiddleware, clientViewsRoutes);
 app.use('/api/notifications', securityMiddleware, notificationRoutes);
 app.use('/api/email', securityMiddleware, emailRoutes);
+app.use('/api/message-queue', securityMiddleware, messageQueueRoutes);
+app.use('/api/message-templates', securityMiddleware, messageTemplateRoutes);
+app.use('/api/branding', securityMiddleware, brandingRoutes);
 app.use('/api/pdf-reports', securityMiddleware, pdfReportsRoutes);
 app.use('/api/emergency-warnings', securityMiddleware, emergencyWarningsRoutes);
 app.use('/api/sms', securityMiddleware, smsRoutes);
+app.use('/api/permissions', securityMiddleware, permissionRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -265,6 +320,9 @@ const gracefulShutdown = async (signal: string) => {
   console.log(`\n🔄 Received ${signal}. Starting graceful shutdown...`);
   
   try {
+    notificationStream.stop();
+    messageQueue.stop();
+    slaScheduler.stop();
     await closePool();
     console.log('✅ Graceful shutdown completed');
     process.exit(0);
@@ -6,8 +6,9 @@
 
 import { schedule, ScheduledTask } from 'node-cron';
 import { pool } from '../config/database';
-import SmsService from './SmsService';
-import { SmsMessageType, SmsTemplates } from '../config/sms';
+import { messageQueue } from './messageQueue';
+import { SmsMessageType } from '../config/sms';
+import { renderSms } from './messageTemplates';
 
 class NotificationScheduler {
   private jobs: ScheduledTask[] = [];
@@ -73,6 +74,8 @@ class NotificationScheduler {
            AND (cu.phone IS NOT NULL OR vu.phone IS NOT NULL)`
       );
 
+      const runDate = new Date().toISOString().split('T')[0];
+
       for (const equipment of expiringResult.rows) {
         const daysUntilExpiry = Math.ceil(
           (new Date(equipment.expiry_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
@@ -84,13 +87,11 @@ class NotificationScheduler {
             : SmsMessageType.COMPLIANCE_EXPIRING_7_DAYS;
 
         const expiryDate = new Date(equipment.expiry_date).toLocaleDateString('en-LK');
-        const message =
-          messageType === SmsMessageType.COMPLIANCE_EXPIRING_TODAY
-            ? SmsTemplates[SmsMessageType.COMPLIANCE_EXPIRING_TODAY](equipment.equipment_name)
-            : SmsTemplates[SmsMessageType.COMPLIANCE_EXPIRING_7_DAYS](
-                equipment.equipment_name,
-                expiryDate
-              );
+        const message = await renderSms(
+          messageType,
+          { equipmentName: equipment.equipment_name, expiryDate },
+          equipment.vendor_id
+        );
 
         // Prepare recipients (both client and vendor)
         const recipients: any[] = [];
@@ -110,13 +111,12 @@ class NotificationScheduler {
         }
 
         if (recipients.length > 0) {
-          await SmsService.sendSms(
-            recipients,
-            message,
-            messageType,
-            'equipment_instance',
-            equipment.equipment_instance_id
-          );
+          // At most one reminder of each kind per equipment per day
+          await messageQueue.queueSms(recipients, message, messageType, {
+            idempotencyKey: `sms:${messageType}:${equipment.equipment_instance_id}:${runDate}`,
+            relatedEntityType: 'equipment_instance',
+            relatedEntityId: equipment.equipment_instance_id,
+          });
         }
       }
 
@@ -166,6 +166,8 @@ class NotificationScheduler {
            AND (cu.phone IS NOT NULL OR vu.phone IS NOT NULL)`
       );
 
+      const runDate = new Date().toISOString().split('T')[0];
+
       for (const equipment of maintenanceResult.rows) {
         const nextMaintenanceDate = new Date(equipment.next_maintenance_date);
         const today = new Date();
@@ -179,16 +181,18 @@ class NotificationScheduler {
         if (daysUntilDue < 0) {
           // Overdue
           messageType = SmsMessageType.MAINTENANCE_OVERDUE;
-          message = SmsTemplates[SmsMessageType.MAINTENANCE_OVERDUE](
-            equipment.equipment_name,
-            Math.abs(daysUntilDue)
+          message = await renderSms(
+            messageType,
+            { equipmentName: equipment.equipment_name, daysPastDue: Math.abs(daysUntilDue) },
+            equipment.vendor_id
           );
         } else if (daysUntilDue <= warningDays) {
           // Due soon
           messageType = SmsMessageType.MAINTENANCE_DUE_3_DAYS;
-          message = SmsTemplates[SmsMessageType.MAINTENANCE_DUE_3_DAYS](
-            equipment.equipment_name,
-            nextMaintenanceDate.toLocaleDateString('en-LK')
+          message = await renderSms(
+            messageType,
+            { equipmentName: equipment.equipment_name, dueDate: nextMaintenanceDate.toLocaleDateString('en-LK') },
+            equipment.vendor_id
           );
         } else {
           // Not due yet
@@ -213,13 +217,11 @@ class NotificationScheduler {
         }
 
         if (recipients.length > 0) {
-          await SmsService.sendSms(
-            recipients,
-            message,
-            messageType,
-            'equipment_instance',
-            equipment.equipment_instance_id
-          );
+          await messageQueue.queueSms(recipients, message, messageType, {
+            idempotencyKey: `sms:${messageType}:${equipment.equipment_instance_id}:${runDate}`,
+            relatedEntityType: 'equipment_instance',
+            relatedEntityId: equipment.equipment_instance_id,
+          });
         }
       }
 
@@ -1,48 +1,36 @@
 /**
- * Dialog eSMS Service
- * Handles SMS sending via Sri Lanka's Dialog Axiata Gateway
- * Uses token-based authentication with automatic token refresh
+ * SMS Service
+ * Sends SMS through the configured provider (Dialog eSMS, an HTTP gateway or
+ * the local mock), applying user preferences and the daily limit, and logs
+ * every message
  */
 
-import axios from 'axios';
 import { pool } from '../config/database';
-import { smsConfig, SmsStatusCodes, SmsMessageType } from '../config/sms';
-import { dialogTokenManager } from './DialogTokenManager';
+import { smsConfig, SmsMessageType } from '../config/sms';
+import { getSmsProvider, getDefaultCountryCode } from './smsProviders';
+import { normalizePhoneNumber } from '../utils/phoneNumber';
+import { smsEventType } from './notificationPreferences';
 
-interface SmsRecipient {
+export interface SmsRecipient {
   userId: number;
   phoneNumber: string;
   userType: 'admin' | 'vendor' | 'client';
 }
 
-interface SmsSendResult {
+export interface SmsSendResult {
   success: boolean;
   statusCode: string;
   statusMessage: string;
   recipientCount: number;
   failedRecipients?: string[];
-}
-
-interface SmsLogEntry {
-  userId: number;
-  phoneNumber: string;
-  message: string;
-  messageType: string;
-  status: 'pending' | 'sent' | 'failed';
-  dialogResponse?: string;
-  dialogStatusCode?: string;
-  errorMessage?: string;
-  relatedEntityType?: string;
-  relatedEntityId?: number;
+  // Nobody could be sent to (SMS off, recipients opted out or no usable
+  // numbers), as opposed to a gateway failure worth retrying
+  skipped?: boolean;
 }
 
 class SmsService {
-  private readonly SMS_API_ENDPOINT = 'https://e-sms.dialog.lk/api/v1/sms';
-  private readonly MAX_RETRIES = 2;
-
   /**
    * Send SMS to single or multiple recipients
-   * Uses token-based authentication with automatic token refresh on expiration
    */
   async sendSms(
     recipients: SmsRecipient[],
@@ -51,15 +39,22 @@ class SmsService {
     relatedEntityType?: string,
     relatedEntityId?: number
   ): Promise<SmsSendResult> {
+    let providerName: string | undefined;
+    let eligibleRecipients: SmsRecipient[] = recipients;
+
     try {
+      const provider = await getSmsProvider();
+      providerName = provider.name;
+
       // Check if SMS is enabled globally
-      if (!smsConfig.enabled || !smsConfig.username || !smsConfig.password) {
-        console.log('SMS service disabled or not configured');
+      if (!smsConfig.enabled || !provider.isConfigured()) {
+        console.log(`SMS service disabled or ${provider.name} provider not configured`);
         return {
           success: false,
           statusCode: '0',
           statusMessage: 'SMS service not enabled',
           recipientCount: 0,
+          skipped: true,
         };
       }
 
@@ -76,7 +71,7 @@ class SmsService {
       }
 
       // Filter recipients based on their SMS preferences
-      const eligibleRecipients = await this.filterEligibleRecipients(recipients, messageType);
+      eligibleRecipients = await this.filterEligibleRecipients(recipients, messageType);
       
       if (eligibleRecipients.length === 0) {
         console.log('No eligible recipients for SMS');
@@ -85,51 +80,113 @@ class SmsService {
           statusCode: '0',
           statusMessage: 'No eligible recipients',
           recipientCount: 0,
+          skipped: true,
         };
       }
 
-      // Format phone numbers for Dialog eSMS (Sri Lankan format)
-      const phoneNumbers = eligibleRecipients.map(r => this.formatPhoneNumber(r.phoneNumber));
-
-      // Attempt to send with retry on token expiration
-      let lastError: any;
-      for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
-        try {
-          const result = await this.sendSmsWithToken(
-            phoneNumbers,
-            message,
-            eligibleRecipients,
-            messageType,
-            relatedEntityType,
-            relatedEntityId
-          );
-
-          return result;
-        } catch (error: any) {
-          lastError = error;
-
-          // If token-related error and we have retries left, refresh and try again
-          if (attempt < this.MAX_RETRIES && this.isTokenError(error)) {
-            console.log(`Attempt ${attempt} failed with token error, refreshing token and retrying...`);
-            dialogTokenManager.clearCache();
-            continue;
-          }
-
-          // On last attempt, throw the error
-          throw error;
+      // Normalize to E.164, then to whatever the provider expects
+      const defaultCountryCode = await getDefaultCountryCode();
+      const addressed: { recipient: SmsRecipient; address: string }[] = [];
+      const unreachable: SmsRecipient[] = [];
+
+      for (const recipient of eligibleRecipients) {
+        const e164 = normalizePhoneNumber(recipient.phoneNumber, defaultCountryCode);
+        const address = e164 ? provider.formatRecipient(e164) : null;
+
+        if (address) {
+          addressed.push({ recipient: { ...recipient, phoneNumber: e164! }, address });
+        } else {
+          unreachable.push(recipient);
         }
       }
 
-      throw lastError;
+      if (unreachable.length > 0) {
+        console.warn(`Skipping ${unreachable.length} SMS recipient(s) with numbers ${provider.name} can't deliver to`);
+        await this.logSmsMessages(
+          unreachable,
+          message,
+          messageType,
+          'failed',
+          provider.name,
+          undefined,
+          undefined,
+          'Invalid or unsupported phone number',
+          relatedEntityType,
+          relatedEntityId
+        );
+      }
+
+      if (addressed.length === 0) {
+        return {
+          success: false,
+          statusCode: '0',
+          statusMessage: 'No valid phone numbers',
+          recipientCount: 0,
+          failedRecipients: unreachable.map(r => r.phoneNumber),
+          skipped: true,
+        };
+      }
+
+      eligibleRecipients = addressed.map(a => a.recipient);
+      const result = await provider.send(addressed.map(a => a.address), message);
+
+      const rejected = new Set(result.failedRecipients || []);
+      const delivered = addressed.filter(a => !rejected.has(a.address)).map(a => a.recipient);
+      const failed = addressed.filter(a => rejected.has(a.address)).map(a => a.recipient);
+
+      // Log each SMS
+      if (delivered.length > 0) {
+        await this.logSmsMessages(
+          delivered,
+          message,
+          messageType,
+          'sent',
+          provider.name,
+          result.rawResponse,
+          result.statusCode,
+          result.success ? undefined : result.statusMessage,
+          relatedEntityType,
+          relatedEntityId
+        );
+      }
+      if (failed.length > 0) {
+        await this.logSmsMessages(
+          failed,
+          message,
+          messageType,
+          'failed',
+          provider.name,
+          result.rawResponse,
+          result.statusCode,
+          'Rejected by SMS gateway',
+          relatedEntityType,
+          relatedEntityId
+        );
+      }
+
+      // Update daily usage stats
+      if (result.success && delivered.length > 0) {
+        await this.updateUsageStats(delivered.length, messageType);
+      }
+
+      const failedRecipients = [...unreachable, ...failed].map(r => r.phoneNumber);
+      return {
+        success: result.success,
+        statusCode: result.statusCode,
+        statusMessage: result.statusMessage,
+        recipientCount: delivered.length,
+        failedRecipients: failedRecipients.length > 0 ? failedRecipients : undefined,
+      };
     } catch (error: any) {
       console.error('SMS sending failed:', error);
       
       // Log failures
       await this.logSmsMessages(
-        recipients,
+        eligibleRecipients,
         message,
         messageType,
         'failed',
+        providerName,
         undefined,
         undefined,
         error.message,
@@ -147,126 +204,12 @@ class SmsService {
   }
 
   /**
-   * Send SMS with valid token
-   */
-  private async sendSmsWithToken(
-    phoneNumbers: string[],
-    message: string,
-    recipients: SmsRecipient[],
-    messageType: SmsMessageType,
-    relatedEntityType?: string,
-    relatedEntityId?: number
-  ): Promise<SmsSendResult> {
-    try {
-      // Get valid access token (refreshes if needed)
-      const accessToken = await dialogTokenManager.getAccessToken();
-
-      // Build request payload
-      const msisdn = phoneNumbers.map(mobile => ({ mobile }));
-      
-      // Generate unique numeric transaction ID (16-19 digits as per Dialog API)
-      const timestamp = Date.now().toString();
-      const random = Math.floor(Math.random() * 1000000).toString().padStart(6, '0');
-      const transactionId = timestamp + random;
-      
-      const requestData = {
-        sourceAddress: smsConfig.sourceAddress,
-        message: message,
-        transaction_id: transactionId,
-        msisdn: msisdn,
-      };
-
-      console.log(
-        `📤 Sending SMS to ${phoneNumbers.length} recipient(s) via Dialog API...`
-      );
-
-      // Send SMS via Dialog API
-      const response = await axios.post(this.SMS_API_ENDPOINT, requestData, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        timeout: 30000, // 30 seconds - Dialog API can be slow
-        httpAgent: null,
-        httpsAgent: null,
-      });
-
-      // Handle response
-      const statusCode = response.data?.status || 'success';
-      const success = statusCode === 'success' || statusCode === '1';
-      const statusMessage = response.data?.comment || 'SMS sent successfully';
-
-      console.log(
-        `✅ SMS sent successfully. Status: ${statusCode}, Message: ${statusMessage}`
-      );
-
-      // Log each SMS
-      await this.logSmsMessages(
-        recipients,
-        message,
-        messageType,
-        'sent',
-        JSON.stringify(response.data),
-        statusCode,
-        success ? undefined : statusMessage,
-        relatedEntityType,
-        relatedEntityId
-      );
-
-      // Update daily usage stats
-      if (success) {
-        await this.updateUsageStats(recipients.length, messageType);
-      }
-
-      return {
-        success,
-        statusCode: statusCode,
-        statusMessage: statusMessage,
-        recipientCount: recipients.length,
-      };
-    } catch (error: any) {
-      console.error('SMS API call failed:', error.message);
-      throw error;
-    }
-  }
-
-  /**
-   * Check if error is token-related (and should trigger refresh)
-   */
-  private isTokenError(error: any): boolean {
-    const message = error.message?.toLowerCase() || '';
-    const response = error.response?.data?.comment?.toLowerCase() || '';
-
-    return (
-      message.includes('unauthorized') ||
-      message.includes('invalid token') ||
-      message.includes('token expired') ||
-      response.includes('unauthorized') ||
-      response.includes('invalid token') ||
-      error.response?.status === 401
-    );
-  }
-
-
-  /**
-   * Check account balance via Dialog API (uses token)
+   * Check account balance with the active provider
    */
   async checkBalance(): Promise<{ success: boolean; balance?: number; message: string }> {
     try {
-      if (!smsConfig.username || !smsConfig.password) {
-        return { success: false, message: 'Dialog SMS configuration not complete' };
-      }
-
-      // Get token to verify credentials and fetch balance info
-      const accessToken = await dialogTokenManager.getAccessToken();
-
-      // The token response includes wallet balance from login
-      // This verifies the token is working correctly
-      return {
-        success: true,
-        message: 'SMS service is configured and token is valid',
-        balance: 0, // Actual balance comes from login response
-      };
+      const provider = await getSmsProvider();
+      return await provider.checkBalance();
     } catch (error: any) {
       console.error('Balance check failed:', error);
       return {
@@ -277,7 +220,8 @@ class SmsService {
   }
 
   /**
-   * Filter recipients based on SMS preferences
+   * Filter recipients based on SMS preferences: the account-wide SMS switch,
+   * then the user's choice for this kind of event
    */
   private async filterEligibleRecipients(
     recipients: SmsRecipient[],
@@ -286,65 +230,18 @@ class SmsService {
     const userIds = recipients.map(r => r.userId);
     
     const result = await pool.query(
-      `SELECT id, phone, sms_notifications_enabled, 
-              sms_high_priority_tickets, sms_compliance_alerts, sms_maintenance_reminders
-       FROM "user" 
-       WHERE id = ANY($1) AND phone IS NOT NULL AND phone != ''`,
-      [userIds]
+      `SELECT u.id
+       FROM "user" u
+       LEFT JOIN notification_preference np
+         ON np.user_id = u.id AND np.event_type = $2
+       WHERE u.id = ANY($1) AND u.phone IS NOT NULL AND u.phone != ''
+         AND u.sms_notifications_enabled = true
+         AND COALESCE(np.sms_enabled, true) = true`,
+      [userIds, smsEventType(messageType)]
     );
 
-    const eligibleUsers = result.rows.filter(user => {
-      if (!user.sms_notifications_enabled) return false;
-
-      // Check specific preferences based on message type
-      if (messageType === SmsMessageType.HIGH_PRIORITY_TICKET && !user.sms_high_priority_tickets) {
-        return false;
-      }
-      if (
-        (messageType === SmsMessageType.COMPLIANCE_EXPIRING_7_DAYS ||
-          messageType === SmsMessageType.COMPLIANCE_EXPIRING_TODAY) &&
-        !user.sms_compliance_alerts
-      ) {
-        return false;
-      }
-      if (
-        (messageType === SmsMessageType.MAINTENANCE_DUE_3_DAYS ||
-          messageType === SmsMessageType.MAINTENANCE_OVERDUE) &&
-        !user.sms_maintenance_reminders
-      ) {
-        return false;
-      }
-
-      return true;
-    });
-
-    return recipients.filter(r => eligibleUsers.some(u => u.id === r.userId));
-  }
-
-  /**
-   * Format phone number to Sri Lankan format
-   */
-  private formatPhoneNumber(phone: string): string {
-    // Remove all non-digit characters
-    let cleaned = phone.replace(/\D/g, '');
-
-    // Dialog API requires 9-digit mobile numbers without country code
-    // Remove country code 94 if present
-    if (cleaned.startsWith('94')) {
-      cleaned = cleaned.substring(2);
-    }
-
-    // Remove leading 0 if present
-    if (cleaned.startsWith('0')) {
-      cleaned = cleaned.substring(1);
-    }
-
-    // Ensure we have 9 digits
-    if (cleaned.length !== 9) {
-      console.warn(`Phone number ${phone} formatted to ${cleaned} - expected 9 digits`);
-    }
-
-    return cleaned;
+    const eligibleIds = new Set<number>(result.rows.map(row => row.id));
+    return recipients.filter(r => eligibleIds.has(r.userId));
   }
 
   /**
@@ -355,20 +252,24 @@ class SmsService {
     message: string,
     messageType: string,
     status: 'pending' | 'sent' | 'failed',
-    dialogResponse?: string,
-    dialogStatusCode?: string,
+    provider?: string,
+    gatewayResponse?: string,
+    gatewayStatusCode?: string,
     errorMessage?: string,
     relatedEntityType?: string,
     relatedEntityId?: number
   ): Promise<void> {
+    if (recipients.length === 0) return;
+
     const values = recipients.map(r => [
       r.userId,
       r.phoneNumber,
       message,
       messageType,
       status,
-      dialogResponse,
-      dialogStatusCode,
+      provider,
+      gatewayResponse,
+      gatewayStatusCode,
       status === 'sent' ? new Date() : null,
       errorMessage,
       relatedEntityType,
@@ -377,9 +278,9 @@ class SmsService {
 
     const query = `
       INSERT INTO sms_logs 
-        (user_id, phone_number, message, message_type, status, dialog_response, 
+        (user_id, phone_number, message, message_type, status, provider, dialog_response, 
          dialog_status_code, sent_at, error_message, related_entity_type, related_entity_id)
-      VALUES ${values.map((_, i) => `($${i * 11 + 1}, $${i * 11 + 2}, $${i * 11 + 3}, $${i * 11 + 4}, $${i * 11 + 5}, $${i * 11 + 6}, $${i * 11 + 7}, $${i * 11 + 8}, $${i * 11 + 9}, $${i * 11 + 10}, $${i * 11 + 11})`).join(', ')}
+      VALUES ${values.map((_, i) => `(${Array.from({ length: 12 }, (_, j) => `$${i * 12 + j + 1}`).join(', ')})`).join(', ')}
     `;
 
     await pool.query(query, values.flat());
@@ -428,6 +329,20 @@ class SmsService {
       typeColumn = 'maintenance_reminders';
     }
 
+    // Types without a column of their own only count towards the total
+    if (typeColumn === 'total_sent') {
+      await pool.query(
+        `INSERT INTO sms_usage_stats (date, total_sent)
+         VALUES ($1, $2)
+         ON CONFLICT (date)
+         DO UPDATE SET
+           total_sent = sms_usage_stats.total_sent + $2,
+           updated_at = CURRENT_TIMESTAMP`,
+        [today, count]
+      );
+      return;
+    }
+
     await pool.query(
       `INSERT INTO sms_usage_stats (date, total_sent, ${typeColumn})
        VALUES ($1, $2, $2)
@@ -0,0 +1,146 @@
+/**
+ * Attachment Service
+ * Validates uploaded files and stores them with generated names so nothing
+ * from the client ever reaches the filesystem path
+ */
+
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { storageConfig, AllowedAttachmentTypes, AttachmentCategories, AttachmentCategory } from '../config/storage';
+import { attachmentStorage } from './attachmentStorage';
+import { AttachmentRepository, Attachment, AttachmentEntityType } from '../models/AttachmentRepository';
+import { ApiError, HttpStatus } from '../types/api';
+
+/**
+ * File as sent by the client: base64 contents, optionally as a data URL
+ */
+export interface AttachmentUploadInput {
+  file_name: string;
+  mime_type: string;
+  data: string;
+  category?: string;
+}
+
+export interface ValidatedUpload {
+  originalName: string;
+  mimeType: string;
+  category: AttachmentCategory;
+  buffer: Buffer;
+}
+
+// Leading bytes each allowed type must start with
+const FILE_SIGNATURES: Record<string, (buffer: Buffer) => boolean> = {
+  'image/jpeg': (b) => b.length > 3 && b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff,
+  'image/png': (b) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/webp': (b) => b.subarray(0, 4).toString('ascii') === 'RIFF' && b.subarray(8, 12).toString('ascii') === 'WEBP',
+  'application/pdf': (b) => b.subarray(0, 5).toString('ascii') === '%PDF-',
+};
+
+function invalidUpload(message: string): ApiError {
+  return new ApiError(message, HttpStatus.BAD_REQUEST, 'INVALID_ATTACHMENT');
+}
+
+/**
+ * Strip directories, control characters and anything unsafe in a header
+ * from the client's file name. Only used for display and downloads.
+ */
+export function sanitizeFileName(fileName: string): string {
+  const baseName = path.basename(String(fileName).replace(/\\/g, '/'));
+  const cleaned = baseName
+    .replace(/[\x00-\x1f\x7f"<>:|?*;]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 200);
+  return cleaned || 'attachment';
+}
+
+/**
+ * Content-Disposition value for a download. Header values must be Latin-1,
+ * so send an ASCII fallback name plus the UTF-8 name in filename*.
+ */
+export function contentDisposition(disposition: 'inline' | 'attachment', fileName: string): string {
+  const asciiName = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encodedName = encodeURIComponent(fileName).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+}
+
+/**
+ * Decode and check an upload's size, declared type and actual contents
+ */
+export function validateUpload(input: AttachmentUploadInput): ValidatedUpload {
+  if (!input || typeof input.data !== 'string' || !input.file_name || !input.mime_type) {
+    throw invalidUpload('Each attachment needs a file name, type and contents');
+  }
+
+  // Own keys only, so names like "constructor" don't match Object.prototype
+  const mimeType = String(input.mime_type).toLowerCase();
+  if (!Object.prototype.hasOwnProperty.call(AllowedAttachmentTypes, mimeType)
+    || !Object.prototype.hasOwnProperty.call(FILE_SIGNATURES, mimeType)) {
+    throw invalidUpload('Only JPEG, PNG, WebP images and PDF documents can be attached');
+  }
+
+  const category = (input.category || 'other') as AttachmentCategory;
+  if (!AttachmentCategories.includes(category)) {
+    throw invalidUpload(`Category must be one of: ${AttachmentCategories.join(', ')}`);
+  }
+
+  const base64 = input.data.replace(/^data:[^;,]+;base64,/, '');
+  const buffer = Buffer.from(base64, 'base64');
+
+  if (buffer.length === 0) {
+    throw invalidUpload('Attachment is empty');
+  }
+
+  if (buffer.length > storageConfig.maxFileSizeBytes) {
+    throw invalidUpload(`Attachments must be ${storageConfig.maxFileSizeBytes / (1024 * 1024)} MB or smaller`);
+  }
+
+  if (!FILE_SIGNATURES[mimeType](buffer)) {
+    throw invalidUpload('File contents do not match its type');
+  }
+
+  return {
+    originalName: sanitizeFileName(input.file_name),
+    mimeType,
+    category,
+    buffer
+  };
+}
+
+/**
+ * Write a validated upload to storage and record it against a ticket or instance
+ */
+export async function storeAttachment(
+  entityType: AttachmentEntityType,
+  entityId: number,
+  upload: ValidatedUpload,
+  uploadedBy: number
+): Promise<Attachment> {
+  const storageKey = `${entityType}/${entityId}/${uuidv4()}${AllowedAttachmentTypes[upload.mimeType]}`;
+
+  await attachmentStorage.save(storageKey, upload.buffer);
+
+  try {
+    return await AttachmentRepository.createAttachment({
+      entity_type: entityType,
+      entity_id: entityId,
+      category: upload.category,
+      original_name: upload.originalName,
+      storage_key: storageKey,
+      mime_type: upload.mimeType,
+      file_size: upload.buffer.length,
+      uploaded_by: uploadedBy
+    });
+  } catch (error) {
+    // Don't leave an orphaned file behind
+    await attachmentStorage.remove(storageKey).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Read an attachment's contents from storage
+ */
+export async function readAttachment(attachment: Attachment): Promise<Buffer> {
+  return await attachmentStorage.read(attachment.storage_key);
+}
@@ -0,0 +1,63 @@
+/**
+ * Attachment Storage
+ * Stores attachment file contents behind a small interface so the local disk
+ * driver can be swapped for object storage without changing callers
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { storageConfig } from '../config/storage';
+
+export interface AttachmentStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Stores files under a root directory on the local disk
+ */
+export class LocalDiskStorage implements AttachmentStorage {
+  constructor(private readonly rootPath: string) {}
+
+  /**
+   * Resolve a storage key to a path, refusing anything outside the root
+   */
+  private resolvePath(key: string): string {
+    const root = path.resolve(this.rootPath);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data, { flag: 'wx' });
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return await fs.readFile(this.resolvePath(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+function createAttachmentStorage(): AttachmentStorage {
+  switch (storageConfig.driver) {
+    case 'local':
+      return new LocalDiskStorage(storageConfig.localPath);
+    default:
+      throw new Error(`Unknown attachment storage driver: ${storageConfig.driver}`);
+  }
+}
+
+export const attachmentStorage = createAttachmentStorage();
@@ -0,0 +1,517 @@
+/**
+ * Billing
+ * Rules for pricing work from a vendor's price list, quotes the client
+ * accepts or declines, invoices and the payments recorded against them
+ */
+
+import {
+  BillingLineInput,
+  BillingRepository,
+  DraftChanges,
+  Invoice,
+  InvoiceStatus,
+  PaymentData,
+  PriceListItem,
+  PriceListItemData,
+  Quote,
+  TicketBillingSource
+} from '../models/BillingRepository';
+import { PartsRepository } from '../models/PartsRepository';
+import { CreateNotificationData, NotificationRepository } from '../models/NotificationRepository';
+import { ApiError, ConflictError, HttpStatus, NotFoundError } from '../types/api';
+import { PDFService } from '../utils/PDFService';
+import { getBrandingWithLogo } from './branding';
+
+// Days an invoice is due after issue when the vendor doesn't set a due date
+const PAYMENT_TERMS_DAYS = 30;
+
+// Rental rates are monthly; a month of hire is counted as 30 days
+const RENTAL_DAYS_PER_MONTH = 30;
+
+export interface DraftLines {
+  lines: BillingLineInput[];
+  // Work that couldn't be priced because the price list has no rate for it
+  warnings: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Notifications are a side effect; a failure to send one never undoes the change
+ */
+async function notify(
+  document: { client_id: number; vendor_id: number },
+  recipient: 'client' | 'vendor',
+  data: Omit<CreateNotificationData, 'user_id' | 'category'>
+) {
+  try {
+    const users = await BillingRepository.getNotifyUsers(document.client_id, document.vendor_id);
+    const userId = recipient === 'client' ? users.client_user_id : users.vendor_user_id;
+    if (!userId) return;
+
+    await NotificationRepository.createNotification({ ...data, user_id: userId, category: 'billing', event_type: 'billing' });
+  } catch (error) {
+    console.error('Error creating billing notification:', error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Price list
+// ---------------------------------------------------------------------------
+
+export async function createPriceListItem(vendorId: number, data: PriceListItemData): Promise<PriceListItem> {
+  if (await BillingRepository.isPriceScopeTaken(vendorId, data)) {
+    throw new ConflictError('Your price list already has this rate');
+  }
+  return BillingRepository.createPriceListItem(vendorId, data);
+}
+
+export async function updatePriceListItem(vendorId: number, itemId: number, data: PriceListItemData): Promise<PriceListItem> {
+  if (!(await BillingRepository.findPriceListItem(itemId, vendorId))) {
+    throw new NotFoundError('Price list item');
+  }
+  if (await BillingRepository.isPriceScopeTaken(vendorId, data, itemId)) {
+    throw new ConflictError('Your price list already has this rate');
+  }
+  return (await BillingRepository.updatePriceListItem(itemId, vendorId, data))!;
+}
+
+export async function deletePriceListItem(vendorId: number, itemId: number): Promise<void> {
+  if (!(await BillingRepository.deletePriceListItem(itemId, vendorId))) {
+    throw new NotFoundError('Price list item');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Drafting lines from the price list
+// ---------------------------------------------------------------------------
+
+async function getVendorTicket(vendorId: number, ticketId: number): Promise<TicketBillingSource> {
+  const ticket = await BillingRepository.getTicketBillingSource(ticketId, vendorId);
+  if (!ticket) {
+    throw new NotFoundError('Ticket');
+  }
+  if (!ticket.client_id) {
+    throw new ApiError('This ticket has no client to bill', HttpStatus.BAD_REQUEST, 'NO_CLIENT');
+  }
+  return ticket;
+}
+
+/**
+ * Suggested lines for a ticket: the call-out charge, labour at the rate for
+ * the equipment type and ticket category, and the parts used at the cost they
+ * were booked out at. Quotes use the estimated hours since the work hasn't
+ * been done; invoices use the hours actually recorded.
+ */
+export async function draftTicketLines(vendorId: number, ticketId: number, document: 'quote' | 'invoice'): Promise<DraftLines> {
+  const ticket = await getVendorTicket(vendorId, ticketId);
+  const lines: BillingLineInput[] = [];
+  const warnings: string[] = [];
+  const subject = ticket.equipment_name ? ` - ${ticket.equipment_name}` : '';
+
+  const callOut = await BillingRepository.findRate(vendorId, 'call_out', ticket.equipment_type, ticket.category);
+  if (callOut) {
+    lines.push({ line_type: 'call_out', description: `${callOut.description} (${ticket.ticket_number})`, quantity: 1, unit_price: callOut.unit_price });
+  }
+
+  const hours = document === 'invoice' ? ticket.actual_hours : ticket.estimated_hours;
+  if (hours && hours > 0) {
+    const labour = await BillingRepository.findRate(vendorId, 'labour', ticket.equipment_type, ticket.category);
+    if (labour) {
+      lines.push({ line_type: 'labour', description: `${labour.description}${subject}`, quantity: hours, unit_price: labour.unit_price });
+    } else {
+      warnings.push(`No labour rate covers ${ticket.equipment_type || 'this equipment'}${ticket.category ? ` (${ticket.category})` : ''}`);
+    }
+  } else {
+    warnings.push(document === 'invoice' ? 'No hours were recorded on this ticket' : 'This ticket has no estimated hours');
+  }
+
+  if (document === 'invoice') {
+    const parts = await PartsRepository.getTicketParts(ticketId);
+    parts.forEach(part => lines.push({
+      line_type: 'part',
+      description: `${part.part_name} (${part.part_number})`,
+      quantity: part.quantity,
+      unit_price: part.unit_cost,
+      part_id: part.part_id
+    }));
+  }
+
+  return { lines, warnings };
+}
+
+/**
+ * Suggested rental lines for the equipment a client had on hire during a
+ * period, in unit-months at the rental rate for each equipment type
+ */
+export async function draftRentalLines(vendorId: number, clientId: number, start: string, end: string): Promise<DraftLines> {
+  if (start > end) {
+    throw new ApiError('The period must start before it ends', HttpStatus.BAD_REQUEST, 'INVALID_PERIOD');
+  }
+  if (!(await BillingRepository.isVendorClient(clientId, vendorId))) {
+    throw new NotFoundError('Client');
+  }
+
+  const lines: BillingLineInput[] = [];
+  const warnings: string[] = [];
+
+  for (const usage of await BillingRepository.getRentalUsage(vendorId, clientId, start, end)) {
+    const rate = await BillingRepository.findRate(vendorId, 'rental', usage.equipment_type, null);
+    if (!rate) {
+      warnings.push(`No rental rate covers ${usage.equipment_type}`);
+      continue;
+    }
+    lines.push({
+      line_type: 'rental',
+      description: `${rate.description} - ${usage.units} x ${usage.equipment_type}, ${start} to ${end}`,
+      quantity: round2(usage.unit_days / RENTAL_DAYS_PER_MONTH),
+      unit_price: rate.unit_price
+    });
+  }
+
+  return { lines, warnings };
+}
+
+function requireLines(lines: BillingLineInput[]) {
+  if (lines.length === 0) {
+    throw new ApiError('Add at least one line', HttpStatus.BAD_REQUEST, 'NO_LINES');
+  }
+}
+
+/**
+ * Part lines can only point at parts in the vendor's own catalog
+ */
+async function requireVendorParts(vendorId: number, lines: BillingLineInput[]) {
+  const partIds = [...new Set(lines.filter(line => line.part_id).map(line => line.part_id!))];
+  if (partIds.length === 0) return;
+
+  const found = await PartsRepository.findVendorPartIds(vendorId, partIds);
+  if (found.length !== partIds.length) {
+    throw new ApiError('One or more parts were not found', HttpStatus.BAD_REQUEST, 'INVALID_PART');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Quotes
+// ---------------------------------------------------------------------------
+
+/**
+ * A quote the vendor raised, or a 404
+ */
+export async function getVendorQuote(vendorId: number, quoteId: number): Promise<Quote> {
+  const quote = await BillingRepository.findQuoteById(quoteId);
+  if (!quote || quote.vendor_id !== vendorId) {
+    throw new NotFoundError('Quote');
+  }
+  return quote;
+}
+
+/**
+ * A quote sent to the client, or a 404. Drafts stay with the vendor.
+ */
+export async function getClientQuote(clientId: number, quoteId: number): Promise<Quote> {
+  const quote = await BillingRepository.findQuoteById(quoteId);
+  if (!quote || quote.client_id !== clientId || quote.status === 'draft') {
+    throw new NotFoundError('Quote');
+  }
+  return quote;
+}
+
+export async function createQuote(
+  vendorId: number,
+  userId: number,
+  data: { ticket_id: number; valid_until: string | null; notes: string | null; tax_rate: number; lines: BillingLineInput[] }
+): Promise<Quote> {
+  const ticket = await getVendorTicket(vendorId, data.ticket_id);
+  if (ticket.ticket_status !== 'open') {
+    throw new ConflictError('Quotes can only be raised for open tickets');
+  }
+  requireLines(data.lines);
+  await requireVendorParts(vendorId, data.lines);
+
+  const quoteId = await BillingRepository.createQuote({
+    ...data,
+    vendor_id: vendorId,
+    client_id: ticket.client_id!,
+    created_by: userId
+  });
+  return (await BillingRepository.findQuoteById(quoteId))!;
+}
+
+export async function updateQuote(vendorId: number, quoteId: number, changes: DraftChanges): Promise<Quote> {
+  const quote = await getVendorQuote(vendorId, quoteId);
+  requireLines(changes.lines);
+  await requireVendorParts(vendorId, changes.lines);
+
+  if (!(await BillingRepository.updateQuoteDraft(quoteId, changes))) {
+    throw new ConflictError(`Quote ${quote.quote_number} has been sent and can no longer be changed`);
+  }
+  return (await BillingRepository.findQuoteById(quoteId))!;
+}
+
+export async function sendQuote(vendorId: number, quoteId: number): Promise<Quote> {
+  const quote = await getVendorQuote(vendorId, quoteId);
+  if (quote.valid_until && quote.valid_until < new Date().toISOString().slice(0, 10)) {
+    throw new ApiError('The valid-until date has passed; update it before sending', HttpStatus.BAD_REQUEST, 'QUOTE_EXPIRED');
+  }
+
+  if (!(await BillingRepository.markQuoteSent(quoteId))) {
+    throw new ConflictError(`This quote is already ${quote.status}`);
+  }
+
+  await notify(quote, 'client', {
+    title: `Quote ${quote.quote_number} for ${quote.ticket_number}`,
+    message: `A quote of $${quote.total.toFixed(2)} is waiting for your approval${quote.valid_until ? ` (valid until ${quote.valid_until})` : ''}.`,
+    type: 'info',
+    priority: 'normal',
+    action_url: quote.ticket_id ? `/service-requests/${quote.ticket_id}` : '/client-invoices',
+    metadata: { quote_id: quote.id, quote_number: quote.quote_number }
+  });
+  return (await BillingRepository.findQuoteById(quoteId))!;
+}
+
+/**
+ * The client accepts or declines a quote sent to them
+ */
+export async function respondToQuote(
+  clientId: number,
+  quoteId: number,
+  userId: number,
+  decision: 'accepted' | 'declined',
+  notes: string | null
+): Promise<Quote> {
+  const quote = await getClientQuote(clientId, quoteId);
+  if (quote.is_expired) {
+    throw new ConflictError(`Quote ${quote.quote_number} expired on ${quote.valid_until}`);
+  }
+
+  if (!(await BillingRepository.respondToQuote(quoteId, decision, userId, notes))) {
+    throw new ConflictError(`This quote is already ${quote.status}`);
+  }
+
+  const accepted = decision === 'accepted';
+  await notify(quote, 'vendor', {
+    title: `${accepted ? 'Accepted' : 'Declined'}: quote ${quote.quote_number}`,
+    message: `${quote.client_name} ${decision} the quote for ${quote.ticket_number}${notes ? `: ${notes}` : '.'}`,
+    type: accepted ? 'success' : 'warning',
+    priority: 'normal',
+    action_url: quote.ticket_id ? `/maintenance-tickets/${quote.ticket_id}` : '/billing',
+    metadata: { quote_id: quote.id, quote_number: quote.quote_number }
+  });
+  return (await BillingRepository.findQuoteById(quoteId))!;
+}
+
+// ---------------------------------------------------------------------------
+// Invoices
+// ---------------------------------------------------------------------------
+
+/**
+ * An invoice the vendor raised, or a 404
+ */
+export async function getVendorInvoice(vendorId: number, invoiceId: number): Promise<Invoice> {
+  const invoice = await BillingRepository.findInvoiceById(invoiceId);
+  if (!invoice || invoice.vendor_id !== vendorId) {
+    throw new NotFoundError('Invoice');
+  }
+  return invoice;
+}
+
+/**
+ * An invoice issued to the client, or a 404. Drafts stay with the vendor.
+ */
+export async function getClientInvoice(clientId: number, invoiceId: number): Promise<Invoice> {
+  const invoice = await BillingRepository.findInvoiceById(invoiceId);
+  if (!invoice || invoice.client_id !== clientId || invoice.status === 'draft') {
+    throw new NotFoundError('Invoice');
+  }
+  return invoice;
+}
+
+/**
+ * Raise a draft invoice, either for the work on a resolved ticket or for
+ * equipment rented to a client over a period
+ */
+export async function createInvoice(
+  vendorId: number,
+  userId: number,
+  data: {
+    ticket_id?: number | null;
+    client_id?: number | null;
+    period_start?: string | null;
+    period_end?: string | null;
+    due_date: string | null;
+    notes: string | null;
+    tax_rate: number;
+    lines: BillingLineInput[];
+  }
+): Promise<Invoice> {
+  requireLines(data.lines);
+  await requireVendorParts(vendorId, data.lines);
+  let clientId: number;
+  let quoteId: number | null = null;
+
+  if (data.ticket_id) {
+    const ticket = await getVendorTicket(vendorId, data.ticket_id);
+    if (ticket.ticket_status === 'open') {
+      throw new ConflictError('Resolve the ticket before invoicing it');
+    }
+
+    const existing = await BillingRepository.findOpenInvoiceForTicket(data.ticket_id);
+    if (existing) {
+      throw new ConflictError(`${ticket.ticket_number} is already on invoice ${existing.invoice_number}`);
+    }
+
+    clientId = ticket.client_id!;
+    quoteId = (await BillingRepository.findAcceptedQuoteForTicket(data.ticket_id))?.id ?? null;
+  } else {
+    if (!data.client_id || !data.period_start || !data.period_end) {
+      throw new ApiError('A rental invoice needs a client and a period', HttpStatus.BAD_REQUEST, 'INVALID_INVOICE');
+    }
+    if (data.period_start > data.period_end) {
+      throw new ApiError('The period must start before it ends', HttpStatus.BAD_REQUEST, 'INVALID_PERIOD');
+    }
+    if (!(await BillingRepository.isVendorClient(data.client_id, vendorId))) {
+      throw new NotFoundError('Client');
+    }
+    clientId = data.client_id;
+  }
+
+  const invoiceId = await BillingRepository.createInvoice({
+    vendor_id: vendorId,
+    client_id: clientId,
+    ticket_id: data.ticket_id || null,
+    quote_id: quoteId,
+    period_start: data.ticket_id ? null : data.period_start!,
+    period_end: data.ticket_id ? null : data.period_end!,
+    due_date: data.due_date,
+    notes: data.notes,
+    tax_rate: data.tax_rate,
+    created_by: userId,
+    lines: data.lines
+  });
+  return (await BillingRepository.findInvoiceById(invoiceId))!;
+}
+
+export async function updateInvoice(vendorId: number, invoiceId: number, changes: DraftChanges): Promise<Invoice> {
+  const invoice = await getVendorInvoice(vendorId, invoiceId);
+  requireLines(changes.lines);
+  await requireVendorParts(vendorId, changes.lines);
+
+  if (!(await BillingRepository.updateInvoiceDraft(invoiceId, changes))) {
+    throw new ConflictError(`Invoice ${invoice.invoice_number} has been issued and can no longer be changed`);
+  }
+  return (await BillingRepository.findInvoiceById(invoiceId))!;
+}
+
+export async function issueInvoice(vendorId: number, invoiceId: number, userId: number): Promise<Invoice> {
+  const invoice = await getVendorInvoice(vendorId, invoiceId);
+
+  if (!(await BillingRepository.issueInvoice(invoiceId, userId, PAYMENT_TERMS_DAYS))) {
+    throw new ConflictError(`This invoice is already ${invoice.status.replace('_', ' ')}`);
+  }
+
+  const issued = (await BillingRepository.findInvoiceById(invoiceId))!;
+  await notify(issued, 'client', {
+    title: `Invoice ${issued.invoice_number}`,
+    message: `An invoice of $${issued.total.toFixed(2)} is due by ${issued.due_date}.`,
+    type: 'info',
+    priority: 'normal',
+    action_url: '/client-invoices',
+    metadata: { invoice_id: issued.id, invoice_number: issued.invoice_number }
+  });
+  return issued;
+}
+
+export async function recordPayment(vendorId: number, invoiceId: number, userId: number, payment: PaymentData): Promise<Invoice> {
+  const invoice = await getVendorInvoice(vendorId, invoiceId);
+
+  if (!['issued', 'partially_paid'].includes(invoice.status)) {
+    throw new ConflictError(`Payments can't be recorded on a ${invoice.status.replace('_', ' ')} invoice`);
+  }
+  if (payment.amount > invoice.balance_due) {
+    throw new ApiError(`Only $${invoice.balance_due.toFixed(2)} is outstanding`, HttpStatus.BAD_REQUEST, 'OVERPAYMENT');
+  }
+
+  const status: InvoiceStatus | null = await BillingRepository.recordPayment(invoiceId, payment, userId);
+  if (!status) {
+    // Another payment landed first
+    throw new ConflictError('The invoice changed while the payment was being recorded; try again');
+  }
+
+  if (status === 'paid') {
+    await notify(invoice, 'client', {
+      title: `Paid: invoice ${invoice.invoice_number}`,
+      message: `Thank you, invoice ${invoice.invoice_number} is paid in full.`,
+      type: 'success',
+      priority: 'low',
+      action_url: '/client-invoices',
+      metadata: { invoice_id: invoice.id, invoice_number: invoice.invoice_number }
+    });
+  }
+  return (await BillingRepository.findInvoiceById(invoiceId))!;
+}
+
+export async function voidInvoice(vendorId: number, invoiceId: number, reason: string | null): Promise<Invoice> {
+  const invoice = await getVendorInvoice(vendorId, invoiceId);
+
+  if (!(await BillingRepository.voidInvoice(invoiceId, reason))) {
+    throw new ConflictError(invoice.amount_paid > 0
+      ? 'Invoices with payments recorded against them can\'t be voided'
+      : `This invoice is already ${invoice.status.replace('_', ' ')}`);
+  }
+  return (await BillingRepository.findInvoiceById(invoiceId))!;
+}
+
+// ---------------------------------------------------------------------------
+// PDFs
+// ---------------------------------------------------------------------------
+
+const pdfLines = (document: Quote | Invoice) => document.lines.map(line => ({
+  description: line.description,
+  quantity: line.quantity,
+  unitPrice: line.unit_price,
+  amount: line.amount
+}));
+
+export async function quotePdf(quote: Quote): Promise<Buffer> {
+  return PDFService.generateBillingDocument({
+    documentType: 'Quote',
+    documentNumber: quote.quote_number,
+    details: [
+      { label: 'Date', value: (quote.sent_at ? new Date(quote.sent_at) : new Date()).toLocaleDateString() },
+      ...(quote.valid_until ? [{ label: 'Valid until', value: quote.valid_until }] : []),
+      ...(quote.ticket_number ? [{ label: 'Ticket', value: quote.ticket_number }] : [])
+    ],
+    billTo: { name: quote.client_name, address: quote.client_address },
+    lines: pdfLines(quote),
+    subtotal: quote.subtotal,
+    taxRate: quote.tax_rate,
+    taxAmount: quote.tax_amount,
+    total: quote.total,
+    notes: quote.notes,
+    branding: await getBrandingWithLogo(quote.vendor_id)
+  });
+}
+
+export async function invoicePdf(invoice: Invoice): Promise<Buffer> {
+  return PDFService.generateBillingDocument({
+    documentType: invoice.status === 'void' ? 'Invoice (Void)' : 'Invoice',
+    documentNumber: invoice.invoice_number,
+    details: [
+      ...(invoice.issue_date ? [{ label: 'Issued', value: invoice.issue_date }] : []),
+      ...(invoice.due_date ? [{ label: 'Due', value: invoice.due_date }] : []),
+      ...(invoice.ticket_number ? [{ label: 'Ticket', value: invoice.ticket_number }] : []),
+      ...(invoice.quote_number ? [{ label: 'Quote', value: invoice.quote_number }] : []),
+      ...(invoice.period_start ? [{ label: 'Period', value: `${invoice.period_start} to ${invoice.period_end}` }] : [])
+    ],
+    billTo: { name: invoice.client_name, address: invoice.client_address },
+    lines: pdfLines(invoice),
+    subtotal: invoice.subtotal,
+    taxRate: invoice.tax_rate,
+    taxAmount: invoice.tax_amount,
+    total: invoice.total,
+    amountPaid: invoice.amount_paid,
+    notes: invoice.notes,
+    branding: await getBrandingWithLogo(invoice.vendor_id)
+  });
+}
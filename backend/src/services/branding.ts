@@ -0,0 +1,162 @@
+/**
+ * Branding
+ * Resolves the name, logo, colors and contact details shown to a vendor's
+ * clients in the portal, emails and PDFs, falling back to the Fire Guardian
+ * defaults for anything the vendor hasn't set
+ */
+
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AllowedAttachmentTypes } from '../config/storage';
+import { brandingConfig, defaultBranding } from '../config/branding';
+import { attachmentStorage } from './attachmentStorage';
+import { AttachmentUploadInput, validateUpload } from './attachmentService';
+import { VendorBranding, VendorBrandingRepository } from '../models/VendorBrandingRepository';
+import { ApiError, HttpStatus } from '../types/api';
+
+export interface BrandContact {
+  phone: string | null;
+  email: string | null;
+  website: string | null;
+  address: string | null;
+}
+
+export interface Branding {
+  // Null for the default Fire Guardian branding
+  vendorId: number | null;
+  name: string;
+  // Longer name for footers and PDF metadata
+  productName: string;
+  tagline: string;
+  primaryColor: string;
+  secondaryColor: string;
+  logoUrl: string | null;
+  senderName: string;
+  contact: BrandContact | null;
+}
+
+export interface BrandingLogo {
+  data: Buffer;
+  mimeType: string;
+}
+
+// For documents that embed the logo rather than link to it
+export type BrandingWithLogo = Branding & { logo: Buffer | null };
+
+export const DEFAULT_BRANDING: Branding = {
+  vendorId: null,
+  ...defaultBranding,
+  logoUrl: null,
+  contact: null,
+};
+
+const formatAddress = (row: VendorBranding): string | null => {
+  const locality = [row.city, [row.state, row.zip_code].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  return [row.street_address, locality, row.country].filter(Boolean).join(', ') || null;
+};
+
+function toBranding(row: VendorBranding): Branding {
+  const name = row.brand_name || row.company_name;
+  const version = row.brand_updated_at ? new Date(row.brand_updated_at).getTime() : 0;
+
+  return {
+    vendorId: row.vendor_id,
+    name,
+    productName: name,
+    tagline: row.brand_tagline || defaultBranding.tagline,
+    primaryColor: row.brand_primary_color || defaultBranding.primaryColor,
+    secondaryColor: row.brand_secondary_color || row.brand_primary_color || defaultBranding.secondaryColor,
+    // Public and versioned so email clients can load it and caches refresh on change
+    logoUrl: row.brand_logo_key
+      ? `${brandingConfig.publicApiUrl}/api/branding/vendors/${row.vendor_id}/logo?v=${version}`
+      : null,
+    senderName: row.email_sender_name || name,
+    contact: {
+      phone: row.primary_phone,
+      email: row.brand_contact_email,
+      website: row.brand_website,
+      address: formatAddress(row),
+    },
+  };
+}
+
+/**
+ * Branding for a vendor's clients, or the default when there's no vendor
+ */
+export async function getBranding(vendorId?: number | null): Promise<Branding> {
+  if (!vendorId) return DEFAULT_BRANDING;
+  const row = await VendorBrandingRepository.findByVendorId(vendorId);
+  return row ? toBranding(row) : DEFAULT_BRANDING;
+}
+
+/**
+ * Branding a signed-in user sees in the portal and in emails sent to them
+ */
+export async function getBrandingForUser(userId: number): Promise<Branding> {
+  return getBranding(await VendorBrandingRepository.findVendorIdForUser(userId));
+}
+
+/**
+ * A vendor's logo file, or null when they haven't uploaded one
+ */
+export async function readBrandingLogo(vendorId: number): Promise<BrandingLogo | null> {
+  const row = await VendorBrandingRepository.findByVendorId(vendorId);
+  if (!row?.brand_logo_key || !row.brand_logo_mime_type) return null;
+
+  try {
+    return { data: await attachmentStorage.read(row.brand_logo_key), mimeType: row.brand_logo_mime_type };
+  } catch (error) {
+    console.error(`Failed to read logo for vendor ${vendorId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Branding plus the logo itself, for documents that embed it
+ */
+export async function getBrandingWithLogo(vendorId?: number | null): Promise<BrandingWithLogo> {
+  const branding = await getBranding(vendorId);
+  const logo = branding.logoUrl && branding.vendorId ? await readBrandingLogo(branding.vendorId) : null;
+  return { ...branding, logo: logo?.data || null };
+}
+
+/**
+ * Replace a vendor's logo. Only small PNG and JPEG files are accepted since
+ * PDFs can't embed anything else.
+ */
+export async function saveBrandingLogo(vendorId: number, input: AttachmentUploadInput): Promise<void> {
+  const upload = validateUpload({ ...input, category: 'other' });
+
+  if (!brandingConfig.logoTypes.includes(upload.mimeType)) {
+    throw new ApiError('Logos must be PNG or JPEG images', HttpStatus.BAD_REQUEST, 'INVALID_LOGO');
+  }
+  if (upload.buffer.length > brandingConfig.maxLogoSizeBytes) {
+    throw new ApiError(
+      `Logos must be ${brandingConfig.maxLogoSizeBytes / 1024} KB or smaller`,
+      HttpStatus.BAD_REQUEST,
+      'INVALID_LOGO'
+    );
+  }
+
+  const storageKey = path.posix.join('branding', `vendor-${vendorId}`, `${uuidv4()}${AllowedAttachmentTypes[upload.mimeType]}`);
+  await attachmentStorage.save(storageKey, upload.buffer);
+
+  let previousKey: string | null;
+  try {
+    previousKey = await VendorBrandingRepository.setLogo(vendorId, storageKey, upload.mimeType);
+  } catch (error) {
+    await attachmentStorage.remove(storageKey).catch(() => undefined);
+    throw error;
+  }
+
+  if (previousKey) {
+    await attachmentStorage.remove(previousKey).catch(() => undefined);
+  }
+}
+
+export async function removeBrandingLogo(vendorId: number): Promise<void> {
+  const previousKey = await VendorBrandingRepository.setLogo(vendorId, null, null);
+  if (previousKey) {
+    await attachmentStorage.remove(previousKey).catch(() => undefined);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Client Import Service
+ * Validates a CSV of client companies and their contact users before any
+ * accounts are created
+ */
+
+import { parseCsvWithHeader } from '../utils/csv';
+import { ClientRepository } from '../models/ClientRepository';
+import { ApiError, HttpStatus } from '../types/api';
+
+export const CLIENT_IMPORT_COLUMNS = [
+  'company_name',
+  'business_type',
+  'first_name',
+  'last_name',
+  'email',
+  'phone',
+  'primary_phone',
+  'street_address',
+  'city',
+  'zip_code',
+  'country'
+];
+export const CLIENT_IMPORT_MAX_ROWS = 500;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface ClientImportRow {
+  company_name: string;
+  business_type: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  primary_phone: string;
+  street_address: string;
+  city: string;
+  zip_code: string;
+  country: string;
+}
+
+export interface ClientImportRowError {
+  row: number;              // Line number in the file, header is line 1
+  email?: string;
+  errors: string[];
+}
+
+export interface ClientImportReport {
+  total_rows: number;
+  valid_rows: number;
+  errors: ClientImportRowError[];
+  clients: ClientImportRow[];
+}
+
+function invalidImportFile(message: string): ApiError {
+  return new ApiError(message, HttpStatus.BAD_REQUEST, 'INVALID_IMPORT_FILE');
+}
+
+/**
+ * Parse and check a client import file. Every column is required, matching
+ * the single client form, and emails must not belong to any existing user.
+ */
+export async function validateClientImport(
+  csv: string,
+  clientRepository: ClientRepository
+): Promise<ClientImportReport> {
+  const { headers, records } = parseCsvWithHeader(csv);
+
+  const missingColumns = CLIENT_IMPORT_COLUMNS.filter(column => !headers.includes(column));
+  if (missingColumns.length > 0) {
+    throw invalidImportFile(`Missing required columns: ${missingColumns.join(', ')}`);
+  }
+  if (records.length === 0) {
+    throw invalidImportFile('The file has no rows to import');
+  }
+  if (records.length > CLIENT_IMPORT_MAX_ROWS) {
+    throw invalidImportFile(`Files can contain at most ${CLIENT_IMPORT_MAX_ROWS} rows`);
+  }
+
+  const emails = records.map(record => record.email).filter(Boolean);
+  const takenEmails = new Set(await clientRepository.getExistingEmails(emails));
+  const seenEmails = new Map<string, number>();
+
+  const errors: ClientImportRowError[] = [];
+  const clients: ClientImportRow[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+    const rowErrors: string[] = [];
+
+    for (const column of CLIENT_IMPORT_COLUMNS) {
+      if (!record[column]) {
+        rowErrors.push(`${column} is required`);
+      }
+    }
+
+    const email = record.email.toLowerCase();
+    if (email) {
+      if (!EMAIL_PATTERN.test(email)) {
+        rowErrors.push(`"${record.email}" is not a valid email address`);
+      } else if (takenEmails.has(email)) {
+        rowErrors.push(`Email "${record.email}" is already in use`);
+      } else if (seenEmails.has(email)) {
+        rowErrors.push(`Email "${record.email}" is repeated on row ${seenEmails.get(email)}`);
+      }
+      if (!seenEmails.has(email)) {
+        seenEmails.set(email, row);
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ row, email: record.email || undefined, errors: rowErrors });
+      return;
+    }
+
+    clients.push({
+      company_name: record.company_name,
+      business_type: record.business_type,
+      first_name: record.first_name,
+      last_name: record.last_name,
+      email,
+      phone: record.phone,
+      primary_phone: record.primary_phone,
+      street_address: record.street_address,
+      city: record.city,
+      zip_code: record.zip_code,
+      country: record.country
+    });
+  });
+
+  return {
+    total_rows: records.length,
+    valid_rows: clients.length,
+    errors,
+    clients
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Client Sites
+ * Rules for a client's sites and their building -> floor -> room zones, and
+ * for placing equipment into them
+ */
+
+import {
+  ClientSite,
+  ClientSiteData,
+  ClientSiteRepository,
+  SiteZone,
+  ZoneType
+} from '../models/ClientSiteRepository';
+import { ApiError, ConflictError, HttpStatus, NotFoundError } from '../types/api';
+
+export type ClientSiteWithZones = ClientSite & { zones: SiteZone[] };
+
+// The zone type each kind of zone must sit in
+export const ZONE_PARENT_TYPE: Record<ZoneType, ZoneType | null> = {
+  building: null,
+  floor: 'building',
+  room: 'floor',
+};
+
+export interface SiteScope {
+  clientId?: number;
+  vendorId?: number;
+}
+
+const isUniqueViolation = (error: any) => error?.code === '23505';
+
+/**
+ * Sites in scope with their zones
+ */
+export async function listSitesWithZones(scope: SiteScope): Promise<ClientSiteWithZones[]> {
+  const sites = await ClientSiteRepository.listSites(scope);
+  const zones = await ClientSiteRepository.listZones(sites.map(site => site.id));
+  return sites.map(site => ({ ...site, zones: zones.filter(zone => zone.site_id === site.id) }));
+}
+
+export async function getSiteWithZones(siteId: number): Promise<ClientSiteWithZones | null> {
+  const site = await ClientSiteRepository.findSite(siteId);
+  if (!site) return null;
+  return { ...site, zones: await ClientSiteRepository.listZones([siteId]) };
+}
+
+/**
+ * Whether the site (and so its zones) belongs to one of the vendor's clients
+ */
+export async function vendorOwnsSite(vendorId: number, siteId: number): Promise<boolean> {
+  const owner = await ClientSiteRepository.getSiteOwner(siteId);
+  return owner?.vendor_id === vendorId;
+}
+
+export async function createSite(clientId: number, data: ClientSiteData): Promise<ClientSite> {
+  try {
+    return await ClientSiteRepository.createSite(clientId, data);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError(`This client already has a site named "${data.site_name}"`);
+    }
+    throw error;
+  }
+}
+
+export async function updateSite(siteId: number, data: ClientSiteData): Promise<ClientSite | null> {
+  try {
+    return await ClientSiteRepository.updateSite(siteId, data);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError(`This client already has a site named "${data.site_name}"`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a site and its zones. Refused while equipment is placed there so
+ * nothing silently loses its location.
+ */
+export async function deleteSite(siteId: number): Promise<void> {
+  const site = await ClientSiteRepository.findSite(siteId);
+  if (!site) {
+    throw new NotFoundError('Site');
+  }
+  if (site.equipment_count > 0) {
+    throw new ConflictError(`Move the ${site.equipment_count} equipment item(s) at this site before deleting it`);
+  }
+  await ClientSiteRepository.deleteSite(siteId);
+}
+
+/**
+ * Add a building, floor or room. Floors go in a building and rooms in a
+ * floor of the same site.
+ */
+export async function addZone(
+  siteId: number,
+  data: { zone_type: ZoneType; zone_name: string; parent_id?: number | null }
+): Promise<number> {
+  const parentType = ZONE_PARENT_TYPE[data.zone_type];
+
+  if (!parentType && data.parent_id) {
+    throw new ApiError('Buildings cannot be placed inside another zone', HttpStatus.BAD_REQUEST, 'INVALID_ZONE');
+  }
+  if (parentType) {
+    const parent = data.parent_id ? await ClientSiteRepository.getZoneOwner(data.parent_id) : null;
+    if (!parent || parent.site_id !== siteId || parent.zone_type !== parentType) {
+      throw new ApiError(`A ${data.zone_type} must be inside a ${parentType} of this site`, HttpStatus.BAD_REQUEST, 'INVALID_ZONE');
+    }
+  }
+
+  try {
+    return await ClientSiteRepository.createZone(siteId, parentType ? data.parent_id! : null, data.zone_type, data.zone_name);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError(`There is already a zone named "${data.zone_name}" here`);
+    }
+    throw error;
+  }
+}
+
+export async function renameZone(zoneId: number, zoneName: string): Promise<void> {
+  try {
+    await ClientSiteRepository.renameZone(zoneId, zoneName);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError(`There is already a zone named "${zoneName}" here`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a zone and everything inside it, unless equipment is placed there
+ */
+export async function deleteZone(zoneId: number): Promise<void> {
+  const placed = await ClientSiteRepository.countEquipmentInZone(zoneId);
+  if (placed > 0) {
+    throw new ConflictError(`Move the ${placed} equipment item(s) in this zone before deleting it`);
+  }
+  await ClientSiteRepository.deleteZone(zoneId);
+}
+
+/**
+ * Place one of the vendor's instances at a site of the client it's assigned
+ * to, optionally in a zone. Giving only a zone places it at that zone's site;
+ * giving neither clears the placement.
+ */
+export async function placeEquipment(
+  vendorId: number,
+  instanceId: number,
+  placement: { site_id?: number | null; zone_id?: number | null; location?: string | null },
+  recordedBy?: number
+): Promise<void> {
+  const instance = await ClientSiteRepository.getInstanceOwner(instanceId);
+  if (!instance || instance.vendor_id !== vendorId) {
+    throw new NotFoundError('Equipment instance');
+  }
+
+  let siteId = placement.site_id || null;
+  const zoneId = placement.zone_id || null;
+
+  if (zoneId) {
+    const zone = await ClientSiteRepository.getZoneOwner(zoneId);
+    if (!zone || (siteId && zone.site_id !== siteId)) {
+      throw new ApiError('The zone is not part of the chosen site', HttpStatus.BAD_REQUEST, 'INVALID_PLACEMENT');
+    }
+    siteId = zone.site_id;
+  }
+
+  if (siteId) {
+    if (!instance.assigned_to) {
+      throw new ApiError('Assign the equipment to a client before placing it at a site', HttpStatus.BAD_REQUEST, 'INVALID_PLACEMENT');
+    }
+    const site = await ClientSiteRepository.getSiteOwner(siteId);
+    if (!site || site.client_id !== instance.assigned_to) {
+      throw new ApiError('The site belongs to a different client', HttpStatus.BAD_REQUEST, 'INVALID_PLACEMENT');
+    }
+  }
+
+  await ClientSiteRepository.placeInstance(instanceId, siteId, zoneId, placement.location, recordedBy);
+}
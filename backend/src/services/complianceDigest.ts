@@ -0,0 +1,236 @@
+/**
+ * Compliance Digest
+ * Builds the scheduled digest email each client and vendor gets instead of
+ * one email per equipment item, with the full list attached as CSV or PDF
+ */
+
+import { SystemSettingsRepository } from '../models/SystemSettingsRepository';
+import {
+  ComplianceDigestData,
+  ComplianceDigestRecipient,
+  ComplianceDigestRepository,
+  DigestEquipmentItem,
+  DigestTicketItem
+} from '../models/ComplianceDigestRepository';
+import { NotificationPreferenceRepository } from '../models/NotificationPreferenceRepository';
+import { emailService, ComplianceDigestSection, EmailAttachment } from './emailService';
+import { messageQueue } from './messageQueue';
+import { getBrandingWithLogo } from './branding';
+import { toCsv } from '../utils/csv';
+import { DigestReportTable, PDFService } from '../utils/PDFService';
+import { formatDate } from '../utils/dateFormatter';
+
+export const DigestFrequencies = ['daily', 'weekly', 'off'] as const;
+export type DigestFrequency = typeof DigestFrequencies[number];
+
+export const DigestAttachmentFormats = ['csv', 'pdf', 'none'] as const;
+export type DigestAttachmentFormat = typeof DigestAttachmentFormats[number];
+
+export interface DigestSchedule {
+  frequency: DigestFrequency;
+  // 0 = Sunday, only used for weekly digests
+  weekday: number;
+  hour: number;
+  lookaheadDays: number;
+  attachment: DigestAttachmentFormat;
+}
+
+// Rows per section shown in the email body; the attachment has the rest
+const EMAIL_ROWS_PER_SECTION = 10;
+
+export async function getDigestSchedule(): Promise<DigestSchedule> {
+  const [frequency, weekday, hour, lookaheadDays, attachment] = await Promise.all([
+    SystemSettingsRepository.getTypedValue<string>('compliance_digest_frequency', 'daily'),
+    SystemSettingsRepository.getTypedValue<number>('compliance_digest_weekday', 1),
+    SystemSettingsRepository.getTypedValue<number>('compliance_digest_hour', 9),
+    SystemSettingsRepository.getTypedValue<number>('compliance_digest_lookahead_days', 30),
+    SystemSettingsRepository.getTypedValue<string>('compliance_digest_attachment', 'csv'),
+  ]);
+
+  return {
+    frequency: (DigestFrequencies as readonly string[]).includes(frequency) ? frequency as DigestFrequency : 'daily',
+    weekday,
+    hour,
+    lookaheadDays,
+    attachment: (DigestAttachmentFormats as readonly string[]).includes(attachment) ? attachment as DigestAttachmentFormat : 'csv',
+  };
+}
+
+/**
+ * Whether the digest is scheduled for the current hour (server time)
+ */
+export const isDigestDue = (schedule: DigestSchedule, at: Date = new Date()): boolean => {
+  if (schedule.frequency === 'off' || at.getHours() !== schedule.hour) return false;
+  return schedule.frequency === 'daily' || at.getDay() === schedule.weekday;
+};
+
+const dueLabel = (days: number, pastTense: string): string => {
+  if (days < 0) return `${pastTense} ${-days} day${days === -1 ? '' : 's'} ago`;
+  if (days === 0) return 'Today';
+  return `In ${days} day${days === 1 ? '' : 's'}`;
+};
+
+const equipmentTable = (title: string, items: DigestEquipmentItem[], pastTense: string): DigestReportTable => ({
+  title,
+  headers: ['Serial Number', 'Equipment', 'Client', 'Location', 'Date', 'Status'],
+  widths: [2, 3, 3, 3, 2, 2],
+  rows: items.map(item => [
+    item.serial_number,
+    item.equipment_name,
+    item.client_name,
+    item.location || '',
+    item.due_date,
+    dueLabel(Number(item.days_until_due), pastTense),
+  ]),
+});
+
+const ticketTable = (title: string, items: DigestTicketItem[], dateColumn: 'Opened' | 'Resolved'): DigestReportTable => ({
+  title,
+  headers: ['Ticket', 'Equipment', 'Client', 'Priority', dateColumn, 'Status'],
+  widths: [2, 3, 3, 2, 2, 2],
+  rows: items.map(item => [
+    item.ticket_number,
+    item.equipment_name || 'General',
+    item.client_name,
+    item.priority,
+    formatDate(dateColumn === 'Opened' ? item.created_at : item.resolved_at || item.created_at),
+    item.ticket_status.replace(/_/g, ' '),
+  ]),
+});
+
+/**
+ * Email summary for a table: the first rows as label/value pairs. Equipment
+ * and ticket tables share the column order reference, item, client, -, date, status.
+ */
+const toSection = (table: DigestReportTable, warning: boolean): ComplianceDigestSection => ({
+  title: table.title,
+  total: table.rows.length,
+  warning: warning && table.rows.length > 0,
+  items: table.rows.slice(0, EMAIL_ROWS_PER_SECTION).map(([reference, item, client, , date, status]) => ({
+    label: reference,
+    value: `${item} (${client}) - ${status}, ${date}`,
+  })),
+});
+
+async function buildAttachment(
+  format: DigestAttachmentFormat,
+  recipient: ComplianceDigestRecipient,
+  tables: DigestReportTable[]
+): Promise<EmailAttachment | undefined> {
+  const stamp = new Date().toISOString().split('T')[0];
+
+  if (format === 'csv') {
+    const rows = tables.flatMap(table => table.rows.map(row => [table.title, ...row]));
+    return {
+      filename: `compliance-digest-${stamp}.csv`,
+      content: Buffer.from(toCsv(['Section', 'Reference', 'Equipment', 'Client', 'Location / Priority', 'Date', 'Status'], rows)).toString('base64'),
+      contentType: 'text/csv',
+    };
+  }
+
+  if (format === 'pdf') {
+    const pdf = await PDFService.generateDigestReport({
+      title: 'Compliance Digest',
+      recipientName: recipient.company_name,
+      generatedAt: new Date().toISOString(),
+      tables,
+      branding: await getBrandingWithLogo(recipient.vendor_id),
+    });
+    return {
+      filename: `compliance-digest-${stamp}.pdf`,
+      content: pdf.toString('base64'),
+      contentType: 'application/pdf',
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Queue one recipient's digest. Sections for events the user has turned
+ * email off for are left out, and nothing is sent when every section is empty.
+ */
+async function queueDigest(
+  recipient: ComplianceDigestRecipient,
+  schedule: DigestSchedule,
+  runKey: string
+): Promise<boolean> {
+  const sinceDays = schedule.frequency === 'weekly' ? 7 : 1;
+  const [data, preferences] = await Promise.all([
+    ComplianceDigestRepository.getDigestData(recipient.recipient_type, recipient.entity_id, schedule.lookaheadDays, sinceDays),
+    NotificationPreferenceRepository.getPreferences(recipient.user_id),
+  ]);
+
+  const wantsEmail = (eventType: string) =>
+    preferences.find(p => p.event_type === eventType)?.email_enabled !== false;
+
+  const candidates: [boolean, DigestReportTable, boolean][] = [
+    [wantsEmail('maintenance_due'), equipmentTable('Maintenance Due', data.maintenance, 'Overdue since'), true],
+    [wantsEmail('equipment_expiry'), equipmentTable('Expiring Equipment', data.expiries, 'Expired'), true],
+    [wantsEmail('ticket_updated'), ticketTable('Open Service Requests', data.openTickets, 'Opened'), false],
+    [wantsEmail('ticket_resolved'), ticketTable(sinceDays === 7 ? 'Resolved This Week' : 'Resolved Today', data.resolvedTickets, 'Resolved'), false],
+  ];
+  const included = candidates.filter(([enabled]) => enabled);
+
+  if (included.every(([, table]) => table.rows.length === 0)) {
+    return false;
+  }
+
+  const tables = included.map(([, table]) => table);
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+  const id = await messageQueue.queueEmail(
+    emailService.buildComplianceDigest({
+      to: recipient.email,
+      recipientName: recipient.company_name,
+      frequency: schedule.frequency === 'weekly' ? 'weekly' : 'daily',
+      sections: included.map(([, table, warning]) => toSection(table, warning)),
+      dashboardUrl: `${frontendUrl}/dashboard`,
+      attachment: await buildAttachment(schedule.attachment, recipient, tables),
+      vendorId: recipient.vendor_id ?? undefined,
+    }),
+    {
+      idempotencyKey: `compliance-digest:${recipient.recipient_type}:${recipient.entity_id}:${runKey}`,
+      relatedEntityType: recipient.recipient_type,
+      relatedEntityId: recipient.entity_id,
+      logMetadata: {
+        recipient: recipient.recipient_type,
+        [`${recipient.recipient_type}Id`]: recipient.entity_id,
+        counts: countItems(data),
+      },
+    }
+  );
+  return id !== null;
+}
+
+const countItems = (data: ComplianceDigestData) => ({
+  maintenance: data.maintenance.length,
+  expiries: data.expiries.length,
+  openTickets: data.openTickets.length,
+  resolvedTickets: data.resolvedTickets.length,
+});
+
+/**
+ * Queue a digest for every client and vendor. Scheduled runs are keyed on
+ * the date so a restart within the hour can't send them twice; manual runs
+ * always send.
+ */
+export async function sendComplianceDigests(options: { manual?: boolean } = {}): Promise<{ recipients: number; queued: number }> {
+  const schedule = await getDigestSchedule();
+  const recipients = await ComplianceDigestRepository.findRecipients();
+  const today = new Date().toISOString().split('T')[0];
+  const runKey = options.manual ? `${today}:manual-${Date.now()}` : today;
+
+  let queued = 0;
+  for (const recipient of recipients) {
+    try {
+      if (await queueDigest(recipient, schedule, runKey)) {
+        queued++;
+      }
+    } catch (error) {
+      console.error(`  ❌ Error queueing compliance digest for ${recipient.recipient_type} ${recipient.entity_id}:`, error);
+    }
+  }
+
+  return { recipients: recipients.length, queued };
+}
@@ -1,11 +1,16 @@
 import { createEmailTransporter, emailConfig } from '../config/email';
-import { 
-  generateEmailHTML, 
-  generatePlainText, 
-  EmailTemplateType 
-} from '../utils/emailTemplates';
+import { EmailTemplateType } from '../utils/emailTemplates';
+import { renderEmail } from './messageTemplates';
+import { getBranding } from './branding';
 import { formatDate } from '../utils/dateFormatter';
 
+export interface EmailAttachment {
+  filename: string;
+  // Base64 so the attachment survives being stored in the message queue
+  content: string;
+  contentType: string;
+}
+
 export interface EmailOptions {
   to: string | string[];
   subject: string;
@@ -13,12 +18,25 @@ export interface EmailOptions {
   data: any;
   cc?: string | string[];
   bcc?: string | string[];
+  attachments?: EmailAttachment[];
+  // Use this vendor's edited template and branding, if they have them
+  vendorId?: number | null;
+}
+
+export interface ComplianceDigestSection {
+  title: string;
+  total: number;
+  // Only the first few rows are shown in the email; the attachment has them all
+  items: { label: string; value: string }[];
+  warning?: boolean;
 }
 
 export interface EmailResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  // Nothing was attempted (email not configured), so retrying won't help
+  skipped?: boolean;
 }
 
 class EmailService {
@@ -33,30 +51,42 @@ class EmailService {
         return {
           success: false,
           error: 'Email service not configured',
+          skipped: true,
         };
       }
 
       const transporter = createEmailTransporter();
 
-      // Generate HTML and text content
-      const html = generateEmailHTML(options.templateType, options.data, options.subject);
-      const text = generatePlainText(options.templateType, options.data);
+      // Generate HTML and text content from the edited template, if any
+      const { subject, html, text, senderName } = await renderEmail(
+        options.templateType,
+        options.data,
+        options.subject,
+        options.vendorId
+      );
 
       // Prepare email
       const mailOptions = {
-        from: `${emailConfig.from.name} <${emailConfig.from.address}>`,
+        // Vendors can change the name, but mail always comes from our address
+        from: `"${senderName.replace(/["\\]/g, '')}" <${emailConfig.from.address}>`,
         to: Array.isArray(options.to) ? options.to.join(', ') : options.to,
-        subject: options.subject,
+        subject,
         html,
         text,
         cc: options.cc ? (Array.isArray(options.cc) ? options.cc.join(', ') : options.cc) : undefined,
         bcc: options.bcc ? (Array.isArray(options.bcc) ? options.bcc.join(', ') : options.bcc) : undefined,
+        attachments: options.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          encoding: 'base64',
+          contentType: attachment.contentType,
+        })),
       };
 
       // Log email details before sending
       console.log('\n===== SENDING EMAIL =====');
       console.log('[To]:', mailOptions.to);
-      console.log('[Subject]:', options.subject);
+      console.log('[Subject]:', subject);
       console.log('[Template]:', options.templateType);
       if (options.cc) console.log('[CC]:', mailOptions.cc);
       if (options.bcc) console.log('[BCC]:', mailOptions.bcc);
@@ -90,9 +120,9 @@ class EmailService {
   }
 
   /**
-   * Send maintenance ticket created email
+   * Build the maintenance ticket created email
    */
-  async sendMaintenanceTicketCreated(params: {
+  buildMaintenanceTicketCreated(params: {
     to: string;
     clientName: string;
     ticketId: number;
@@ -103,19 +133,21 @@ class EmailService {
     status: string;
     description?: string;
     dashboardUrl: string;
-  }): Promise<EmailResult> {
-    return this.sendEmail({
+    vendorId?: number;
+  }): EmailOptions {
+    return {
       to: params.to,
       subject: `New Maintenance Ticket Created - #${params.ticketId}`,
       templateType: 'maintenanceTicketCreated',
       data: params,
-    });
+      vendorId: params.vendorId,
+    };
   }
 
   /**
-   * Send maintenance ticket updated email
+   * Build the maintenance ticket updated email
    */
-  async sendMaintenanceTicketUpdated(params: {
+  buildMaintenanceTicketUpdated(params: {
     to: string;
     clientName: string;
     ticketId: number;
@@ -126,64 +158,62 @@ class EmailService {
     technicianNotes?: string;
     updateReason?: string;
     dashboardUrl: string;
-  }): Promise<EmailResult> {
-    return this.sendEmail({
+    vendorId?: number;
+  }): EmailOptions {
+    return {
       to: params.to,
       subject: `Maintenance Ticket Updated - #${params.ticketId}`,
       templateType: 'maintenanceTicketUpdated',
       data: params,
-    });
+      vendorId: params.vendorId,
+    };
   }
 
   /**
-   * Send maintenance due reminder email
+   * Build the scheduled compliance digest: one email per client or vendor
+   * covering everything due, expiring and in progress
    */
-  async sendMaintenanceDueReminder(params: {
+  buildComplianceDigest(params: {
     to: string;
-    clientName: string;
-    equipmentName: string;
-    serialNumber: string;
-    location: string;
-    maintenanceDueDate: string;
-    maintenanceType: string;
-    daysUntilDue: number;
+    recipientName: string;
+    frequency: 'daily' | 'weekly';
+    sections: ComplianceDigestSection[];
     dashboardUrl: string;
-  }): Promise<EmailResult> {
-    const urgency = params.daysUntilDue <= 7 ? 'Urgent: ' : '';
-    return this.sendEmail({
-      to: params.to,
-      subject: `${urgency}Maintenance Due in ${params.daysUntilDue} Days - ${params.equipmentName}`,
-      templateType: 'maintenanceDueReminder',
-      data: params,
-    });
-  }
+    attachment?: EmailAttachment;
+    vendorId?: number;
+  }): EmailOptions {
+    const periodLabel = params.frequency === 'weekly' ? 'Weekly' : 'Daily';
+    const attentionCount = params.sections
+      .filter(section => section.warning)
+      .reduce((sum, section) => sum + section.total, 0);
 
-  /**
-   * Send equipment expiration alert email
-   */
-  async sendEquipmentExpirationAlert(params: {
-    to: string;
-    clientName: string;
-    equipmentName: string;
-    serialNumber: string;
-    location: string;
-    expirationDate: string;
-    status: string;
-    daysUntilExpiration: number;
-    dashboardUrl: string;
-  }): Promise<EmailResult> {
-    return this.sendEmail({
+    return {
       to: params.to,
-      subject: `Equipment Certification Expiring in ${params.daysUntilExpiration} Days - ${params.equipmentName}`,
-      templateType: 'equipmentExpirationAlert',
-      data: params,
-    });
+      subject: attentionCount > 0
+        ? `${periodLabel} Compliance Digest - ${attentionCount} item${attentionCount === 1 ? '' : 's'} need attention`
+        : `${periodLabel} Compliance Digest`,
+      templateType: 'complianceDigest',
+      data: {
+        recipientName: params.recipientName,
+        periodLabel,
+        period: periodLabel.toLowerCase(),
+        date: formatDate(new Date()),
+        sections: params.sections.map(section => ({
+          ...section,
+          more: Math.max(section.total - section.items.length, 0),
+        })),
+        dashboardUrl: params.dashboardUrl,
+        attachmentName: params.attachment?.filename,
+      },
+      attachments: params.attachment ? [params.attachment] : undefined,
+      vendorId: params.vendorId,
+    };
   }
 
   /**
-   * Send maintenance completed email
+   * Build the maintenance completed email
    */
-  async sendMaintenanceCompleted(params: {
+  buildMaintenanceCompleted(params: {
     to: string;
     clientName: string;
     ticketId: number;
@@ -194,13 +224,40 @@ class EmailService {
     complianceStatus?: string;
     nextMaintenanceDate: string;
     dashboardUrl: string;
-  }): Promise<EmailResult> {
-    return this.sendEmail({
+    vendorId?: number;
+  }): EmailOptions {
+    return {
       to: params.to,
       subject: `Maintenance Completed - #${params.ticketId}`,
       templateType: 'maintenanceCompleted',
       data: params,
-    });
+      vendorId: params.vendorId,
+    };
+  }
+
+  /**
+   * Build the daily digest of notifications a user chose not to get one by one
+   */
+  buildNotificationDigest(params: {
+    to: string;
+    userName: string;
+    items: { subject: string; actionUrl?: string | null; time: string }[];
+    preferencesUrl: string;
+    brandName: string;
+    vendorId?: number | null;
+  }): EmailOptions {
+    const { brandName, vendorId, ...data } = params;
+    return {
+      to: params.to,
+      subject: `${brandName} - Your Daily Summary (${params.items.length})`,
+      templateType: 'notificationDigest',
+      data: {
+        ...data,
+        itemCount: params.items.length,
+        itemLabel: params.items.length === 1 ? 'notification' : 'notifications',
+      },
+      vendorId,
+    };
   }
 
   /**
@@ -226,27 +283,58 @@ class EmailService {
   }
 
   /**
-   * Send temporary password email to new user
+   * Send temporary password email to new user. Clients and technicians get
+   * it in the branding of the vendor that created them.
    */
   async sendTemporaryPassword(
     to: string,
     userName: string,
     temporaryPassword: string,
-    accountType: 'vendor' | 'client'
+    accountType: 'vendor' | 'client' | 'technician',
+    vendorId?: number | null
   ): Promise<EmailResult> {
     const loginUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const brand = await getBranding(vendorId);
     
     return this.sendEmail({
       to,
-      subject: 'Welcome to Fire Guardian - Your Account Credentials',
+      subject: `Welcome to ${brand.name} - Your Account Credentials`,
       templateType: 'temporaryPassword',
       data: {
         userName,
         email: to,
         temporaryPassword,
-        accountType: accountType === 'vendor' ? 'Vendor Account' : 'Client Account',
+        accountType: accountType === 'vendor'
+          ? 'Vendor Account'
+          : accountType === 'technician' ? 'Technician Account' : 'Client Account',
         loginUrl,
       },
+      vendorId,
+    });
+  }
+
+  /**
+   * Send a password reset link
+   */
+  async sendPasswordReset(
+    to: string,
+    userName: string,
+    resetUrl: string,
+    expiresInMinutes: number,
+    vendorId?: number | null
+  ): Promise<EmailResult> {
+    const brand = await getBranding(vendorId);
+
+    return this.sendEmail({
+      to,
+      subject: `${brand.name} - Reset Your Password`,
+      templateType: 'passwordReset',
+      data: {
+        userName,
+        resetUrl,
+        expiresInMinutes,
+      },
+      vendorId,
     });
   }
 }
@@ -0,0 +1,147 @@
+/**
+ * Equipment Import Service
+ * Validates a CSV of equipment instances row by row so vendors can fix every
+ * problem in one pass before anything is written
+ */
+
+import { parseCsvWithHeader } from '../utils/csv';
+import { EquipmentRepository, ImportEquipmentInstanceData } from '../models/EquipmentRepository';
+import { ApiError, HttpStatus } from '../types/api';
+
+export const IMPORT_REQUIRED_COLUMNS = ['equipment_code', 'serial_number', 'purchase_date'];
+export const IMPORT_MAX_ROWS = 1000;
+
+export interface ImportRowError {
+  row: number;              // Line number in the file, header is line 1
+  serial_number?: string;
+  errors: string[];
+}
+
+export interface EquipmentImportReport {
+  total_rows: number;
+  valid_rows: number;
+  errors: ImportRowError[];
+  instances: ImportEquipmentInstanceData[];
+}
+
+// Problems with the file as a whole, as opposed to individual rows
+function invalidImportFile(message: string): ApiError {
+  return new ApiError(message, HttpStatus.BAD_REQUEST, 'INVALID_IMPORT_FILE');
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Parse and check an import file against the vendor's equipment types and
+ * existing serial numbers
+ */
+export async function validateEquipmentImport(csv: string, vendorId: number): Promise<EquipmentImportReport> {
+  const { headers, records } = parseCsvWithHeader(csv);
+
+  const missingColumns = IMPORT_REQUIRED_COLUMNS.filter(column => !headers.includes(column));
+  if (missingColumns.length > 0) {
+    throw invalidImportFile(`Missing required columns: ${missingColumns.join(', ')}`);
+  }
+  if (records.length === 0) {
+    throw invalidImportFile('The file has no rows to import');
+  }
+  if (records.length > IMPORT_MAX_ROWS) {
+    throw invalidImportFile(`Files can contain at most ${IMPORT_MAX_ROWS} rows`);
+  }
+
+  const equipmentTypes = await EquipmentRepository.getEquipmentTypesByCode(vendorId);
+  const typesByCode = new Map(equipmentTypes.map(type => [type.equipment_code.toLowerCase(), type]));
+
+  const serialNumbers = records.map(record => record.serial_number).filter(Boolean);
+  const takenSerials = new Set(await EquipmentRepository.getExistingSerialNumbers(serialNumbers));
+  const seenSerials = new Map<string, number>();
+
+  const errors: ImportRowError[] = [];
+  const instances: ImportEquipmentInstanceData[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+    const rowErrors: string[] = [];
+
+    const equipmentType = record.equipment_code ? typesByCode.get(record.equipment_code.toLowerCase()) : undefined;
+    if (!record.equipment_code) {
+      rowErrors.push('equipment_code is required');
+    } else if (!equipmentType) {
+      rowErrors.push(`Unknown equipment code "${record.equipment_code}"`);
+    }
+
+    const serialNumber = record.serial_number;
+    if (!serialNumber) {
+      rowErrors.push('serial_number is required');
+    } else if (takenSerials.has(serialNumber)) {
+      rowErrors.push(`Serial number "${serialNumber}" already exists`);
+    } else if (seenSerials.has(serialNumber)) {
+      rowErrors.push(`Serial number "${serialNumber}" is repeated on row ${seenSerials.get(serialNumber)}`);
+    }
+    if (serialNumber && !seenSerials.has(serialNumber)) {
+      seenSerials.set(serialNumber, row);
+    }
+
+    const purchaseDate = record.purchase_date;
+    if (!purchaseDate) {
+      rowErrors.push('purchase_date is required');
+    } else if (!isValidDate(purchaseDate)) {
+      rowErrors.push('purchase_date must be a valid date in YYYY-MM-DD format');
+    }
+
+    for (const column of ['warranty_expiry', 'expiry_date']) {
+      if (record[column] && !isValidDate(record[column])) {
+        rowErrors.push(`${column} must be a valid date in YYYY-MM-DD format`);
+      }
+    }
+
+    // Mirrors the check_expiry_date constraint (expiry_date >= purchase_date)
+    if (record.expiry_date && isValidDate(record.expiry_date) && purchaseDate && isValidDate(purchaseDate)
+      && record.expiry_date < purchaseDate) {
+      rowErrors.push('expiry_date cannot be before purchase_date');
+    }
+
+    // Without an expiry date the trigger needs the type's default lifespan
+    if (!record.expiry_date && equipmentType && equipmentType.default_lifespan_years == null) {
+      rowErrors.push(`expiry_date is required because ${equipmentType.equipment_name} has no default lifespan`);
+    }
+
+    let maintenanceInterval = 365;
+    if (record.maintenance_interval_days) {
+      maintenanceInterval = Number(record.maintenance_interval_days);
+      if (!Number.isInteger(maintenanceInterval) || maintenanceInterval < 1 || maintenanceInterval > 3650) {
+        rowErrors.push('maintenance_interval_days must be a whole number between 1 and 3650');
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ row, serial_number: serialNumber || undefined, errors: rowErrors });
+      return;
+    }
+
+    instances.push({
+      equipment_id: equipmentType!.id,
+      serial_number: serialNumber,
+      asset_tag: record.asset_tag || undefined,
+      purchase_date: purchaseDate,
+      warranty_expiry: record.warranty_expiry || undefined,
+      expiry_date: record.expiry_date || undefined,
+      maintenance_interval_days: maintenanceInterval,
+      location: record.location || undefined,
+      notes: record.notes || undefined
+    });
+  });
+
+  return {
+    total_rows: records.length,
+    valid_rows: instances.length,
+    errors,
+    instances
+  };
+}
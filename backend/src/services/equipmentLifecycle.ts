@@ -0,0 +1,118 @@
+/**
+ * Equipment Lifecycle
+ * Reading an instance's lifecycle ledger and exporting it, for example as a
+ * custody and servicing record for insurers
+ */
+
+import {
+  EquipmentLifecycleRepository,
+  LIFECYCLE_EVENT_LABELS,
+  LifecycleEvent,
+  LifecycleInstance
+} from '../models/EquipmentLifecycleRepository';
+import { getBrandingWithLogo } from './branding';
+import { PDFService } from '../utils/PDFService';
+import { toCsv } from '../utils/csv';
+import { formatDate, formatDateTime } from '../utils/dateFormatter';
+import { NotFoundError } from '../types/api';
+
+export type LifecycleScope = { vendorId: number } | { clientId: number };
+
+export interface Lifecycle {
+  instance: LifecycleInstance;
+  events: LifecycleEvent[];
+}
+
+const EXPORT_HEADERS = ['Date', 'Event', 'Description', 'Client', 'Reference', 'Recorded By', 'Details'];
+
+/**
+ * The instance and its timeline. Vendors see every event for their own
+ * equipment; clients see the events from while they held the unit.
+ */
+export async function getLifecycle(instanceId: number, scope: LifecycleScope): Promise<Lifecycle> {
+  const instance = await EquipmentLifecycleRepository.getInstance(instanceId);
+  if (!instance) {
+    throw new NotFoundError('Equipment instance');
+  }
+
+  if ('vendorId' in scope) {
+    if (instance.vendor_id !== scope.vendorId) {
+      throw new NotFoundError('Equipment instance');
+    }
+    return { instance, events: await EquipmentLifecycleRepository.getTimeline(instanceId) };
+  }
+
+  if (!(await EquipmentLifecycleRepository.clientHasHistory(instanceId, scope.clientId))) {
+    throw new NotFoundError('Equipment instance');
+  }
+
+  const events = await EquipmentLifecycleRepository.getTimeline(instanceId, scope.clientId);
+  // A unit that has moved on to another client doesn't say who has it now
+  const visible = instance.assigned_to === scope.clientId
+    ? instance
+    : { ...instance, assigned_to: null, client_name: null };
+  return { instance: visible, events };
+}
+
+const formatDetails = (metadata: Record<string, unknown>): string =>
+  Object.entries(metadata || {})
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([key, value]) => `${key.replace(/_/g, ' ')}: ${value}`)
+    .join('; ');
+
+const toRow = (event: LifecycleEvent): string[] => [
+  formatDateTime(event.event_date),
+  LIFECYCLE_EVENT_LABELS[event.event_type] || event.event_type,
+  event.description,
+  event.client_name || '',
+  event.reference_number || '',
+  event.recorded_by_name || '',
+  formatDetails(event.metadata)
+];
+
+export function lifecycleFilename(instance: LifecycleInstance, extension: 'csv' | 'pdf'): string {
+  const serial = instance.serial_number.replace(/[^A-Za-z0-9_-]/g, '_');
+  return `lifecycle_${serial}_${new Date().toISOString().split('T')[0]}.${extension}`;
+}
+
+export function lifecycleCsv(lifecycle: Lifecycle): string {
+  return toCsv(EXPORT_HEADERS, lifecycle.events.map(toRow));
+}
+
+/**
+ * The timeline as a branded PDF, with the unit's identifying details first
+ */
+export async function lifecyclePdf(lifecycle: Lifecycle, recipientName: string): Promise<Buffer> {
+  const { instance, events } = lifecycle;
+
+  return PDFService.generateDigestReport({
+    title: `Equipment Lifecycle Record: ${instance.serial_number}`,
+    recipientName,
+    generatedAt: new Date().toISOString(),
+    branding: await getBrandingWithLogo(instance.vendor_id),
+    tables: [
+      {
+        title: 'Unit',
+        headers: ['Field', 'Value'],
+        widths: [1, 3],
+        rows: [
+          ['Serial number', instance.serial_number],
+          ['Asset tag', instance.asset_tag || 'N/A'],
+          ['Equipment', `${instance.equipment_name}${instance.equipment_type ? ` (${instance.equipment_type})` : ''}`],
+          ['Manufacturer / model', [instance.manufacturer, instance.model].filter(Boolean).join(' ') || 'N/A'],
+          ['Status', instance.deleted_at ? 'disposed' : instance.status],
+          ['Purchase date', formatDate(instance.purchase_date)],
+          ['Expiry date', formatDate(instance.expiry_date)],
+          ['Serviced by', instance.vendor_name || 'N/A'],
+          ['Current client', instance.client_name || 'N/A']
+        ]
+      },
+      {
+        title: 'Lifecycle Events',
+        headers: EXPORT_HEADERS,
+        widths: [1.3, 1.1, 3, 1.5, 1.3, 1.2, 2],
+        rows: events.map(toRow)
+      }
+    ]
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * Equipment Returns
+ * Rules for clients asking to return or swap assigned equipment and for
+ * vendors reviewing and completing those requests
+ */
+
+import {
+  CompleteReturnLine,
+  EquipmentReturnRepository,
+  ReturnDisposition,
+  ReturnRequest,
+  ReturnRequestType
+} from '../models/EquipmentReturnRepository';
+import { CreateNotificationData, NotificationRepository } from '../models/NotificationRepository';
+import { ApiError, ConflictError, HttpStatus, NotFoundError } from '../types/api';
+
+/**
+ * Notifications are a side effect; a failure to send one never undoes the request
+ */
+async function notify(request: ReturnRequest, recipient: 'client' | 'vendor', data: Omit<CreateNotificationData, 'user_id' | 'category'>) {
+  try {
+    const users = await EquipmentReturnRepository.getNotifyUsers(request.client_id, request.vendor_id);
+    const userId = recipient === 'client' ? users.client_user_id : users.vendor_user_id;
+    if (!userId) return;
+
+    await NotificationRepository.createNotification({
+      ...data,
+      user_id: userId,
+      category: 'assignment',
+      event_type: 'assignment',
+      metadata: { return_id: request.id, return_number: request.return_number }
+    });
+  } catch (error) {
+    console.error('Error creating return request notification:', error);
+  }
+}
+
+/**
+ * A client asks for some of their assigned units to be taken back, or
+ * replaced with working ones
+ */
+export async function requestReturn(
+  clientId: number,
+  userId: number,
+  data: { request_type: ReturnRequestType; instance_ids: number[]; reason: string }
+): Promise<ReturnRequest> {
+  const instanceIds = [...new Set(data.instance_ids)];
+  const instances = await EquipmentReturnRepository.getReturnableInstances(clientId, instanceIds);
+
+  if (instances.length !== instanceIds.length) {
+    throw new ApiError('Only equipment currently assigned to you can be returned', HttpStatus.BAD_REQUEST, 'INVALID_RETURN');
+  }
+
+  const vendorIds = new Set(instances.map(instance => instance.vendor_id));
+  if (vendorIds.size > 1) {
+    throw new ApiError('Equipment from different vendors must be returned in separate requests', HttpStatus.BAD_REQUEST, 'INVALID_RETURN');
+  }
+
+  const open = await EquipmentReturnRepository.findOpenRequestsFor(instanceIds);
+  if (open.length > 0) {
+    const serials = instances.filter(instance => open.some(row => row.equipment_instance_id === instance.id)).map(instance => instance.serial_number);
+    throw new ConflictError(`${serials.join(', ')} already has an open request (${open[0].return_number})`);
+  }
+
+  const returnId = await EquipmentReturnRepository.createReturn({
+    client_id: clientId,
+    vendor_id: instances[0].vendor_id,
+    request_type: data.request_type,
+    reason: data.reason,
+    requested_by: userId,
+    items: instances.map(instance => ({ equipment_instance_id: instance.id, assignment_id: instance.assignment_id }))
+  });
+
+  const request = (await EquipmentReturnRepository.findById(returnId))!;
+  await notify(request, 'vendor', {
+    title: `New ${request.request_type} request`,
+    message: `${request.client_name} asked to ${request.request_type} ${request.items.length} unit(s) (${request.return_number}).`,
+    type: 'info',
+    priority: 'normal',
+    action_url: '/equipment-returns'
+  });
+  return request;
+}
+
+/**
+ * A request the vendor manages, or a 404
+ */
+export async function getVendorReturn(vendorId: number, returnId: number): Promise<ReturnRequest> {
+  const request = await EquipmentReturnRepository.findById(returnId);
+  if (!request || request.vendor_id !== vendorId) {
+    throw new NotFoundError('Return request');
+  }
+  return request;
+}
+
+export async function reviewReturn(
+  vendorId: number,
+  returnId: number,
+  userId: number,
+  decision: 'approved' | 'rejected',
+  notes: string | null
+): Promise<ReturnRequest> {
+  const request = await getVendorReturn(vendorId, returnId);
+
+  if (!(await EquipmentReturnRepository.reviewReturn(returnId, decision, userId, notes))) {
+    throw new ConflictError(`This request is already ${request.status}`);
+  }
+
+  const approved = decision === 'approved';
+  await notify(request, 'client', {
+    title: `${approved ? 'Approved' : 'Declined'}: ${request.request_type} request ${request.return_number}`,
+    message: approved
+      ? `Your ${request.request_type} request was approved. We'll be in touch to collect the equipment.`
+      : `Your ${request.request_type} request was declined${notes ? `: ${notes}` : '.'}`,
+    type: approved ? 'success' : 'warning',
+    priority: 'normal',
+    action_url: '/equipment-returns'
+  });
+
+  return (await EquipmentReturnRepository.findById(returnId))!;
+}
+
+/**
+ * Complete an approved request. Every unit in it needs a disposition, and
+ * for a swap a replacement: an available unit of the same equipment type.
+ */
+export async function completeReturn(
+  vendorId: number,
+  returnId: number,
+  userId: number,
+  lines: { equipment_instance_id: number; disposition?: ReturnDisposition; replacement_instance_id?: number | null }[],
+  notes: string | null
+): Promise<ReturnRequest> {
+  const request = await getVendorReturn(vendorId, returnId);
+  if (request.status !== 'approved') {
+    throw new ConflictError('Only approved requests can be completed');
+  }
+
+  const isSwap = request.request_type === 'swap';
+  const resolved: CompleteReturnLine[] = request.items.map(item => {
+    const line = lines.find(entry => entry.equipment_instance_id === item.equipment_instance_id);
+    const replacementId = isSwap ? line?.replacement_instance_id || null : null;
+    if (isSwap && !replacementId) {
+      throw new ApiError(`Choose a replacement for ${item.serial_number}`, HttpStatus.BAD_REQUEST, 'INVALID_RETURN');
+    }
+    return {
+      equipment_instance_id: item.equipment_instance_id,
+      disposition: line?.disposition || 'returned',
+      replacement_instance_id: replacementId
+    };
+  });
+
+  if (isSwap) {
+    const replacementIds = resolved.map(line => line.replacement_instance_id!);
+    if (new Set(replacementIds).size !== replacementIds.length) {
+      throw new ApiError('Each unit needs a different replacement', HttpStatus.BAD_REQUEST, 'INVALID_RETURN');
+    }
+
+    const available = await EquipmentReturnRepository.getAvailableInstances(vendorId, replacementIds);
+    for (const item of request.items) {
+      const replacementId = resolved.find(line => line.equipment_instance_id === item.equipment_instance_id)!.replacement_instance_id;
+      const replacement = available.find(unit => unit.id === replacementId);
+      if (!replacement) {
+        throw new ApiError(`The replacement for ${item.serial_number} is not available`, HttpStatus.BAD_REQUEST, 'INVALID_RETURN');
+      }
+      if (replacement.equipment_id !== item.equipment_id) {
+        throw new ApiError(`The replacement for ${item.serial_number} must be a ${item.equipment_name}`, HttpStatus.BAD_REQUEST, 'INVALID_RETURN');
+      }
+    }
+  }
+
+  const result = await EquipmentReturnRepository.completeReturn(returnId, userId, resolved, notes);
+  if (!result.success) {
+    throw new ConflictError(result.message);
+  }
+
+  const completed = (await EquipmentReturnRepository.findById(returnId))!;
+  await notify(completed, 'client', {
+    title: `Completed: ${completed.request_type} request ${completed.return_number}`,
+    message: isSwap
+      ? `${completed.items.length} unit(s) were swapped for replacements.`
+      : `${completed.items.length} unit(s) were returned and removed from your equipment.`,
+    type: 'success',
+    priority: 'normal',
+    action_url: '/equipment-returns'
+  });
+  return completed;
+}
@@ -0,0 +1,336 @@
+/**
+ * Message Queue
+ * Background worker that delivers queued emails and SMS from the
+ * outbound_message table, retrying failures with exponential backoff until
+ * a message runs out of attempts and is left in 'dead' for an admin
+ */
+
+import { SmsMessageType } from '../config/sms';
+import { emailService, EmailOptions, EmailResult } from './emailService';
+import SmsService, { SmsRecipient, SmsSendResult } from './SmsService';
+import { emailRepository } from '../models/EmailRepository';
+import {
+  OutboundMessage,
+  OutboundMessageRepository
+} from '../models/OutboundMessageRepository';
+import {
+  NotificationEventType,
+  NotificationPreferenceRepository
+} from '../models/NotificationPreferenceRepository';
+import { getDeliveryPlans, smsEventType } from './notificationPreferences';
+
+interface QueuedEmailPayload {
+  options: EmailOptions;
+  // Extra context stored with the email_logs entry
+  logMetadata?: Record<string, any>;
+}
+
+interface QueuedSmsPayload {
+  recipients: SmsRecipient[];
+  message: string;
+  messageType: SmsMessageType;
+  relatedEntityType?: string;
+  relatedEntityId?: number;
+}
+
+export interface QueueOptions {
+  // Messages sharing a key are only ever queued once
+  idempotencyKey?: string;
+  relatedEntityType?: string;
+  relatedEntityId?: number;
+}
+
+export interface EmailQueueOptions extends QueueOptions {
+  logMetadata?: Record<string, any>;
+  // With both set, the recipient's notification preferences decide whether
+  // the email is sent now, after their quiet hours, in their digest or not at all
+  recipientUserId?: number;
+  eventType?: NotificationEventType;
+  // Link listed against this email in a digest
+  actionUrl?: string;
+}
+
+type DeliveryOutcome =
+  | { status: 'sent' }
+  | { status: 'skipped'; reason: string }
+  | { status: 'failed'; error: string };
+
+const POLL_INTERVAL_MS = 15 * 1000;
+const BATCH_SIZE = 20;
+const STALE_LOCK_MINUTES = 10;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+class MessageQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  /**
+   * Start polling for due messages
+   */
+  start(): void {
+    if (this.timer) return;
+
+    console.log('🚀 Starting message queue worker...');
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => console.error('❌ Message queue run failed:', error));
+    }, POLL_INTERVAL_MS);
+
+    // Pick up anything left over from before a restart
+    this.wake();
+    console.log(`✅ Message queue worker started - polling every ${POLL_INTERVAL_MS / 1000}s`);
+  }
+
+  /**
+   * Stop polling; a batch already being delivered finishes on its own
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    console.log('🛑 Message queue worker stopped');
+  }
+
+  /**
+   * Queue an email. Returns the message id, or null if the idempotency key
+   * was already used or the recipient doesn't want it sent on its own.
+   */
+  async queueEmail(
+    options: EmailOptions,
+    queueOptions: EmailQueueOptions = {}
+  ): Promise<number | null> {
+    let notBefore: Date | undefined;
+
+    if (queueOptions.recipientUserId && queueOptions.eventType) {
+      const plans = await getDeliveryPlans([queueOptions.recipientUserId], queueOptions.eventType, 'email');
+      const plan = plans.get(queueOptions.recipientUserId) || { action: 'send' };
+
+      if (plan.action === 'skip') {
+        console.log(`[Message queue] User ${queueOptions.recipientUserId} has ${queueOptions.eventType} emails turned off`);
+        return null;
+      }
+      if (plan.action === 'digest') {
+        await NotificationPreferenceRepository.addDigestItem(
+          queueOptions.recipientUserId,
+          queueOptions.eventType,
+          options.subject,
+          queueOptions.actionUrl
+        );
+        return null;
+      }
+      notBefore = plan.notBefore;
+    }
+
+    const payload: QueuedEmailPayload = { options, logMetadata: queueOptions.logMetadata };
+    return this.enqueue('email', payload, queueOptions, notBefore);
+  }
+
+  /**
+   * Queue an SMS to one or more recipients. Recipients in their quiet hours
+   * get their own copy held until the hours end; the remaining preference
+   * checks and the daily limit are applied when it's delivered.
+   */
+  async queueSms(
+    recipients: SmsRecipient[],
+    message: string,
+    messageType: SmsMessageType,
+    queueOptions: QueueOptions = {}
+  ): Promise<number | null> {
+    const plans = await getDeliveryPlans(recipients.map(r => r.userId), smsEventType(messageType), 'sms');
+
+    const now: SmsRecipient[] = [];
+    for (const recipient of recipients) {
+      const plan = plans.get(recipient.userId);
+      if (plan?.action === 'skip') continue;
+
+      if (plan?.action === 'send' && plan.notBefore) {
+        await this.enqueue(
+          'sms',
+          this.smsPayload([recipient], message, messageType, queueOptions),
+          {
+            ...queueOptions,
+            idempotencyKey: queueOptions.idempotencyKey && `${queueOptions.idempotencyKey}:user-${recipient.userId}`,
+          },
+          plan.notBefore
+        );
+      } else {
+        now.push(recipient);
+      }
+    }
+
+    if (now.length === 0) return null;
+    return this.enqueue('sms', this.smsPayload(now, message, messageType, queueOptions), queueOptions);
+  }
+
+  /**
+   * Deliver every message that is currently due
+   */
+  async processDue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const released = await OutboundMessageRepository.releaseStale(STALE_LOCK_MINUTES);
+      if (released > 0) {
+        console.warn(`⚠️  Released ${released} stuck message(s) back to the queue`);
+      }
+
+      let batch: OutboundMessage[];
+      do {
+        batch = await OutboundMessageRepository.claimDue(BATCH_SIZE);
+        for (const message of batch) {
+          await this.deliver(message);
+        }
+      } while (batch.length === BATCH_SIZE);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private smsPayload(
+    recipients: SmsRecipient[],
+    message: string,
+    messageType: SmsMessageType,
+    queueOptions: QueueOptions
+  ): QueuedSmsPayload {
+    return {
+      recipients,
+      message,
+      messageType,
+      relatedEntityType: queueOptions.relatedEntityType,
+      relatedEntityId: queueOptions.relatedEntityId,
+    };
+  }
+
+  private async enqueue(
+    channel: OutboundMessage['channel'],
+    payload: QueuedEmailPayload | QueuedSmsPayload,
+    queueOptions: QueueOptions,
+    notBefore?: Date
+  ): Promise<number | null> {
+    const id = await OutboundMessageRepository.enqueue({
+      channel,
+      payload,
+      idempotency_key: queueOptions.idempotencyKey,
+      related_entity_type: queueOptions.relatedEntityType,
+      related_entity_id: queueOptions.relatedEntityId,
+      next_attempt_at: notBefore,
+    });
+
+    if (id === null) {
+      console.log(`[Message queue] Skipped duplicate ${channel} (${queueOptions.idempotencyKey})`);
+    } else if (notBefore) {
+      console.log(`[Message queue] ${channel} #${id} held for quiet hours until ${notBefore.toISOString()}`);
+    } else {
+      this.wake();
+    }
+    return id;
+  }
+
+  /**
+   * Deliver soon rather than waiting for the next poll
+   */
+  private wake(): void {
+    if (!this.timer) return;
+    setImmediate(() => {
+      this.processDue().catch(error => console.error('❌ Message queue run failed:', error));
+    });
+  }
+
+  private async deliver(message: OutboundMessage): Promise<void> {
+    let outcome: DeliveryOutcome;
+    try {
+      outcome = message.channel === 'email'
+        ? await this.deliverEmail(message)
+        : await this.deliverSms(message);
+    } catch (error: any) {
+      outcome = { status: 'failed', error: error?.message || 'Unknown error' };
+    }
+
+    if (outcome.status === 'sent') {
+      await OutboundMessageRepository.markSent(message.id);
+      return;
+    }
+
+    if (outcome.status === 'skipped') {
+      console.log(`[Message queue] ${message.channel} #${message.id} skipped: ${outcome.reason}`);
+      await OutboundMessageRepository.markSkipped(message.id, outcome.reason);
+      return;
+    }
+
+    const giveUp = message.attempts >= message.max_attempts;
+    const nextAttemptAt = giveUp ? null : new Date(Date.now() + this.retryDelay(message.attempts));
+    await OutboundMessageRepository.markFailed(message.id, outcome.error, nextAttemptAt);
+
+    if (giveUp) {
+      console.error(`❌ [Message queue] ${message.channel} #${message.id} failed ${message.attempts} time(s), giving up: ${outcome.error}`);
+      if (message.channel === 'email') {
+        await this.logEmail(message.payload, { success: false, error: outcome.error }, message);
+      }
+    } else {
+      console.warn(`⚠️  [Message queue] ${message.channel} #${message.id} failed (attempt ${message.attempts}/${message.max_attempts}), retrying at ${nextAttemptAt!.toISOString()}: ${outcome.error}`);
+    }
+  }
+
+  private async deliverEmail(message: OutboundMessage): Promise<DeliveryOutcome> {
+    const payload = message.payload as QueuedEmailPayload;
+    const result = await emailService.sendEmail(payload.options);
+
+    if (result.success) {
+      await this.logEmail(payload, result, message);
+      return { status: 'sent' };
+    }
+    if (result.skipped) {
+      return { status: 'skipped', reason: result.error || 'Email not sent' };
+    }
+    return { status: 'failed', error: result.error || 'Email send failed' };
+  }
+
+  private async deliverSms(message: OutboundMessage): Promise<DeliveryOutcome> {
+    const payload = message.payload as QueuedSmsPayload;
+    const result: SmsSendResult = await SmsService.sendSms(
+      payload.recipients,
+      payload.message,
+      payload.messageType,
+      payload.relatedEntityType,
+      payload.relatedEntityId
+    );
+
+    if (result.success) return { status: 'sent' };
+    if (result.skipped) return { status: 'skipped', reason: result.statusMessage };
+    return { status: 'failed', error: result.statusMessage };
+  }
+
+  /**
+   * Record the final outcome in email_logs. Intermediate failed attempts
+   * only show up on the queue entry.
+   */
+  private async logEmail(payload: QueuedEmailPayload, result: EmailResult, message: OutboundMessage): Promise<void> {
+    const recipients = Array.isArray(payload.options.to) ? payload.options.to : [payload.options.to];
+
+    for (const recipientEmail of recipients) {
+      await emailRepository.logEmail({
+        recipientEmail,
+        templateType: payload.options.templateType,
+        subject: payload.options.subject,
+        status: result.success ? 'sent' : 'failed',
+        messageId: result.messageId,
+        errorMessage: result.error,
+        metadata: { ...payload.logMetadata, queueMessageId: message.id, attempts: message.attempts },
+      });
+    }
+  }
+
+  /**
+   * 30s, 1m, 2m, 4m... capped at an hour, with some jitter so a gateway
+   * outage doesn't end in every message retrying at the same moment
+   */
+  private retryDelay(attempt: number): number {
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+}
+
+export const messageQueue = new MessageQueue();
+export default messageQueue;
@@ -0,0 +1,359 @@
+/**
+ * Message Templates
+ * Resolves which email or SMS template a message is rendered with (the
+ * vendor's override, the system-wide override or the built-in one), checks
+ * edited templates against the variables declared for their type, and
+ * renders them
+ */
+
+import Handlebars from 'handlebars';
+import { SmsMessageType, SmsTemplates } from '../config/sms';
+import {
+  EmailTemplateSchemas,
+  SmsTemplateSchemas,
+  TemplateSchema,
+  TemplateVariable
+} from '../config/messageTemplates';
+import {
+  EmailTemplateType,
+  emailTemplateSources,
+  generateEmailHTML,
+  generatePlainText
+} from '../utils/emailTemplates';
+import { countSmsSegments, SmsSegmentInfo } from '../utils/smsSegments';
+import { Branding, DEFAULT_BRANDING, getBranding } from './branding';
+import {
+  MessageTemplate,
+  MessageTemplateChannel,
+  MessageTemplateRepository
+} from '../models/MessageTemplateRepository';
+
+export type TemplateSource = 'vendor' | 'system' | 'default';
+
+export interface TemplateContent {
+  // Email only; null keeps the subject the application builds
+  subject: string | null;
+  body: string;
+}
+
+export interface ResolvedTemplate extends TemplateContent {
+  source: TemplateSource;
+  version: number | null;
+}
+
+export interface TemplateCatalogEntry {
+  channel: MessageTemplateChannel;
+  templateType: string;
+  label: string;
+  description: string;
+  overrides: Pick<MessageTemplate, 'id' | 'vendor_id' | 'vendor_name' | 'current_version' | 'updated_at'>[];
+}
+
+export interface RenderedTemplate {
+  subject: string | null;
+  html: string | null;
+  text: string;
+  // SMS only
+  segments: SmsSegmentInfo | null;
+}
+
+const BLOCK_HELPERS = ['if', 'unless', 'each', 'with'];
+const INLINE_HELPERS = ['lookup'];
+const DATA_VARIABLES = ['index', 'first', 'last', 'key'];
+
+export function getTemplateSchema(channel: MessageTemplateChannel, templateType: string): TemplateSchema | null {
+  const schemas: Record<string, TemplateSchema> = channel === 'email' ? EmailTemplateSchemas : SmsTemplateSchemas;
+  return Object.prototype.hasOwnProperty.call(schemas, templateType) ? schemas[templateType] : null;
+}
+
+export function getDefaultTemplate(channel: MessageTemplateChannel, templateType: string): TemplateContent {
+  return {
+    subject: null,
+    body: channel === 'email'
+      ? emailTemplateSources[templateType as EmailTemplateType]
+      : SmsTemplates[templateType as SmsMessageType],
+  };
+}
+
+/**
+ * The template a message for this vendor's clients is rendered with
+ */
+export async function resolveTemplate(
+  channel: MessageTemplateChannel,
+  templateType: string,
+  vendorId?: number | null
+): Promise<ResolvedTemplate> {
+  const override = await MessageTemplateRepository.findEffective(channel, templateType, vendorId);
+  if (!override) {
+    return { ...getDefaultTemplate(channel, templateType), source: 'default', version: null };
+  }
+  return {
+    subject: override.subject,
+    body: override.body,
+    source: override.vendor_id ? 'vendor' : 'system',
+    version: override.current_version,
+  };
+}
+
+/**
+ * Every template type with the overrides saved for it
+ */
+export async function listTemplates(): Promise<TemplateCatalogEntry[]> {
+  const overrides = await MessageTemplateRepository.findAll();
+
+  const entries = (channel: MessageTemplateChannel, schemas: Record<string, TemplateSchema>) =>
+    Object.entries(schemas).map(([templateType, schema]) => ({
+      channel,
+      templateType,
+      label: schema.label,
+      description: schema.description,
+      overrides: overrides
+        .filter(o => o.channel === channel && o.template_type === templateType)
+        .map(({ id, vendor_id, vendor_name, current_version, updated_at }) => ({
+          id, vendor_id, vendor_name, current_version, updated_at
+        })),
+    }));
+
+  return [...entries('email', EmailTemplateSchemas), ...entries('sms', SmsTemplateSchemas)];
+}
+
+/**
+ * Walks a parsed template, reporting variables the schema doesn't declare
+ * and recording which top-level ones are used. `scopes` holds the fields
+ * available at each {{#each}}/{{#with}} depth, outermost first.
+ */
+function checkProgram(
+  program: hbs.AST.Program,
+  scopes: TemplateVariable[][],
+  used: Set<string>,
+  errors: string[]
+): void {
+  const resolve = (path: hbs.AST.PathExpression): TemplateVariable | undefined => {
+    if (path.data) {
+      if (path.parts[0] === 'root' && path.parts.length > 1) {
+        const variable = scopes[0].find(v => v.name === path.parts[1]);
+        if (!variable) errors.push(`Unknown variable "{{${path.original}}}"`);
+        else used.add(variable.name);
+        return variable;
+      }
+      if (!DATA_VARIABLES.includes(path.parts[0])) {
+        errors.push(`Unknown data variable "{{${path.original}}}"`);
+      }
+      return undefined;
+    }
+
+    const scopeIndex = scopes.length - 1 - path.depth;
+    if (scopeIndex < 0) {
+      errors.push(`"{{${path.original}}}" refers above the top level`);
+      return undefined;
+    }
+    // Plain {{this}}
+    if (path.parts.length === 0) return undefined;
+
+    const variable = scopes[scopeIndex].find(v => v.name === path.parts[0]);
+    if (!variable) {
+      errors.push(`Unknown variable "{{${path.original}}}"`);
+    } else if (scopeIndex === 0) {
+      used.add(variable.name);
+    }
+    return variable;
+  };
+
+  const checkExpression = (expression: hbs.AST.Expression): TemplateVariable | undefined => {
+    if (expression.type === 'PathExpression') {
+      return resolve(expression as hbs.AST.PathExpression);
+    }
+    if (expression.type === 'SubExpression') {
+      checkHelperCall(expression as hbs.AST.SubExpression);
+    }
+    return undefined;
+  };
+
+  const checkHelperCall = (call: { path: hbs.AST.PathExpression; params: hbs.AST.Expression[]; hash: hbs.AST.Hash }) => {
+    if (!INLINE_HELPERS.includes(call.path.original)) {
+      errors.push(`Unknown helper "${call.path.original}"`);
+    }
+    call.params.forEach(checkExpression);
+    call.hash?.pairs.forEach(pair => checkExpression(pair.value));
+  };
+
+  for (const statement of program.body) {
+    switch (statement.type) {
+      case 'ContentStatement':
+      case 'CommentStatement':
+        break;
+
+      case 'MustacheStatement': {
+        const mustache = statement as hbs.AST.MustacheStatement;
+        if (mustache.path.type !== 'PathExpression') break;
+        const path = mustache.path as hbs.AST.PathExpression;
+        if (mustache.params.length > 0 || mustache.hash?.pairs.length) {
+          checkHelperCall({ path, params: mustache.params, hash: mustache.hash });
+        } else {
+          resolve(path);
+        }
+        break;
+      }
+
+      case 'BlockStatement': {
+        const block = statement as hbs.AST.BlockStatement;
+        const helper = block.path.original;
+        if (!BLOCK_HELPERS.includes(helper)) {
+          errors.push(`Unknown block helper "{{#${helper}}}"`);
+          break;
+        }
+        if (block.program?.blockParams?.length) {
+          errors.push(`Block parameters are not supported ("{{#${helper} ... as |...|}}")`);
+          break;
+        }
+
+        const subject = block.params[0] ? checkExpression(block.params[0]) : undefined;
+        block.params.slice(1).forEach(checkExpression);
+
+        if (helper === 'each' || helper === 'with') {
+          if (subject && !subject.fields) {
+            errors.push(`"${subject.name}" is not a list, so it can't be used with {{#${helper}}}`);
+          }
+          if (block.program) checkProgram(block.program, [...scopes, subject?.fields || []], used, errors);
+        } else if (block.program) {
+          checkProgram(block.program, scopes, used, errors);
+        }
+        if (block.inverse) checkProgram(block.inverse, scopes, used, errors);
+        break;
+      }
+
+      default:
+        errors.push('Partials and decorators are not supported');
+    }
+  }
+}
+
+/**
+ * Problems with an edited template: syntax errors, variables the template
+ * type doesn't provide and required variables left out. Empty when valid.
+ */
+export function validateTemplate(
+  channel: MessageTemplateChannel,
+  templateType: string,
+  content: TemplateContent
+): string[] {
+  const schema = getTemplateSchema(channel, templateType);
+  if (!schema) return [`Unknown ${channel} template "${templateType}"`];
+
+  if (!content.body.trim()) return ['Template body is required'];
+  if (channel === 'sms' && content.subject) return ['SMS templates have no subject'];
+
+  const errors: string[] = [];
+  const used = new Set<string>();
+
+  const parts: [string, string][] = [['Body', content.body]];
+  if (content.subject) parts.unshift(['Subject', content.subject]);
+
+  for (const [label, source] of parts) {
+    let program: hbs.AST.Program;
+    try {
+      program = Handlebars.parse(source);
+    } catch (error) {
+      // Handlebars puts the position on the first line and what it expected on the last
+      const lines = error instanceof Error ? error.message.split('\n') : ['Invalid template'];
+      errors.push(`${label}: ${lines.length > 1 ? `${lines[0]} ${lines[lines.length - 1]}` : lines[0]}`);
+      continue;
+    }
+
+    const partErrors: string[] = [];
+    checkProgram(program, [schema.variables], used, partErrors);
+    errors.push(...Array.from(new Set(partErrors)).map(error => `${label}: ${error}`));
+  }
+
+  if (errors.length === 0) {
+    for (const variable of schema.variables) {
+      if (variable.required && !used.has(variable.name)) {
+        errors.push(`Missing required variable "{{${variable.name}}}"`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+const renderText = (source: string, data: any) => Handlebars.compile(source, { noEscape: true })(data);
+
+/**
+ * Render a template with the given data, as it would be sent. Emails are
+ * laid out with `brand`.
+ */
+export function renderTemplate(
+  channel: MessageTemplateChannel,
+  templateType: string,
+  content: TemplateContent,
+  data: any,
+  fallbackSubject = '',
+  brand: Branding = DEFAULT_BRANDING
+): RenderedTemplate {
+  if (channel === 'sms') {
+    const text = renderText(content.body, data).trim();
+    return { subject: null, html: null, text, segments: countSmsSegments(text) };
+  }
+
+  const type = templateType as EmailTemplateType;
+  const subject = content.subject ? renderText(content.subject, { ...data, brandName: brand.name }).trim() : fallbackSubject;
+  return {
+    subject,
+    html: generateEmailHTML(type, data, subject, brand, content.body),
+    text: generatePlainText(type, data, brand, content.body),
+    segments: null,
+  };
+}
+
+/**
+ * Render an outgoing email in the vendor's branding. A saved template that
+ * fails to render falls back to the built-in one rather than losing the email.
+ */
+export async function renderEmail(
+  templateType: EmailTemplateType,
+  data: any,
+  subject: string,
+  vendorId?: number | null
+): Promise<{ subject: string; html: string; text: string; senderName: string }> {
+  const [template, brand] = await Promise.all([
+    resolveTemplate('email', templateType, vendorId),
+    getBranding(vendorId),
+  ]);
+
+  if (template.source !== 'default') {
+    try {
+      const rendered = renderTemplate('email', templateType, template, data, subject, brand);
+      return { subject: rendered.subject || subject, html: rendered.html!, text: rendered.text, senderName: brand.senderName };
+    } catch (error) {
+      console.error(`❌ Edited ${templateType} email template failed to render, using the built-in one:`, error);
+    }
+  }
+
+  return {
+    subject,
+    html: generateEmailHTML(templateType, data, subject, brand),
+    text: generatePlainText(templateType, data, brand),
+    senderName: brand.senderName,
+  };
+}
+
+/**
+ * Render an outgoing SMS, with the same fallback as emails
+ */
+export async function renderSms(
+  messageType: SmsMessageType,
+  data: Record<string, any>,
+  vendorId?: number | null
+): Promise<string> {
+  const template = await resolveTemplate('sms', messageType, vendorId);
+
+  if (template.source !== 'default') {
+    try {
+      return renderText(template.body, data).trim();
+    } catch (error) {
+      console.error(`❌ Edited ${messageType} SMS template failed to render, using the built-in one:`, error);
+    }
+  }
+
+  return renderText(SmsTemplates[messageType], data).trim();
+}
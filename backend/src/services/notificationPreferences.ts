@@ -0,0 +1,124 @@
+/**
+ * Notification Preferences
+ * Decides whether, and when, an email or SMS goes out to a user based on
+ * their preference matrix, quiet hours and digest setting
+ */
+
+import { SmsMessageType } from '../config/sms';
+import {
+  DeliveryPreference,
+  NotificationEventType,
+  NotificationPreferenceRepository,
+  NotificationSettings
+} from '../models/NotificationPreferenceRepository';
+
+export type DeliveryPlan =
+  | { action: 'skip' }
+  | { action: 'digest' }
+  | { action: 'send'; notBefore?: Date };
+
+const SMS_EVENT_TYPES: Record<SmsMessageType, NotificationEventType> = {
+  [SmsMessageType.HIGH_PRIORITY_TICKET]: 'ticket_created',
+  [SmsMessageType.COMPLIANCE_EXPIRING_7_DAYS]: 'equipment_expiry',
+  [SmsMessageType.COMPLIANCE_EXPIRING_TODAY]: 'equipment_expiry',
+  [SmsMessageType.MAINTENANCE_DUE_3_DAYS]: 'maintenance_due',
+  [SmsMessageType.MAINTENANCE_OVERDUE]: 'maintenance_due',
+  [SmsMessageType.TICKET_STATUS_UPDATE]: 'ticket_updated',
+  [SmsMessageType.EQUIPMENT_ASSIGNED]: 'assignment',
+  [SmsMessageType.SLA_BREACH]: 'sla',
+};
+
+export const smsEventType = (messageType: SmsMessageType): NotificationEventType =>
+  SMS_EVENT_TYPES[messageType];
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock time and date for a user, in their time zone or the server's
+ */
+export const localTime = (timeZone: string | null, at: Date = new Date()): { date: string; hour: number; minute: number } => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : undefined,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '00';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: parseInt(part('hour')),
+    minute: parseInt(part('minute')),
+  };
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * When the user's quiet hours end, or null if they aren't in quiet hours
+ * right now. Windows may wrap past midnight (22:00-07:00).
+ */
+export const quietHoursEnd = (settings: NotificationSettings, at: Date = new Date()): Date | null => {
+  if (!settings.quiet_hours_start || !settings.quiet_hours_end) return null;
+
+  const start = toMinutes(settings.quiet_hours_start);
+  const end = toMinutes(settings.quiet_hours_end);
+  if (start === end) return null;
+
+  const { hour, minute } = localTime(settings.timezone, at);
+  const now = hour * 60 + minute;
+  const quiet = start < end
+    ? now >= start && now < end
+    : now >= start || now < end;
+  if (!quiet) return null;
+
+  const minutesLeft = (end - now + 24 * 60) % (24 * 60);
+  const resumesAt = new Date(at.getTime() + minutesLeft * 60 * 1000);
+  resumesAt.setSeconds(0, 0);
+  return resumesAt;
+};
+
+/**
+ * What to do with an email or SMS for this user. Digests only apply to email.
+ */
+export const planDelivery = (
+  preference: DeliveryPreference,
+  channel: 'email' | 'sms',
+  at: Date = new Date()
+): DeliveryPlan => {
+  const enabled = channel === 'email' ? preference.email_enabled : preference.sms_enabled;
+  if (!enabled) return { action: 'skip' };
+
+  if (channel === 'email' && preference.email_digest_enabled) {
+    return { action: 'digest' };
+  }
+
+  const notBefore = quietHoursEnd(preference, at);
+  return notBefore ? { action: 'send', notBefore } : { action: 'send' };
+};
+
+/**
+ * Delivery plan for each user; users that no longer exist are left out
+ */
+export async function getDeliveryPlans(
+  userIds: number[],
+  eventType: NotificationEventType,
+  channel: 'email' | 'sms'
+): Promise<Map<number, DeliveryPlan>> {
+  const preferences = await NotificationPreferenceRepository.getDeliveryPreferences(userIds, eventType);
+  const now = new Date();
+  return new Map(preferences.map(preference => [preference.user_id, planDelivery(preference, channel, now)]));
+}
@@ -0,0 +1,179 @@
+import { Response } from 'express';
+import { PoolClient, Notification as PgNotification } from 'pg';
+import { pool } from '../config/database';
+import { NotificationRepository } from '../models/NotificationRepository';
+
+// Channel published by the trigger on public.notification (migration 010)
+const CHANNEL = 'notification_created';
+// Keeps proxies and load balancers from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 25000;
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Pushes new notification rows to connected users over server-sent events.
+ * One pooled connection LISTENs for the notification_created channel and
+ * fans each row out to the streams open for its user.
+ */
+class NotificationStream {
+  private listener: PoolClient | null = null;
+  private subscribers = new Map<number, Set<Response>>();
+  // Streams by the session they were opened with, so signing out a device closes them
+  private sessionStreams = new Map<string, Set<Response>>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Start listening for new notifications
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    this.heartbeatTimer = setInterval(() => this.writeAll(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+    await this.listen();
+  }
+
+  /**
+   * Close every stream and release the listening connection
+   */
+  stop(): void {
+    this.running = false;
+
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.heartbeatTimer = null;
+    this.reconnectTimer = null;
+
+    for (const streams of this.subscribers.values()) {
+      streams.forEach(res => res.end());
+    }
+    this.subscribers.clear();
+    this.sessionStreams.clear();
+    this.releaseListener();
+  }
+
+  /**
+   * Open an event stream for a user. Returns a function that detaches it.
+   */
+  subscribe(userId: number, res: Response, sessionToken?: string): () => void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const streams = this.subscribers.get(userId) || new Set<Response>();
+    streams.add(res);
+    this.subscribers.set(userId, streams);
+
+    const sessionStreams = sessionToken ? this.sessionStreams.get(sessionToken) || new Set<Response>() : null;
+    if (sessionToken && sessionStreams) {
+      sessionStreams.add(res);
+      this.sessionStreams.set(sessionToken, sessionStreams);
+    }
+
+    // Clients refresh their counts on "ready" to catch anything missed while disconnected
+    this.send(res, 'ready', { connected_at: new Date().toISOString() });
+
+    return () => {
+      streams.delete(res);
+      if (streams.size === 0 && this.subscribers.get(userId) === streams) {
+        this.subscribers.delete(userId);
+      }
+      if (sessionToken && sessionStreams) {
+        sessionStreams.delete(res);
+        if (sessionStreams.size === 0 && this.sessionStreams.get(sessionToken) === sessionStreams) {
+          this.sessionStreams.delete(sessionToken);
+        }
+      }
+    };
+  }
+
+  /**
+   * End the streams opened by signed-out sessions
+   */
+  closeSessions(sessionTokens: string[]): void {
+    for (const sessionToken of sessionTokens) {
+      this.sessionStreams.get(sessionToken)?.forEach(res => res.end());
+    }
+  }
+
+  private async listen(): Promise<void> {
+    let client: PoolClient | null = null;
+
+    try {
+      client = await pool.connect();
+      client.on('notification', (message) => {
+        this.handleNotification(message).catch(error => {
+          console.error('Error streaming notification:', error);
+        });
+      });
+      client.on('error', (error) => {
+        console.error('Notification listener connection error:', error);
+        this.releaseListener(error);
+        this.scheduleReconnect();
+      });
+
+      await client.query(`LISTEN ${CHANNEL}`);
+      this.listener = client;
+      console.log('✅ Notification stream listening for new notifications');
+    } catch (error) {
+      console.error('Failed to start notification listener:', error);
+      client?.release(error as Error);
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      await this.listen();
+      if (this.listener) {
+        // Notifications sent while the listener was down were lost; have clients resync
+        for (const streams of this.subscribers.values()) {
+          streams.forEach(res => this.send(res, 'ready', { connected_at: new Date().toISOString() }));
+        }
+      }
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private releaseListener(error?: Error): void {
+    if (!this.listener) return;
+    const client = this.listener;
+    this.listener = null;
+    client.removeAllListeners('notification');
+    // Destroy rather than return to the pool, the connection still holds the LISTEN
+    client.release(error || true);
+  }
+
+  private async handleNotification(message: PgNotification): Promise<void> {
+    if (message.channel !== CHANNEL || !message.payload) return;
+
+    const { id, user_id } = JSON.parse(message.payload) as { id: number; user_id: number };
+    const streams = this.subscribers.get(user_id);
+    if (!streams || streams.size === 0) return;
+
+    const notification = await NotificationRepository.getNotificationById(id);
+    if (!notification) return;
+
+    streams.forEach(res => this.send(res, 'notification', notification));
+  }
+
+  private send(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private writeAll(chunk: string): void {
+    for (const streams of this.subscribers.values()) {
+      streams.forEach(res => res.write(chunk));
+    }
+  }
+}
+
+// Export singleton instance
+export const notificationStream = new NotificationStream();
+export default notificationStream;
@@ -0,0 +1,105 @@
+/**
+ * Parts Inventory
+ * Rules for a vendor's parts catalog and stock levels, and the alerts sent
+ * when a part runs low
+ */
+
+import { Part, PartData, PartsRepository } from '../models/PartsRepository';
+import { NotificationRepository } from '../models/NotificationRepository';
+import { ApiError, ConflictError, HttpStatus, NotFoundError } from '../types/api';
+
+export async function createPart(vendorId: number, userId: number, data: PartData, openingStock: number): Promise<Part> {
+  if (await PartsRepository.isPartNumberTaken(vendorId, data.part_number)) {
+    throw new ConflictError(`Part number ${data.part_number} is already in your catalog`);
+  }
+
+  const partId = await PartsRepository.createPart(vendorId, data, openingStock, userId);
+  await notifyLowStock(vendorId);
+  return (await PartsRepository.findById(partId, vendorId))!;
+}
+
+export async function updatePart(
+  vendorId: number,
+  partId: number,
+  data: Partial<PartData> & { is_active?: boolean }
+): Promise<Part> {
+  const existing = await PartsRepository.findById(partId, vendorId);
+  if (!existing) {
+    throw new NotFoundError('Part');
+  }
+
+  if (data.part_number && await PartsRepository.isPartNumberTaken(vendorId, data.part_number, partId)) {
+    throw new ConflictError(`Part number ${data.part_number} is already in your catalog`);
+  }
+
+  await PartsRepository.updatePart(partId, vendorId, data);
+  await notifyLowStock(vendorId);
+  return (await PartsRepository.findById(partId, vendorId))!;
+}
+
+/**
+ * Book in a delivery, or correct the count after a stocktake. Adjustments
+ * are signed and may not take stock below zero.
+ */
+export async function adjustStock(
+  vendorId: number,
+  partId: number,
+  userId: number,
+  movement: { movement_type: 'received' | 'adjusted'; quantity: number; unit_cost?: number | null; notes?: string | null }
+): Promise<Part> {
+  const part = await PartsRepository.findById(partId, vendorId);
+  if (!part) {
+    throw new NotFoundError('Part');
+  }
+
+  if (movement.movement_type === 'received' && movement.quantity <= 0) {
+    throw new ApiError('Received quantity must be greater than zero', HttpStatus.BAD_REQUEST, 'INVALID_QUANTITY');
+  }
+  if (movement.movement_type === 'adjusted' && movement.quantity === 0) {
+    throw new ApiError('An adjustment must change the quantity', HttpStatus.BAD_REQUEST, 'INVALID_QUANTITY');
+  }
+  if (part.quantity_on_hand + movement.quantity < 0) {
+    throw new ApiError(
+      `Only ${part.quantity_on_hand} ${part.unit} of ${part.part_name} in stock`,
+      HttpStatus.BAD_REQUEST,
+      'INSUFFICIENT_STOCK'
+    );
+  }
+
+  await PartsRepository.adjustStock(partId, vendorId, movement, userId);
+  await notifyLowStock(vendorId);
+  return (await PartsRepository.findById(partId, vendorId))!;
+}
+
+/**
+ * Tell the vendor about parts that have reached their reorder level. Each
+ * part is reported once until it is restocked. Like other notifications this
+ * is a side effect and never fails the change that caused it.
+ */
+export async function notifyLowStock(vendorId: number): Promise<void> {
+  try {
+    const parts = await PartsRepository.claimLowStockParts(vendorId);
+    if (parts.length === 0) return;
+
+    const userId = await PartsRepository.getVendorOwnerUserId(vendorId);
+    if (!userId) return;
+
+    const summary = parts
+      .map(part => `${part.part_name} (${part.part_number}): ${part.quantity_on_hand} ${part.unit} left`)
+      .join('; ');
+
+    await NotificationRepository.createNotification({
+      user_id: userId,
+      title: parts.length === 1 ? `Low stock: ${parts[0].part_name}` : `${parts.length} parts are running low`,
+      message: `At or below reorder level. ${summary}.`,
+      type: 'warning',
+      priority: parts.some(part => part.quantity_on_hand === 0) ? 'high' : 'normal',
+      category: 'inventory',
+      event_type: 'low_stock',
+      action_url: '/parts?low_stock=true',
+      metadata: { part_ids: parts.map(part => part.id) }
+    });
+  } catch (error) {
+    console.error('Error creating low stock notification:', error);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Password Reset Service
+ * Issues emailed reset links and completes resets for users who have
+ * forgotten their password
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { pool } from '../config/database';
+import { UserRepository } from '../models/UserRepository';
+import { PasswordResetRepository } from '../models/PasswordResetRepository';
+import { ProfileRepository } from '../models/ProfileRepository';
+import { VendorBrandingRepository } from '../models/VendorBrandingRepository';
+import { emailService } from './emailService';
+import { revokeAllSessions } from './sessionService';
+
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// Requests beyond this per account per hour are silently dropped
+const MAX_RESETS_PER_USER_PER_HOUR = 3;
+
+export interface ResetRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export const hashResetToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Create a reset token for a user and email them the link
+ */
+export async function issuePasswordReset(
+  user: { id: number; email: string; display_name?: string; first_name?: string },
+  context: ResetRequestContext = {},
+  ttlMinutes: number = PASSWORD_RESET_TTL_MINUTES
+): Promise<{ expiresAt: Date; emailSent: boolean }> {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+  await PasswordResetRepository.createReset({
+    user_id: user.id,
+    token_hash: hashResetToken(token),
+    expires_at: expiresAt,
+    ip_address: context.ipAddress,
+    user_agent: context.userAgent
+  });
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const result = await emailService.sendPasswordReset(
+    user.email,
+    user.display_name || user.first_name || user.email,
+    `${frontendUrl}/login/reset-password?token=${token}`,
+    ttlMinutes,
+    await VendorBrandingRepository.findVendorIdForUser(user.id)
+  );
+
+  return { expiresAt, emailSent: result.success };
+}
+
+/**
+ * Handle a forgot-password request. Unknown emails and rate-limited accounts
+ * are ignored without telling the caller, so responses never reveal which
+ * addresses have accounts.
+ */
+export async function requestPasswordReset(email: string, context: ResetRequestContext = {}): Promise<void> {
+  const user = await UserRepository.findByEmail(email);
+  if (!user) return;
+
+  const recentRequests = await PasswordResetRepository.countRecentForUser(user.id, 60);
+  if (recentRequests >= MAX_RESETS_PER_USER_PER_HOUR) {
+    console.warn(`Password reset rate limit reached for user ${user.id}`);
+    return;
+  }
+
+  await issuePasswordReset(user, context);
+}
+
+/**
+ * Set a new password using a reset token. The token is consumed in the same
+ * transaction as the password update and the account is unlocked, since the
+ * user has proven they control the email address.
+ */
+export async function completePasswordReset(
+  token: string,
+  newPassword: string
+): Promise<{ success: boolean; message: string; errors?: string[]; userId?: number }> {
+  const policy = await ProfileRepository.getPasswordPolicy();
+  const validation = ProfileRepository.validatePassword(newPassword, policy);
+  if (!validation.valid) {
+    return { success: false, message: 'New password does not meet requirements', errors: validation.errors };
+  }
+
+  const saltRounds = parseInt(process.env.BCRYPT_ROUNDS || '12');
+  const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
+  const client = await pool.connect();
+  let userId: number | null;
+
+  try {
+    await client.query('BEGIN');
+
+    userId = await PasswordResetRepository.consumeReset(client, hashResetToken(token));
+    if (!userId) {
+      await client.query('ROLLBACK');
+      return { success: false, message: 'This reset link is invalid or has expired' };
+    }
+
+    await client.query(
+      `UPDATE "user"
+       SET
+         password = $2,
+         is_temporary_password = false,
+         last_password_change = CURRENT_TIMESTAMP,
+         failed_login_attempts = 0,
+         is_locked = false,
+         locked_until = NULL,
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [userId, hashedPassword]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  // Whoever forgot the password may not be the only one signed in with it
+  await revokeAllSessions(userId, null);
+
+  return { success: true, message: 'Password has been reset successfully', userId };
+}
@@ -1,18 +1,29 @@
 import PDFDocument from 'pdfkit';
 import { ClientReportData } from '../models/PDFReportsRepository';
+import { BrandingWithLogo, DEFAULT_BRANDING } from './branding';
+import { PDFService } from '../utils/PDFService';
+import { formatDateTime } from '../utils/dateFormatter';
 
 export class PDFReportService {
   /**
-   * Generate Fire Equipment Status & Maintenance Report PDF
+   * Generate Fire Equipment Status & Maintenance Report PDF, in the
+   * service provider's branding when they have set it up
    */
-  generateClientReport(data: ClientReportData): PDFKit.PDFDocument {
+  generateClientReport(
+    data: ClientReportData,
+    brand: BrandingWithLogo = { ...DEFAULT_BRANDING, logo: null }
+  ): PDFKit.PDFDocument {
     const doc = new PDFDocument({
       size: 'A4',
-      margins: { top: 50, bottom: 50, left: 50, right: 50 }
+      margins: { top: 50, bottom: 50, left: 50, right: 50 },
+      info: {
+        Title: 'Fire Equipment Status & Maintenance Report',
+        Author: brand.productName
+      }
     });
 
-    // Header with Fire Guardian branding
-    this.addHeader(doc, data);
+    // Header with the provider's logo or name
+    this.addHeader(doc, data, brand);
     
     // Report Title
     this.addReportTitle(doc);
@@ -32,29 +43,37 @@ export class PDFReportService {
     // Maintenance History Table
     this.addMaintenanceHistory(doc, data);
     
+    // Failed Inspection Checklist Items
+    this.addFailedInspectionItems(doc, data);
+    
+    // Service Contract SLA Performance
+    this.addServiceLevel(doc, data);
+    
     // Compliance Summary & Recommendations
     this.addComplianceSummary(doc, data);
     
     // Footer with signatures
-    this.addFooter(doc);
+    this.addFooter(doc, brand);
 
     doc.end();
     return doc;
   }
 
-  private addHeader(doc: PDFKit.PDFDocument, data: ClientReportData) {
-    // Company name/logo at top left
-    doc
-      .fontSize(18)
-      .fillColor('#000000')
-      .font('Helvetica-Bold')
-      .text('FIRE GUARDIAN', 50, 45);
-    
-    doc
-      .fontSize(8)
-      .fillColor('#000000')
-      .font('Helvetica')
-      .text('Control Center', 50, 66);
+  private addHeader(doc: PDFKit.PDFDocument, data: ClientReportData, brand: BrandingWithLogo) {
+    // Company logo, or name, at top left
+    if (!PDFService.drawLogo(doc, brand.logo, 50, 40, [160, 40])) {
+      doc
+        .fontSize(18)
+        .fillColor(brand.primaryColor)
+        .font('Helvetica-Bold')
+        .text(brand.name.toUpperCase(), 50, 45, { width: 290, lineBreak: false, ellipsis: true });
+      
+      doc
+        .fontSize(8)
+        .fillColor('#000000')
+        .font('Helvetica')
+        .text(brand.vendorId ? brand.tagline : 'Control Center', 50, 66, { width: 290, lineBreak: false, ellipsis: true });
+    }
 
     // Report metadata on right
     doc
@@ -67,7 +86,7 @@ export class PDFReportService {
 
     // Horizontal line
     doc
-      .strokeColor('#000000')
+      .strokeColor(brand.primaryColor)
       .lineWidth(0.5)
       .moveTo(50, 88)
       .lineTo(545, 88)
@@ -417,6 +436,176 @@ export class PDFReportService {
     }
   }
 
+  private addFailedInspectionItems(doc: PDFKit.PDFDocument, data: ClientReportData) {
+    let currentY = doc.y + 20;
+    
+    if (currentY > 700) {
+      doc.addPage();
+      currentY = 50;
+    }
+    
+    doc
+      .fontSize(10)
+      .fillColor('#000000')
+      .font('Helvetica-Bold')
+      .text('FAILED INSPECTION ITEMS', 50, currentY);
+    
+    if (data.failedInspectionItems.length === 0) {
+      doc
+        .fontSize(8)
+        .fillColor('#000000')
+        .font('Helvetica')
+        .text('No failed inspection checklist items recorded for the selected date range.', 50, currentY + 22);
+      doc.y = currentY + 34;
+      return;
+    }
+
+    const addTableHeader = (y: number) => {
+      doc
+        .rect(50, y, 495, 20)
+        .stroke('#000000');
+      
+      doc
+        .fontSize(7)
+        .fillColor('#000000')
+        .font('Helvetica-Bold')
+        .text('Ticket', 53, y + 6, { width: 62 })
+        .text('Equipment', 118, y + 6, { width: 90 })
+        .text('Serial No.', 211, y + 6, { width: 62 })
+        .text('Checklist Item', 276, y + 6, { width: 130 })
+        .text('Notes', 409, y + 6, { width: 80 })
+        .text('Date', 492, y + 6, { width: 50 });
+    };
+
+    const rowHeight = 22;
+    currentY += 22;
+    addTableHeader(currentY);
+    currentY += 20;
+    
+    data.failedInspectionItems.forEach((item) => {
+      if (currentY > 750) {
+        doc.addPage();
+        currentY = 50;
+        addTableHeader(currentY);
+        currentY += 20;
+      }
+      
+      doc
+        .rect(50, currentY, 495, rowHeight)
+        .stroke('#CCCCCC');
+      
+      doc
+        .fontSize(6.5)
+        .fillColor('#000000')
+        .font('Helvetica')
+        .text(item.ticketNumber, 53, currentY + 6, { width: 62 })
+        .text(item.equipmentName.substring(0, 24), 118, currentY + 6, { width: 90 })
+        .text(item.serialNumber, 211, currentY + 6, { width: 62 })
+        .text(item.itemText.substring(0, 60), 276, currentY + 6, { width: 130, height: 16 })
+        .text(item.notes.substring(0, 35), 409, currentY + 6, { width: 80, height: 16 })
+        .text(item.recordedDate, 492, currentY + 6, { width: 50 });
+      
+      currentY += rowHeight;
+    });
+    
+    doc.y = currentY + 10;
+  }
+
+  private addServiceLevel(doc: PDFKit.PDFDocument, data: ClientReportData) {
+    const sla = data.serviceLevel;
+    // Clients without a contract get no SLA section
+    if (sla.contracts.length === 0 && sla.tickets_with_sla === 0) {
+      return;
+    }
+
+    let currentY = doc.y + 20;
+    
+    if (currentY > 680) {
+      doc.addPage();
+      currentY = 50;
+    }
+    
+    doc
+      .fontSize(10)
+      .fillColor('#000000')
+      .font('Helvetica-Bold')
+      .text('SERVICE LEVEL PERFORMANCE', 50, currentY);
+    
+    const rate = (met: number, breached: number) =>
+      met + breached > 0 ? `${Math.round((met / (met + breached)) * 100)}%` : 'N/A';
+    const contractNames = sla.contracts
+      .map((contract) => `${contract.contract_name} (from ${contract.start_date}${contract.end_date ? ` to ${contract.end_date}` : ''})`)
+      .join('; ');
+
+    doc
+      .fontSize(8)
+      .fillColor('#000000')
+      .font('Helvetica')
+      .text(`Service contract: ${contractNames || 'None active in this period'}`, 50, currentY + 22, { width: 495 })
+      .text(`Tickets with SLA targets: ${sla.tickets_with_sla}`, 50, doc.y + 4)
+      .text(
+        `Response targets met: ${sla.response_met} of ${sla.response_met + sla.response_breached} (${rate(sla.response_met, sla.response_breached)})`,
+        50, doc.y + 4
+      )
+      .text(
+        `Resolution targets met: ${sla.resolution_met} of ${sla.resolution_met + sla.resolution_breached} (${rate(sla.resolution_met, sla.resolution_breached)})`,
+        50, doc.y + 4
+      );
+
+    currentY = doc.y + 10;
+    if (sla.breaches.length === 0) {
+      doc.y = currentY;
+      return;
+    }
+
+    const addTableHeader = (y: number) => {
+      doc
+        .rect(50, y, 495, 20)
+        .stroke('#000000');
+      
+      doc
+        .fontSize(7)
+        .fillColor('#000000')
+        .font('Helvetica-Bold')
+        .text('Ticket', 53, y + 6, { width: 90 })
+        .text('Priority', 146, y + 6, { width: 60 })
+        .text('Target', 209, y + 6, { width: 70 })
+        .text('Due By', 282, y + 6, { width: 130 })
+        .text('Completed', 415, y + 6, { width: 127 });
+    };
+
+    const rowHeight = 18;
+    addTableHeader(currentY);
+    currentY += 20;
+    
+    sla.breaches.forEach((breach) => {
+      if (currentY > 750) {
+        doc.addPage();
+        currentY = 50;
+        addTableHeader(currentY);
+        currentY += 20;
+      }
+      
+      doc
+        .rect(50, currentY, 495, rowHeight)
+        .stroke('#CCCCCC');
+      
+      doc
+        .fontSize(6.5)
+        .fillColor('#000000')
+        .font('Helvetica')
+        .text(breach.ticket_number, 53, currentY + 5, { width: 90 })
+        .text(breach.priority.toUpperCase(), 146, currentY + 5, { width: 60 })
+        .text(breach.target === 'response' ? 'Response' : 'Resolution', 209, currentY + 5, { width: 70 })
+        .text(formatDateTime(breach.due_at), 282, currentY + 5, { width: 130 })
+        .text(breach.completed_at ? formatDateTime(breach.completed_at) : 'Not yet', 415, currentY + 5, { width: 127 });
+      
+      currentY += rowHeight;
+    });
+    
+    doc.y = currentY + 10;
+  }
+
   private addComplianceSummary(doc: PDFKit.PDFDocument, data: ClientReportData) {
     const startY = doc.y + 20;
     
@@ -471,7 +660,7 @@ export class PDFReportService {
     doc.y = startY + 170;
   }
 
-  private addFooter(doc: PDFKit.PDFDocument) {
+  private addFooter(doc: PDFKit.PDFDocument, brand: BrandingWithLogo) {
     // Signature lines
     const signatureY = doc.y > 680 ? doc.y + 20 : 680;
     
@@ -488,13 +677,16 @@ export class PDFReportService {
       .text('Client Signature', 340, signatureY + 10)
       .text('Date: _______________', 340, signatureY + 22);
     
-    // Footer note
+    // Footer note, with the provider's contact block when branded
+    const contact = [brand.contact?.phone, brand.contact?.email, brand.contact?.website].filter(Boolean).join('  |  ');
     doc
       .fontSize(6.5)
       .fillColor('#000000')
       .font('Helvetica-Oblique')
       .text(
-        'This report is generated by Fire Guardian Control Center. For questions, contact your service provider.',
+        contact
+          ? `This report is generated by ${brand.productName}. For questions, contact us: ${contact}`
+          : `This report is generated by ${brand.productName}. For questions, contact your service provider.`,
         50,
         signatureY + 48,
         { width: 495, align: 'center' }
@@ -0,0 +1,208 @@
+/**
+ * Service Contracts
+ * Rules for a vendor's client contracts, and the escalations sent when
+ * tickets raised under them near or miss their SLA targets
+ */
+
+import {
+  ServiceContractData,
+  ServiceContractDetail,
+  ServiceContractRepository,
+  SlaEscalationTicket
+} from '../models/ServiceContractRepository';
+import { NotificationRepository } from '../models/NotificationRepository';
+import { messageQueue } from './messageQueue';
+import { renderSms } from './messageTemplates';
+import { SmsMessageType } from '../config/sms';
+import { formatDateTime } from '../utils/dateFormatter';
+import { ApiError, HttpStatus, NotFoundError } from '../types/api';
+
+// Share of the resolution window after which the technician is warned
+const AT_RISK_WINDOW_FRACTION = 0.75;
+
+export async function getContract(vendorId: number, contractId: number): Promise<ServiceContractDetail> {
+  const contract = await ServiceContractRepository.findById(contractId, vendorId);
+  if (!contract) {
+    throw new NotFoundError('Service contract');
+  }
+  return contract;
+}
+
+async function validateContract(vendorId: number, data: ServiceContractData): Promise<void> {
+  if (!await ServiceContractRepository.isVendorClient(vendorId, data.client_id)) {
+    throw new ApiError('Client not found', HttpStatus.BAD_REQUEST, 'INVALID_CLIENT');
+  }
+
+  const priorities = new Set(data.sla_targets.map(target => target.priority));
+  if (priorities.size !== data.sla_targets.length) {
+    throw new ApiError('Each priority can only have one SLA target', HttpStatus.BAD_REQUEST, 'DUPLICATE_PRIORITY');
+  }
+
+  const invalid = data.sla_targets.find(target => target.resolution_hours < target.response_hours);
+  if (invalid) {
+    throw new ApiError(
+      `The ${invalid.priority} priority resolution target can't be shorter than its response target`,
+      HttpStatus.BAD_REQUEST,
+      'INVALID_SLA_TARGET'
+    );
+  }
+
+  if (!data.covers_all_equipment) {
+    if (data.equipment_instance_ids.length === 0) {
+      throw new ApiError('Choose the equipment the contract covers', HttpStatus.BAD_REQUEST, 'NO_EQUIPMENT');
+    }
+    const owned = await ServiceContractRepository.countClientInstances(vendorId, data.client_id, data.equipment_instance_ids);
+    if (owned !== data.equipment_instance_ids.length) {
+      throw new ApiError('Some of the equipment is not assigned to this client', HttpStatus.BAD_REQUEST, 'INVALID_EQUIPMENT');
+    }
+  }
+}
+
+export async function createContract(vendorId: number, userId: number, data: ServiceContractData): Promise<ServiceContractDetail> {
+  await validateContract(vendorId, data);
+  const contractId = await ServiceContractRepository.createContract(vendorId, data, userId);
+  return (await ServiceContractRepository.findById(contractId, vendorId))!;
+}
+
+export async function updateContract(
+  vendorId: number,
+  contractId: number,
+  data: ServiceContractData
+): Promise<ServiceContractDetail> {
+  await getContract(vendorId, contractId);
+  await validateContract(vendorId, data);
+  await ServiceContractRepository.updateContract(contractId, vendorId, data);
+  return (await ServiceContractRepository.findById(contractId, vendorId))!;
+}
+
+const vendorTicketUrl = (ticketId: number) => `/maintenance-tickets/${ticketId}`;
+
+// The vendor owner can take tickets too; they are reached as the vendor
+const technicianUserId = (ticket: SlaEscalationTicket): number | null =>
+  ticket.assigned_technician && ticket.assigned_technician !== ticket.vendor_user_id ? ticket.assigned_technician : null;
+
+/**
+ * Warn the assigned technician, or the vendor when nobody is assigned yet
+ */
+async function warnAtRisk(ticket: SlaEscalationTicket): Promise<void> {
+  const technicianId = technicianUserId(ticket);
+  const userId = technicianId ?? ticket.vendor_user_id;
+  if (!userId) return;
+
+  await NotificationRepository.createNotification({
+    user_id: userId,
+    title: `SLA at risk: ${ticket.ticket_number}`,
+    message: `${ticket.client_name || 'The client'}'s ${ticket.priority} priority ticket must be resolved by ${formatDateTime(ticket.due_at)}.`,
+    type: 'warning',
+    priority: ticket.priority === 'high' ? 'high' : 'normal',
+    category: 'ticket_management',
+    event_type: 'sla',
+    action_url: technicianId ? `/technician-tickets/${ticket.id}` : vendorTicketUrl(ticket.id),
+    metadata: { ticket_id: ticket.id, due_at: ticket.due_at }
+  });
+}
+
+/**
+ * A missed target goes to the vendor in-app and by SMS, and to the assigned
+ * technician. The client is told when the resolution target is missed.
+ */
+async function escalateBreach(ticket: SlaEscalationTicket, target: 'response' | 'resolution'): Promise<void> {
+  const dueAt = formatDateTime(ticket.due_at);
+  const metadata = { ticket_id: ticket.id, target, due_at: ticket.due_at };
+
+  if (ticket.vendor_user_id) {
+    await NotificationRepository.createNotification({
+      user_id: ticket.vendor_user_id,
+      title: `SLA breached: ${ticket.ticket_number}`,
+      message: `${ticket.client_name || 'A client'}'s ${ticket.priority} priority ticket missed its ${target} target of ${dueAt}.`,
+      type: 'alert',
+      priority: 'high',
+      category: 'ticket_management',
+      event_type: 'sla',
+      action_url: vendorTicketUrl(ticket.id),
+      metadata
+    });
+
+    if (ticket.vendor_phone) {
+      const message = await renderSms(
+        SmsMessageType.SLA_BREACH,
+        { ticketNumber: ticket.ticket_number, priority: ticket.priority, target, dueAt },
+        ticket.vendor_id
+      );
+      await messageQueue.queueSms(
+        [{ userId: ticket.vendor_user_id, phoneNumber: ticket.vendor_phone, userType: 'vendor' }],
+        message,
+        SmsMessageType.SLA_BREACH,
+        {
+          idempotencyKey: `sms:${SmsMessageType.SLA_BREACH}:${ticket.id}:${target}`,
+          relatedEntityType: 'ticket',
+          relatedEntityId: ticket.id,
+        }
+      );
+    }
+  }
+
+  const technicianId = technicianUserId(ticket);
+  if (technicianId) {
+    await NotificationRepository.createNotification({
+      user_id: technicianId,
+      title: `SLA breached: ${ticket.ticket_number}`,
+      message: `This ${ticket.priority} priority ticket missed its ${target} target of ${dueAt}.`,
+      type: 'alert',
+      priority: 'high',
+      category: 'ticket_management',
+      event_type: 'sla',
+      action_url: `/technician-tickets/${ticket.id}`,
+      metadata
+    });
+  }
+
+  if (target === 'resolution' && ticket.client_user_id) {
+    await NotificationRepository.createNotification({
+      user_id: ticket.client_user_id,
+      title: `Service request ${ticket.ticket_number} is overdue`,
+      message: `It was due to be resolved by ${dueAt} under your service contract. Your service provider has been alerted.`,
+      type: 'warning',
+      priority: 'normal',
+      category: 'service_request',
+      event_type: 'sla',
+      action_url: `/service-requests/${ticket.id}`,
+      metadata
+    });
+  }
+}
+
+/**
+ * Find tickets that have neared or missed their targets since the last run
+ * and send their escalations. Each ticket is claimed before it is escalated,
+ * so a failed send is logged rather than retried.
+ */
+export async function escalateSlaBreaches(): Promise<{ atRisk: number; responseBreaches: number; resolutionBreaches: number }> {
+  const responseBreaches = await ServiceContractRepository.claimResponseBreaches();
+  const resolutionBreaches = await ServiceContractRepository.claimResolutionBreaches();
+  const atRisk = await ServiceContractRepository.claimAtRiskTickets(AT_RISK_WINDOW_FRACTION);
+
+  const send = async (ticket: SlaEscalationTicket, escalate: () => Promise<void>) => {
+    try {
+      await escalate();
+    } catch (error) {
+      console.error(`Error sending SLA escalation for ticket ${ticket.ticket_number}:`, error);
+    }
+  };
+
+  for (const ticket of responseBreaches) {
+    await send(ticket, () => escalateBreach(ticket, 'response'));
+  }
+  for (const ticket of resolutionBreaches) {
+    await send(ticket, () => escalateBreach(ticket, 'resolution'));
+  }
+  for (const ticket of atRisk) {
+    await send(ticket, () => warnAtRisk(ticket));
+  }
+
+  return {
+    atRisk: atRisk.length,
+    responseBreaches: responseBreaches.length,
+    resolutionBreaches: resolutionBreaches.length
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Session Service
+ * Starts per-device sessions at login and signs them out again, closing any
+ * live notification streams the signed-out devices still hold open
+ */
+
+import { UserSessionRepository } from '../models/UserSessionRepository';
+import { notificationStream } from './notificationStream';
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Short human-readable label for a user agent, e.g. "Chrome on Windows"
+ */
+export const describeDevice = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || 'Unknown device';
+};
+
+/**
+ * Record a new login and return the session token to embed in its JWT
+ */
+export async function startSession(
+  userId: number,
+  context: SessionContext,
+  timeoutMinutes: number
+): Promise<string> {
+  return UserSessionRepository.createSession({
+    user_id: userId,
+    ip_address: context.ipAddress,
+    user_agent: context.userAgent,
+    device_name: describeDevice(context.userAgent),
+    timeout_minutes: timeoutMinutes
+  });
+}
+
+/**
+ * End the session a token was issued for, as on logout
+ */
+export async function endSession(userId: number, sessionToken: string): Promise<void> {
+  await UserSessionRepository.revokeSessionByToken(userId, sessionToken);
+  notificationStream.closeSessions([sessionToken]);
+}
+
+/**
+ * Sign out one of a user's sessions. Returns false if it was not active.
+ */
+export async function revokeSession(userId: number, sessionId: number, revokedBy: number): Promise<boolean> {
+  const sessionToken = await UserSessionRepository.revokeSession(userId, sessionId, revokedBy);
+  if (!sessionToken) return false;
+
+  notificationStream.closeSessions([sessionToken]);
+  return true;
+}
+
+/**
+ * Sign out every session a user has, except exceptToken when given.
+ * Returns how many were signed out.
+ */
+export async function revokeAllSessions(
+  userId: number,
+  revokedBy: number | null,
+  exceptToken?: string
+): Promise<number> {
+  const sessionTokens = await UserSessionRepository.revokeAllSessions(userId, revokedBy, exceptToken);
+  notificationStream.closeSessions(sessionTokens);
+  return sessionTokens.length;
+}
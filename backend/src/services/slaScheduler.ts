@@ -0,0 +1,43 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { escalateSlaBreaches } from './serviceContracts';
+
+class SlaScheduler {
+  private breachJob: ScheduledTask | null = null;
+
+  /**
+   * Start checking tickets against their service contract targets
+   */
+  start(): void {
+    // Response targets can be a few hours, so check every quarter hour
+    this.breachJob = cron.schedule('*/15 * * * *', async () => {
+      await this.checkBreaches();
+    });
+
+    console.log('✅ SLA scheduler started - Breach checks every 15 minutes');
+  }
+
+  stop(): void {
+    if (this.breachJob) {
+      this.breachJob.stop();
+    }
+    console.log('🛑 SLA scheduler stopped');
+  }
+
+  private async checkBreaches(): Promise<void> {
+    try {
+      const result = await escalateSlaBreaches();
+      const total = result.atRisk + result.responseBreaches + result.resolutionBreaches;
+      if (total > 0) {
+        console.log(
+          `⏱️  SLA check: ${result.responseBreaches} response breach(es), ` +
+          `${result.resolutionBreaches} resolution breach(es), ${result.atRisk} at risk`
+        );
+      }
+    } catch (error) {
+      console.error('❌ Failed to check SLA breaches:', error);
+    }
+  }
+}
+
+export const slaScheduler = new SlaScheduler();
+export default slaScheduler;
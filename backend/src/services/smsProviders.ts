@@ -0,0 +1,279 @@
+/**
+ * SMS Providers
+ * Gateways behind one interface so SmsService doesn't care which one
+ * delivers a message. The active provider comes from the sms_provider
+ * system setting, falling back to SMS_PROVIDER.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import axios from 'axios';
+import { smsConfig, SmsProviderName, SmsProviderNames } from '../config/sms';
+import { SystemSettingsRepository } from '../models/SystemSettingsRepository';
+import { dialogTokenManager } from './DialogTokenManager';
+
+export interface SmsProviderResult {
+  success: boolean;
+  statusCode: string;
+  statusMessage: string;
+  // Raw gateway response, kept in sms_logs for troubleshooting
+  rawResponse?: string;
+  // Addresses the gateway rejected while accepting the rest
+  failedRecipients?: string[];
+}
+
+export interface SmsProvider {
+  readonly name: SmsProviderName;
+  isConfigured(): boolean;
+  /**
+   * Convert an E.164 number to the form the gateway expects, or null if the
+   * gateway can't deliver to it
+   */
+  formatRecipient(e164: string): string | null;
+  send(recipients: string[], message: string): Promise<SmsProviderResult>;
+  checkBalance(): Promise<{ success: boolean; balance?: number; message: string }>;
+}
+
+/**
+ * Dialog eSMS, Sri Lanka only
+ */
+export class DialogSmsProvider implements SmsProvider {
+  readonly name = 'dialog' as const;
+  private readonly SMS_API_ENDPOINT = 'https://e-sms.dialog.lk/api/v1/sms';
+  private readonly MAX_RETRIES = 2;
+
+  isConfigured(): boolean {
+    return Boolean(smsConfig.username && smsConfig.password);
+  }
+
+  /**
+   * Dialog takes 9-digit Sri Lankan mobile numbers without the country code
+   */
+  formatRecipient(e164: string): string | null {
+    const match = /^\+94(\d{9})$/.exec(e164);
+    return match ? match[1] : null;
+  }
+
+  async send(recipients: string[], message: string): Promise<SmsProviderResult> {
+    let lastError: any;
+
+    // Retry once with a fresh token if the cached one was rejected
+    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+      try {
+        return await this.sendWithToken(recipients, message);
+      } catch (error: any) {
+        lastError = error;
+
+        if (attempt < this.MAX_RETRIES && this.isTokenError(error)) {
+          console.log(`Attempt ${attempt} failed with token error, refreshing token and retrying...`);
+          dialogTokenManager.clearCache();
+          continue;
+        }
+
+        throw error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async sendWithToken(recipients: string[], message: string): Promise<SmsProviderResult> {
+    // Get valid access token (refreshes if needed)
+    const accessToken = await dialogTokenManager.getAccessToken();
+
+    // Generate unique numeric transaction ID (16-19 digits as per Dialog API)
+    const timestamp = Date.now().toString();
+    const random = Math.floor(Math.random() * 1000000).toString().padStart(6, '0');
+
+    const requestData = {
+      sourceAddress: smsConfig.sourceAddress,
+      message,
+      transaction_id: timestamp + random,
+      msisdn: recipients.map(mobile => ({ mobile })),
+    };
+
+    console.log(`📤 Sending SMS to ${recipients.length} recipient(s) via Dialog API...`);
+
+    const response = await axios.post(this.SMS_API_ENDPOINT, requestData, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      timeout: 30000, // 30 seconds - Dialog API can be slow
+      httpAgent: null,
+      httpsAgent: null,
+    });
+
+    const statusCode = response.data?.status || 'success';
+    const statusMessage = response.data?.comment || 'SMS sent successfully';
+
+    console.log(`✅ Dialog accepted SMS. Status: ${statusCode}, Message: ${statusMessage}`);
+
+    return {
+      success: statusCode === 'success' || statusCode === '1',
+      statusCode,
+      statusMessage,
+      rawResponse: JSON.stringify(response.data),
+    };
+  }
+
+  /**
+   * Check if error is token-related (and should trigger refresh)
+   */
+  private isTokenError(error: any): boolean {
+    const message = error.message?.toLowerCase() || '';
+    const response = error.response?.data?.comment?.toLowerCase() || '';
+
+    return (
+      message.includes('unauthorized') ||
+      message.includes('invalid token') ||
+      message.includes('token expired') ||
+      response.includes('unauthorized') ||
+      response.includes('invalid token') ||
+      error.response?.status === 401
+    );
+  }
+
+  async checkBalance(): Promise<{ success: boolean; balance?: number; message: string }> {
+    if (!this.isConfigured()) {
+      return { success: false, message: 'Dialog SMS configuration not complete' };
+    }
+
+    // Getting a token verifies the credentials; the wallet balance only
+    // comes back in the login response
+    await dialogTokenManager.getAccessToken();
+
+    return {
+      success: true,
+      message: 'SMS service is configured and token is valid',
+      balance: 0,
+    };
+  }
+}
+
+/**
+ * Twilio-style HTTP gateway: one form-encoded POST per recipient with basic auth
+ */
+export class HttpSmsProvider implements SmsProvider {
+  readonly name = 'http' as const;
+
+  isConfigured(): boolean {
+    const { url, username, password, from } = smsConfig.http;
+    return Boolean(url && username && password && from);
+  }
+
+  formatRecipient(e164: string): string | null {
+    return e164;
+  }
+
+  async send(recipients: string[], message: string): Promise<SmsProviderResult> {
+    const { url, username, password, from } = smsConfig.http;
+    const failedRecipients: string[] = [];
+    const responses: any[] = [];
+
+    console.log(`📤 Sending SMS to ${recipients.length} recipient(s) via HTTP gateway...`);
+
+    for (const to of recipients) {
+      try {
+        const response = await axios.post(
+          url,
+          new URLSearchParams({ To: to, From: from, Body: message }).toString(),
+          {
+            auth: { username, password },
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            timeout: smsConfig.timeout,
+          }
+        );
+        responses.push(response.data);
+      } catch (error: any) {
+        console.error(`HTTP gateway rejected SMS to ${to}:`, error.response?.data?.message || error.message);
+        failedRecipients.push(to);
+        responses.push(error.response?.data ?? { error: error.message });
+      }
+    }
+
+    const sentCount = recipients.length - failedRecipients.length;
+    return {
+      success: sentCount > 0,
+      statusCode: failedRecipients.length === 0 ? 'success' : sentCount > 0 ? 'partial' : 'failed',
+      statusMessage: failedRecipients.length === 0
+        ? 'SMS sent successfully'
+        : `${sentCount} of ${recipients.length} message(s) sent`,
+      rawResponse: JSON.stringify(responses),
+      failedRecipients,
+    };
+  }
+
+  async checkBalance(): Promise<{ success: boolean; balance?: number; message: string }> {
+    return { success: false, message: 'Balance lookup is not available for the HTTP SMS gateway' };
+  }
+}
+
+/**
+ * Writes messages to the console and an outbox file instead of sending them
+ */
+export class MockSmsProvider implements SmsProvider {
+  readonly name = 'mock' as const;
+
+  constructor(private readonly outboxPath: string) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  formatRecipient(e164: string): string | null {
+    return e164;
+  }
+
+  async send(recipients: string[], message: string): Promise<SmsProviderResult> {
+    const entry = { sentAt: new Date().toISOString(), recipients, message };
+
+    console.log(`📭 [mock SMS] to ${recipients.join(', ')}: ${message}`);
+
+    try {
+      await fs.mkdir(path.dirname(this.outboxPath), { recursive: true });
+      await fs.appendFile(this.outboxPath, JSON.stringify(entry) + '\n');
+    } catch (error: any) {
+      console.error('Failed to write mock SMS outbox:', error.message);
+    }
+
+    return {
+      success: true,
+      statusCode: 'success',
+      statusMessage: 'SMS written to mock outbox',
+      rawResponse: JSON.stringify(entry),
+    };
+  }
+
+  async checkBalance(): Promise<{ success: boolean; balance?: number; message: string }> {
+    return { success: true, balance: 0, message: 'Mock SMS provider does not use credit' };
+  }
+}
+
+const providers: Record<SmsProviderName, SmsProvider> = {
+  dialog: new DialogSmsProvider(),
+  http: new HttpSmsProvider(),
+  mock: new MockSmsProvider(smsConfig.mock.outboxPath),
+};
+
+export const isSmsProviderName = (value: string): value is SmsProviderName =>
+  (SmsProviderNames as readonly string[]).includes(value);
+
+/**
+ * The provider selected in system settings
+ */
+export async function getSmsProvider(): Promise<SmsProvider> {
+  const name = await SystemSettingsRepository.getTypedValue<string>('sms_provider', smsConfig.provider);
+
+  if (!isSmsProviderName(name)) {
+    throw new Error(`Unknown SMS provider: ${name}`);
+  }
+  return providers[name];
+}
+
+/**
+ * Country code assumed for numbers stored without one
+ */
+export async function getDefaultCountryCode(): Promise<string> {
+  return SystemSettingsRepository.getTypedValue<string>('sms_default_country_code', smsConfig.defaultCountryCode);
+}
@@ -0,0 +1,134 @@
+/**
+ * Two-Factor Service
+ * TOTP enrollment, second-step login challenges and recovery codes for
+ * admin and vendor accounts
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { TwoFactorRepository } from '../models/TwoFactorRepository';
+import { SystemSettingsRepository } from '../models/SystemSettingsRepository';
+import { generateTotpSecret, verifyTotpCode, buildOtpauthUrl } from '../utils/totp';
+
+export const TWO_FACTOR_USER_TYPES = ['admin', 'vendor'];
+
+const ISSUER = 'Fire Guardian';
+const RECOVERY_CODE_COUNT = 10;
+// How long the user has to enter their code after the password step
+const CHALLENGE_TTL = '5m';
+const CHALLENGE_PURPOSE = 'two_factor_login';
+
+export const supportsTwoFactor = (userType: string): boolean =>
+  TWO_FACTOR_USER_TYPES.includes(userType);
+
+/**
+ * Whether the admin has made two-factor mandatory for this kind of account
+ */
+export async function isTwoFactorRequired(userType: string): Promise<boolean> {
+  if (!supportsTwoFactor(userType)) return false;
+  return SystemSettingsRepository.getTypedValue<boolean>('require_two_factor_auth', false);
+}
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[\s-]/g, '');
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+/**
+ * Generate recovery codes like "3f9a1-c27e0", returning them with their hashes
+ */
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Start enrollment: create a pending secret and the QR code to scan
+ */
+export async function beginEnrollment(user: { id: number; email: string }): Promise<{
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}> {
+  const secret = generateTotpSecret();
+  await TwoFactorRepository.setPendingSecret(user.id, secret);
+
+  const otpauthUrl = buildOtpauthUrl(ISSUER, user.email, secret);
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 240, errorCorrectionLevel: 'M' });
+
+  return { secret, otpauthUrl, qrCode };
+}
+
+/**
+ * Finish enrollment once the user enters a valid code from their app.
+ * Returns the recovery codes to show once, or null if the code was wrong.
+ */
+export async function confirmEnrollment(userId: number, code: string): Promise<string[] | null> {
+  const secret = await TwoFactorRepository.getPendingSecret(userId);
+  if (!secret) return null;
+
+  const step = verifyTotpCode(secret, code);
+  if (step === null) return null;
+
+  const { codes, hashes } = generateRecoveryCodes();
+  const enabled = await TwoFactorRepository.enable(userId, step, hashes);
+  return enabled ? codes : null;
+}
+
+/**
+ * Check an authenticator code or an unused recovery code.
+ * Returns which kind matched, or null if neither did.
+ */
+export async function verifySecondFactor(userId: number, code: string): Promise<'totp' | 'recovery' | null> {
+  const secret = await TwoFactorRepository.getSecret(userId);
+  if (!secret) return null;
+
+  const step = verifyTotpCode(secret, code);
+  if (step !== null) {
+    return await TwoFactorRepository.claimTimeStep(userId, step) ? 'totp' : null;
+  }
+
+  if (normalizeRecoveryCode(code).length === 10) {
+    return await TwoFactorRepository.consumeRecoveryCode(userId, hashRecoveryCode(code)) ? 'recovery' : null;
+  }
+
+  return null;
+}
+
+/**
+ * Replace a user's recovery codes, returning the new ones
+ */
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await TwoFactorRepository.replaceRecoveryCodes(userId, hashes);
+  return codes;
+}
+
+// Challenges are signed with a key derived from JWT_SECRET so they can never
+// pass authenticateToken as an access token
+const challengeKey = (jwtSecret: string) =>
+  crypto.createHmac('sha256', jwtSecret).update(CHALLENGE_PURPOSE).digest();
+
+/**
+ * Short-lived token proving the password step passed, exchanged for a
+ * session once the second factor checks out
+ */
+export function issueLoginChallenge(userId: number, jwtSecret: string): string {
+  return jwt.sign({ userId, purpose: CHALLENGE_PURPOSE }, challengeKey(jwtSecret), { expiresIn: CHALLENGE_TTL });
+}
+
+/**
+ * User ID a challenge token was issued for, or null if invalid or expired
+ */
+export function verifyLoginChallenge(token: string, jwtSecret: string): number | null {
+  try {
+    const payload = jwt.verify(token, challengeKey(jwtSecret)) as { userId?: number; purpose?: string };
+    return payload.purpose === CHALLENGE_PURPOSE && payload.userId ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
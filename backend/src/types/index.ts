@@ -8,7 +8,7 @@ export interface User {
   display_name?: string;
   email: string;
   password: string;
-  user_type: 'admin' | 'vendor' | 'client';
+  user_type: 'admin' | 'vendor' | 'client' | 'technician';
   role_id?: number;
   is_locked: boolean;
   locked_until?: Date;
@@ -25,7 +25,7 @@ export interface CreateUserRequest {
   last_name?: string;
   email: string;
   password: string;
-  user_type: 'admin' | 'vendor' | 'client';
+  user_type: 'admin' | 'vendor' | 'client' | 'technician';
   role_id?: number;
 }
 
@@ -124,16 +124,27 @@ export interface AssignmentItem {
 // Equipment Return types
 export interface EquipmentReturn {
   id: number;
-  assignment_id?: number;
-  returned_by?: number;
-  return_date: Date;
+  return_number: string;
+  client_id: number;
+  vendor_id: number;
+  request_type: 'return' | 'swap';
   status: 'pending' | 'approved' | 'rejected' | 'completed';
-  notes?: string;
+  reason: string;
+  vendor_notes?: string;
+  requested_by?: number;
+  reviewed_by?: number;
+  reviewed_at?: Date;
+  returned_by?: number;
+  return_date?: Date;
+  created_at: Date;
 }
 
 export interface EquipmentReturnItem {
   return_id: number;
   equipment_instance_id: number;
+  assignment_id?: number;
+  replacement_instance_id?: number;
+  disposition?: 'returned' | 'retired';
 }
 
 // Notification types
@@ -187,6 +198,8 @@ export interface JwtPayload {
   user_type: string;
   role_id?: number;
   vendorId?: number;
+  // session_token of the user_sessions row this token was issued for
+  sessionId?: string;
   iat?: number;
   exp?: number;
 }
@@ -1,5 +1,6 @@
 import { pool } from '../config/database';
 import { DebugLogger } from '../utils/DebugLogger';
+import { MaintenancePlanRepository } from '../models/MaintenancePlanRepository';
 
 /**
  * MaintenanceScheduler - Handles automatic creation of maintenance tickets for overdue equipment
@@ -41,6 +42,10 @@ export class MaintenanceScheduler {
               AND mt.ticket_status IN ('open', 'resolved')
               AND mt.support_type = 'maintenance'
           )
+          -- Instances on a maintenance plan get tickets per schedule instead
+          AND NOT EXISTS (
+            SELECT 1 FROM equipment_schedule_due d WHERE d.equipment_instance_id = ei.id
+          )
         ORDER BY ei.next_maintenance_date ASC
       `;
       
@@ -173,6 +178,10 @@ This ticket was automatically created by the system for overdue maintenance.`;
               AND mt.ticket_status IN ('open', 'resolved')
               AND mt.support_type = 'maintenance'
           )
+          -- Instances on a maintenance plan get tickets per schedule instead
+          AND NOT EXISTS (
+            SELECT 1 FROM equipment_schedule_due d WHERE d.equipment_instance_id = ei.id
+          )
         ORDER BY ei.next_maintenance_date ASC
       `;
       
@@ -264,24 +273,131 @@ This ticket was automatically created by the system for proactive maintenance sc
     }
   }
   
+  /**
+   * Create tickets for maintenance plan schedules that are within their lead time.
+   * Each schedule gets its own ticket, categorised by the schedule's category.
+   */
+  static async createPlannedMaintenanceTickets(): Promise<{created: number, errors: any[]}> {
+    const startTime = DebugLogger.startTimer();
+    DebugLogger.log('Starting planned maintenance ticket creation', {}, 'MAINTENANCE_SCHEDULER');
+    
+    try {
+      // Keep instance compliance in step with the earliest due schedule
+      const synced = await MaintenancePlanRepository.syncInstanceMaintenanceDates();
+      
+      const dueSchedules = await MaintenancePlanRepository.getSchedulesDueForTickets();
+      
+      if (dueSchedules.length === 0) {
+        DebugLogger.log('No maintenance plan schedules due', { synced }, 'MAINTENANCE_SCHEDULER');
+        return { created: 0, errors: [] };
+      }
+      
+      DebugLogger.log(`Found ${dueSchedules.length} maintenance plan schedules due`, 
+        { count: dueSchedules.length, synced }, 'MAINTENANCE_SCHEDULER');
+      
+      let createdCount = 0;
+      const errors: any[] = [];
+      
+      for (const due of dueSchedules) {
+        try {
+          const daysUntilDue = Math.ceil((new Date(due.next_due_date).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
+          const isOverdue = daysUntilDue < 0;
+          
+          const issueDescription = `Planned maintenance: ${due.schedule_name}.
+Equipment: ${due.equipment_name} (${due.equipment_type})
+Serial Number: ${due.serial_number}
+Due Date: ${due.next_due_date}
+${isOverdue ? `Days Overdue: ${Math.abs(daysUntilDue)}` : `Days Until Due: ${daysUntilDue}`}
+Client: ${due.client_name || 'Unassigned'}
+
+This ticket was automatically created from the equipment's maintenance plan.`;
+          
+          const insertTicketQuery = `
+            INSERT INTO maintenance_ticket (
+              equipment_instance_id, 
+              client_id, 
+              vendor_id,
+              ticket_status, 
+              support_type, 
+              priority,
+              issue_description, 
+              category,
+              scheduled_date,
+              maintenance_schedule_id,
+              created_at
+            ) VALUES ($1, $2, $3, 'open', 'maintenance', $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+            RETURNING id, ticket_number
+          `;
+          
+          const result = await pool.query(insertTicketQuery, [
+            due.equipment_instance_id,
+            due.client_id,
+            due.vendor_id,
+            daysUntilDue < -30 ? 'high' : 'normal',
+            issueDescription,
+            due.category,
+            due.next_due_date,
+            due.schedule_id
+          ]);
+          
+          createdCount++;
+          DebugLogger.log(`Created planned maintenance ticket for equipment ${due.serial_number}`, 
+            { 
+              ticketNumber: result.rows[0].ticket_number,
+              equipmentSerial: due.serial_number,
+              schedule: due.schedule_name,
+              dueDate: due.next_due_date
+            }, 'MAINTENANCE_SCHEDULER');
+            
+        } catch (error) {
+          const errorInfo = {
+            equipment_id: due.equipment_instance_id,
+            serial_number: due.serial_number,
+            schedule_id: due.schedule_id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          };
+          errors.push(errorInfo);
+          DebugLogger.error(`Failed to create planned maintenance ticket for equipment ${due.serial_number}`, 
+            error, errorInfo);
+        }
+      }
+      
+      DebugLogger.performance('Planned maintenance ticket creation completed', startTime);
+      DebugLogger.log(`Planned maintenance ticket creation summary`, 
+        { 
+          totalDue: dueSchedules.length,
+          created: createdCount,
+          errors: errors.length 
+        }, 'MAINTENANCE_SCHEDULER');
+      
+      return { created: createdCount, errors };
+      
+    } catch (error) {
+      DebugLogger.error('Error in planned maintenance ticket creation', error, {});
+      throw error;
+    }
+  }
+  
   /**
    * Run all maintenance scheduling tasks
    */
-  static async runScheduledTasks(): Promise<{overdue: any, proactive: any}> {
+  static async runScheduledTasks(): Promise<{overdue: any, proactive: any, planned: any}> {
     DebugLogger.log('Running scheduled maintenance tasks', {}, 'MAINTENANCE_SCHEDULER');
     
     const overdue = await this.createOverdueMaintenanceTickets();
     const proactive = await this.createProactiveMaintenanceTickets();
+    const planned = await this.createPlannedMaintenanceTickets();
     
     const summary = {
       overdue: { created: overdue.created, errors: overdue.errors.length },
       proactive: { created: proactive.created, errors: proactive.errors.length },
-      total_created: overdue.created + proactive.created,
-      total_errors: overdue.errors.length + proactive.errors.length
+      planned: { created: planned.created, errors: planned.errors.length },
+      total_created: overdue.created + proactive.created + planned.created,
+      total_errors: overdue.errors.length + proactive.errors.length + planned.errors.length
     };
     
     DebugLogger.log('Scheduled maintenance tasks completed', summary, 'MAINTENANCE_SCHEDULER');
     
-    return { overdue, proactive };
+    return { overdue, proactive, planned };
   }
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
 import fs from 'fs';
 import path from 'path';
+import { BrandingWithLogo, DEFAULT_BRANDING } from '../services/branding';
 
 type PDFDoc = typeof PDFDocument;
 
@@ -17,13 +19,65 @@ export interface PDFReportData {
     startDate: string;
     endDate: string;
   };
+  branding?: BrandingWithLogo;
 }
 
+export interface AssetLabelData {
+  scanUrl: string;
+  serialNumber: string;
+  assetTag?: string | null;
+  equipmentName: string;
+  vendorName: string;
+  location?: string | null;
+}
+
+export interface DigestReportTable {
+  title: string;
+  headers: string[];
+  rows: string[][];
+  // Relative column widths; equal when omitted
+  widths?: number[];
+}
+
+export interface DigestReportData {
+  title: string;
+  recipientName: string;
+  generatedAt: string;
+  tables: DigestReportTable[];
+  branding?: BrandingWithLogo;
+}
+
+export interface BillingDocumentData {
+  // 'Quote' or 'Invoice'
+  documentType: string;
+  documentNumber: string;
+  // Issue date, valid-until and similar, shown under the number
+  details: { label: string; value: string }[];
+  billTo: { name: string; address: string };
+  lines: { description: string; quantity: number; unitPrice: number; amount: number }[];
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  // Paid to date and balance, for invoices
+  amountPaid?: number;
+  notes?: string | null;
+  branding?: BrandingWithLogo;
+}
+
+// Label sheet grid: 2 columns x 6 rows on A4
+const LABEL_COLUMNS = 2;
+const LABEL_ROWS = 6;
+const LABEL_MARGIN = 30;
+const LABEL_QR_SIZE = 100;
+
 export class PDFService {
   /**
    * Generate a comprehensive analytics PDF report
    */
   static generateReport(data: PDFReportData): Promise<Buffer> {
+    const brand = data.branding || { ...DEFAULT_BRANDING, logo: null };
+
     return new Promise((resolve, reject) => {
       try {
         const doc = new PDFDocument({
@@ -31,7 +85,7 @@ export class PDFService {
           margin: 50,
           info: {
             Title: `Fire Safety Analytics Report - ${data.clientName}`,
-            Author: 'Fire Guardian Control Center',
+            Author: brand.productName,
             Subject: 'Equipment Compliance & Analytics Report',
             Keywords: 'fire safety, compliance, analytics, equipment',
             CreationDate: new Date(),
@@ -46,13 +100,302 @@ export class PDFService {
         doc.on('error', reject);
 
         // Generate PDF content
-        this.addHeader(doc, data);
+        this.addHeader(doc, data, brand);
         this.addExecutiveSummary(doc, data);
         this.addComplianceOverview(doc, data);
         this.addEquipmentDetails(doc, data);
         this.addUpcomingEvents(doc, data);
         this.addUnresolvedTickets(doc, data);
-        this.addFooter(doc, data);
+        this.addFooter(doc, brand);
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Generate a printable sheet of QR asset labels, one per equipment instance
+   */
+  static async generateAssetLabels(labels: AssetLabelData[]): Promise<Buffer> {
+    // QR images are rendered up front since pdfkit draws synchronously
+    const qrImages = await Promise.all(
+      labels.map(label => QRCode.toBuffer(label.scanUrl, { type: 'png', margin: 1, width: 300, errorCorrectionLevel: 'M' }))
+    );
+
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'A4',
+          margin: LABEL_MARGIN,
+          info: {
+            Title: 'Equipment Asset Labels',
+            Author: 'Fire Guardian Control Center',
+            Subject: 'QR asset labels',
+            CreationDate: new Date()
+          }
+        });
+
+        const chunks: Buffer[] = [];
+
+        doc.on('data', (chunk: any) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        const labelWidth = (doc.page.width - LABEL_MARGIN * 2) / LABEL_COLUMNS;
+        const labelHeight = (doc.page.height - LABEL_MARGIN * 2) / LABEL_ROWS;
+        const perPage = LABEL_COLUMNS * LABEL_ROWS;
+
+        labels.forEach((label, index) => {
+          if (index > 0 && index % perPage === 0) {
+            doc.addPage();
+          }
+
+          const slot = index % perPage;
+          const x = LABEL_MARGIN + (slot % LABEL_COLUMNS) * labelWidth;
+          const y = LABEL_MARGIN + Math.floor(slot / LABEL_COLUMNS) * labelHeight;
+
+          this.addAssetLabel(doc, label, qrImages[index], x, y, labelWidth, labelHeight);
+        });
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Generate the full item list attached to a compliance digest email
+   */
+  static generateDigestReport(data: DigestReportData): Promise<Buffer> {
+    const brand = data.branding || { ...DEFAULT_BRANDING, logo: null };
+
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'A4',
+          layout: 'landscape',
+          margin: 40,
+          info: {
+            Title: `${data.title} - ${data.recipientName}`,
+            Author: brand.productName,
+            Subject: data.title,
+            CreationDate: new Date()
+          }
+        });
+
+        const chunks: Buffer[] = [];
+
+        doc.on('data', (chunk: any) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        const titleY = this.drawLogo(doc, brand.logo, 40, 40, [160, 40]) ? 90 : 40;
+        doc.fontSize(9)
+           .font('Helvetica')
+           .fillColor('#6b7280')
+           .text(brand.productName, 40, 40, { width: doc.page.width - 80, align: 'right' });
+
+        doc.fontSize(18)
+           .font('Helvetica-Bold')
+           .fillColor(brand.primaryColor)
+           .text(data.title, 40, titleY);
+        doc.fontSize(11)
+           .font('Helvetica')
+           .fillColor('#6b7280')
+           .text(`${data.recipientName} - generated ${new Date(data.generatedAt).toLocaleString()}`, 40, doc.y + 4);
+        doc.y += 15;
+
+        data.tables.forEach(table => this.addDigestTable(doc, table));
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Draw one titled table, repeating the header row on each new page
+   */
+  private static addDigestTable(doc: PDFDoc, table: DigestReportTable) {
+    const left = 40;
+    const tableWidth = doc.page.width - 80;
+    const bottom = doc.page.height - 50;
+    const weights = table.widths || table.headers.map(() => 1);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const columnWidths = weights.map(weight => (weight / totalWeight) * tableWidth);
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      doc.fontSize(9).font(bold ? 'Helvetica-Bold' : 'Helvetica');
+      const height = Math.max(
+        ...cells.map((cell, index) => doc.heightOfString(cell, { width: columnWidths[index] - 6 }))
+      ) + 6;
+
+      if (doc.y + height > bottom) {
+        doc.addPage();
+        doc.y = 40;
+        if (!bold) drawRow(table.headers, true);
+        doc.fontSize(9).font(bold ? 'Helvetica-Bold' : 'Helvetica');
+      }
+
+      const y = doc.y;
+      if (bold) {
+        doc.rect(left, y, tableWidth, height).fill('#f3f4f6');
+      }
+      doc.fillColor('black');
+
+      let x = left;
+      cells.forEach((cell, index) => {
+        doc.text(cell, x + 3, y + 3, { width: columnWidths[index] - 6 });
+        x += columnWidths[index];
+      });
+
+      doc.moveTo(left, y + height)
+         .lineTo(left + tableWidth, y + height)
+         .strokeColor('#e5e7eb')
+         .stroke();
+      doc.y = y + height;
+    };
+
+    if (doc.y > bottom - 60) {
+      doc.addPage();
+      doc.y = 40;
+    }
+
+    doc.fontSize(13)
+       .font('Helvetica-Bold')
+       .fillColor('#1e40af')
+       .text(`${table.title} (${table.rows.length})`, left, doc.y + 10);
+    doc.y += 6;
+
+    if (table.rows.length === 0) {
+      doc.fontSize(10)
+         .font('Helvetica')
+         .fillColor('#6b7280')
+         .text('Nothing to report.', left, doc.y);
+      doc.y += 6;
+      return;
+    }
+
+    drawRow(table.headers, true);
+    table.rows.forEach(row => drawRow(row, false));
+    doc.y += 6;
+  }
+
+  /**
+   * Generate a quote or invoice in the vendor's branding
+   */
+  static generateBillingDocument(data: BillingDocumentData): Promise<Buffer> {
+    const brand = data.branding || { ...DEFAULT_BRANDING, logo: null };
+    const money = (value: number) => `$${value.toFixed(2)}`;
+
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'A4',
+          margin: 40,
+          info: {
+            Title: `${data.documentType} ${data.documentNumber}`,
+            Author: brand.productName,
+            Subject: `${data.documentType} for ${data.billTo.name}`,
+            CreationDate: new Date()
+          }
+        });
+
+        const chunks: Buffer[] = [];
+
+        doc.on('data', (chunk: any) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        const left = 40;
+        const width = doc.page.width - 80;
+
+        // Vendor on the left, document number and dates on the right
+        const vendorY = this.drawLogo(doc, brand.logo, left, 40, [160, 40]) ? 90 : 40;
+        doc.fontSize(14)
+           .font('Helvetica-Bold')
+           .fillColor(brand.primaryColor)
+           .text(brand.name, left, vendorY, { width: width / 2 });
+        const contact = [brand.contact?.address, brand.contact?.phone, brand.contact?.email].filter(Boolean);
+        doc.fontSize(9)
+           .font('Helvetica')
+           .fillColor('#6b7280')
+           .text(contact.join('\n'), left, doc.y + 2, { width: width / 2 });
+        const vendorBottom = doc.y;
+
+        doc.fontSize(22)
+           .font('Helvetica-Bold')
+           .fillColor(brand.primaryColor)
+           .text(data.documentType.toUpperCase(), left, 40, { width, align: 'right' });
+        doc.fontSize(11)
+           .font('Helvetica-Bold')
+           .fillColor('black')
+           .text(data.documentNumber, left, doc.y + 2, { width, align: 'right' });
+        doc.fontSize(9).font('Helvetica');
+        data.details.forEach(detail => {
+          doc.text(`${detail.label}: ${detail.value}`, left, doc.y + 2, { width, align: 'right' });
+        });
+
+        doc.y = Math.max(vendorBottom, doc.y) + 20;
+        doc.fontSize(9)
+           .font('Helvetica-Bold')
+           .fillColor('#6b7280')
+           .text('BILL TO', left, doc.y);
+        doc.fontSize(11)
+           .font('Helvetica-Bold')
+           .fillColor('black')
+           .text(data.billTo.name, left, doc.y + 2);
+        if (data.billTo.address) {
+          doc.fontSize(9)
+             .font('Helvetica')
+             .text(data.billTo.address, left, doc.y + 2, { width: width / 2 });
+        }
+        doc.y += 10;
+
+        this.addDigestTable(doc, {
+          title: 'Items',
+          headers: ['Description', 'Qty', 'Unit Price', 'Amount'],
+          rows: data.lines.map(line => [line.description, String(line.quantity), money(line.unitPrice), money(line.amount)]),
+          widths: [5, 1, 1.5, 1.5]
+        });
+
+        const totals: [string, string][] = [
+          ['Subtotal', money(data.subtotal)],
+          [`Tax (${data.taxRate}%)`, money(data.taxAmount)],
+          ['Total', money(data.total)]
+        ];
+        if (data.amountPaid !== undefined) {
+          totals.push(['Paid', money(data.amountPaid)], ['Balance Due', money(data.total - data.amountPaid)]);
+        }
+
+        if (doc.y > doc.page.height - 50 - totals.length * 16) {
+          doc.addPage();
+          doc.y = 40;
+        }
+        totals.forEach(([label, value]) => {
+          const strong = label === 'Total' || label === 'Balance Due';
+          const y = doc.y + 4;
+          doc.fontSize(10)
+             .font(strong ? 'Helvetica-Bold' : 'Helvetica')
+             .fillColor('black')
+             .text(label, left + width - 220, y, { width: 110 })
+             .text(value, left + width - 110, y, { width: 107, align: 'right' });
+        });
+
+        if (data.notes) {
+          doc.y += 20;
+          doc.fontSize(9)
+             .font('Helvetica-Bold')
+             .fillColor('#6b7280')
+             .text('NOTES', left, doc.y);
+          doc.font('Helvetica')
+             .fillColor('black')
+             .text(data.notes, left, doc.y + 2, { width });
+        }
 
         doc.end();
       } catch (error) {
@@ -61,13 +404,80 @@ export class PDFService {
     });
   }
 
+  /**
+   * Draw a single asset label with its QR code and identifying text
+   */
+  private static addAssetLabel(doc: PDFDoc, label: AssetLabelData, qrImage: Buffer, x: number, y: number, width: number, height: number) {
+    const padding = 10;
+
+    // Cut guide
+    doc.rect(x + 2, y + 2, width - 4, height - 4)
+       .dash(3, { space: 3 })
+       .strokeColor('#d1d5db')
+       .stroke()
+       .undash();
+
+    const qrY = y + (height - LABEL_QR_SIZE) / 2;
+    doc.image(qrImage, x + padding, qrY, { width: LABEL_QR_SIZE, height: LABEL_QR_SIZE });
+
+    const textX = x + padding * 2 + LABEL_QR_SIZE;
+    const textWidth = width - LABEL_QR_SIZE - padding * 3;
+
+    doc.fillColor('#1e40af')
+       .fontSize(8)
+       .font('Helvetica-Bold')
+       .text(label.vendorName.toUpperCase(), textX, y + padding + 4, { width: textWidth, lineBreak: false, ellipsis: true });
+
+    doc.fillColor('black')
+       .fontSize(11)
+       .font('Helvetica-Bold')
+       .text(label.equipmentName, textX, doc.y + 4, { width: textWidth, height: 28, ellipsis: true });
+
+    doc.fontSize(9)
+       .font('Helvetica')
+       .text(`S/N: ${label.serialNumber}`, textX, doc.y + 4, { width: textWidth, lineBreak: false, ellipsis: true });
+
+    if (label.assetTag) {
+      doc.text(`Asset: ${label.assetTag}`, textX, doc.y + 2, { width: textWidth, lineBreak: false, ellipsis: true });
+    }
+
+    if (label.location) {
+      doc.fillColor('#6b7280')
+         .text(label.location, textX, doc.y + 2, { width: textWidth, lineBreak: false, ellipsis: true });
+    }
+
+    doc.fillColor('#6b7280')
+       .fontSize(7)
+       .text('Scan for service history', textX, y + height - padding - 12, { width: textWidth });
+
+    doc.fillColor('black');
+  }
+
+  /**
+   * Draw a logo scaled to fit the box. Returns false when there's no logo or
+   * pdfkit can't read it, so the caller can lay out without one.
+   */
+  static drawLogo(doc: PDFKit.PDFDocument, logo: Buffer | null, x: number, y: number, fit: [number, number]): boolean {
+    if (!logo) return false;
+    try {
+      doc.image(logo, x, y, { fit, valign: 'center' });
+      return true;
+    } catch (error) {
+      console.error('Failed to draw logo in PDF:', error);
+      return false;
+    }
+  }
+
   /**
    * Add header section with logo and title
    */
-  private static addHeader(doc: PDFDoc, data: PDFReportData) {
+  private static addHeader(doc: PDFDoc, data: PDFReportData, brand: BrandingWithLogo) {
     // Header background
     doc.rect(0, 0, doc.page.width, 120)
-       .fill('#1e40af');
+       .fill(brand.primaryColor);
+
+    // Logo in the top right corner
+    this.drawLogo(doc, brand.logo, doc.page.width - 170, 20, [120, 40]);
 
     // Reset to white text for header
     doc.fillColor('white');
@@ -349,19 +759,20 @@ export class PDFService {
   /**
    * Add footer with disclaimer and contact info
    */
-  private static addFooter(doc: PDFDoc, data: PDFReportData) {
+  private static addFooter(doc: PDFDoc, brand: BrandingWithLogo) {
     const footerY = doc.page.height - 80;
     
     // Disclaimer
     doc.fontSize(8)
        .fillColor('#6b7280')
-       .text('This report is generated automatically by Fire Guardian Control Center. Data accuracy depends on timely maintenance record updates.', 50, footerY, {
+       .text(`This report is generated automatically by ${brand.productName}. Data accuracy depends on timely maintenance record updates.`, 50, footerY, {
          width: doc.page.width - 100,
          align: 'center'
        });
 
     // Contact info
-    doc.text('For questions or support, contact your system administrator.', 50, footerY + 20, {
+    const contact = [brand.contact?.phone, brand.contact?.email, brand.contact?.website].filter(Boolean).join('  |  ');
+    doc.text(contact ? `Questions or support: ${contact}` : 'For questions or support, contact your system administrator.', 50, footerY + 20, {
       width: doc.page.width - 100,
       align: 'center'
     });
@@ -0,0 +1,111 @@
+/**
+ * CSV Utility
+ * Minimal RFC 4180 reader and writer for spreadsheet imports and exports
+ */
+
+/**
+ * Parse CSV text into rows of fields.
+ * Handles quoted fields, escaped quotes ("") and CRLF or LF line endings.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Drop a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parse CSV text with a header row into objects keyed by normalised
+ * header names (trimmed, lower case, spaces as underscores)
+ */
+export function parseCsvWithHeader(text: string): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) {
+    return { headers: [], records: [] };
+  }
+
+  const headers = headerRow.map(header => header.trim().toLowerCase().replace(/\s+/g, '_'));
+  const records = dataRows.map(values => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = (values[index] ?? '').trim();
+    });
+    return record;
+  });
+
+  return { headers, records };
+}
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Quote a single value for CSV output. Text that a spreadsheet would treat
+ * as a formula is prefixed with a quote so it opens as plain text. Signed
+ * numbers and phone numbers like +94 11 234 5678 are left alone.
+ */
+function formatCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !/^[+-][\d\s().-]*$/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from a header row and data rows, using CRLF line endings
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(formatCsvValue).join(',')).join('\r\n') + '\r\n';
+}
@@ -1,4 +1,5 @@
 import Handlebars from 'handlebars';
+import { Branding } from '../services/branding';
 
 // Brand colors from Fire Guardian design system
 export const brandColors = {
@@ -12,7 +13,7 @@ export const brandColors = {
   gray500: '#7B8794',
 };
 
-// Base email layout with Fire Guardian branding
+// Base email layout, branded with the vendor's name, logo and colors (or Fire Guardian's)
 const baseEmailLayout = `
 <!DOCTYPE html>
 <html lang="en">
@@ -46,7 +47,7 @@ const baseEmailLayout = `
       box-shadow: 0 4px 6px rgba(0, 0, 0, 0.07), 0 10px 20px rgba(0, 0, 0, 0.06);
     }
     .email-header {
-      background: linear-gradient(135deg, ${brandColors.fireRed} 0%, ${brandColors.fireRedHover} 100%);
+      background: linear-gradient(135deg, {{brand.primaryColor}} 0%, {{brand.secondaryColor}} 100%);
       padding: 40px 30px;
       text-align: center;
       color: #ffffff;
@@ -61,6 +62,12 @@ const baseEmailLayout = `
       height: 4px;
       background: linear-gradient(90deg, rgba(255,255,255,0) 0%, rgba(255,255,255,0.3) 50%, rgba(255,255,255,0) 100%);
     }
+    .email-logo {
+      display: block;
+      max-width: 180px;
+      max-height: 64px;
+      margin: 0 auto 16px auto;
+    }
     .email-header h1 {
       margin: 0 0 8px 0;
       font-size: 32px;
@@ -78,7 +85,7 @@ const baseEmailLayout = `
       background-color: #ffffff;
     }
     .email-content h2 {
-      color: ${brandColors.fireRed};
+      color: {{brand.primaryColor}};
       font-size: 24px;
       font-weight: 700;
       margin-top: 0;
@@ -100,7 +107,7 @@ const baseEmailLayout = `
     .info-box {
       background-color: #FAFBFC;
       border: 2px solid #E8EAED;
-      border-left: 4px solid ${brandColors.fireRed};
+      border-left: 4px solid {{brand.primaryColor}};
       padding: 24px;
       margin: 28px 0;
       border-radius: 8px;
@@ -150,7 +157,7 @@ const baseEmailLayout = `
     .button {
       display: inline-block;
       padding: 14px 36px;
-      background-color: ${brandColors.fireRed};
+      background-color: {{brand.primaryColor}};
       color: #ffffff !important;
       text-decoration: none;
       border-radius: 8px;
@@ -161,7 +168,7 @@ const baseEmailLayout = `
       box-shadow: 0 2px 4px rgba(229, 57, 53, 0.2);
     }
     .button:hover {
-      background-color: ${brandColors.fireRedHover};
+      background-color: {{brand.secondaryColor}};
       box-shadow: 0 4px 8px rgba(229, 57, 53, 0.3);
       transform: translateY(-1px);
     }
@@ -204,7 +211,7 @@ const baseEmailLayout = `
       color: ${brandColors.primaryText};
     }
     .signature strong {
-      color: ${brandColors.fireRed};
+      color: {{brand.primaryColor}};
     }
     .email-footer {
       background: linear-gradient(to bottom, #FAFBFC, #F5F7FA);
@@ -262,8 +269,11 @@ const baseEmailLayout = `
   <div class="email-wrapper">
     <div class="email-container">
       <div class="email-header">
-        <h1>Fire Guardian</h1>
-        <p>Fire Safety Equipment Management System</p>
+        {{#if brand.logoUrl}}
+        <img src="{{brand.logoUrl}}" alt="{{brand.name}}" class="email-logo">
+        {{/if}}
+        <h1>{{brand.name}}</h1>
+        <p>{{brand.tagline}}</p>
       </div>
       <div class="email-body">
         <div class="email-content">
@@ -271,8 +281,16 @@ const baseEmailLayout = `
         </div>
       </div>
       <div class="email-footer">
-        <p><strong>Fire Guardian Control Center</strong></p>
+        <p><strong>{{brand.productName}}</strong></p>
+        {{#if brand.contact}}
+        {{#with brand.contact}}
+        {{#if address}}<p>{{address}}</p>{{/if}}
+        {{#if phone}}<p>{{phone}}{{#if email}} &middot; {{email}}{{/if}}</p>{{else if email}}<p>{{email}}</p>{{/if}}
+        {{#if website}}<p><a href="{{website}}">{{website}}</a></p>{{/if}}
+        {{/with}}
+        {{else}}
         <p>Professional Fire Safety Equipment Management & Compliance</p>
+        {{/if}}
         <p class="footer-tagline">
           This is an automated notification. Please do not reply to this email.<br>
           For support, please log in to your dashboard.
@@ -333,7 +351,7 @@ export const maintenanceTicketCreatedTemplate = `
 <p>If you have any questions or concerns, please contact your service provider through the dashboard.</p>
 
 <div class="signature">
-  <p>Best regards,<br><strong>Fire Guardian Team</strong></p>
+  <p>Best regards,<br><strong>{{brandName}} Team</strong></p>
 </div>
 `;
 
@@ -391,107 +409,41 @@ export const maintenanceTicketUpdatedTemplate = `
 <p>Thank you for your continued commitment to fire safety compliance.</p>
 
 <div class="signature">
-  <p>Best regards,<br><strong>Fire Guardian Team</strong></p>
+  <p>Best regards,<br><strong>{{brandName}} Team</strong></p>
 </div>
 `;
 
-// Maintenance Due Reminder Template (30 days)
-export const maintenanceDueReminderTemplate = `
-<h2>Upcoming Maintenance Due</h2>
-<p class="greeting">Hello {{clientName}},</p>
-<p>This is a friendly reminder that maintenance is due for your fire safety equipment in <strong>{{daysUntilDue}} days</strong>.</p>
-
-<div class="info-box info-box-warning">
-  <div class="info-row">
-    <span class="info-label">Equipment</span>
-    <span class="info-value">{{equipmentName}}</span>
-  </div>
-  <div class="info-row">
-    <span class="info-label">Serial Number</span>
-    <span class="info-value">{{serialNumber}}</span>
-  </div>
+// Compliance Digest Template
+export const complianceDigestTemplate = `
+<h2>{{periodLabel}} Compliance Digest</h2>
+<p class="greeting">Hello {{recipientName}},</p>
+<p>Here is your {{period}} summary of fire safety equipment and service requests as of {{date}}.</p>
+
+{{#each sections}}
+<h3>{{this.title}} ({{this.total}})</h3>
+{{#if this.total}}
+<div class="info-box{{#if this.warning}} info-box-warning{{/if}}">
+  {{#each this.items}}
   <div class="info-row">
-    <span class="info-label">Location</span>
-    <span class="info-value">{{location}}</span>
-  </div>
-  <div class="info-row">
-    <span class="info-label">Maintenance Due</span>
-    <span class="info-value">{{maintenanceDueDate}}</span>
-  </div>
-  <div class="info-row">
-    <span class="info-label">Maintenance Type</span>
-    <span class="info-value">{{maintenanceType}}</span>
-  </div>
-</div>
-
-<div class="alert-box">
-  <h3>Why This Matters</h3>
-  <p>Regular maintenance is required to ensure compliance with NFPA standards and to keep your fire safety equipment in optimal working condition. Failure to maintain equipment on schedule may result in compliance issues.</p>
-</div>
-
-<div class="button-container">
-  <a href="{{dashboardUrl}}" class="button">Schedule Maintenance</a>
-</div>
-
-<p>If you have already scheduled this maintenance, you can safely disregard this reminder.</p>
-
-<div class="signature">
-  <p>Stay safe and compliant,<br><strong>Fire Guardian Team</strong></p>
-</div>
-`;
-
-// Equipment Expiration Alert Template
-export const equipmentExpirationAlertTemplate = `
-<h2>Equipment Certification Expiring Soon</h2>
-<p class="greeting">Hello {{clientName}},</p>
-<p><strong style="color: #E53935;">Important Notice:</strong> Your fire safety equipment certification will expire in <strong style="color: #E53935;">{{daysUntilExpiration}} days</strong>.</p>
-
-<div class="info-box info-box-warning">
-  <div class="info-row">
-    <span class="info-label">Equipment</span>
-    <span class="info-value">{{equipmentName}}</span>
-  </div>
-  <div class="info-row">
-    <span class="info-label">Serial Number</span>
-    <span class="info-value">{{serialNumber}}</span>
-  </div>
-  <div class="info-row">
-    <span class="info-label">Location</span>
-    <span class="info-value">{{location}}</span>
-  </div>
-  <div class="info-row">
-    <span class="info-label">Expiration Date</span>
-    <span class="info-value">{{expirationDate}}</span>
-  </div>
-  <div class="info-row">
-    <span class="info-label">Current Status</span>
-    <span class="info-value">{{status}}</span>
+    <span class="info-label">{{this.label}}</span>
+    <span class="info-value">{{this.value}}</span>
   </div>
+  {{/each}}
 </div>
-
-<div class="alert-box">
-  <h3>Action Required</h3>
-  <p>To maintain compliance and ensure continued operation, please contact your service provider to schedule an inspection and recertification before the expiration date.</p>
-</div>
+{{#if this.more}}
+<p>...and {{this.more}} more{{#if ../attachmentName}}, listed in the attached {{../attachmentName}}{{/if}}.</p>
+{{/if}}
+{{else}}
+<p>Nothing to report.</p>
+{{/if}}
+{{/each}}
 
 <div class="button-container">
-  <a href="{{dashboardUrl}}" class="button">View Equipment Details</a>
-</div>
-
-<div class="alert-box">
-  <h3>Compliance Impact</h3>
-  <p>Expired equipment certifications may result in:</p>
-  <ul>
-    <li>Non-compliance with fire safety regulations</li>
-    <li>Potential insurance issues</li>
-    <li>Safety concerns for your facility</li>
-  </ul>
+  <a href="{{dashboardUrl}}" class="button">Open Dashboard</a>
 </div>
 
-<p>Please take immediate action to prevent any compliance issues.</p>
-
 <div class="signature">
-  <p>Best regards,<br><strong>Fire Guardian Team</strong></p>
+  <p>Stay safe and compliant,<br><strong>{{brandName}} Team</strong></p>
 </div>
 `;
 
@@ -547,13 +499,13 @@ export const maintenanceCompletedTemplate = `
 <p><strong>Thank you for prioritizing fire safety! </strong></p>
 
 <div class="signature">
-  <p>Best regards,<br><strong>Fire Guardian Team</strong></p>
+  <p>Best regards,<br><strong>{{brandName}} Team</strong></p>
 </div>
 `;
 
 // Temporary Password Template
 export const temporaryPasswordTemplate = `
-<h2>Welcome to Fire Guardian Control Center</h2>
+<h2>Welcome to {{brandName}}</h2>
 <p class="greeting">Hello {{userName}},</p>
 <p>Your account has been created successfully. Below are your login credentials:</p>
 
@@ -577,7 +529,7 @@ export const temporaryPasswordTemplate = `
   <p><strong>You must change your password on first login.</strong> This temporary password is only valid for your first login session.</p>
   <p>Please follow these steps:</p>
   <ol>
-    <li>Click the login button below or go to the Fire Guardian portal</li>
+    <li>Click the login button below or go to the {{brandName}} portal</li>
     <li>Enter your email and temporary password</li>
     <li>You will be prompted to create a new password</li>
     <li>Choose a strong password (min 8 characters, with uppercase, lowercase, numbers, and special characters)</li>
@@ -601,46 +553,119 @@ export const temporaryPasswordTemplate = `
 <p>If you did not request this account or have any questions, please contact your administrator immediately.</p>
 
 <div class="signature">
-  <p>Welcome aboard!<br><strong>Fire Guardian Team</strong></p>
+  <p>Welcome aboard!<br><strong>{{brandName}} Team</strong></p>
 </div>
 `;
 
+// Password Reset Template
+export const passwordResetTemplate = `
+<h2>Reset Your Password</h2>
+<p class="greeting">Hello {{userName}},</p>
+<p>We received a request to reset the password for your {{brandName}} account. Click the button below to choose a new password.</p>
+
+<div class="button-container">
+  <a href="{{resetUrl}}" class="button">Reset Password</a>
+</div>
+
+<div class="alert-box">
+  <h3>⚠️ This link expires in {{expiresInMinutes}} minutes</h3>
+  <p>The link can only be used once. If it has expired, request a new one from the login page.</p>
+</div>
+
+<p>If the button does not work, copy this address into your browser:<br>
+<span style="word-break: break-all; font-size: 13px;">{{resetUrl}}</span></p>
+
+<p>If you did not request a password reset, you can ignore this email. Your password will not change.</p>
+
+<div class="signature">
+  <p>Best regards,<br><strong>{{brandName}} Team</strong></p>
+</div>
+`;
+
+// Notification Digest Template
+export const notificationDigestTemplate = `
+<h2>Your Daily Summary</h2>
+<p class="greeting">Hello {{userName}},</p>
+<p>Here is a summary of what happened since your last digest ({{itemCount}} {{itemLabel}}).</p>
+
+<div class="info-box">
+  {{#each items}}
+  <div class="info-row">
+    <span class="info-label">{{this.time}}</span>
+    <span class="info-value">{{#if this.actionUrl}}<a href="{{this.actionUrl}}">{{this.subject}}</a>{{else}}{{this.subject}}{{/if}}</span>
+  </div>
+  {{/each}}
+</div>
+
+<div class="button-container">
+  <a href="{{preferencesUrl}}" class="button">Notification Preferences</a>
+</div>
+
+<p>You are receiving this summary instead of individual emails. You can switch back to individual emails from your notification preferences.</p>
+
+<div class="signature">
+  <p>Best regards,<br><strong>{{brandName}} Team</strong></p>
+</div>
+`;
+
+// Built-in content templates, the fallback when no edited template is saved
+export const emailTemplateSources = {
+  maintenanceTicketCreated: maintenanceTicketCreatedTemplate,
+  maintenanceTicketUpdated: maintenanceTicketUpdatedTemplate,
+  complianceDigest: complianceDigestTemplate,
+  maintenanceCompleted: maintenanceCompletedTemplate,
+  temporaryPassword: temporaryPasswordTemplate,
+  passwordReset: passwordResetTemplate,
+  notificationDigest: notificationDigestTemplate,
+};
+
 // Compile templates
 export const compiledTemplates = {
   base: Handlebars.compile(baseEmailLayout),
   maintenanceTicketCreated: Handlebars.compile(maintenanceTicketCreatedTemplate),
   maintenanceTicketUpdated: Handlebars.compile(maintenanceTicketUpdatedTemplate),
-  maintenanceDueReminder: Handlebars.compile(maintenanceDueReminderTemplate),
-  equipmentExpirationAlert: Handlebars.compile(equipmentExpirationAlertTemplate),
+  complianceDigest: Handlebars.compile(complianceDigestTemplate),
   maintenanceCompleted: Handlebars.compile(maintenanceCompletedTemplate),
   temporaryPassword: Handlebars.compile(temporaryPasswordTemplate),
+  passwordReset: Handlebars.compile(passwordResetTemplate),
+  notificationDigest: Handlebars.compile(notificationDigestTemplate),
 };
 
 // Email template types
 export type EmailTemplateType = 
   | 'maintenanceTicketCreated'
   | 'maintenanceTicketUpdated'
-  | 'maintenanceDueReminder'
-  | 'equipmentExpirationAlert'
+  | 'complianceDigest'
   | 'maintenanceCompleted'
-  | 'temporaryPassword';
+  | 'temporaryPassword'
+  | 'passwordReset'
+  | 'notificationDigest';
 
-// Generate full email HTML
+// Generate full email HTML. `contentSource` replaces the built-in content
+// template, e.g. with an admin-edited one.
 export const generateEmailHTML = (
   templateType: EmailTemplateType,
   data: any,
-  subject: string
+  subject: string,
+  brand: Branding,
+  contentSource?: string
 ): string => {
-  const contentTemplate = compiledTemplates[templateType];
-  const content = contentTemplate(data);
+  const contentTemplate = contentSource ? Handlebars.compile(contentSource) : compiledTemplates[templateType];
+  const content = contentTemplate({ ...data, brandName: brand.name });
   
-  return compiledTemplates.base({ subject, content });
+  return compiledTemplates.base({ subject, content, brand });
 };
 
 // Generate plain text version (fallback)
-export const generatePlainText = (templateType: EmailTemplateType, data: any): string => {
+export const generatePlainText = (
+  templateType: EmailTemplateType,
+  data: any,
+  brand: Branding,
+  contentSource?: string
+): string => {
   // Simple plain text version
-  const htmlContent = compiledTemplates[templateType](data);
+  const contentData = { ...data, brandName: brand.name };
+  const htmlContent = contentSource ? Handlebars.compile(contentSource)(contentData) : compiledTemplates[templateType](contentData);
   // Strip HTML tags for plain text
   return htmlContent
     .replace(/<[^>]*>/g, '')
@@ -0,0 +1,47 @@
+/**
+ * Phone Number Utility
+ * Normalizes user-entered phone numbers to E.164 (+<country code><number>)
+ * so SMS can reach numbers outside Sri Lanka
+ */
+
+// E.164: a plus sign and up to 15 digits, never starting with 0
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Whether a number is already in E.164 form
+ */
+export function isValidE164(phone: string): boolean {
+  return E164_PATTERN.test(phone);
+}
+
+/**
+ * Normalize a phone number to E.164, or return null if it can't be.
+ *
+ * Accepts "+94 77 123 4567", "0094771234567", national numbers with a trunk
+ * zero ("0771234567"), numbers already carrying the default country code
+ * ("94771234567") and bare subscriber numbers ("771234567"). The last three
+ * are assumed to belong to defaultCountryCode.
+ */
+export function normalizePhoneNumber(phone: string, defaultCountryCode: string): string | null {
+  if (!phone) return null;
+
+  const trimmed = phone.trim().replace(/[\s().-]/g, '');
+  const countryCode = defaultCountryCode.replace(/\D/g, '');
+  let normalized: string;
+
+  if (trimmed.startsWith('+')) {
+    normalized = trimmed;
+  } else if (!/^\d+$/.test(trimmed)) {
+    return null;
+  } else if (trimmed.startsWith('00')) {
+    normalized = `+${trimmed.substring(2)}`;
+  } else if (trimmed.startsWith('0')) {
+    normalized = `+${countryCode}${trimmed.substring(1)}`;
+  } else if (trimmed.startsWith(countryCode) && trimmed.length > 10) {
+    normalized = `+${trimmed}`;
+  } else {
+    normalized = `+${countryCode}${trimmed}`;
+  }
+
+  return isValidE164(normalized) ? normalized : null;
+}
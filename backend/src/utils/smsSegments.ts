@@ -0,0 +1,51 @@
+/**
+ * SMS Segments
+ * Works out how many parts an SMS is split into. Messages that fit the GSM
+ * 03.38 alphabet get 160 characters (153 per part once split); anything
+ * else is sent as UCS-2 with 70 (67 per part).
+ */
+
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+
+// Sent as an escape plus the character, so they count twice
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  // In encoding units: GSM extended characters count as 2
+  length: number;
+  segments: number;
+  // Characters left before another segment is needed
+  remaining: number;
+}
+
+export function countSmsSegments(text: string): SmsSegmentInfo {
+  let gsmLength = 0;
+  let isGsm = true;
+
+  for (const char of text) {
+    if (GSM_BASIC.includes(char)) {
+      gsmLength += 1;
+    } else if (GSM_EXTENDED.includes(char)) {
+      gsmLength += 2;
+    } else {
+      isGsm = false;
+      break;
+    }
+  }
+
+  const encoding: SmsEncoding = isGsm ? 'GSM-7' : 'UCS-2';
+  // UCS-2 counts UTF-16 code units, so emoji take two
+  const length = isGsm ? gsmLength : text.length;
+  const single = isGsm ? 160 : 70;
+  const part = isGsm ? 153 : 67;
+
+  const segments = length <= single ? 1 : Math.ceil(length / part);
+  const capacity = segments === 1 ? single : segments * part;
+
+  return { encoding, length, segments, remaining: capacity - length };
+}
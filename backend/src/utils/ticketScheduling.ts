@@ -0,0 +1,98 @@
+/**
+ * Ticket Scheduling Utility
+ * Detects double-booked and overbooked technicians from scheduled tickets
+ */
+
+// Working hours a technician can be booked for in one day
+export const WORKDAY_HOURS = 8;
+
+// Duration assumed for tickets without an estimate
+export const DEFAULT_TICKET_HOURS = 1;
+
+export interface SchedulableTicket {
+  id: number;
+  ticket_number: string;
+  ticket_status: string;
+  assigned_technician: number | null;
+  technician_name: string | null;
+  scheduled_date: string | Date | null;
+  schedule_day: string | null;
+  is_all_day: boolean;
+  estimated_hours: number | string | null;
+}
+
+export interface ScheduleWarning {
+  type: 'overlap' | 'overbooked';
+  technician_id: number;
+  technician_name: string | null;
+  date: string;
+  ticket_ids: number[];
+  total_hours?: number;
+  message: string;
+}
+
+const ticketHours = (ticket: SchedulableTicket): number => {
+  const hours = ticket.estimated_hours === null ? NaN : Number(ticket.estimated_hours);
+  return isNaN(hours) || hours <= 0 ? DEFAULT_TICKET_HOURS : hours;
+};
+
+/**
+ * Build overlap and overbooking warnings for open, assigned tickets.
+ * Tickets are grouped per technician and schedule_day. Only tickets with a
+ * time of day can overlap; date-only tickets still count towards the day's hours.
+ */
+export function getScheduleWarnings(tickets: SchedulableTicket[], capacityHours: number = WORKDAY_HOURS): ScheduleWarning[] {
+  const groups = new Map<string, SchedulableTicket[]>();
+
+  for (const ticket of tickets) {
+    if (ticket.ticket_status !== 'open' || !ticket.assigned_technician || !ticket.scheduled_date || !ticket.schedule_day) {
+      continue;
+    }
+    const key = `${ticket.assigned_technician}:${ticket.schedule_day}`;
+    groups.set(key, [...(groups.get(key) || []), ticket]);
+  }
+
+  const warnings: ScheduleWarning[] = [];
+
+  for (const dayTickets of groups.values()) {
+    const { assigned_technician, technician_name, schedule_day } = dayTickets[0];
+    const technicianId = assigned_technician as number;
+    const date = schedule_day as string;
+
+    const timed = dayTickets
+      .filter(ticket => !ticket.is_all_day)
+      .map(ticket => {
+        const start = new Date(ticket.scheduled_date as string | Date).getTime();
+        return { ticket, start, end: start + ticketHours(ticket) * 3600000 };
+      })
+      .sort((a, b) => a.start - b.start);
+
+    for (let i = 0; i < timed.length; i++) {
+      for (let j = i + 1; j < timed.length && timed[j].start < timed[i].end; j++) {
+        warnings.push({
+          type: 'overlap',
+          technician_id: technicianId,
+          technician_name,
+          date,
+          ticket_ids: [timed[i].ticket.id, timed[j].ticket.id],
+          message: `${technician_name || 'Technician'} is double-booked: ${timed[i].ticket.ticket_number} overlaps ${timed[j].ticket.ticket_number}`
+        });
+      }
+    }
+
+    const totalHours = Math.round(dayTickets.reduce((sum, ticket) => sum + ticketHours(ticket), 0) * 100) / 100;
+    if (totalHours > capacityHours) {
+      warnings.push({
+        type: 'overbooked',
+        technician_id: technicianId,
+        technician_name,
+        date,
+        ticket_ids: dayTickets.map(ticket => ticket.id),
+        total_hours: totalHours,
+        message: `${technician_name || 'Technician'} is booked for ${totalHours}h on ${date} (capacity ${capacityHours}h)`
+      });
+    }
+  }
+
+  return warnings;
+}
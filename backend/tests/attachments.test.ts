@@ -0,0 +1,22 @@
+import { validateUpload } from '../src/services/attachmentService';
+
+jest.mock('../src/config/database', () => require('./helpers/testDatabase'));
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+const HTML = Buffer.from('<html><script>alert(1)</script></html>');
+
+describe('validateUpload', () => {
+  it('accepts an allowed type whose contents match', () => {
+    const upload = validateUpload({ file_name: 'gauge.png', mime_type: 'image/png', data: PNG_BYTES.toString('base64') });
+
+    expect(upload).toMatchObject({ originalName: 'gauge.png', mimeType: 'image/png', category: 'other' });
+  });
+
+  it.each(['constructor', '__proto__', 'toString', 'hasOwnProperty'])(
+    'rejects the object property name %s as a type',
+    (mimeType) => {
+      expect(() => validateUpload({ file_name: 'page.html', mime_type: mimeType, data: HTML.toString('base64') }))
+        .toThrow(expect.objectContaining({ code: 'INVALID_ATTACHMENT', statusCode: 400 }));
+    }
+  );
+});
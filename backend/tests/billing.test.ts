@@ -0,0 +1,150 @@
+import { pool, createSeededDatabase, closeTestDatabase } from './helpers/testDatabase';
+import { BillingLineInput, BillingRepository, PaymentData } from '../src/models/BillingRepository';
+import { PartsRepository } from '../src/models/PartsRepository';
+import { createInvoice, issueInvoice, recordPayment } from '../src/services/billing';
+
+jest.mock('../src/config/database', () => require('./helpers/testDatabase'));
+
+const ADMIN_USER_ID = 1;
+
+const line = (quantity: number, unitPrice: number, overrides: Partial<BillingLineInput> = {}): BillingLineInput => ({
+  line_type: 'other',
+  description: 'Work',
+  quantity,
+  unit_price: unitPrice,
+  ...overrides
+});
+
+const payment = (amount: number): PaymentData => ({
+  amount,
+  payment_date: null,
+  method: 'bank_transfer',
+  reference: null
+});
+
+describe('BillingRepository.priceLines', () => {
+  it('rounds each line to cents and totals the rounded amounts', () => {
+    const totals = BillingRepository.priceLines([line(3, 0.333), line(1.5, 10.01)], 0);
+
+    expect(totals.lines.map(priced => priced.amount)).toEqual([1, 15.02]);
+    expect(totals.subtotal).toBe(16.02);
+    expect(totals.tax_amount).toBe(0);
+    expect(totals.total).toBe(16.02);
+  });
+
+  it('adds tax on the subtotal, rounded to cents', () => {
+    const totals = BillingRepository.priceLines([line(1, 99.99), line(2, 0.5)], 8.25);
+
+    expect(totals.subtotal).toBe(100.99);
+    expect(totals.tax_amount).toBe(8.33);
+    expect(totals.total).toBe(109.32);
+  });
+
+  it('keeps the line details alongside the amount', () => {
+    const totals = BillingRepository.priceLines([line(2, 5, { line_type: 'part', part_id: 7 })], 0);
+
+    expect(totals.lines[0]).toEqual({ line_type: 'part', description: 'Work', quantity: 2, unit_price: 5, part_id: 7, amount: 10 });
+  });
+
+  it('prices an empty document at zero', () => {
+    expect(BillingRepository.priceLines([], 10)).toEqual({ lines: [], subtotal: 0, tax_amount: 0, total: 0 });
+  });
+});
+
+describe('billing service', () => {
+  let vendorId: number;
+  let otherVendorId: number;
+  let clientId: number;
+
+  const rentalInvoice = (lines: BillingLineInput[]) => createInvoice(vendorId, ADMIN_USER_ID, {
+    client_id: clientId,
+    period_start: '2025-11-01',
+    period_end: '2025-11-30',
+    due_date: null,
+    notes: null,
+    tax_rate: 0,
+    lines
+  });
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    await createSeededDatabase();
+
+    const assigned = await pool.query(
+      `SELECT vendor_id, assigned_to FROM equipment_instance
+       WHERE assigned_to IS NOT NULL AND vendor_id IS NOT NULL AND deleted_at IS NULL
+       ORDER BY id LIMIT 1`
+    );
+    vendorId = assigned.rows[0].vendor_id;
+    clientId = assigned.rows[0].assigned_to;
+    otherVendorId = (await pool.query(`SELECT id FROM vendors WHERE id <> $1 ORDER BY id LIMIT 1`, [vendorId])).rows[0].id;
+  });
+
+  afterAll(async () => {
+    await closeTestDatabase();
+    jest.restoreAllMocks();
+  });
+
+  describe('recordPayment', () => {
+    it('moves an issued invoice to partially paid and then paid', async () => {
+      const draft = await rentalInvoice([line(1, 100)]);
+
+      await expect(recordPayment(vendorId, draft.id, ADMIN_USER_ID, payment(10)))
+        .rejects.toMatchObject({ code: 'CONFLICT' });
+
+      await issueInvoice(vendorId, draft.id, ADMIN_USER_ID);
+
+      const partial = await recordPayment(vendorId, draft.id, ADMIN_USER_ID, payment(40));
+      expect(partial).toMatchObject({ status: 'partially_paid', amount_paid: 40, balance_due: 60, paid_at: null });
+
+      await expect(recordPayment(vendorId, draft.id, ADMIN_USER_ID, payment(60.01)))
+        .rejects.toMatchObject({ code: 'OVERPAYMENT' });
+
+      const paid = await recordPayment(vendorId, draft.id, ADMIN_USER_ID, payment(60));
+      expect(paid).toMatchObject({ status: 'paid', amount_paid: 100, balance_due: 0 });
+      expect(paid.paid_at).not.toBeNull();
+      expect(paid.payments).toHaveLength(2);
+
+      await expect(recordPayment(vendorId, draft.id, ADMIN_USER_ID, payment(1)))
+        .rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('pays an invoice in full with a single payment', async () => {
+      const draft = await rentalInvoice([line(2, 12.5)]);
+      await issueInvoice(vendorId, draft.id, ADMIN_USER_ID);
+
+      const paid = await recordPayment(vendorId, draft.id, ADMIN_USER_ID, payment(25));
+      expect(paid).toMatchObject({ status: 'paid', balance_due: 0 });
+    });
+
+    it("doesn't take payments on another vendor's invoice", async () => {
+      const draft = await rentalInvoice([line(1, 10)]);
+      await issueInvoice(vendorId, draft.id, ADMIN_USER_ID);
+
+      await expect(recordPayment(otherVendorId, draft.id, ADMIN_USER_ID, payment(10)))
+        .rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('part lines', () => {
+    it("accepts the vendor's own parts", async () => {
+      const partId = await PartsRepository.createPart(vendorId, {
+        part_number: 'BILL-SEAL', part_name: 'Valve seal', category: 'seal', unit: 'each', unit_cost: 3, reorder_level: 0
+      }, 0, ADMIN_USER_ID);
+
+      const invoice = await rentalInvoice([line(2, 3, { line_type: 'part', part_id: partId })]);
+      expect(invoice.lines[0].part_id).toBe(partId);
+    });
+
+    it("rejects another vendor's part and parts that don't exist", async () => {
+      const foreignPartId = await PartsRepository.createPart(otherVendorId, {
+        part_number: 'BILL-PIN', part_name: 'Safety pin', category: 'pin', unit: 'each', unit_cost: 1, reorder_level: 0
+      }, 0, ADMIN_USER_ID);
+
+      await expect(rentalInvoice([line(1, 1, { line_type: 'part', part_id: foreignPartId })]))
+        .rejects.toMatchObject({ code: 'INVALID_PART', statusCode: 400 });
+      await expect(rentalInvoice([line(1, 1, { line_type: 'part', part_id: 999999 })]))
+        .rejects.toMatchObject({ code: 'INVALID_PART', statusCode: 400 });
+    });
+  });
+});
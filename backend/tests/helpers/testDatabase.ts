@@ -0,0 +1,70 @@
+/**
+ * Test Database
+ * In-memory Postgres standing in for the pg pool, so repositories, the
+ * migration runner and the seed run against a real database in tests.
+ * Suites swap it in with:
+ *
+ *   jest.mock('../src/config/database', () => require('./helpers/testDatabase'));
+ */
+
+import { PGlite } from '@electric-sql/pglite';
+
+let db: PGlite | null = null;
+
+interface QueryResult {
+  rows: any[];
+  rowCount: number;
+}
+
+async function query(text: string, params?: unknown[]): Promise<QueryResult> {
+  if (!db) {
+    throw new Error('No test database; call createTestDatabase() first');
+  }
+
+  if (params && params.length > 0) {
+    const result = await db.query(text, params);
+    return { rows: result.rows, rowCount: result.affectedRows ?? result.rows.length };
+  }
+
+  // Without parameters the text may hold several statements, like schema.sql
+  const results = await db.exec(text);
+  const last = results[results.length - 1];
+  return { rows: last?.rows ?? [], rowCount: last?.affectedRows ?? last?.rows.length ?? 0 };
+}
+
+// Only one connection, so transactions on a checked-out client see each other's work
+export const pool = {
+  query,
+  connect: async () => ({ query, release: () => undefined }),
+  end: async () => undefined
+};
+
+/**
+ * Start a fresh, empty database for the suite
+ */
+export async function createTestDatabase(): Promise<void> {
+  await closeTestDatabase();
+  db = new PGlite();
+  await db.waitReady;
+}
+
+export async function closeTestDatabase(): Promise<void> {
+  if (db) {
+    await db.close();
+    db = null;
+  }
+}
+
+/**
+ * Fresh database set up the way `npm run db:init` does it: every migration,
+ * then the seed data
+ */
+export async function createSeededDatabase(): Promise<void> {
+  // Imported here so they pick up the mocked pool
+  const { runMigrations } = await import('../../src/scripts/migrate');
+  const { seedAll } = await import('../../src/scripts/seed');
+
+  await createTestDatabase();
+  await runMigrations();
+  await seedAll();
+}
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { pool, createTestDatabase, closeTestDatabase } from './helpers/testDatabase';
+import { ensureMigrationTable, recordMigration, runMigrations } from '../src/scripts/migrate';
+import { seedAll } from '../src/scripts/seed';
+
+jest.mock('../src/config/database', () => require('./helpers/testDatabase'));
+
+const SCRIPTS_DIR = path.join(__dirname, '../src/scripts');
+const MIGRATIONS = fs.readdirSync(path.join(SCRIPTS_DIR, 'migrations'))
+  .filter(file => file.endsWith('.sql'))
+  .map(file => file.replace('.sql', ''));
+
+async function rolePermissions(): Promise<Record<string, string[]>> {
+  const result = await pool.query(
+    `SELECT r.role_name, p.permission_name
+     FROM role r
+     JOIN role_permission rp ON rp.role_id = r.id
+     JOIN permission p ON p.id = rp.permission_id
+     ORDER BY r.role_name, p.permission_name`
+  );
+
+  const grants: Record<string, string[]> = {};
+  for (const row of result.rows) {
+    (grants[row.role_name] ||= []).push(row.permission_name);
+  }
+  return grants;
+}
+
+async function expectAllMigrationsApplied() {
+  const result = await pool.query(`SELECT migration_name, success FROM schema_migrations`);
+  const applied = result.rows.filter(row => row.success).map(row => row.migration_name);
+  const failed = result.rows.filter(row => !row.success).map(row => row.migration_name);
+
+  expect(failed).toEqual([]);
+  expect(applied).toEqual(expect.arrayContaining(['001_initial_schema', ...MIGRATIONS]));
+}
+
+describe('database migrations', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await closeTestDatabase();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('applies every migration to a database seeded before they existed', async () => {
+    await createTestDatabase();
+    await ensureMigrationTable();
+    await pool.query(fs.readFileSync(path.join(SCRIPTS_DIR, 'schema.sql'), 'utf-8'));
+    await recordMigration('001_initial_schema', 0);
+    await seedAll();
+
+    await runMigrations();
+
+    await expectAllMigrationsApplied();
+  });
+
+  it('seeds a freshly migrated database', async () => {
+    await createTestDatabase();
+    await runMigrations();
+
+    await expect(seedAll()).resolves.toBeUndefined();
+    await expectAllMigrationsApplied();
+  });
+
+  it('grants the same permissions whichever runs first', async () => {
+    await createTestDatabase();
+    await ensureMigrationTable();
+    await pool.query(fs.readFileSync(path.join(SCRIPTS_DIR, 'schema.sql'), 'utf-8'));
+    await recordMigration('001_initial_schema', 0);
+    await seedAll();
+    await runMigrations();
+    const seededFirst = await rolePermissions();
+
+    await createTestDatabase();
+    await runMigrations();
+    await seedAll();
+    const migratedFirst = await rolePermissions();
+
+    expect(migratedFirst).toEqual(seededFirst);
+    expect(seededFirst.technician).toEqual(['view_equipment', 'work_assigned_tickets']);
+    expect(seededFirst.vendor).toEqual(expect.arrayContaining([
+      'manage_technicians', 'manage_parts', 'manage_billing', 'manage_service_contracts'
+    ]));
+  });
+
+  it('leaves the role and permission sequences past the seeded ids', async () => {
+    await createTestDatabase();
+    await runMigrations();
+    await seedAll();
+
+    await expect(pool.query(
+      `INSERT INTO role (role_name, description) VALUES ('auditor', 'Read-only access') RETURNING id`
+    )).resolves.toBeDefined();
+    await expect(pool.query(
+      `INSERT INTO permission (permission_name, description, category) VALUES ('export_reports', 'Export reports', 'system') RETURNING id`
+    )).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,119 @@
+import { PoolClient } from 'pg';
+import { pool, createSeededDatabase, closeTestDatabase } from './helpers/testDatabase';
+import { PartData, PartsRepository, TicketPartLine } from '../src/models/PartsRepository';
+
+jest.mock('../src/config/database', () => require('./helpers/testDatabase'));
+
+const ADMIN_USER_ID = 1;
+
+const partData = (partNumber: string, overrides: Partial<PartData> = {}): PartData => ({
+  part_number: partNumber,
+  part_name: `Part ${partNumber}`,
+  category: 'seal',
+  unit: 'each',
+  unit_cost: 2.5,
+  reorder_level: 0,
+  ...overrides
+});
+
+async function stockOnHand(partId: number): Promise<number> {
+  const result = await pool.query(`SELECT quantity_on_hand::float AS quantity FROM part WHERE id = $1`, [partId]);
+  return result.rows[0].quantity;
+}
+
+/**
+ * Consume parts inside a transaction, the way resolving a ticket does
+ */
+async function consume(vendorId: number, ticketId: number, lines: TicketPartLine[]): Promise<void> {
+  const client = (await pool.connect()) as unknown as PoolClient;
+  await client.query('BEGIN');
+  try {
+    await PartsRepository.consumeForTicket(client, vendorId, ticketId, lines, ADMIN_USER_ID);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+describe('PartsRepository.consumeForTicket', () => {
+  let vendorId: number;
+  let otherVendorId: number;
+  let ticketId: number;
+  let sealId: number;
+  let pinId: number;
+  let otherVendorPartId: number;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    await createSeededDatabase();
+
+    const ticket = await pool.query(`SELECT id, vendor_id FROM maintenance_ticket WHERE vendor_id IS NOT NULL ORDER BY id LIMIT 1`);
+    ticketId = ticket.rows[0].id;
+    vendorId = ticket.rows[0].vendor_id;
+    otherVendorId = (await pool.query(`SELECT id FROM vendors WHERE id <> $1 ORDER BY id LIMIT 1`, [vendorId])).rows[0].id;
+
+    sealId = await PartsRepository.createPart(vendorId, partData('SEAL-1'), 10, ADMIN_USER_ID);
+    pinId = await PartsRepository.createPart(vendorId, partData('PIN-1', { category: 'pin', unit_cost: 0.75 }), 4, ADMIN_USER_ID);
+    otherVendorPartId = await PartsRepository.createPart(otherVendorId, partData('SEAL-X'), 10, ADMIN_USER_ID);
+  });
+
+  afterAll(async () => {
+    await closeTestDatabase();
+    jest.restoreAllMocks();
+  });
+
+  it('books the parts onto the ticket and takes them out of stock', async () => {
+    await consume(vendorId, ticketId, [
+      { part_id: sealId, quantity: 2 },
+      { part_id: pinId, quantity: 1 },
+      { part_id: sealId, quantity: 1 }
+    ]);
+
+    expect(await stockOnHand(sealId)).toBe(7);
+    expect(await stockOnHand(pinId)).toBe(3);
+
+    const used = await PartsRepository.getTicketParts(ticketId);
+    expect(used.map(part => [part.part_id, Number(part.quantity), Number(part.unit_cost)])).toEqual(
+      expect.arrayContaining([[sealId, 3, 2.5], [pinId, 1, 0.75]])
+    );
+
+    const movements = await PartsRepository.getMovements(sealId, vendorId);
+    expect(movements[0]).toMatchObject({ movement_type: 'used', ticket_id: ticketId });
+    expect(Number(movements[0].quantity)).toBe(-3);
+    expect(Number(movements[0].quantity_after)).toBe(7);
+  });
+
+  it('adds to the quantity when the same part is used again on the ticket', async () => {
+    await consume(vendorId, ticketId, [{ part_id: pinId, quantity: 2 }]);
+
+    const pin = (await PartsRepository.getTicketParts(ticketId)).find(part => part.part_id === pinId);
+    expect(Number(pin!.quantity)).toBe(3);
+    expect(await stockOnHand(pinId)).toBe(1);
+  });
+
+  it("rejects another vendor's part", async () => {
+    await expect(consume(vendorId, ticketId, [{ part_id: otherVendorPartId, quantity: 1 }]))
+      .rejects.toThrow('One or more parts were not found');
+    expect(await stockOnHand(otherVendorPartId)).toBe(10);
+  });
+
+  it('rejects an inactive part', async () => {
+    await PartsRepository.updatePart(pinId, vendorId, { is_active: false });
+
+    await expect(consume(vendorId, ticketId, [{ part_id: pinId, quantity: 1 }]))
+      .rejects.toThrow('is no longer in use');
+
+    await PartsRepository.updatePart(pinId, vendorId, { is_active: true });
+  });
+
+  it('takes nothing out of stock when any part is short', async () => {
+    await expect(consume(vendorId, ticketId, [
+      { part_id: sealId, quantity: 1 },
+      { part_id: pinId, quantity: 5 }
+    ])).rejects.toThrow('Not enough Part PIN-1 in stock');
+
+    expect(await stockOnHand(sealId)).toBe(7);
+    expect(await stockOnHand(pinId)).toBe(1);
+  });
+});
@@ -0,0 +1,182 @@
+import { pool, createSeededDatabase, closeTestDatabase } from './helpers/testDatabase';
+import { ServiceContractRepository } from '../src/models/ServiceContractRepository';
+
+jest.mock('../src/config/database', () => require('./helpers/testDatabase'));
+
+const OPENED_AT = '2026-03-02T09:00:00Z';
+
+interface TicketSla {
+  service_contract_id: number | null;
+  response_hours: number | null;
+  resolution_hours: number | null;
+  responded_at: string | null;
+}
+
+describe('set_ticket_sla trigger', () => {
+  let vendorId: number;
+  let otherVendorId: number;
+  let clientId: number;
+  let vendorUserId: number;
+  let instanceId: number;
+  let otherInstanceId: number;
+  let ticketCount = 0;
+
+  async function createContract(
+    targets: Record<string, [number, number]>,
+    options: { equipment?: number[]; start?: string; end?: string | null; active?: boolean; vendor?: number } = {}
+  ): Promise<number> {
+    const result = await pool.query(
+      `INSERT INTO service_contract (vendor_id, client_id, contract_name, start_date, end_date, covers_all_equipment, is_active)
+       VALUES ($1, $2, 'Test contract', $3, $4, $5, $6)
+       RETURNING id`,
+      [options.vendor ?? vendorId, clientId, options.start ?? '2026-01-01', options.end ?? null, !options.equipment, options.active ?? true]
+    );
+    const contractId = result.rows[0].id;
+
+    for (const [priority, [response, resolution]] of Object.entries(targets)) {
+      await pool.query(
+        `INSERT INTO service_contract_sla (contract_id, priority, response_hours, resolution_hours) VALUES ($1, $2, $3, $4)`,
+        [contractId, priority, response, resolution]
+      );
+    }
+    for (const equipmentId of options.equipment || []) {
+      await pool.query(
+        `INSERT INTO service_contract_equipment (contract_id, equipment_instance_id) VALUES ($1, $2)`,
+        [contractId, equipmentId]
+      );
+    }
+    return contractId;
+  }
+
+  async function openTicket(
+    priority: string,
+    equipmentId: number = instanceId,
+    vendor: number = vendorId,
+    openedAt: string = OPENED_AT
+  ): Promise<number> {
+    ticketCount++;
+    const result = await pool.query(
+      `INSERT INTO maintenance_ticket (ticket_number, equipment_instance_id, client_id, vendor_id, issue_description, priority, created_at)
+       VALUES ($1, $2, $3, $4, 'Pressure low', $5, $6)
+       RETURNING id`,
+      [`SLA-TEST-${ticketCount}`, equipmentId, clientId, vendor, priority, openedAt]
+    );
+    return result.rows[0].id;
+  }
+
+  async function ticketSla(ticketId: number): Promise<TicketSla> {
+    const result = await pool.query(
+      `SELECT service_contract_id,
+              (EXTRACT(EPOCH FROM response_due_at - created_at) / 3600)::float AS response_hours,
+              (EXTRACT(EPOCH FROM resolution_due_at - created_at) / 3600)::float AS resolution_hours,
+              responded_at
+       FROM maintenance_ticket WHERE id = $1`,
+      [ticketId]
+    );
+    return result.rows[0];
+  }
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    await createSeededDatabase();
+
+    const instances = await pool.query(
+      `SELECT ei.id, ei.vendor_id, ei.assigned_to, v.user_id
+       FROM equipment_instance ei
+       JOIN vendors v ON ei.vendor_id = v.id
+       WHERE (ei.vendor_id, ei.assigned_to) = (
+         SELECT vendor_id, assigned_to FROM equipment_instance
+         WHERE assigned_to IS NOT NULL AND vendor_id IS NOT NULL
+         GROUP BY vendor_id, assigned_to HAVING COUNT(*) > 1
+         ORDER BY vendor_id, assigned_to LIMIT 1
+       )
+       ORDER BY ei.id LIMIT 2`
+    );
+    [instanceId, otherInstanceId] = instances.rows.map(row => row.id);
+    vendorId = instances.rows[0].vendor_id;
+    clientId = instances.rows[0].assigned_to;
+    vendorUserId = instances.rows[0].user_id;
+    otherVendorId = (await pool.query(`SELECT id FROM vendors WHERE id <> $1 ORDER BY id LIMIT 1`, [vendorId])).rows[0].id;
+  });
+
+  beforeEach(async () => {
+    await pool.query(`DELETE FROM service_contract`);
+  });
+
+  afterAll(async () => {
+    await closeTestDatabase();
+    jest.restoreAllMocks();
+  });
+
+  it("sets due-by times from the contract's targets for the ticket's priority", async () => {
+    const contractId = await createContract({ high: [4, 24], normal: [24, 72] });
+
+    expect(await ticketSla(await openTicket('high'))).toMatchObject({
+      service_contract_id: contractId, response_hours: 4, resolution_hours: 24, responded_at: null
+    });
+    expect(await ticketSla(await openTicket('normal'))).toMatchObject({
+      service_contract_id: contractId, response_hours: 24, resolution_hours: 72
+    });
+  });
+
+  it('leaves tickets without a target for their priority untracked', async () => {
+    await createContract({ high: [4, 24] });
+
+    expect(await ticketSla(await openTicket('low'))).toMatchObject({
+      service_contract_id: null, response_hours: null, resolution_hours: null
+    });
+  });
+
+  it('ignores inactive contracts, contracts outside their term and other vendors', async () => {
+    await createContract({ high: [4, 24] }, { active: false });
+    await createContract({ high: [4, 24] }, { start: '2026-04-01' });
+    await createContract({ high: [4, 24] }, { start: '2025-01-01', end: '2026-03-01' });
+    await createContract({ high: [4, 24] }, { vendor: otherVendorId });
+
+    expect((await ticketSla(await openTicket('high'))).service_contract_id).toBeNull();
+  });
+
+  it('prefers a contract naming the instance over a blanket one', async () => {
+    await createContract({ high: [8, 48] });
+    const namedId = await createContract({ high: [2, 12] }, { equipment: [instanceId] });
+
+    expect(await ticketSla(await openTicket('high'))).toMatchObject({
+      service_contract_id: namedId, response_hours: 2, resolution_hours: 12
+    });
+    expect(await ticketSla(await openTicket('high', otherInstanceId))).toMatchObject({
+      response_hours: 8, resolution_hours: 48
+    });
+  });
+
+  it('recalculates from the opening time when the priority changes', async () => {
+    await createContract({ high: [4, 24], low: [48, 240] });
+    const ticketId = await openTicket('low');
+
+    await pool.query(`UPDATE maintenance_ticket SET priority = 'high' WHERE id = $1`, [ticketId]);
+
+    expect(await ticketSla(ticketId)).toMatchObject({ response_hours: 4, resolution_hours: 24 });
+  });
+
+  it("includes tickets raised at any time on the report's last day", async () => {
+    await createContract({ high: [4, 24] });
+    await openTicket('high', instanceId, vendorId, '2026-03-31 00:00:00');
+    await openTicket('high', instanceId, vendorId, '2026-03-31 23:30:00');
+    await openTicket('high', instanceId, vendorId, '2026-04-01 00:00:00');
+
+    const summary = await ServiceContractRepository.getClientSlaSummary(clientId, vendorId, '2026-03-15', '2026-03-31');
+
+    expect(summary.tickets_with_sla).toBe(2);
+  });
+
+  it('counts the ticket as responded to once a technician is assigned or it leaves open', async () => {
+    await createContract({ high: [4, 24] });
+    const assignedId = await openTicket('high');
+    const resolvedId = await openTicket('high');
+
+    await pool.query(`UPDATE maintenance_ticket SET assigned_technician = $2 WHERE id = $1`, [assignedId, vendorUserId]);
+    await pool.query(`UPDATE maintenance_ticket SET ticket_status = 'resolved' WHERE id = $1`, [resolvedId]);
+
+    expect((await ticketSla(assignedId)).responded_at).not.toBeNull();
+    expect((await ticketSla(resolvedId)).responded_at).not.toBeNull();
+  });
+});
@@ -0,0 +1,664 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorDisplay from '@/components/ui/ErrorDisplay';
+import RequireRole from '@/components/auth/RequireRole';
+import BillingDocumentModal from '@/components/modals/BillingDocumentModal';
+import PaymentModal from '@/components/modals/PaymentModal';
+import PriceListItemModal from '@/components/modals/PriceListItemModal';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import {
+  INVOICE_STATUS_STYLES,
+  Invoice,
+  InvoiceStatus,
+  PriceListItem,
+  QUOTE_STATUS_STYLES,
+  Quote,
+  RATE_TYPE_LABELS,
+  billingRequest,
+  downloadBillingPdf,
+  formatMoney
+} from '@/components/billing/billing';
+import { BanknotesIcon, PlusIcon, ChevronDownIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+
+// Types
+interface RevenueMonth {
+  month: string;
+  equipment_revenue: number;
+  maintenance_revenue: number;
+  total_revenue: number;
+}
+
+interface RevenueByClient {
+  id: number;
+  company_name: string;
+  invoices_count: number;
+  total_revenue: number;
+  collected: number;
+  outstanding: number;
+}
+
+interface Receivables {
+  open_invoices: number;
+  outstanding: number;
+  overdue_invoices: number;
+  overdue: number;
+  collected_this_month: number;
+}
+
+type Tab = 'invoices' | 'quotes' | 'price-list' | 'revenue';
+
+const headerCell = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100';
+
+export default function BillingPage() {
+  const { showToast } = useToast();
+  const { confirm } = useConfirmModal();
+
+  const [activeTab, setActiveTab] = useState<Tab>('invoices');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [invoiceStatus, setInvoiceStatus] = useState<string>('all');
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [priceList, setPriceList] = useState<PriceListItem[]>([]);
+  const [receivables, setReceivables] = useState<Receivables | null>(null);
+
+  const [revenue, setRevenue] = useState<RevenueMonth[]>([]);
+  const [revenueByClient, setRevenueByClient] = useState<RevenueByClient[]>([]);
+  const [dateRange, setDateRange] = useState({
+    start: new Date(new Date().getFullYear(), 0, 1).toLocaleDateString('en-CA'),
+    end: new Date().toLocaleDateString('en-CA')
+  });
+
+  const [showRentalModal, setShowRentalModal] = useState(false);
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [paymentInvoice, setPaymentInvoice] = useState<Invoice | null>(null);
+  const [showRateModal, setShowRateModal] = useState(false);
+  const [editingRate, setEditingRate] = useState<PriceListItem | null>(null);
+
+  const fetchReport = async <T,>(url: string): Promise<T> => {
+    logApiCall('GET', url);
+    const response = await fetch(url, { headers: getAuthHeaders() });
+    if (!response.ok) throw new Error('Failed to fetch revenue');
+    const data = await response.json();
+    return data.data;
+  };
+
+  const fetchInvoices = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (invoiceStatus === 'overdue') params.append('overdue', 'true');
+      else if (invoiceStatus !== 'all') params.append('status', invoiceStatus);
+
+      const [invoiceList, summary] = await Promise.all([
+        billingRequest<Invoice[]>(`${API_ENDPOINTS.BILLING.INVOICES}?${params}`),
+        fetchReport<Receivables>(API_ENDPOINTS.REPORTS.RECEIVABLES)
+      ]);
+      setInvoices(invoiceList);
+      setReceivables(summary);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch invoices');
+    }
+  }, [invoiceStatus]);
+
+  const fetchQuotes = useCallback(async () => {
+    try {
+      setQuotes(await billingRequest<Quote[]>(API_ENDPOINTS.BILLING.QUOTES));
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to fetch quotes');
+    }
+  }, [showToast]);
+
+  const fetchPriceList = useCallback(async () => {
+    try {
+      setPriceList(await billingRequest<PriceListItem[]>(API_ENDPOINTS.BILLING.PRICE_LIST));
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to fetch price list');
+    }
+  }, [showToast]);
+
+  const fetchRevenue = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ startDate: dateRange.start, endDate: dateRange.end });
+      const [months, clients] = await Promise.all([
+        fetchReport<RevenueMonth[]>(API_ENDPOINTS.REPORTS.REVENUE_ANALYTICS),
+        fetchReport<RevenueByClient[]>(`${API_ENDPOINTS.REPORTS.REVENUE_BY_CLIENT}?${params}`)
+      ]);
+      setRevenue(months);
+      setRevenueByClient(clients);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to fetch revenue');
+    }
+  }, [dateRange, showToast]);
+
+  // Only the first load blanks the page so the filter keeps focus while refetching
+  useEffect(() => {
+    const loadData = async () => {
+      await fetchInvoices();
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [fetchInvoices]);
+
+  useEffect(() => {
+    if (activeTab === 'quotes') fetchQuotes();
+    if (activeTab === 'price-list') fetchPriceList();
+    if (activeTab === 'revenue') fetchRevenue();
+  }, [activeTab, fetchQuotes, fetchPriceList, fetchRevenue]);
+
+  const runInvoiceAction = async (invoice: Invoice, action: 'issue' | 'void') => {
+    const issuing = action === 'issue';
+    const confirmed = await confirm({
+      title: issuing ? 'Issue Invoice' : 'Void Invoice',
+      message: issuing
+        ? `Issue ${invoice.invoice_number} for ${formatMoney(invoice.total)} to ${invoice.client_name}? It can't be edited once issued.`
+        : `Void ${invoice.invoice_number}? It will no longer count towards revenue or be payable.`,
+      confirmText: issuing ? 'Issue' : 'Void',
+      type: issuing ? undefined : 'danger'
+    });
+    if (!confirmed) return;
+
+    setBusyKey(`invoice-${invoice.id}`);
+    try {
+      await billingRequest(
+        issuing ? API_ENDPOINTS.BILLING.INVOICE_ISSUE(invoice.id) : API_ENDPOINTS.BILLING.INVOICE_VOID(invoice.id),
+        'POST',
+        {}
+      );
+      showToast('success', issuing ? 'Invoice issued to client' : 'Invoice voided');
+      await fetchInvoices();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to update invoice');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDeleteRate = async (item: PriceListItem) => {
+    const confirmed = await confirm({
+      title: 'Remove Rate',
+      message: `Remove "${item.description}" from your price list? Existing quotes and invoices keep their prices.`,
+      confirmText: 'Remove',
+      type: 'danger'
+    });
+    if (!confirmed) return;
+
+    try {
+      await billingRequest(API_ENDPOINTS.BILLING.PRICE_LIST_ITEM(item.id), 'DELETE');
+      showToast('success', 'Rate removed');
+      await fetchPriceList();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to remove rate');
+    }
+  };
+
+  const handleDownload = async (kind: 'quote' | 'invoice', id: number, documentNumber: string) => {
+    setBusyKey(`${kind}-pdf-${id}`);
+    try {
+      await downloadBillingPdf(kind, id, documentNumber);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Download failed');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const formatMonth = (month: string) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { year: 'numeric', month: 'short' });
+  };
+
+  if (isLoading) {
+    return (
+      <RequireRole allowedRoles={['vendor']}>
+        <DashboardLayout>
+          <div className="flex items-center justify-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  if (error) {
+    return (
+      <RequireRole allowedRoles={['vendor']}>
+        <DashboardLayout>
+          <ErrorDisplay message={error} />
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  return (
+    <RequireRole allowedRoles={['vendor']}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Page Header */}
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <div className="flex-shrink-0">
+                <BanknotesIcon className="h-8 w-8 text-gray-900" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Billing</h1>
+                <p className="text-gray-600 mt-1">Quotes, invoices, payments and your price list</p>
+              </div>
+            </div>
+            {activeTab === 'price-list' ? (
+              <button
+                onClick={() => { setEditingRate(null); setShowRateModal(true); }}
+                className="btn-primary flex items-center space-x-2"
+              >
+                <PlusIcon className="h-5 w-5" />
+                <span>Add Rate</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => setShowRentalModal(true)}
+                className="btn-primary flex items-center space-x-2"
+              >
+                <PlusIcon className="h-5 w-5" />
+                <span>Rental Invoice</span>
+              </button>
+            )}
+          </div>
+
+          {/* Receivables */}
+          {receivables && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="bg-white rounded-2xl border border-gray-100 p-5">
+                <p className="text-sm text-gray-600">Outstanding</p>
+                <p className="text-2xl font-bold text-gray-900">{formatMoney(receivables.outstanding)}</p>
+                <p className="text-xs text-gray-500">{receivables.open_invoices} open invoice(s)</p>
+              </div>
+              <div className="bg-white rounded-2xl border border-gray-100 p-5">
+                <p className="text-sm text-gray-600">Overdue</p>
+                <p className={`text-2xl font-bold ${receivables.overdue > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {formatMoney(receivables.overdue)}
+                </p>
+                <p className="text-xs text-gray-500">{receivables.overdue_invoices} invoice(s) past due</p>
+              </div>
+              <div className="bg-white rounded-2xl border border-gray-100 p-5">
+                <p className="text-sm text-gray-600">Collected this month</p>
+                <p className="text-2xl font-bold text-green-600">{formatMoney(receivables.collected_this_month)}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Tabs */}
+          <div className="border-b border-gray-200">
+            <nav className="-mb-px flex space-x-8">
+              {([['invoices', 'Invoices'], ['quotes', 'Quotes'], ['price-list', 'Price List'], ['revenue', 'Revenue']] as const).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === tab
+                      ? 'border-red-500 text-red-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </nav>
+          </div>
+
+          {activeTab === 'invoices' && (
+            <div className="bg-white rounded-2xl border border-gray-100">
+              <div className="px-6 py-4 border-b border-gray-100 flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-lg font-semibold text-gray-900">Invoices ({invoices.length})</h2>
+                <div className="relative">
+                  <select
+                    value={invoiceStatus}
+                    onChange={(e) => setInvoiceStatus(e.target.value)}
+                    className="input-field appearance-none pr-8 min-w-[160px]"
+                  >
+                    <option value="all">All Invoices</option>
+                    <option value="overdue">Overdue</option>
+                    {(Object.keys(INVOICE_STATUS_STYLES) as InvoiceStatus[]).map(status => (
+                      <option key={status} value={status}>{INVOICE_STATUS_STYLES[status].label}</option>
+                    ))}
+                  </select>
+                  <ChevronDownIcon className="h-4 w-4 absolute right-2 top-3 text-gray-400 pointer-events-none" />
+                </div>
+              </div>
+
+              {invoices.length === 0 ? (
+                <div className="text-center py-12">
+                  <BanknotesIcon className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                  <p className="text-gray-600">No invoices found. Invoice resolved tickets from the ticket page, or bill rentals here.</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className={headerCell}>Invoice</th>
+                        <th className={headerCell}>Client</th>
+                        <th className={headerCell}>Status</th>
+                        <th className={headerCell}>Due</th>
+                        <th className={headerCell}>Total</th>
+                        <th className={headerCell}>Balance</th>
+                        <th className={headerCell}>Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white">
+                      {invoices.map((invoice) => {
+                        const style = invoice.is_overdue
+                          ? { label: 'Overdue', badge: 'bg-red-100 text-red-800' }
+                          : INVOICE_STATUS_STYLES[invoice.status];
+                        const busy = busyKey === `invoice-${invoice.id}`;
+                        return (
+                          <tr key={invoice.id} className="border-b border-gray-100 hover:bg-gray-50 transition-colors">
+                            <td className="px-6 py-4">
+                              <div className="text-sm font-medium text-gray-900">{invoice.invoice_number}</div>
+                              <div className="text-sm text-gray-500">
+                                {invoice.ticket_id ? (
+                                  <Link href={`/maintenance-tickets/${invoice.ticket_id}`} className="hover:text-red-600">
+                                    {invoice.ticket_number}
+                                  </Link>
+                                ) : invoice.period_start && `Rental ${invoice.period_start} to ${invoice.period_end}`}
+                              </div>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">{invoice.client_name}</td>
+                            <td className="px-6 py-4">
+                              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${style.badge}`}>
+                                {style.label}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">{invoice.due_date || '-'}</td>
+                            <td className="px-6 py-4 text-sm text-gray-900">{formatMoney(invoice.total)}</td>
+                            <td className="px-6 py-4 text-sm text-gray-900">{formatMoney(invoice.balance_due)}</td>
+                            <td className="px-6 py-4">
+                              <div className="flex items-center space-x-3 text-sm font-medium">
+                                {invoice.status === 'draft' && (
+                                  <>
+                                    <button onClick={() => setEditingInvoice(invoice)} className="text-gray-600 hover:text-gray-900">
+                                      Edit
+                                    </button>
+                                    <button onClick={() => runInvoiceAction(invoice, 'issue')} disabled={busy} className="text-red-600 hover:text-red-800 disabled:opacity-50">
+                                      Issue
+                                    </button>
+                                  </>
+                                )}
+                                {(invoice.status === 'issued' || invoice.status === 'partially_paid') && (
+                                  <button onClick={() => setPaymentInvoice(invoice)} className="text-green-600 hover:text-green-800">
+                                    Record Payment
+                                  </button>
+                                )}
+                                {(invoice.status === 'draft' || invoice.status === 'issued') && invoice.amount_paid === 0 && (
+                                  <button onClick={() => runInvoiceAction(invoice, 'void')} disabled={busy} className="text-gray-500 hover:text-red-800 disabled:opacity-50">
+                                    Void
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => handleDownload('invoice', invoice.id, invoice.invoice_number)}
+                                  disabled={busyKey === `invoice-pdf-${invoice.id}`}
+                                  className="text-gray-400 hover:text-gray-700 disabled:opacity-50"
+                                  aria-label={`Download ${invoice.invoice_number}`}
+                                >
+                                  <ArrowDownTrayIcon className="h-5 w-5" />
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'quotes' && (
+            <div className="bg-white rounded-2xl border border-gray-100">
+              <div className="px-6 py-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">Quotes ({quotes.length})</h2>
+                <p className="text-sm text-gray-500">Quotes are raised and sent from the ticket they are for.</p>
+              </div>
+
+              {quotes.length === 0 ? (
+                <p className="px-6 py-8 text-center text-gray-600">No quotes yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className={headerCell}>Quote</th>
+                        <th className={headerCell}>Client</th>
+                        <th className={headerCell}>Status</th>
+                        <th className={headerCell}>Valid Until</th>
+                        <th className={headerCell}>Total</th>
+                        <th className={headerCell}>Invoice</th>
+                        <th className={headerCell}></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white">
+                      {quotes.map((quote) => {
+                        const style = quote.is_expired
+                          ? { label: 'Expired', badge: 'bg-gray-200 text-gray-600' }
+                          : QUOTE_STATUS_STYLES[quote.status];
+                        return (
+                          <tr key={quote.id} className="border-b border-gray-100 hover:bg-gray-50 transition-colors">
+                            <td className="px-6 py-4">
+                              <div className="text-sm font-medium text-gray-900">{quote.quote_number}</div>
+                              {quote.ticket_id && (
+                                <Link href={`/maintenance-tickets/${quote.ticket_id}`} className="text-sm text-gray-500 hover:text-red-600">
+                                  {quote.ticket_number}
+                                </Link>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">{quote.client_name}</td>
+                            <td className="px-6 py-4">
+                              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${style.badge}`}>
+                                {style.label}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">{quote.valid_until || '-'}</td>
+                            <td className="px-6 py-4 text-sm text-gray-900">{formatMoney(quote.total)}</td>
+                            <td className="px-6 py-4 text-sm text-gray-900">{quote.invoice_number || '-'}</td>
+                            <td className="px-6 py-4">
+                              <button
+                                onClick={() => handleDownload('quote', quote.id, quote.quote_number)}
+                                disabled={busyKey === `quote-pdf-${quote.id}`}
+                                className="text-gray-400 hover:text-gray-700 disabled:opacity-50"
+                                aria-label={`Download ${quote.quote_number}`}
+                              >
+                                <ArrowDownTrayIcon className="h-5 w-5" />
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'price-list' && (
+            <div className="bg-white rounded-2xl border border-gray-100">
+              <div className="px-6 py-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">Price List ({priceList.length})</h2>
+                <p className="text-sm text-gray-500">
+                  Rates can apply to one equipment type or service category, or to everything when left blank.
+                </p>
+              </div>
+
+              {priceList.length === 0 ? (
+                <p className="px-6 py-8 text-center text-gray-600">No rates yet. Add labour, call-out and rental rates to price quotes and invoices.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className={headerCell}>Rate</th>
+                        <th className={headerCell}>Type</th>
+                        <th className={headerCell}>Equipment Type</th>
+                        <th className={headerCell}>Service Category</th>
+                        <th className={headerCell}>Price</th>
+                        <th className={headerCell}>Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white">
+                      {priceList.map((item) => (
+                        <tr key={item.id} className="border-b border-gray-100 hover:bg-gray-50 transition-colors">
+                          <td className="px-6 py-4 text-sm font-medium text-gray-900">{item.description}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{RATE_TYPE_LABELS[item.rate_type]}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{item.equipment_type || 'Any'}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            {item.rate_type === 'rental' ? '-' : item.service_category || 'Any'}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{formatMoney(item.unit_price)}</td>
+                          <td className="px-6 py-4">
+                            <div className="flex items-center space-x-3 text-sm font-medium">
+                              <button
+                                onClick={() => { setEditingRate(item); setShowRateModal(true); }}
+                                className="text-gray-600 hover:text-gray-900"
+                              >
+                                Edit
+                              </button>
+                              <button onClick={() => handleDeleteRate(item)} className="text-gray-500 hover:text-red-800">
+                                Remove
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'revenue' && (
+            <div className="space-y-6">
+              <div className="bg-white rounded-2xl border border-gray-100">
+                <div className="px-6 py-4 border-b border-gray-100">
+                  <h2 className="text-lg font-semibold text-gray-900">Invoiced Revenue by Month</h2>
+                  <p className="text-sm text-gray-500">Issued invoices before tax, by issue date</p>
+                </div>
+                <div className="p-6 h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={revenue.map(month => ({
+                      name: formatMonth(month.month),
+                      Rentals: month.equipment_revenue,
+                      Maintenance: month.maintenance_revenue
+                    }))}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="name" fontSize={12} />
+                      <YAxis />
+                      <Tooltip formatter={(value) => formatMoney(Number(value))} />
+                      <Legend />
+                      <Bar dataKey="Rentals" stackId="a" fill="#2563EB" />
+                      <Bar dataKey="Maintenance" stackId="a" fill="#DC2626" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-2xl border border-gray-100">
+                <div className="px-6 py-4 border-b border-gray-100 flex flex-wrap items-end justify-between gap-4">
+                  <h2 className="text-lg font-semibold text-gray-900">Revenue by Client</h2>
+                  <div className="flex items-end gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                      <input
+                        type="date"
+                        value={dateRange.start}
+                        onChange={(e) => setDateRange(prev => ({ ...prev, start: e.target.value }))}
+                        className="input-field"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                      <input
+                        type="date"
+                        value={dateRange.end}
+                        onChange={(e) => setDateRange(prev => ({ ...prev, end: e.target.value }))}
+                        className="input-field"
+                      />
+                    </div>
+                  </div>
+                </div>
+                {revenueByClient.length === 0 ? (
+                  <p className="px-6 py-8 text-center text-gray-600">Nothing was invoiced in this period.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className={headerCell}>Client</th>
+                          <th className={headerCell}>Invoices</th>
+                          <th className={headerCell}>Invoiced</th>
+                          <th className={headerCell}>Collected</th>
+                          <th className={headerCell}>Outstanding</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white">
+                        {revenueByClient.map((client) => (
+                          <tr key={client.id} className="border-b border-gray-100">
+                            <td className="px-6 py-4 text-sm font-medium text-gray-900">{client.company_name}</td>
+                            <td className="px-6 py-4 text-sm text-gray-900">{client.invoices_count}</td>
+                            <td className="px-6 py-4 text-sm text-gray-900">{formatMoney(client.total_revenue)}</td>
+                            <td className="px-6 py-4 text-sm text-green-600">{formatMoney(client.collected)}</td>
+                            <td className="px-6 py-4 text-sm text-gray-900">{formatMoney(client.outstanding)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <BillingDocumentModal
+          isOpen={showRentalModal || editingInvoice !== null}
+          kind="invoice"
+          document={editingInvoice}
+          onClose={() => { setShowRentalModal(false); setEditingInvoice(null); }}
+          onSaved={fetchInvoices}
+        />
+
+        <PaymentModal
+          invoice={paymentInvoice}
+          onClose={() => setPaymentInvoice(null)}
+          onSaved={fetchInvoices}
+        />
+
+        <PriceListItemModal
+          isOpen={showRateModal}
+          item={editingRate}
+          onClose={() => setShowRateModal(false)}
+          onSaved={fetchPriceList}
+        />
+      </DashboardLayout>
+    </RequireRole>
+  );
+}
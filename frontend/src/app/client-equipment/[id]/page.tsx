@@ -7,6 +7,9 @@ import DashboardLayout from '@/components/layout/DashboardLayout';
 import RequireRole from '@/components/auth/RequireRole';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorDisplay from '@/components/ui/ErrorDisplay';
+import FailedInspectionItems, { FailedInspectionItem } from '@/components/maintenance/FailedInspectionItems';
+import ReturnRequestModal from '@/components/modals/ReturnRequestModal';
+import InstanceLifecycleModal from '@/components/modals/InstanceLifecycleModal';
 import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
 import { 
   FireIcon,
@@ -22,7 +25,8 @@ import {
   DocumentTextIcon,
   TagIcon,
   CubeIcon,
-  ClipboardDocumentCheckIcon
+  ClipboardDocumentCheckIcon,
+  ArrowPathIcon
 } from '@heroicons/react/24/outline';
 
 // Types
@@ -53,6 +57,7 @@ interface EquipmentDetail {
   // Arrays
   instances: InstanceData[];
   maintenance_history: MaintenanceData[];
+  failed_inspection_items?: FailedInspectionItem[];
 }
 
 interface InstanceData {
@@ -60,6 +65,8 @@ interface InstanceData {
   serial_number: string;
   asset_tag: string;
   location: string;
+  site_name: string | null;
+  zone_path: string | null;
   compliance_status: string;
   next_maintenance_date: string;
   days_until_maintenance: number;
@@ -95,6 +102,9 @@ const ClientEquipmentDetailPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
+  const [selectedInstanceIds, setSelectedInstanceIds] = useState<number[]>([]);
+  const [showReturnModal, setShowReturnModal] = useState(false);
+  const [historyInstance, setHistoryInstance] = useState<{ id: number; serial_number: string } | null>(null);
 
   // Fetch equipment detail
   const fetchEquipmentDetail = async () => {
@@ -142,6 +152,32 @@ const ClientEquipmentDetailPage: React.FC = () => {
     }
   }, [equipmentId]);
 
+  // Units still waiting on their assignment can't be sent back yet
+  const canReturn = (instance: InstanceData) => instance.assignment_status !== 'pending';
+
+  const toggleSelected = (instanceId: number) => {
+    setSelectedInstanceIds(prev =>
+      prev.includes(instanceId) ? prev.filter(id => id !== instanceId) : [...prev, instanceId]
+    );
+  };
+
+  const handleReturnSubmitted = () => {
+    setShowReturnModal(false);
+    setSelectedInstanceIds([]);
+  };
+
+  // Site on the first line, then building / floor / room and the location details
+  const renderPlacement = (instance: InstanceData) => (
+    <>
+      <div className="text-sm text-gray-900">{instance.site_name || instance.location}</div>
+      {instance.site_name && (instance.zone_path || instance.location) && (
+        <div className="text-xs text-gray-500">
+          {[instance.zone_path, instance.location].filter(Boolean).join(' · ')}
+        </div>
+      )}
+    </>
+  );
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'compliant':
@@ -284,6 +320,9 @@ const ClientEquipmentDetailPage: React.FC = () => {
               {/* Overview Tab */}
               {activeTab === 'overview' && (
                 <div className="space-y-8">
+                  {/* Failed Inspection Items */}
+                  <FailedInspectionItems items={equipmentDetail?.failed_inspection_items || []} />
+
                   {/* Basic Information */}
                   <div>
                     <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
@@ -390,6 +429,14 @@ const ClientEquipmentDetailPage: React.FC = () => {
                     <h3 className="text-lg font-medium text-gray-900">
                       Equipment Assignments ({equipmentDetail?.instances?.length || 0})
                     </h3>
+                    <button
+                      onClick={() => setShowReturnModal(true)}
+                      disabled={selectedInstanceIds.length === 0}
+                      className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+                    >
+                      <ArrowPathIcon className="h-5 w-5" />
+                      <span>Return / Swap{selectedInstanceIds.length > 0 ? ` (${selectedInstanceIds.length})` : ''}</span>
+                    </button>
                   </div>
                   
                   {equipmentDetail?.instances && equipmentDetail.instances.length > 0 ? (
@@ -397,6 +444,9 @@ const ClientEquipmentDetailPage: React.FC = () => {
                       <table className="min-w-full">
                         <thead>
                           <tr className="border-b border-gray-200">
+                            <th className="pl-6 py-3 w-4">
+                              <span className="sr-only">Select</span>
+                            </th>
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                               Serial Number
                             </th>
@@ -426,14 +476,29 @@ const ClientEquipmentDetailPage: React.FC = () => {
                         <tbody className="divide-y divide-gray-200">
                           {equipmentDetail.instances.map((instance, index) => (
                             <tr key={index} className="hover:bg-gray-50">
+                              <td className="pl-6 py-4">
+                                <input
+                                  type="checkbox"
+                                  checked={selectedInstanceIds.includes(instance.instance_id)}
+                                  onChange={() => toggleSelected(instance.instance_id)}
+                                  disabled={!canReturn(instance)}
+                                  aria-label={`Select ${instance.serial_number}`}
+                                />
+                              </td>
                               <td className="px-6 py-4 whitespace-nowrap">
                                 <div className="text-sm font-medium text-gray-900">{instance.serial_number}</div>
+                                <button
+                                  onClick={() => setHistoryInstance({ id: instance.instance_id, serial_number: instance.serial_number })}
+                                  className="text-xs font-medium text-gray-600 hover:text-gray-900 transition-colors"
+                                >
+                                  View history
+                                </button>
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap">
                                 <div className="text-sm text-gray-900">{instance.asset_tag || 'N/A'}</div>
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap">
-                                <div className="text-sm text-gray-900">{instance.location}</div>
+                                {renderPlacement(instance)}
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap">
                                 <div className="text-sm text-gray-900">{instance.assignment_number}</div>
@@ -647,7 +712,7 @@ const ClientEquipmentDetailPage: React.FC = () => {
                                 )}
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap">
-                                <div className="text-sm text-gray-900">{instance.location}</div>
+                                {renderPlacement(instance)}
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap">
                                 <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(instance.compliance_status)}`}>
@@ -722,6 +787,20 @@ const ClientEquipmentDetailPage: React.FC = () => {
             </div>
           </div>
         </div>
+
+        <ReturnRequestModal
+          isOpen={showReturnModal}
+          units={(equipmentDetail?.instances || [])
+            .filter(instance => selectedInstanceIds.includes(instance.instance_id))
+            .map(instance => ({ id: instance.instance_id, serial_number: instance.serial_number }))}
+          onClose={() => setShowReturnModal(false)}
+          onSubmitted={handleReturnSubmitted}
+        />
+
+        <InstanceLifecycleModal
+          instance={historyInstance}
+          onClose={() => setHistoryInstance(null)}
+        />
       </DashboardLayout>
     </RequireRole>
   );
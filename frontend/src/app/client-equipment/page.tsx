@@ -8,6 +8,8 @@ import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorDisplay from '@/components/ui/ErrorDisplay';
 import { useToast } from '@/components/providers/ToastProvider';
 import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import SiteFilter from '@/components/sites/SiteFilter';
+import { ClientSite, fetchSites } from '@/components/sites/sites';
 import {
   FireIcon,
   MagnifyingGlassIcon,
@@ -49,9 +51,11 @@ const ClientEquipmentPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('');
+  const [sites, setSites] = useState<ClientSite[]>([]);
+  const [siteFilter, setSiteFilter] = useState('');
 
   // Fetch equipment overview
-  const fetchEquipmentOverview = async () => {
+  const fetchEquipmentOverview = async (siteId = siteFilter) => {
     try {
       setLoading(true);
       setError(null);
@@ -65,8 +69,9 @@ const ClientEquipmentPage: React.FC = () => {
 
       const headers = getAuthHeaders();
 
-      logApiCall('GET', API_ENDPOINTS.CLIENT.EQUIPMENT.OVERVIEW);
-      const response = await fetch(API_ENDPOINTS.CLIENT.EQUIPMENT.OVERVIEW, { headers });
+      const url = siteId ? `${API_ENDPOINTS.CLIENT.EQUIPMENT.OVERVIEW}?site_id=${siteId}` : API_ENDPOINTS.CLIENT.EQUIPMENT.OVERVIEW;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers });
 
       if (!response.ok) {
         throw new Error(`Failed to fetch equipment overview: ${response.statusText}`);
@@ -90,8 +95,16 @@ const ClientEquipmentPage: React.FC = () => {
 
   useEffect(() => {
     fetchEquipmentOverview();
+    fetchSites()
+      .then(setSites)
+      .catch(err => console.error('Error fetching sites:', err));
   }, []);
 
+  const handleSiteChange = (siteId: string) => {
+    setSiteFilter(siteId);
+    fetchEquipmentOverview(siteId);
+  };
+
   // Filter equipment types
   const filteredEquipmentTypes = equipmentData?.equipment_types?.filter(type => {
     const matchesSearch = !searchTerm || 
@@ -111,8 +124,8 @@ const ClientEquipmentPage: React.FC = () => {
     router.push(`/client-equipment/${typeId}`);
   };
 
-  if (loading) return <LoadingSpinner />;
-  if (error) return <ErrorDisplay message={error} action={{ label: 'Retry', onClick: fetchEquipmentOverview }} />;
+  if (loading && !equipmentData) return <LoadingSpinner />;
+  if (error) return <ErrorDisplay message={error} action={{ label: 'Retry', onClick: () => fetchEquipmentOverview() }} />;
 
   return (
     <RequireRole allowedRoles={['client']}>
@@ -211,6 +224,12 @@ const ClientEquipmentPage: React.FC = () => {
                 ))}
               </select>
             </div>
+            {/* Only worth offering once there's more than one site */}
+            {sites.length > 1 && (
+              <div className="relative">
+                <SiteFilter sites={sites} value={siteFilter} onChange={handleSiteChange} />
+              </div>
+            )}
           </div>
         </div>
 
@@ -233,7 +252,7 @@ const ClientEquipmentPage: React.FC = () => {
               message={error}
               action={{
                 label: 'Try Again',
-                onClick: fetchEquipmentOverview
+                onClick: () => fetchEquipmentOverview()
               }}
             />
           )}
@@ -244,7 +263,7 @@ const ClientEquipmentPage: React.FC = () => {
               <Cog6ToothIcon className="mx-auto h-12 w-12 text-gray-400" />
               <h3 className="mt-2 text-sm font-medium text-gray-900">No equipment types found</h3>
               <p className="mt-1 text-sm text-gray-500">
-                {searchTerm || categoryFilter ? 'No equipment types match your current filters.' : 'You don\'t have any equipment assigned yet.'}
+                {searchTerm || categoryFilter || siteFilter ? 'No equipment types match your current filters.' : 'You don\'t have any equipment assigned yet.'}
               </p>
             </div>
           )}
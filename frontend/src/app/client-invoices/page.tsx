@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorDisplay from '@/components/ui/ErrorDisplay';
+import RequireRole from '@/components/auth/RequireRole';
+import { useToast } from '@/components/providers/ToastProvider';
+import { API_ENDPOINTS } from '@/config/api';
+import {
+  INVOICE_STATUS_STYLES,
+  Invoice,
+  QUOTE_STATUS_STYLES,
+  Quote,
+  billingRequest,
+  downloadBillingPdf,
+  formatMoney
+} from '@/components/billing/billing';
+import { BanknotesIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+
+const headerCell = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100';
+
+export default function ClientInvoicesPage() {
+  const { showToast } = useToast();
+
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      const [invoiceList, quoteList] = await Promise.all([
+        billingRequest<Invoice[]>(API_ENDPOINTS.BILLING.INVOICES),
+        billingRequest<Quote[]>(`${API_ENDPOINTS.BILLING.QUOTES}?status=sent`)
+      ]);
+      setInvoices(invoiceList);
+      setQuotes(quoteList.filter(quote => !quote.is_expired));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch invoices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const handleDownload = async (kind: 'quote' | 'invoice', id: number, documentNumber: string) => {
+    setDownloading(`${kind}-${id}`);
+    try {
+      await downloadBillingPdf(kind, id, documentNumber);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Download failed');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <RequireRole allowedRoles={['client']}>
+        <DashboardLayout>
+          <div className="flex items-center justify-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  if (error) {
+    return (
+      <RequireRole allowedRoles={['client']}>
+        <DashboardLayout>
+          <ErrorDisplay message={error} />
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  const outstanding = invoices.reduce((sum, invoice) => sum + invoice.balance_due, 0);
+
+  return (
+    <RequireRole allowedRoles={['client']}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Page Header */}
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <div className="flex-shrink-0">
+                <BanknotesIcon className="h-8 w-8 text-gray-900" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Invoices</h1>
+                <p className="text-gray-600 mt-1">Invoices from your service provider and quotes awaiting your approval</p>
+              </div>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-600">Outstanding</p>
+              <p className="text-2xl font-bold text-gray-900">{formatMoney(outstanding)}</p>
+            </div>
+          </div>
+
+          {quotes.length > 0 && (
+            <div className="bg-white rounded-2xl border border-gray-100">
+              <div className="px-6 py-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">Quotes Awaiting Approval ({quotes.length})</h2>
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {quotes.map(quote => (
+                  <li key={quote.id} className="flex flex-wrap items-center justify-between gap-3 px-6 py-4">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {quote.quote_number}
+                        <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${QUOTE_STATUS_STYLES[quote.status].badge}`}>
+                          {QUOTE_STATUS_STYLES[quote.status].label}
+                        </span>
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {formatMoney(quote.total)}
+                        {quote.valid_until && ` · valid until ${quote.valid_until}`}
+                      </p>
+                    </div>
+                    {quote.ticket_id && (
+                      <Link href={`/service-requests/${quote.ticket_id}`} className="btn-primary text-sm">
+                        Review {quote.ticket_number}
+                      </Link>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="bg-white rounded-2xl border border-gray-100">
+            <div className="px-6 py-4 border-b border-gray-100">
+              <h2 className="text-lg font-semibold text-gray-900">Invoices ({invoices.length})</h2>
+            </div>
+
+            {invoices.length === 0 ? (
+              <div className="text-center py-12">
+                <BanknotesIcon className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-600">No invoices yet.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={headerCell}>Invoice</th>
+                      <th className={headerCell}>Issued</th>
+                      <th className={headerCell}>Due</th>
+                      <th className={headerCell}>Status</th>
+                      <th className={headerCell}>Total</th>
+                      <th className={headerCell}>Balance</th>
+                      <th className={headerCell}></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white">
+                    {invoices.map((invoice) => {
+                      const style = invoice.is_overdue
+                        ? { label: 'Overdue', badge: 'bg-red-100 text-red-800' }
+                        : INVOICE_STATUS_STYLES[invoice.status];
+                      return (
+                        <tr key={invoice.id} className="border-b border-gray-100 hover:bg-gray-50 transition-colors">
+                          <td className="px-6 py-4">
+                            <div className="text-sm font-medium text-gray-900">{invoice.invoice_number}</div>
+                            <div className="text-sm text-gray-500">
+                              {invoice.ticket_id ? (
+                                <Link href={`/service-requests/${invoice.ticket_id}`} className="hover:text-red-600">
+                                  {invoice.ticket_number}
+                                </Link>
+                              ) : invoice.period_start && `Rental ${invoice.period_start} to ${invoice.period_end}`}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{invoice.issue_date || '-'}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{invoice.due_date || '-'}</td>
+                          <td className="px-6 py-4">
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${style.badge}`}>
+                              {style.label}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{formatMoney(invoice.total)}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{formatMoney(invoice.balance_due)}</td>
+                          <td className="px-6 py-4">
+                            <button
+                              onClick={() => handleDownload('invoice', invoice.id, invoice.invoice_number)}
+                              disabled={downloading === `invoice-${invoice.id}`}
+                              className="text-gray-400 hover:text-gray-700 disabled:opacity-50"
+                              aria-label={`Download ${invoice.invoice_number}`}
+                            >
+                              <ArrowDownTrayIcon className="h-5 w-5" />
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </DashboardLayout>
+    </RequireRole>
+  );
+}
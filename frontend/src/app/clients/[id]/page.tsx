@@ -8,6 +8,7 @@ import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorDisplay from '@/components/ui/ErrorDisplay';
 import AssignEquipmentModal from '@/components/modals/AssignEquipmentModal';
 import ConfirmModal from '@/components/ui/ConfirmModal';
+import ClientSitesPanel from '@/components/sites/ClientSitesPanel';
 import { useToast } from '@/components/providers/ToastProvider';
 import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
 import { 
@@ -531,6 +532,7 @@ export default function ClientDetailPage() {
                 // Only show vendor tab for non-vendor users (admin, client, etc.)
                 ...(currentUserType !== 'vendor' ? [{ id: 'vendor', name: 'Vendor Details', icon: BuildingOfficeIcon }] : []),
                 { id: 'equipment', name: 'Equipment', icon: FireIcon },
+                ...(currentUserType === 'vendor' ? [{ id: 'sites', name: 'Sites', icon: MapPinIcon }] : []),
                 { id: 'maintenance', name: 'Maintenance History', icon: WrenchScrewdriverIcon }
               ].map((tab) => (
                 <button
@@ -979,6 +981,11 @@ export default function ClientDetailPage() {
               </div>
             )}
 
+            {/* Sites Tab */}
+            {activeTab === 'sites' && (
+              <ClientSitesPanel clientId={client.id} />
+            )}
+
             {/* Maintenance History Tab */}
             {activeTab === 'maintenance' && (
               <div>
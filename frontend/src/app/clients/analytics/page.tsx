@@ -20,7 +20,8 @@ import {
   ClockIcon,
   WrenchScrewdriverIcon,
   LockClosedIcon,
-  PhoneIcon
+  PhoneIcon,
+  MapPinIcon
 } from '@heroicons/react/24/outline';
 
 // Recharts components
@@ -79,6 +80,19 @@ interface ComplianceByType {
   compliance_rate_pct: number;
 }
 
+interface ComplianceBySite {
+  site_id: number | null;
+  site_name: string;
+  city: string | null;
+  total: number;
+  compliant: number;
+  due_soon: number;
+  overdue: number;
+  expired: number;
+  compliance_rate_pct: number | null;
+  open_requests: number;
+}
+
 interface RequestTrend {
   month: string;
   submitted: number;
@@ -96,6 +110,8 @@ interface NonCompliantEquipment {
   equipment_name: string;
   serial_number: string;
   location: string;
+  site_name: string | null;
+  zone_path: string | null;
   compliance_status: string;
   next_maintenance: string;
   days_until_maintenance: string;
@@ -154,6 +170,7 @@ export default function ClientAnalyticsPage() {
   const [equipmentStatus, setEquipmentStatus] = useState<EquipmentStatus[]>([]);
   const [complianceTrend, setComplianceTrend] = useState<ComplianceTrend[]>([]);
   const [complianceByType, setComplianceByType] = useState<ComplianceByType[]>([]);
+  const [complianceBySite, setComplianceBySite] = useState<ComplianceBySite[]>([]);
   const [requestTrends, setRequestTrends] = useState<RequestTrend[]>([]);
   const [requestsByType, setRequestsByType] = useState<RequestByType[]>([]);
   const [nonCompliantEquipment, setNonCompliantEquipment] = useState<NonCompliantEquipment[]>([]);
@@ -241,6 +258,7 @@ export default function ClientAnalyticsPage() {
         equipmentStatusRes,
         complianceTrendRes,
         complianceByTypeRes,
+        complianceBySiteRes,
         requestTrendsRes,
         requestsByTypeRes,
         nonCompliantRes,
@@ -252,6 +270,7 @@ export default function ClientAnalyticsPage() {
         fetch(`${API_BASE_URL}/client/analytics/equipment/status`, { headers }),
         fetch(`${API_BASE_URL}/client/analytics/compliance/trend?${dateParams}`, { headers }),
         fetch(`${API_BASE_URL}/client/analytics/compliance/by-type`, { headers }),
+        fetch(`${API_BASE_URL}/client/analytics/compliance/by-site`, { headers }),
         fetch(`${API_BASE_URL}/client/analytics/requests/trend?${dateParams}`, { headers }),
         fetch(`${API_BASE_URL}/client/analytics/requests/by-type`, { headers }),
         fetch(`${API_BASE_URL}/client/analytics/equipment/non-compliant`, { headers }),
@@ -265,6 +284,7 @@ export default function ClientAnalyticsPage() {
         equipmentStatus: equipmentStatusRes.status,
         complianceTrend: complianceTrendRes.status,
         complianceByType: complianceByTypeRes.status,
+        complianceBySite: complianceBySiteRes.status,
         requestTrends: requestTrendsRes.status,
         requestsByType: requestsByTypeRes.status,
         nonCompliant: nonCompliantRes.status,
@@ -279,6 +299,7 @@ export default function ClientAnalyticsPage() {
         equipmentStatusData,
         complianceTrendData,
         complianceByTypeData,
+        complianceBySiteData,
         requestTrendsData,
         requestsByTypeData,
         nonCompliantData,
@@ -290,6 +311,7 @@ export default function ClientAnalyticsPage() {
         equipmentStatusRes.ok ? equipmentStatusRes.json() : { data: [] },
         complianceTrendRes.ok ? complianceTrendRes.json() : { data: [] },
         complianceByTypeRes.ok ? complianceByTypeRes.json() : { data: [] },
+        complianceBySiteRes.ok ? complianceBySiteRes.json() : { data: [] },
         requestTrendsRes.ok ? requestTrendsRes.json() : { data: [] },
         requestsByTypeRes.ok ? requestsByTypeRes.json() : { data: [] },
         nonCompliantRes.ok ? nonCompliantRes.json() : { data: [] },
@@ -303,6 +325,7 @@ export default function ClientAnalyticsPage() {
       setEquipmentStatus(equipmentStatusData.data || []);
       setComplianceTrend(complianceTrendData.data || []);
       setComplianceByType(complianceByTypeData.data || []);
+      setComplianceBySite(complianceBySiteData.data || []);
       setRequestTrends(requestTrendsData.data || []);
       setRequestsByType(requestsByTypeData.data || []);
       setNonCompliantEquipment(nonCompliantData.data || []);
@@ -1064,6 +1087,51 @@ export default function ClientAnalyticsPage() {
             </div>
           </div>
 
+          {/* Compliance by Site - only worth showing once equipment is spread over sites */}
+          {complianceBySite.filter(site => site.total > 0).length > 1 && (
+            <div className="bg-white rounded-2xl border border-gray-100 p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center">
+                <MapPinIcon className="h-6 w-6 text-red-600 mr-3" />
+                Compliance by Site
+              </h2>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-100">
+                    <tr>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Site</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Equipment</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Compliant</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Due Soon</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Overdue</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Expired</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Open Requests</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Compliance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {complianceBySite.map(site => (
+                      <tr key={site.site_id ?? 'unplaced'} className="hover:bg-gray-50 transition-colors">
+                        <td className="py-3 px-4">
+                          <div className={`font-medium ${site.site_id ? 'text-gray-900' : 'text-gray-500 italic'}`}>{site.site_name}</div>
+                          {site.city && <div className="text-xs text-gray-500">{site.city}</div>}
+                        </td>
+                        <td className="py-3 px-4 text-right text-gray-700">{site.total}</td>
+                        <td className="py-3 px-4 text-right text-green-700">{site.compliant}</td>
+                        <td className="py-3 px-4 text-right text-yellow-700">{site.due_soon}</td>
+                        <td className="py-3 px-4 text-right text-red-600">{site.overdue}</td>
+                        <td className="py-3 px-4 text-right text-red-700">{site.expired}</td>
+                        <td className="py-3 px-4 text-right text-gray-700">{site.open_requests}</td>
+                        <td className="py-3 px-4 text-right font-semibold text-gray-900">
+                          {site.compliance_rate_pct !== null ? `${site.compliance_rate_pct}%` : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
           {/* Critical Alerts - Non-Compliant Equipment */}
           {nonCompliantEquipment.length > 0 && (
             <div className="bg-red-50 border border-red-200 rounded-2xl p-6">
@@ -1099,7 +1167,16 @@ export default function ClientAnalyticsPage() {
                         <tr key={index} className="hover:bg-red-25 transition-colors">
                           <td className="py-4 px-6 font-medium text-gray-900">{equipment.equipment_name}</td>
                           <td className="py-4 px-6 text-gray-700 font-mono text-sm">{equipment.serial_number}</td>
-                          <td className="py-4 px-6 text-gray-700">{equipment.location}</td>
+                          <td className="py-4 px-6 text-gray-700">
+                            {equipment.site_name ? (
+                              <>
+                                <div>{equipment.site_name}</div>
+                                <div className="text-xs text-gray-500">
+                                  {[equipment.zone_path, equipment.location].filter(Boolean).join(' · ')}
+                                </div>
+                              </>
+                            ) : equipment.location}
+                          </td>
                           <td className="py-4 px-6">
                             <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getStatusBadgeColor(equipment.compliance_status)}`}>
                               {equipment.compliance_status.replace('_', ' ')}
@@ -7,8 +7,15 @@ import DashboardLayout from '@/components/layout/DashboardLayout'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 import ErrorDisplay from '@/components/ui/ErrorDisplay'
 import AddClientModal from '@/components/modals/AddClientModal'
+import CsvImportModal from '@/components/modals/CsvImportModal'
 import { useToast } from '@/components/providers/ToastProvider'
-import { API_ENDPOINTS, buildApiUrl } from '@/config/api'
+import { API_ENDPOINTS, buildApiUrl, getAuthHeaders, logApiCall } from '@/config/api'
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline'
+
+const CLIENT_IMPORT_TEMPLATE = [
+  'company_name,business_type,first_name,last_name,email,phone,primary_phone,street_address,city,zip_code,country',
+  'Lanka Hotels Ltd,Hospitality,Nimal,Perera,nimal@example.com,+94 77 123 4567,+94 11 234 5678,12 Galle Road,Colombo,00300,Sri Lanka'
+].join('\n')
 
 interface ClientKPIs {
   totalClients: number
@@ -61,7 +68,7 @@ interface ClientListResponse {
 
 export default function ClientsPage() {
   const router = useRouter()
-  const { success: showToast } = useToast()
+  const { success: showToast, error: showErrorToast } = useToast()
   
   // Debug API_ENDPOINTS
   useEffect(() => {
@@ -88,6 +95,8 @@ export default function ClientsPage() {
   
   // Modal and form state
   const [isAddModalOpen, setIsAddModalOpen] = useState(false)
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
   
   // Filters
   const [searchTerm, setSearchTerm] = useState('')
@@ -246,6 +255,27 @@ export default function ClientsPage() {
     fetchClients(pagination.currentPage) // Refresh current page
   }
 
+  // Download the full client list as CSV
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      logApiCall('GET', API_ENDPOINTS.CLIENTS.EXPORT)
+      const response = await fetch(API_ENDPOINTS.CLIENTS.EXPORT, { headers: getAuthHeaders() })
+      if (!response.ok) throw new Error('Failed to export clients')
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `clients_${new Date().toISOString().split('T')[0]}.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      showErrorToast(err instanceof Error ? err.message : 'Failed to export clients')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   // Handle row click
   const handleClientClick = (clientId: number) => {
     router.push(`/clients/${clientId}`)
@@ -310,15 +340,32 @@ export default function ClientsPage() {
               </p>
             </div>
           </div>
-          <button 
-            onClick={() => setIsAddModalOpen(true)}
-            className="btn-primary flex items-center space-x-2"
-          >
-            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            <span>Add New Client</span>
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+            >
+              <ArrowDownTrayIcon className="h-5 w-5" />
+              <span>{isExporting ? 'Exporting...' : 'Export CSV'}</span>
+            </button>
+            <button
+              onClick={() => setIsImportModalOpen(true)}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <ArrowUpTrayIcon className="h-5 w-5" />
+              <span>Import CSV</span>
+            </button>
+            <button 
+              onClick={() => setIsAddModalOpen(true)}
+              className="btn-primary flex items-center space-x-2"
+            >
+              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              <span>Add New Client</span>
+            </button>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -569,6 +616,30 @@ export default function ClientsPage() {
         onClose={() => setIsAddModalOpen(false)}
         onClientCreated={handleClientCreated}
       />
+
+      {/* Import Clients Modal */}
+      <CsvImportModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        onSuccess={() => {
+          fetchKPIs()
+          fetchClients(pagination.currentPage)
+        }}
+        title="Import Clients from CSV"
+        endpoint={API_ENDPOINTS.CLIENTS.IMPORT}
+        instructions={
+          <p>
+            Each row creates a client company and its contact login. All columns in the template are required,
+            and each email must not already have an account.
+          </p>
+        }
+        templateCsv={CLIENT_IMPORT_TEMPLATE}
+        templateFileName="client_import_template.csv"
+        identifierKey="email"
+        identifierLabel="Email"
+        itemLabel="client"
+        successHint="Each contact is emailed a temporary password to sign in."
+      />
     </DashboardLayout>
   )
 }
\ No newline at end of file
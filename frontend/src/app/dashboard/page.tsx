@@ -13,6 +13,7 @@ import DebugLogger from '../../utils/DebugLogger';
 import EmergencyWarningCard from '../../components/dashboard/EmergencyWarningCard';
 import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '../../config/api';
 import { useToast } from '../../components/providers/ToastProvider';
+import { useNotificationStream } from '../../components/providers/NotificationStreamProvider';
 import { 
   BuildingOfficeIcon, 
   ChartBarIcon,
@@ -33,7 +34,7 @@ interface User {
   id: number;
   email: string;
   display_name: string;
-  user_type: 'admin' | 'vendor' | 'client';
+  user_type: 'admin' | 'vendor' | 'client' | 'technician';
   role_id?: number;
 }
 
@@ -81,6 +82,11 @@ export default function DashboardPage() {
     if (userData) {
       try {
         const parsedUser = JSON.parse(userData);
+        // Technicians only work on their assigned tickets
+        if (parsedUser.user_type === 'technician') {
+          router.replace('/technician-tickets');
+          return;
+        }
         setUser(parsedUser);
       } catch (error) {
         console.error('Error parsing user data:', error);
@@ -144,13 +150,13 @@ function AdminDashboard({ user }: { user: User }) {
   const [error, setError] = useState<string | null>(null);
   const toast = useToast();
 
-  // Fetch dashboard data from API
-  const fetchDashboardData = async () => {
+  // Fetch dashboard data from API; background refreshes keep the current view on screen
+  const fetchDashboardData = async (background = false) => {
     const startTime = DebugLogger.startTimer();
     DebugLogger.ui('AdminDashboard', 'fetchDashboardData started');
     
     try {
-      setIsLoading(true);
+      if (!background) setIsLoading(true);
       setError(null);
 
       // Get auth token
@@ -209,6 +215,11 @@ function AdminDashboard({ user }: { user: User }) {
     fetchDashboardData();
   }, []);
 
+  // Refresh the critical alerts and counts as notifications arrive
+  useNotificationStream((event) => {
+    if (event.type === 'notification') fetchDashboardData(true);
+  });
+
   const handleAddVendor = (vendorData: any) => {
     console.log('New vendor added from dashboard:', vendorData);
     toast.success('Vendor added successfully');
@@ -250,7 +261,7 @@ function AdminDashboard({ user }: { user: User }) {
             message={error}
             action={{
               label: 'Try Again',
-              onClick: fetchDashboardData
+              onClick: () => fetchDashboardData()
             }}
           />
         )}
@@ -571,12 +582,12 @@ function VendorDashboardComponent({ user }: { user: User }) {
   const toast = useToast();
 
   // Fetch vendor dashboard data from API
-  const fetchVendorDashboardData = async () => {
+  const fetchVendorDashboardData = async (background = false) => {
     const startTime = DebugLogger.startTimer();
     DebugLogger.ui('VendorDashboard', 'fetchVendorDashboardData started');
     
     try {
-      setIsLoading(true);
+      if (!background) setIsLoading(true);
       setError(null);
 
       // Get auth token
@@ -635,6 +646,11 @@ function VendorDashboardComponent({ user }: { user: User }) {
     fetchVendorDashboardData();
   }, []);
 
+  // Ticket and equipment notifications change the KPIs
+  useNotificationStream((event) => {
+    if (event.type === 'notification') fetchVendorDashboardData(true);
+  });
+
   const getActivityIcon = (type: string) => {
     switch (type) {
       case 'Audit':
@@ -703,7 +719,7 @@ function VendorDashboardComponent({ user }: { user: User }) {
             message={error}
             action={{
               label: 'Try Again',
-              onClick: fetchVendorDashboardData
+              onClick: () => fetchVendorDashboardData()
             }}
           />
         )}
@@ -1007,12 +1023,16 @@ function ClientDashboardComponent({ user }: { user: User }) {
     fetchClientDashboard();
   }, []);
 
-  const fetchClientDashboard = async () => {
+  useNotificationStream((event) => {
+    if (event.type === 'notification') fetchClientDashboard(true);
+  });
+
+  const fetchClientDashboard = async (background = false) => {
     const startTime = DebugLogger.startTimer();
     DebugLogger.ui('ClientDashboard', 'fetchClientDashboard started');
     
     try {
-      setIsLoading(true);
+      if (!background) setIsLoading(true);
       setError(null);
       const headers = getAuthHeaders();
 
@@ -1074,7 +1094,7 @@ function ClientDashboardComponent({ user }: { user: User }) {
           message={error}
           action={{
             label: 'Try Again',
-            onClick: fetchClientDashboard
+            onClick: () => fetchClientDashboard()
           }}
         />
       </DashboardLayout>
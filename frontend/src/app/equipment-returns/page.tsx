@@ -0,0 +1,299 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorDisplay from '@/components/ui/ErrorDisplay';
+import RequireRole from '@/components/auth/RequireRole';
+import CompleteReturnModal, { ReturnRequest, ReturnStatus } from '@/components/modals/CompleteReturnModal';
+import { useToast } from '@/components/providers/ToastProvider';
+import { API_ENDPOINTS, buildApiUrl, getAuthHeaders, logApiCall } from '@/config/api';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+
+const STATUS_FILTERS: { value: '' | ReturnStatus; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'rejected', label: 'Rejected' }
+];
+
+const getStatusColor = (status: ReturnStatus) => {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'approved':
+      return 'bg-blue-100 text-blue-800';
+    case 'completed':
+      return 'bg-green-100 text-green-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '');
+
+export default function EquipmentReturnsPage() {
+  const { success, error: showError } = useToast();
+
+  const [isVendor, setIsVendor] = useState(false);
+  const [requests, setRequests] = useState<ReturnRequest[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'' | ReturnStatus>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewNotes, setReviewNotes] = useState<Record<number, string>>({});
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [completing, setCompleting] = useState<ReturnRequest | null>(null);
+
+  useEffect(() => {
+    const userData = localStorage.getItem('user');
+    if (userData) {
+      try {
+        setIsVendor(JSON.parse(userData).user_type === 'vendor');
+      } catch {
+        setIsVendor(false);
+      }
+    }
+  }, []);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const url = statusFilter
+        ? buildApiUrl(API_ENDPOINTS.EQUIPMENT_RETURNS.LIST, { status: statusFilter })
+        : API_ENDPOINTS.EQUIPMENT_RETURNS.LIST;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (!response.ok) throw new Error('Failed to fetch return requests');
+
+      const data = await response.json();
+      setRequests(data.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch return requests');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleReview = async (request: ReturnRequest, decision: 'approve' | 'reject') => {
+    const notes = (reviewNotes[request.id] || '').trim();
+    if (decision === 'reject' && !notes) {
+      showError('Add a note saying why the request is rejected');
+      return;
+    }
+
+    setUpdatingId(request.id);
+    try {
+      const url = decision === 'approve'
+        ? API_ENDPOINTS.EQUIPMENT_RETURNS.APPROVE(request.id)
+        : API_ENDPOINTS.EQUIPMENT_RETURNS.REJECT(request.id);
+      logApiCall('PUT', url);
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ notes: notes || null })
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to update request');
+      }
+
+      success(decision === 'approve' ? `${request.return_number} approved` : `${request.return_number} rejected`);
+      setReviewNotes(prev => ({ ...prev, [request.id]: '' }));
+      await fetchRequests();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to update request');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCompleted = async () => {
+    setCompleting(null);
+    await fetchRequests();
+  };
+
+  if (isLoading) {
+    return (
+      <RequireRole allowedRoles={['vendor', 'client']}>
+        <DashboardLayout>
+          <div className="flex items-center justify-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  if (error) {
+    return (
+      <RequireRole allowedRoles={['vendor', 'client']}>
+        <DashboardLayout>
+          <ErrorDisplay message={error} />
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  return (
+    <RequireRole allowedRoles={['vendor', 'client']}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Page Header */}
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <div className="flex-shrink-0">
+                <ArrowPathIcon className="h-8 w-8 text-gray-900" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Returns &amp; Swaps</h1>
+                <p className="text-gray-600 mt-1">
+                  {isVendor
+                    ? 'Review client requests to return or replace assigned equipment'
+                    : 'Track your requests to return or replace equipment. Start one from a unit on My Equipment.'}
+                </p>
+              </div>
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as '' | ReturnStatus)}
+              className="input-field w-auto"
+            >
+              {STATUS_FILTERS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {requests.length === 0 ? (
+            <div className="bg-white rounded-2xl border border-gray-100 text-center py-12">
+              <ArrowPathIcon className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">No return or swap requests{statusFilter ? ` with status ${statusFilter}` : ''}.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {requests.map((request) => (
+                <div key={request.id} className="bg-white rounded-2xl border border-gray-100 p-6">
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900">
+                        {request.return_number}
+                        <span className="ml-2 text-sm font-normal text-gray-500 capitalize">{request.request_type}</span>
+                      </h3>
+                      <p className="text-sm text-gray-500">
+                        {isVendor ? `${request.client_name} · ` : ''}
+                        Requested {formatDate(request.created_at)}{request.requested_by_name ? ` by ${request.requested_by_name}` : ''}
+                      </p>
+                    </div>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusColor(request.status)}`}>
+                      {request.status}
+                    </span>
+                  </div>
+
+                  <p className="text-sm text-gray-700 mb-4 whitespace-pre-line">{request.reason}</p>
+
+                  <table className="min-w-full mb-4">
+                    <thead>
+                      <tr className="border-b border-gray-200">
+                        <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unit</th>
+                        <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assignment</th>
+                        {request.status === 'completed' && (
+                          <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Outcome</th>
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {request.items.map(item => (
+                        <tr key={item.equipment_instance_id}>
+                          <td className="py-2">
+                            <div className="text-sm font-medium text-gray-900">{item.serial_number}</div>
+                            <div className="text-xs text-gray-500">{item.equipment_name}</div>
+                          </td>
+                          <td className="py-2 text-sm text-gray-700">{item.assignment_number || 'Direct assignment'}</td>
+                          {request.status === 'completed' && (
+                            <td className="py-2 text-sm text-gray-700">
+                              {item.replacement_serial_number
+                                ? `Replaced by ${item.replacement_serial_number}`
+                                : 'Returned'}
+                              {isVendor && item.disposition === 'retired' && (
+                                <span className="ml-2 text-xs text-gray-500">(retired)</span>
+                              )}
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  {request.vendor_notes && (
+                    <div className="text-sm text-gray-700 bg-gray-50 rounded-xl p-3 mb-4">
+                      <span className="font-medium text-gray-900">Vendor notes: </span>
+                      {request.vendor_notes}
+                    </div>
+                  )}
+
+                  {(request.reviewed_at || request.return_date) && (
+                    <p className="text-xs text-gray-500 mb-4">
+                      {request.reviewed_at && `Reviewed ${formatDate(request.reviewed_at)}${request.reviewed_by_name ? ` by ${request.reviewed_by_name}` : ''}`}
+                      {request.reviewed_at && request.return_date && ' · '}
+                      {request.return_date && `Completed ${formatDate(request.return_date)}${request.returned_by_name ? ` by ${request.returned_by_name}` : ''}`}
+                    </p>
+                  )}
+
+                  {isVendor && request.status === 'pending' && (
+                    <div className="pt-4 border-t border-gray-100 space-y-3">
+                      <textarea
+                        value={reviewNotes[request.id] || ''}
+                        onChange={(e) => setReviewNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                        rows={2}
+                        maxLength={2000}
+                        placeholder="Notes for the client (required when rejecting)"
+                        className="input-field"
+                      />
+                      <div className="flex justify-end space-x-4">
+                        <button
+                          onClick={() => handleReview(request, 'reject')}
+                          disabled={updatingId === request.id}
+                          className="text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                        <button
+                          onClick={() => handleReview(request, 'approve')}
+                          disabled={updatingId === request.id}
+                          className="btn-primary disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {isVendor && request.status === 'approved' && (
+                    <div className="flex justify-end pt-4 border-t border-gray-100">
+                      <button onClick={() => setCompleting(request)} className="btn-primary">
+                        {request.request_type === 'swap' ? 'Complete Swap' : 'Complete Return'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <CompleteReturnModal
+          request={completing}
+          onClose={() => setCompleting(null)}
+          onCompleted={handleCompleted}
+        />
+      </DashboardLayout>
+    </RequireRole>
+  );
+}
@@ -9,6 +9,12 @@ import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorDisplay from '@/components/ui/ErrorDisplay';
 import CreateInstanceModal from '@/components/modals/CreateInstanceModal';
 import ConfirmModal from '@/components/ui/ConfirmModal';
+import InstanceAttachmentsModal from '@/components/modals/InstanceAttachmentsModal';
+import InstanceScheduleModal from '@/components/modals/InstanceScheduleModal';
+import InstanceLifecycleModal from '@/components/modals/InstanceLifecycleModal';
+import EquipmentPlacementModal, { PlacementInstance } from '@/components/modals/EquipmentPlacementModal';
+import MaintenancePlanPanel from '@/components/maintenance/MaintenancePlanPanel';
+import FailedInspectionItems, { FailedInspectionItem } from '@/components/maintenance/FailedInspectionItems';
 import { API_ENDPOINTS, getAuthHeaders, logApiCall, API_BASE_URL } from '@/config/api';
 import DebugLogger from '@/utils/DebugLogger';
 import { useToast } from '@/components/providers/ToastProvider';
@@ -29,7 +35,8 @@ import {
   TagIcon,
   CubeIcon,
   UserIcon,
-  XMarkIcon
+  XMarkIcon,
+  QrCodeIcon
 } from '@heroicons/react/24/outline';
 
 // Types
@@ -63,14 +70,20 @@ interface EquipmentType {
   // Arrays from SQL
   instances: EquipmentInstanceData[];
   assignments: any[]; // Assignment data from API
+  failed_inspection_items?: FailedInspectionItem[];
 }
 
 interface EquipmentInstanceData {
   id: number;
   serial_number: string;
   status: string;
+  client_id?: number | null;
   client_name?: string;
   location?: string;
+  site_id?: number | null;
+  site_name?: string | null;
+  zone_id?: number | null;
+  zone_path?: string | null;
   next_maintenance_date?: string;
   expiry_date: string;
   compliance_status: string;
@@ -201,6 +214,11 @@ export default function EquipmentDetailsPage() {
   
   const [equipmentType, setEquipmentType] = useState<EquipmentType | null>(null);
   const [equipmentInstances, setEquipmentInstances] = useState<any[]>([]);
+  const [isPrintingLabels, setIsPrintingLabels] = useState(false);
+  const [attachmentsInstance, setAttachmentsInstance] = useState<{ id: number; serial_number: string } | null>(null);
+  const [scheduleInstance, setScheduleInstance] = useState<{ id: number; serial_number: string } | null>(null);
+  const [historyInstance, setHistoryInstance] = useState<{ id: number; serial_number: string } | null>(null);
+  const [placementInstance, setPlacementInstance] = useState<PlacementInstance | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
@@ -270,6 +288,46 @@ export default function EquipmentDetailsPage() {
     }
   };
 
+  // Download a PDF sheet of QR asset labels for every instance of this type
+  const openPlacement = (instance: EquipmentInstanceData) => {
+    if (!instance.client_id) return;
+    setPlacementInstance({
+      id: instance.id,
+      serial_number: instance.serial_number,
+      client_id: instance.client_id,
+      client_name: instance.client_name,
+      site_id: instance.site_id,
+      zone_id: instance.zone_id,
+      location: instance.location
+    });
+  };
+
+  const handlePrintLabels = async () => {
+    setIsPrintingLabels(true);
+
+    try {
+      const url = API_ENDPOINTS.EQUIPMENT.LABELS(equipmentId);
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.message || 'Failed to generate labels');
+      }
+
+      const blobUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = blobUrl;
+      link.download = `Asset_Labels_${equipmentType?.equipment_code || equipmentId}.pdf`;
+      link.click();
+      URL.revokeObjectURL(blobUrl);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to generate labels');
+    } finally {
+      setIsPrintingLabels(false);
+    }
+  };
+
   // Fetch equipment type details
   const fetchEquipmentTypeDetails = async () => {
     try {
@@ -551,6 +609,7 @@ export default function EquipmentDetailsPage() {
                 {[
                   { id: 'overview', name: 'Overview', icon: CubeIcon },
                   { id: 'instances', name: `Instances (${equipmentType?.total_instances || 0})`, icon: FireIcon },
+                  { id: 'plan', name: 'Maintenance Plan', icon: CalendarIcon },
                   { id: 'specifications', name: 'Specifications', icon: DocumentTextIcon }
                 ].map((tab) => (
                   <button
@@ -573,6 +632,9 @@ export default function EquipmentDetailsPage() {
               {/* Overview Tab */}
               {activeTab === 'overview' && (
                 <div className="space-y-8">
+                  {/* Failed Inspection Items */}
+                  <FailedInspectionItems items={equipmentType?.failed_inspection_items || []} />
+
                   {/* Equipment Details */}
                   <div>
                     <div className="flex items-center justify-between mb-4">
@@ -767,6 +829,16 @@ export default function EquipmentDetailsPage() {
                     <h3 className="text-lg font-medium text-gray-900">
                       Equipment Instances ({equipmentType?.total_instances || 0})
                     </h3>
+                    {equipmentType?.instances && equipmentType.instances.length > 0 && (
+                      <button
+                        onClick={handlePrintLabels}
+                        disabled={isPrintingLabels}
+                        className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+                      >
+                        <QrCodeIcon className="h-5 w-5" />
+                        <span>{isPrintingLabels ? 'Generating...' : 'Print QR Labels'}</span>
+                      </button>
+                    )}
                   </div>
                   
                   {equipmentType?.instances && equipmentType.instances.length > 0 ? (
@@ -807,7 +879,16 @@ export default function EquipmentDetailsPage() {
                                 <div className="text-sm font-medium text-gray-900">{instance.serial_number}</div>
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                {instance.location || 'N/A'}
+                                {instance.site_name ? (
+                                  <div>
+                                    <div>{instance.site_name}</div>
+                                    {(instance.zone_path || instance.location) && (
+                                      <div className="text-xs text-gray-500">
+                                        {[instance.zone_path, instance.location].filter(Boolean).join(' · ')}
+                                      </div>
+                                    )}
+                                  </div>
+                                ) : (instance.location || 'N/A')}
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap">
                                 <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${
@@ -854,9 +935,33 @@ export default function EquipmentDetailsPage() {
                                     >
                                       Remove Assignment
                                     </button>
-                                  ) : (
-                                    <span className="text-gray-400 text-sm">No actions</span>
-                                  )}
+                                  ) : null}
+                                  {instance.status === 'assigned' && instance.client_id ? (
+                                    <button
+                                      onClick={() => openPlacement(instance)}
+                                      className="text-gray-600 hover:text-gray-900 text-sm font-medium transition-colors"
+                                    >
+                                      Place
+                                    </button>
+                                  ) : null}
+                                  <button
+                                    onClick={() => setAttachmentsInstance({ id: instance.id, serial_number: instance.serial_number })}
+                                    className="text-gray-600 hover:text-gray-900 text-sm font-medium transition-colors"
+                                  >
+                                    Files
+                                  </button>
+                                  <button
+                                    onClick={() => setScheduleInstance({ id: instance.id, serial_number: instance.serial_number })}
+                                    className="text-gray-600 hover:text-gray-900 text-sm font-medium transition-colors"
+                                  >
+                                    Schedule
+                                  </button>
+                                  <button
+                                    onClick={() => setHistoryInstance({ id: instance.id, serial_number: instance.serial_number })}
+                                    className="text-gray-600 hover:text-gray-900 text-sm font-medium transition-colors"
+                                  >
+                                    History
+                                  </button>
                                 </div>
                               </td>
                             </tr>
@@ -873,6 +978,11 @@ export default function EquipmentDetailsPage() {
                 </div>
               )}
 
+              {/* Maintenance Plan Tab */}
+              {activeTab === 'plan' && (
+                <MaintenancePlanPanel target={{ equipment_id: parseInt(equipmentId) }} />
+              )}
+
               {/* Specifications Tab */}
               {activeTab === 'specifications' && (
                 <div className="space-y-8">
@@ -925,6 +1035,34 @@ export default function EquipmentDetailsPage() {
           </div>
         </div>
 
+        {/* Instance Attachments Modal */}
+        <InstanceAttachmentsModal
+          instance={attachmentsInstance}
+          onClose={() => setAttachmentsInstance(null)}
+        />
+
+        {/* Instance Placement Modal */}
+        <EquipmentPlacementModal
+          instance={placementInstance}
+          onClose={() => setPlacementInstance(null)}
+          onSaved={() => {
+            setPlacementInstance(null);
+            fetchEquipmentTypeDetails();
+          }}
+        />
+
+        {/* Instance Maintenance Plan Modal */}
+        <InstanceScheduleModal
+          instance={scheduleInstance}
+          onClose={() => setScheduleInstance(null)}
+        />
+
+        {/* Instance Lifecycle History Modal */}
+        <InstanceLifecycleModal
+          instance={historyInstance}
+          onClose={() => setHistoryInstance(null)}
+        />
+
         {/* Create Instance Modal */}
         {equipmentType && (
           <CreateInstanceModal
@@ -9,6 +9,9 @@ import ErrorDisplay from '@/components/ui/ErrorDisplay';
 import { useToast } from '@/components/providers/ToastProvider';
 import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
 import AddEquipmentTypeModal from '@/components/modals/AddEquipmentTypeModal';
+import CsvImportModal from '@/components/modals/CsvImportModal';
+import SiteFilter from '@/components/sites/SiteFilter';
+import { ClientSite, fetchSites } from '@/components/sites/sites';
 import {
   FireIcon,
   MagnifyingGlassIcon,
@@ -19,9 +22,15 @@ import {
   TrashIcon,
   WrenchScrewdriverIcon,
   BuildingOfficeIcon,
-  ArrowRightIcon
+  ArrowRightIcon,
+  ArrowUpTrayIcon
 } from '@heroicons/react/24/outline';
 
+const EQUIPMENT_IMPORT_TEMPLATE = [
+  'equipment_code,serial_number,purchase_date,expiry_date,warranty_expiry,maintenance_interval_days,asset_tag,location,notes',
+  'FE-CO2-5KG,SN-000123,2026-01-15,,2027-01-15,365,TAG-001,Warehouse A,'
+].join('\n');
+
 // Types
 interface EquipmentType {
   id: number;
@@ -53,10 +62,13 @@ const EquipmentManagementPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('');
+  const [sites, setSites] = useState<ClientSite[]>([]);
+  const [siteFilter, setSiteFilter] = useState('');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
 
   // Fetch equipment types
-  const fetchEquipmentTypes = async () => {
+  const fetchEquipmentTypes = async (siteId = siteFilter) => {
     try {
       setLoading(true);
       setError(null);
@@ -70,8 +82,10 @@ const EquipmentManagementPage: React.FC = () => {
 
       const headers = getAuthHeaders();
 
-      logApiCall('GET', API_ENDPOINTS.EQUIPMENT.TYPES);
-      const response = await fetch(API_ENDPOINTS.EQUIPMENT.TYPES, { headers });
+      // With a site selected, only types that have instances at that site are returned
+      const url = siteId ? `${API_ENDPOINTS.EQUIPMENT.TYPES}?site_id=${siteId}` : API_ENDPOINTS.EQUIPMENT.TYPES;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers });
 
       if (!response.ok) {
         throw new Error(`Failed to fetch equipment types: ${response.statusText}`);
@@ -119,8 +133,19 @@ const EquipmentManagementPage: React.FC = () => {
   useEffect(() => {
     fetchEquipmentTypes();
     fetchEquipmentStats();
+    fetchSites()
+      .then(setSites)
+      .catch(err => console.error('Error fetching sites:', err));
   }, []);
 
+  const handleSiteChange = (siteId: string) => {
+    setSiteFilter(siteId);
+    fetchEquipmentTypes(siteId);
+  };
+
+  // The summary endpoint covers all sites, so fall back to the filtered list
+  const summary = siteFilter ? null : stats;
+
   // Filter equipment types
   const filteredEquipmentTypes = equipmentTypes.filter(type => {
     const matchesSearch = !searchTerm || 
@@ -140,8 +165,8 @@ const EquipmentManagementPage: React.FC = () => {
     router.push(`/equipment/${typeId}`);
   };
 
-  if (loading) return <LoadingSpinner />;
-  if (error) return <ErrorDisplay message={error} action={{ label: 'Retry', onClick: fetchEquipmentTypes }} />;
+  if (loading && equipmentTypes.length === 0) return <LoadingSpinner />;
+  if (error) return <ErrorDisplay message={error} action={{ label: 'Retry', onClick: () => fetchEquipmentTypes() }} />;
 
   return (
     <RequireRole allowedRoles={['admin', 'vendor']}>
@@ -157,6 +182,13 @@ const EquipmentManagementPage: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setIsImportModalOpen(true)}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <ArrowUpTrayIcon className="w-5 h-5" />
+              Import CSV
+            </button>
             <button
               onClick={() => setIsAddModalOpen(true)}
               className="btn-primary flex items-center space-x-2"
@@ -176,7 +208,7 @@ const EquipmentManagementPage: React.FC = () => {
               </div>
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-500">Equipment Types</p>
-                <p className="text-2xl font-bold text-gray-900">{stats?.equipment_types ?? equipmentTypes.length}</p>
+                <p className="text-2xl font-bold text-gray-900">{summary?.equipment_types ?? equipmentTypes.length}</p>
               </div>
             </div>
           </div>
@@ -189,7 +221,7 @@ const EquipmentManagementPage: React.FC = () => {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-500">Total Instances</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {stats?.total_instances ?? equipmentTypes.reduce((total, type) => total + (type.total_active_instances || 0), 0)}
+                  {summary?.total_instances ?? equipmentTypes.reduce((total, type) => total + (type.total_active_instances || 0), 0)}
                 </p>
               </div>
             </div>
@@ -202,7 +234,7 @@ const EquipmentManagementPage: React.FC = () => {
               </div>
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-500">Categories</p>
-                <p className="text-2xl font-bold text-gray-900">{stats?.categories ?? categories.length}</p>
+                <p className="text-2xl font-bold text-gray-900">{summary?.categories ?? categories.length}</p>
               </div>
             </div>
           </div>
@@ -215,8 +247,8 @@ const EquipmentManagementPage: React.FC = () => {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-500">Avg Lifespan</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {typeof stats?.avg_lifespan === 'number'
-                    ? `${stats.avg_lifespan} years`
+                  {typeof summary?.avg_lifespan === 'number'
+                    ? `${summary.avg_lifespan} years`
                     : (equipmentTypes.length > 0 
                         ? `${Math.round(equipmentTypes.reduce((total, type) => total + (type.default_lifespan_years || 0), 0) / equipmentTypes.length)} years`
                         : '0 years')
@@ -254,6 +286,11 @@ const EquipmentManagementPage: React.FC = () => {
                 ))}
               </select>
             </div>
+            {sites.length > 0 && (
+              <div className="relative">
+                <SiteFilter sites={sites} value={siteFilter} onChange={handleSiteChange} groupByClient />
+              </div>
+            )}
           </div>
         </div>
 
@@ -276,7 +313,7 @@ const EquipmentManagementPage: React.FC = () => {
               message={error}
               action={{
                 label: 'Try Again',
-                onClick: fetchEquipmentTypes
+                onClick: () => fetchEquipmentTypes()
               }}
             />
           )}
@@ -287,7 +324,7 @@ const EquipmentManagementPage: React.FC = () => {
               <Cog6ToothIcon className="mx-auto h-12 w-12 text-gray-400" />
               <h3 className="mt-2 text-sm font-medium text-gray-900">No equipment types found</h3>
               <p className="mt-1 text-sm text-gray-500">
-                {searchTerm || categoryFilter ? 'No equipment types match your current filters.' : 'Start by adding your first equipment type.'}
+                {searchTerm || categoryFilter || siteFilter ? 'No equipment types match your current filters.' : 'Start by adding your first equipment type.'}
               </p>
             </div>
           )}
@@ -419,6 +456,33 @@ const EquipmentManagementPage: React.FC = () => {
           fetchEquipmentStats(); // Refresh the stats
         }}
       />
+
+      {/* Import Equipment Modal */}
+      <CsvImportModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        onSuccess={() => {
+          fetchEquipmentTypes();
+          fetchEquipmentStats();
+        }}
+        title="Import Equipment from CSV"
+        endpoint={API_ENDPOINTS.EQUIPMENT.IMPORT}
+        instructions={
+          <>
+            <p>
+              Each row adds one equipment instance. Required columns are <strong>equipment_code</strong>,{' '}
+              <strong>serial_number</strong> and <strong>purchase_date</strong>. Dates use YYYY-MM-DD.
+            </p>
+            <p>Leave <strong>expiry_date</strong> empty to use the equipment type&apos;s default lifespan.</p>
+          </>
+        }
+        templateCsv={EQUIPMENT_IMPORT_TEMPLATE}
+        templateFileName="equipment_import_template.csv"
+        identifierKey="serial_number"
+        identifierLabel="Serial Number"
+        itemLabel="equipment instance"
+        successHint="They are now available to assign to clients."
+      />
     </DashboardLayout>
     </RequireRole>
   );
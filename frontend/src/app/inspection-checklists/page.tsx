@@ -0,0 +1,261 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorDisplay from '@/components/ui/ErrorDisplay';
+import RequireRole from '@/components/auth/RequireRole';
+import ChecklistModal, { ChecklistTemplate } from '@/components/modals/ChecklistModal';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import {
+  ClipboardDocumentCheckIcon,
+  PlusIcon,
+  PencilIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+
+export default function InspectionChecklistsPage() {
+  const { showToast } = useToast();
+  const { confirm } = useConfirmModal();
+
+  const [checklists, setChecklists] = useState<ChecklistTemplate[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingChecklist, setEditingChecklist] = useState<ChecklistTemplate | null>(null);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+  const fetchChecklists = useCallback(async () => {
+    try {
+      const url = API_ENDPOINTS.CHECKLISTS.LIST;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (!response.ok) throw new Error('Failed to fetch checklists');
+
+      const data = await response.json();
+      setChecklists(data.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch checklists');
+    }
+  }, []);
+
+  const fetchEquipmentTypes = async () => {
+    try {
+      const url = API_ENDPOINTS.CHECKLISTS.EQUIPMENT_TYPES;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (response.ok) {
+        const data = await response.json();
+        setEquipmentTypes(data.data || []);
+      }
+    } catch (err) {
+      console.error('Error fetching equipment types:', err);
+    }
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await Promise.all([fetchChecklists(), fetchEquipmentTypes()]);
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [fetchChecklists]);
+
+  const openCreate = () => {
+    setEditingChecklist(null);
+    setShowModal(true);
+  };
+
+  const openEdit = (checklist: ChecklistTemplate) => {
+    setEditingChecklist(checklist);
+    setShowModal(true);
+  };
+
+  // Enable or disable a checklist without losing its items
+  const handleToggleActive = async (checklist: ChecklistTemplate) => {
+    setUpdatingId(checklist.id);
+
+    try {
+      const url = API_ENDPOINTS.CHECKLISTS.UPDATE(checklist.id);
+      logApiCall('PUT', url);
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ is_active: !checklist.is_active })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to update checklist');
+      }
+
+      showToast('success', checklist.is_active ? 'Checklist disabled' : 'Checklist enabled');
+      await fetchChecklists();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to update checklist');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (checklist: ChecklistTemplate) => {
+    const confirmed = await confirm({
+      title: 'Delete Checklist',
+      message: `Delete the ${checklist.equipment_type} checklist? Results already recorded on tickets are kept.`,
+      confirmText: 'Delete',
+      type: 'danger'
+    });
+
+    if (!confirmed) return;
+
+    setUpdatingId(checklist.id);
+
+    try {
+      const url = API_ENDPOINTS.CHECKLISTS.DELETE(checklist.id);
+      logApiCall('DELETE', url);
+      const response = await fetch(url, {
+        method: 'DELETE',
+        headers: getAuthHeaders()
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete checklist');
+      }
+
+      showToast('success', 'Checklist deleted');
+      await fetchChecklists();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to delete checklist');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <RequireRole allowedRoles={['vendor']}>
+        <DashboardLayout>
+          <div className="flex items-center justify-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  if (error) {
+    return (
+      <RequireRole allowedRoles={['vendor']}>
+        <DashboardLayout>
+          <ErrorDisplay message={error} />
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  return (
+    <RequireRole allowedRoles={['vendor']}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Page Header */}
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <div className="flex-shrink-0">
+                <ClipboardDocumentCheckIcon className="h-8 w-8 text-gray-900" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Inspection Checklists</h1>
+                <p className="text-gray-600 mt-1">Define what technicians check when servicing each equipment type</p>
+              </div>
+            </div>
+            <button
+              onClick={openCreate}
+              className="btn-primary flex items-center space-x-2"
+            >
+              <PlusIcon className="h-5 w-5" />
+              <span>New Checklist</span>
+            </button>
+          </div>
+
+          {checklists.length === 0 ? (
+            <div className="bg-white rounded-2xl border border-gray-100 text-center py-12">
+              <ClipboardDocumentCheckIcon className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">No checklists yet. Create one for an equipment type to require it on maintenance tickets.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {checklists.map((checklist) => (
+                <div key={checklist.id} className="bg-white rounded-2xl border border-gray-100 p-6">
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900">{checklist.checklist_name}</h3>
+                      <p className="text-sm text-gray-500">{checklist.equipment_type}</p>
+                    </div>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      checklist.is_active
+                        ? 'bg-green-100 text-green-800'
+                        : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {checklist.is_active ? 'active' : 'disabled'}
+                    </span>
+                  </div>
+
+                  <ol className="list-decimal list-inside space-y-1 text-sm text-gray-700 mb-4">
+                    {checklist.items.map((item) => (
+                      <li key={item.id}>{item.item_text}</li>
+                    ))}
+                  </ol>
+
+                  <div className="flex items-center justify-end space-x-4 pt-4 border-t border-gray-100">
+                    <button
+                      onClick={() => handleToggleActive(checklist)}
+                      disabled={updatingId === checklist.id}
+                      className="text-sm font-medium text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                    >
+                      {checklist.is_active ? 'Disable' : 'Enable'}
+                    </button>
+                    <button
+                      onClick={() => openEdit(checklist)}
+                      disabled={updatingId === checklist.id}
+                      className="text-sm font-medium text-gray-600 hover:text-gray-900 flex items-center space-x-1 disabled:opacity-50"
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                      <span>Edit</span>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(checklist)}
+                      disabled={updatingId === checklist.id}
+                      className="text-sm font-medium text-red-600 hover:text-red-800 flex items-center space-x-1 disabled:opacity-50"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                      <span>Delete</span>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <ChecklistModal
+          isOpen={showModal}
+          onClose={() => setShowModal(false)}
+          onSaved={fetchChecklists}
+          equipmentTypes={equipmentTypes}
+          checklist={editingChecklist}
+        />
+      </DashboardLayout>
+    </RequireRole>
+  );
+}
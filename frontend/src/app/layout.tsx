@@ -5,6 +5,7 @@ import Footer from "../components/layout/Footer";
 import { ToastProvider } from "../components/providers/ToastProvider";
 import { ConfirmModalProvider } from "../components/providers/ConfirmModalProvider";
 import { TokenProvider } from "../contexts/TokenContext";
+import { NotificationStreamProvider } from "../components/providers/NotificationStreamProvider";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -34,10 +35,12 @@ export default function RootLayout({
         <ToastProvider>
           <ConfirmModalProvider>
             <TokenProvider>
-              <div className="flex-1 flex flex-col overflow-hidden">
-                {children}
-              </div>
-              <Footer />
+              <NotificationStreamProvider>
+                <div className="flex-1 flex flex-col overflow-hidden">
+                  {children}
+                </div>
+                <Footer />
+              </NotificationStreamProvider>
             </TokenProvider>
           </ConfirmModalProvider>
         </ToastProvider>
@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import axios from 'axios';
+import Link from 'next/link';
+import { EnvelopeIcon } from '@heroicons/react/24/outline';
+import { API_ENDPOINTS, logApiCall } from '../../../config/api';
+import { useToast } from '../../../components/providers/ToastProvider';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [submittedEmail, setSubmittedEmail] = useState<string | null>(null);
+  const toast = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setIsLoading(true);
+
+    try {
+      logApiCall('POST', API_ENDPOINTS.AUTH.FORGOT_PASSWORD, data);
+      await axios.post(API_ENDPOINTS.AUTH.FORGOT_PASSWORD, data);
+      setSubmittedEmail(data.email);
+    } catch (error: unknown) {
+      const errorMessage = (error as any).response?.data?.message || 'Could not send the reset link. Please try again.';
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex items-center justify-center py-8 px-4 sm:px-6 lg:px-8 bg-primary-bg">
+      <div className="max-w-xl w-full">
+        <div className="card" style={{ padding: '2.5rem' }}>
+          <div className="px-8 py-10">
+            {/* Header */}
+            <div className="mb-6">
+              <h1 className="text-3xl font-semibold text-left mb-1" style={{fontFamily: 'Segoe UI, Helvetica Neue, Arial, sans-serif', color: '#E53935'}}>Forgot Password</h1>
+              <p className="text-sm text-gray-600 text-left">
+                Enter your account email and we will send you a link to reset your password
+              </p>
+            </div>
+
+            {submittedEmail ? (
+              <div className="space-y-4">
+                <div className="flex items-start space-x-3 p-4 bg-green-50 rounded-xl border border-green-100">
+                  <EnvelopeIcon className="h-5 w-5 text-green-600 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-gray-700">
+                    If an account exists for <strong>{submittedEmail}</strong>, a reset link is on its way.
+                    The link expires in one hour and can only be used once.
+                  </p>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Didn&apos;t get it? Check your spam folder, or{' '}
+                  <button
+                    type="button"
+                    onClick={() => setSubmittedEmail(null)}
+                    className="text-accent hover:text-accent-dark transition-colors"
+                  >
+                    try again
+                  </button>
+                  .
+                </p>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-3">
+                <div>
+                  <input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    className={`input-field ${errors.email ? 'border-red-500 focus:border-red-500' : ''}`}
+                    placeholder="Email"
+                    {...register('email')}
+                  />
+                  {errors.email && (
+                    <p className="mt-2 text-sm text-red-600">{errors.email.message}</p>
+                  )}
+                </div>
+
+                <div className="pt-2 flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={isLoading}
+                    className="btn-primary px-8 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoading ? 'Sending...' : 'Send Reset Link'}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            <div className="flex justify-end mt-6">
+              <Link
+                href="/login"
+                className="text-sm text-accent hover:text-accent-dark transition-colors"
+              >
+                Back to login
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
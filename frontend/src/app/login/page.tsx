@@ -5,6 +5,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import axios from 'axios';
+import Link from 'next/link';
 import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
 import { API_ENDPOINTS, logApiCall } from '../../config/api';
 import { useToast } from '../../components/providers/ToastProvider';
@@ -18,10 +19,15 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+const TWO_FACTOR_SETUP_PATH = '/profile?tab=security&twoFactor=required';
+
 export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showChangePasswordModal, setShowChangePasswordModal] = useState(false);
+  const [requireTwoFactorSetup, setRequireTwoFactorSetup] = useState(false);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<{ token: string; password: string } | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
   const toast = useToast();
 
   const {
@@ -42,6 +48,41 @@ export default function LoginPage() {
     }
   }, []); // Only run once on mount
 
+  // Where to go after signing in, e.g. back to a scanned asset label
+  const getRedirectPath = () => {
+    const redirect = new URLSearchParams(window.location.search).get('redirect');
+    return redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/dashboard';
+  };
+
+  const finishLogin = (data: any, password: string) => {
+    localStorage.setItem('token', data.token);
+    localStorage.setItem('user', JSON.stringify(data.user));
+
+    // Check if password change is required (first login with temporary password)
+    if (data.requirePasswordChange) {
+      // Store the temporary password temporarily for the change password modal
+      localStorage.setItem('temp_password', password);
+      setRequireTwoFactorSetup(Boolean(data.requireTwoFactorSetup));
+      setShowChangePasswordModal(true);
+      toast.info('Please change your temporary password to continue');
+    } else if (data.requireTwoFactorSetup) {
+      toast.info('Your organisation requires two-factor authentication. Please set it up to continue.');
+      setTimeout(() => {
+        window.location.href = TWO_FACTOR_SETUP_PATH;
+      }, 1000);
+    } else {
+      // Show success toast
+      toast.success('Login successful! Redirecting...');
+
+      // Redirect after a short delay to show the toast
+      setTimeout(() => {
+        // All user types now go to the same dashboard URL
+        // The dashboard page will render different content based on user_type
+        window.location.href = getRedirectPath();
+      }, 1000);
+    }
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     setIsLoading(true);
 
@@ -50,26 +91,14 @@ export default function LoginPage() {
       const response = await axios.post(API_ENDPOINTS.AUTH.LOGIN, data);
       
       if (response.data.success) {
-        localStorage.setItem('token', response.data.data.token);
-        localStorage.setItem('user', JSON.stringify(response.data.data.user));
-
-        // Check if password change is required (first login with temporary password)
-        if (response.data.data.requirePasswordChange) {
-          // Store the temporary password temporarily for the change password modal
-          localStorage.setItem('temp_password', data.password);
-          setShowChangePasswordModal(true);
-          toast.info('Please change your temporary password to continue');
-        } else {
-          // Show success toast
-          toast.success('Login successful! Redirecting...');
-
-          // Redirect after a short delay to show the toast
-          setTimeout(() => {
-            // All user types now go to the same dashboard URL
-            // The dashboard page will render different content based on user_type
-            window.location.href = '/dashboard';
-          }, 1000);
+        if (response.data.data.twoFactorRequired) {
+          // Password checked out; the authenticator code is the second step
+          setTwoFactorChallenge({ token: response.data.data.challengeToken, password: data.password });
+          setTwoFactorCode('');
+          return;
         }
+
+        finishLogin(response.data.data, data.password);
       }
     } catch (error: unknown) {
       const errorMessage = (error as any).response?.data?.message || 'Login failed. Please try again.';
@@ -79,6 +108,35 @@ export default function LoginPage() {
     }
   };
 
+  const onSubmitTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorChallenge || !twoFactorCode.trim()) return;
+
+    setIsLoading(true);
+
+    try {
+      logApiCall('POST', API_ENDPOINTS.AUTH.LOGIN_TWO_FACTOR);
+      const response = await axios.post(API_ENDPOINTS.AUTH.LOGIN_TWO_FACTOR, {
+        challengeToken: twoFactorChallenge.token,
+        code: twoFactorCode.trim()
+      });
+
+      if (response.data.success) {
+        finishLogin(response.data.data, twoFactorChallenge.password);
+      }
+    } catch (error: unknown) {
+      const responseData = (error as any).response?.data;
+      toast.error(responseData?.message || 'Verification failed. Please try again.');
+
+      if (responseData?.code === 'TWO_FACTOR_CHALLENGE_EXPIRED' || responseData?.code === 'ACCOUNT_LOCKED') {
+        setTwoFactorChallenge(null);
+      }
+      setTwoFactorCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handlePasswordChanged = () => {
     // Remove temporary password from storage
     localStorage.removeItem('temp_password');
@@ -87,7 +145,7 @@ export default function LoginPage() {
     // Show success toast and redirect
     toast.success('Password changed successfully! Redirecting...');
     setTimeout(() => {
-      window.location.href = '/dashboard';
+      window.location.href = requireTwoFactorSetup ? TWO_FACTOR_SETUP_PATH : getRedirectPath();
     }, 1000);
   };
 
@@ -99,11 +157,55 @@ export default function LoginPage() {
           <div className="px-8 py-10">
             {/* Header */}
             <div className="mb-6">
-            <h1 className="text-3xl font-semibold text-left mb-1" style={{fontFamily: 'Segoe UI, Helvetica Neue, Arial, sans-serif', color: '#E53935'}}>Welcome Back</h1>
-            <p className="text-sm text-gray-600 text-left">Please sign in to your account</p>
+            <h1 className="text-3xl font-semibold text-left mb-1" style={{fontFamily: 'Segoe UI, Helvetica Neue, Arial, sans-serif', color: '#E53935'}}>
+              {twoFactorChallenge ? 'Verify It\'s You' : 'Welcome Back'}
+            </h1>
+            <p className="text-sm text-gray-600 text-left">
+              {twoFactorChallenge
+                ? 'Enter the 6-digit code from your authenticator app'
+                : 'Please sign in to your account'}
+            </p>
             </div>
 
-            {/* Login Form */}
+            {twoFactorChallenge ? (
+              <form onSubmit={onSubmitTwoFactor} className="space-y-3">
+                <div>
+                  <input
+                    id="twoFactorCode"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    maxLength={20}
+                    className="input-field tracking-widest"
+                    placeholder="123456"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                  />
+                  <p className="mt-2 text-xs text-gray-500">
+                    Lost your device? Enter one of your recovery codes instead.
+                  </p>
+                </div>
+
+                <div className="pt-2 flex items-center justify-between">
+                  <button
+                    type="button"
+                    onClick={() => setTwoFactorChallenge(null)}
+                    className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                  >
+                    Back to sign in
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isLoading || !twoFactorCode.trim()}
+                    className="btn-primary px-8 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoading ? 'Verifying...' : 'Verify'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+            /* Login Form */
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-3">
               {/* Email Field */}
               <div>
@@ -187,12 +289,12 @@ export default function LoginPage() {
 
               {/* Forgot Password Link */}
               <div className="flex justify-end mb-6">
-                <a
-                  href="#"
+                <Link
+                  href="/login/forgot-password"
                   className="text-sm text-accent hover:text-accent-dark transition-colors"
                 >
                   Forgot password?
-                </a>
+                </Link>
               </div>
 
               {/* Demo Credentials 
@@ -205,6 +307,7 @@ export default function LoginPage() {
                 </div>
               </div>*/}
             </form>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import Link from 'next/link';
+import { EyeIcon, EyeSlashIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { API_ENDPOINTS, logApiCall } from '../../../config/api';
+import { useToast } from '../../../components/providers/ToastProvider';
+import LoadingSpinner from '../../../components/ui/LoadingSpinner';
+
+interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSpecialChar: boolean;
+}
+
+type ResetStatus = 'checking' | 'valid' | 'invalid' | 'done';
+
+// Mirrors the server-side checks so problems show before submitting
+const getPolicyErrors = (password: string, policy: PasswordPolicy): string[] => {
+  const errors: string[] = [];
+  if (password.length < policy.minLength) errors.push(`At least ${policy.minLength} characters`);
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) errors.push('One uppercase letter');
+  if (policy.requireLowercase && !/[a-z]/.test(password)) errors.push('One lowercase letter');
+  if (policy.requireNumber && !/\d/.test(password)) errors.push('One number');
+  if (policy.requireSpecialChar && !/[!@#$%^&*(),.?":{}|<>]/.test(password)) errors.push('One special character');
+  return errors;
+};
+
+export default function ResetPasswordPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [status, setStatus] = useState<ResetStatus>('checking');
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [serverErrors, setServerErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const toast = useToast();
+
+  // Check the link before asking for a new password
+  useEffect(() => {
+    const resetToken = new URLSearchParams(window.location.search).get('token');
+    if (!resetToken) {
+      setStatus('invalid');
+      return;
+    }
+    setToken(resetToken);
+
+    const verify = async () => {
+      try {
+        logApiCall('POST', API_ENDPOINTS.AUTH.VERIFY_RESET_TOKEN);
+        const response = await axios.post(API_ENDPOINTS.AUTH.VERIFY_RESET_TOKEN, { token: resetToken });
+        setPolicy(response.data.data.password_policy);
+        setStatus('valid');
+      } catch {
+        setStatus('invalid');
+      }
+    };
+
+    verify();
+  }, []);
+
+  const policyErrors = policy ? getPolicyErrors(newPassword, policy) : [];
+  const passwordsMatch = newPassword === confirmPassword;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || policyErrors.length > 0 || !passwordsMatch) return;
+
+    setIsSubmitting(true);
+    setServerErrors([]);
+
+    try {
+      logApiCall('POST', API_ENDPOINTS.AUTH.RESET_PASSWORD);
+      await axios.post(API_ENDPOINTS.AUTH.RESET_PASSWORD, { token, newPassword });
+      setStatus('done');
+      toast.success('Password reset successfully');
+    } catch (error: unknown) {
+      const data = (error as any).response?.data;
+      if (data?.errors?.length) {
+        setServerErrors(data.errors);
+      } else if ((error as any).response?.status === 400) {
+        // Expired or used while the page was open
+        setStatus('invalid');
+      } else {
+        toast.error(data?.message || 'Failed to reset password. Please try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex items-center justify-center py-8 px-4 sm:px-6 lg:px-8 bg-primary-bg">
+      <div className="max-w-xl w-full">
+        <div className="card" style={{ padding: '2.5rem' }}>
+          <div className="px-8 py-10">
+            {/* Header */}
+            <div className="mb-6">
+              <h1 className="text-3xl font-semibold text-left mb-1" style={{fontFamily: 'Segoe UI, Helvetica Neue, Arial, sans-serif', color: '#E53935'}}>Reset Password</h1>
+              <p className="text-sm text-gray-600 text-left">Choose a new password for your account</p>
+            </div>
+
+            {status === 'checking' && <LoadingSpinner text="Checking reset link..." />}
+
+            {status === 'invalid' && (
+              <div className="space-y-4">
+                <div className="flex items-start space-x-3 p-4 bg-red-50 rounded-xl border border-red-100">
+                  <ExclamationTriangleIcon className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-gray-700">
+                    This reset link is invalid or has expired. Reset links can only be used once.
+                  </p>
+                </div>
+                <div className="flex justify-end">
+                  <Link href="/login/forgot-password" className="btn-primary px-8">
+                    Request a New Link
+                  </Link>
+                </div>
+              </div>
+            )}
+
+            {status === 'done' && (
+              <div className="space-y-4">
+                <div className="flex items-start space-x-3 p-4 bg-green-50 rounded-xl border border-green-100">
+                  <CheckCircleIcon className="h-5 w-5 text-green-600 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-gray-700">Your password has been changed. You can now log in with it.</p>
+                </div>
+                <div className="flex justify-end">
+                  <Link href="/login" className="btn-primary px-8">
+                    Go to Login
+                  </Link>
+                </div>
+              </div>
+            )}
+
+            {status === 'valid' && policy && (
+              <form onSubmit={handleSubmit} className="space-y-3">
+                <div className="relative">
+                  <input
+                    id="newPassword"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="new-password"
+                    className="input-field pr-10"
+                    placeholder="New password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <EyeSlashIcon className="h-5 w-5 text-gray-400 hover:text-gray-600" />
+                    ) : (
+                      <EyeIcon className="h-5 w-5 text-gray-400 hover:text-gray-600" />
+                    )}
+                  </button>
+                </div>
+
+                <div>
+                  <input
+                    id="confirmPassword"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="new-password"
+                    className={`input-field ${confirmPassword && !passwordsMatch ? 'border-red-500 focus:border-red-500' : ''}`}
+                    placeholder="Confirm new password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                  />
+                  {confirmPassword && !passwordsMatch && (
+                    <p className="mt-2 text-sm text-red-600">Passwords do not match</p>
+                  )}
+                </div>
+
+                {/* Requirements */}
+                {newPassword && policyErrors.length > 0 && (
+                  <div className="text-sm text-gray-600">
+                    <p className="font-medium text-gray-700 mb-1">Password needs:</p>
+                    <ul className="list-disc list-inside space-y-0.5">
+                      {policyErrors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  </div>
+                )}
+
+                {serverErrors.length > 0 && (
+                  <ul className="text-sm text-red-600 list-disc list-inside space-y-0.5">
+                    {serverErrors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                )}
+
+                <div className="pt-2 flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting || !newPassword || policyErrors.length > 0 || !passwordsMatch}
+                    className="btn-primary px-8 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSubmitting ? 'Saving...' : 'Reset Password'}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            <div className="flex justify-end mt-6">
+              <Link
+                href="/login"
+                className="text-sm text-accent hover:text-accent-dark transition-colors"
+              >
+                Back to login
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,12 @@ import DashboardLayout from '@/components/layout/DashboardLayout';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorDisplay from '@/components/ui/ErrorDisplay';
 import ResolveTicketModal from '@/components/modals/ResolveTicketModal';
+import AttachmentsPanel from '@/components/attachments/AttachmentsPanel';
+import TicketBillingPanel from '@/components/billing/TicketBillingPanel';
+import { UsedPartsList, TicketPart } from '@/components/maintenance/TicketPartsFields';
+import TicketSlaStatus, { TicketSla } from '@/components/maintenance/TicketSlaStatus';
 import { useToast } from '@/components/providers/ToastProvider';
+import { useNotificationStream, getNotificationTicketId } from '@/components/providers/NotificationStreamProvider';
 import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
 import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
 import Link from 'next/link';
@@ -29,7 +34,7 @@ import {
 } from '@heroicons/react/24/outline';
 
 // Types
-interface TicketDetails {
+interface TicketDetails extends TicketSla {
   id: number;
   ticket_number: string;
   ticket_status: 'open' | 'resolved' | 'closed';
@@ -38,11 +43,17 @@ interface TicketDetails {
   issue_description: string;
   resolution_description?: string;
   scheduled_date?: string;
+  estimated_hours?: number | null;
   created_at: string;
   updated_at: string;
   resolved_at?: string;
   calculated_hours?: number;
+  actual_hours?: number;
   cost?: number;
+  assigned_technician?: {
+    id: number;
+    display_name: string;
+  };
   client?: {
     id: number;
     company_name: string;
@@ -74,9 +85,22 @@ interface UpdateTicketData {
   priority?: 'low' | 'normal' | 'high';
   issue_description?: string;
   scheduled_date?: string;
+  estimated_hours?: number;
+  assigned_technician?: number | null;
 }
 
+interface InspectionResult {
+  checklist_item_id: number | null;
+  item_text: string;
+  result: 'pass' | 'fail' | 'na';
+  notes?: string;
+}
 
+interface TechnicianOption {
+  id: number;
+  display_name: string;
+  is_owner?: boolean;
+}
 
 export default function TicketDetailsPage() {
   const params = useParams();
@@ -89,6 +113,9 @@ export default function TicketDetailsPage() {
   // State management
   const [ticket, setTicket] = useState<TicketDetails | null>(null);
   const [relatedTickets, setRelatedTickets] = useState<RelatedTicket[]>([]);
+  const [technicians, setTechnicians] = useState<TechnicianOption[]>([]);
+  const [inspectionResults, setInspectionResults] = useState<InspectionResult[]>([]);
+  const [usedParts, setUsedParts] = useState<TicketPart[]>([]);
   
   // Loading states
   const [isLoading, setIsLoading] = useState(true);
@@ -135,7 +162,9 @@ export default function TicketDetailsPage() {
         ticket_status: data.data.ticket_status,
         priority: data.data.priority,
         issue_description: data.data.issue_description,
-        scheduled_date: data.data.scheduled_date
+        scheduled_date: data.data.scheduled_date,
+        estimated_hours: data.data.estimated_hours ?? undefined,
+        assigned_technician: data.data.assigned_technician?.id
       });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch ticket details');
@@ -165,6 +194,60 @@ export default function TicketDetailsPage() {
 
 
 
+  // Fetch technicians the ticket can be assigned to
+  const fetchTechnicians = async () => {
+    try {
+      const headers = getAuthHeaders();
+      const url = API_ENDPOINTS.MAINTENANCE_TICKETS.TECHNICIANS;
+
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers });
+
+      if (response.ok) {
+        const data = await response.json();
+        setTechnicians(data.data || []);
+      }
+    } catch (err) {
+      console.error('Error fetching technicians:', err);
+    }
+  };
+
+  // Fetch recorded inspection checklist results
+  const fetchInspectionResults = async () => {
+    try {
+      const headers = getAuthHeaders();
+      const url = API_ENDPOINTS.MAINTENANCE_TICKETS.CHECKLIST(ticketId);
+
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers });
+
+      if (response.ok) {
+        const data = await response.json();
+        setInspectionResults(data.data.results || []);
+      }
+    } catch (err) {
+      console.error('Error fetching inspection results:', err);
+    }
+  };
+
+  // Fetch the parts recorded when the ticket was resolved
+  const fetchUsedParts = async () => {
+    try {
+      const headers = getAuthHeaders();
+      const url = API_ENDPOINTS.MAINTENANCE_TICKETS.PARTS(ticketId);
+
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers });
+
+      if (response.ok) {
+        const data = await response.json();
+        setUsedParts(data.data || []);
+      }
+    } catch (err) {
+      console.error('Error fetching ticket parts:', err);
+    }
+  };
+
   // Initial data loading
   useEffect(() => {
     if (isNaN(ticketId)) {
@@ -177,7 +260,10 @@ export default function TicketDetailsPage() {
       setIsLoading(true);
       await Promise.all([
         fetchTicketDetails(),
-        fetchRelatedTickets()
+        fetchRelatedTickets(),
+        fetchTechnicians(),
+        fetchInspectionResults(),
+        fetchUsedParts()
       ]);
       setIsLoading(false);
     };
@@ -185,6 +271,13 @@ export default function TicketDetailsPage() {
     loadData();
   }, [ticketId]);
 
+  // Pick up changes made elsewhere, but never overwrite an edit in progress
+  useNotificationStream((event) => {
+    if (event.type === 'notification' && getNotificationTicketId(event.notification) === ticketId && !isEditMode) {
+      fetchTicketDetails();
+    }
+  });
+
   // Update ticket handler
   const handleUpdateTicket = async () => {
     setIsUpdating(true);
@@ -209,6 +302,12 @@ export default function TicketDetailsPage() {
       if (editFormData.scheduled_date !== undefined && editFormData.scheduled_date !== '') {
         updatePayload.scheduled_date = editFormData.scheduled_date;
       }
+      if (editFormData.estimated_hours !== undefined && editFormData.estimated_hours !== ticket?.estimated_hours) {
+        updatePayload.estimated_hours = editFormData.estimated_hours;
+      }
+      if (editFormData.assigned_technician !== undefined && editFormData.assigned_technician !== (ticket?.assigned_technician?.id ?? null)) {
+        updatePayload.assigned_technician = editFormData.assigned_technician;
+      }
 
       logApiCall('PUT', url);
       const response = await fetch(url, {
@@ -237,7 +336,7 @@ export default function TicketDetailsPage() {
   const handleResolveSuccess = async () => {
     setShowResolveModal(false);
     showToast('success', 'Ticket resolved successfully');
-    await fetchTicketDetails();
+    await Promise.all([fetchTicketDetails(), fetchInspectionResults(), fetchUsedParts()]);
   };
 
   // Close ticket handler
@@ -571,6 +670,38 @@ export default function TicketDetailsPage() {
                             className="input-field"
                           />
                         </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Estimated Hours
+                          </label>
+                          <input
+                            type="number"
+                            step="0.25"
+                            min="0.25"
+                            value={editFormData.estimated_hours ?? ''}
+                            onChange={(e) => setEditFormData({ ...editFormData, estimated_hours: e.target.value ? parseFloat(e.target.value) : undefined })}
+                            className="input-field"
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Assigned Technician
+                          </label>
+                          <select
+                            value={editFormData.assigned_technician ?? ''}
+                            onChange={(e) => setEditFormData({ ...editFormData, assigned_technician: e.target.value ? parseInt(e.target.value) : null })}
+                            className="input-field"
+                          >
+                            <option value="">Unassigned</option>
+                            {technicians.map((technician) => (
+                              <option key={technician.id} value={technician.id}>
+                                {technician.is_owner ? `${technician.display_name} (me)` : technician.display_name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
                       </div>
                       
                       <div>
@@ -608,6 +739,11 @@ export default function TicketDetailsPage() {
                             {ticket.support_type}
                           </span>
                         </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">Assigned Technician</label>
+                          <p className="text-sm text-gray-900 mt-1">{ticket.assigned_technician?.display_name || 'Unassigned'}</p>
+                        </div>
                       </div>
 
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
@@ -620,6 +756,20 @@ export default function TicketDetailsPage() {
                           <label className="block text-sm font-medium text-gray-700">Calculated Hours</label>
                           <p className="text-sm text-gray-900">{ticket.calculated_hours ? Number(ticket.calculated_hours).toFixed(1) : '0.0'} hours</p>
                         </div>
+
+                        {ticket.estimated_hours != null && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700">Estimated Hours</label>
+                            <p className="text-sm text-gray-900">{Number(ticket.estimated_hours).toFixed(1)} hours</p>
+                          </div>
+                        )}
+
+                        {ticket.actual_hours != null && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700">Hours Worked</label>
+                            <p className="text-sm text-gray-900">{Number(ticket.actual_hours).toFixed(1)} hours</p>
+                          </div>
+                        )}
                         
                         {ticket.scheduled_date && (
                           <div>
@@ -654,10 +804,45 @@ export default function TicketDetailsPage() {
                           <p className="text-sm text-gray-900 mt-1">{ticket.resolution_description}</p>
                         </div>
                       )}
+
+                      {inspectionResults.length > 0 && (
+                        <div className="mt-6">
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Inspection Checklist</label>
+                          <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+                            {inspectionResults.map((result, index) => (
+                              <li key={index} className="flex items-start justify-between px-4 py-2">
+                                <div>
+                                  <p className="text-sm text-gray-900">{result.item_text}</p>
+                                  {result.notes && <p className="text-xs text-gray-500 mt-0.5">{result.notes}</p>}
+                                </div>
+                                <span className={`inline-flex px-2.5 py-0.5 text-xs font-semibold rounded-full border ${
+                                  result.result === 'pass'
+                                    ? 'bg-green-100 text-green-800 border-green-200'
+                                    : result.result === 'fail'
+                                      ? 'bg-red-100 text-red-800 border-red-200'
+                                      : 'bg-gray-100 text-gray-800 border-gray-200'
+                                }`}>
+                                  {result.result === 'na' ? 'N/A' : result.result}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {usedParts.length > 0 && (
+                        <div className="mt-6">
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Parts Used</label>
+                          <UsedPartsList parts={usedParts} />
+                        </div>
+                      )}
                     </>
                   )}
                 </div>
 
+                {/* Service contract due-by times */}
+                <TicketSlaStatus ticket={ticket} />
+
                 {/* Client Information */}
                 {ticket.client && (
                   <div>
@@ -731,6 +916,12 @@ export default function TicketDetailsPage() {
                     </div>
                   </div>
                 )}
+
+                {/* Billing */}
+                <TicketBillingPanel ticketId={ticketId} ticketStatus={ticket.ticket_status} viewer="vendor" />
+
+                {/* Attachments */}
+                <AttachmentsPanel entityType="ticket" entityId={ticketId} canUpload canDelete />
               </div>
             )}
 
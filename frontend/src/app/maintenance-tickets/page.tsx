@@ -6,7 +6,11 @@ import DashboardLayout from '@/components/layout/DashboardLayout';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorDisplay from '@/components/ui/ErrorDisplay';
 import CreateTicketModal from '@/components/modals/CreateTicketModal';
+import CalendarFeedModal from '@/components/modals/CalendarFeedModal';
+import TicketCalendar from '@/components/maintenance/TicketCalendar';
+import TechnicianBoard from '@/components/maintenance/TechnicianBoard';
 import { useToast } from '@/components/providers/ToastProvider';
+import { useNotificationStream, getNotificationTicketId } from '@/components/providers/NotificationStreamProvider';
 import { API_ENDPOINTS, buildApiUrl } from '@/config/api';
 import Link from 'next/link';
 import Image from 'next/image';
@@ -22,7 +26,11 @@ import {
   UserIcon,
   CalendarIcon,
   ArrowTopRightOnSquareIcon,
-  FunnelIcon
+  FunnelIcon,
+  ListBulletIcon,
+  CalendarDaysIcon,
+  ViewColumnsIcon,
+  RssIcon
 } from '@heroicons/react/24/outline';
 
 // Types
@@ -39,6 +47,7 @@ interface MaintenanceTicket {
   created_at?: string;
   updated_at?: string;
   assigned_technician_name?: string;
+  technician?: string;
 }
 
 interface TicketKPIs {
@@ -65,6 +74,7 @@ interface EquipmentOption {
 interface TechnicianOption {
   id: number;
   display_name: string;
+  is_owner?: boolean;
 }
 
 interface DropdownOption {
@@ -110,8 +120,12 @@ export default function MaintenanceTicketsPage() {
   const [typeFilter, setTypeFilter] = useState<string>('all');
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
   
+  // View mode: paginated list, month/week calendar or technician day board
+  const [viewMode, setViewMode] = useState<'list' | 'calendar' | 'board'>('list');
+
   // Modal and form states
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showFeedModal, setShowFeedModal] = useState(false);
   const [createFormData, setCreateFormData] = useState<CreateTicketData>({
     type: 'maintenance',
     issue: '',
@@ -255,6 +269,13 @@ export default function MaintenanceTicketsPage() {
     loadData();
   }, [fetchTickets]);
 
+  // Refresh the list when any ticket changes
+  useNotificationStream((event) => {
+    if (event.type === 'notification' && getNotificationTicketId(event.notification) !== null) {
+      fetchTickets();
+    }
+  });
+
   // Handle ticket click
   const handleTicketClick = (ticketId: number) => {
     router.push(`/maintenance-tickets/${ticketId}`);
@@ -447,189 +468,241 @@ export default function MaintenanceTicketsPage() {
           </div>
         )}
 
-        {/* Search and Filters */}
-        <div className="bg-white rounded-2xl border border-gray-100 p-6">
-          <div className="flex flex-col sm:flex-row gap-4">
-            {/* Search Bar */}
-            <div className="flex-1 relative">
-              <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-3 text-gray-400" />
-              <input
-                type="text"
-                placeholder="Search tickets by number, client, equipment, or description..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="input-field pl-10"
-              />
-            </div>
+        {/* View Switcher */}
+        <div className="flex items-center justify-between">
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden bg-white">
+            {[
+              { id: 'list' as const, name: 'List', icon: ListBulletIcon },
+              { id: 'calendar' as const, name: 'Calendar', icon: CalendarDaysIcon },
+              { id: 'board' as const, name: 'Technician Board', icon: ViewColumnsIcon }
+            ].map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setViewMode(option.id)}
+                className={`flex items-center space-x-2 px-4 py-2 text-sm font-medium transition-colors ${
+                  viewMode === option.id ? 'bg-red-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <option.icon className="h-4 w-4" />
+                <span>{option.name}</span>
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setShowFeedModal(true)}
+            className="btn-secondary flex items-center space-x-2"
+          >
+            <RssIcon className="h-4 w-4" />
+            <span>Subscribe</span>
+          </button>
+        </div>
 
-            {/* Filters */}
-            <div className="flex gap-3">
-              <div className="relative">
-                <select
-                  value={statusFilter}
-                  onChange={(e) => setStatusFilter(e.target.value)}
-                  className="input-field appearance-none pr-8 min-w-[120px]"
-                >
-                  <option value="all">All Status</option>
-                  <option value="open">Open</option>
-                  <option value="resolved">Resolved</option>
-                  <option value="closed">Closed</option>
-                </select>
-                <ChevronDownIcon className="h-4 w-4 absolute right-2 top-3 text-gray-400 pointer-events-none" />
-              </div>
+        {viewMode === 'calendar' && <TicketCalendar technicians={technicians} />}
 
-              <div className="relative">
-                <select
-                  value={typeFilter}
-                  onChange={(e) => setTypeFilter(e.target.value)}
-                  className="input-field appearance-none pr-8 min-w-[120px]"
-                >
-                  <option value="all">All Types</option>
-                  <option value="maintenance">Maintenance</option>
-                  <option value="system">System</option>
-                  <option value="user">User</option>
-                </select>
-                <ChevronDownIcon className="h-4 w-4 absolute right-2 top-3 text-gray-400 pointer-events-none" />
-              </div>
+        {viewMode === 'board' && <TechnicianBoard technicians={technicians} />}
 
-              <div className="relative">
-                <select
-                  value={priorityFilter}
-                  onChange={(e) => setPriorityFilter(e.target.value)}
-                  className="input-field appearance-none pr-8 min-w-[120px]"
-                >
-                  <option value="all">All Priority</option>
-                  <option value="high">High</option>
-                  <option value="normal">Normal</option>
-                  <option value="low">Low</option>
-                </select>
-                <ChevronDownIcon className="h-4 w-4 absolute right-2 top-3 text-gray-400 pointer-events-none" />
+        {viewMode === 'list' && (
+          <>
+            {/* Search and Filters */}
+            <div className="bg-white rounded-2xl border border-gray-100 p-6">
+              <div className="flex flex-col sm:flex-row gap-4">
+                {/* Search Bar */}
+                <div className="flex-1 relative">
+                  <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-3 text-gray-400" />
+                  <input
+                    type="text"
+                    placeholder="Search tickets by number, client, equipment, or description..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="input-field pl-10"
+                  />
+                </div>
+
+                {/* Filters */}
+                <div className="flex gap-3">
+                  <div className="relative">
+                    <select
+                      value={statusFilter}
+                      onChange={(e) => setStatusFilter(e.target.value)}
+                      className="input-field appearance-none pr-8 min-w-[120px]"
+                    >
+                      <option value="all">All Status</option>
+                      <option value="open">Open</option>
+                      <option value="resolved">Resolved</option>
+                      <option value="closed">Closed</option>
+                    </select>
+                    <ChevronDownIcon className="h-4 w-4 absolute right-2 top-3 text-gray-400 pointer-events-none" />
+                  </div>
+
+                  <div className="relative">
+                    <select
+                      value={typeFilter}
+                      onChange={(e) => setTypeFilter(e.target.value)}
+                      className="input-field appearance-none pr-8 min-w-[120px]"
+                    >
+                      <option value="all">All Types</option>
+                      <option value="maintenance">Maintenance</option>
+                      <option value="system">System</option>
+                      <option value="user">User</option>
+                    </select>
+                    <ChevronDownIcon className="h-4 w-4 absolute right-2 top-3 text-gray-400 pointer-events-none" />
+                  </div>
+
+                  <div className="relative">
+                    <select
+                      value={priorityFilter}
+                      onChange={(e) => setPriorityFilter(e.target.value)}
+                      className="input-field appearance-none pr-8 min-w-[120px]"
+                    >
+                      <option value="all">All Priority</option>
+                      <option value="high">High</option>
+                      <option value="normal">Normal</option>
+                      <option value="low">Low</option>
+                    </select>
+                    <ChevronDownIcon className="h-4 w-4 absolute right-2 top-3 text-gray-400 pointer-events-none" />
+                  </div>
+                </div>
               </div>
             </div>
-          </div>
-        </div>
 
-        {/* Tickets Table */}
-        <div className="bg-white rounded-2xl border border-gray-100">
-          <div className="px-6 py-4 border-b border-gray-100">
-            <h2 className="text-lg font-semibold text-gray-900">
-              Maintenance Tickets ({tickets.length})
-            </h2>
-          </div>
-          <div className="overflow-x-auto">
-            <table className="min-w-full">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
-                    Ticket Details
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
-                    Client & Equipment
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
-                    Priority & Type
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
-                    Status & Schedule
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
-                    Actions
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white">
-              {tickets.map((ticket) => (
-                <tr 
-                  key={ticket.id} 
-                  className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer transition-colors"
-                  onClick={() => handleTicketClick(ticket.id)}
-                >
-                  <td className="px-6 py-4">
-                    <div className="flex items-center">
-                      <div className="flex-shrink-0">
-                        <div className="h-10 w-10 rounded-xl bg-blue-50 flex items-center justify-center">
-                          <WrenchScrewdriverIcon className="h-5 w-5 text-blue-600" />
+            {/* Tickets Table */}
+            <div className="bg-white rounded-2xl border border-gray-100">
+              <div className="px-6 py-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Maintenance Tickets ({tickets.length})
+                </h2>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                        Ticket Details
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                        Client & Equipment
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                        Priority & Type
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                        Status & Schedule
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white">
+                  {tickets.map((ticket) => (
+                    <tr 
+                      key={ticket.id} 
+                      className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer transition-colors"
+                      onClick={() => handleTicketClick(ticket.id)}
+                    >
+                      <td className="px-6 py-4">
+                        <div className="flex items-center">
+                          <div className="flex-shrink-0">
+                            <div className="h-10 w-10 rounded-xl bg-blue-50 flex items-center justify-center">
+                              <WrenchScrewdriverIcon className="h-5 w-5 text-blue-600" />
+                            </div>
+                          </div>
+                          <div className="ml-3">
+                            <div className="text-sm font-medium text-gray-900">#{ticket.ticket_number}</div>
+                            <div className="text-sm text-gray-500">{ticket.issue ? truncateText(ticket.issue, 50) : 'No description'}</div>
+                          </div>
                         </div>
-                      </div>
-                      <div className="ml-3">
-                        <div className="text-sm font-medium text-gray-900">#{ticket.ticket_number}</div>
-                        <div className="text-sm text-gray-500">{ticket.issue ? truncateText(ticket.issue, 50) : 'No description'}</div>
-                      </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="text-sm text-gray-900">{ticket.client_name || 'Unassigned'}</div>
-                    <div className="text-sm text-gray-500">{ticket.equipment ? `Equipment: ${ticket.equipment}` : 'No equipment'}</div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityBadgeColor(ticket.priority)}`}>
-                      {ticket.priority}
-                    </span>
-                    <div className="text-sm text-gray-500 mt-1">{ticket.type}</div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(ticket.status)}`}>
-                      {ticket.status}
-                    </span>
-                    <div className="text-sm text-gray-500 mt-1">
-                      {ticket.scheduled_date ? formatDate(ticket.scheduled_date) : 'Not scheduled'}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="flex items-center space-x-2">
-                      <Link
-                        href={`/maintenance-tickets/${ticket.id}`}
-                        className="text-indigo-600 hover:text-indigo-900 text-sm font-medium"
-                      >
-                        View
-                      </Link>
-                      <span className="text-gray-300">|</span>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          // TODO: Handle edit
-                        }}
-                        className="text-gray-600 hover:text-gray-900 text-sm font-medium"
-                      >
-                        Edit
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-gray-900">{ticket.client_name || 'Unassigned'}</div>
+                        <div className="text-sm text-gray-500">{ticket.equipment ? `Equipment: ${ticket.equipment}` : 'No equipment'}</div>
+                        {ticket.technician && (
+                          <div className="text-xs text-gray-500 mt-1 flex items-center">
+                            <UserIcon className="h-3 w-3 mr-1" />
+                            {ticket.technician}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityBadgeColor(ticket.priority)}`}>
+                          {ticket.priority}
+                        </span>
+                        <div className="text-sm text-gray-500 mt-1">{ticket.type}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(ticket.status)}`}>
+                          {ticket.status}
+                        </span>
+                        <div className="text-sm text-gray-500 mt-1">
+                          {ticket.scheduled_date ? formatDate(ticket.scheduled_date) : 'Not scheduled'}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center space-x-2">
+                          <Link
+                            href={`/maintenance-tickets/${ticket.id}`}
+                            className="text-indigo-600 hover:text-indigo-900 text-sm font-medium"
+                          >
+                            View
+                          </Link>
+                          <span className="text-gray-300">|</span>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              // TODO: Handle edit
+                            }}
+                            className="text-gray-600 hover:text-gray-900 text-sm font-medium"
+                          >
+                            Edit
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
 
-          {/* Pagination */}
-          {!isLoading && totalPages > 1 && (
-            <div className="flex items-center justify-between bg-white px-6 py-4 border-t border-gray-100">
-              <div className="text-sm text-gray-700">
-                Showing {((currentPage - 1) * itemsPerPage) + 1} to{' '}
-                {Math.min(currentPage * itemsPerPage, totalCount)} of{' '}
-                {totalCount} results
-              </div>
-              <div className="flex gap-2">
-                <button
-                  onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                  disabled={currentPage === 1}
-                  className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  Previous
-                </button>
-                <button
-                  onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                  disabled={currentPage === totalPages}
-                  className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  Next
-                </button>
-              </div>
+              {/* Pagination */}
+              {!isLoading && totalPages > 1 && (
+                <div className="flex items-center justify-between bg-white px-6 py-4 border-t border-gray-100">
+                  <div className="text-sm text-gray-700">
+                    Showing {((currentPage - 1) * itemsPerPage) + 1} to{' '}
+                    {Math.min(currentPage * itemsPerPage, totalCount)} of{' '}
+                    {totalCount} results
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                      disabled={currentPage === 1}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+                      disabled={currentPage === totalPages}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Next
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
       </div>
 
+      {/* Calendar Subscription Modal */}
+      <CalendarFeedModal
+        isOpen={showFeedModal}
+        onClose={() => setShowFeedModal(false)}
+        feedEndpoint={API_ENDPOINTS.MAINTENANCE_TICKETS.CALENDAR_FEED}
+        rotateEndpoint={API_ENDPOINTS.MAINTENANCE_TICKETS.CALENDAR_FEED_ROTATE}
+        technicians={technicians}
+      />
+
       {/* Create Ticket Modal */}
       <CreateTicketModal
         isOpen={showCreateModal}
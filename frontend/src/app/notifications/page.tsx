@@ -222,6 +222,7 @@ export default function NotificationsPage() {
       case 'ticket_management':
         if (userType === 'client') return '/service-requests';
         if (userType === 'vendor') return '/maintenance-tickets';
+        if (userType === 'technician') return '/technician-tickets';
         if (userType === 'admin') return '/vendors'; // Admin manages through vendor oversight
         break;
         
@@ -240,6 +241,11 @@ export default function NotificationsPage() {
         if (userType === 'admin') return '/vendors';
         break;
         
+      case 'billing':
+        if (userType === 'client') return '/client-invoices';
+        if (userType === 'vendor') return '/billing';
+        break;
+        
       case 'compliance':
       case 'maintenance':
         if (userType === 'client') return '/clients/analytics'; // Client compliance view
@@ -0,0 +1,510 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorDisplay from '@/components/ui/ErrorDisplay';
+import RequireRole from '@/components/auth/RequireRole';
+import PartModal from '@/components/modals/PartModal';
+import StockMovementModal from '@/components/modals/StockMovementModal';
+import { Part, PartCategory, PART_CATEGORY_LABELS } from '@/components/maintenance/TicketPartsFields';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import {
+  CubeIcon,
+  PlusIcon,
+  ChevronDownIcon,
+  MagnifyingGlassIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+
+// Types
+interface PartUsage {
+  part_id: number;
+  part_number: string;
+  part_name: string;
+  unit: string;
+  quantity_used: number;
+  total_cost: number;
+  tickets_count: number;
+  quantity_on_hand: number;
+}
+
+interface PartsCostByClient {
+  client_id: number | null;
+  client_name: string;
+  tickets_count: number;
+  total_cost: number;
+}
+
+interface PartsCostByMonth {
+  month: string;
+  quantity_used: number;
+  total_cost: number;
+}
+
+interface PartsUsageReport {
+  startDate: string;
+  endDate: string;
+  total_cost: number;
+  parts: PartUsage[];
+  clients: PartsCostByClient[];
+  months: PartsCostByMonth[];
+}
+
+type Tab = 'catalog' | 'usage';
+
+const headerCell = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100';
+
+export default function PartsPage() {
+  const { showToast } = useToast();
+  const { confirm } = useConfirmModal();
+
+  const [activeTab, setActiveTab] = useState<Tab>('catalog');
+  const [parts, setParts] = useState<Part[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [lowStockOnly, setLowStockOnly] = useState(false);
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [showPartModal, setShowPartModal] = useState(false);
+  const [editingPart, setEditingPart] = useState<Part | null>(null);
+  const [stockPart, setStockPart] = useState<Part | null>(null);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+  const [usage, setUsage] = useState<PartsUsageReport | null>(null);
+  const [usageLoading, setUsageLoading] = useState(false);
+  const [dateRange, setDateRange] = useState({
+    start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    end: new Date().toISOString().split('T')[0]
+  });
+
+  // Low stock notifications link here with ?low_stock=true
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('low_stock') === 'true') {
+      setLowStockOnly(true);
+    }
+  }, []);
+
+  const fetchParts = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (search.trim()) params.append('search', search.trim());
+      if (categoryFilter !== 'all') params.append('category', categoryFilter);
+      if (lowStockOnly) params.append('low_stock', 'true');
+      if (includeInactive) params.append('include_inactive', 'true');
+
+      const url = `${API_ENDPOINTS.PARTS.LIST}?${params}`;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (!response.ok) throw new Error('Failed to fetch parts');
+
+      const data = await response.json();
+      setParts(data.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch parts');
+    }
+  }, [search, categoryFilter, lowStockOnly, includeInactive]);
+
+  const fetchUsage = useCallback(async () => {
+    setUsageLoading(true);
+    try {
+      const params = new URLSearchParams({ startDate: dateRange.start, endDate: dateRange.end });
+      const url = `${API_ENDPOINTS.REPORTS.PARTS_USAGE}?${params}`;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (!response.ok) throw new Error('Failed to fetch parts usage');
+
+      const data = await response.json();
+      setUsage(data.data);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to fetch parts usage');
+    } finally {
+      setUsageLoading(false);
+    }
+  }, [dateRange, showToast]);
+
+  // Only the first load blanks the page so the filters keep focus while refetching
+  useEffect(() => {
+    const loadData = async () => {
+      await fetchParts();
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [fetchParts]);
+
+  useEffect(() => {
+    if (activeTab === 'usage') {
+      fetchUsage();
+    }
+  }, [activeTab, fetchUsage]);
+
+  const openPartModal = (part: Part | null) => {
+    setEditingPart(part);
+    setShowPartModal(true);
+  };
+
+  // Retired parts drop out of the technicians' pick list but keep their history
+  const handleToggleActive = async (part: Part) => {
+    if (part.is_active) {
+      const confirmed = await confirm({
+        title: 'Deactivate Part',
+        message: `${part.part_name} will no longer be offered when resolving tickets. Continue?`,
+        confirmText: 'Deactivate',
+        type: 'danger'
+      });
+
+      if (!confirmed) return;
+    }
+
+    setUpdatingId(part.id);
+
+    try {
+      const url = API_ENDPOINTS.PARTS.UPDATE(part.id);
+      logApiCall('PUT', url);
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ is_active: !part.is_active })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to update part');
+      }
+
+      showToast('success', part.is_active ? 'Part deactivated' : 'Part reactivated');
+      await fetchParts();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to update part');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const formatMonth = (month: string) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { year: 'numeric', month: 'short' });
+  };
+
+  if (isLoading) {
+    return (
+      <RequireRole allowedRoles={['vendor']}>
+        <DashboardLayout>
+          <div className="flex items-center justify-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  if (error) {
+    return (
+      <RequireRole allowedRoles={['vendor']}>
+        <DashboardLayout>
+          <ErrorDisplay message={error} />
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  const lowStockCount = parts.filter(part => part.is_active && part.is_low_stock).length;
+
+  return (
+    <RequireRole allowedRoles={['vendor']}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Page Header */}
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <div className="flex-shrink-0">
+                <CubeIcon className="h-8 w-8 text-gray-900" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Parts Inventory</h1>
+                <p className="text-gray-600 mt-1">Track spare parts and consumables used on maintenance tickets</p>
+              </div>
+            </div>
+            <button
+              onClick={() => openPartModal(null)}
+              className="btn-primary flex items-center space-x-2"
+            >
+              <PlusIcon className="h-5 w-5" />
+              <span>Add Part</span>
+            </button>
+          </div>
+
+          {/* Tabs */}
+          <div className="border-b border-gray-200">
+            <nav className="-mb-px flex space-x-8">
+              {([['catalog', 'Catalog'], ['usage', 'Usage & Costs']] as const).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === tab
+                      ? 'border-red-500 text-red-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </nav>
+          </div>
+
+          {activeTab === 'catalog' && (
+            <div className="bg-white rounded-2xl border border-gray-100">
+              <div className="px-6 py-4 border-b border-gray-100 flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Parts ({parts.length})
+                  {lowStockCount > 0 && !lowStockOnly && (
+                    <span className="ml-2 text-sm font-normal text-amber-600">{lowStockCount} low on stock</span>
+                  )}
+                </h2>
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="relative">
+                    <MagnifyingGlassIcon className="h-4 w-4 absolute left-3 top-3 text-gray-400 pointer-events-none" />
+                    <input
+                      type="text"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Search parts..."
+                      className="input-field pl-9 min-w-[200px]"
+                    />
+                  </div>
+                  <div className="relative">
+                    <select
+                      value={categoryFilter}
+                      onChange={(e) => setCategoryFilter(e.target.value)}
+                      className="input-field appearance-none pr-8 min-w-[160px]"
+                    >
+                      <option value="all">All Categories</option>
+                      {(Object.keys(PART_CATEGORY_LABELS) as PartCategory[]).map(category => (
+                        <option key={category} value={category}>{PART_CATEGORY_LABELS[category]}</option>
+                      ))}
+                    </select>
+                    <ChevronDownIcon className="h-4 w-4 absolute right-2 top-3 text-gray-400 pointer-events-none" />
+                  </div>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={lowStockOnly} onChange={(e) => setLowStockOnly(e.target.checked)} />
+                    <span>Low stock only</span>
+                  </label>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={includeInactive} onChange={(e) => setIncludeInactive(e.target.checked)} />
+                    <span>Show inactive</span>
+                  </label>
+                </div>
+              </div>
+
+              {parts.length === 0 ? (
+                <div className="text-center py-12">
+                  <CubeIcon className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                  <p className="text-gray-600">
+                    {lowStockOnly ? 'Nothing is low on stock.' : 'No parts found. Add one to start tracking stock.'}
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className={headerCell}>Part</th>
+                        <th className={headerCell}>Category</th>
+                        <th className={headerCell}>On Hand</th>
+                        <th className={headerCell}>Reorder Level</th>
+                        <th className={headerCell}>Unit Cost</th>
+                        <th className={headerCell}>Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white">
+                      {parts.map((part) => (
+                        <tr key={part.id} className="border-b border-gray-100 hover:bg-gray-50 transition-colors">
+                          <td className="px-6 py-4">
+                            <div className="text-sm font-medium text-gray-900">{part.part_name}</div>
+                            <div className="text-sm text-gray-500">
+                              {part.part_number}
+                              {!part.is_active && (
+                                <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                                  inactive
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{PART_CATEGORY_LABELS[part.category]}</td>
+                          <td className="px-6 py-4">
+                            <div className={`text-sm flex items-center ${part.is_low_stock ? 'text-amber-600 font-medium' : 'text-gray-900'}`}>
+                              {part.is_low_stock && <ExclamationTriangleIcon className="h-4 w-4 mr-1" />}
+                              {part.quantity_on_hand} {part.unit}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{part.reorder_level} {part.unit}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">${part.unit_cost.toFixed(2)}</td>
+                          <td className="px-6 py-4">
+                            <div className="flex items-center space-x-3 text-sm font-medium">
+                              <button onClick={() => setStockPart(part)} className="text-red-600 hover:text-red-800">
+                                Stock
+                              </button>
+                              <button onClick={() => openPartModal(part)} className="text-gray-600 hover:text-gray-900">
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleToggleActive(part)}
+                                disabled={updatingId === part.id}
+                                className={`disabled:opacity-50 ${
+                                  part.is_active ? 'text-gray-500 hover:text-red-800' : 'text-green-600 hover:text-green-800'
+                                }`}
+                              >
+                                {part.is_active ? 'Deactivate' : 'Reactivate'}
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'usage' && (
+            <div className="space-y-6">
+              <div className="bg-white rounded-2xl border border-gray-100 px-6 py-4 flex flex-wrap items-end justify-between gap-4">
+                <div className="flex items-end gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                    <input
+                      type="date"
+                      value={dateRange.start}
+                      onChange={(e) => setDateRange(prev => ({ ...prev, start: e.target.value }))}
+                      className="input-field"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                    <input
+                      type="date"
+                      value={dateRange.end}
+                      onChange={(e) => setDateRange(prev => ({ ...prev, end: e.target.value }))}
+                      className="input-field"
+                    />
+                  </div>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm text-gray-600">Parts cost in period</p>
+                  <p className="text-2xl font-bold text-gray-900">${(usage?.total_cost ?? 0).toFixed(2)}</p>
+                </div>
+              </div>
+
+              {usageLoading && !usage ? (
+                <div className="flex items-center justify-center min-h-64">
+                  <LoadingSpinner size="lg" />
+                </div>
+              ) : usage && (
+                <>
+                  <div className="bg-white rounded-2xl border border-gray-100">
+                    <div className="px-6 py-4 border-b border-gray-100">
+                      <h2 className="text-lg font-semibold text-gray-900">Usage by Part</h2>
+                    </div>
+                    {usage.parts.length === 0 ? (
+                      <p className="px-6 py-8 text-center text-gray-600">No parts were used in this period.</p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className={headerCell}>Part</th>
+                              <th className={headerCell}>Used</th>
+                              <th className={headerCell}>Tickets</th>
+                              <th className={headerCell}>On Hand</th>
+                              <th className={headerCell}>Cost</th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white">
+                            {usage.parts.map((part) => (
+                              <tr key={part.part_id} className="border-b border-gray-100">
+                                <td className="px-6 py-4">
+                                  <div className="text-sm font-medium text-gray-900">{part.part_name}</div>
+                                  <div className="text-sm text-gray-500">{part.part_number}</div>
+                                </td>
+                                <td className="px-6 py-4 text-sm text-gray-900">{part.quantity_used} {part.unit}</td>
+                                <td className="px-6 py-4 text-sm text-gray-900">{part.tickets_count}</td>
+                                <td className="px-6 py-4 text-sm text-gray-900">{part.quantity_on_hand} {part.unit}</td>
+                                <td className="px-6 py-4 text-sm text-gray-900">${part.total_cost.toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div className="bg-white rounded-2xl border border-gray-100">
+                      <div className="px-6 py-4 border-b border-gray-100">
+                        <h2 className="text-lg font-semibold text-gray-900">Cost by Client</h2>
+                      </div>
+                      {usage.clients.length === 0 ? (
+                        <p className="px-6 py-8 text-center text-gray-600">No parts costs in this period.</p>
+                      ) : (
+                        <ul className="divide-y divide-gray-100">
+                          {usage.clients.map((client) => (
+                            <li key={client.client_id ?? 'none'} className="px-6 py-3 flex items-center justify-between">
+                              <div>
+                                <p className="text-sm font-medium text-gray-900">{client.client_name}</p>
+                                <p className="text-xs text-gray-500">
+                                  {client.tickets_count} ticket{client.tickets_count === 1 ? '' : 's'}
+                                </p>
+                              </div>
+                              <span className="text-sm text-gray-900">${client.total_cost.toFixed(2)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+
+                    <div className="bg-white rounded-2xl border border-gray-100">
+                      <div className="px-6 py-4 border-b border-gray-100">
+                        <h2 className="text-lg font-semibold text-gray-900">Last 12 Months</h2>
+                      </div>
+                      <ul className="divide-y divide-gray-100">
+                        {usage.months.map((month) => (
+                          <li key={month.month} className="px-6 py-3 flex items-center justify-between">
+                            <span className="text-sm text-gray-900">{formatMonth(month.month)}</span>
+                            <span className="text-sm text-gray-900">${month.total_cost.toFixed(2)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <PartModal
+          isOpen={showPartModal}
+          part={editingPart}
+          onClose={() => setShowPartModal(false)}
+          onSaved={fetchParts}
+        />
+
+        <StockMovementModal
+          part={stockPart}
+          onClose={() => setStockPart(null)}
+          onSaved={fetchParts}
+        />
+      </DashboardLayout>
+    </RequireRole>
+  );
+}
@@ -5,11 +5,17 @@ import { useRouter } from 'next/navigation';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorDisplay from '@/components/ui/ErrorDisplay';
+import SessionsPanel from '@/components/auth/SessionsPanel';
+import TwoFactorPanel from '@/components/auth/TwoFactorPanel';
+import NotificationPreferencesPanel from '@/components/notifications/NotificationPreferencesPanel';
+import BrandingPanel from '@/components/branding/BrandingPanel';
 import { useToast } from '@/components/providers/ToastProvider';
 import { API_ENDPOINTS, getAuthHeaders } from '@/config/api';
 import {
   UserCircleIcon,
   ShieldCheckIcon,
+  BellIcon,
+  SwatchIcon,
   CheckCircleIcon,
   XCircleIcon,
   ExclamationTriangleIcon
@@ -47,7 +53,7 @@ interface PasswordPolicy {
 export default function ProfilePage() {
   const router = useRouter();
   const toast = useToast();
-  const [activeTab, setActiveTab] = useState<'profile' | 'security'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'notifications' | 'branding'>('profile');
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null);
   const [loading, setLoading] = useState(true);
@@ -75,6 +81,15 @@ export default function ProfilePage() {
     confirm: false
   });
 
+  // Deep links such as /profile?tab=security from the two-factor setup redirect,
+  // or /profile?tab=notifications from the digest email
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get('tab');
+    if (tab === 'security' || tab === 'notifications' || tab === 'branding') {
+      setActiveTab(tab);
+    }
+  }, []);
+
   useEffect(() => {
     fetchProfile();
     fetchPasswordPolicy();
@@ -270,6 +285,34 @@ export default function ProfilePage() {
               <ShieldCheckIcon className="h-5 w-5 mr-2" />
               Security
             </button>
+            <button
+              onClick={() => setActiveTab('notifications')}
+              className={`
+                flex items-center py-4 px-1 border-b-2 font-medium text-sm
+                ${activeTab === 'notifications'
+                  ? 'border-red-600 text-red-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }
+              `}
+            >
+              <BellIcon className="h-5 w-5 mr-2" />
+              Notifications
+            </button>
+            {profile?.userType === 'vendor' && (
+              <button
+                onClick={() => setActiveTab('branding')}
+                className={`
+                  flex items-center py-4 px-1 border-b-2 font-medium text-sm
+                  ${activeTab === 'branding'
+                    ? 'border-red-600 text-red-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }
+                `}
+              >
+                <SwatchIcon className="h-5 w-5 mr-2" />
+                Branding
+              </button>
+            )}
           </nav>
         </div>
 
@@ -645,6 +688,30 @@ export default function ProfilePage() {
             )}
           </div>
         )}
+
+        {activeTab === 'security' && !loading && !error && profile && (profile.userType === 'admin' || profile.userType === 'vendor') && (
+          <div className="bg-white shadow rounded-lg p-6 mb-6">
+            <TwoFactorPanel />
+          </div>
+        )}
+
+        {activeTab === 'security' && !loading && !error && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <SessionsPanel />
+          </div>
+        )}
+
+        {activeTab === 'notifications' && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <NotificationPreferencesPanel />
+          </div>
+        )}
+
+        {activeTab === 'branding' && !loading && profile?.userType === 'vendor' && (
+          <div className="bg-white shadow rounded-lg p-6">
+            <BrandingPanel />
+          </div>
+        )}
       </div>
     </DashboardLayout>
   );
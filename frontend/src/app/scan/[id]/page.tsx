@@ -0,0 +1,69 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import { QrCodeIcon } from '@heroicons/react/24/outline';
+
+/**
+ * Landing page for QR asset labels. Sends the user to the equipment page
+ * that matches their role, signing them in first if needed.
+ */
+export default function ScanPage() {
+  const params = useParams();
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  const instanceId = params.id as string;
+
+  useEffect(() => {
+    if (!localStorage.getItem('token')) {
+      router.replace(`/login?redirect=${encodeURIComponent(`/scan/${instanceId}`)}`);
+      return;
+    }
+
+    const resolveScan = async () => {
+      try {
+        const url = API_ENDPOINTS.SCAN.EQUIPMENT(instanceId);
+        logApiCall('GET', url);
+        const response = await fetch(url, { headers: getAuthHeaders() });
+
+        if (response.status === 401) {
+          router.replace(`/login?expired=true&redirect=${encodeURIComponent(`/scan/${instanceId}`)}`);
+          return;
+        }
+
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.message || 'Could not open this equipment');
+        }
+
+        router.replace(result.data.path);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not open this equipment');
+      }
+    };
+
+    resolveScan();
+  }, [instanceId, router]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      {error ? (
+        <div className="max-w-md w-full bg-white shadow-lg rounded-lg p-8 text-center">
+          <QrCodeIcon className="h-16 w-16 text-red-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Equipment Not Available</h1>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <Link href="/dashboard" className="btn-primary w-full inline-block">
+            Go to Dashboard
+          </Link>
+        </div>
+      ) : (
+        <LoadingSpinner text="Opening equipment..." />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorDisplay from '@/components/ui/ErrorDisplay';
+import RequireRole from '@/components/auth/RequireRole';
+import ServiceContractModal from '@/components/modals/ServiceContractModal';
+import {
+  CONTRACT_STATUS_STYLES,
+  ServiceContract,
+  formatHours
+} from '@/components/contracts/serviceContracts';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import {
+  DocumentCheckIcon,
+  PlusIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+
+const headerCell = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100';
+
+const formatDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+export default function ServiceContractsPage() {
+  const [contracts, setContracts] = useState<ServiceContract[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingContract, setEditingContract] = useState<ServiceContract | null>(null);
+
+  const fetchContracts = useCallback(async () => {
+    try {
+      const url = API_ENDPOINTS.SERVICE_CONTRACTS.LIST;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (!response.ok) throw new Error('Failed to fetch service contracts');
+
+      const data = await response.json();
+      setContracts(data.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch service contracts');
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadData = async () => {
+      await fetchContracts();
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [fetchContracts]);
+
+  const openModal = (contract: ServiceContract | null) => {
+    setEditingContract(contract);
+    setShowModal(true);
+  };
+
+  if (isLoading) {
+    return (
+      <RequireRole allowedRoles={['vendor']}>
+        <DashboardLayout>
+          <div className="flex items-center justify-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  if (error) {
+    return (
+      <RequireRole allowedRoles={['vendor']}>
+        <DashboardLayout>
+          <ErrorDisplay message={error} />
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  const openBreaches = contracts.reduce((total, contract) => total + contract.open_breaches, 0);
+
+  return (
+    <RequireRole allowedRoles={['vendor']}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Page Header */}
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <div className="flex-shrink-0">
+                <DocumentCheckIcon className="h-8 w-8 text-gray-900" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Service Contracts</h1>
+                <p className="text-gray-600 mt-1">Coverage, planned visits and response targets agreed with each client</p>
+              </div>
+            </div>
+            <button
+              onClick={() => openModal(null)}
+              className="btn-primary flex items-center space-x-2"
+            >
+              <PlusIcon className="h-5 w-5" />
+              <span>Add Contract</span>
+            </button>
+          </div>
+
+          <div className="bg-white rounded-2xl border border-gray-100">
+            <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Contracts ({contracts.length})</h2>
+              {openBreaches > 0 && (
+                <span className="text-sm text-red-600 flex items-center">
+                  <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+                  {openBreaches} open ticket{openBreaches === 1 ? '' : 's'} past target
+                </span>
+              )}
+            </div>
+
+            {contracts.length === 0 ? (
+              <div className="text-center py-12">
+                <DocumentCheckIcon className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-600">No service contracts yet. Add one to set response targets for a client.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className={headerCell}>Contract</th>
+                      <th className={headerCell}>Term</th>
+                      <th className={headerCell}>Coverage</th>
+                      <th className={headerCell}>SLA (respond / resolve)</th>
+                      <th className={headerCell}>Status</th>
+                      <th className={headerCell}>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white">
+                    {contracts.map((contract) => (
+                      <tr key={contract.id} className="border-b border-gray-100 hover:bg-gray-50 transition-colors">
+                        <td className="px-6 py-4">
+                          <div className="text-sm font-medium text-gray-900">{contract.contract_name}</div>
+                          <div className="text-sm text-gray-500">{contract.client_name}</div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {formatDate(contract.start_date)} – {contract.end_date ? formatDate(contract.end_date) : 'Ongoing'}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="text-sm text-gray-900">
+                            {contract.covers_all_equipment ? 'All equipment' : 'Selected equipment'} ({contract.covered_instances})
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {contract.visits_per_year > 0
+                              ? `${contract.visits_per_year} visit${contract.visits_per_year === 1 ? '' : 's'} a year`
+                              : 'No planned visits'}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {contract.sla_targets.length === 0 ? (
+                            <span className="text-gray-500">None</span>
+                          ) : (
+                            contract.sla_targets.map(target => (
+                              <div key={target.priority}>
+                                <span className="capitalize">{target.priority}</span>: {formatHours(target.response_hours)} / {formatHours(target.resolution_hours)}
+                              </div>
+                            ))
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${CONTRACT_STATUS_STYLES[contract.status]}`}>
+                            {contract.status}
+                          </span>
+                          {contract.open_breaches > 0 && (
+                            <div className="text-xs text-red-600 mt-1">{contract.open_breaches} breached</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm font-medium">
+                          <button onClick={() => openModal(contract)} className="text-red-600 hover:text-red-800">
+                            Edit
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <ServiceContractModal
+          isOpen={showModal}
+          contract={editingContract}
+          onClose={() => setShowModal(false)}
+          onSaved={fetchContracts}
+        />
+      </DashboardLayout>
+    </RequireRole>
+  );
+}
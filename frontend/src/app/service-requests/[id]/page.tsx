@@ -6,7 +6,11 @@ import DashboardLayout from '@/components/layout/DashboardLayout';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorDisplay from '@/components/ui/ErrorDisplay';
 import RequireRole from '@/components/auth/RequireRole';
+import AttachmentsPanel from '@/components/attachments/AttachmentsPanel';
+import TicketBillingPanel from '@/components/billing/TicketBillingPanel';
+import TicketSlaStatus, { TicketSla } from '@/components/maintenance/TicketSlaStatus';
 import { useToast } from '@/components/providers/ToastProvider';
+import { useNotificationStream, getNotificationTicketId } from '@/components/providers/NotificationStreamProvider';
 import { API_ENDPOINTS } from '@/config/api';
 import Link from 'next/link';
 import { 
@@ -25,7 +29,7 @@ import {
 } from '@heroicons/react/24/outline';
 
 // Types
-interface ServiceRequestDetails {
+interface ServiceRequestDetails extends TicketSla {
   id: number;
   ticket_number: string;
   status: 'open' | 'resolved' | 'closed';
@@ -112,6 +116,13 @@ export default function ServiceRequestDetailsPage() {
     loadData();
   }, [ticketId]);
 
+  // Status updates from the vendor arrive as notifications
+  useNotificationStream((event) => {
+    if (event.type === 'notification' && getNotificationTicketId(event.notification) === ticketId) {
+      fetchTicketDetails();
+    }
+  });
+
   // Helper functions
   const getStatusBadgeColor = (status: string) => {
     switch (status) {
@@ -367,6 +378,25 @@ export default function ServiceRequestDetailsPage() {
                       <p className="text-sm text-gray-900 mt-1 bg-green-50 p-3 rounded-lg">{ticket.resolution_description}</p>
                     </div>
                   )}
+
+                  {(ticket.response_due_at || ticket.resolution_due_at) && (
+                    <div className="mt-6">
+                      <TicketSlaStatus ticket={ticket} />
+                    </div>
+                  )}
+
+                  <div className="mt-6">
+                    <TicketBillingPanel ticketId={ticketId} ticketStatus={ticket.status} viewer="client" />
+                  </div>
+
+                  <div className="mt-6">
+                    <AttachmentsPanel
+                      entityType="ticket"
+                      entityId={ticketId}
+                      title="Photos & Documents"
+                      canUpload={ticket.status === 'open'}
+                    />
+                  </div>
                 </div>
               )}
 
@@ -8,6 +8,7 @@ import ErrorDisplay from '@/components/ui/ErrorDisplay';
 import RequireRole from '@/components/auth/RequireRole';
 
 import { useToast } from '@/components/providers/ToastProvider';
+import { useNotificationStream, getNotificationTicketId } from '@/components/providers/NotificationStreamProvider';
 import { API_ENDPOINTS, buildApiUrl } from '@/config/api';
 import CreateClientTicketModal from '@/components/modals/CreateClientTicketModal';
 import Link from 'next/link';
@@ -161,6 +162,12 @@ export default function ServiceRequestsPage() {
     loadData();
   }, [fetchTickets]);
 
+  useNotificationStream((event) => {
+    if (event.type === 'notification' && getNotificationTicketId(event.notification) !== null) {
+      fetchTickets();
+    }
+  });
+
   // Handle ticket creation success
   const handleTicketCreated = useCallback(() => {
     fetchTickets(); // Refresh the ticket list
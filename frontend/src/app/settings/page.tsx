@@ -6,6 +6,10 @@ import DashboardLayout from '@/components/layout/DashboardLayout';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorDisplay from '@/components/ui/ErrorDisplay';
 import SmsSettingsTab from '@/components/settings/SmsSettingsTab';
+import MessageQueueTab from '@/components/settings/MessageQueueTab';
+import EmailDigestTab from '@/components/settings/EmailDigestTab';
+import MessageTemplatesTab from '@/components/settings/MessageTemplatesTab';
+import RolePermissionsTab from '@/components/settings/RolePermissionsTab';
 import { useToast } from '@/components/providers/ToastProvider';
 import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
 import {
@@ -17,7 +21,10 @@ import {
   Cog6ToothIcon,
   ExclamationTriangleIcon,
   KeyIcon,
-  UserGroupIcon
+  UserGroupIcon,
+  InboxStackIcon,
+  EnvelopeIcon,
+  DocumentTextIcon
 } from '@heroicons/react/24/outline';
 
 interface SecuritySettings {
@@ -27,6 +34,7 @@ interface SecuritySettings {
   requirePasswordChangeOnFirstLogin: boolean;
   maxFailedLoginAttempts: number;
   accountLockDurationMinutes: number;
+  requireTwoFactorAuth: boolean;
 }
 
 export default function SystemSettingsPage() {
@@ -42,7 +50,8 @@ export default function SystemSettingsPage() {
     passwordMinLength: 8,
     requirePasswordChangeOnFirstLogin: false,
     maxFailedLoginAttempts: 5,
-    accountLockDurationMinutes: 30
+    accountLockDurationMinutes: 30,
+    requireTwoFactorAuth: false
   });
   
   // Debug: Log whenever settings state changes
@@ -110,7 +119,8 @@ export default function SystemSettingsPage() {
       passwordMinLength: Number(settings.passwordMinLength) || 8,
       requirePasswordChangeOnFirstLogin: Boolean(settings.requirePasswordChangeOnFirstLogin),
       maxFailedLoginAttempts: Number(settings.maxFailedLoginAttempts) || 5,
-      accountLockDurationMinutes: Number(settings.accountLockDurationMinutes) || 30
+      accountLockDurationMinutes: Number(settings.accountLockDurationMinutes) || 30,
+      requireTwoFactorAuth: Boolean(settings.requireTwoFactorAuth)
     };      console.log('🧹 Cleaned settings:', cleanSettings);
 
       // Validation with cleaned values
@@ -167,6 +177,10 @@ export default function SystemSettingsPage() {
         { 
           key: 'account_lock_duration_minutes', 
           value: cleanSettings.accountLockDurationMinutes.toString() 
+        },
+        {
+          key: 'require_two_factor_auth',
+          value: cleanSettings.requireTwoFactorAuth.toString()
         }
       ];
 
@@ -252,7 +266,11 @@ export default function SystemSettingsPage() {
                   { id: 'session', name: 'Session Management', icon: ClockIcon },
                   { id: 'password', name: 'Password Policy', icon: LockClosedIcon },
                   { id: 'security', name: 'Account Security', icon: ShieldCheckIcon },
-                  { id: 'sms', name: 'SMS Notifications', icon: ExclamationTriangleIcon }
+                  { id: 'sms', name: 'SMS Notifications', icon: ExclamationTriangleIcon },
+                  { id: 'digest', name: 'Email Digest', icon: EnvelopeIcon },
+                  { id: 'templates', name: 'Message Templates', icon: DocumentTextIcon },
+                  { id: 'queue', name: 'Message Queue', icon: InboxStackIcon },
+                  { id: 'permissions', name: 'Roles & Permissions', icon: UserGroupIcon }
                 ].map((tab) => (
                   <button
                     key={tab.id}
@@ -509,6 +527,35 @@ export default function SystemSettingsPage() {
                           </div>
                         </div>
 
+                        <div className="mt-6 bg-white border border-gray-200 rounded-xl p-4">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center">
+                              <input
+                                type="checkbox"
+                                id="requireTwoFactorAuth"
+                                checked={settings.requireTwoFactorAuth}
+                                onChange={(e) => setSettings({ ...settings, requireTwoFactorAuth: e.target.checked })}
+                                className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                              />
+                              <label htmlFor="requireTwoFactorAuth" className="ml-3">
+                                <span className="block text-sm font-medium text-gray-900">
+                                  Require two-factor authentication
+                                </span>
+                                <span className="block text-xs text-gray-500 mt-0.5">
+                                  Admin and vendor accounts must set up an authenticator app before using the system
+                                </span>
+                              </label>
+                            </div>
+                            <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium ${
+                              settings.requireTwoFactorAuth
+                                ? 'bg-green-100 text-green-800 border border-green-200'
+                                : 'bg-gray-100 text-gray-800 border border-gray-200'
+                            }`}>
+                              {settings.requireTwoFactorAuth ? 'Enabled' : 'Disabled'}
+                            </span>
+                          </div>
+                        </div>
+
                         <div className="mt-6 bg-amber-50 border border-amber-100 rounded-xl p-4">
                           <div className="flex">
                             <ExclamationTriangleIcon className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
@@ -538,6 +585,26 @@ export default function SystemSettingsPage() {
                   {activeTab === 'sms' && (
                     <SmsSettingsTab />
                   )}
+
+                  {/* Email Digest Tab */}
+                  {activeTab === 'digest' && (
+                    <EmailDigestTab />
+                  )}
+
+                  {/* Message Templates Tab */}
+                  {activeTab === 'templates' && (
+                    <MessageTemplatesTab />
+                  )}
+
+                  {/* Message Queue Tab */}
+                  {activeTab === 'queue' && (
+                    <MessageQueueTab />
+                  )}
+
+                  {/* Roles & Permissions Tab */}
+                  {activeTab === 'permissions' && (
+                    <RolePermissionsTab />
+                  )}
                 </>
               )}
             </div>
@@ -0,0 +1,429 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorDisplay from '@/components/ui/ErrorDisplay';
+import RequireRole from '@/components/auth/RequireRole';
+import AttachmentsPanel from '@/components/attachments/AttachmentsPanel';
+import InspectionChecklistFields, { useTicketChecklist } from '@/components/maintenance/InspectionChecklistFields';
+import TicketPartsFields, { useTicketParts, UsedPartsList, TicketPart } from '@/components/maintenance/TicketPartsFields';
+import TicketSlaStatus, { TicketSla } from '@/components/maintenance/TicketSlaStatus';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useNotificationStream, getNotificationTicketId } from '@/components/providers/NotificationStreamProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import {
+  ArrowLeftIcon,
+  ClipboardDocumentListIcon,
+  BuildingOfficeIcon,
+  CogIcon,
+  CheckCircleIcon
+} from '@heroicons/react/24/outline';
+
+// Types
+interface AssignedTicketDetails extends TicketSla {
+  id: number;
+  ticket_number: string;
+  ticket_status: 'open' | 'resolved' | 'closed';
+  support_type: 'maintenance' | 'system' | 'user';
+  priority: 'low' | 'normal' | 'high';
+  issue_description: string;
+  resolution_description?: string;
+  scheduled_date?: string;
+  actual_hours?: number;
+  created_at: string;
+  resolved_at?: string;
+  client_name?: string;
+  client_phone?: string;
+  client_address?: string;
+  client_city?: string;
+  equipment_id?: number;
+  serial_number?: string;
+  equipment_name?: string;
+  equipment_type?: string;
+  equipment_location?: string;
+  compliance_status?: string;
+}
+
+export default function TechnicianTicketDetailsPage() {
+  const params = useParams();
+  const { showToast } = useToast();
+  const { confirm } = useConfirmModal();
+
+  const ticketId = parseInt(params.id as string);
+
+  const [ticket, setTicket] = useState<AssignedTicketDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isResolving, setIsResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [actualHours, setActualHours] = useState('');
+  const [resolution, setResolution] = useState('');
+  const [usedParts, setUsedParts] = useState<TicketPart[]>([]);
+
+  const checklistUrl = ticket?.equipment_id && ticket.support_type === 'maintenance'
+    ? API_ENDPOINTS.TECHNICIAN_TICKETS.CHECKLIST(ticket.id)
+    : null;
+  const {
+    checklist,
+    answers,
+    setAnswers,
+    isComplete: isChecklistComplete,
+    toPayload: checklistPayload
+  } = useTicketChecklist(checklistUrl);
+  const ticketParts = useTicketParts(ticket?.ticket_status === 'open');
+
+  // keepDrafts leaves the hours and resolution the technician is typing untouched
+  const fetchTicket = async (keepDrafts = false) => {
+    try {
+      const url = API_ENDPOINTS.TECHNICIAN_TICKETS.BY_ID(ticketId);
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new Error('Ticket not found');
+        }
+        throw new Error('Failed to fetch ticket details');
+      }
+
+      const data = await response.json();
+      setTicket(data.data);
+      if (keepDrafts) return;
+      setActualHours(data.data.actual_hours != null ? String(data.data.actual_hours) : '');
+      setResolution(data.data.resolution_description || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch ticket details');
+    }
+  };
+
+  // Parts recorded when the ticket was resolved
+  const fetchUsedParts = async () => {
+    try {
+      const url = API_ENDPOINTS.TECHNICIAN_TICKETS.PARTS(ticketId);
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (response.ok) {
+        const data = await response.json();
+        setUsedParts(data.data || []);
+      }
+    } catch (err) {
+      console.error('Error fetching ticket parts:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (isNaN(ticketId)) {
+      setError('Invalid ticket ID');
+      setIsLoading(false);
+      return;
+    }
+
+    const loadData = async () => {
+      setIsLoading(true);
+      await Promise.all([fetchTicket(), fetchUsedParts()]);
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [ticketId]);
+
+  useNotificationStream((event) => {
+    if (event.type === 'notification' && getNotificationTicketId(event.notification) === ticketId) {
+      fetchTicket(true);
+    }
+  });
+
+  // Save progress without changing the ticket status
+  const handleSaveProgress = async () => {
+    setIsSaving(true);
+
+    try {
+      const url = API_ENDPOINTS.TECHNICIAN_TICKETS.UPDATE(ticketId);
+      logApiCall('PUT', url);
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          actual_hours: actualHours,
+          resolution_description: resolution
+        })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save progress');
+      }
+
+      showToast('success', 'Progress saved');
+      await fetchTicket();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to save progress');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!resolution.trim()) {
+      showToast('error', 'Please describe the work carried out before resolving');
+      return;
+    }
+
+    if (!isChecklistComplete) {
+      showToast('error', 'Please record a result for every checklist item');
+      return;
+    }
+
+    if (!ticketParts.isValid) {
+      showToast('error', 'Please complete or remove each part line');
+      return;
+    }
+
+    const confirmed = await confirm({
+      title: 'Resolve Ticket',
+      message: 'Mark this ticket as resolved? The client will be notified.',
+      confirmText: 'Resolve'
+    });
+
+    if (!confirmed) return;
+
+    setIsResolving(true);
+
+    try {
+      const url = API_ENDPOINTS.TECHNICIAN_TICKETS.RESOLVE(ticketId);
+      logApiCall('PUT', url);
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          actual_hours: actualHours,
+          resolution_description: resolution,
+          ...(checklist && { checklist_results: checklistPayload() }),
+          ...(ticketParts.lines.length > 0 && { parts: ticketParts.toPayload() })
+        })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to resolve ticket');
+      }
+
+      showToast('success', 'Ticket resolved successfully');
+      ticketParts.reset();
+      await Promise.all([fetchTicket(), fetchUsedParts()]);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to resolve ticket');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <RequireRole allowedRoles={['technician']}>
+        <DashboardLayout>
+          <div className="flex items-center justify-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  if (error || !ticket) {
+    return (
+      <RequireRole allowedRoles={['technician']}>
+        <DashboardLayout>
+          <ErrorDisplay message={error || 'Ticket not found'} />
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  const isOpen = ticket.ticket_status === 'open';
+
+  return (
+    <RequireRole allowedRoles={['technician']}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center space-x-4">
+            <Link href="/technician-tickets" className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+              <ArrowLeftIcon className="h-5 w-5 text-gray-600" />
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">#{ticket.ticket_number}</h1>
+              <p className="text-gray-600 mt-1 capitalize">
+                {ticket.support_type} · {ticket.priority} priority · {ticket.ticket_status}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              {/* Issue */}
+              <div className="bg-white rounded-2xl border border-gray-100 p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                  <ClipboardDocumentListIcon className="h-5 w-5 text-red-600 mr-2" />
+                  Issue
+                </h3>
+                <p className="text-sm text-gray-900">{ticket.issue_description}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 text-sm">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Scheduled Date</label>
+                    <p className="text-gray-900">{ticket.scheduled_date ? formatDate(ticket.scheduled_date) : 'Not scheduled'}</p>
+                  </div>
+                  {ticket.resolved_at && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Resolved At</label>
+                      <p className="text-gray-900">{formatDate(ticket.resolved_at)}</p>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Work Log */}
+              <div className="bg-white rounded-2xl border border-gray-100 p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                  <CheckCircleIcon className="h-5 w-5 text-red-600 mr-2" />
+                  Work Carried Out
+                </h3>
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Hours Worked</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.25"
+                      value={actualHours}
+                      onChange={(e) => setActualHours(e.target.value)}
+                      disabled={!isOpen}
+                      className="input-field max-w-xs"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Resolution Notes</label>
+                    <textarea
+                      value={resolution}
+                      onChange={(e) => setResolution(e.target.value)}
+                      disabled={!isOpen}
+                      className="input-field min-h-[120px]"
+                      rows={5}
+                      placeholder="Describe the work carried out..."
+                    />
+                  </div>
+                  {checklist && (
+                    <div className="border-t border-gray-100 pt-4">
+                      <InspectionChecklistFields
+                        checklist={checklist}
+                        answers={answers}
+                        onChange={setAnswers}
+                        disabled={!isOpen}
+                      />
+                    </div>
+                  )}
+                  {isOpen ? (
+                    <div className="border-t border-gray-100 pt-4">
+                      <TicketPartsFields
+                        parts={ticketParts.parts}
+                        lines={ticketParts.lines}
+                        onChange={ticketParts.setLines}
+                        lineError={ticketParts.lineError}
+                        disabled={isResolving}
+                      />
+                    </div>
+                  ) : usedParts.length > 0 && (
+                    <div className="border-t border-gray-100 pt-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Parts Used</label>
+                      <UsedPartsList parts={usedParts} />
+                    </div>
+                  )}
+                  {isOpen && (
+                    <div className="flex justify-end space-x-3">
+                      <button
+                        onClick={handleSaveProgress}
+                        disabled={isSaving || isResolving}
+                        className="btn-secondary disabled:opacity-50"
+                      >
+                        {isSaving ? 'Saving...' : 'Save Progress'}
+                      </button>
+                      <button
+                        onClick={handleResolve}
+                        disabled={isSaving || isResolving}
+                        className="btn-primary disabled:opacity-50"
+                      >
+                        {isResolving ? 'Resolving...' : 'Resolve Ticket'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Before/after photos and service certificates */}
+              <AttachmentsPanel
+                entityType="ticket"
+                entityId={ticket.id}
+                title="Photos & Documents"
+                canUpload={isOpen}
+                canDelete={isOpen}
+              />
+            </div>
+
+            <div className="space-y-6">
+              <TicketSlaStatus ticket={ticket} />
+
+              {/* Client */}
+              <div className="bg-white rounded-2xl border border-gray-100 p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                  <BuildingOfficeIcon className="h-5 w-5 text-red-600 mr-2" />
+                  Client
+                </h3>
+                <div className="space-y-2 text-sm">
+                  <p className="font-medium text-gray-900">{ticket.client_name || 'No client'}</p>
+                  {ticket.client_phone && <p className="text-gray-600">{ticket.client_phone}</p>}
+                  {ticket.client_address && (
+                    <p className="text-gray-600">
+                      {ticket.client_address}{ticket.client_city ? `, ${ticket.client_city}` : ''}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {/* Equipment */}
+              {ticket.serial_number && (
+                <div className="bg-white rounded-2xl border border-gray-100 p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                    <CogIcon className="h-5 w-5 text-red-600 mr-2" />
+                    Equipment
+                  </h3>
+                  <div className="space-y-2 text-sm">
+                    <p className="font-medium text-gray-900">{ticket.equipment_name}</p>
+                    <p className="text-gray-600">Serial: {ticket.serial_number}</p>
+                    {ticket.equipment_type && <p className="text-gray-600">Type: {ticket.equipment_type}</p>}
+                    {ticket.equipment_location && <p className="text-gray-600">Location: {ticket.equipment_location}</p>}
+                    {ticket.compliance_status && <p className="text-gray-600">Compliance: {ticket.compliance_status}</p>}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </DashboardLayout>
+    </RequireRole>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorDisplay from '@/components/ui/ErrorDisplay';
+import RequireRole from '@/components/auth/RequireRole';
+import CalendarFeedModal from '@/components/modals/CalendarFeedModal';
+import { useNotificationStream, getNotificationTicketId } from '@/components/providers/NotificationStreamProvider';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import {
+  WrenchScrewdriverIcon,
+  MagnifyingGlassIcon,
+  ChevronDownIcon,
+  MapPinIcon,
+  CalendarIcon,
+  RssIcon
+} from '@heroicons/react/24/outline';
+
+// Types
+interface AssignedTicket {
+  id: number;
+  ticket_number: string;
+  ticket_status: 'open' | 'resolved' | 'closed';
+  support_type: 'maintenance' | 'system' | 'user';
+  priority: 'low' | 'normal' | 'high';
+  issue_description: string;
+  scheduled_date?: string;
+  actual_hours?: number;
+  client_name?: string;
+  client_address?: string;
+  equipment_serial?: string;
+  equipment_name?: string;
+  equipment_location?: string;
+}
+
+export default function TechnicianTicketsPage() {
+  const router = useRouter();
+
+  const [tickets, setTickets] = useState<AssignedTicket[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('open');
+  const [showFeedModal, setShowFeedModal] = useState(false);
+
+  const fetchTickets = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (searchTerm) params.append('search', searchTerm);
+      if (statusFilter !== 'all') params.append('status', statusFilter);
+
+      const url = `${API_ENDPOINTS.TECHNICIAN_TICKETS.LIST}?${params}`;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (!response.ok) throw new Error('Failed to fetch assigned tickets');
+
+      const data = await response.json();
+      setTickets(data.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch assigned tickets');
+    }
+  }, [searchTerm, statusFilter]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await fetchTickets();
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [fetchTickets]);
+
+  // New assignments and status changes arrive as ticket notifications
+  useNotificationStream((event) => {
+    if (event.type === 'notification' && getNotificationTicketId(event.notification) !== null) {
+      fetchTickets();
+    }
+  });
+
+  const getStatusBadgeColor = (status: string) => {
+    switch (status) {
+      case 'open': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'resolved': return 'bg-green-100 text-green-800 border-green-200';
+      case 'closed': return 'bg-gray-100 text-gray-800 border-gray-200';
+      default: return 'bg-gray-100 text-gray-800 border-gray-200';
+    }
+  };
+
+  const getPriorityBadgeColor = (priority: string) => {
+    switch (priority) {
+      case 'high': return 'bg-red-100 text-red-800 border-red-200';
+      case 'normal': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'low': return 'bg-green-100 text-green-800 border-green-200';
+      default: return 'bg-gray-100 text-gray-800 border-gray-200';
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <RequireRole allowedRoles={['technician']}>
+        <DashboardLayout>
+          <div className="flex items-center justify-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  if (error) {
+    return (
+      <RequireRole allowedRoles={['technician']}>
+        <DashboardLayout>
+          <ErrorDisplay message={error} />
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  return (
+    <RequireRole allowedRoles={['technician']}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Page Header */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="flex-shrink-0">
+                <WrenchScrewdriverIcon className="h-8 w-8 text-gray-900" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">My Tickets</h1>
+                <p className="text-gray-600 mt-1">Maintenance work assigned to you</p>
+              </div>
+            </div>
+            <button
+              onClick={() => setShowFeedModal(true)}
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <RssIcon className="h-5 w-5" />
+              <span>Calendar Feed</span>
+            </button>
+          </div>
+
+          {/* Search and Filters */}
+          <div className="bg-white rounded-2xl border border-gray-100 p-6">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex-1 relative">
+                <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-3 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Search by ticket number or description..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="input-field pl-10"
+                />
+              </div>
+              <div className="relative">
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value)}
+                  className="input-field appearance-none pr-8 min-w-[120px]"
+                >
+                  <option value="all">All Status</option>
+                  <option value="open">Open</option>
+                  <option value="resolved">Resolved</option>
+                  <option value="closed">Closed</option>
+                </select>
+                <ChevronDownIcon className="h-4 w-4 absolute right-2 top-3 text-gray-400 pointer-events-none" />
+              </div>
+            </div>
+          </div>
+
+          {/* Ticket Cards */}
+          {tickets.length === 0 ? (
+            <div className="bg-white rounded-2xl border border-gray-100 text-center py-12">
+              <WrenchScrewdriverIcon className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">No tickets match your filters.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {tickets.map((ticket) => (
+                <button
+                  key={ticket.id}
+                  onClick={() => router.push(`/technician-tickets/${ticket.id}`)}
+                  className="bg-white rounded-2xl border border-gray-100 p-6 text-left hover:border-gray-300 transition-colors"
+                >
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">#{ticket.ticket_number}</p>
+                      <p className="text-sm text-gray-600 mt-1">{ticket.client_name || 'No client'}</p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <span className={`inline-flex px-2.5 py-0.5 text-xs font-medium rounded-full border ${getPriorityBadgeColor(ticket.priority)}`}>
+                        {ticket.priority}
+                      </span>
+                      <span className={`inline-flex px-2.5 py-0.5 text-xs font-medium rounded-full border ${getStatusBadgeColor(ticket.ticket_status)}`}>
+                        {ticket.ticket_status}
+                      </span>
+                    </div>
+                  </div>
+
+                  <p className="text-sm text-gray-900 mt-3 line-clamp-2">{ticket.issue_description}</p>
+
+                  <div className="mt-4 space-y-1 text-xs text-gray-500">
+                    {(ticket.equipment_location || ticket.client_address) && (
+                      <div className="flex items-center">
+                        <MapPinIcon className="h-4 w-4 mr-1" />
+                        {ticket.equipment_location || ticket.client_address}
+                      </div>
+                    )}
+                    <div className="flex items-center">
+                      <CalendarIcon className="h-4 w-4 mr-1" />
+                      {ticket.scheduled_date ? formatDate(ticket.scheduled_date) : 'Not scheduled'}
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <CalendarFeedModal
+          isOpen={showFeedModal}
+          onClose={() => setShowFeedModal(false)}
+          feedEndpoint={API_ENDPOINTS.TECHNICIAN_TICKETS.CALENDAR_FEED}
+          rotateEndpoint={API_ENDPOINTS.TECHNICIAN_TICKETS.CALENDAR_FEED_ROTATE}
+        />
+      </DashboardLayout>
+    </RequireRole>
+  );
+}
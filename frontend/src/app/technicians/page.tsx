@@ -0,0 +1,284 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorDisplay from '@/components/ui/ErrorDisplay';
+import RequireRole from '@/components/auth/RequireRole';
+import AddTechnicianModal from '@/components/modals/AddTechnicianModal';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import {
+  UserGroupIcon,
+  PlusIcon,
+  ChevronDownIcon,
+  EnvelopeIcon,
+  PhoneIcon,
+  WrenchScrewdriverIcon
+} from '@heroicons/react/24/outline';
+
+// Types
+interface Technician {
+  id: number;
+  user_id: number;
+  display_name: string;
+  email: string;
+  phone?: string;
+  job_title?: string;
+  status: 'active' | 'inactive';
+  last_login?: string;
+  open_tickets: number;
+  created_at: string;
+}
+
+export default function TechniciansPage() {
+  const { showToast } = useToast();
+  const { confirm } = useConfirmModal();
+
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+  const fetchTechnicians = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.append('status', statusFilter);
+
+      const url = `${API_ENDPOINTS.TECHNICIANS.LIST}?${params}`;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (!response.ok) throw new Error('Failed to fetch technicians');
+
+      const data = await response.json();
+      setTechnicians(data.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch technicians');
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await fetchTechnicians();
+      setIsLoading(false);
+    };
+
+    loadData();
+  }, [fetchTechnicians]);
+
+  // Activate or deactivate a technician account
+  const handleToggleStatus = async (technician: Technician) => {
+    const nextStatus = technician.status === 'active' ? 'inactive' : 'active';
+
+    if (nextStatus === 'inactive') {
+      const confirmed = await confirm({
+        title: 'Deactivate Technician',
+        message: `${technician.display_name} will no longer be able to sign in or be assigned new tickets. Continue?`,
+        confirmText: 'Deactivate',
+        type: 'danger'
+      });
+
+      if (!confirmed) return;
+    }
+
+    setUpdatingId(technician.id);
+
+    try {
+      const url = API_ENDPOINTS.TECHNICIANS.UPDATE(technician.id);
+      logApiCall('PUT', url);
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ status: nextStatus })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to update technician');
+      }
+
+      showToast('success', nextStatus === 'active' ? 'Technician activated' : 'Technician deactivated');
+      await fetchTechnicians();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to update technician');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <RequireRole allowedRoles={['vendor']}>
+        <DashboardLayout>
+          <div className="flex items-center justify-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  if (error) {
+    return (
+      <RequireRole allowedRoles={['vendor']}>
+        <DashboardLayout>
+          <ErrorDisplay message={error} />
+        </DashboardLayout>
+      </RequireRole>
+    );
+  }
+
+  return (
+    <RequireRole allowedRoles={['vendor']}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Page Header */}
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+              <div className="flex-shrink-0">
+                <UserGroupIcon className="h-8 w-8 text-gray-900" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Technicians</h1>
+                <p className="text-gray-600 mt-1">Manage the field staff who work on your maintenance tickets</p>
+              </div>
+            </div>
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="btn-primary flex items-center space-x-2"
+            >
+              <PlusIcon className="h-5 w-5" />
+              <span>Add Technician</span>
+            </button>
+          </div>
+
+          {/* Technicians Table */}
+          <div className="bg-white rounded-2xl border border-gray-100">
+            <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Technicians ({technicians.length})
+              </h2>
+              <div className="relative">
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value)}
+                  className="input-field appearance-none pr-8 min-w-[120px]"
+                >
+                  <option value="all">All Status</option>
+                  <option value="active">Active</option>
+                  <option value="inactive">Inactive</option>
+                </select>
+                <ChevronDownIcon className="h-4 w-4 absolute right-2 top-3 text-gray-400 pointer-events-none" />
+              </div>
+            </div>
+
+            {technicians.length === 0 ? (
+              <div className="text-center py-12">
+                <UserGroupIcon className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-600">No technicians yet. Add one to start assigning tickets.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                        Technician
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                        Contact
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                        Open Tickets
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white">
+                    {technicians.map((technician) => (
+                      <tr key={technician.id} className="border-b border-gray-100 hover:bg-gray-50 transition-colors">
+                        <td className="px-6 py-4">
+                          <div className="text-sm font-medium text-gray-900">{technician.display_name}</div>
+                          <div className="text-sm text-gray-500">{technician.job_title || 'Technician'}</div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="text-sm text-gray-900 flex items-center">
+                            <EnvelopeIcon className="h-4 w-4 text-gray-400 mr-1" />
+                            {technician.email}
+                          </div>
+                          {technician.phone && (
+                            <div className="text-sm text-gray-500 flex items-center mt-1">
+                              <PhoneIcon className="h-4 w-4 text-gray-400 mr-1" />
+                              {technician.phone}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="text-sm text-gray-900 flex items-center">
+                            <WrenchScrewdriverIcon className="h-4 w-4 text-gray-400 mr-1" />
+                            {technician.open_tickets}
+                          </div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            {technician.last_login ? `Last login ${formatDate(technician.last_login)}` : 'Never logged in'}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            technician.status === 'active'
+                              ? 'bg-green-100 text-green-800'
+                              : 'bg-gray-100 text-gray-800'
+                          }`}>
+                            {technician.status}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <button
+                            onClick={() => handleToggleStatus(technician)}
+                            disabled={updatingId === technician.id}
+                            className={`text-sm font-medium disabled:opacity-50 ${
+                              technician.status === 'active'
+                                ? 'text-red-600 hover:text-red-800'
+                                : 'text-green-600 hover:text-green-800'
+                            }`}
+                          >
+                            {technician.status === 'active' ? 'Deactivate' : 'Activate'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <AddTechnicianModal
+          isOpen={showAddModal}
+          onClose={() => setShowAddModal(false)}
+          onTechnicianCreated={fetchTechnicians}
+        />
+      </DashboardLayout>
+    </RequireRole>
+  );
+}
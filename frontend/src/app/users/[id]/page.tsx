@@ -8,6 +8,7 @@ import RequireRole from '@/components/auth/RequireRole';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorDisplay from '@/components/ui/ErrorDisplay';
 import ConfirmModal from '@/components/ui/ConfirmModal';
+import SessionsPanel from '@/components/auth/SessionsPanel';
 import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
 import { 
   UserIcon,
@@ -29,7 +30,8 @@ import {
   ChartBarIcon,
   UserGroupIcon,
   GlobeAltIcon,
-  DocumentTextIcon
+  DocumentTextIcon,
+  ComputerDesktopIcon
 } from '@heroicons/react/24/outline';
 
 interface UserDetail {
@@ -41,6 +43,7 @@ interface UserDetail {
   phone?: string;
   user_type: 'admin' | 'vendor' | 'client';
   is_locked: boolean;
+  two_factor_enabled?: boolean;
   last_login: string | null;
   created_at: string;
   last_login_ip: string | null;
@@ -279,13 +282,43 @@ function UserDetailContent() {
         throw new Error(result.message || 'Failed to reset password');
       }
 
-      alert('Password reset link has been generated successfully');
+      alert(result.message || 'Password reset link has been sent');
     } catch (err) {
       console.error('Error resetting password:', err);
       setError(err instanceof Error ? err.message : 'Failed to reset password');
     }
   };
 
+  // Clear two-factor so a user who lost their device can enroll again
+  const handleResetTwoFactor = async () => {
+    if (!confirm('Reset two-factor authentication for this user? They will be signed out of all devices.')) {
+      return;
+    }
+
+    try {
+      const headers = getAuthHeaders();
+      const url = API_ENDPOINTS.USER_DETAILS.RESET_TWO_FACTOR(userId);
+
+      logApiCall('POST', url);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to reset two-factor authentication');
+      }
+
+      alert(result.message || 'Two-factor authentication has been reset');
+      fetchUserDetails();
+    } catch (err) {
+      console.error('Error resetting two-factor authentication:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reset two-factor authentication');
+    }
+  };
+
   // Check user deletion constraints
   const checkUserDeletion = async () => {
     try {
@@ -471,6 +504,15 @@ function UserDetailContent() {
               <ShieldCheckIcon className="h-4 w-4" />
               <span>Reset Password</span>
             </button>
+            {user?.two_factor_enabled && (
+              <button
+                onClick={handleResetTwoFactor}
+                className="btn-secondary flex items-center space-x-2"
+              >
+                <ShieldCheckIcon className="h-4 w-4" />
+                <span>Reset 2FA</span>
+              </button>
+            )}
             <button
               onClick={handleDeleteAccount}
               className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 border border-red-200 rounded-full hover:bg-red-100 transition-colors"
@@ -592,7 +634,8 @@ function UserDetailContent() {
                 ...(user?.user_type === 'client' ? [
                   { id: 'vendor', name: 'Vendor', icon: UserGroupIcon },
                   { id: 'equipment', name: 'Equipment', icon: FireIcon }
-                ] : [])
+                ] : []),
+                { id: 'sessions', name: 'Sessions', icon: ComputerDesktopIcon }
               ].map((tab) => (
                 <button
                   key={tab.id}
@@ -701,6 +744,13 @@ function UserDetailContent() {
                         <label className="block text-sm font-medium text-gray-700">Account Status</label>
                         <p className="text-sm text-gray-900">{user?.is_locked ? 'Locked' : 'Active'}</p>
                       </div>
+
+                      {user?.user_type !== 'client' && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">Two-Factor Authentication</label>
+                          <p className="text-sm text-gray-900">{user?.two_factor_enabled ? 'Enabled' : 'Not set up'}</p>
+                        </div>
+                      )}
                       
                       <div>
                         <label className="block text-sm font-medium text-gray-700">Joined</label>
@@ -1059,6 +1109,11 @@ function UserDetailContent() {
                 )}
               </div>
             )}
+
+            {/* Sessions Tab */}
+            {activeTab === 'sessions' && user && (
+              <SessionsPanel userId={user.id} />
+            )}
           </div>
         </div>
       </div>
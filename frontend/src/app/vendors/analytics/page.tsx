@@ -127,6 +127,29 @@ interface VendorAudit {
   timestamp: string;
 }
 
+interface SlaCompliance {
+  priority: string;
+  tickets: number;
+  response_met: number;
+  response_breached: number;
+  response_met_pct: number | null;
+  resolution_met: number;
+  resolution_breached: number;
+  resolution_met_pct: number | null;
+  open_breaches: number;
+}
+
+interface ContractVisitCompliance {
+  contract_id: number;
+  contract_name: string;
+  client: string;
+  visits_per_year: number;
+  covered_instances: number;
+  visited_on_schedule: number;
+  overdue_visits: number;
+  visit_compliance_pct: number;
+}
+
 interface Client {
   id: number;
   company_name: string;
@@ -165,6 +188,8 @@ export default function VendorAnalyticsPage() {
   const [userLoginTrends, setUserLoginTrends] = useState<UserLoginTrend[]>([]);
   const [passwordResets, setPasswordResets] = useState<PasswordReset[]>([]);
   const [vendorAudits, setVendorAudits] = useState<VendorAudit[]>([]);
+  const [slaCompliance, setSlaCompliance] = useState<SlaCompliance[]>([]);
+  const [contractVisits, setContractVisits] = useState<ContractVisitCompliance[]>([]);
 
   // Filter options
   const [clients, setClients] = useState<Client[]>([]);
@@ -295,7 +320,9 @@ export default function VendorAnalyticsPage() {
         technicianPerformanceRes,
         userLoginTrendsRes,
         passwordResetsRes,
-        vendorAuditsRes
+        vendorAuditsRes,
+        slaComplianceRes,
+        contractVisitsRes
       ] = await Promise.all([
         fetch(`${API_BASE_URL}/vendor/analytics/overview?${params}`, { headers }),
         fetch(`${API_BASE_URL}/vendor/analytics/compliance/by-client`, { headers }),
@@ -308,7 +335,9 @@ export default function VendorAnalyticsPage() {
         fetch(`${API_BASE_URL}/vendor/analytics/users/technicians`, { headers }),
         fetch(`${API_BASE_URL}/vendor/analytics/users/logins?${params}`, { headers }),
         fetch(`${API_BASE_URL}/vendor/analytics/users/resets`, { headers }),
-        fetch(`${API_BASE_URL}/vendor/analytics/audit/recent`, { headers })
+        fetch(`${API_BASE_URL}/vendor/analytics/audit/recent`, { headers }),
+        fetch(`${API_BASE_URL}/vendor/analytics/tickets/sla?${params}`, { headers }),
+        fetch(`${API_BASE_URL}/vendor/analytics/clients/contracts?${params}`, { headers })
       ]);
 
       // Debug: Check response status codes
@@ -324,7 +353,9 @@ export default function VendorAnalyticsPage() {
         technicianPerformanceRes.status,
         userLoginTrendsRes.status,
         passwordResetsRes.status,
-        vendorAuditsRes.status
+        vendorAuditsRes.status,
+        slaComplianceRes.status,
+        contractVisitsRes.status
       ]);
 
       // Process responses
@@ -340,7 +371,9 @@ export default function VendorAnalyticsPage() {
         technicianPerformanceRes.json(),
         userLoginTrendsRes.json(),
         passwordResetsRes.json(),
-        vendorAuditsRes.json()
+        vendorAuditsRes.json(),
+        slaComplianceRes.json(),
+        contractVisitsRes.json()
       ]);
 
       // Debug: Log responses to see what we're getting
@@ -372,6 +405,8 @@ export default function VendorAnalyticsPage() {
       setUserLoginTrends(responses[9].success ? responses[9].data : []);
       setPasswordResets(responses[10].success ? responses[10].data : []);
       setVendorAudits(responses[11].success ? responses[11].data : []);
+      setSlaCompliance(responses[12].success ? responses[12].data : []);
+      setContractVisits(responses[13].success ? responses[13].data : []);
 
     } catch (error) {
       console.error('Error fetching analytics:', error);
@@ -950,8 +985,112 @@ export default function VendorAnalyticsPage() {
                 <div className="text-center py-8 text-gray-500">No ticket trend data available</div>
               )}
             </div>
+
+            {/* SLA Compliance */}
+            <div className="bg-white rounded-2xl border border-gray-100 p-6 hover:shadow-sm transition-shadow">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+                <ClockIcon className="h-6 w-6 text-blue-600 mr-2" />
+                SLA Compliance
+              </h2>
+              
+              {slaCompliance.length > 0 ? (
+                <>
+                  <div className="h-48">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={slaCompliance.map(row => ({
+                        priority: row.priority.charAt(0).toUpperCase() + row.priority.slice(1),
+                        'Response met %': row.response_met_pct ?? 0,
+                        'Resolution met %': row.resolution_met_pct ?? 0
+                      }))}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="priority" />
+                        <YAxis domain={[0, 100]} />
+                        <Tooltip />
+                        <Legend />
+                        <Bar dataKey="Response met %" fill="#1E40AF" />
+                        <Bar dataKey="Resolution met %" fill="#059669" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <table className="w-full mt-4 text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200">
+                        <th className="text-left py-2 px-2 font-semibold text-gray-900">Priority</th>
+                        <th className="text-left py-2 px-2 font-semibold text-gray-900">Tickets</th>
+                        <th className="text-left py-2 px-2 font-semibold text-gray-900">Breaches</th>
+                        <th className="text-left py-2 px-2 font-semibold text-gray-900">Still Open</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {slaCompliance.map(row => (
+                        <tr key={row.priority} className="border-b border-gray-100">
+                          <td className="py-2 px-2 font-medium text-gray-900 capitalize">{row.priority}</td>
+                          <td className="py-2 px-2 text-gray-600">{row.tickets}</td>
+                          <td className="py-2 px-2 text-gray-600">
+                            {row.response_breached} response, {row.resolution_breached} resolution
+                          </td>
+                          <td className={`py-2 px-2 ${row.open_breaches > 0 ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                            {row.open_breaches}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              ) : (
+                <div className="text-center py-8 text-gray-500">No tickets under a service contract in this period</div>
+              )}
+            </div>
           </div>
 
+          {/* Contract Visit Compliance */}
+          {contractVisits.length > 0 && (
+            <div className="bg-white rounded-2xl border border-gray-100 p-6 hover:shadow-sm transition-shadow">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+                <CheckCircleIcon className="h-6 w-6 text-green-600 mr-2" />
+                Contracted Visits
+              </h2>
+              
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 font-semibold text-gray-900">Contract</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-900">Visits / Year</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-900">Covered</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-900">Overdue</th>
+                      <th className="text-left py-3 px-4 font-semibold text-gray-900">On Schedule</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {contractVisits.map(contract => (
+                      <tr key={contract.contract_id} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4">
+                          <div className="font-medium text-gray-900">{contract.contract_name}</div>
+                          <div className="text-sm text-gray-500">{contract.client}</div>
+                        </td>
+                        <td className="py-3 px-4 text-gray-600">{contract.visits_per_year}</td>
+                        <td className="py-3 px-4 text-gray-600">{contract.covered_instances}</td>
+                        <td className="py-3 px-4 text-gray-600">{contract.overdue_visits}</td>
+                        <td className="py-3 px-4">
+                          <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                            contract.visit_compliance_pct >= 90
+                              ? 'bg-green-100 text-green-800'
+                              : contract.visit_compliance_pct >= 80
+                                ? 'bg-yellow-100 text-yellow-800'
+                                : 'bg-red-100 text-red-800'
+                          }`}>
+                            {contract.visit_compliance_pct}%
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
           {/* Client Performance & Equipment */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Client Rankings */}
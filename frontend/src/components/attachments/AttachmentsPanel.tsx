@@ -0,0 +1,333 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import {
+  PaperClipIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  DocumentTextIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+
+export type AttachmentCategory = 'before' | 'after' | 'certificate' | 'other';
+
+export interface Attachment {
+  id: number;
+  category: AttachmentCategory;
+  original_name: string;
+  mime_type: string;
+  file_size: number;
+  uploaded_by_name?: string;
+  created_at: string;
+}
+
+export interface AttachmentUpload {
+  file_name: string;
+  mime_type: string;
+  data: string;
+  category?: AttachmentCategory;
+}
+
+export const ACCEPTED_ATTACHMENT_TYPES = 'image/jpeg,image/png,image/webp,application/pdf';
+export const MAX_ATTACHMENT_SIZE_BYTES = 5 * 1024 * 1024;
+
+const CATEGORY_LABELS: Record<AttachmentCategory, string> = {
+  before: 'Before',
+  after: 'After',
+  certificate: 'Certificate',
+  other: 'Other'
+};
+
+/**
+ * Read a picked file into the base64 payload the attachment endpoints accept
+ */
+export function readFileAsUpload(file: File, category?: AttachmentCategory): Promise<AttachmentUpload> {
+  return new Promise((resolve, reject) => {
+    if (!ACCEPTED_ATTACHMENT_TYPES.split(',').includes(file.type)) {
+      reject(new Error(`${file.name}: only JPEG, PNG, WebP and PDF files can be attached`));
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE_BYTES) {
+      reject(new Error(`${file.name}: files must be 5 MB or smaller`));
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => resolve({
+      file_name: file.name,
+      mime_type: file.type,
+      data: reader.result as string,
+      ...(category && { category })
+    });
+    reader.onerror = () => reject(new Error(`${file.name}: could not be read`));
+    reader.readAsDataURL(file);
+  });
+}
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Fetch an attachment with the auth header and return it as a blob
+ */
+async function fetchAttachmentBlob(attachmentId: number): Promise<Blob> {
+  const { Authorization } = getAuthHeaders();
+  const response = await fetch(API_ENDPOINTS.ATTACHMENTS.DOWNLOAD(attachmentId), {
+    headers: Authorization ? { Authorization } : {}
+  });
+  if (!response.ok) throw new Error('Failed to download attachment');
+  return await response.blob();
+}
+
+interface AttachmentsPanelProps {
+  entityType: 'ticket' | 'equipment_instance';
+  entityId: number;
+  canUpload?: boolean;
+  canDelete?: boolean;
+  title?: string;
+}
+
+export default function AttachmentsPanel({
+  entityType,
+  entityId,
+  canUpload = false,
+  canDelete = false,
+  title = 'Attachments'
+}: AttachmentsPanelProps) {
+  const { showToast } = useToast();
+  const { confirm } = useConfirmModal();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [previews, setPreviews] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [category, setCategory] = useState<AttachmentCategory>('other');
+
+  const listUrl = entityType === 'ticket'
+    ? API_ENDPOINTS.ATTACHMENTS.TICKET(entityId)
+    : API_ENDPOINTS.ATTACHMENTS.EQUIPMENT_INSTANCE(entityId);
+
+  const fetchAttachments = useCallback(async () => {
+    try {
+      logApiCall('GET', listUrl);
+      const response = await fetch(listUrl, { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch attachments');
+
+      const data = await response.json();
+      setAttachments(data.data || []);
+    } catch (err) {
+      console.error('Error fetching attachments:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listUrl]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  // Image previews need the auth header, so load them as object URLs
+  const requestedPreviews = useRef<Set<number>>(new Set());
+  const previewUrls = useRef<string[]>([]);
+
+  useEffect(() => {
+    const images = attachments.filter(a => a.mime_type.startsWith('image/') && !requestedPreviews.current.has(a.id));
+    images.forEach(async (attachment) => {
+      requestedPreviews.current.add(attachment.id);
+      try {
+        const url = URL.createObjectURL(await fetchAttachmentBlob(attachment.id));
+        previewUrls.current.push(url);
+        setPreviews(prev => ({ ...prev, [attachment.id]: url }));
+      } catch (err) {
+        console.error('Error loading attachment preview:', err);
+      }
+    });
+  }, [attachments]);
+
+  useEffect(() => {
+    const urls = previewUrls.current;
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+
+    try {
+      for (const file of files) {
+        const upload = await readFileAsUpload(file, category);
+        logApiCall('POST', listUrl, { file_name: upload.file_name });
+        const response = await fetch(listUrl, {
+          method: 'POST',
+          headers: getAuthHeaders(),
+          body: JSON.stringify(upload)
+        });
+
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.message || `Failed to upload ${file.name}`);
+        }
+      }
+
+      showToast('success', files.length === 1 ? 'Attachment uploaded' : `${files.length} attachments uploaded`);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to upload attachment');
+    } finally {
+      setIsUploading(false);
+      await fetchAttachments();
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const url = URL.createObjectURL(await fetchAttachmentBlob(attachment.id));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.original_name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to download attachment');
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    const confirmed = await confirm({
+      title: 'Delete Attachment',
+      message: `Delete ${attachment.original_name}?`,
+      confirmText: 'Delete',
+      type: 'danger'
+    });
+
+    if (!confirmed) return;
+
+    try {
+      const url = API_ENDPOINTS.ATTACHMENTS.DELETE(attachment.id);
+      logApiCall('DELETE', url);
+      const response = await fetch(url, { method: 'DELETE', headers: getAuthHeaders() });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete attachment');
+      }
+
+      showToast('success', 'Attachment deleted');
+      await fetchAttachments();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to delete attachment');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <PaperClipIcon className="h-5 w-5 text-red-600 mr-2" />
+          {title} ({attachments.length})
+        </h3>
+        {canUpload && (
+          <div className="flex items-center space-x-2">
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as AttachmentCategory)}
+              className="input-field py-1.5 text-sm"
+              disabled={isUploading}
+            >
+              {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className="btn-secondary flex items-center space-x-1 text-sm disabled:opacity-50"
+            >
+              <ArrowUpTrayIcon className="h-4 w-4" />
+              <span>{isUploading ? 'Uploading...' : 'Upload'}</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_ATTACHMENT_TYPES}
+              multiple
+              onChange={handleFilesSelected}
+              className="hidden"
+            />
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading attachments...</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">No photos or documents attached yet.</p>
+      ) : (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="border border-gray-100 rounded-xl p-3 flex items-start space-x-3">
+              <div className="w-16 h-16 flex-shrink-0 rounded-lg bg-gray-50 flex items-center justify-center overflow-hidden">
+                {previews[attachment.id] ? (
+                  <Image
+                    src={previews[attachment.id]}
+                    alt={attachment.original_name}
+                    width={64}
+                    height={64}
+                    unoptimized
+                    className="w-16 h-16 object-cover"
+                  />
+                ) : (
+                  <DocumentTextIcon className="h-8 w-8 text-gray-400" />
+                )}
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-gray-900 truncate" title={attachment.original_name}>
+                  {attachment.original_name}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {CATEGORY_LABELS[attachment.category] || 'Other'} · {formatFileSize(attachment.file_size)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {attachment.uploaded_by_name ? `${attachment.uploaded_by_name} · ` : ''}{formatDate(attachment.created_at)}
+                </p>
+              </div>
+              <div className="flex flex-col space-y-1">
+                <button
+                  onClick={() => handleDownload(attachment)}
+                  className="p-1.5 text-gray-500 hover:text-gray-900"
+                  title="Download"
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4" />
+                </button>
+                {canDelete && (
+                  <button
+                    onClick={() => handleDelete(attachment)}
+                    className="p-1.5 text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
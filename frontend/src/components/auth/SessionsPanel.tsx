@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import { formatDateTime } from '@/utils/dateFormatter';
+import {
+  ComputerDesktopIcon,
+  DevicePhoneMobileIcon,
+  ArrowRightOnRectangleIcon
+} from '@heroicons/react/24/outline';
+
+export interface UserSession {
+  id: number;
+  device_name: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  last_activity: string;
+  created_at: string;
+  is_current?: boolean;
+}
+
+const isMobileDevice = (session: UserSession) =>
+  /iPhone|iPad|Android/.test(session.device_name || '');
+
+interface SessionsPanelProps {
+  // Another user's sessions (admin view); the signed-in user's own when omitted
+  userId?: number;
+}
+
+/**
+ * Lists where a user is signed in and lets devices be signed out remotely
+ */
+export default function SessionsPanel({ userId }: SessionsPanelProps) {
+  const { showToast } = useToast();
+  const { confirm } = useConfirmModal();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  const isAdminView = userId !== undefined;
+  const listUrl = isAdminView ? API_ENDPOINTS.USER_DETAILS.SESSIONS(userId) : API_ENDPOINTS.PROFILE.SESSIONS;
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      logApiCall('GET', listUrl);
+      const response = await fetch(listUrl, { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch sessions');
+
+      const data = await response.json();
+      setSessions(data.data || []);
+    } catch (err) {
+      console.error('Error fetching sessions:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listUrl]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const revoke = async (url: string, method: 'POST' | 'DELETE', fallbackMessage: string) => {
+    setIsRevoking(true);
+
+    try {
+      logApiCall(method, url);
+      const response = await fetch(url, { method, headers: getAuthHeaders() });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || fallbackMessage);
+      }
+
+      showToast('success', result.message);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : fallbackMessage);
+    } finally {
+      setIsRevoking(false);
+      await fetchSessions();
+    }
+  };
+
+  const handleRevokeSession = async (session: UserSession) => {
+    const confirmed = await confirm({
+      title: 'Sign Out Device',
+      message: `Sign out ${session.device_name || 'this device'}? It will need to log in again.`,
+      confirmText: 'Sign Out',
+      type: 'danger'
+    });
+    if (!confirmed) return;
+
+    const url = isAdminView
+      ? API_ENDPOINTS.USER_DETAILS.SESSION(userId, session.id)
+      : API_ENDPOINTS.PROFILE.SESSION(session.id);
+    await revoke(url, 'DELETE', 'Failed to sign out device');
+  };
+
+  const handleRevokeAll = async () => {
+    const confirmed = await confirm({
+      title: isAdminView ? 'Sign Out Everywhere' : 'Sign Out Other Devices',
+      message: isAdminView
+        ? 'Sign this user out of every device? They will need to log in again.'
+        : 'Sign out every device except this one?',
+      confirmText: 'Sign Out',
+      type: 'danger'
+    });
+    if (!confirmed) return;
+
+    if (isAdminView) {
+      await revoke(API_ENDPOINTS.USER_DETAILS.SESSIONS(userId), 'DELETE', 'Failed to sign out sessions');
+    } else {
+      await revoke(API_ENDPOINTS.PROFILE.REVOKE_OTHER_SESSIONS, 'POST', 'Failed to sign out other devices');
+    }
+  };
+
+  const revocableCount = sessions.filter(session => !session.is_current).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            {isAdminView ? 'Active Sessions' : 'Where You\'re Signed In'}
+          </h3>
+          <p className="text-sm text-gray-500">
+            {isAdminView
+              ? 'Devices this user is currently signed in on'
+              : 'Sign out any device you don\'t recognise'}
+          </p>
+        </div>
+        {revocableCount > 0 && (
+          <button
+            onClick={handleRevokeAll}
+            disabled={isRevoking}
+            className="btn-secondary flex items-center space-x-1 text-sm disabled:opacity-50"
+          >
+            <ArrowRightOnRectangleIcon className="h-4 w-4" />
+            <span>{isAdminView ? 'Sign out everywhere' : 'Sign out all others'}</span>
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading sessions...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No active sessions.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+          {sessions.map((session) => {
+            const DeviceIcon = isMobileDevice(session) ? DevicePhoneMobileIcon : ComputerDesktopIcon;
+            return (
+              <li key={session.id} className="flex items-center justify-between p-4">
+                <div className="flex items-start space-x-3 min-w-0">
+                  <DeviceIcon className="h-6 w-6 text-gray-400 flex-shrink-0 mt-0.5" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 flex items-center">
+                      {session.device_name || 'Unknown device'}
+                      {session.is_current && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate" title={session.user_agent || undefined}>
+                      {session.ip_address || 'Unknown IP'} · Last active {formatDateTime(session.last_activity)}
+                    </p>
+                    <p className="text-xs text-gray-400">Signed in {formatDateTime(session.created_at)}</p>
+                  </div>
+                </div>
+                {!session.is_current && (
+                  <button
+                    onClick={() => handleRevokeSession(session)}
+                    disabled={isRevoking}
+                    className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50 flex-shrink-0 ml-4"
+                  >
+                    Sign out
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import { useToast } from '@/components/providers/ToastProvider';
+import { formatDateTime } from '@/utils/dateFormatter';
+import {
+  ShieldCheckIcon,
+  ExclamationTriangleIcon,
+  ClipboardDocumentIcon
+} from '@heroicons/react/24/outline';
+
+interface TwoFactorStatus {
+  available: boolean;
+  required: boolean;
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+type PanelMode = 'idle' | 'setup' | 'disable' | 'regenerate' | 'recovery-codes';
+
+/**
+ * Authenticator app enrollment, recovery codes and turning two-factor off
+ */
+export default function TwoFactorPanel() {
+  const { showToast } = useToast();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<PanelMode>('idle');
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      logApiCall('GET', API_ENDPOINTS.PROFILE.TWO_FACTOR);
+      const response = await fetch(API_ENDPOINTS.PROFILE.TWO_FACTOR, { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch two-factor status');
+
+      const data = await response.json();
+      setStatus(data.data);
+    } catch (err) {
+      console.error('Error fetching two-factor status:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const resetForm = (nextMode: PanelMode = 'idle') => {
+    setMode(nextMode);
+    setCode('');
+    setPassword('');
+  };
+
+  const post = async (url: string, body: object, fallbackMessage: string) => {
+    logApiCall('POST', url);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(body)
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.message || fallbackMessage);
+    }
+    return result;
+  };
+
+  const handleStartSetup = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const result = await post(API_ENDPOINTS.PROFILE.TWO_FACTOR_SETUP, {}, 'Failed to start two-factor setup');
+      setEnrollment(result.data);
+      resetForm('setup');
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to start two-factor setup');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      if (mode === 'setup') {
+        const result = await post(API_ENDPOINTS.PROFILE.TWO_FACTOR_ENABLE, { code: code.trim() }, 'Failed to enable two-factor authentication');
+        setEnrollment(null);
+        setRecoveryCodes(result.data.recoveryCodes);
+        resetForm('recovery-codes');
+        showToast('success', result.message);
+      } else if (mode === 'regenerate') {
+        const result = await post(API_ENDPOINTS.PROFILE.TWO_FACTOR_RECOVERY_CODES, { code: code.trim() }, 'Failed to generate recovery codes');
+        setRecoveryCodes(result.data.recoveryCodes);
+        resetForm('recovery-codes');
+        showToast('success', result.message);
+      } else if (mode === 'disable') {
+        const result = await post(API_ENDPOINTS.PROFILE.TWO_FACTOR_DISABLE, { password, code: code.trim() }, 'Failed to disable two-factor authentication');
+        resetForm();
+        showToast('success', result.message);
+      }
+      await fetchStatus();
+    } catch (err) {
+      setCode('');
+      showToast('error', err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      showToast('success', 'Recovery codes copied');
+    } catch {
+      showToast('error', 'Could not copy to clipboard');
+    }
+  };
+
+  const handleDoneWithCodes = () => {
+    setRecoveryCodes([]);
+    resetForm();
+  };
+
+  if (!status || !status.available) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Two-Factor Authentication</h3>
+          <p className="text-sm text-gray-500">
+            Require a code from an authenticator app each time you sign in
+          </p>
+        </div>
+        <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium ${
+          status.enabled
+            ? 'bg-green-100 text-green-800 border border-green-200'
+            : 'bg-gray-100 text-gray-800 border border-gray-200'
+        }`}>
+          {status.enabled ? 'Enabled' : 'Disabled'}
+        </span>
+      </div>
+
+      {status.required && !status.enabled && mode !== 'recovery-codes' && (
+        <div className="mb-4 p-4 rounded-lg bg-amber-50 border border-amber-200 flex items-start">
+          <ExclamationTriangleIcon className="h-5 w-5 text-amber-600 mr-2 flex-shrink-0" />
+          <p className="text-sm text-amber-800">
+            Two-factor authentication is required for your account. Set it up to continue using the system.
+          </p>
+        </div>
+      )}
+
+      {mode === 'recovery-codes' && (
+        <div className="space-y-4">
+          <div className="p-4 rounded-lg bg-amber-50 border border-amber-200">
+            <p className="text-sm text-amber-800">
+              Save these recovery codes somewhere safe. Each one works once if you lose access to your
+              authenticator app. They won&apos;t be shown again.
+            </p>
+          </div>
+          <ul className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg border border-gray-200 font-mono text-sm text-gray-900">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <div className="flex justify-end space-x-3">
+            <button onClick={handleCopyCodes} className="btn-secondary flex items-center space-x-1 text-sm">
+              <ClipboardDocumentIcon className="h-4 w-4" />
+              <span>Copy codes</span>
+            </button>
+            <button onClick={handleDoneWithCodes} className="btn-primary text-sm">
+              I&apos;ve saved them
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'idle' && !status.enabled && (
+        <div className="flex justify-end">
+          <button
+            onClick={handleStartSetup}
+            disabled={isSubmitting}
+            className="btn-primary flex items-center space-x-1 text-sm disabled:opacity-50"
+          >
+            <ShieldCheckIcon className="h-4 w-4" />
+            <span>{isSubmitting ? 'Starting...' : 'Set up authenticator app'}</span>
+          </button>
+        </div>
+      )}
+
+      {mode === 'idle' && status.enabled && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-gray-600">
+            {status.enabledAt && <p>Turned on {formatDateTime(status.enabledAt)}</p>}
+            <p className={status.recoveryCodesRemaining <= 2 ? 'text-amber-700' : undefined}>
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} remaining
+            </p>
+          </div>
+          <div className="flex space-x-3">
+            <button onClick={() => resetForm('regenerate')} className="btn-secondary text-sm">
+              New recovery codes
+            </button>
+            {!status.required && (
+              <button
+                onClick={() => resetForm('disable')}
+                className="text-sm text-red-600 hover:text-red-700"
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {(mode === 'setup' || mode === 'regenerate' || mode === 'disable') && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'setup' && enrollment && (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              <Image
+                src={enrollment.qrCode}
+                alt="Two-factor QR code"
+                width={180}
+                height={180}
+                unoptimized
+                className="border border-gray-200 rounded-lg"
+              />
+              <div className="text-sm text-gray-600 space-y-2">
+                <p>Scan this QR code with an authenticator app such as Google Authenticator or 1Password.</p>
+                <p>Can&apos;t scan it? Enter this key instead:</p>
+                <p className="font-mono text-gray-900 break-all bg-gray-50 border border-gray-200 rounded px-2 py-1">
+                  {enrollment.secret}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {mode === 'disable' && (
+            <div>
+              <label htmlFor="twoFactorPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                Current Password
+              </label>
+              <input
+                id="twoFactorPassword"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+                required
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700 mb-1">
+              {mode === 'setup' ? 'Code from your app' : 'Authenticator or recovery code'}
+            </label>
+            <input
+              id="twoFactorCode"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={20}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-red-500"
+              placeholder="123456"
+              required
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={() => resetForm()} className="btn-secondary text-sm">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !code.trim()}
+              className="btn-primary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting
+                ? 'Verifying...'
+                : mode === 'setup'
+                  ? 'Turn on'
+                  : mode === 'disable'
+                    ? 'Turn off two-factor'
+                    : 'Generate codes'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
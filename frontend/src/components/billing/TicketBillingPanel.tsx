@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { API_ENDPOINTS } from '@/config/api';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import BillingDocumentModal from '@/components/modals/BillingDocumentModal';
+import {
+  INVOICE_STATUS_STYLES,
+  Invoice,
+  QUOTE_STATUS_STYLES,
+  Quote,
+  billingRequest,
+  downloadBillingPdf,
+  formatMoney
+} from './billing';
+import { BanknotesIcon, ArrowDownTrayIcon, PlusIcon } from '@heroicons/react/24/outline';
+
+interface TicketBillingPanelProps {
+  ticketId: number;
+  ticketStatus: 'open' | 'resolved' | 'closed';
+  // Vendors raise and send documents; clients answer quotes and see invoices
+  viewer: 'vendor' | 'client';
+}
+
+type Editing = { kind: 'quote' | 'invoice'; document: Quote | Invoice | null };
+
+export default function TicketBillingPanel({ ticketId, ticketStatus, viewer }: TicketBillingPanelProps) {
+  const { showToast } = useToast();
+  const { confirm } = useConfirmModal();
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Editing | null>(null);
+
+  const isVendor = viewer === 'vendor';
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      const [quoteList, invoiceList] = await Promise.all([
+        billingRequest<Quote[]>(`${API_ENDPOINTS.BILLING.QUOTES}?ticket_id=${ticketId}`),
+        billingRequest<Invoice[]>(`${API_ENDPOINTS.BILLING.INVOICES}?ticket_id=${ticketId}`)
+      ]);
+      setQuotes(quoteList);
+      setInvoices(invoiceList);
+    } catch (err) {
+      console.error('Error fetching billing:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const runAction = async (key: string, url: string, message: string, body?: unknown) => {
+    setBusyId(key);
+    try {
+      await billingRequest(url, 'POST', body ?? {});
+      showToast('success', message);
+      await fetchDocuments();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDownload = async (kind: 'quote' | 'invoice', id: number, documentNumber: string) => {
+    setBusyId(`${kind}-pdf-${id}`);
+    try {
+      await downloadBillingPdf(kind, id, documentNumber);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Download failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSendQuote = async (quote: Quote) => {
+    const confirmed = await confirm({
+      title: 'Send Quote',
+      message: `Send ${quote.quote_number} for ${formatMoney(quote.total)} to the client? It can't be edited once sent.`,
+      confirmText: 'Send'
+    });
+    if (confirmed) {
+      await runAction(`quote-${quote.id}`, API_ENDPOINTS.BILLING.QUOTE_SEND(quote.id), 'Quote sent to client');
+    }
+  };
+
+  const handleRespond = async (quote: Quote, decision: 'accept' | 'decline') => {
+    const accepting = decision === 'accept';
+    const confirmed = await confirm({
+      title: accepting ? 'Accept Quote' : 'Decline Quote',
+      message: accepting
+        ? `Accept ${quote.quote_number} for ${formatMoney(quote.total)}? Your vendor will go ahead with the work.`
+        : `Decline ${quote.quote_number}? Your vendor will be told.`,
+      confirmText: accepting ? 'Accept' : 'Decline',
+      type: accepting ? undefined : 'danger'
+    });
+    if (confirmed) {
+      await runAction(
+        `quote-${quote.id}`,
+        accepting ? API_ENDPOINTS.BILLING.QUOTE_ACCEPT(quote.id) : API_ENDPOINTS.BILLING.QUOTE_DECLINE(quote.id),
+        accepting ? 'Quote accepted' : 'Quote declined'
+      );
+    }
+  };
+
+  const handleIssueInvoice = async (invoice: Invoice) => {
+    const confirmed = await confirm({
+      title: 'Issue Invoice',
+      message: `Issue ${invoice.invoice_number} for ${formatMoney(invoice.total)} to the client? It can't be edited once issued.`,
+      confirmText: 'Issue'
+    });
+    if (confirmed) {
+      await runAction(`invoice-${invoice.id}`, API_ENDPOINTS.BILLING.INVOICE_ISSUE(invoice.id), 'Invoice issued to client');
+    }
+  };
+
+  const hasLiveInvoice = invoices.some(invoice => invoice.status !== 'void');
+  const canQuote = isVendor && ticketStatus === 'open';
+  const canInvoice = isVendor && ticketStatus !== 'open' && !hasLiveInvoice;
+
+  if (!isVendor && !isLoading && quotes.length === 0 && invoices.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <BanknotesIcon className="h-5 w-5 text-red-600 mr-2" />
+          Quotes & Invoices
+        </h3>
+        {(canQuote || canInvoice) && (
+          <button
+            onClick={() => setEditing({ kind: canQuote ? 'quote' : 'invoice', document: null })}
+            className="btn-secondary inline-flex items-center text-sm"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            {canQuote ? 'Create Quote' : 'Create Invoice'}
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : quotes.length === 0 && invoices.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {canQuote
+            ? 'No quotes yet. Quote the work for client approval before starting it.'
+            : canInvoice
+              ? 'No invoice yet. Invoice the labour and parts recorded on this ticket.'
+              : 'Nothing billed on this ticket.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+          {quotes.map(quote => {
+            const style = quote.is_expired
+              ? { label: 'Expired', badge: 'bg-gray-200 text-gray-600' }
+              : QUOTE_STATUS_STYLES[quote.status];
+            const busy = busyId === `quote-${quote.id}`;
+            return (
+              <li key={`quote-${quote.id}`} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    Quote {quote.quote_number}
+                    <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${style.badge}`}>
+                      {style.label}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {[
+                      formatMoney(quote.total),
+                      quote.valid_until && `valid until ${quote.valid_until}`,
+                      quote.responded_by_name && `${quote.status} by ${quote.responded_by_name}`,
+                      quote.response_notes
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {isVendor && quote.status === 'draft' && (
+                    <>
+                      <button onClick={() => setEditing({ kind: 'quote', document: quote })} className="text-sm text-gray-600 hover:text-gray-900">
+                        Edit
+                      </button>
+                      <button onClick={() => handleSendQuote(quote)} disabled={busy} className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50">
+                        Send
+                      </button>
+                    </>
+                  )}
+                  {!isVendor && quote.status === 'sent' && !quote.is_expired && (
+                    <>
+                      <button onClick={() => handleRespond(quote, 'decline')} disabled={busy} className="btn-secondary text-sm disabled:opacity-50">
+                        Decline
+                      </button>
+                      <button onClick={() => handleRespond(quote, 'accept')} disabled={busy} className="btn-primary text-sm disabled:opacity-50">
+                        Accept
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => handleDownload('quote', quote.id, quote.quote_number)}
+                    disabled={busyId === `quote-pdf-${quote.id}`}
+                    className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-50"
+                    aria-label={`Download ${quote.quote_number}`}
+                  >
+                    <ArrowDownTrayIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+
+          {invoices.map(invoice => {
+            const style = invoice.is_overdue
+              ? { label: 'Overdue', badge: 'bg-red-100 text-red-800' }
+              : INVOICE_STATUS_STYLES[invoice.status];
+            const busy = busyId === `invoice-${invoice.id}`;
+            return (
+              <li key={`invoice-${invoice.id}`} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    Invoice {invoice.invoice_number}
+                    <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${style.badge}`}>
+                      {style.label}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {[
+                      formatMoney(invoice.total),
+                      invoice.status !== 'draft' && invoice.status !== 'void' && `${formatMoney(invoice.balance_due)} due`,
+                      invoice.due_date && invoice.status !== 'paid' && `by ${invoice.due_date}`,
+                      invoice.quote_number && `from quote ${invoice.quote_number}`
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {isVendor && invoice.status === 'draft' && (
+                    <>
+                      <button onClick={() => setEditing({ kind: 'invoice', document: invoice })} className="text-sm text-gray-600 hover:text-gray-900">
+                        Edit
+                      </button>
+                      <button onClick={() => handleIssueInvoice(invoice)} disabled={busy} className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50">
+                        Issue
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => handleDownload('invoice', invoice.id, invoice.invoice_number)}
+                    disabled={busyId === `invoice-pdf-${invoice.id}`}
+                    className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-50"
+                    aria-label={`Download ${invoice.invoice_number}`}
+                  >
+                    <ArrowDownTrayIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {isVendor && (
+        <BillingDocumentModal
+          isOpen={editing !== null}
+          kind={editing?.kind || 'quote'}
+          document={editing?.document}
+          ticketId={ticketId}
+          onClose={() => setEditing(null)}
+          onSaved={fetchDocuments}
+        />
+      )}
+    </div>
+  );
+}
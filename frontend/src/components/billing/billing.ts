@@ -0,0 +1,168 @@
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+
+export type RateType = 'labour' | 'call_out' | 'rental';
+export type LineType = 'labour' | 'call_out' | 'part' | 'rental' | 'other';
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined';
+export type InvoiceStatus = 'draft' | 'issued' | 'partially_paid' | 'paid' | 'void';
+export type PaymentMethod = 'cash' | 'bank_transfer' | 'card' | 'cheque' | 'other';
+
+export interface PriceListItem {
+  id: number;
+  rate_type: RateType;
+  equipment_type: string | null;
+  service_category: string | null;
+  description: string;
+  unit_price: number;
+}
+
+export interface BillingLine {
+  id?: number;
+  line_type: LineType;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount?: number;
+  part_id?: number | null;
+}
+
+export interface Quote {
+  id: number;
+  quote_number: string;
+  client_id: number;
+  client_name: string;
+  ticket_id: number | null;
+  ticket_number: string | null;
+  status: QuoteStatus;
+  valid_until: string | null;
+  is_expired: boolean;
+  notes: string | null;
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  sent_at: string | null;
+  responded_by_name: string | null;
+  responded_at: string | null;
+  response_notes: string | null;
+  invoice_number: string | null;
+  created_at: string;
+  lines: BillingLine[];
+}
+
+export interface InvoicePayment {
+  id: number;
+  amount: number;
+  payment_date: string;
+  method: PaymentMethod;
+  reference: string | null;
+  recorded_by_name: string | null;
+}
+
+export interface Invoice {
+  id: number;
+  invoice_number: string;
+  client_id: number;
+  client_name: string;
+  ticket_id: number | null;
+  ticket_number: string | null;
+  quote_number: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  status: InvoiceStatus;
+  is_overdue: boolean;
+  issue_date: string | null;
+  due_date: string | null;
+  notes: string | null;
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  amount_paid: number;
+  balance_due: number;
+  void_reason: string | null;
+  created_at: string;
+  lines: BillingLine[];
+  payments: InvoicePayment[];
+}
+
+export interface DraftLines {
+  lines: BillingLine[];
+  warnings: string[];
+}
+
+export const RATE_TYPE_LABELS: Record<RateType, string> = {
+  labour: 'Labour (per hour)',
+  call_out: 'Call-out (per visit)',
+  rental: 'Rental (per unit per month)',
+};
+
+export const LINE_TYPE_LABELS: Record<LineType, string> = {
+  labour: 'Labour',
+  call_out: 'Call-out',
+  part: 'Part',
+  rental: 'Rental',
+  other: 'Other',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank transfer',
+  card: 'Card',
+  cheque: 'Cheque',
+  other: 'Other',
+};
+
+export const QUOTE_STATUS_STYLES: Record<QuoteStatus, { label: string; badge: string }> = {
+  draft: { label: 'Draft', badge: 'bg-gray-100 text-gray-700' },
+  sent: { label: 'Awaiting approval', badge: 'bg-blue-100 text-blue-800' },
+  accepted: { label: 'Accepted', badge: 'bg-green-100 text-green-800' },
+  declined: { label: 'Declined', badge: 'bg-red-100 text-red-800' },
+};
+
+export const INVOICE_STATUS_STYLES: Record<InvoiceStatus, { label: string; badge: string }> = {
+  draft: { label: 'Draft', badge: 'bg-gray-100 text-gray-700' },
+  issued: { label: 'Issued', badge: 'bg-blue-100 text-blue-800' },
+  partially_paid: { label: 'Partially paid', badge: 'bg-yellow-100 text-yellow-800' },
+  paid: { label: 'Paid', badge: 'bg-green-100 text-green-800' },
+  void: { label: 'Void', badge: 'bg-gray-200 text-gray-500' },
+};
+
+export const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+/**
+ * Send a billing request and return its data, throwing the server's message on failure
+ */
+export async function billingRequest<T>(url: string, method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET', body?: unknown): Promise<T> {
+  logApiCall(method, url);
+  const response = await fetch(url, {
+    method,
+    headers: getAuthHeaders(),
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || 'Billing request failed');
+  }
+  return result.data;
+}
+
+/**
+ * Download a quote or invoice PDF
+ */
+export async function downloadBillingPdf(kind: 'quote' | 'invoice', id: number, documentNumber: string): Promise<void> {
+  const url = kind === 'quote' ? API_ENDPOINTS.BILLING.QUOTE_PDF(id) : API_ENDPOINTS.BILLING.INVOICE_PDF(id);
+  logApiCall('GET', url);
+  const response = await fetch(url, { headers: getAuthHeaders() });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.message || `Failed to download ${kind}`);
+  }
+
+  const blobUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = `${documentNumber}.pdf`;
+  link.click();
+  URL.revokeObjectURL(blobUrl);
+}
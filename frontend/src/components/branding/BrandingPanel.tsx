@@ -0,0 +1,299 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import { readFileAsUpload } from '@/components/attachments/AttachmentsPanel';
+import { Branding } from '@/components/layout/branding';
+import { ArrowPathIcon, ArrowUpTrayIcon, FireIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface BrandingSettings {
+  brandName: string;
+  tagline: string;
+  primaryColor: string;
+  secondaryColor: string;
+  contactEmail: string;
+  website: string;
+  emailSenderName: string;
+}
+
+const LOGO_TYPES = ['image/png', 'image/jpeg'];
+const MAX_LOGO_SIZE_BYTES = 1024 * 1024;
+
+const TEXT_FIELDS: { field: keyof BrandingSettings; label: string; placeholder: string; type?: string }[] = [
+  { field: 'brandName', label: 'Brand name', placeholder: 'Defaults to your company name' },
+  { field: 'tagline', label: 'Tagline', placeholder: 'Fire Safety Equipment Management System' },
+  { field: 'emailSenderName', label: 'Email sender name', placeholder: 'Defaults to your brand name' },
+  { field: 'contactEmail', label: 'Contact email', placeholder: 'service@example.com', type: 'email' },
+  { field: 'website', label: 'Website', placeholder: 'https://example.com', type: 'url' },
+];
+
+const COLOR_FIELDS: { field: 'primaryColor' | 'secondaryColor'; label: string }[] = [
+  { field: 'primaryColor', label: 'Primary color' },
+  { field: 'secondaryColor', label: 'Secondary color' },
+];
+
+/**
+ * Lets a vendor white-label the portal, emails and PDF reports their
+ * clients receive
+ */
+export default function BrandingPanel() {
+  const { success, error } = useToast();
+  const { confirm } = useConfirmModal();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [settings, setSettings] = useState<BrandingSettings | null>(null);
+  const [branding, setBranding] = useState<Branding | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const applyResponse = (data: { settings: BrandingSettings; branding: Branding }) => {
+    setSettings(data.settings);
+    setBranding(data.branding);
+  };
+
+  const fetchBranding = useCallback(async () => {
+    try {
+      logApiCall('GET', API_ENDPOINTS.BRANDING.VENDOR);
+      const response = await fetch(API_ENDPOINTS.BRANDING.VENDOR, { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch branding');
+
+      const result = await response.json();
+      applyResponse(result.data);
+    } catch (err) {
+      console.error('Error fetching branding:', err);
+      error('Failed to load branding');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [error]);
+
+  useEffect(() => {
+    fetchBranding();
+  }, [fetchBranding]);
+
+  const send = async (url: string, method: string, body?: object) => {
+    logApiCall(method, url);
+    const response = await fetch(url, {
+      method,
+      headers: getAuthHeaders(),
+      ...(body && { body: JSON.stringify(body) }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      const details = result.errors?.map((e: { msg?: string; message?: string }) => e.msg || e.message).join(', ');
+      throw new Error(details || result.message || 'Request failed');
+    }
+
+    applyResponse(result.data);
+    return result;
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setIsSaving(true);
+    try {
+      const result = await send(API_ENDPOINTS.BRANDING.VENDOR, 'PUT', settings);
+      success(result.message || 'Branding saved');
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to save branding');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLogoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!LOGO_TYPES.includes(file.type)) {
+      error('Logos must be PNG or JPEG images');
+      return;
+    }
+    if (file.size > MAX_LOGO_SIZE_BYTES) {
+      error('Logos must be 1 MB or smaller');
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const upload = await readFileAsUpload(file);
+      const result = await send(API_ENDPOINTS.BRANDING.VENDOR_LOGO, 'PUT', upload);
+      success(result.message || 'Logo uploaded');
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to upload logo');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemoveLogo = async () => {
+    const confirmed = await confirm({
+      title: 'Remove Logo',
+      message: 'Your clients will see your brand name instead of a logo. Continue?',
+      confirmText: 'Remove',
+      type: 'danger',
+    });
+    if (!confirmed) return;
+
+    setIsUploading(true);
+    try {
+      const result = await send(API_ENDPOINTS.BRANDING.VENDOR_LOGO, 'DELETE');
+      success(result.message || 'Logo removed');
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to remove logo');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading branding...</p>;
+  }
+
+  if (!settings || !branding) {
+    return <p className="text-sm text-gray-500">Branding is unavailable.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Client Branding</h3>
+        <p className="text-sm text-gray-500">
+          Your clients see this in their portal, in the emails we send them and on their PDF reports.
+          Leave a field empty to use the default.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          {TEXT_FIELDS.map(({ field, label, placeholder, type }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+              <input
+                type={type || 'text'}
+                value={settings[field]}
+                placeholder={placeholder}
+                onChange={(e) => setSettings({ ...settings, [field]: e.target.value })}
+                className="input-field"
+              />
+            </div>
+          ))}
+
+          <div className="grid grid-cols-2 gap-4">
+            {COLOR_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="color"
+                    aria-label={label}
+                    value={settings[field] || branding[field]}
+                    onChange={(e) => setSettings({ ...settings, [field]: e.target.value.toUpperCase() })}
+                    className="h-10 w-12 border border-gray-200 rounded cursor-pointer"
+                  />
+                  <input
+                    type="text"
+                    value={settings[field]}
+                    placeholder={branding[field]}
+                    onChange={(e) => setSettings({ ...settings, [field]: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Logo</label>
+            <p className="text-xs text-gray-500 mb-2">PNG or JPEG, up to 1 MB. A wide logo on a transparent background works best.</p>
+            <div className="flex items-center space-x-3">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={LOGO_TYPES.join(',')}
+                onChange={handleLogoSelected}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isUploading}
+                className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+              >
+                <ArrowUpTrayIcon className="h-4 w-4" />
+                <span>{branding.logoUrl ? 'Replace Logo' : 'Upload Logo'}</span>
+              </button>
+              {branding.logoUrl && (
+                <button
+                  type="button"
+                  onClick={handleRemoveLogo}
+                  disabled={isUploading}
+                  className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                  <span>Remove</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Preview of the saved branding, as a client's email header and footer */}
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-1">Preview</p>
+          <div className="border border-gray-200 rounded-xl overflow-hidden">
+            <div className="p-6 text-center text-white" style={{ backgroundColor: branding.primaryColor }}>
+              {branding.logoUrl ? (
+                // Served by the API, so next/image would need its host configured
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={branding.logoUrl} alt={branding.name} className="h-12 max-w-[180px] object-contain mx-auto mb-3" />
+              ) : (
+                <FireIcon className="h-10 w-10 mx-auto mb-2" />
+              )}
+              <p className="text-xl font-semibold">{branding.name}</p>
+              <p className="text-sm opacity-90">{branding.tagline}</p>
+            </div>
+            <div className="p-6 space-y-3">
+              <p className="text-sm text-gray-700">
+                Emails come from <span className="font-medium">{branding.senderName}</span>.
+              </p>
+              <span
+                className="inline-block px-4 py-2 rounded-lg text-sm font-medium text-white"
+                style={{ backgroundColor: branding.secondaryColor }}
+              >
+                Example button
+              </span>
+            </div>
+            <div className="px-6 py-4 bg-gray-50 text-xs text-gray-500 text-center space-y-1">
+              <p>{branding.productName}</p>
+              {branding.contact?.address && <p>{branding.contact.address}</p>}
+              {(branding.contact?.phone || branding.contact?.email) && (
+                <p>{[branding.contact.phone, branding.contact.email].filter(Boolean).join(' · ')}</p>
+              )}
+              {branding.contact?.website && <p>{branding.contact.website}</p>}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Phone and address come from your company profile. Save to update the preview.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50"
+        >
+          {isSaving && <ArrowPathIcon className="h-4 w-4 animate-spin" />}
+          <span>{isSaving ? 'Saving...' : 'Save Branding'}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
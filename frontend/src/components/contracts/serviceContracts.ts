@@ -0,0 +1,49 @@
+export type TicketPriority = 'low' | 'normal' | 'high';
+export type ContractStatus = 'active' | 'scheduled' | 'expired' | 'inactive';
+
+export const TICKET_PRIORITIES: TicketPriority[] = ['high', 'normal', 'low'];
+
+export interface SlaTarget {
+  priority: TicketPriority;
+  response_hours: number;
+  resolution_hours: number;
+}
+
+export interface CoveredInstance {
+  id: number;
+  serial_number: string;
+  equipment_name: string;
+  location: string | null;
+}
+
+export interface ServiceContract {
+  id: number;
+  client_id: number;
+  client_name: string;
+  contract_name: string;
+  start_date: string;
+  end_date: string | null;
+  covers_all_equipment: boolean;
+  visits_per_year: number;
+  is_active: boolean;
+  status: ContractStatus;
+  notes: string | null;
+  sla_targets: SlaTarget[];
+  covered_instances: number;
+  open_breaches: number;
+}
+
+export interface ServiceContractDetail extends ServiceContract {
+  // Only the instances named on the contract; empty when it covers all equipment
+  equipment: CoveredInstance[];
+}
+
+export const CONTRACT_STATUS_STYLES: Record<ContractStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  expired: 'bg-yellow-100 text-yellow-800',
+  inactive: 'bg-gray-100 text-gray-800'
+};
+
+export const formatHours = (hours: number) =>
+  hours % 24 === 0 && hours >= 24 ? `${hours / 24}d` : `${hours}h`;
@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import TopNav from './TopNav';
 import Sidebar from './Sidebar';
+import { Branding, loadBranding } from './branding';
 
 interface User {
   id: number;
@@ -18,6 +19,7 @@ interface DashboardLayoutProps {
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const [user, setUser] = useState<User | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [branding, setBranding] = useState<Branding | null>(null);
 
   useEffect(() => {
     // Get user data from localStorage
@@ -30,6 +32,15 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
     }
   }, []);
 
+  // Clients see their vendor's branding
+  useEffect(() => {
+    if (user?.user_type !== 'client') return;
+
+    loadBranding(user.id)
+      .then(setBranding)
+      .catch(error => console.error('Failed to load branding:', error));
+  }, [user]);
+
   if (!user) {
     return (
       <div className="min-h-screen bg-primary-bg flex items-center justify-center">
@@ -46,6 +57,7 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
       {/* Top Navigation */}
       <TopNav 
         user={user} 
+        branding={branding}
         onMenuToggle={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
         isMobileMenuOpen={isMobileMenuOpen}
       />
@@ -54,6 +66,7 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
         {/* Sidebar */}
         <Sidebar 
           userRole={user.user_type}
+          branding={branding}
           isOpen={isMobileMenuOpen}
           onClose={() => setIsMobileMenuOpen(false)}
         />
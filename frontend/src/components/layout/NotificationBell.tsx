@@ -4,6 +4,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { BellIcon } from '@heroicons/react/24/outline';
 import { BellIcon as BellSolidIcon } from '@heroicons/react/24/solid';
 import { API_ENDPOINTS } from '../../config/api';
+import { useNotificationStream } from '../providers/NotificationStreamProvider';
 
 interface Notification {
   id: number;
@@ -52,6 +53,23 @@ export default function NotificationBell() {
     fetchNotificationKPIs();
   }, []);
 
+  // Keep the badge and open list current as notifications arrive
+  useNotificationStream((event) => {
+    if (event.type === 'ready') {
+      fetchNotificationKPIs();
+      return;
+    }
+
+    const notification = event.notification as Notification;
+    setKpis(prev => ({
+      total_notifications: prev.total_notifications + 1,
+      unread_notifications: prev.unread_notifications + 1,
+      recent_notifications: prev.recent_notifications + 1
+    }));
+    // A closed, empty list is fetched in full when the dropdown opens
+    setNotifications(prev => prev.length > 0 || isOpen ? [notification, ...prev].slice(0, 10) : prev);
+  });
+
   // Fetch notifications when dropdown opens
   useEffect(() => {
     if (isOpen && notifications.length === 0) {
@@ -225,6 +243,7 @@ export default function NotificationBell() {
       case 'ticket_management':
         if (userType === 'client') return '/service-requests';
         if (userType === 'vendor') return '/maintenance-tickets';
+        if (userType === 'technician') return '/technician-tickets';
         if (userType === 'admin') return '/vendors'; // Admin manages through vendor oversight
         break;
         
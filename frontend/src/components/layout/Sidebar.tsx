@@ -12,11 +12,19 @@ import {
   FireIcon,
   WrenchScrewdriverIcon,
   ClipboardDocumentListIcon,
-  ShieldCheckIcon
+  ShieldCheckIcon,
+  UserGroupIcon,
+  ClipboardDocumentCheckIcon,
+  ArrowPathIcon,
+  CubeIcon,
+  BanknotesIcon,
+  DocumentCheckIcon
 } from '@heroicons/react/24/outline';
+import { Branding } from './branding';
 
 interface SidebarProps {
   userRole: string;
+  branding: Branding | null;
   isOpen: boolean;
   onClose: () => void;
 }
@@ -27,7 +35,7 @@ interface NavItem {
   icon: React.ComponentType<{ className?: string }>;
 }
 
-export default function Sidebar({ userRole, isOpen, onClose }: SidebarProps) {
+export default function Sidebar({ userRole, branding, isOpen, onClose }: SidebarProps) {
   const pathname = usePathname();
 
   const getNavItems = (): NavItem[] => {
@@ -45,14 +53,26 @@ export default function Sidebar({ userRole, isOpen, onClose }: SidebarProps) {
           { name: 'Dashboard', href: '/dashboard', icon: HomeIcon },
           { name: 'Client Management', href: '/clients', icon: UsersIcon },
           { name: 'Equipment Management', href: '/equipment', icon: FireIcon },
+          { name: 'Returns & Swaps', href: '/equipment-returns', icon: ArrowPathIcon },
           { name: 'Maintenance Tickets', href: '/maintenance-tickets', icon: WrenchScrewdriverIcon },
+          { name: 'Service Contracts', href: '/service-contracts', icon: DocumentCheckIcon },
+          { name: 'Inspection Checklists', href: '/inspection-checklists', icon: ClipboardDocumentCheckIcon },
+          { name: 'Parts Inventory', href: '/parts', icon: CubeIcon },
+          { name: 'Billing', href: '/billing', icon: BanknotesIcon },
+          { name: 'Technicians', href: '/technicians', icon: UserGroupIcon },
           { name: 'Analytics & Reports', href: '/vendors/analytics', icon: ChartBarIcon },
         ];
+      case 'technician':
+        return [
+          { name: 'My Tickets', href: '/technician-tickets', icon: WrenchScrewdriverIcon },
+        ];
       case 'client':
         return [
           { name: 'Dashboard', href: '/dashboard', icon: HomeIcon },
           { name: 'My Equipment', href: '/client-equipment', icon: FireIcon },
+          { name: 'Returns & Swaps', href: '/equipment-returns', icon: ArrowPathIcon },
           { name: 'Service Requests', href: '/service-requests', icon: WrenchScrewdriverIcon },
+          { name: 'Invoices', href: '/client-invoices', icon: BanknotesIcon },
           { name: 'Analytics & Compliance', href: '/clients/analytics', icon: ChartBarIcon },
         ];
       default:
@@ -62,6 +82,12 @@ export default function Sidebar({ userRole, isOpen, onClose }: SidebarProps) {
 
   const navItems = getNavItems();
 
+  // Branded portals tint the active item with the vendor's color instead of red
+  const activeStyle = branding
+    ? { backgroundColor: `${branding.primaryColor}14`, color: branding.primaryColor, borderColor: `${branding.primaryColor}33` }
+    : undefined;
+  const contact = branding?.contact;
+
   return (
     <>
       {/* Mobile overlay - blur effect only below navbar */}
@@ -87,6 +113,7 @@ export default function Sidebar({ userRole, isOpen, onClose }: SidebarProps) {
                   key={item.name}
                   href={item.href}
                   onClick={onClose}
+                  style={isActive ? activeStyle : undefined}
                   className={`
                     flex items-center px-4 py-3 rounded-full text-sm font-medium transition-all duration-200 mx-2
                     ${isActive 
@@ -101,6 +128,22 @@ export default function Sidebar({ userRole, isOpen, onClose }: SidebarProps) {
               );
             })}
           </nav>
+
+          {/* Vendor contact details for branded portals */}
+          {branding && contact && (contact.phone || contact.email || contact.website) && (
+            <div className="px-6 py-5 border-t border-gray-100 text-xs text-gray-600 space-y-1">
+              <p className="font-semibold text-gray-900">{branding.name}</p>
+              {contact.phone && <p>{contact.phone}</p>}
+              {contact.email && (
+                <a href={`mailto:${contact.email}`} className="block hover:underline break-all">{contact.email}</a>
+              )}
+              {contact.website && (
+                <a href={contact.website} target="_blank" rel="noopener noreferrer" className="block hover:underline break-all">
+                  {contact.website.replace(/^https?:\/\//, '')}
+                </a>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </>
@@ -12,17 +12,20 @@ import {
   Cog6ToothIcon
 } from '@heroicons/react/24/outline';
 import NotificationBell from './NotificationBell';
+import { API_ENDPOINTS } from '../../config/api';
+import { Branding, clearBrandingCache } from './branding';
 
 interface TopNavProps {
   user: {
     display_name: string;
     user_type: string;
   };
+  branding: Branding | null;
   onMenuToggle: () => void;
   isMobileMenuOpen: boolean;
 }
 
-export default function TopNav({ user, onMenuToggle, isMobileMenuOpen }: TopNavProps) {
+export default function TopNav({ user, branding, onMenuToggle, isMobileMenuOpen }: TopNavProps) {
   const router = useRouter();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -45,8 +48,19 @@ export default function TopNav({ user, onMenuToggle, isMobileMenuOpen }: TopNavP
   }, [isDropdownOpen]);
 
   const handleLogout = () => {
+    // End this device's session on the server; the local sign-out doesn't wait for it
+    const token = localStorage.getItem('token');
+    if (token) {
+      fetch(API_ENDPOINTS.AUTH.LOGOUT, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        keepalive: true
+      }).catch(error => console.error('Logout request failed:', error));
+    }
+
     localStorage.removeItem('token');
     localStorage.removeItem('user');
+    clearBrandingCache();
     window.location.href = '/login';
   };
 
@@ -58,6 +72,8 @@ export default function TopNav({ user, onMenuToggle, isMobileMenuOpen }: TopNavP
         return 'Vendor';
       case 'client':
         return 'Client';
+      case 'technician':
+        return 'Technician';
       default:
         return user_type?.replace('_', ' ') || 'Unknown';
     }
@@ -90,13 +106,19 @@ export default function TopNav({ user, onMenuToggle, isMobileMenuOpen }: TopNavP
               )}
             </button>
             <div className="flex items-center">
-              <FireIcon className="h-8 w-8 text-red-600 mr-3" />
+              {branding?.logoUrl ? (
+                // Served by the API, so next/image would need its host configured
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={branding.logoUrl} alt={branding.name} className="h-9 max-w-[140px] object-contain mr-3" />
+              ) : (
+                <FireIcon className="h-8 w-8 text-red-600 mr-3" style={branding ? { color: branding.primaryColor } : undefined} />
+              )}
               <div>
                 <h1 className="text-xl font-semibold text-gray-900 hidden sm:block" style={{fontFamily: 'Segoe UI, Helvetica Neue, Arial, sans-serif'}}>
-                  Fire Guardian Control Center
+                  {branding ? branding.productName : 'Fire Guardian Control Center'}
                 </h1>
                 <h1 className="text-lg font-semibold text-gray-900 sm:hidden" style={{fontFamily: 'Segoe UI, Helvetica Neue, Arial, sans-serif'}}>
-                  Fire Guardian
+                  {branding ? branding.name : 'Fire Guardian'}
                 </h1>
                 
               </div>
@@ -0,0 +1,57 @@
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '../../config/api';
+
+export interface BrandContact {
+  phone: string | null;
+  email: string | null;
+  website: string | null;
+  address: string | null;
+}
+
+export interface Branding {
+  vendorId: number | null;
+  name: string;
+  productName: string;
+  tagline: string;
+  primaryColor: string;
+  secondaryColor: string;
+  logoUrl: string | null;
+  senderName: string;
+  contact: BrandContact | null;
+}
+
+// Kept per tab so pages don't flash the default branding while it loads
+const CACHE_KEY = 'branding';
+
+/**
+ * Branding the signed-in user's portal is shown with. Null means the default
+ * Fire Guardian look.
+ */
+export async function loadBranding(userId: number): Promise<Branding | null> {
+  const cached = readCachedBranding(userId);
+  if (cached !== undefined) return cached;
+
+  logApiCall('GET', API_ENDPOINTS.BRANDING.CURRENT);
+  const response = await fetch(API_ENDPOINTS.BRANDING.CURRENT, { headers: getAuthHeaders() });
+  if (!response.ok) return null;
+
+  const result = await response.json();
+  const branding: Branding | null = result.data?.vendorId ? result.data : null;
+  sessionStorage.setItem(CACHE_KEY, JSON.stringify({ userId, branding }));
+  return branding;
+}
+
+/**
+ * Cached branding for this user; undefined when it hasn't been loaded yet
+ */
+export function readCachedBranding(userId: number): Branding | null | undefined {
+  try {
+    const cached = JSON.parse(sessionStorage.getItem(CACHE_KEY) || 'null');
+    return cached?.userId === userId ? cached.branding : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function clearBrandingCache(): void {
+  sessionStorage.removeItem(CACHE_KEY);
+}
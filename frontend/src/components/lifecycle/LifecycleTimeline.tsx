@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import { useToast } from '@/components/providers/ToastProvider';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+
+export type LifecycleEventType =
+  | 'received'
+  | 'assigned'
+  | 'relocated'
+  | 'inspected'
+  | 'serviced'
+  | 'recharged'
+  | 'failed_inspection'
+  | 'returned'
+  | 'retired'
+  | 'disposed';
+
+export interface LifecycleEvent {
+  id: number;
+  event_type: LifecycleEventType;
+  event_date: string;
+  description: string;
+  client_name: string | null;
+  reference_number: string | null;
+  metadata: Record<string, unknown>;
+  recorded_by_name: string | null;
+}
+
+const EVENT_STYLES: Record<LifecycleEventType, { label: string; dot: string }> = {
+  received: { label: 'Received', dot: 'bg-gray-400' },
+  assigned: { label: 'Assigned', dot: 'bg-blue-500' },
+  relocated: { label: 'Relocated', dot: 'bg-indigo-400' },
+  inspected: { label: 'Inspected', dot: 'bg-green-500' },
+  serviced: { label: 'Serviced', dot: 'bg-green-500' },
+  recharged: { label: 'Recharged', dot: 'bg-teal-500' },
+  failed_inspection: { label: 'Failed inspection', dot: 'bg-red-500' },
+  returned: { label: 'Returned', dot: 'bg-yellow-500' },
+  retired: { label: 'Retired', dot: 'bg-gray-600' },
+  disposed: { label: 'Disposed', dot: 'bg-gray-800' }
+};
+
+interface LifecycleTimelineProps {
+  instanceId: number;
+  serialNumber: string;
+}
+
+export default function LifecycleTimeline({ instanceId, serialNumber }: LifecycleTimelineProps) {
+  const { showToast } = useToast();
+  const [events, setEvents] = useState<LifecycleEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [exporting, setExporting] = useState<'pdf' | 'csv' | null>(null);
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      setIsLoading(true);
+      try {
+        const url = API_ENDPOINTS.EQUIPMENT_LIFECYCLE.TIMELINE(instanceId);
+        logApiCall('GET', url);
+        const response = await fetch(url, { headers: getAuthHeaders() });
+        if (!response.ok) throw new Error('Failed to fetch lifecycle history');
+
+        const data = await response.json();
+        setEvents(data.data?.events || []);
+      } catch (err) {
+        showToast('error', err instanceof Error ? err.message : 'Failed to fetch lifecycle history');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTimeline();
+  }, [instanceId]);
+
+  const handleExport = async (format: 'pdf' | 'csv') => {
+    setExporting(format);
+    try {
+      const url = API_ENDPOINTS.EQUIPMENT_LIFECYCLE.EXPORT(instanceId, format);
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.message || 'Failed to export lifecycle history');
+      }
+
+      const blobUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = blobUrl;
+      link.download = `lifecycle_${serialNumber}.${format}`;
+      link.click();
+      URL.revokeObjectURL(blobUrl);
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to export lifecycle history');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {events.length} event{events.length === 1 ? '' : 's'} recorded
+        </p>
+        <div className="flex items-center space-x-2">
+          {(['pdf', 'csv'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null || events.length === 0}
+              className="btn-secondary text-sm flex items-center space-x-1 disabled:opacity-50"
+            >
+              <ArrowDownTrayIcon className="h-4 w-4" />
+              <span>{exporting === format ? 'Exporting...' : format.toUpperCase()}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-sm text-gray-500">No lifecycle events recorded for this unit yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2">
+          {events.map(event => {
+            const style = EVENT_STYLES[event.event_type];
+            return (
+              <li key={event.id} className="mb-6 ml-5">
+                <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ring-4 ring-white ${style.dot}`} />
+                <div className="flex flex-wrap items-baseline gap-x-2">
+                  <span className="text-sm font-medium text-gray-900">{style.label}</span>
+                  <time className="text-xs text-gray-500">{new Date(event.event_date).toLocaleString()}</time>
+                </div>
+                <p className="text-sm text-gray-700">{event.description}</p>
+                <p className="text-xs text-gray-500">
+                  {[event.client_name, event.reference_number, event.recorded_by_name && `by ${event.recorded_by_name}`]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
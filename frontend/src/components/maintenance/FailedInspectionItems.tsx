@@ -0,0 +1,50 @@
+'use client';
+
+import React from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+export interface FailedInspectionItem {
+  ticket_id: number;
+  ticket_number: string;
+  serial_number?: string;
+  equipment_name?: string;
+  item_text: string;
+  notes?: string;
+  recorded_at: string;
+}
+
+interface FailedInspectionItemsProps {
+  items: FailedInspectionItem[];
+}
+
+/**
+ * Failed checklist items from the most recent inspection of each instance
+ */
+export default function FailedInspectionItems({ items }: FailedInspectionItemsProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl border border-red-100 p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+        <ExclamationTriangleIcon className="h-5 w-5 text-red-600 mr-2" />
+        Failed Inspection Items ({items.length})
+      </h3>
+      <ul className="divide-y divide-gray-100">
+        {items.map((item, index) => (
+          <li key={`${item.ticket_id}-${index}`} className="py-3 flex items-start justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{item.item_text}</p>
+              {item.notes && <p className="text-sm text-gray-600 mt-0.5">{item.notes}</p>}
+              <p className="text-xs text-gray-500 mt-1">
+                {item.serial_number ? `Serial ${item.serial_number} · ` : ''}Ticket #{item.ticket_number}
+              </p>
+            </div>
+            <span className="text-xs text-gray-500 flex-shrink-0">
+              {new Date(item.recorded_at).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
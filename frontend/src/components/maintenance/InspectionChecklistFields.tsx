@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { getAuthHeaders } from '@/config/api';
+import { ClipboardDocumentCheckIcon } from '@heroicons/react/24/outline';
+
+export type InspectionResultValue = 'pass' | 'fail' | 'na';
+
+export interface ChecklistItem {
+  id: number;
+  item_text: string;
+  sort_order: number;
+}
+
+export interface TicketChecklist {
+  id: number;
+  checklist_name: string;
+  equipment_type: string;
+  items: ChecklistItem[];
+}
+
+export interface ChecklistAnswer {
+  result?: InspectionResultValue;
+  notes: string;
+}
+
+const RESULT_OPTIONS: Array<{ value: InspectionResultValue; label: string; activeClass: string }> = [
+  { value: 'pass', label: 'Pass', activeClass: 'bg-green-600 text-white border-green-600' },
+  { value: 'fail', label: 'Fail', activeClass: 'bg-red-600 text-white border-red-600' },
+  { value: 'na', label: 'N/A', activeClass: 'bg-gray-600 text-white border-gray-600' },
+];
+
+/**
+ * Load the inspection checklist for a ticket and keep the technician's answers
+ */
+export function useTicketChecklist(url: string | null) {
+  const [checklist, setChecklist] = useState<TicketChecklist | null>(null);
+  const [answers, setAnswers] = useState<Record<number, ChecklistAnswer>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!url) return;
+
+    const fetchChecklist = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(url, { headers: getAuthHeaders() });
+        if (!response.ok) throw new Error('Failed to fetch checklist');
+
+        const data = await response.json();
+        setChecklist(data.data.checklist);
+
+        // Pre-fill with results already recorded on the ticket
+        const recorded: Record<number, ChecklistAnswer> = {};
+        for (const result of data.data.results || []) {
+          if (result.checklist_item_id) {
+            recorded[result.checklist_item_id] = { result: result.result, notes: result.notes || '' };
+          }
+        }
+        setAnswers(recorded);
+      } catch (err) {
+        console.error('Error fetching inspection checklist:', err);
+        setChecklist(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchChecklist();
+  }, [url]);
+
+  const isComplete = !checklist || checklist.items.every(item => answers[item.id]?.result);
+
+  const toPayload = () =>
+    checklist
+      ? checklist.items.map(item => ({
+          checklist_item_id: item.id,
+          result: answers[item.id]?.result,
+          ...(answers[item.id]?.notes ? { notes: answers[item.id].notes } : {})
+        }))
+      : [];
+
+  return { checklist, answers, setAnswers, isLoading, isComplete, toPayload };
+}
+
+interface InspectionChecklistFieldsProps {
+  checklist: TicketChecklist;
+  answers: Record<number, ChecklistAnswer>;
+  onChange: (answers: Record<number, ChecklistAnswer>) => void;
+  disabled?: boolean;
+}
+
+export default function InspectionChecklistFields({ checklist, answers, onChange, disabled }: InspectionChecklistFieldsProps) {
+  const updateAnswer = (itemId: number, patch: Partial<ChecklistAnswer>) => {
+    const current = answers[itemId] || { notes: '' };
+    onChange({ ...answers, [itemId]: { ...current, ...patch } });
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 flex items-center space-x-2 mb-1">
+        <ClipboardDocumentCheckIcon className="h-4 w-4 text-red-600" />
+        <span>{checklist.checklist_name} *</span>
+      </h3>
+      <p className="text-xs text-gray-500 mb-4">Record a result for every item</p>
+
+      <div className="space-y-3">
+        {checklist.items.map((item) => {
+          const answer = answers[item.id];
+          return (
+            <div key={item.id} className="rounded-xl border border-gray-200 p-3">
+              <div className="flex items-start justify-between gap-3">
+                <p className="text-sm text-gray-900">{item.item_text}</p>
+                <div className="flex space-x-1 flex-shrink-0">
+                  {RESULT_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => updateAnswer(item.id, { result: option.value })}
+                      className={`px-2.5 py-1 text-xs font-medium rounded-full border transition-colors ${
+                        answer?.result === option.value
+                          ? option.activeClass
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {answer?.result === 'fail' && (
+                <input
+                  type="text"
+                  value={answer.notes}
+                  onChange={(e) => updateAnswer(item.id, { notes: e.target.value })}
+                  disabled={disabled}
+                  className="input-field mt-2 text-sm"
+                  placeholder="What was wrong?"
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
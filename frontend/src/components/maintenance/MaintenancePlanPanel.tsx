@@ -0,0 +1,283 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import ScheduleModal, { MaintenanceSchedule, ScheduleTarget } from '@/components/modals/ScheduleModal';
+import {
+  CalendarDaysIcon,
+  PlusIcon,
+  PencilIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+
+interface ScheduleDueItem {
+  equipment_instance_id: number;
+  serial_number: string;
+  client_name: string | null;
+  schedule_id: number;
+  schedule_name: string;
+  category: string;
+  is_instance_schedule: boolean;
+  last_completed_date: string | null;
+  next_due_date: string;
+  compliance_status: 'compliant' | 'due_soon' | 'overdue';
+  open_ticket_number: string | null;
+}
+
+interface MaintenancePlanPanelProps {
+  target: ScheduleTarget;
+}
+
+const STATUS_STYLES: Record<ScheduleDueItem['compliance_status'], string> = {
+  compliant: 'bg-green-100 text-green-800',
+  due_soon: 'bg-yellow-100 text-yellow-800',
+  overdue: 'bg-red-100 text-red-800'
+};
+
+const STATUS_LABELS: Record<ScheduleDueItem['compliance_status'], string> = {
+  compliant: 'Scheduled',
+  due_soon: 'Due Soon',
+  overdue: 'Overdue'
+};
+
+const formatInterval = (months: number) => {
+  if (months === 1) return 'Every month';
+  if (months % 12 === 0) return months === 12 ? 'Every year' : `Every ${months / 12} years`;
+  return `Every ${months} months`;
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const formatMonth = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long' });
+
+/**
+ * Recurring maintenance schedules for an equipment type or instance and the
+ * timeline of due dates they produce
+ */
+export default function MaintenancePlanPanel({ target }: MaintenancePlanPanelProps) {
+  const { showToast } = useToast();
+  const { confirm } = useConfirmModal();
+
+  const [schedules, setSchedules] = useState<MaintenanceSchedule[]>([]);
+  const [timeline, setTimeline] = useState<ScheduleDueItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<MaintenanceSchedule | null>(null);
+
+  const isInstance = 'equipment_instance_id' in target;
+  const planUrl = isInstance
+    ? API_ENDPOINTS.MAINTENANCE_PLANS.INSTANCE(target.equipment_instance_id)
+    : API_ENDPOINTS.MAINTENANCE_PLANS.EQUIPMENT(target.equipment_id);
+
+  const fetchPlan = useCallback(async () => {
+    try {
+      logApiCall('GET', planUrl);
+      const response = await fetch(planUrl, { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch maintenance plan');
+
+      const data = await response.json();
+      setSchedules(data.data?.schedules || []);
+      setTimeline(data.data?.timeline || []);
+    } catch (err) {
+      console.error('Error fetching maintenance plan:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [planUrl]);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan]);
+
+  const handleToggle = async (schedule: MaintenanceSchedule) => {
+    try {
+      const url = API_ENDPOINTS.MAINTENANCE_PLANS.UPDATE(schedule.id);
+      logApiCall('PUT', url, { is_active: !schedule.is_active });
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ is_active: !schedule.is_active })
+      });
+
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to update schedule');
+
+      showToast('success', schedule.is_active ? 'Schedule paused' : 'Schedule resumed');
+      await fetchPlan();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleDelete = async (schedule: MaintenanceSchedule) => {
+    const confirmed = await confirm({
+      title: 'Delete Schedule',
+      message: `Delete "${schedule.schedule_name}"? Tickets it already raised are kept.`,
+      confirmText: 'Delete',
+      type: 'danger'
+    });
+
+    if (!confirmed) return;
+
+    try {
+      const url = API_ENDPOINTS.MAINTENANCE_PLANS.DELETE(schedule.id);
+      logApiCall('DELETE', url);
+      const response = await fetch(url, { method: 'DELETE', headers: getAuthHeaders() });
+
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to delete schedule');
+
+      showToast('success', 'Schedule deleted');
+      await fetchPlan();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Failed to delete schedule');
+    }
+  };
+
+  // Group due dates by month for the timeline
+  const timelineByMonth = timeline.reduce<Record<string, ScheduleDueItem[]>>((groups, item) => {
+    const key = item.next_due_date.slice(0, 7);
+    (groups[key] = groups[key] || []).push(item);
+    return groups;
+  }, {});
+
+  const typeCategories = Array.from(new Set(timeline.filter(item => !item.is_instance_schedule).map(item => item.category)));
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading maintenance plan...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Schedules */}
+      <div className="bg-white rounded-2xl border border-gray-100 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <CalendarDaysIcon className="h-5 w-5 text-red-600 mr-2" />
+            {isInstance ? 'Schedules for This Unit' : 'Maintenance Schedules'} ({schedules.length})
+          </h3>
+          <button
+            onClick={() => {
+              setEditingSchedule(null);
+              setIsModalOpen(true);
+            }}
+            className="btn-secondary flex items-center space-x-1 text-sm"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>Add Schedule</span>
+          </button>
+        </div>
+
+        {schedules.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {isInstance
+              ? 'This unit follows its equipment type\'s schedules. Add one here to override or extend them.'
+              : 'No schedules yet. Instances use the single maintenance interval until a schedule is added.'}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {schedules.map((schedule) => (
+              <li key={schedule.id} className="py-3 flex items-center justify-between gap-4">
+                <div>
+                  <p className={`text-sm font-medium ${schedule.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {schedule.schedule_name}
+                    {!schedule.is_active && <span className="ml-2 text-xs font-normal">(paused)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatInterval(schedule.interval_months)} · {schedule.category} · ticket raised {schedule.lead_days} days before due
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => handleToggle(schedule)}
+                    className="text-sm font-medium text-gray-600 hover:text-gray-900"
+                  >
+                    {schedule.is_active ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingSchedule(schedule);
+                      setIsModalOpen(true);
+                    }}
+                    className="p-1.5 text-gray-500 hover:text-gray-900"
+                    title="Edit"
+                  >
+                    <PencilIcon className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(schedule)}
+                    className="p-1.5 text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Timeline */}
+      <div className="bg-white rounded-2xl border border-gray-100 p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">
+          {isInstance ? 'Schedule Status' : 'Upcoming Schedule (next 12 months)'}
+        </h3>
+
+        {timeline.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing scheduled.</p>
+        ) : (
+          <div className="space-y-6">
+            {Object.entries(timelineByMonth).map(([month, items]) => (
+              <div key={month}>
+                <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                  {formatMonth(items[0].next_due_date)}
+                </p>
+                <ol className="border-l-2 border-gray-100 ml-1 space-y-3">
+                  {items.map((item) => (
+                    <li key={`${item.equipment_instance_id}-${item.schedule_id}`} className="pl-4 relative">
+                      <span className={`absolute -left-[5px] top-1.5 h-2 w-2 rounded-full ${
+                        item.compliance_status === 'overdue' ? 'bg-red-500' : item.compliance_status === 'due_soon' ? 'bg-yellow-500' : 'bg-green-500'
+                      }`} />
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {item.schedule_name}
+                            {!isInstance && <span className="font-normal text-gray-600"> · {item.serial_number}</span>}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Due {formatDate(item.next_due_date)}
+                            {item.last_completed_date && ` · last done ${formatDate(item.last_completed_date)}`}
+                            {!isInstance && ` · ${item.client_name || 'Unassigned'}`}
+                            {isInstance && (item.is_instance_schedule ? ' · unit schedule' : ' · from equipment type')}
+                            {item.open_ticket_number && ` · ticket #${item.open_ticket_number}`}
+                          </p>
+                        </div>
+                        <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${STATUS_STYLES[item.compliance_status]}`}>
+                          {STATUS_LABELS[item.compliance_status]}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ScheduleModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSaved={fetchPlan}
+        target={target}
+        schedule={editingSchedule}
+        suggestedCategories={isInstance ? typeCategories : []}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useToast } from '@/components/providers/ToastProvider';
+import {
+  CalendarData,
+  CalendarTicket,
+  TechnicianOption,
+  PRIORITY_CHIP_STYLES,
+  addDays,
+  fetchCalendar,
+  formatTime,
+  getTicketStart,
+  rescheduleTicket,
+  startOfDay,
+  ticketHours,
+  toDateKey
+} from './ticketSchedule';
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+
+interface TechnicianBoardProps {
+  technicians: TechnicianOption[];
+}
+
+// Visible working hours; tickets outside them are shown in the nearest row
+const FIRST_HOUR = 7;
+const LAST_HOUR = 18;
+const HOURS = Array.from({ length: LAST_HOUR - FIRST_HOUR + 1 }, (_, i) => FIRST_HOUR + i);
+
+/**
+ * Per-technician day board. Drag tickets between technicians and hour slots,
+ * or in from the unassigned and unscheduled trays.
+ */
+export default function TechnicianBoard({ technicians }: TechnicianBoardProps) {
+  const router = useRouter();
+  const { error: showError, warning: showWarning, success: showSuccess } = useToast();
+
+  const [day, setDay] = useState(() => startOfDay(new Date()));
+  const [data, setData] = useState<CalendarData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const loadBoard = useCallback(async () => {
+    try {
+      const board = await fetchCalendar(day, addDays(day, 1), { includeUnscheduled: true });
+      setData(board);
+      return board;
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to fetch technician board');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [day, showError]);
+
+  useEffect(() => {
+    loadBoard();
+  }, [loadBoard]);
+
+  const technicianIds = useMemo(() => new Set(technicians.map(tech => tech.id)), [technicians]);
+
+  const unassigned = useMemo(
+    () => (data?.tickets || []).filter(ticket => !ticket.assigned_technician || !technicianIds.has(ticket.assigned_technician)),
+    [data, technicianIds]
+  );
+
+  const flaggedTicketIds = useMemo(
+    () => new Set((data?.warnings || []).flatMap(warning => warning.ticket_ids)),
+    [data]
+  );
+
+  const slotTickets = (technicianId: number, hour: number | null) =>
+    (data?.tickets || []).filter(ticket => {
+      if (ticket.assigned_technician !== technicianId) return false;
+      if (hour === null) return ticket.is_all_day;
+      if (ticket.is_all_day) return false;
+      const startHour = Math.min(Math.max(getTicketStart(ticket).getHours(), FIRST_HOUR), LAST_HOUR);
+      return startHour === hour;
+    });
+
+  const bookedHours = (technicianId: number) =>
+    (data?.tickets || [])
+      .filter(ticket => ticket.assigned_technician === technicianId && ticket.ticket_status === 'open')
+      .reduce((sum, ticket) => sum + ticketHours(ticket), 0);
+
+  const handleDrop = async (ticketId: number, technicianId: number, hour: number | null) => {
+    setDropTarget(null);
+    const ticket = [...(data?.tickets || []), ...(data?.unscheduled || [])].find(t => t.id === ticketId);
+    if (!ticket) return;
+
+    const scheduledDate = hour === null
+      ? toDateKey(day)
+      : new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour).toISOString();
+
+    try {
+      await rescheduleTicket(ticket.id, scheduledDate, technicianId);
+      const updated = await loadBoard();
+      const warnings = updated?.warnings.filter(warning => warning.ticket_ids.includes(ticket.id)) || [];
+
+      if (warnings.length > 0) {
+        showWarning(warnings.map(warning => warning.message).join('. '), 6000);
+      } else {
+        showSuccess(`${ticket.ticket_number} scheduled`);
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to reschedule ticket');
+    }
+  };
+
+  const dropHandlers = (technicianId: number, hour: number | null) => {
+    const key = `${technicianId}:${hour ?? 'all'}`;
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        e.preventDefault();
+        setDropTarget(key);
+      },
+      onDragLeave: () => setDropTarget(prev => (prev === key ? null : prev)),
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        handleDrop(parseInt(e.dataTransfer.getData('text/plain')), technicianId, hour);
+      },
+      className: dropTarget === key ? 'bg-red-50' : ''
+    };
+  };
+
+  const renderCard = (ticket: CalendarTicket, showTime: boolean) => (
+    <div
+      key={ticket.id}
+      draggable={ticket.ticket_status === 'open'}
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', String(ticket.id))}
+      onClick={() => router.push(`/maintenance-tickets/${ticket.id}`)}
+      title={ticket.issue_description}
+      className={`px-2 py-1 rounded-md border text-xs cursor-pointer ${PRIORITY_CHIP_STYLES[ticket.priority]} ${
+        ticket.ticket_status !== 'open' ? 'opacity-50 line-through' : ''
+      } ${flaggedTicketIds.has(ticket.id) ? 'ring-2 ring-amber-400' : ''}`}
+    >
+      <div className="font-medium truncate">
+        {showTime && ticket.scheduled_date && !ticket.is_all_day && `${formatTime(getTicketStart(ticket))} · `}
+        {ticket.ticket_number}
+      </div>
+      <div className="truncate opacity-80">
+        {[ticket.client_name, ticket.equipment_serial].filter(Boolean).join(' · ') || ticket.support_type}
+        {` · ${ticket.estimated_hours ? `${ticket.estimated_hours}h` : 'no estimate'}`}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+        <div className="flex items-center space-x-2">
+          <button onClick={() => setDay(prev => addDays(prev, -1))} className="p-2 rounded-full hover:bg-gray-100" title="Previous day">
+            <ChevronLeftIcon className="h-5 w-5 text-gray-600" />
+          </button>
+          <button onClick={() => setDay(prev => addDays(prev, 1))} className="p-2 rounded-full hover:bg-gray-100" title="Next day">
+            <ChevronRightIcon className="h-5 w-5 text-gray-600" />
+          </button>
+          <button
+            onClick={() => setDay(startOfDay(new Date()))}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900 ml-2">
+            {day.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+          </h2>
+        </div>
+        <input
+          type="date"
+          value={toDateKey(day)}
+          onChange={(e) => {
+            if (!e.target.value) return;
+            const [year, month, date] = e.target.value.split('-').map(Number);
+            setDay(new Date(year, month - 1, date));
+          }}
+          className="input-field w-auto"
+        />
+      </div>
+
+      <div className={`flex ${isLoading ? 'opacity-50' : ''}`}>
+        {/* Trays */}
+        <div className="w-56 flex-shrink-0 border-r border-gray-100 p-3 space-y-4">
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+              Unassigned today ({unassigned.length})
+            </h3>
+            <div className="space-y-1">
+              {unassigned.map(ticket => renderCard(ticket, true))}
+            </div>
+          </div>
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+              Unscheduled ({data?.unscheduled.length || 0})
+            </h3>
+            <div className="space-y-1 max-h-[480px] overflow-y-auto">
+              {(data?.unscheduled || []).map(ticket => renderCard(ticket, false))}
+            </div>
+          </div>
+        </div>
+
+        {/* Technician columns */}
+        <div className="flex-1 overflow-x-auto">
+          <table className="min-w-full border-collapse">
+            <thead>
+              <tr>
+                <th className="w-16 border-b border-gray-100" />
+                {technicians.map(tech => {
+                  const hours = bookedHours(tech.id);
+                  const overbooked = data ? hours > data.capacity_hours : false;
+                  return (
+                    <th key={tech.id} className="min-w-[160px] px-2 py-2 border-b border-l border-gray-100 text-left">
+                      <div className="text-sm font-medium text-gray-900 truncate">
+                        {tech.is_owner ? `${tech.display_name} (me)` : tech.display_name}
+                      </div>
+                      <div className={`text-xs ${overbooked ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                        {hours}h / {data?.capacity_hours ?? 8}h booked
+                      </div>
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {[null, ...HOURS].map(hour => (
+                <tr key={hour ?? 'all'}>
+                  <td className="px-2 py-1 text-xs text-gray-500 align-top border-b border-gray-100 whitespace-nowrap">
+                    {hour === null ? 'All day' : formatTime(new Date(2000, 0, 1, hour))}
+                  </td>
+                  {technicians.map(tech => {
+                    const { className, ...handlers } = dropHandlers(tech.id, hour);
+                    return (
+                      <td
+                        key={tech.id}
+                        {...handlers}
+                        className={`px-1 py-1 h-12 align-top border-b border-l border-gray-100 ${className}`}
+                      >
+                        <div className="space-y-1">
+                          {slotTickets(tech.id, hour).map(ticket => renderCard(ticket, true))}
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Warnings */}
+      {data && data.warnings.length > 0 && (
+        <div className="px-6 py-4 border-t border-gray-100 space-y-1">
+          <h3 className="text-sm font-medium text-gray-900 flex items-center">
+            <ExclamationTriangleIcon className="h-4 w-4 text-amber-500 mr-1" />
+            Scheduling conflicts ({data.warnings.length})
+          </h3>
+          {data.warnings.map((warning, index) => (
+            <p key={`${warning.type}-${warning.technician_id}-${index}`} className="text-sm text-gray-600">
+              {warning.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useToast } from '@/components/providers/ToastProvider';
+import {
+  CalendarData,
+  CalendarTicket,
+  TechnicianOption,
+  PRIORITY_CHIP_STYLES,
+  addDays,
+  fetchCalendar,
+  formatTime,
+  getTicketStart,
+  isSameDay,
+  rescheduleTicket,
+  startOfDay,
+  startOfWeek,
+  toDateKey
+} from './ticketSchedule';
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+
+interface TicketCalendarProps {
+  technicians: TechnicianOption[];
+}
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Month and week calendar of scheduled tickets. Open tickets can be dragged
+ * to another day; the time of day is kept.
+ */
+export default function TicketCalendar({ technicians }: TicketCalendarProps) {
+  const router = useRouter();
+  const { error: showError, warning: showWarning, success: showSuccess } = useToast();
+
+  const [view, setView] = useState<'month' | 'week'>('month');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [technicianId, setTechnicianId] = useState<number | undefined>(undefined);
+  const [data, setData] = useState<CalendarData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const { rangeStart, rangeEnd } = useMemo(() => {
+    if (view === 'week') {
+      const start = startOfWeek(anchor);
+      return { rangeStart: start, rangeEnd: addDays(start, 7) };
+    }
+    const start = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+    return { rangeStart: start, rangeEnd: addDays(start, 42) };
+  }, [view, anchor]);
+
+  const loadCalendar = useCallback(async () => {
+    try {
+      const calendar = await fetchCalendar(rangeStart, rangeEnd, { technicianId });
+      setData(calendar);
+      return calendar;
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to fetch calendar');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rangeStart, rangeEnd, technicianId, showError]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  const days = useMemo(() => {
+    const count = view === 'week' ? 7 : 42;
+    return Array.from({ length: count }, (_, i) => addDays(rangeStart, i));
+  }, [view, rangeStart]);
+
+  const ticketsByDay = useMemo(() => {
+    const groups = new Map<string, CalendarTicket[]>();
+    for (const ticket of data?.tickets || []) {
+      const key = toDateKey(getTicketStart(ticket));
+      groups.set(key, [...(groups.get(key) || []), ticket]);
+    }
+    return groups;
+  }, [data]);
+
+  const flaggedTicketIds = useMemo(
+    () => new Set((data?.warnings || []).flatMap(warning => warning.ticket_ids)),
+    [data]
+  );
+
+  const navigate = (direction: -1 | 1) => {
+    setAnchor(prev => view === 'week'
+      ? addDays(prev, direction * 7)
+      : new Date(prev.getFullYear(), prev.getMonth() + direction, 1));
+  };
+
+  const handleDrop = async (day: Date, ticketId: number) => {
+    setDropTarget(null);
+    const ticket = data?.tickets.find(t => t.id === ticketId);
+    if (!ticket) return;
+
+    const start = getTicketStart(ticket);
+    if (isSameDay(start, day)) return;
+
+    const scheduledDate = ticket.is_all_day
+      ? toDateKey(day)
+      : new Date(day.getFullYear(), day.getMonth(), day.getDate(), start.getHours(), start.getMinutes()).toISOString();
+
+    try {
+      await rescheduleTicket(ticket.id, scheduledDate);
+      const updated = await loadCalendar();
+      const warnings = updated?.warnings.filter(warning => warning.ticket_ids.includes(ticket.id)) || [];
+
+      if (warnings.length > 0) {
+        showWarning(warnings.map(warning => warning.message).join('. '), 6000);
+      } else {
+        showSuccess(`${ticket.ticket_number} moved to ${day.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`);
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to reschedule ticket');
+    }
+  };
+
+  const title = view === 'week'
+    ? `${rangeStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${addDays(rangeStart, 6).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+    : anchor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  const today = new Date();
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b border-gray-100">
+        <div className="flex items-center space-x-2">
+          <button onClick={() => navigate(-1)} className="p-2 rounded-full hover:bg-gray-100" title="Previous">
+            <ChevronLeftIcon className="h-5 w-5 text-gray-600" />
+          </button>
+          <button onClick={() => navigate(1)} className="p-2 rounded-full hover:bg-gray-100" title="Next">
+            <ChevronRightIcon className="h-5 w-5 text-gray-600" />
+          </button>
+          <button
+            onClick={() => setAnchor(startOfDay(new Date()))}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900 ml-2">{title}</h2>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <select
+            value={technicianId ?? ''}
+            onChange={(e) => setTechnicianId(e.target.value ? parseInt(e.target.value) : undefined)}
+            className="input-field min-w-[160px]"
+          >
+            <option value="">All technicians</option>
+            {technicians.map(tech => (
+              <option key={tech.id} value={tech.id}>
+                {tech.is_owner ? `${tech.display_name} (me)` : tech.display_name}
+              </option>
+            ))}
+          </select>
+
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            {(['month', 'week'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1.5 text-sm font-medium capitalize ${view === option ? 'bg-red-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div className="grid grid-cols-7 border-b border-gray-100">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label} className="px-2 py-2 text-xs font-medium text-gray-500 uppercase text-center">
+            {label}
+          </div>
+        ))}
+      </div>
+      <div className={`grid grid-cols-7 ${isLoading ? 'opacity-50' : ''}`}>
+        {days.map(day => {
+          const key = toDateKey(day);
+          const dayTickets = ticketsByDay.get(key) || [];
+          const inMonth = view === 'week' || day.getMonth() === anchor.getMonth();
+
+          return (
+            <div
+              key={key}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(key);
+              }}
+              onDragLeave={() => setDropTarget(prev => (prev === key ? null : prev))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(day, parseInt(e.dataTransfer.getData('text/plain')));
+              }}
+              className={`border-b border-r border-gray-100 p-1.5 ${view === 'week' ? 'min-h-[420px]' : 'min-h-[110px]'} ${
+                dropTarget === key ? 'bg-red-50' : inMonth ? 'bg-white' : 'bg-gray-50'
+              }`}
+            >
+              <div className={`text-xs font-medium mb-1 ${
+                isSameDay(day, today)
+                  ? 'inline-flex items-center justify-center h-6 w-6 rounded-full bg-red-600 text-white'
+                  : inMonth ? 'text-gray-700' : 'text-gray-400'
+              }`}>
+                {day.getDate()}
+              </div>
+
+              <div className="space-y-1">
+                {(view === 'month' ? dayTickets.slice(0, 4) : dayTickets).map(ticket => (
+                  <div
+                    key={ticket.id}
+                    draggable={ticket.ticket_status === 'open'}
+                    onDragStart={(e) => e.dataTransfer.setData('text/plain', String(ticket.id))}
+                    onClick={() => router.push(`/maintenance-tickets/${ticket.id}`)}
+                    title={`${ticket.ticket_number}: ${ticket.issue_description}`}
+                    className={`px-1.5 py-1 rounded-md border text-xs cursor-pointer truncate ${PRIORITY_CHIP_STYLES[ticket.priority]} ${
+                      ticket.ticket_status !== 'open' ? 'opacity-50 line-through' : ''
+                    } ${flaggedTicketIds.has(ticket.id) ? 'ring-2 ring-amber-400' : ''}`}
+                  >
+                    {!ticket.is_all_day && <span className="font-medium mr-1">{formatTime(getTicketStart(ticket))}</span>}
+                    {ticket.ticket_number}
+                    {view === 'week' && (
+                      <div className="text-[11px] opacity-80 truncate">
+                        {[ticket.client_name, ticket.equipment_serial].filter(Boolean).join(' · ') || ticket.support_type}
+                        <br />
+                        {ticket.technician_name || 'Unassigned'}{ticket.estimated_hours ? ` · ${ticket.estimated_hours}h` : ''}
+                      </div>
+                    )}
+                  </div>
+                ))}
+                {view === 'month' && dayTickets.length > 4 && (
+                  <button
+                    onClick={() => {
+                      setAnchor(day);
+                      setView('week');
+                    }}
+                    className="text-xs text-gray-500 hover:text-gray-900"
+                  >
+                    +{dayTickets.length - 4} more
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Warnings */}
+      {data && data.warnings.length > 0 && (
+        <div className="px-6 py-4 space-y-1">
+          <h3 className="text-sm font-medium text-gray-900 flex items-center">
+            <ExclamationTriangleIcon className="h-4 w-4 text-amber-500 mr-1" />
+            Scheduling conflicts ({data.warnings.length})
+          </h3>
+          {data.warnings.map((warning, index) => (
+            <p key={`${warning.type}-${warning.technician_id}-${warning.date}-${index}`} className="text-sm text-gray-600">
+              {warning.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { API_ENDPOINTS, getAuthHeaders } from '@/config/api';
+import { CubeIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+export type PartCategory = 'extinguishing_agent' | 'seal' | 'pin' | 'gauge' | 'hose' | 'other';
+
+export const PART_CATEGORY_LABELS: Record<PartCategory, string> = {
+  extinguishing_agent: 'Extinguishing agent',
+  seal: 'Seal',
+  pin: 'Pin',
+  gauge: 'Gauge',
+  hose: 'Hose',
+  other: 'Other'
+};
+
+export interface Part {
+  id: number;
+  part_number: string;
+  part_name: string;
+  category: PartCategory;
+  unit: string;
+  unit_cost: number;
+  quantity_on_hand: number;
+  reorder_level: number;
+  is_active: boolean;
+  is_low_stock: boolean;
+}
+
+// A part recorded on a resolved ticket
+export interface TicketPart {
+  part_id: number;
+  part_number: string;
+  part_name: string;
+  unit: string;
+  quantity: number;
+  unit_cost: number;
+  line_cost: number;
+}
+
+export interface PartLine {
+  part_id: number | '';
+  quantity: string;
+}
+
+/**
+ * Load the parts catalog to pick from and keep the lines being recorded
+ */
+export function useTicketParts(enabled: boolean) {
+  const [parts, setParts] = useState<Part[]>([]);
+  const [lines, setLines] = useState<PartLine[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const fetchParts = async () => {
+      try {
+        const response = await fetch(API_ENDPOINTS.PARTS.LIST, { headers: getAuthHeaders() });
+        if (!response.ok) throw new Error('Failed to fetch parts');
+
+        const data = await response.json();
+        setParts(data.data || []);
+      } catch (err) {
+        console.error('Error fetching parts catalog:', err);
+        setParts([]);
+      }
+    };
+
+    fetchParts();
+  }, [enabled]);
+
+  // Every line needs a part and a quantity it can be taken from stock for
+  const lineError = (line: PartLine): string | null => {
+    const part = parts.find(p => p.id === line.part_id);
+    const quantity = parseFloat(line.quantity);
+    if (!part) return 'Choose a part';
+    if (!(quantity > 0)) return 'Enter a quantity';
+    if (quantity > part.quantity_on_hand) return `Only ${part.quantity_on_hand} ${part.unit} in stock`;
+    return null;
+  };
+
+  const isValid = lines.every(line => lineError(line) === null);
+
+  const toPayload = () =>
+    lines.map(line => ({ part_id: line.part_id as number, quantity: parseFloat(line.quantity) }));
+
+  const reset = () => setLines([]);
+
+  return { parts, lines, setLines, lineError, isValid, toPayload, reset };
+}
+
+interface TicketPartsFieldsProps {
+  parts: Part[];
+  lines: PartLine[];
+  onChange: (lines: PartLine[]) => void;
+  lineError: (line: PartLine) => string | null;
+  disabled?: boolean;
+}
+
+export default function TicketPartsFields({ parts, lines, onChange, lineError, disabled }: TicketPartsFieldsProps) {
+  const updateLine = (index: number, patch: Partial<PartLine>) => {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const total = lines.reduce((sum, line) => {
+    const part = parts.find(p => p.id === line.part_id);
+    const quantity = parseFloat(line.quantity);
+    return part && quantity > 0 ? sum + part.unit_cost * quantity : sum;
+  }, 0);
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 flex items-center space-x-2 mb-1">
+        <CubeIcon className="h-4 w-4 text-red-600" />
+        <span>Parts Used</span>
+      </h3>
+      <p className="text-xs text-gray-500 mb-4">Parts are taken out of stock when the ticket is resolved</p>
+
+      {parts.length === 0 ? (
+        <p className="text-sm text-gray-500">No parts in the catalog yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {lines.map((line, index) => {
+            const part = parts.find(p => p.id === line.part_id);
+            const error = line.part_id !== '' ? lineError(line) : null;
+            return (
+              <div key={index}>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={line.part_id}
+                    onChange={(e) => updateLine(index, { part_id: e.target.value ? parseInt(e.target.value) : '' })}
+                    disabled={disabled}
+                    className="input-field flex-1 text-sm"
+                  >
+                    <option value="">Select a part...</option>
+                    {parts.map(option => (
+                      <option
+                        key={option.id}
+                        value={option.id}
+                        disabled={option.id !== line.part_id && lines.some(l => l.part_id === option.id)}
+                      >
+                        {option.part_number} - {option.part_name} ({option.quantity_on_hand} {option.unit})
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    disabled={disabled}
+                    className="input-field w-24 text-sm"
+                    placeholder={part?.unit || 'Qty'}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onChange(lines.filter((_, i) => i !== index))}
+                    disabled={disabled}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Remove part"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+                {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+              </div>
+            );
+          })}
+
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => onChange([...lines, { part_id: '', quantity: '1' }])}
+              disabled={disabled}
+              className="text-sm font-medium text-red-600 hover:text-red-800 flex items-center space-x-1"
+            >
+              <PlusIcon className="h-4 w-4" />
+              <span>Add part</span>
+            </button>
+            {total > 0 && (
+              <span className="text-sm text-gray-600">Parts cost: ${total.toFixed(2)}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The parts recorded on a resolved ticket, costed at the price when used
+ */
+export function UsedPartsList({ parts }: { parts: TicketPart[] }) {
+  const total = parts.reduce((sum, part) => sum + part.line_cost, 0);
+
+  return (
+    <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+      {parts.map(part => (
+        <li key={part.part_id} className="flex items-start justify-between px-4 py-2">
+          <div>
+            <p className="text-sm text-gray-900">{part.part_name}</p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {part.part_number} · {part.quantity} {part.unit} at ${part.unit_cost.toFixed(2)}
+            </p>
+          </div>
+          <span className="text-sm text-gray-900">${part.line_cost.toFixed(2)}</span>
+        </li>
+      ))}
+      <li className="flex items-center justify-between px-4 py-2 bg-gray-50">
+        <span className="text-sm font-medium text-gray-700">Parts total</span>
+        <span className="text-sm font-semibold text-gray-900">${total.toFixed(2)}</span>
+      </li>
+    </ul>
+  );
+}
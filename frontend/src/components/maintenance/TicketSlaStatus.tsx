@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+
+export type SlaOutcome = 'met' | 'breached' | 'pending';
+
+export interface TicketSla {
+  service_contract_name?: string | null;
+  response_due_at?: string | null;
+  resolution_due_at?: string | null;
+  responded_at?: string | null;
+  response_status?: SlaOutcome | null;
+  resolution_status?: SlaOutcome | null;
+}
+
+interface TicketSlaStatusProps {
+  ticket: TicketSla;
+}
+
+const outcomeStyles: Record<SlaOutcome, string> = {
+  met: 'bg-green-100 text-green-800',
+  breached: 'bg-red-100 text-red-800',
+  pending: 'bg-yellow-100 text-yellow-800'
+};
+
+const outcomeLabels: Record<SlaOutcome, string> = {
+  met: 'Met',
+  breached: 'Breached',
+  pending: 'Due'
+};
+
+const formatDueAt = (date: string) =>
+  new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+/**
+ * Response and resolution due-by times for a ticket raised under a service
+ * contract. Renders nothing for tickets without SLA targets.
+ */
+export default function TicketSlaStatus({ ticket }: TicketSlaStatusProps) {
+  if (!ticket.response_due_at && !ticket.resolution_due_at) return null;
+
+  const rows = [
+    { label: 'Response', dueAt: ticket.response_due_at, status: ticket.response_status },
+    { label: 'Resolution', dueAt: ticket.resolution_due_at, status: ticket.resolution_status }
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1 flex items-center">
+        <ClockIcon className="h-5 w-5 text-gray-500 mr-2" />
+        Service Level
+      </h3>
+      {ticket.service_contract_name && (
+        <p className="text-sm text-gray-600 mb-4">{ticket.service_contract_name}</p>
+      )}
+      <dl className="space-y-3">
+        {rows.filter(row => row.dueAt).map(row => (
+          <div key={row.label} className="flex items-center justify-between gap-4">
+            <div>
+              <dt className="text-sm font-medium text-gray-700">{row.label} by</dt>
+              <dd className="text-sm text-gray-900">{formatDueAt(row.dueAt!)}</dd>
+            </div>
+            {row.status && (
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${outcomeStyles[row.status]}`}>
+                {outcomeLabels[row.status]}
+              </span>
+            )}
+          </div>
+        ))}
+      </dl>
+      {ticket.responded_at && (
+        <p className="text-xs text-gray-500 mt-4">Responded {formatDueAt(ticket.responded_at)}</p>
+      )}
+    </div>
+  );
+}
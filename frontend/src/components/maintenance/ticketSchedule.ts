@@ -0,0 +1,128 @@
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+
+export interface CalendarTicket {
+  id: number;
+  ticket_number: string;
+  ticket_status: 'open' | 'resolved' | 'closed';
+  support_type: string;
+  priority: 'low' | 'normal' | 'high';
+  category: string | null;
+  issue_description: string;
+  scheduled_date: string | null;
+  schedule_day: string | null;
+  is_all_day: boolean;
+  estimated_hours: number | null;
+  assigned_technician: number | null;
+  technician_name: string | null;
+  client_name: string | null;
+  equipment_serial: string | null;
+  equipment_name: string | null;
+}
+
+export interface ScheduleWarning {
+  type: 'overlap' | 'overbooked';
+  technician_id: number;
+  technician_name: string | null;
+  date: string;
+  ticket_ids: number[];
+  total_hours?: number;
+  message: string;
+}
+
+export interface CalendarData {
+  tickets: CalendarTicket[];
+  unscheduled: CalendarTicket[];
+  warnings: ScheduleWarning[];
+  capacity_hours: number;
+}
+
+export interface TechnicianOption {
+  id: number;
+  display_name: string;
+  is_owner?: boolean;
+}
+
+export const DEFAULT_TICKET_HOURS = 1;
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes());
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date) => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+export const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+// Local YYYY-MM-DD, used for date-only (all-day) scheduling
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const formatTime = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+// All-day tickets belong to their stored date rather than the local time of the stored midnight
+export const getTicketStart = (ticket: CalendarTicket): Date => {
+  if (ticket.is_all_day && ticket.schedule_day) {
+    const [year, month, day] = ticket.schedule_day.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  return new Date(ticket.scheduled_date as string);
+};
+
+export const ticketHours = (ticket: CalendarTicket) => ticket.estimated_hours || DEFAULT_TICKET_HOURS;
+
+export const PRIORITY_CHIP_STYLES: Record<CalendarTicket['priority'], string> = {
+  high: 'bg-red-50 border-red-200 text-red-800',
+  normal: 'bg-blue-50 border-blue-200 text-blue-800',
+  low: 'bg-gray-50 border-gray-200 text-gray-700'
+};
+
+/**
+ * Fetch tickets scheduled in [start, end) with technician workload warnings
+ */
+export async function fetchCalendar(
+  start: Date,
+  end: Date,
+  options: { technicianId?: number; includeUnscheduled?: boolean } = {}
+): Promise<CalendarData> {
+  const params = new URLSearchParams({ start: start.toISOString(), end: end.toISOString() });
+  if (options.technicianId) params.append('technician_id', String(options.technicianId));
+  if (options.includeUnscheduled) params.append('include_unscheduled', 'true');
+
+  const url = `${API_ENDPOINTS.MAINTENANCE_TICKETS.CALENDAR}?${params}`;
+  logApiCall('GET', url);
+  const response = await fetch(url, { headers: getAuthHeaders() });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.message || 'Failed to fetch calendar');
+  }
+
+  return result.data;
+}
+
+/**
+ * Move a ticket to a new date/time and optionally a different technician.
+ * A YYYY-MM-DD value schedules the ticket for the whole day.
+ */
+export async function rescheduleTicket(ticketId: number, scheduledDate: string, technicianId?: number): Promise<void> {
+  const url = API_ENDPOINTS.MAINTENANCE_TICKETS.UPDATE(ticketId);
+  const payload = {
+    scheduled_date: scheduledDate,
+    ...(technicianId && { assigned_technician: technicianId })
+  };
+
+  logApiCall('PUT', url, payload);
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(payload)
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.message || 'Failed to reschedule ticket');
+  }
+}
@@ -0,0 +1,247 @@
+'use client'
+
+import React, { useState } from 'react'
+import { XMarkIcon, UserPlusIcon } from '@heroicons/react/24/outline'
+import { useToast } from '../providers/ToastProvider'
+import { API_ENDPOINTS, getAuthHeaders } from '../../config/api'
+
+interface TechnicianFormData {
+  first_name: string
+  last_name: string
+  email: string
+  phone: string
+  job_title: string
+}
+
+interface AddTechnicianModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onTechnicianCreated: () => void
+}
+
+const emptyForm: TechnicianFormData = {
+  first_name: '',
+  last_name: '',
+  email: '',
+  phone: '',
+  job_title: ''
+}
+
+export default function AddTechnicianModal({ isOpen, onClose, onTechnicianCreated }: AddTechnicianModalProps) {
+  const { showToast, error } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [formData, setFormData] = useState<TechnicianFormData>(emptyForm)
+  const [errors, setErrors] = useState<Partial<TechnicianFormData>>({})
+
+  const validateForm = (): boolean => {
+    const newErrors: Partial<TechnicianFormData> = {}
+
+    if (!formData.first_name.trim()) {
+      newErrors.first_name = 'First name is required'
+    }
+
+    if (!formData.last_name.trim()) {
+      newErrors.last_name = 'Last name is required'
+    }
+
+    if (!formData.email.trim()) {
+      newErrors.email = 'Email is required'
+    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
+      newErrors.email = 'Invalid email format'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const response = await fetch(API_ENDPOINTS.TECHNICIANS.CREATE, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(formData)
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to create technician')
+      }
+
+      showToast('success', 'Technician created. A temporary password has been emailed to them.')
+      handleClose()
+      onTechnicianCreated()
+    } catch (err) {
+      console.error('Error creating technician:', err)
+      error(err instanceof Error ? err.message : 'Failed to create technician')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    setFormData(emptyForm)
+    setErrors({})
+    onClose()
+  }
+
+  const handleInputChange = (field: keyof TechnicianFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }))
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={handleClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-xl max-h-[90vh] overflow-hidden flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-100 flex-shrink-0">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <UserPlusIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Add Technician</h2>
+                <p className="text-sm text-gray-600">Create a login for a member of your field staff</p>
+              </div>
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 overflow-y-auto flex-1">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="first_name" className="block text-sm font-medium text-gray-700 mb-2">
+                    First Name *
+                  </label>
+                  <input
+                    type="text"
+                    id="first_name"
+                    value={formData.first_name}
+                    onChange={(e) => handleInputChange('first_name', e.target.value)}
+                    className={`input-field ${errors.first_name ? 'border-red-500' : ''}`}
+                    placeholder="Enter first name"
+                  />
+                  {errors.first_name && (
+                    <p className="mt-1 text-sm text-red-600">{errors.first_name}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="last_name" className="block text-sm font-medium text-gray-700 mb-2">
+                    Last Name *
+                  </label>
+                  <input
+                    type="text"
+                    id="last_name"
+                    value={formData.last_name}
+                    onChange={(e) => handleInputChange('last_name', e.target.value)}
+                    className={`input-field ${errors.last_name ? 'border-red-500' : ''}`}
+                    placeholder="Enter last name"
+                  />
+                  {errors.last_name && (
+                    <p className="mt-1 text-sm text-red-600">{errors.last_name}</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email Address *
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  value={formData.email}
+                  onChange={(e) => handleInputChange('email', e.target.value)}
+                  className={`input-field ${errors.email ? 'border-red-500' : ''}`}
+                  placeholder="technician@example.com"
+                />
+                {errors.email && (
+                  <p className="mt-1 text-sm text-red-600">{errors.email}</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
+                    Phone
+                  </label>
+                  <input
+                    type="tel"
+                    id="phone"
+                    value={formData.phone}
+                    onChange={(e) => handleInputChange('phone', e.target.value)}
+                    className="input-field"
+                    placeholder="+94771234567"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="job_title" className="block text-sm font-medium text-gray-700 mb-2">
+                    Job Title
+                  </label>
+                  <input
+                    type="text"
+                    id="job_title"
+                    value={formData.job_title}
+                    onChange={(e) => handleInputChange('job_title', e.target.value)}
+                    className="input-field"
+                    placeholder="e.g. Field Technician"
+                  />
+                </div>
+              </div>
+
+              {/* Actions */}
+              <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  disabled={loading}
+                  className="btn-secondary"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="btn-primary"
+                >
+                  {loading ? (
+                    <div className="flex items-center">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                      Creating...
+                    </div>
+                  ) : (
+                    'Create Technician'
+                  )}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
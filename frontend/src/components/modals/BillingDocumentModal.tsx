@@ -0,0 +1,435 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { XMarkIcon, DocumentTextIcon, PlusIcon, TrashIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { useToast } from '../providers/ToastProvider'
+import { API_ENDPOINTS, getAuthHeaders } from '../../config/api'
+import {
+  BillingLine,
+  DraftLines,
+  Invoice,
+  LINE_TYPE_LABELS,
+  LineType,
+  Quote,
+  billingRequest,
+  formatMoney
+} from '../billing/billing'
+
+interface LineRow {
+  line_type: LineType
+  description: string
+  quantity: string
+  unit_price: string
+  part_id: number | null
+}
+
+interface ClientOption {
+  id: number
+  name: string
+}
+
+interface BillingDocumentModalProps {
+  isOpen: boolean
+  kind: 'quote' | 'invoice'
+  // The draft being edited; a new document is raised when left out
+  document?: Quote | Invoice | null
+  // What a new document is for: a ticket, or rentals (invoices only) when left out
+  ticketId?: number | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+const toRow = (line: BillingLine): LineRow => ({
+  line_type: line.line_type,
+  description: line.description,
+  quantity: String(line.quantity),
+  unit_price: String(line.unit_price),
+  part_id: line.part_id ?? null
+})
+
+const emptyRow: LineRow = { line_type: 'other', description: '', quantity: '1', unit_price: '0', part_id: null }
+
+const firstOfLastMonth = () => {
+  const date = new Date()
+  return new Date(date.getFullYear(), date.getMonth() - 1, 1).toLocaleDateString('en-CA')
+}
+
+const lastOfLastMonth = () => {
+  const date = new Date()
+  return new Date(date.getFullYear(), date.getMonth(), 0).toLocaleDateString('en-CA')
+}
+
+export default function BillingDocumentModal({ isOpen, kind, document, ticketId, onClose, onSaved }: BillingDocumentModalProps) {
+  const { success, error } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [drafting, setDrafting] = useState(false)
+  const [rows, setRows] = useState<LineRow[]>([])
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [taxRate, setTaxRate] = useState('0')
+  const [dateField, setDateField] = useState('')
+  const [notes, setNotes] = useState('')
+  const [clients, setClients] = useState<ClientOption[]>([])
+  const [clientId, setClientId] = useState('')
+  const [periodStart, setPeriodStart] = useState(firstOfLastMonth)
+  const [periodEnd, setPeriodEnd] = useState(lastOfLastMonth)
+
+  const label = kind === 'quote' ? 'Quote' : 'Invoice'
+  const isRental = kind === 'invoice' && !document && !ticketId
+
+  const loadDraftLines = async (url: string) => {
+    setDrafting(true)
+    try {
+      const draft = await billingRequest<DraftLines>(url)
+      setRows(draft.lines.length > 0 ? draft.lines.map(toRow) : [emptyRow])
+      setWarnings(draft.warnings)
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to price the work')
+      setRows([emptyRow])
+    } finally {
+      setDrafting(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!isOpen) return
+    setWarnings([])
+
+    if (document) {
+      setRows(document.lines.map(toRow))
+      setTaxRate(String(document.tax_rate))
+      setDateField(('valid_until' in document ? document.valid_until : document.due_date) || '')
+      setNotes(document.notes || '')
+      return
+    }
+
+    setTaxRate('0')
+    setDateField('')
+    setNotes('')
+    setRows([])
+
+    if (ticketId) {
+      loadDraftLines(`${API_ENDPOINTS.BILLING.TICKET_DRAFT_LINES(ticketId)}?for=${kind}`)
+    } else {
+      setClientId('')
+      setPeriodStart(firstOfLastMonth())
+      setPeriodEnd(lastOfLastMonth())
+      fetch(API_ENDPOINTS.REPORTS.CLIENTS_DROPDOWN, { headers: getAuthHeaders() })
+        .then(response => response.json())
+        .then(data => setClients(data.data || []))
+        .catch(err => console.error('Error fetching clients:', err))
+    }
+  }, [isOpen, document, ticketId, kind])
+
+  const priceRentals = () => {
+    if (!clientId) {
+      error('Choose a client')
+      return
+    }
+    const params = new URLSearchParams({ client_id: clientId, start: periodStart, end: periodEnd })
+    loadDraftLines(`${API_ENDPOINTS.BILLING.RENTAL_DRAFT_LINES}?${params}`)
+  }
+
+  const updateRow = (index: number, field: keyof LineRow, value: string) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)))
+  }
+
+  const lineAmount = (row: LineRow) => {
+    const amount = (parseFloat(row.quantity) || 0) * (parseFloat(row.unit_price) || 0)
+    return Math.round(amount * 100) / 100
+  }
+  const subtotal = rows.reduce((sum, row) => sum + lineAmount(row), 0)
+  const taxAmount = Math.round(subtotal * (parseFloat(taxRate) || 0)) / 100
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (rows.length === 0) {
+      error('Add at least one line')
+      return
+    }
+    if (rows.some(row => !row.description.trim() || !(parseFloat(row.quantity) > 0) || !(parseFloat(row.unit_price) >= 0))) {
+      error('Every line needs a description, a quantity and a price')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const payload = {
+        tax_rate: parseFloat(taxRate) || 0,
+        notes: notes.trim() || null,
+        [kind === 'quote' ? 'valid_until' : 'due_date']: dateField || null,
+        lines: rows.map(row => ({
+          line_type: row.line_type,
+          description: row.description.trim(),
+          quantity: parseFloat(row.quantity),
+          unit_price: parseFloat(row.unit_price),
+          part_id: row.part_id
+        })),
+        ...(!document && ticketId && { ticket_id: ticketId }),
+        ...(isRental && { client_id: parseInt(clientId), period_start: periodStart, period_end: periodEnd })
+      }
+
+      const base = kind === 'quote' ? API_ENDPOINTS.BILLING.QUOTES : API_ENDPOINTS.BILLING.INVOICES
+      const url = document
+        ? (kind === 'quote' ? API_ENDPOINTS.BILLING.QUOTE(document.id) : API_ENDPOINTS.BILLING.INVOICE(document.id))
+        : base
+      await billingRequest(url, document ? 'PUT' : 'POST', payload)
+
+      success(document ? `${label} updated` : `Draft ${kind} created`)
+      onClose()
+      onSaved()
+    } catch (err) {
+      console.error(`Error saving ${kind}:`, err)
+      error(err instanceof Error ? err.message : `Failed to save ${kind}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const documentNumber = document ? (kind === 'quote' ? (document as Quote).quote_number : (document as Invoice).invoice_number) : null
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-100 flex-shrink-0">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <DocumentTextIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  {document ? `Edit ${documentNumber}` : isRental ? 'New Rental Invoice' : `New ${label}`}
+                </h2>
+                <p className="text-sm text-gray-600">
+                  {isRental
+                    ? 'Bill a client for the equipment they had on hire'
+                    : 'Lines are priced from your price list and can be adjusted before saving'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-6 overflow-y-auto flex-1">
+            {isRental && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Client *</label>
+                  <select
+                    value={clientId}
+                    onChange={(e) => setClientId(e.target.value)}
+                    className="input-field"
+                    disabled={loading}
+                  >
+                    <option value="">Select a client</option>
+                    {clients.map(client => (
+                      <option key={client.id} value={client.id}>{client.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                  <input
+                    type="date"
+                    value={periodStart}
+                    onChange={(e) => setPeriodStart(e.target.value)}
+                    className="input-field"
+                    disabled={loading}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                  <input
+                    type="date"
+                    value={periodEnd}
+                    onChange={(e) => setPeriodEnd(e.target.value)}
+                    className="input-field"
+                    disabled={loading}
+                  />
+                </div>
+                <div className="md:col-span-4 flex justify-end">
+                  <button type="button" onClick={priceRentals} disabled={drafting || loading} className="btn-secondary disabled:opacity-50">
+                    {drafting ? 'Pricing...' : 'Price Rentals'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {warnings.length > 0 && (
+              <div className="rounded-xl border border-yellow-200 bg-yellow-50 p-4">
+                <div className="flex items-start space-x-2">
+                  <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 flex-shrink-0" />
+                  <ul className="text-sm text-yellow-800 space-y-1">
+                    {warnings.map(warning => <li key={warning}>{warning}</li>)}
+                  </ul>
+                </div>
+              </div>
+            )}
+
+            {/* Lines */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-900">Lines</h3>
+                <button
+                  type="button"
+                  onClick={() => setRows(prev => [...prev, emptyRow])}
+                  disabled={loading}
+                  className="inline-flex items-center text-sm text-red-600 hover:text-red-700"
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" />
+                  Add Line
+                </button>
+              </div>
+
+              {drafting ? (
+                <p className="text-sm text-gray-500">Pricing the work...</p>
+              ) : rows.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {isRental ? 'Choose a client and period, then price their rentals.' : 'No lines yet.'}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {rows.map((row, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={row.line_type}
+                        onChange={(e) => updateRow(index, 'line_type', e.target.value)}
+                        className="input-field col-span-2"
+                        disabled={loading || row.part_id !== null}
+                      >
+                        {(Object.keys(LINE_TYPE_LABELS) as LineType[]).map(type => (
+                          <option key={type} value={type}>{LINE_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={row.description}
+                        onChange={(e) => updateRow(index, 'description', e.target.value)}
+                        className="input-field col-span-5"
+                        placeholder="Description"
+                        disabled={loading}
+                      />
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        value={row.quantity}
+                        onChange={(e) => updateRow(index, 'quantity', e.target.value)}
+                        className="input-field col-span-1"
+                        aria-label="Quantity"
+                        disabled={loading}
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.unit_price}
+                        onChange={(e) => updateRow(index, 'unit_price', e.target.value)}
+                        className="input-field col-span-2"
+                        aria-label="Unit price"
+                        disabled={loading}
+                      />
+                      <span className="col-span-1 text-sm text-right text-gray-900">{formatMoney(lineAmount(row))}</span>
+                      <button
+                        type="button"
+                        onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                        className="col-span-1 justify-self-end p-1 text-gray-400 hover:text-red-600"
+                        aria-label="Remove line"
+                        disabled={loading}
+                      >
+                        <TrashIcon className="h-5 w-5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Terms and totals */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 border-t border-gray-100 pt-4">
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {kind === 'quote' ? 'Valid Until' : 'Due Date'}
+                    </label>
+                    <input
+                      type="date"
+                      value={dateField}
+                      onChange={(e) => setDateField(e.target.value)}
+                      className="input-field"
+                      disabled={loading}
+                    />
+                    {kind === 'invoice' && (
+                      <p className="mt-1 text-xs text-gray-500">30 days from issue if left blank</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Tax Rate (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={taxRate}
+                      onChange={(e) => setTaxRate(e.target.value)}
+                      className="input-field"
+                      disabled={loading}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    className="input-field"
+                    rows={3}
+                    placeholder="Shown to the client on the PDF"
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+
+              <dl className="text-sm space-y-2 self-end">
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Subtotal</dt>
+                  <dd className="text-gray-900">{formatMoney(subtotal)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Tax</dt>
+                  <dd className="text-gray-900">{formatMoney(taxAmount)}</dd>
+                </div>
+                <div className="flex justify-between border-t border-gray-100 pt-2 font-semibold">
+                  <dt className="text-gray-900">Total</dt>
+                  <dd className="text-gray-900">{formatMoney(subtotal + taxAmount)}</dd>
+                </div>
+              </dl>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+              <button type="button" onClick={onClose} disabled={loading} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" disabled={loading || drafting} className="btn-primary disabled:opacity-50">
+                {loading ? 'Saving...' : document ? 'Save Changes' : 'Save Draft'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
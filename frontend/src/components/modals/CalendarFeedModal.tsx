@@ -0,0 +1,199 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { XMarkIcon, CalendarDaysIcon, ClipboardDocumentIcon, ArrowPathIcon } from '@heroicons/react/24/outline'
+import { useToast } from '../providers/ToastProvider'
+import { useConfirmModal } from '../providers/ConfirmModalProvider'
+import { getAuthHeaders, logApiCall } from '../../config/api'
+
+interface CalendarFeed {
+  url: string
+  webcal_url: string
+  created_at: string
+  last_accessed_at: string | null
+}
+
+interface CalendarFeedModalProps {
+  isOpen: boolean
+  onClose: () => void
+  feedEndpoint: string
+  rotateEndpoint: string
+  // Vendors can pick a technician's feed; technicians only have their own
+  technicians?: { id: number; display_name: string; is_owner?: boolean }[]
+}
+
+export default function CalendarFeedModal({ isOpen, onClose, feedEndpoint, rotateEndpoint, technicians }: CalendarFeedModalProps) {
+  const { success, error } = useToast()
+  const { confirm } = useConfirmModal()
+  const [technicianId, setTechnicianId] = useState<number | null>(null)
+  const [feed, setFeed] = useState<CalendarFeed | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const loadFeed = useCallback(async () => {
+    setLoading(true)
+    try {
+      const url = technicianId ? `${feedEndpoint}?technician_id=${technicianId}` : feedEndpoint
+      logApiCall('GET', url)
+      const response = await fetch(url, { headers: getAuthHeaders() })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load calendar feed')
+      }
+
+      setFeed(data.data)
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to load calendar feed')
+    } finally {
+      setLoading(false)
+    }
+  }, [feedEndpoint, technicianId, error])
+
+  useEffect(() => {
+    if (isOpen) loadFeed()
+  }, [isOpen, loadFeed])
+
+  const handleCopy = async () => {
+    if (!feed) return
+    try {
+      await navigator.clipboard.writeText(feed.url)
+      success('Feed URL copied')
+    } catch {
+      error('Could not copy the URL. Select it and copy manually.')
+    }
+  }
+
+  const handleRotate = async () => {
+    const confirmed = await confirm({
+      title: 'Regenerate Feed URL',
+      message: 'Calendars subscribed with the current URL will stop updating. Continue?',
+      confirmText: 'Regenerate',
+      type: 'danger'
+    })
+    if (!confirmed) return
+
+    setLoading(true)
+    try {
+      logApiCall('POST', rotateEndpoint)
+      const response = await fetch(rotateEndpoint, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(technicianId ? { technician_id: technicianId } : {})
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to regenerate calendar feed')
+      }
+
+      setFeed(data.data)
+      success('New feed URL generated')
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to regenerate calendar feed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-xl">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-100">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <CalendarDaysIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Subscribe to Calendar</h2>
+                <p className="text-sm text-gray-600">Scheduled tickets in Google Calendar, Outlook or Apple Calendar</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-4">
+            {technicians && (
+              <div>
+                <label htmlFor="feed_technician" className="block text-sm font-medium text-gray-700 mb-2">
+                  Feed for
+                </label>
+                <select
+                  id="feed_technician"
+                  value={technicianId ?? ''}
+                  onChange={(e) => setTechnicianId(e.target.value ? parseInt(e.target.value) : null)}
+                  className="input-field"
+                >
+                  <option value="">All technicians</option>
+                  {technicians.map(tech => (
+                    <option key={tech.id} value={tech.id}>
+                      {tech.is_owner ? `${tech.display_name} (me)` : tech.display_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="feed_url" className="block text-sm font-medium text-gray-700 mb-2">
+                Feed URL
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  id="feed_url"
+                  type="text"
+                  readOnly
+                  value={loading && !feed ? 'Loading...' : feed?.url ?? ''}
+                  onFocus={(e) => e.target.select()}
+                  className="input-field font-mono text-xs"
+                />
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  disabled={!feed}
+                  className="btn-secondary flex items-center"
+                  title="Copy URL"
+                >
+                  <ClipboardDocumentIcon className="h-5 w-5" />
+                </button>
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                Anyone with this URL can see the tickets in it. Add it as a calendar subscription (&quot;From URL&quot;); most apps refresh it every few hours.
+                {feed?.last_accessed_at && ` Last fetched ${new Date(feed.last_accessed_at).toLocaleString()}.`}
+              </p>
+            </div>
+
+            {/* Actions */}
+            <div className="flex items-center justify-between pt-4 border-t border-gray-100">
+              <button
+                type="button"
+                onClick={handleRotate}
+                disabled={loading || !feed}
+                className="flex items-center space-x-1 text-sm font-medium text-gray-600 hover:text-red-600 disabled:opacity-50"
+              >
+                <ArrowPathIcon className="h-4 w-4" />
+                <span>Regenerate URL</span>
+              </button>
+              {feed && (
+                <a href={feed.webcal_url} className="btn-primary">
+                  Open in Calendar App
+                </a>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
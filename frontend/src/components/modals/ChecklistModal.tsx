@@ -0,0 +1,242 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { XMarkIcon, ClipboardDocumentCheckIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { useToast } from '../providers/ToastProvider'
+import { API_ENDPOINTS, getAuthHeaders } from '../../config/api'
+
+export interface ChecklistTemplate {
+  id: number
+  equipment_type: string
+  checklist_name: string
+  is_active: boolean
+  items: Array<{ id: number; item_text: string; sort_order: number }>
+}
+
+interface ItemRow {
+  id?: number
+  item_text: string
+}
+
+interface ChecklistModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved: () => void
+  equipmentTypes: string[]
+  checklist?: ChecklistTemplate | null
+}
+
+export default function ChecklistModal({ isOpen, onClose, onSaved, equipmentTypes, checklist }: ChecklistModalProps) {
+  const { showToast, error } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [equipmentType, setEquipmentType] = useState('')
+  const [checklistName, setChecklistName] = useState('')
+  const [items, setItems] = useState<ItemRow[]>([{ item_text: '' }])
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const isEditing = !!checklist
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    if (checklist) {
+      setEquipmentType(checklist.equipment_type)
+      setChecklistName(checklist.checklist_name)
+      setItems(checklist.items.map(item => ({ id: item.id, item_text: item.item_text })))
+    } else {
+      setEquipmentType('')
+      setChecklistName('')
+      setItems([{ item_text: '' }])
+    }
+    setFormError(null)
+  }, [isOpen, checklist])
+
+  const updateItem = (index: number, value: string) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, item_text: value } : item)))
+  }
+
+  const removeItem = (index: number) => {
+    setItems(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const filledItems = items.filter(item => item.item_text.trim())
+
+    if (!equipmentType.trim()) {
+      setFormError('Equipment type is required')
+      return
+    }
+    if (!checklistName.trim()) {
+      setFormError('Checklist name is required')
+      return
+    }
+    if (filledItems.length === 0) {
+      setFormError('Add at least one checklist item')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const response = await fetch(
+        isEditing ? API_ENDPOINTS.CHECKLISTS.UPDATE(checklist!.id) : API_ENDPOINTS.CHECKLISTS.CREATE,
+        {
+          method: isEditing ? 'PUT' : 'POST',
+          headers: getAuthHeaders(),
+          body: JSON.stringify({
+            ...(!isEditing && { equipment_type: equipmentType }),
+            checklist_name: checklistName,
+            items: filledItems
+          })
+        }
+      )
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save checklist')
+      }
+
+      showToast('success', isEditing ? 'Checklist updated' : 'Checklist created')
+      onClose()
+      onSaved()
+    } catch (err) {
+      console.error('Error saving checklist:', err)
+      error(err instanceof Error ? err.message : 'Failed to save checklist')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-100 flex-shrink-0">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <ClipboardDocumentCheckIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">{isEditing ? 'Edit Checklist' : 'New Checklist'}</h2>
+                <p className="text-sm text-gray-600">Items technicians must check when servicing this equipment type</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 overflow-y-auto flex-1">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="equipment_type" className="block text-sm font-medium text-gray-700 mb-2">
+                    Equipment Type *
+                  </label>
+                  <input
+                    type="text"
+                    id="equipment_type"
+                    list="checklist-equipment-types"
+                    value={equipmentType}
+                    onChange={(e) => setEquipmentType(e.target.value)}
+                    disabled={isEditing}
+                    className="input-field disabled:bg-gray-50"
+                    placeholder="e.g. Fire Extinguisher"
+                  />
+                  <datalist id="checklist-equipment-types">
+                    {equipmentTypes.map(type => (
+                      <option key={type} value={type} />
+                    ))}
+                  </datalist>
+                </div>
+
+                <div>
+                  <label htmlFor="checklist_name" className="block text-sm font-medium text-gray-700 mb-2">
+                    Checklist Name *
+                  </label>
+                  <input
+                    type="text"
+                    id="checklist_name"
+                    value={checklistName}
+                    onChange={(e) => setChecklistName(e.target.value)}
+                    className="input-field"
+                    placeholder="e.g. Annual Extinguisher Inspection"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Items *</label>
+                <div className="space-y-2">
+                  {items.map((item, index) => (
+                    <div key={item.id ?? `new-${index}`} className="flex items-center space-x-2">
+                      <span className="text-sm text-gray-500 w-6 text-right">{index + 1}.</span>
+                      <input
+                        type="text"
+                        value={item.item_text}
+                        onChange={(e) => updateItem(index, e.target.value)}
+                        className="input-field flex-1"
+                        placeholder="e.g. Pressure gauge in green zone"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeItem(index)}
+                        disabled={items.length === 1}
+                        className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setItems(prev => [...prev, { item_text: '' }])}
+                  className="mt-3 text-sm font-medium text-red-600 hover:text-red-800 flex items-center space-x-1"
+                >
+                  <PlusIcon className="h-4 w-4" />
+                  <span>Add Item</span>
+                </button>
+              </div>
+
+              {formError && (
+                <p className="text-sm text-red-600">{formError}</p>
+              )}
+
+              {/* Actions */}
+              <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={loading}
+                  className="btn-secondary"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="btn-primary"
+                >
+                  {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Checklist'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
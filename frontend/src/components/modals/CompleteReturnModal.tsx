@@ -0,0 +1,260 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { API_ENDPOINTS, buildApiUrl, getAuthHeaders, logApiCall } from '@/config/api'
+import { useToast } from '@/components/providers/ToastProvider'
+
+export type ReturnStatus = 'pending' | 'approved' | 'rejected' | 'completed'
+export type ReturnDisposition = 'returned' | 'retired'
+
+export interface ReturnRequestItem {
+  equipment_instance_id: number
+  serial_number: string
+  equipment_id: number
+  equipment_name: string
+  assignment_id: number | null
+  assignment_number: string | null
+  replacement_instance_id: number | null
+  replacement_serial_number: string | null
+  disposition: ReturnDisposition | null
+}
+
+export interface ReturnRequest {
+  id: number
+  return_number: string
+  client_id: number
+  client_name: string
+  vendor_id: number
+  request_type: 'return' | 'swap'
+  status: ReturnStatus
+  reason: string
+  vendor_notes: string | null
+  requested_by_name: string | null
+  reviewed_by_name: string | null
+  reviewed_at: string | null
+  returned_by_name: string | null
+  return_date: string | null
+  created_at: string
+  items: ReturnRequestItem[]
+}
+
+interface AvailableUnit {
+  id: number
+  serial_number: string
+  location: string | null
+}
+
+interface CompleteLine {
+  disposition: ReturnDisposition
+  replacement_instance_id: string
+}
+
+interface CompleteReturnModalProps {
+  request: ReturnRequest | null
+  onClose: () => void
+  onCompleted: () => void
+}
+
+export default function CompleteReturnModal({ request, onClose, onCompleted }: CompleteReturnModalProps) {
+  const { success, error } = useToast()
+  const [lines, setLines] = useState<Record<number, CompleteLine>>({})
+  const [available, setAvailable] = useState<Record<number, AvailableUnit[]>>({})
+  const [notes, setNotes] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!request) return
+
+    setNotes('')
+    setLines(Object.fromEntries(request.items.map(item => [
+      item.equipment_instance_id,
+      { disposition: 'returned' as ReturnDisposition, replacement_instance_id: '' }
+    ])))
+    setAvailable({})
+
+    if (request.request_type !== 'swap') return
+
+    // Replacements must be in-stock units of the same equipment type
+    const equipmentIds = [...new Set(request.items.map(item => item.equipment_id))]
+    setIsLoading(true)
+    Promise.all(equipmentIds.map(async equipmentId => {
+      const url = buildApiUrl(API_ENDPOINTS.EQUIPMENT.LIST, { status: 'available', equipment_type_id: equipmentId, limit: 100 })
+      logApiCall('GET', url)
+      const response = await fetch(url, { headers: getAuthHeaders() })
+      if (!response.ok) throw new Error('Failed to load available equipment')
+      const data = await response.json()
+      return [equipmentId, data.data?.equipment || []] as const
+    }))
+      .then(entries => setAvailable(Object.fromEntries(entries)))
+      .catch(err => error(err instanceof Error ? err.message : 'Failed to load available equipment'))
+      .finally(() => setIsLoading(false))
+  }, [request])
+
+  if (!request) return null
+
+  const isSwap = request.request_type === 'swap'
+
+  const updateLine = (instanceId: number, changes: Partial<CompleteLine>) => {
+    setLines(prev => ({ ...prev, [instanceId]: { ...prev[instanceId], ...changes } }))
+  }
+
+  // A replacement picked for one unit can't be picked for another
+  const takenReplacements = (instanceId: number) =>
+    Object.entries(lines)
+      .filter(([id, line]) => Number(id) !== instanceId && line.replacement_instance_id)
+      .map(([, line]) => line.replacement_instance_id)
+
+  const handleComplete = async () => {
+    if (isSwap && request.items.some(item => !lines[item.equipment_instance_id]?.replacement_instance_id)) {
+      error('Choose a replacement for every unit')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const url = API_ENDPOINTS.EQUIPMENT_RETURNS.COMPLETE(request.id)
+      const payload = {
+        items: request.items.map(item => {
+          const line = lines[item.equipment_instance_id]
+          return {
+            equipment_instance_id: item.equipment_instance_id,
+            disposition: line.disposition,
+            replacement_instance_id: isSwap ? parseInt(line.replacement_instance_id) : null
+          }
+        }),
+        notes: notes.trim() || null
+      }
+      logApiCall('POST', url, payload)
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(payload)
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to complete request')
+      }
+      success(`${request.return_number} completed`)
+      onCompleted()
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to complete request')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-2xl">
+          <div className="flex items-center justify-between p-6 border-b border-gray-100">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <ArrowPathIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Complete {request.return_number}</h2>
+                <p className="text-sm text-gray-600">
+                  {isSwap
+                    ? `Take back each unit from ${request.client_name} and assign its replacement`
+                    : `Take back ${request.items.length} unit(s) from ${request.client_name}`}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {request.items.map(item => {
+              const line = lines[item.equipment_instance_id]
+              if (!line) return null
+              const taken = takenReplacements(item.equipment_instance_id)
+              const options = (available[item.equipment_id] || []).filter(unit => !taken.includes(String(unit.id)))
+
+              return (
+                <div key={item.equipment_instance_id} className="border border-gray-100 rounded-xl p-4 space-y-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{item.serial_number}</div>
+                    <div className="text-xs text-gray-500">{item.equipment_name}</div>
+                  </div>
+
+                  <div className={`grid grid-cols-1 ${isSwap ? 'sm:grid-cols-2' : ''} gap-4`}>
+                    <div>
+                      <label htmlFor={`disposition_${item.equipment_instance_id}`} className="block text-sm font-medium text-gray-700 mb-2">
+                        Returned unit
+                      </label>
+                      <select
+                        id={`disposition_${item.equipment_instance_id}`}
+                        value={line.disposition}
+                        onChange={(e) => updateLine(item.equipment_instance_id, { disposition: e.target.value as ReturnDisposition })}
+                        className="input-field"
+                      >
+                        <option value="returned">Back to stock</option>
+                        <option value="retired">Retire</option>
+                      </select>
+                    </div>
+
+                    {isSwap && (
+                      <div>
+                        <label htmlFor={`replacement_${item.equipment_instance_id}`} className="block text-sm font-medium text-gray-700 mb-2">
+                          Replacement *
+                        </label>
+                        <select
+                          id={`replacement_${item.equipment_instance_id}`}
+                          value={line.replacement_instance_id}
+                          onChange={(e) => updateLine(item.equipment_instance_id, { replacement_instance_id: e.target.value })}
+                          className="input-field"
+                          disabled={isLoading}
+                        >
+                          <option value="">
+                            {isLoading ? 'Loading...' : options.length === 0 ? 'No units in stock' : 'Choose a unit'}
+                          </option>
+                          {options.map(unit => (
+                            <option key={unit.id} value={unit.id}>
+                              {unit.serial_number}{unit.location ? ` (${unit.location})` : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+
+            <div>
+              <label htmlFor="complete_notes" className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+              <textarea
+                id="complete_notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                maxLength={2000}
+                placeholder="Anything the client should know"
+                className="input-field"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-4 p-6 border-t border-gray-100 bg-gray-50">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isSaving}>
+              Cancel
+            </button>
+            <button type="button" onClick={handleComplete} className="btn-primary" disabled={isSaving || isLoading}>
+              {isSaving ? 'Completing...' : isSwap ? 'Complete Swap' : 'Complete Return'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
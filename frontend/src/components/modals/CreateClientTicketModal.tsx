@@ -8,12 +8,14 @@ import { API_BASE_URL } from '../../config/api';
 import { useToast } from '../providers/ToastProvider';
 import DebugLogger from '../../utils/DebugLogger';
 import LoadingSpinner from '../ui/LoadingSpinner';
+import { readFileAsUpload, formatFileSize, ACCEPTED_ATTACHMENT_TYPES } from '../attachments/AttachmentsPanel';
 import {
   XMarkIcon,
   ClipboardDocumentListIcon,
   ExclamationTriangleIcon,
   Cog6ToothIcon,
-  FireIcon
+  FireIcon,
+  PhotoIcon
 } from '@heroicons/react/24/outline';
 
 // Client ticket form validation schema (simplified for clients)
@@ -38,6 +40,9 @@ interface ClientEquipment {
   next_maintenance_date?: string;
 }
 
+// Photos sent with the request; the backend accepts up to three
+const MAX_PHOTOS = 3;
+
 interface CreateClientTicketModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -55,6 +60,9 @@ export default function CreateClientTicketModal({
   // Client equipment data
   const [equipment, setEquipment] = useState<ClientEquipment[]>([]);
   const [isLoadingEquipment, setIsLoadingEquipment] = useState(false);
+
+  // Photos of the problem
+  const [photos, setPhotos] = useState<File[]>([]);
   
   const { showToast } = useToast();
 
@@ -89,6 +97,7 @@ export default function CreateClientTicketModal({
     if (!isOpen) {
       reset();
       setError(null);
+      setPhotos([]);
     }
   }, [isOpen, reset]);
 
@@ -142,6 +151,12 @@ export default function CreateClientTicketModal({
     }
   };
 
+  const handlePhotosSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = '';
+    setPhotos(prev => [...prev, ...selected].slice(0, MAX_PHOTOS));
+  };
+
   // Submit ticket
   const onSubmit = async (data: ClientTicketFormData) => {
     const startTime = DebugLogger.startTimer();
@@ -161,6 +176,8 @@ export default function CreateClientTicketModal({
         'Content-Type': 'application/json'
       };
 
+      const attachments = await Promise.all(photos.map(photo => readFileAsUpload(photo)));
+
       // Client tickets are always maintenance type since they're about equipment
       const ticketData = {
         ...data,
@@ -172,14 +189,15 @@ export default function CreateClientTicketModal({
       const response = await fetch(`${API_BASE_URL}/client-views/service-requests`, {
         method: 'POST',
         headers,
-        body: JSON.stringify(ticketData)
+        body: JSON.stringify({ ...ticketData, attachments })
       });
 
+      const result = await response.json();
+
       if (!response.ok) {
-        throw new Error(`Failed to create ticket: ${response.status} ${response.statusText}`);
+        throw new Error(result.message || `Failed to create ticket: ${response.status} ${response.statusText}`);
       }
 
-      const result = await response.json();
       DebugLogger.api('POST', '/client-views/service-requests', ticketData, result, response.status);
 
       if (result.success) {
@@ -334,6 +352,45 @@ export default function CreateClientTicketModal({
                     Be as specific as possible to help your vendor understand and resolve the issue quickly.
                   </p>
                 </div>
+
+                {/* Photos */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <PhotoIcon className="w-4 h-4 inline mr-2 text-gray-600" />
+                    Photos (optional)
+                  </label>
+                  {photos.length > 0 && (
+                    <ul className="mb-2 space-y-1">
+                      {photos.map((photo, index) => (
+                        <li key={`${photo.name}-${index}`} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+                          <span className="truncate text-gray-900">{photo.name}</span>
+                          <div className="flex items-center space-x-3 flex-shrink-0">
+                            <span className="text-xs text-gray-500">{formatFileSize(photo.size)}</span>
+                            <button
+                              type="button"
+                              onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                              className="text-gray-400 hover:text-red-600"
+                            >
+                              <XMarkIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {photos.length < MAX_PHOTOS && (
+                    <input
+                      type="file"
+                      accept={ACCEPTED_ATTACHMENT_TYPES}
+                      multiple
+                      onChange={handlePhotosSelected}
+                      className="block w-full text-sm text-gray-600 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-red-50 file:text-red-700 hover:file:bg-red-100"
+                    />
+                  )}
+                  <p className="mt-1 text-xs text-gray-500">
+                    Up to {MAX_PHOTOS} photos or PDFs, 5 MB each.
+                  </p>
+                </div>
               </form>
             </div>
           </div>
@@ -28,6 +28,11 @@ const ticketSchema = z.object({
     .min(10, 'Issue description must be at least 10 characters')
     .max(1000, 'Issue description cannot exceed 1000 characters'),
   scheduled_date: z.string().optional(),
+  assigned_technician: z.number().optional(),
+  estimated_hours: z.number()
+    .min(0.25, 'Estimated hours must be at least 0.25')
+    .max(999, 'Estimated hours cannot exceed 999')
+    .optional(),
 });
 
 type TicketFormData = z.infer<typeof ticketSchema>;
@@ -41,6 +46,7 @@ interface DropdownOption {
   equipment_name?: string;
   location?: string;
   compliance_status?: string;
+  is_owner?: boolean;
 }
 
 interface CreateTicketModalProps {
@@ -62,6 +68,7 @@ export default function CreateTicketModal({
   // Dropdown data
   const [clients, setClients] = useState<DropdownOption[]>([]);
   const [equipment, setEquipment] = useState<DropdownOption[]>([]);
+  const [technicians, setTechnicians] = useState<DropdownOption[]>([]);
   
   // Loading states
   const [isLoadingClients, setIsLoadingClients] = useState(false);
@@ -105,6 +112,7 @@ export default function CreateTicketModal({
   useEffect(() => {
     if (isOpen && userType === 'vendor') {
       fetchClients();
+      fetchTechnicians();
     }
   }, [isOpen, userType]);
 
@@ -162,7 +170,24 @@ export default function CreateTicketModal({
   };
 
   // Fetch technicians dropdown
+  const fetchTechnicians = async () => {
+    try {
+      const url = API_ENDPOINTS.MAINTENANCE_TICKETS.TECHNICIANS;
+
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
 
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setTechnicians(result.data);
+        }
+      }
+    } catch (err) {
+      DebugLogger.error('Technicians fetch failed', err);
+      showToast('error', 'Failed to load technicians');
+    }
+  };
 
   // Fetch equipment for selected client
   const fetchEquipmentForClient = async (clientId: number) => {
@@ -203,6 +228,7 @@ export default function CreateTicketModal({
     setError(null);
     setClients([]);
     setEquipment([]);
+    setTechnicians([]);
     onClose();
   };
 
@@ -216,7 +242,7 @@ export default function CreateTicketModal({
         throw new Error('No authentication token found');
       }
 
-      // Prepare request body (assigned_technician is auto-assigned on backend)
+      // Prepare request body (defaults to the vendor account when no technician is selected)
       const requestBody = {
         support_type: data.support_type,
         priority: data.priority,
@@ -224,6 +250,8 @@ export default function CreateTicketModal({
         issue_description: data.issue_description,
         ...(data.equipment_instance_id && { equipment_instance_id: data.equipment_instance_id }),
         ...(data.scheduled_date && { scheduled_date: data.scheduled_date }),
+        ...(data.assigned_technician && { assigned_technician: data.assigned_technician }),
+        ...(data.estimated_hours && { estimated_hours: data.estimated_hours }),
       };
 
       const headers = {
@@ -437,14 +465,47 @@ export default function CreateTicketModal({
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Assigned Technician
                     </label>
-                    <div className="w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-md text-gray-700">
-                      Auto-assigned to you
-                    </div>
+                    <select
+                      {...register('assigned_technician', { 
+                        setValueAs: (value) => value === '' ? undefined : Number(value)
+                      })}
+                      className="input-field"
+                    >
+                      <option value="">Assign to me</option>
+                      {technicians.filter(tech => !tech.is_owner).map((tech) => (
+                        <option key={tech.id} value={tech.id}>
+                          {tech.display_name}
+                        </option>
+                      ))}
+                    </select>
                     <p className="mt-1 text-xs text-gray-500">
-                      The ticket will be automatically assigned to your account
+                      {technicians.some(tech => !tech.is_owner)
+                        ? 'The technician will see this ticket in their assigned work'
+                        : 'Add technicians under Technicians to assign tickets to your team'}
                     </p>
                   </div>
                 )}
+
+                {userType === 'vendor' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Estimated Hours (Optional)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.25"
+                      min="0.25"
+                      {...register('estimated_hours', {
+                        setValueAs: (value) => value === '' ? undefined : Number(value)
+                      })}
+                      className="input-field"
+                      placeholder="e.g. 1.5"
+                    />
+                    {errors.estimated_hours && (
+                      <p className="mt-1 text-sm text-red-600">{errors.estimated_hours.message}</p>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Form Actions */}
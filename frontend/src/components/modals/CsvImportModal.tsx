@@ -0,0 +1,339 @@
+'use client'
+
+import React, { useRef, useState } from 'react'
+import {
+  XMarkIcon,
+  ArrowUpTrayIcon,
+  ArrowDownTrayIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  DocumentTextIcon
+} from '@heroicons/react/24/outline'
+import { getAuthHeaders, logApiCall } from '@/config/api'
+import { useToast } from '@/components/providers/ToastProvider'
+
+interface ImportRowError {
+  row: number
+  errors: string[]
+  [identifier: string]: unknown
+}
+
+interface ImportReport {
+  dry_run: boolean
+  total_rows: number
+  valid_rows: number
+  errors: ImportRowError[]
+  imported?: number
+}
+
+interface CsvImportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSuccess: () => void
+  title: string
+  endpoint: string
+  instructions: React.ReactNode
+  templateCsv: string
+  templateFileName: string
+  // Field in each row error that identifies the row, e.g. serial_number
+  identifierKey: string
+  identifierLabel: string
+  itemLabel: string
+  successHint?: string
+}
+
+type Step = 'upload' | 'review' | 'done'
+
+const MAX_CSV_SIZE_BYTES = 2 * 1024 * 1024
+
+/**
+ * Three step CSV import wizard: choose a file, review the server's dry run
+ * report, then import. Endpoints take { csv, dry_run } and return a per-row
+ * error report.
+ */
+export default function CsvImportModal({
+  isOpen,
+  onClose,
+  onSuccess,
+  title,
+  endpoint,
+  instructions,
+  templateCsv,
+  templateFileName,
+  identifierKey,
+  identifierLabel,
+  itemLabel,
+  successHint
+}: CsvImportModalProps) {
+  const { showToast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [step, setStep] = useState<Step>('upload')
+  const [fileName, setFileName] = useState('')
+  const [csv, setCsv] = useState('')
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reset = () => {
+    setStep('upload')
+    setFileName('')
+    setCsv('')
+    setReport(null)
+    setError(null)
+  }
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  const handleDownloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([templateCsv], { type: 'text/csv' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = templateFileName
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    if (file.size > MAX_CSV_SIZE_BYTES) {
+      setError('CSV files must be 2 MB or smaller')
+      return
+    }
+
+    setError(null)
+    setFileName(file.name)
+    setCsv(await file.text())
+  }
+
+  const submit = async (dryRun: boolean) => {
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      logApiCall('POST', endpoint, { dry_run: dryRun, file_name: fileName })
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ csv, dry_run: dryRun })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        // Rows changed since validation; show the fresh report
+        if (result.code === 'IMPORT_VALIDATION_FAILED' && report) {
+          setReport({ ...report, errors: result.errors || [], valid_rows: report.total_rows - (result.errors?.length || 0) })
+        }
+        throw new Error(result.message || 'Import failed')
+      }
+
+      setReport(result.data)
+
+      if (dryRun) {
+        setStep('review')
+      } else {
+        setStep('done')
+        showToast('success', result.message || 'Import complete')
+        onSuccess()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const hasErrors = !!report && report.errors.length > 0
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={handleClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+          <div className="flex items-center justify-between p-6 border-b border-gray-100 flex-shrink-0">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+              <p className="text-sm text-gray-600">
+                {step === 'upload' && 'Step 1 of 3 · Choose a file'}
+                {step === 'review' && 'Step 2 of 3 · Review validation results'}
+                {step === 'done' && 'Step 3 of 3 · Import complete'}
+              </p>
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="p-6 overflow-y-auto flex-1 space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {step === 'upload' && (
+              <>
+                <div className="text-sm text-gray-600 space-y-2">
+                  {instructions}
+                  <p>The file is checked before anything is saved, and rows are only imported if every row is valid.</p>
+                </div>
+
+                <button
+                  onClick={handleDownloadTemplate}
+                  className="btn-secondary flex items-center space-x-2 text-sm"
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4" />
+                  <span>Download Template</span>
+                </button>
+
+                <div
+                  onClick={() => fileInputRef.current?.click()}
+                  className="border-2 border-dashed border-gray-200 rounded-xl p-8 text-center cursor-pointer hover:border-red-300 transition-colors"
+                >
+                  {fileName ? (
+                    <div className="flex items-center justify-center space-x-2 text-gray-900">
+                      <DocumentTextIcon className="h-6 w-6 text-red-600" />
+                      <span className="font-medium">{fileName}</span>
+                    </div>
+                  ) : (
+                    <>
+                      <ArrowUpTrayIcon className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                      <p className="text-sm text-gray-600">Click to choose a CSV file</p>
+                    </>
+                  )}
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={handleFileSelected}
+                    className="hidden"
+                  />
+                </div>
+              </>
+            )}
+
+            {step === 'review' && report && (
+              <>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="bg-gray-50 rounded-lg p-4">
+                    <p className="text-sm text-gray-500">Rows</p>
+                    <p className="text-2xl font-bold text-gray-900">{report.total_rows}</p>
+                  </div>
+                  <div className="bg-green-50 rounded-lg p-4">
+                    <p className="text-sm text-green-700">Valid</p>
+                    <p className="text-2xl font-bold text-green-700">{report.valid_rows}</p>
+                  </div>
+                  <div className={`${hasErrors ? 'bg-red-50' : 'bg-gray-50'} rounded-lg p-4`}>
+                    <p className={`text-sm ${hasErrors ? 'text-red-700' : 'text-gray-500'}`}>With errors</p>
+                    <p className={`text-2xl font-bold ${hasErrors ? 'text-red-700' : 'text-gray-900'}`}>{report.errors.length}</p>
+                  </div>
+                </div>
+
+                {hasErrors ? (
+                  <>
+                    <div className="flex items-start space-x-2 text-sm text-red-700">
+                      <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+                      <p>Fix these rows in your file and choose it again. Nothing has been imported.</p>
+                    </div>
+                    <div className="border border-gray-100 rounded-lg overflow-hidden">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-2 text-left font-medium text-gray-500">Row</th>
+                            <th className="px-4 py-2 text-left font-medium text-gray-500">{identifierLabel}</th>
+                            <th className="px-4 py-2 text-left font-medium text-gray-500">Problems</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {report.errors.map((rowError) => (
+                            <tr key={rowError.row}>
+                              <td className="px-4 py-2 text-gray-900 align-top">{rowError.row}</td>
+                              <td className="px-4 py-2 text-gray-900 align-top">{String(rowError[identifierKey] ?? '—')}</td>
+                              <td className="px-4 py-2 text-red-700">
+                                <ul className="list-disc list-inside space-y-0.5">
+                                  {rowError.errors.map((message) => (
+                                    <li key={message}>{message}</li>
+                                  ))}
+                                </ul>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex items-center space-x-2 text-sm text-green-700">
+                    <CheckCircleIcon className="h-5 w-5" />
+                    <p>All rows are valid and ready to import.</p>
+                  </div>
+                )}
+              </>
+            )}
+
+            {step === 'done' && report && (
+              <div className="text-center py-6">
+                <CheckCircleIcon className="h-12 w-12 text-green-600 mx-auto mb-3" />
+                <p className="text-lg font-medium text-gray-900">
+                  {report.imported} {itemLabel}{report.imported === 1 ? '' : 's'} imported
+                </p>
+                {successHint && <p className="text-sm text-gray-600 mt-1">{successHint}</p>}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 p-6 border-t border-gray-100 flex-shrink-0">
+            {step === 'upload' && (
+              <>
+                <button onClick={handleClose} className="btn-secondary">
+                  Cancel
+                </button>
+                <button
+                  onClick={() => submit(true)}
+                  disabled={!csv || isSubmitting}
+                  className="btn-primary disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Validating...' : 'Validate File'}
+                </button>
+              </>
+            )}
+
+            {step === 'review' && (
+              <>
+                <button onClick={reset} className="btn-secondary" disabled={isSubmitting}>
+                  Choose Another File
+                </button>
+                <button
+                  onClick={() => submit(false)}
+                  disabled={hasErrors || isSubmitting}
+                  className="btn-primary disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Importing...' : `Import ${report?.valid_rows ?? 0} Row${report?.valid_rows === 1 ? '' : 's'}`}
+                </button>
+              </>
+            )}
+
+            {step === 'done' && (
+              <button onClick={handleClose} className="btn-primary">
+                Done
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { MapPinIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api'
+import { useToast } from '@/components/providers/ToastProvider'
+import { ClientSite, fetchSites } from '@/components/sites/sites'
+
+export interface PlacementInstance {
+  id: number
+  serial_number: string
+  client_id: number
+  client_name?: string
+  site_id?: number | null
+  zone_id?: number | null
+  location?: string | null
+}
+
+interface EquipmentPlacementModalProps {
+  instance: PlacementInstance | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+export default function EquipmentPlacementModal({ instance, onClose, onSaved }: EquipmentPlacementModalProps) {
+  const { success, error } = useToast()
+  const [sites, setSites] = useState<ClientSite[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [siteId, setSiteId] = useState('')
+  const [zoneId, setZoneId] = useState('')
+  const [location, setLocation] = useState('')
+
+  useEffect(() => {
+    if (!instance) return
+
+    setSiteId(instance.site_id ? String(instance.site_id) : '')
+    setZoneId(instance.zone_id ? String(instance.zone_id) : '')
+    setLocation(instance.location || '')
+
+    setIsLoading(true)
+    fetchSites(instance.client_id)
+      .then(setSites)
+      .catch(err => error(err instanceof Error ? err.message : 'Failed to load sites'))
+      .finally(() => setIsLoading(false))
+  }, [instance])
+
+  if (!instance) return null
+
+  const zones = sites.find(site => String(site.id) === siteId)?.zones || []
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const url = API_ENDPOINTS.CLIENT_SITES.PLACEMENT(instance.id)
+      logApiCall('PUT', url)
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          site_id: siteId ? parseInt(siteId) : null,
+          zone_id: zoneId ? parseInt(zoneId) : null,
+          location: location.trim() || null
+        })
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to update placement')
+      }
+      success('Placement updated')
+      onSaved()
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to update placement')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-lg">
+          <div className="flex items-center justify-between p-6 border-b border-gray-100">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <MapPinIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Place {instance.serial_number}</h2>
+                <p className="text-sm text-gray-600">
+                  Choose where this unit is installed{instance.client_name ? ` at ${instance.client_name}` : ''}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading sites...</p>
+            ) : sites.length === 0 ? (
+              <p className="text-sm text-gray-500">This client has no sites yet. Add one from the client&apos;s page first.</p>
+            ) : (
+              <>
+                <div>
+                  <label htmlFor="placement_site" className="block text-sm font-medium text-gray-700 mb-2">Site</label>
+                  <select
+                    id="placement_site"
+                    value={siteId}
+                    onChange={(e) => { setSiteId(e.target.value); setZoneId('') }}
+                    className="input-field"
+                  >
+                    <option value="">Not placed</option>
+                    {sites.map(site => (
+                      <option key={site.id} value={site.id}>{site.site_name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="placement_zone" className="block text-sm font-medium text-gray-700 mb-2">Building / Floor / Room</label>
+                  <select
+                    id="placement_zone"
+                    value={zoneId}
+                    onChange={(e) => setZoneId(e.target.value)}
+                    className="input-field"
+                    disabled={!siteId || zones.length === 0}
+                  >
+                    <option value="">{siteId && zones.length === 0 ? 'No zones at this site' : 'Anywhere on site'}</option>
+                    {zones.map(zone => (
+                      <option key={zone.id} value={zone.id}>{zone.path}</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+
+            <div>
+              <label htmlFor="placement_location" className="block text-sm font-medium text-gray-700 mb-2">Location details</label>
+              <input
+                id="placement_location"
+                type="text"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="e.g. Left of the east stairwell"
+                maxLength={500}
+                className="input-field"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-4 p-6 border-t border-gray-100 bg-gray-50">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isSaving}>
+              Cancel
+            </button>
+            <button type="button" onClick={handleSave} className="btn-primary" disabled={isSaving || isLoading}>
+              {isSaving ? 'Saving...' : 'Save Placement'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import React from 'react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import MaintenancePlanPanel from '../maintenance/MaintenancePlanPanel'
+
+interface InstanceScheduleModalProps {
+  instance: { id: number; serial_number: string } | null
+  onClose: () => void
+}
+
+export default function InstanceScheduleModal({ instance, onClose }: InstanceScheduleModalProps) {
+  if (!instance) return null
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+          <div className="flex items-center justify-between p-6 border-b border-gray-100 flex-shrink-0">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Maintenance Plan for {instance.serial_number}</h2>
+              <p className="text-sm text-gray-600">Schedules from the equipment type plus any set on this unit</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="p-6 overflow-y-auto flex-1">
+            <MaintenancePlanPanel target={{ equipment_instance_id: instance.id }} />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,278 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { XMarkIcon, CubeIcon } from '@heroicons/react/24/outline'
+import { useToast } from '../providers/ToastProvider'
+import { API_ENDPOINTS, getAuthHeaders } from '../../config/api'
+import { Part, PartCategory, PART_CATEGORY_LABELS } from '../maintenance/TicketPartsFields'
+
+interface PartFormData {
+  part_number: string
+  part_name: string
+  category: PartCategory
+  unit: string
+  unit_cost: string
+  reorder_level: string
+  quantity_on_hand: string
+}
+
+interface PartModalProps {
+  isOpen: boolean
+  // The part being edited; a new part is added when left out
+  part?: Part | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+const emptyForm: PartFormData = {
+  part_number: '',
+  part_name: '',
+  category: 'extinguishing_agent',
+  unit: 'each',
+  unit_cost: '0',
+  reorder_level: '0',
+  quantity_on_hand: '0'
+}
+
+export default function PartModal({ isOpen, part, onClose, onSaved }: PartModalProps) {
+  const { success, error } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [formData, setFormData] = useState<PartFormData>(emptyForm)
+  const [errors, setErrors] = useState<Partial<Record<keyof PartFormData, string>>>({})
+
+  useEffect(() => {
+    if (!isOpen) return
+    setErrors({})
+    setFormData(part
+      ? {
+          part_number: part.part_number,
+          part_name: part.part_name,
+          category: part.category,
+          unit: part.unit,
+          unit_cost: String(part.unit_cost),
+          reorder_level: String(part.reorder_level),
+          quantity_on_hand: String(part.quantity_on_hand)
+        }
+      : emptyForm)
+  }, [isOpen, part])
+
+  const validateForm = (): boolean => {
+    const newErrors: Partial<Record<keyof PartFormData, string>> = {}
+
+    if (!formData.part_number.trim()) {
+      newErrors.part_number = 'Part number is required'
+    }
+    if (!formData.part_name.trim()) {
+      newErrors.part_name = 'Part name is required'
+    }
+    if (!formData.unit.trim()) {
+      newErrors.unit = 'Unit is required'
+    }
+    for (const field of ['unit_cost', 'reorder_level', 'quantity_on_hand'] as const) {
+      const value = parseFloat(formData[field])
+      if (isNaN(value) || value < 0) {
+        newErrors[field] = 'Must be zero or more'
+      }
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const payload = {
+        part_number: formData.part_number.trim(),
+        part_name: formData.part_name.trim(),
+        category: formData.category,
+        unit: formData.unit.trim(),
+        unit_cost: parseFloat(formData.unit_cost),
+        reorder_level: parseFloat(formData.reorder_level),
+        // Stock on an existing part only changes through receipts and adjustments
+        ...(!part && { quantity_on_hand: parseFloat(formData.quantity_on_hand) })
+      }
+
+      const response = await fetch(part ? API_ENDPOINTS.PARTS.UPDATE(part.id) : API_ENDPOINTS.PARTS.CREATE, {
+        method: part ? 'PUT' : 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(payload)
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save part')
+      }
+
+      success(part ? 'Part updated' : 'Part added to catalog')
+      onClose()
+      onSaved()
+    } catch (err) {
+      console.error('Error saving part:', err)
+      error(err instanceof Error ? err.message : 'Failed to save part')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleInputChange = (field: keyof PartFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }))
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-xl max-h-[90vh] overflow-hidden flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-100 flex-shrink-0">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <CubeIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">{part ? 'Edit Part' : 'Add Part'}</h2>
+                <p className="text-sm text-gray-600">
+                  {part ? part.part_number : 'Add a spare part or consumable to your catalog'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto flex-1">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Part Number *</label>
+                <input
+                  type="text"
+                  value={formData.part_number}
+                  onChange={(e) => handleInputChange('part_number', e.target.value)}
+                  className="input-field"
+                  placeholder="e.g., CO2-5KG"
+                  disabled={loading}
+                />
+                {errors.part_number && <p className="mt-1 text-sm text-red-600">{errors.part_number}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <select
+                  value={formData.category}
+                  onChange={(e) => handleInputChange('category', e.target.value)}
+                  className="input-field"
+                  disabled={loading}
+                >
+                  {(Object.keys(PART_CATEGORY_LABELS) as PartCategory[]).map(category => (
+                    <option key={category} value={category}>{PART_CATEGORY_LABELS[category]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Part Name *</label>
+              <input
+                type="text"
+                value={formData.part_name}
+                onChange={(e) => handleInputChange('part_name', e.target.value)}
+                className="input-field"
+                placeholder="e.g., CO2 refill"
+                disabled={loading}
+              />
+              {errors.part_name && <p className="mt-1 text-sm text-red-600">{errors.part_name}</p>}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Unit *</label>
+                <input
+                  type="text"
+                  value={formData.unit}
+                  onChange={(e) => handleInputChange('unit', e.target.value)}
+                  className="input-field"
+                  placeholder="each, kg, litre"
+                  disabled={loading}
+                />
+                {errors.unit && <p className="mt-1 text-sm text-red-600">{errors.unit}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Unit Cost</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.unit_cost}
+                  onChange={(e) => handleInputChange('unit_cost', e.target.value)}
+                  className="input-field"
+                  disabled={loading}
+                />
+                {errors.unit_cost && <p className="mt-1 text-sm text-red-600">{errors.unit_cost}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reorder Level</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.reorder_level}
+                  onChange={(e) => handleInputChange('reorder_level', e.target.value)}
+                  className="input-field"
+                  disabled={loading}
+                />
+                {errors.reorder_level && <p className="mt-1 text-sm text-red-600">{errors.reorder_level}</p>}
+              </div>
+            </div>
+
+            {!part && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Opening Stock</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.quantity_on_hand}
+                  onChange={(e) => handleInputChange('quantity_on_hand', e.target.value)}
+                  className="input-field max-w-xs"
+                  disabled={loading}
+                />
+                {errors.quantity_on_hand && <p className="mt-1 text-sm text-red-600">{errors.quantity_on_hand}</p>}
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              You&apos;ll be notified when stock falls to the reorder level.
+            </p>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+              <button type="button" onClick={onClose} disabled={loading} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" disabled={loading} className="btn-primary disabled:opacity-50">
+                {loading ? 'Saving...' : part ? 'Save Changes' : 'Add Part'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
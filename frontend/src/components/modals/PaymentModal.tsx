@@ -0,0 +1,161 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { XMarkIcon, BanknotesIcon } from '@heroicons/react/24/outline'
+import { useToast } from '../providers/ToastProvider'
+import { API_ENDPOINTS } from '../../config/api'
+import { Invoice, PAYMENT_METHOD_LABELS, PaymentMethod, billingRequest, formatMoney } from '../billing/billing'
+
+interface PaymentModalProps {
+  invoice: Invoice | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+export default function PaymentModal({ invoice, onClose, onSaved }: PaymentModalProps) {
+  const { success, error } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [amount, setAmount] = useState('')
+  const [method, setMethod] = useState<PaymentMethod>('bank_transfer')
+  const [paymentDate, setPaymentDate] = useState('')
+  const [reference, setReference] = useState('')
+
+  useEffect(() => {
+    if (!invoice) return
+    setAmount(invoice.balance_due.toFixed(2))
+    setMethod('bank_transfer')
+    setPaymentDate(new Date().toLocaleDateString('en-CA'))
+    setReference('')
+  }, [invoice])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!invoice) return
+
+    const value = parseFloat(amount)
+    if (isNaN(value) || value <= 0) {
+      error('Enter the amount received')
+      return
+    }
+    if (value > invoice.balance_due) {
+      error(`Only ${formatMoney(invoice.balance_due)} is outstanding`)
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const updated = await billingRequest<Invoice>(API_ENDPOINTS.BILLING.INVOICE_PAYMENTS(invoice.id), 'POST', {
+        amount: value,
+        method,
+        payment_date: paymentDate || null,
+        reference: reference.trim() || null
+      })
+
+      success(updated.status === 'paid' ? `${invoice.invoice_number} paid in full` : 'Payment recorded')
+      onClose()
+      onSaved()
+    } catch (err) {
+      console.error('Error recording payment:', err)
+      error(err instanceof Error ? err.message : 'Failed to record payment')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!invoice) return null
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-100 flex-shrink-0">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <BanknotesIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Record Payment</h2>
+                <p className="text-sm text-gray-600">
+                  {invoice.invoice_number} · {formatMoney(invoice.balance_due)} outstanding
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto flex-1">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount *</label>
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="input-field"
+                  disabled={loading}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date Received</label>
+                <input
+                  type="date"
+                  value={paymentDate}
+                  onChange={(e) => setPaymentDate(e.target.value)}
+                  className="input-field"
+                  disabled={loading}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                  className="input-field"
+                  disabled={loading}
+                >
+                  {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(key => (
+                    <option key={key} value={key}>{PAYMENT_METHOD_LABELS[key]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+                <input
+                  type="text"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  className="input-field"
+                  placeholder="Transaction or cheque number"
+                  disabled={loading}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+              <button type="button" onClick={onClose} disabled={loading} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" disabled={loading} className="btn-primary disabled:opacity-50">
+                {loading ? 'Saving...' : 'Record Payment'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
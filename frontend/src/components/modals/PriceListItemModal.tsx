@@ -0,0 +1,206 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { XMarkIcon, CurrencyDollarIcon } from '@heroicons/react/24/outline'
+import { useToast } from '../providers/ToastProvider'
+import { API_ENDPOINTS } from '../../config/api'
+import { PriceListItem, RATE_TYPE_LABELS, RateType, billingRequest } from '../billing/billing'
+
+interface PriceListFormData {
+  rate_type: RateType
+  equipment_type: string
+  service_category: string
+  description: string
+  unit_price: string
+}
+
+interface PriceListItemModalProps {
+  isOpen: boolean
+  // The rate being edited; a new rate is added when left out
+  item?: PriceListItem | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+const emptyForm: PriceListFormData = {
+  rate_type: 'labour',
+  equipment_type: '',
+  service_category: '',
+  description: '',
+  unit_price: '0'
+}
+
+export default function PriceListItemModal({ isOpen, item, onClose, onSaved }: PriceListItemModalProps) {
+  const { success, error } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [formData, setFormData] = useState<PriceListFormData>(emptyForm)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setFormData(item
+      ? {
+          rate_type: item.rate_type,
+          equipment_type: item.equipment_type || '',
+          service_category: item.service_category || '',
+          description: item.description,
+          unit_price: String(item.unit_price)
+        }
+      : emptyForm)
+  }, [isOpen, item])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const unitPrice = parseFloat(formData.unit_price)
+    if (!formData.description.trim()) {
+      error('Description is required')
+      return
+    }
+    if (isNaN(unitPrice) || unitPrice < 0) {
+      error('Price must be zero or more')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      await billingRequest(
+        item ? API_ENDPOINTS.BILLING.PRICE_LIST_ITEM(item.id) : API_ENDPOINTS.BILLING.PRICE_LIST,
+        item ? 'PUT' : 'POST',
+        {
+          rate_type: formData.rate_type,
+          equipment_type: formData.equipment_type.trim() || null,
+          service_category: formData.rate_type === 'rental' ? null : formData.service_category.trim() || null,
+          description: formData.description.trim(),
+          unit_price: unitPrice
+        }
+      )
+
+      success(item ? 'Rate updated' : 'Rate added to price list')
+      onClose()
+      onSaved()
+    } catch (err) {
+      console.error('Error saving rate:', err)
+      error(err instanceof Error ? err.message : 'Failed to save rate')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleInputChange = (field: keyof PriceListFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-xl max-h-[90vh] overflow-hidden flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-100 flex-shrink-0">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <CurrencyDollarIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">{item ? 'Edit Rate' : 'Add Rate'}</h2>
+                <p className="text-sm text-gray-600">Used to price new quotes and invoices</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto flex-1">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Rate Type</label>
+                <select
+                  value={formData.rate_type}
+                  onChange={(e) => handleInputChange('rate_type', e.target.value)}
+                  className="input-field"
+                  disabled={loading}
+                >
+                  {(Object.keys(RATE_TYPE_LABELS) as RateType[]).map(type => (
+                    <option key={type} value={type}>{RATE_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Price *</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.unit_price}
+                  onChange={(e) => handleInputChange('unit_price', e.target.value)}
+                  className="input-field"
+                  disabled={loading}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description *</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => handleInputChange('description', e.target.value)}
+                className="input-field"
+                placeholder="e.g., Standard service labour"
+                disabled={loading}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Equipment Type</label>
+                <input
+                  type="text"
+                  value={formData.equipment_type}
+                  onChange={(e) => handleInputChange('equipment_type', e.target.value)}
+                  className="input-field"
+                  placeholder="Any"
+                  disabled={loading}
+                />
+              </div>
+              {formData.rate_type !== 'rental' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Service Category</label>
+                  <input
+                    type="text"
+                    value={formData.service_category}
+                    onChange={(e) => handleInputChange('service_category', e.target.value)}
+                    className="input-field"
+                    placeholder="Any"
+                    disabled={loading}
+                  />
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Leave a field blank for a rate that applies to all of them. The most specific matching rate is used.
+            </p>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+              <button type="button" onClick={onClose} disabled={loading} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" disabled={loading} className="btn-primary disabled:opacity-50">
+                {loading ? 'Saving...' : item ? 'Save Changes' : 'Add Rate'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -7,6 +7,8 @@ import { z } from 'zod';
 import { useToast } from '../providers/ToastProvider';
 import { API_ENDPOINTS, getAuthHeaders } from '../../config/api';
 import LoadingSpinner from '../ui/LoadingSpinner';
+import InspectionChecklistFields, { useTicketChecklist } from '../maintenance/InspectionChecklistFields';
+import TicketPartsFields, { useTicketParts } from '../maintenance/TicketPartsFields';
 import {
   XMarkIcon,
   CheckCircleIcon,
@@ -50,6 +52,7 @@ interface ResolveTicketModalProps {
   ticketNumber: string;
   ticketId: string; // For API call (could be numeric ID or ticket number)
   ticket?: {
+    id?: number;
     support_type: 'maintenance' | 'system' | 'user';
     equipment?: {
       id: number;
@@ -70,6 +73,20 @@ export default function ResolveTicketModal({
   const [isLoading, setIsLoading] = useState(false);
   const { showToast } = useToast();
 
+  // Inspection checklist applies to maintenance work on equipment
+  const checklistUrl = isOpen && ticket?.id && ticket.support_type === 'maintenance' && ticket.equipment
+    ? API_ENDPOINTS.MAINTENANCE_TICKETS.CHECKLIST(ticket.id)
+    : null;
+  const {
+    checklist,
+    answers,
+    setAnswers,
+    isLoading: isChecklistLoading,
+    isComplete: isChecklistComplete,
+    toPayload: checklistPayload
+  } = useTicketChecklist(checklistUrl);
+  const ticketParts = useTicketParts(isOpen);
+
   const {
     register,
     handleSubmit,
@@ -93,6 +110,16 @@ export default function ResolveTicketModal({
       return;
     }
 
+    if (!isChecklistComplete) {
+      showToast('error', 'Please record a result for every checklist item');
+      return;
+    }
+
+    if (!ticketParts.isValid) {
+      showToast('error', 'Please complete or remove each part line');
+      return;
+    }
+
     setIsLoading(true);
     
     try {
@@ -101,6 +128,8 @@ export default function ResolveTicketModal({
         actual_hours: data.actual_hours,
         ...(data.custom_maintenance_date && { custom_maintenance_date: data.custom_maintenance_date }),
         ...(data.custom_next_maintenance_date && { custom_next_maintenance_date: data.custom_next_maintenance_date }),
+        ...(checklist && { checklist_results: checklistPayload() }),
+        ...(ticketParts.lines.length > 0 && { parts: ticketParts.toPayload() }),
       };
 
       const response = await fetch(`${API_ENDPOINTS.MAINTENANCE_TICKETS.BASE}/${ticketId}/resolve`, {
@@ -120,6 +149,7 @@ export default function ResolveTicketModal({
       
       // Reset form and close modal
       reset();
+      ticketParts.reset();
       onClose();
       
       // Call onSuccess after modal closes
@@ -138,6 +168,7 @@ export default function ResolveTicketModal({
   const handleClose = () => {
     if (!isLoading) {
       reset();
+      ticketParts.reset();
       onClose();
     }
   };
@@ -220,6 +251,34 @@ export default function ResolveTicketModal({
                 </p>
               </div>
 
+              {/* Inspection Checklist */}
+              {isChecklistLoading && (
+                <div className="flex justify-center border-t border-gray-100 pt-6">
+                  <LoadingSpinner size="sm" />
+                </div>
+              )}
+              {checklist && (
+                <div className="border-t border-gray-100 pt-6">
+                  <InspectionChecklistFields
+                    checklist={checklist}
+                    answers={answers}
+                    onChange={setAnswers}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+
+              {/* Parts Used */}
+              <div className="border-t border-gray-100 pt-6">
+                <TicketPartsFields
+                  parts={ticketParts.parts}
+                  lines={ticketParts.lines}
+                  onChange={ticketParts.setLines}
+                  lineError={ticketParts.lineError}
+                  disabled={isLoading}
+                />
+              </div>
+
               {/* Maintenance Date Fields - Only for maintenance tickets */}
               {ticket?.support_type === 'maintenance' && ticket?.equipment && (
                 <div className="border-t border-gray-100 pt-6">
@@ -285,7 +344,7 @@ export default function ResolveTicketModal({
                 </button>
                 <button
                   type="submit"
-                  disabled={isLoading || Object.keys(errors).length > 0}
+                  disabled={isLoading || Object.keys(errors).length > 0 || !isChecklistComplete || !ticketParts.isValid}
                   className="btn-primary px-6 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isLoading ? (
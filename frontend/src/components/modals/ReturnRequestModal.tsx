@@ -0,0 +1,153 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api'
+import { useToast } from '@/components/providers/ToastProvider'
+
+export interface ReturnUnit {
+  id: number
+  serial_number: string
+}
+
+interface ReturnRequestModalProps {
+  units: ReturnUnit[]
+  isOpen: boolean
+  onClose: () => void
+  onSubmitted: () => void
+}
+
+export default function ReturnRequestModal({ units, isOpen, onClose, onSubmitted }: ReturnRequestModalProps) {
+  const { success, error } = useToast()
+  const [requestType, setRequestType] = useState<'return' | 'swap'>('swap')
+  const [reason, setReason] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setRequestType('swap')
+      setReason('')
+    }
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!reason.trim()) {
+      error('Please give a reason')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const url = API_ENDPOINTS.EQUIPMENT_RETURNS.CREATE
+      const payload = {
+        request_type: requestType,
+        instance_ids: units.map(unit => unit.id),
+        reason: reason.trim()
+      }
+      logApiCall('POST', url, payload)
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(payload)
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to submit request')
+      }
+      success(`Request ${result.data.return_number} sent to your vendor`)
+      onSubmitted()
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to submit request')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <form onSubmit={handleSubmit} className="modal-content max-w-lg">
+          <div className="flex items-center justify-between p-6 border-b border-gray-100">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <ArrowPathIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Return or Swap Equipment</h2>
+                <p className="text-sm text-gray-600">
+                  {units.map(unit => unit.serial_number).join(', ')}
+                </p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">What do you need?</span>
+              <div className="space-y-2">
+                <label className="flex items-start space-x-3 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="request_type"
+                    checked={requestType === 'swap'}
+                    onChange={() => setRequestType('swap')}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium text-gray-900">Swap</span> – replace {units.length === 1 ? 'this unit' : 'these units'} with working ones
+                  </span>
+                </label>
+                <label className="flex items-start space-x-3 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="request_type"
+                    checked={requestType === 'return'}
+                    onChange={() => setRequestType('return')}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium text-gray-900">Return</span> – send {units.length === 1 ? 'it' : 'them'} back without a replacement
+                  </span>
+                </label>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="return_reason" className="block text-sm font-medium text-gray-700 mb-2">Reason *</label>
+              <textarea
+                id="return_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={4}
+                maxLength={2000}
+                placeholder="e.g. Pressure gauge reads empty after the last inspection"
+                className="input-field"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-4 p-6 border-t border-gray-100 bg-gray-50">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isSaving}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isSaving}>
+              {isSaving ? 'Sending...' : 'Send Request'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
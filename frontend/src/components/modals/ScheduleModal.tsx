@@ -0,0 +1,282 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { XMarkIcon, CalendarDaysIcon } from '@heroicons/react/24/outline'
+import { useToast } from '../providers/ToastProvider'
+import { API_ENDPOINTS, getAuthHeaders } from '../../config/api'
+
+export interface MaintenanceSchedule {
+  id: number
+  equipment_id: number | null
+  equipment_instance_id: number | null
+  schedule_name: string
+  category: string
+  interval_months: number
+  lead_days: number
+  is_active: boolean
+}
+
+export type ScheduleTarget = { equipment_id: number } | { equipment_instance_id: number }
+
+// Common fire safety schedules offered as starting points
+const SCHEDULE_PRESETS = [
+  { schedule_name: 'Monthly Visual Check', category: 'Visual Inspection', interval_months: 1 },
+  { schedule_name: 'Annual Service', category: 'Annual Service', interval_months: 12 },
+  { schedule_name: '5-Year Hydrostatic Test', category: 'Hydrostatic Test', interval_months: 60 },
+  { schedule_name: '10-Year Replacement', category: 'Replacement', interval_months: 120 }
+]
+
+interface ScheduleModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved: () => void
+  target: ScheduleTarget
+  schedule?: MaintenanceSchedule | null
+  // Type-level categories offered when adding an instance override
+  suggestedCategories?: string[]
+}
+
+export default function ScheduleModal({ isOpen, onClose, onSaved, target, schedule, suggestedCategories = [] }: ScheduleModalProps) {
+  const { showToast, error } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [scheduleName, setScheduleName] = useState('')
+  const [category, setCategory] = useState('')
+  const [intervalMonths, setIntervalMonths] = useState('12')
+  const [leadDays, setLeadDays] = useState('7')
+  const [isActive, setIsActive] = useState(true)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const isEditing = !!schedule
+  const isInstance = 'equipment_instance_id' in target
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setScheduleName(schedule?.schedule_name ?? '')
+    setCategory(schedule?.category ?? '')
+    setIntervalMonths(String(schedule?.interval_months ?? 12))
+    setLeadDays(String(schedule?.lead_days ?? 7))
+    setIsActive(schedule?.is_active ?? true)
+    setFormError(null)
+  }, [isOpen, schedule])
+
+  const applyPreset = (preset: typeof SCHEDULE_PRESETS[number]) => {
+    setScheduleName(preset.schedule_name)
+    setCategory(preset.category)
+    setIntervalMonths(String(preset.interval_months))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const interval = parseInt(intervalMonths)
+    const lead = parseInt(leadDays)
+
+    if (!scheduleName.trim()) {
+      setFormError('Schedule name is required')
+      return
+    }
+    if (!category.trim()) {
+      setFormError('Ticket category is required')
+      return
+    }
+    if (isNaN(interval) || interval < 1 || interval > 240) {
+      setFormError('Interval must be between 1 and 240 months')
+      return
+    }
+    if (isNaN(lead) || lead < 0 || lead > 90) {
+      setFormError('Lead time must be between 0 and 90 days')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const response = await fetch(
+        isEditing ? API_ENDPOINTS.MAINTENANCE_PLANS.UPDATE(schedule!.id) : API_ENDPOINTS.MAINTENANCE_PLANS.CREATE,
+        {
+          method: isEditing ? 'PUT' : 'POST',
+          headers: getAuthHeaders(),
+          body: JSON.stringify({
+            ...(!isEditing && { ...target, category }),
+            schedule_name: scheduleName,
+            interval_months: interval,
+            lead_days: lead,
+            is_active: isActive
+          })
+        }
+      )
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save schedule')
+      }
+
+      showToast('success', isEditing ? 'Schedule updated' : 'Schedule added')
+      onClose()
+      onSaved()
+    } catch (err) {
+      console.error('Error saving schedule:', err)
+      error(err instanceof Error ? err.message : 'Failed to save schedule')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-xl max-h-[90vh] overflow-hidden flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-100 flex-shrink-0">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <CalendarDaysIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">{isEditing ? 'Edit Schedule' : 'Add Schedule'}</h2>
+                <p className="text-sm text-gray-600">
+                  {isInstance
+                    ? 'Applies to this unit only and replaces a type schedule with the same category'
+                    : 'Applies to every instance of this equipment type'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 overflow-y-auto flex-1">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {!isEditing && (
+                <div className="flex flex-wrap gap-2">
+                  {SCHEDULE_PRESETS.map(preset => (
+                    <button
+                      key={preset.category}
+                      type="button"
+                      onClick={() => applyPreset(preset)}
+                      className="px-3 py-1 text-xs font-medium rounded-full border border-gray-200 text-gray-700 hover:border-red-300 hover:text-red-700"
+                    >
+                      {preset.schedule_name}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="schedule_name" className="block text-sm font-medium text-gray-700 mb-2">
+                  Schedule Name *
+                </label>
+                <input
+                  type="text"
+                  id="schedule_name"
+                  value={scheduleName}
+                  onChange={(e) => setScheduleName(e.target.value)}
+                  className="input-field"
+                  placeholder="e.g. Annual Service"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="schedule_category" className="block text-sm font-medium text-gray-700 mb-2">
+                  Ticket Category *
+                </label>
+                <input
+                  type="text"
+                  id="schedule_category"
+                  list="schedule-categories"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  disabled={isEditing}
+                  className="input-field disabled:bg-gray-50"
+                  placeholder="e.g. Hydrostatic Test"
+                />
+                <datalist id="schedule-categories">
+                  {suggestedCategories.map(value => (
+                    <option key={value} value={value} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="interval_months" className="block text-sm font-medium text-gray-700 mb-2">
+                    Every (months) *
+                  </label>
+                  <input
+                    type="number"
+                    id="interval_months"
+                    min={1}
+                    max={240}
+                    value={intervalMonths}
+                    onChange={(e) => setIntervalMonths(e.target.value)}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="lead_days" className="block text-sm font-medium text-gray-700 mb-2">
+                    Raise ticket (days before)
+                  </label>
+                  <input
+                    type="number"
+                    id="lead_days"
+                    min={0}
+                    max={90}
+                    value={leadDays}
+                    onChange={(e) => setLeadDays(e.target.value)}
+                    className="input-field"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={isActive}
+                  onChange={(e) => setIsActive(e.target.checked)}
+                  className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+                />
+                <span>
+                  Active{isInstance && ' (an inactive instance schedule switches the matching type schedule off for this unit)'}
+                </span>
+              </label>
+
+              {formError && (
+                <p className="text-sm text-red-600">{formError}</p>
+              )}
+
+              {/* Actions */}
+              <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-100">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={loading}
+                  className="btn-secondary"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="btn-primary"
+                >
+                  {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Schedule'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,475 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { XMarkIcon, DocumentCheckIcon } from '@heroicons/react/24/outline'
+import { useToast } from '../providers/ToastProvider'
+import { API_ENDPOINTS, getAuthHeaders } from '../../config/api'
+import {
+  CoveredInstance,
+  ServiceContract,
+  ServiceContractDetail,
+  TICKET_PRIORITIES,
+  TicketPriority
+} from '../contracts/serviceContracts'
+
+interface ClientOption {
+  id: number
+  name: string
+}
+
+interface TargetRow {
+  enabled: boolean
+  response_hours: string
+  resolution_hours: string
+}
+
+interface ContractFormData {
+  client_id: string
+  contract_name: string
+  start_date: string
+  end_date: string
+  covers_all_equipment: boolean
+  visits_per_year: string
+  is_active: boolean
+  notes: string
+}
+
+interface ServiceContractModalProps {
+  isOpen: boolean
+  // The contract being edited; a new contract is added when left out
+  contract?: ServiceContract | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+const emptyForm = (): ContractFormData => ({
+  client_id: '',
+  contract_name: '',
+  start_date: new Date().toLocaleDateString('en-CA'),
+  end_date: '',
+  covers_all_equipment: true,
+  visits_per_year: '1',
+  is_active: true,
+  notes: ''
+})
+
+const defaultTargets: Record<TicketPriority, TargetRow> = {
+  high: { enabled: true, response_hours: '4', resolution_hours: '24' },
+  normal: { enabled: true, response_hours: '24', resolution_hours: '72' },
+  low: { enabled: true, response_hours: '48', resolution_hours: '168' }
+}
+
+const PRIORITY_LABELS: Record<TicketPriority, string> = {
+  high: 'High',
+  normal: 'Normal',
+  low: 'Low'
+}
+
+export default function ServiceContractModal({ isOpen, contract, onClose, onSaved }: ServiceContractModalProps) {
+  const { success, error } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [formData, setFormData] = useState<ContractFormData>(emptyForm)
+  const [targets, setTargets] = useState<Record<TicketPriority, TargetRow>>(defaultTargets)
+  const [clients, setClients] = useState<ClientOption[]>([])
+  const [equipment, setEquipment] = useState<CoveredInstance[]>([])
+  const [selectedIds, setSelectedIds] = useState<number[]>([])
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (!isOpen) return
+    setErrors({})
+
+    if (!contract) {
+      setFormData(emptyForm())
+      setTargets(defaultTargets)
+      setSelectedIds([])
+      setEquipment([])
+      fetch(API_ENDPOINTS.REPORTS.CLIENTS_DROPDOWN, { headers: getAuthHeaders() })
+        .then(response => response.json())
+        .then(data => setClients(data.data || []))
+        .catch(err => console.error('Error fetching clients:', err))
+      return
+    }
+
+    setFormData({
+      client_id: String(contract.client_id),
+      contract_name: contract.contract_name,
+      start_date: contract.start_date,
+      end_date: contract.end_date || '',
+      covers_all_equipment: contract.covers_all_equipment,
+      visits_per_year: String(contract.visits_per_year),
+      is_active: contract.is_active,
+      notes: contract.notes || ''
+    })
+    setTargets(TICKET_PRIORITIES.reduce((rows, priority) => {
+      const target = contract.sla_targets.find(t => t.priority === priority)
+      rows[priority] = target
+        ? { enabled: true, response_hours: String(target.response_hours), resolution_hours: String(target.resolution_hours) }
+        : { ...defaultTargets[priority], enabled: false }
+      return rows
+    }, {} as Record<TicketPriority, TargetRow>))
+
+    // The list row doesn't carry the named equipment
+    fetch(API_ENDPOINTS.SERVICE_CONTRACTS.BY_ID(contract.id), { headers: getAuthHeaders() })
+      .then(response => response.json())
+      .then(data => setSelectedIds(((data.data as ServiceContractDetail)?.equipment || []).map(item => item.id)))
+      .catch(err => console.error('Error fetching contract:', err))
+  }, [isOpen, contract])
+
+  useEffect(() => {
+    if (!isOpen || !formData.client_id) return
+    fetch(API_ENDPOINTS.SERVICE_CONTRACTS.CLIENT_EQUIPMENT(formData.client_id), { headers: getAuthHeaders() })
+      .then(response => response.json())
+      .then(data => setEquipment(data.data || []))
+      .catch(err => console.error('Error fetching client equipment:', err))
+  }, [isOpen, formData.client_id])
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.client_id) {
+      newErrors.client_id = 'Client is required'
+    }
+    if (!formData.contract_name.trim()) {
+      newErrors.contract_name = 'Contract name is required'
+    }
+    if (!formData.start_date) {
+      newErrors.start_date = 'Start date is required'
+    }
+    if (formData.end_date && formData.end_date < formData.start_date) {
+      newErrors.end_date = 'End date must be on or after the start date'
+    }
+    const visits = parseInt(formData.visits_per_year)
+    if (isNaN(visits) || visits < 0 || visits > 52) {
+      newErrors.visits_per_year = 'Must be between 0 and 52'
+    }
+    if (!formData.covers_all_equipment && selectedIds.length === 0) {
+      newErrors.equipment = 'Choose the equipment the contract covers'
+    }
+    for (const priority of TICKET_PRIORITIES) {
+      const row = targets[priority]
+      if (!row.enabled) continue
+      const response = parseInt(row.response_hours)
+      const resolution = parseInt(row.resolution_hours)
+      if (isNaN(response) || response < 1 || isNaN(resolution) || resolution < 1) {
+        newErrors[`target_${priority}`] = 'Targets must be at least 1 hour'
+      } else if (resolution < response) {
+        newErrors[`target_${priority}`] = "Resolution can't be sooner than response"
+      }
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const payload = {
+        client_id: parseInt(formData.client_id),
+        contract_name: formData.contract_name.trim(),
+        start_date: formData.start_date,
+        end_date: formData.end_date || null,
+        covers_all_equipment: formData.covers_all_equipment,
+        equipment_instance_ids: formData.covers_all_equipment ? [] : selectedIds,
+        visits_per_year: parseInt(formData.visits_per_year),
+        is_active: formData.is_active,
+        notes: formData.notes.trim() || null,
+        sla_targets: TICKET_PRIORITIES.filter(priority => targets[priority].enabled).map(priority => ({
+          priority,
+          response_hours: parseInt(targets[priority].response_hours),
+          resolution_hours: parseInt(targets[priority].resolution_hours)
+        }))
+      }
+
+      const response = await fetch(
+        contract ? API_ENDPOINTS.SERVICE_CONTRACTS.UPDATE(contract.id) : API_ENDPOINTS.SERVICE_CONTRACTS.CREATE,
+        {
+          method: contract ? 'PUT' : 'POST',
+          headers: getAuthHeaders(),
+          body: JSON.stringify(payload)
+        }
+      )
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save service contract')
+      }
+
+      success(contract ? 'Service contract updated' : 'Service contract added')
+      onClose()
+      onSaved()
+    } catch (err) {
+      console.error('Error saving service contract:', err)
+      error(err instanceof Error ? err.message : 'Failed to save service contract')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleInputChange = <K extends keyof ContractFormData>(field: K, value: ContractFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const handleClientChange = (clientId: string) => {
+    handleInputChange('client_id', clientId)
+    setSelectedIds([])
+    setEquipment([])
+  }
+
+  const updateTarget = (priority: TicketPriority, field: keyof TargetRow, value: string | boolean) => {
+    setTargets(prev => ({ ...prev, [priority]: { ...prev[priority], [field]: value } }))
+  }
+
+  const toggleInstance = (instanceId: number) => {
+    setSelectedIds(prev => prev.includes(instanceId) ? prev.filter(id => id !== instanceId) : [...prev, instanceId])
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-100 flex-shrink-0">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <DocumentCheckIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  {contract ? 'Edit Service Contract' : 'Add Service Contract'}
+                </h2>
+                <p className="text-sm text-gray-600">
+                  {contract ? contract.client_name : 'Agree coverage, visits and SLA targets with a client'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto flex-1">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Client *</label>
+                {contract ? (
+                  <input type="text" value={contract.client_name} className="input-field" disabled />
+                ) : (
+                  <select
+                    value={formData.client_id}
+                    onChange={(e) => handleClientChange(e.target.value)}
+                    className="input-field"
+                    disabled={loading}
+                  >
+                    <option value="">Select a client</option>
+                    {clients.map(client => (
+                      <option key={client.id} value={client.id}>{client.name}</option>
+                    ))}
+                  </select>
+                )}
+                {errors.client_id && <p className="mt-1 text-sm text-red-600">{errors.client_id}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Contract Name *</label>
+                <input
+                  type="text"
+                  value={formData.contract_name}
+                  onChange={(e) => handleInputChange('contract_name', e.target.value)}
+                  className="input-field"
+                  placeholder="e.g., Annual maintenance 2026"
+                  disabled={loading}
+                />
+                {errors.contract_name && <p className="mt-1 text-sm text-red-600">{errors.contract_name}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start Date *</label>
+                <input
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => handleInputChange('start_date', e.target.value)}
+                  className="input-field"
+                  disabled={loading}
+                />
+                {errors.start_date && <p className="mt-1 text-sm text-red-600">{errors.start_date}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+                <input
+                  type="date"
+                  value={formData.end_date}
+                  onChange={(e) => handleInputChange('end_date', e.target.value)}
+                  className="input-field"
+                  disabled={loading}
+                />
+                {errors.end_date && <p className="mt-1 text-sm text-red-600">{errors.end_date}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Visits per Year</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="52"
+                  value={formData.visits_per_year}
+                  onChange={(e) => handleInputChange('visits_per_year', e.target.value)}
+                  className="input-field"
+                  disabled={loading}
+                />
+                {errors.visits_per_year && <p className="mt-1 text-sm text-red-600">{errors.visits_per_year}</p>}
+              </div>
+            </div>
+
+            {/* Coverage */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Covered Equipment</label>
+              <div className="flex items-center space-x-6 text-sm text-gray-700">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    checked={formData.covers_all_equipment}
+                    onChange={() => handleInputChange('covers_all_equipment', true)}
+                    disabled={loading}
+                  />
+                  <span>All of the client&apos;s equipment</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    checked={!formData.covers_all_equipment}
+                    onChange={() => handleInputChange('covers_all_equipment', false)}
+                    disabled={loading}
+                  />
+                  <span>Selected equipment</span>
+                </label>
+              </div>
+              {!formData.covers_all_equipment && (
+                <div className="mt-3 border border-gray-200 rounded-lg max-h-48 overflow-y-auto divide-y divide-gray-100">
+                  {equipment.length === 0 ? (
+                    <p className="px-3 py-4 text-sm text-gray-500 text-center">
+                      {formData.client_id ? 'No equipment is assigned to this client.' : 'Choose a client first.'}
+                    </p>
+                  ) : (
+                    equipment.map(item => (
+                      <label key={item.id} className="flex items-center space-x-3 px-3 py-2 text-sm hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(item.id)}
+                          onChange={() => toggleInstance(item.id)}
+                          disabled={loading}
+                        />
+                        <span className="text-gray-900">{item.equipment_name}</span>
+                        <span className="text-gray-500">{item.serial_number}</span>
+                        {item.location && <span className="text-gray-400">· {item.location}</span>}
+                      </label>
+                    ))
+                  )}
+                </div>
+              )}
+              {errors.equipment && <p className="mt-1 text-sm text-red-600">{errors.equipment}</p>}
+            </div>
+
+            {/* SLA targets */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">SLA Targets (hours)</label>
+              <div className="space-y-2">
+                {TICKET_PRIORITIES.map(priority => (
+                  <div key={priority}>
+                    <div className="grid grid-cols-3 gap-3 items-center">
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={targets[priority].enabled}
+                          onChange={(e) => updateTarget(priority, 'enabled', e.target.checked)}
+                          disabled={loading}
+                        />
+                        <span>{PRIORITY_LABELS[priority]} priority</span>
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={targets[priority].response_hours}
+                        onChange={(e) => updateTarget(priority, 'response_hours', e.target.value)}
+                        className="input-field"
+                        placeholder="Response"
+                        title="Respond within (hours)"
+                        disabled={loading || !targets[priority].enabled}
+                      />
+                      <input
+                        type="number"
+                        min="1"
+                        value={targets[priority].resolution_hours}
+                        onChange={(e) => updateTarget(priority, 'resolution_hours', e.target.value)}
+                        className="input-field"
+                        placeholder="Resolution"
+                        title="Resolve within (hours)"
+                        disabled={loading || !targets[priority].enabled}
+                      />
+                    </div>
+                    {errors[`target_${priority}`] && (
+                      <p className="mt-1 text-sm text-red-600">{errors[`target_${priority}`]}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                Respond within / resolve within, counted from when the ticket is raised.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => handleInputChange('notes', e.target.value)}
+                className="input-field"
+                rows={2}
+                maxLength={2000}
+                disabled={loading}
+              />
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.is_active}
+                onChange={(e) => handleInputChange('is_active', e.target.checked)}
+                disabled={loading}
+              />
+              <span>Contract is active</span>
+            </label>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
+              <button type="button" onClick={onClose} disabled={loading} className="btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" disabled={loading} className="btn-primary disabled:opacity-50">
+                {loading ? 'Saving...' : contract ? 'Save Changes' : 'Add Contract'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
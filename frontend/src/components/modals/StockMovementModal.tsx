@@ -0,0 +1,238 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { XMarkIcon, ArrowsUpDownIcon } from '@heroicons/react/24/outline'
+import { useToast } from '../providers/ToastProvider'
+import { API_ENDPOINTS, getAuthHeaders } from '../../config/api'
+import { Part } from '../maintenance/TicketPartsFields'
+
+type MovementType = 'received' | 'adjusted' | 'used'
+
+interface StockMovement {
+  id: number
+  movement_type: MovementType
+  quantity: number
+  quantity_after: number
+  unit_cost: number | null
+  ticket_number: string | null
+  notes: string | null
+  recorded_by_name: string | null
+  created_at: string
+}
+
+interface StockMovementModalProps {
+  part: Part | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+const MOVEMENT_LABELS: Record<MovementType, string> = {
+  received: 'Received',
+  adjusted: 'Adjusted',
+  used: 'Used'
+}
+
+export default function StockMovementModal({ part, onClose, onSaved }: StockMovementModalProps) {
+  const { success, error } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [movementType, setMovementType] = useState<'received' | 'adjusted'>('received')
+  const [quantity, setQuantity] = useState('')
+  const [unitCost, setUnitCost] = useState('')
+  const [notes, setNotes] = useState('')
+  const [movements, setMovements] = useState<StockMovement[]>([])
+
+  const fetchMovements = async (partId: number) => {
+    try {
+      const response = await fetch(API_ENDPOINTS.PARTS.BY_ID(partId), { headers: getAuthHeaders() })
+      if (!response.ok) throw new Error('Failed to fetch stock history')
+
+      const data = await response.json()
+      setMovements(data.data.movements || [])
+    } catch (err) {
+      console.error('Error fetching stock history:', err)
+      setMovements([])
+    }
+  }
+
+  useEffect(() => {
+    if (!part) return
+    setMovementType('received')
+    setQuantity('')
+    setUnitCost(String(part.unit_cost))
+    setNotes('')
+    fetchMovements(part.id)
+  }, [part])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!part) return
+
+    const amount = parseFloat(quantity)
+    if (isNaN(amount) || amount === 0 || (movementType === 'received' && amount < 0)) {
+      error(movementType === 'received' ? 'Enter the quantity received' : 'Enter how much to add or remove')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const response = await fetch(API_ENDPOINTS.PARTS.STOCK(part.id), {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          movement_type: movementType,
+          quantity: amount,
+          ...(movementType === 'received' && unitCost !== '' && { unit_cost: parseFloat(unitCost) }),
+          notes: notes.trim() || null
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update stock')
+      }
+
+      success(movementType === 'received' ? 'Stock received' : 'Stock adjusted')
+      onClose()
+      onSaved()
+    } catch (err) {
+      console.error('Error updating stock:', err)
+      error(err instanceof Error ? err.message : 'Failed to update stock')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!part) return null
+
+  return (
+    <div className="modal-container">
+      <div className="modal-backdrop" onClick={onClose} />
+
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="modal-content max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-100 flex-shrink-0">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-red-50 rounded-xl">
+                <ArrowsUpDownIcon className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Stock: {part.part_name}</h2>
+                <p className="text-sm text-gray-600">
+                  {part.part_number} · {part.quantity_on_hand} {part.unit} on hand
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="p-6 overflow-y-auto flex-1 space-y-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="flex space-x-4">
+                {(['received', 'adjusted'] as const).map(type => (
+                  <label key={type} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={movementType === type}
+                      onChange={() => setMovementType(type)}
+                      disabled={loading}
+                    />
+                    <span>{type === 'received' ? 'Receive delivery' : 'Correct count'}</span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {movementType === 'received' ? `Quantity received (${part.unit})` : `Change (${part.unit})`}
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min={movementType === 'received' ? '0.01' : undefined}
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                    className="input-field"
+                    placeholder={movementType === 'received' ? 'e.g., 10' : 'e.g., -2 for a shortfall'}
+                    disabled={loading}
+                  />
+                </div>
+                {movementType === 'received' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Unit Cost</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={unitCost}
+                      onChange={(e) => setUnitCost(e.target.value)}
+                      className="input-field"
+                      disabled={loading}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <input
+                  type="text"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="input-field"
+                  placeholder={movementType === 'received' ? 'Supplier or delivery reference' : 'Reason for the correction'}
+                  disabled={loading}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <button type="submit" disabled={loading} className="btn-primary disabled:opacity-50">
+                  {loading ? 'Saving...' : movementType === 'received' ? 'Receive Stock' : 'Adjust Stock'}
+                </button>
+              </div>
+            </form>
+
+            <div className="border-t border-gray-100 pt-4">
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Recent Movements</h3>
+              {movements.length === 0 ? (
+                <p className="text-sm text-gray-500">No stock movements yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+                  {movements.map(movement => (
+                    <li key={movement.id} className="flex items-start justify-between px-4 py-2">
+                      <div>
+                        <p className="text-sm text-gray-900">
+                          {MOVEMENT_LABELS[movement.movement_type]}
+                          {movement.ticket_number && ` on ${movement.ticket_number}`}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {[new Date(movement.created_at).toLocaleString(), movement.recorded_by_name, movement.notes]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className={`text-sm font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                        </p>
+                        <p className="text-xs text-gray-500">{movement.quantity_after} after</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import { useToast } from '@/components/providers/ToastProvider';
+import { ArrowPathIcon, MoonIcon, InboxStackIcon } from '@heroicons/react/24/outline';
+
+type NotificationEventType =
+  | 'ticket_created'
+  | 'ticket_updated'
+  | 'ticket_resolved'
+  | 'maintenance_due'
+  | 'equipment_expiry'
+  | 'assignment'
+  | 'account'
+  | 'low_stock'
+  | 'billing'
+  | 'sla';
+
+type ChannelField = 'in_app_enabled' | 'email_enabled' | 'sms_enabled';
+
+export interface NotificationPreference {
+  event_type: NotificationEventType;
+  in_app_enabled: boolean;
+  email_enabled: boolean;
+  sms_enabled: boolean;
+}
+
+export interface NotificationSettings {
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string | null;
+  email_digest_enabled: boolean;
+  email_digest_hour: number;
+}
+
+const EVENT_LABELS: Record<NotificationEventType, { label: string; description: string }> = {
+  ticket_created: { label: 'New service requests', description: 'A ticket is opened, including high-priority alerts' },
+  ticket_updated: { label: 'Ticket updates', description: 'Status changes and technician notes' },
+  ticket_resolved: { label: 'Resolved tickets', description: 'Work on a ticket is completed' },
+  maintenance_due: { label: 'Maintenance due', description: 'Upcoming and overdue maintenance' },
+  equipment_expiry: { label: 'Equipment expiry', description: 'Certifications about to expire' },
+  assignment: { label: 'Equipment assignments & status', description: 'Equipment assigned to you or changing status' },
+  account: { label: 'Account updates', description: 'Client and account changes' },
+  low_stock: { label: 'Low stock', description: 'Spare parts at or below their reorder level' },
+  billing: { label: 'Quotes & invoices', description: 'Quotes sent or answered, invoices issued and paid' },
+  sla: { label: 'SLA alerts', description: 'Contract tickets nearing or missing their response and resolution targets' },
+};
+
+const CHANNELS: { field: ChannelField; label: string }[] = [
+  { field: 'in_app_enabled', label: 'In-app' },
+  { field: 'email_enabled', label: 'Email' },
+  { field: 'sms_enabled', label: 'SMS' },
+];
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+/**
+ * Lets the signed-in user choose which notifications reach them on which
+ * channel, set quiet hours and switch emails to a daily digest
+ */
+export default function NotificationPreferencesPanel() {
+  const { success, error } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const timeZones = useMemo(() => {
+    try {
+      return Intl.supportedValuesOf('timeZone');
+    } catch {
+      return [browserTimeZone()];
+    }
+  }, []);
+
+  const applyResponse = (data: { preferences: NotificationPreference[]; settings: NotificationSettings }) => {
+    setPreferences(data.preferences);
+    setSettings({ ...data.settings, timezone: data.settings.timezone || browserTimeZone() });
+    setQuietHoursEnabled(Boolean(data.settings.quiet_hours_start && data.settings.quiet_hours_end));
+  };
+
+  const fetchPreferences = useCallback(async () => {
+    try {
+      logApiCall('GET', API_ENDPOINTS.PROFILE.NOTIFICATION_PREFERENCES);
+      const response = await fetch(API_ENDPOINTS.PROFILE.NOTIFICATION_PREFERENCES, { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch notification preferences');
+
+      const result = await response.json();
+      applyResponse(result.data);
+    } catch (err) {
+      console.error('Error fetching notification preferences:', err);
+      error('Failed to load notification preferences');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [error]);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const toggle = (eventType: NotificationEventType, field: ChannelField) => {
+    setPreferences(prev => prev.map(p => (p.event_type === eventType ? { ...p, [field]: !p[field] } : p)));
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setIsSaving(true);
+    try {
+      logApiCall('PUT', API_ENDPOINTS.PROFILE.NOTIFICATION_PREFERENCES);
+      const response = await fetch(API_ENDPOINTS.PROFILE.NOTIFICATION_PREFERENCES, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          preferences,
+          settings: {
+            ...settings,
+            quiet_hours_start: quietHoursEnabled ? settings.quiet_hours_start || '22:00' : null,
+            quiet_hours_end: quietHoursEnabled ? settings.quiet_hours_end || '07:00' : null,
+          },
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save notification preferences');
+      }
+
+      applyResponse(result.data);
+      success(result.message || 'Notification preferences saved');
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to save notification preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading notification preferences...</p>;
+  }
+
+  if (!settings) {
+    return <p className="text-sm text-gray-500">Notification preferences are unavailable.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">What You&apos;re Notified About</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Choose how each kind of update reaches you. SMS also needs a phone number and SMS turned on for your account.
+        </p>
+
+        <div className="overflow-x-auto border border-gray-100 rounded-xl">
+          <table className="min-w-full divide-y divide-gray-100">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                {CHANNELS.map(channel => (
+                  <th key={channel.field} className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {channel.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 bg-white">
+              {preferences.map(preference => (
+                <tr key={preference.event_type}>
+                  <td className="px-4 py-3">
+                    <p className="text-sm font-medium text-gray-900">{EVENT_LABELS[preference.event_type].label}</p>
+                    <p className="text-xs text-gray-500">{EVENT_LABELS[preference.event_type].description}</p>
+                  </td>
+                  {CHANNELS.map(channel => (
+                    <td key={channel.field} className="px-4 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        aria-label={`${EVENT_LABELS[preference.event_type].label} by ${channel.label}`}
+                        checked={preference[channel.field]}
+                        onChange={() => toggle(preference.event_type, channel.field)}
+                        className="h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="border border-gray-100 rounded-xl p-4 space-y-3">
+          <label className="flex items-center justify-between cursor-pointer">
+            <span className="flex items-center text-sm font-medium text-gray-900">
+              <MoonIcon className="h-5 w-5 text-gray-400 mr-2" />
+              Quiet hours
+            </span>
+            <input
+              type="checkbox"
+              checked={quietHoursEnabled}
+              onChange={(e) => setQuietHoursEnabled(e.target.checked)}
+              className="h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500"
+            />
+          </label>
+          <p className="text-xs text-gray-500">Emails and SMS are held until quiet hours end. In-app notifications still arrive.</p>
+          {quietHoursEnabled && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                <input
+                  type="time"
+                  value={settings.quiet_hours_start || '22:00'}
+                  onChange={(e) => setSettings({ ...settings, quiet_hours_start: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Until</label>
+                <input
+                  type="time"
+                  value={settings.quiet_hours_end || '07:00'}
+                  onChange={(e) => setSettings({ ...settings, quiet_hours_end: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+            </div>
+          )}
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Time zone</label>
+            <select
+              value={settings.timezone || ''}
+              onChange={(e) => setSettings({ ...settings, timezone: e.target.value })}
+              className="input-field"
+            >
+              {timeZones.map(zone => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="border border-gray-100 rounded-xl p-4 space-y-3">
+          <label className="flex items-center justify-between cursor-pointer">
+            <span className="flex items-center text-sm font-medium text-gray-900">
+              <InboxStackIcon className="h-5 w-5 text-gray-400 mr-2" />
+              Daily email digest
+            </span>
+            <input
+              type="checkbox"
+              checked={settings.email_digest_enabled}
+              onChange={(e) => setSettings({ ...settings, email_digest_enabled: e.target.checked })}
+              className="h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500"
+            />
+          </label>
+          <p className="text-xs text-gray-500">Get one summary email a day instead of an email for every update.</p>
+          {settings.email_digest_enabled && (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Send at</label>
+              <select
+                value={settings.email_digest_hour}
+                onChange={(e) => setSettings({ ...settings, email_digest_hour: parseInt(e.target.value) })}
+                className="input-field"
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>{formatHour(hour)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50"
+        >
+          {isSaving && <ArrowPathIcon className="h-4 w-4 animate-spin" />}
+          <span>{isSaving ? 'Saving...' : 'Save Preferences'}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
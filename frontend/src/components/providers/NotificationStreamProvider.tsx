@@ -0,0 +1,200 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { API_ENDPOINTS, logApiCall } from '../../config/api';
+import { decodeToken } from '../../utils/tokenManager';
+
+export interface StreamedNotification {
+  id: number;
+  user_id: number;
+  title: string;
+  message: string;
+  type: 'info' | 'success' | 'warning' | 'error' | 'alert';
+  priority: 'low' | 'normal' | 'high';
+  category?: string;
+  is_read: boolean;
+  action_url?: string;
+  metadata?: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// "ready" is sent on every (re)connect; counts should be refetched since events may have been missed
+export type NotificationStreamEvent =
+  | { type: 'ready' }
+  | { type: 'notification'; notification: StreamedNotification };
+
+type NotificationStreamListener = (event: NotificationStreamEvent) => void;
+
+interface NotificationStreamContextType {
+  subscribe: (listener: NotificationStreamListener) => () => void;
+}
+
+const NotificationStreamContext = createContext<NotificationStreamContextType | undefined>(undefined);
+
+// How often the signed-in user is checked, which also paces reconnects
+const WATCH_INTERVAL_MS = 5000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+
+/**
+ * Ticket a notification was raised for, if any
+ */
+export const getNotificationTicketId = (notification: StreamedNotification): number | null => {
+  const ticketId = notification.metadata?.ticket_id;
+  return typeof ticketId === 'number' ? ticketId : null;
+};
+
+/**
+ * Subscribe to live notifications for the signed-in user
+ */
+export const useNotificationStream = (listener: NotificationStreamListener) => {
+  const context = useContext(NotificationStreamContext);
+  if (!context) {
+    throw new Error('useNotificationStream must be used within NotificationStreamProvider');
+  }
+
+  const listenerRef = useRef(listener);
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  const { subscribe } = context;
+  useEffect(() => subscribe(event => listenerRef.current(event)), [subscribe]);
+};
+
+/**
+ * Parse a server-sent event stream, calling onEvent for each complete event
+ */
+const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: string) => void
+) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() || '';
+
+    for (const block of blocks) {
+      let event = 'message';
+      const data: string[] = [];
+
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+
+      if (data.length > 0) onEvent(event, data.join('\n'));
+    }
+  }
+};
+
+interface NotificationStreamProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Keeps one notification stream open for the signed-in user and shares it
+ * with every subscriber. Uses fetch rather than EventSource so the bearer
+ * token can be sent in the Authorization header.
+ */
+export const NotificationStreamProvider: React.FC<NotificationStreamProviderProps> = ({ children }) => {
+  const listeners = useRef(new Set<NotificationStreamListener>());
+
+  const subscribe = useCallback((listener: NotificationStreamListener) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  useEffect(() => {
+    let controller: AbortController | null = null;
+    let connectedUserId: number | null = null;
+    let failures = 0;
+    let retryAt = 0;
+
+    const dispatch = (event: NotificationStreamEvent) => {
+      listeners.current.forEach(listener => listener(event));
+    };
+
+    const connect = async (token: string, userId: number) => {
+      const current = new AbortController();
+      controller = current;
+      connectedUserId = userId;
+
+      try {
+        logApiCall('GET', API_ENDPOINTS.NOTIFICATIONS.STREAM);
+        const response = await fetch(API_ENDPOINTS.NOTIFICATIONS.STREAM, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Accept': 'text/event-stream'
+          },
+          cache: 'no-store',
+          signal: current.signal
+        });
+
+        if (!response.ok || !response.body) {
+          throw new Error(`Notification stream failed: ${response.status}`);
+        }
+
+        failures = 0;
+        await readEventStream(response.body, (event, data) => {
+          if (event === 'ready') {
+            dispatch({ type: 'ready' });
+          } else if (event === 'notification') {
+            dispatch({ type: 'notification', notification: JSON.parse(data) });
+          }
+        });
+      } catch (error) {
+        if (current.signal.aborted) return;
+        failures += 1;
+        console.error('Notification stream disconnected:', error);
+      }
+
+      // The stream ended on its own; back off before reconnecting
+      if (controller === current) {
+        controller = null;
+        connectedUserId = null;
+        retryAt = Date.now() + Math.min(WATCH_INTERVAL_MS * 2 ** failures, MAX_RECONNECT_DELAY_MS);
+      }
+    };
+
+    const check = () => {
+      const token = localStorage.getItem('token');
+      const userId = token ? decodeToken(token)?.userId ?? null : null;
+
+      // Signed out or switched user
+      if (controller && userId !== connectedUserId) {
+        controller.abort();
+        controller = null;
+        connectedUserId = null;
+        failures = 0;
+        retryAt = 0;
+      }
+
+      if (!controller && token && userId && Date.now() >= retryAt) {
+        connect(token, userId);
+      }
+    };
+
+    check();
+    const watchInterval = setInterval(check, WATCH_INTERVAL_MS);
+
+    return () => {
+      clearInterval(watchInterval);
+      controller?.abort();
+    };
+  }, []);
+
+  return (
+    <NotificationStreamContext.Provider value={{ subscribe }}>
+      {children}
+    </NotificationStreamContext.Provider>
+  );
+};
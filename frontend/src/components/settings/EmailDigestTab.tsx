@@ -0,0 +1,238 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useToast } from '@/components/providers/ToastProvider';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import {
+  EnvelopeIcon,
+  PaperAirplaneIcon,
+  ArrowPathIcon
+} from '@heroicons/react/24/outline';
+
+type DigestFrequency = 'daily' | 'weekly' | 'off';
+type DigestAttachmentFormat = 'csv' | 'pdf' | 'none';
+
+interface DigestSchedule {
+  frequency: DigestFrequency;
+  weekday: number;
+  hour: number;
+  lookaheadDays: number;
+  attachment: DigestAttachmentFormat;
+}
+
+const FREQUENCIES: { value: DigestFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'off', label: 'Off' },
+];
+
+const ATTACHMENTS: { value: DigestAttachmentFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV spreadsheet' },
+  { value: 'pdf', label: 'PDF report' },
+  { value: 'none', label: 'No attachment' },
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export default function EmailDigestTab() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [schedule, setSchedule] = useState<DigestSchedule>({
+    frequency: 'daily',
+    weekday: 1,
+    hour: 9,
+    lookaheadDays: 30,
+    attachment: 'csv',
+  });
+  const { success, error } = useToast();
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        logApiCall('GET', API_ENDPOINTS.EMAIL.DIGEST_SETTINGS);
+        const response = await fetch(API_ENDPOINTS.EMAIL.DIGEST_SETTINGS, {
+          headers: getAuthHeaders(),
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch digest settings');
+        }
+
+        const data = await response.json();
+        setSchedule(data.data);
+      } catch (err) {
+        console.error('Error fetching digest settings:', err);
+        error('Failed to load digest settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSchedule();
+  }, [error]);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      logApiCall('PUT', API_ENDPOINTS.EMAIL.DIGEST_SETTINGS);
+      const response = await fetch(API_ENDPOINTS.EMAIL.DIGEST_SETTINGS, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(schedule),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save digest settings');
+      }
+
+      setSchedule(data.data);
+      success('Digest settings saved successfully');
+    } catch (err: any) {
+      console.error('Error saving digest settings:', err);
+      error(err.message || 'Failed to save digest settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSendNow = async () => {
+    try {
+      setSending(true);
+      logApiCall('POST', API_ENDPOINTS.EMAIL.TRIGGER_DIGEST);
+      const response = await fetch(API_ENDPOINTS.EMAIL.TRIGGER_DIGEST, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to send digest');
+      }
+
+      success('Digest is being sent to all clients and vendors');
+    } catch (err: any) {
+      console.error('Error triggering digest:', err);
+      error(err.message || 'Failed to send digest');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <ArrowPathIcon className="h-8 w-8 text-red-600 animate-spin" />
+        <span className="ml-3 text-gray-600">Loading digest settings...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+          <EnvelopeIcon className="h-5 w-5 text-red-600 mr-2" />
+          Compliance Digest
+        </h3>
+        <p className="text-sm text-gray-500 mb-6">
+          Each client and vendor gets one email listing upcoming maintenance, expiring equipment, open service
+          requests and recently resolved tickets, with the full list attached. Nothing is sent when there is nothing to report.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 bg-gray-50 rounded-xl p-6">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Frequency</label>
+            <select
+              value={schedule.frequency}
+              onChange={(e) => setSchedule({ ...schedule, frequency: e.target.value as DigestFrequency })}
+              className="input-field"
+            >
+              {FREQUENCIES.map((frequency) => (
+                <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {schedule.frequency === 'weekly' && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Day of the Week</label>
+              <select
+                value={schedule.weekday}
+                onChange={(e) => setSchedule({ ...schedule, weekday: parseInt(e.target.value) })}
+                className="input-field"
+              >
+                {WEEKDAYS.map((day, index) => (
+                  <option key={day} value={index}>{day}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Send At</label>
+            <select
+              value={schedule.hour}
+              onChange={(e) => setSchedule({ ...schedule, hour: parseInt(e.target.value) })}
+              disabled={schedule.frequency === 'off'}
+              className="input-field disabled:opacity-50"
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <option key={hour} value={hour}>{`${hour.toString().padStart(2, '0')}:00`}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">Server time</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Look Ahead (Days)</label>
+            <input
+              type="number"
+              min="1"
+              max="365"
+              value={schedule.lookaheadDays}
+              onChange={(e) => setSchedule({ ...schedule, lookaheadDays: parseInt(e.target.value) || 30 })}
+              className="input-field"
+            />
+            <p className="text-xs text-gray-500">Maintenance and expiries due within this many days. Overdue items are always included.</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Attachment</label>
+            <select
+              value={schedule.attachment}
+              onChange={(e) => setSchedule({ ...schedule, attachment: e.target.value as DigestAttachmentFormat })}
+              className="input-field"
+            >
+              {ATTACHMENTS.map((attachment) => (
+                <option key={attachment.value} value={attachment.value}>{attachment.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between pt-6 border-t border-gray-200 mt-6">
+          <button
+            onClick={handleSendNow}
+            disabled={sending}
+            className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+          >
+            <PaperAirplaneIcon className="h-4 w-4" />
+            <span>{sending ? 'Sending...' : 'Send Now'}</span>
+          </button>
+
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,408 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import { formatDateTime } from '@/utils/dateFormatter';
+import {
+  InboxStackIcon,
+  EnvelopeIcon,
+  DevicePhoneMobileIcon,
+  ArrowPathIcon,
+  XMarkIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  MagnifyingGlassIcon
+} from '@heroicons/react/24/outline';
+
+type MessageChannel = 'email' | 'sms';
+type MessageStatus = 'pending' | 'processing' | 'sent' | 'skipped' | 'dead' | 'cancelled';
+
+interface QueuedMessage {
+  id: number;
+  channel: MessageChannel;
+  payload: any;
+  idempotency_key: string | null;
+  status: MessageStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  related_entity_type: string | null;
+  related_entity_id: number | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+interface QueueStat {
+  channel: MessageChannel;
+  status: MessageStatus;
+  count: number;
+}
+
+const STATUS_STYLES: Record<MessageStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  dead: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+const STATUSES: MessageStatus[] = ['pending', 'processing', 'sent', 'skipped', 'dead', 'cancelled'];
+const PAGE_SIZE = 25;
+
+const canRetry = (status: MessageStatus) => status === 'dead' || status === 'skipped' || status === 'cancelled';
+const canCancel = (status: MessageStatus) => status === 'pending' || status === 'dead';
+
+/**
+ * Who a message is going to and what it says, from its stored payload
+ */
+const describeMessage = (message: QueuedMessage): { recipient: string; summary: string } => {
+  if (message.channel === 'email') {
+    const to = message.payload?.options?.to;
+    return {
+      recipient: Array.isArray(to) ? to.join(', ') : to || '—',
+      summary: message.payload?.options?.subject || '',
+    };
+  }
+  const recipients: { phoneNumber: string }[] = message.payload?.recipients || [];
+  return {
+    recipient: recipients.map((r) => r.phoneNumber).join(', ') || '—',
+    summary: message.payload?.message || '',
+  };
+};
+
+export default function MessageQueueTab() {
+  const [loading, setLoading] = useState(true);
+  const [messages, setMessages] = useState<QueuedMessage[]>([]);
+  const [stats, setStats] = useState<QueueStat[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<MessageStatus | ''>('dead');
+  const [channelFilter, setChannelFilter] = useState<MessageChannel | ''>('');
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [actionId, setActionId] = useState<number | null>(null);
+  const { success, error } = useToast();
+  const { confirm } = useConfirmModal();
+
+  const fetchStats = useCallback(async () => {
+    try {
+      logApiCall('GET', API_ENDPOINTS.MESSAGE_QUEUE.STATS);
+      const response = await fetch(API_ENDPOINTS.MESSAGE_QUEUE.STATS, {
+        headers: getAuthHeaders(),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setStats(data.data || []);
+      }
+    } catch (err) {
+      console.error('Error fetching queue stats:', err);
+    }
+  }, []);
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (statusFilter) params.set('status', statusFilter);
+      if (channelFilter) params.set('channel', channelFilter);
+      if (appliedSearch) params.set('search', appliedSearch);
+
+      const url = `${API_ENDPOINTS.MESSAGE_QUEUE.LIST}?${params.toString()}`;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load queued messages');
+      }
+
+      setMessages(data.data || []);
+      setTotal(data.meta?.total || 0);
+    } catch (err: any) {
+      console.error('Error fetching queued messages:', err);
+      error(err.message || 'Failed to load queued messages');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, statusFilter, channelFilter, appliedSearch, error]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  const refresh = () => {
+    fetchStats();
+    fetchMessages();
+  };
+
+  const handleAction = async (message: QueuedMessage, action: 'retry' | 'cancel') => {
+    if (action === 'cancel') {
+      const confirmed = await confirm({
+        title: 'Cancel Message',
+        message: `This ${message.channel === 'email' ? 'email' : 'SMS'} will not be delivered. Continue?`,
+        confirmText: 'Cancel Message',
+        cancelText: 'Keep',
+        type: 'danger',
+      });
+      if (!confirmed) return;
+    }
+
+    const url = action === 'retry'
+      ? API_ENDPOINTS.MESSAGE_QUEUE.RETRY(message.id)
+      : API_ENDPOINTS.MESSAGE_QUEUE.CANCEL(message.id);
+
+    try {
+      setActionId(message.id);
+      logApiCall('POST', url);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to ${action} message`);
+      }
+
+      success(action === 'retry' ? 'Message queued for retry' : 'Message cancelled');
+      refresh();
+    } catch (err: any) {
+      console.error(`Error trying to ${action} message:`, err);
+      error(err.message || `Failed to ${action} message`);
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const countFor = (status: MessageStatus) =>
+    stats
+      .filter((s) => s.status === status && (!channelFilter || s.channel === channelFilter))
+      .reduce((sum, s) => sum + s.count, 0);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <InboxStackIcon className="h-5 w-5 text-red-600 mr-2" />
+            Message Queue
+          </h3>
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+          >
+            <ArrowPathIcon className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-6">
+          Notification emails and SMS are delivered in the background and retried when they fail.
+          Messages that run out of attempts stop as dead until they are retried or cancelled here.
+        </p>
+
+        {/* Status Counts */}
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-6">
+          {STATUSES.map((status) => (
+            <button
+              key={status}
+              onClick={() => {
+                setStatusFilter(statusFilter === status ? '' : status);
+                setPage(1);
+              }}
+              className={`rounded-xl p-3 border text-left transition-colors ${
+                statusFilter === status ? 'border-red-500 bg-red-50' : 'border-gray-200 bg-gray-50 hover:border-gray-300'
+              }`}
+            >
+              <p className="text-xs font-medium text-gray-500 capitalize">{status}</p>
+              <p className="text-xl font-bold text-gray-900 mt-1">{countFor(status)}</p>
+            </button>
+          ))}
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col md:flex-row gap-3 mb-4">
+          <select
+            value={channelFilter}
+            onChange={(e) => {
+              setChannelFilter(e.target.value as MessageChannel | '');
+              setPage(1);
+            }}
+            className="input-field md:w-40"
+          >
+            <option value="">All channels</option>
+            <option value="email">Email</option>
+            <option value="sms">SMS</option>
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value as MessageStatus | '');
+              setPage(1);
+            }}
+            className="input-field md:w-40"
+          >
+            <option value="">All statuses</option>
+            {STATUSES.map((status) => (
+              <option key={status} value={status} className="capitalize">{status}</option>
+            ))}
+          </select>
+          <form
+            className="flex-1 relative"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setAppliedSearch(search.trim());
+              setPage(1);
+            }}
+          >
+            <MagnifyingGlassIcon className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search recipient, subject or key and press Enter"
+              className="input-field pl-9"
+            />
+          </form>
+        </div>
+
+        {/* Message List */}
+        <div className="border border-gray-200 rounded-xl overflow-hidden">
+          {loading && messages.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <ArrowPathIcon className="h-8 w-8 text-red-600 animate-spin" />
+              <span className="ml-3 text-gray-600">Loading messages...</span>
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="py-12 text-center text-sm text-gray-500">No messages match these filters</div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {messages.map((message) => {
+                const { recipient, summary } = describeMessage(message);
+                const expanded = expandedId === message.id;
+                const ChannelIcon = message.channel === 'email' ? EnvelopeIcon : DevicePhoneMobileIcon;
+
+                return (
+                  <li key={message.id} className="p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <button
+                        onClick={() => setExpandedId(expanded ? null : message.id)}
+                        className="flex items-start gap-3 text-left flex-1 min-w-0"
+                      >
+                        <ChannelIcon className="h-5 w-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-gray-900 truncate">{recipient}</span>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[message.status]}`}>
+                              {message.status}
+                            </span>
+                          </div>
+                          <p className="text-sm text-gray-600 truncate">{summary}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            #{message.id} · queued {formatDateTime(message.created_at)} · {message.attempts}/{message.max_attempts} attempts
+                            {message.status === 'pending' && message.attempts > 0 && ` · next try ${formatDateTime(message.next_attempt_at)}`}
+                            {message.sent_at && ` · sent ${formatDateTime(message.sent_at)}`}
+                          </p>
+                          {message.last_error && !expanded && (
+                            <p className="text-xs text-red-600 mt-1 truncate">{message.last_error}</p>
+                          )}
+                        </div>
+                        {expanded
+                          ? <ChevronUpIcon className="h-4 w-4 text-gray-400 mt-1" />
+                          : <ChevronDownIcon className="h-4 w-4 text-gray-400 mt-1" />}
+                      </button>
+
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {canRetry(message.status) && (
+                          <button
+                            onClick={() => handleAction(message, 'retry')}
+                            disabled={actionId === message.id}
+                            className="btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
+                          >
+                            <ArrowPathIcon className="h-4 w-4" />
+                            <span>Retry</span>
+                          </button>
+                        )}
+                        {canCancel(message.status) && (
+                          <button
+                            onClick={() => handleAction(message, 'cancel')}
+                            disabled={actionId === message.id}
+                            className="btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
+                          >
+                            <XMarkIcon className="h-4 w-4" />
+                            <span>Cancel</span>
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    {expanded && (
+                      <div className="mt-3 ml-8 space-y-3 text-sm">
+                        {message.last_error && (
+                          <div>
+                            <p className="text-xs font-medium text-gray-500 mb-1">Last error</p>
+                            <p className="text-red-700 bg-red-50 rounded-lg p-2 whitespace-pre-wrap break-words">{message.last_error}</p>
+                          </div>
+                        )}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs text-gray-600">
+                          <p><span className="font-medium">Idempotency key:</span> {message.idempotency_key || '—'}</p>
+                          <p>
+                            <span className="font-medium">Related to:</span>{' '}
+                            {message.related_entity_type ? `${message.related_entity_type} #${message.related_entity_id}` : '—'}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-xs font-medium text-gray-500 mb-1">Payload</p>
+                          <pre className="bg-gray-50 rounded-lg p-2 text-xs text-gray-700 overflow-x-auto max-h-64">
+                            {JSON.stringify(message.payload, null, 2)}
+                          </pre>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Pagination */}
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+            <span>
+              Page {page} of {totalPages} · {total} messages
+            </span>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || loading}
+                className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages || loading}
+                className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
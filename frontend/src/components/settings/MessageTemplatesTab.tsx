@@ -0,0 +1,556 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import { formatDateTime } from '@/utils/dateFormatter';
+import {
+  DocumentTextIcon,
+  EnvelopeIcon,
+  DevicePhoneMobileIcon,
+  EyeIcon,
+  ArrowUturnLeftIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+
+type TemplateChannel = 'email' | 'sms';
+type TemplateSource = 'vendor' | 'system' | 'default';
+
+interface TemplateOverrideSummary {
+  id: number;
+  vendor_id: number | null;
+  vendor_name?: string | null;
+  current_version: number;
+  updated_at: string;
+}
+
+interface TemplateCatalogEntry {
+  channel: TemplateChannel;
+  templateType: string;
+  label: string;
+  description: string;
+  overrides: TemplateOverrideSummary[];
+}
+
+interface TemplateVariable {
+  name: string;
+  description: string;
+  required?: boolean;
+  fields?: TemplateVariable[];
+}
+
+interface TemplateContent {
+  subject: string | null;
+  body: string;
+}
+
+interface TemplateVersion {
+  id: number;
+  version: number;
+  subject: string | null;
+  body: string;
+  change_note: string | null;
+  created_at: string;
+  created_by_name?: string | null;
+}
+
+interface TemplateDetail {
+  label: string;
+  description: string;
+  variables: TemplateVariable[];
+  defaultTemplate: TemplateContent;
+  inherited: (TemplateContent & { source: TemplateSource; version: number | null }) | null;
+  override: (TemplateContent & { id: number; current_version: number }) | null;
+  versions: TemplateVersion[];
+}
+
+interface SmsSegmentInfo {
+  encoding: 'GSM-7' | 'UCS-2';
+  length: number;
+  segments: number;
+  remaining: number;
+}
+
+interface TemplatePreview {
+  errors: string[];
+  subject?: string | null;
+  html?: string | null;
+  text?: string;
+  segments?: SmsSegmentInfo | null;
+}
+
+interface Vendor {
+  id: number;
+  company_name: string;
+}
+
+/**
+ * Variables as a nested list, with the fields available inside {{#each}}
+ */
+function VariableList({ variables }: { variables: TemplateVariable[] }) {
+  return (
+    <ul className="space-y-1">
+      {variables.map((variable) => (
+        <li key={variable.name} className="text-xs">
+          <code className="text-red-700">{variable.fields ? `{{#each ${variable.name}}}` : `{{${variable.name}}}`}</code>
+          {variable.required && <span className="ml-1 text-red-600 font-medium">required</span>}
+          <span className="ml-1 text-gray-500">{variable.description}</span>
+          {variable.fields && (
+            <div className="ml-4 mt-1">
+              <VariableList variables={variable.fields} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function MessageTemplatesTab() {
+  const [loading, setLoading] = useState(true);
+  const [catalog, setCatalog] = useState<TemplateCatalogEntry[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [selected, setSelected] = useState<{ channel: TemplateChannel; templateType: string } | null>(null);
+  const [vendorId, setVendorId] = useState('');
+  const [detail, setDetail] = useState<TemplateDetail | null>(null);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const { success, error } = useToast();
+  const { confirm } = useConfirmModal();
+
+  const fetchCatalog = useCallback(async () => {
+    try {
+      logApiCall('GET', API_ENDPOINTS.MESSAGE_TEMPLATES.LIST);
+      const response = await fetch(API_ENDPOINTS.MESSAGE_TEMPLATES.LIST, { headers: getAuthHeaders() });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load templates');
+      }
+
+      const templates: TemplateCatalogEntry[] = data.data || [];
+      setCatalog(templates);
+      setSelected((current) => current || (templates[0] ? { channel: templates[0].channel, templateType: templates[0].templateType } : null));
+    } catch (err: any) {
+      console.error('Error fetching templates:', err);
+      error(err.message || 'Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [error]);
+
+  const fetchVendors = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.VENDORS.LIST, { headers: getAuthHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setVendors(data.data || []);
+      }
+    } catch (err) {
+      console.error('Error fetching vendors:', err);
+    }
+  }, []);
+
+  const fetchDetail = useCallback(async () => {
+    if (!selected) return;
+
+    try {
+      const url = `${API_ENDPOINTS.MESSAGE_TEMPLATES.BY_TYPE(selected.channel, selected.templateType)}${vendorId ? `?vendorId=${vendorId}` : ''}`;
+      logApiCall('GET', url);
+      const response = await fetch(url, { headers: getAuthHeaders() });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load template');
+      }
+
+      const template: TemplateDetail = data.data;
+      // Start editing from whatever is sent today
+      const current = template.override || template.inherited || template.defaultTemplate;
+      setDetail(template);
+      setSubject(current.subject || '');
+      setBody(current.body);
+      setChangeNote('');
+      setPreview(null);
+      setErrors([]);
+    } catch (err: any) {
+      console.error('Error fetching template:', err);
+      error(err.message || 'Failed to load template');
+    }
+  }, [selected, vendorId, error]);
+
+  useEffect(() => {
+    fetchCatalog();
+    fetchVendors();
+  }, [fetchCatalog, fetchVendors]);
+
+  useEffect(() => {
+    fetchDetail();
+  }, [fetchDetail]);
+
+  const draft = () => ({
+    body,
+    subject: selected?.channel === 'email' && subject.trim() ? subject : null,
+    vendorId: vendorId ? parseInt(vendorId) : null,
+  });
+
+  const handlePreview = async () => {
+    if (!selected) return;
+
+    const url = API_ENDPOINTS.MESSAGE_TEMPLATES.PREVIEW(selected.channel, selected.templateType);
+    try {
+      setPreviewing(true);
+      logApiCall('POST', url);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(draft()),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to preview template');
+      }
+
+      setPreview(data.data);
+      setErrors(data.data.errors || []);
+    } catch (err: any) {
+      console.error('Error previewing template:', err);
+      error(err.message || 'Failed to preview template');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+
+    const url = API_ENDPOINTS.MESSAGE_TEMPLATES.BY_TYPE(selected.channel, selected.templateType);
+    try {
+      setSaving(true);
+      logApiCall('PUT', url);
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ ...draft(), changeNote: changeNote.trim() || null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.errors?.length) {
+          setErrors(data.errors.map((e: { message?: string; msg?: string }) => e.message || e.msg));
+        }
+        throw new Error(data.message || 'Failed to save template');
+      }
+
+      success(`Template saved as version ${data.data.current_version}`);
+      fetchCatalog();
+      fetchDetail();
+    } catch (err: any) {
+      console.error('Error saving template:', err);
+      error(err.message || 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    if (!selected) return;
+
+    const confirmed = await confirm({
+      title: 'Roll Back Template',
+      message: `Version ${version} will be saved as the newest version and used for new messages. Continue?`,
+      confirmText: 'Roll Back',
+      cancelText: 'Cancel',
+      type: 'confirm',
+    });
+    if (!confirmed) return;
+
+    const url = API_ENDPOINTS.MESSAGE_TEMPLATES.ROLLBACK(selected.channel, selected.templateType);
+    try {
+      logApiCall('POST', url);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ version, vendorId: vendorId ? parseInt(vendorId) : null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.errors?.length) {
+          setErrors(data.errors.map((e: { message?: string; msg?: string }) => e.message || e.msg));
+        }
+        throw new Error(data.message || 'Failed to roll back template');
+      }
+
+      success(data.message || `Rolled back to version ${version}`);
+      fetchCatalog();
+      fetchDetail();
+    } catch (err: any) {
+      console.error('Error rolling back template:', err);
+      error(err.message || 'Failed to roll back template');
+    }
+  };
+
+  const handleReset = async () => {
+    if (!selected) return;
+
+    const confirmed = await confirm({
+      title: vendorId ? 'Remove Vendor Template' : 'Reset Template',
+      message: vendorId
+        ? "This vendor's template and its history will be deleted, and its messages will use the system template again."
+        : 'The edited template and its history will be deleted, and messages will use the built-in template again.',
+      confirmText: vendorId ? 'Remove' : 'Reset',
+      cancelText: 'Cancel',
+      type: 'danger',
+    });
+    if (!confirmed) return;
+
+    const url = `${API_ENDPOINTS.MESSAGE_TEMPLATES.BY_TYPE(selected.channel, selected.templateType)}${vendorId ? `?vendorId=${vendorId}` : ''}`;
+    try {
+      logApiCall('DELETE', url);
+      const response = await fetch(url, { method: 'DELETE', headers: getAuthHeaders() });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to reset template');
+      }
+
+      success(data.message || 'Template reset');
+      fetchCatalog();
+      fetchDetail();
+    } catch (err: any) {
+      console.error('Error resetting template:', err);
+      error(err.message || 'Failed to reset template');
+    }
+  };
+
+  const sourceLabel = (): string => {
+    if (detail?.override) return `${vendorId ? 'Vendor' : 'Edited'} template, version ${detail.override.current_version}`;
+    if (detail?.inherited?.source === 'system') return `Using the edited system template (version ${detail.inherited.version})`;
+    return 'Using the built-in template';
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading templates...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+          <DocumentTextIcon className="h-5 w-5 text-red-600 mr-2" />
+          Message Templates
+        </h3>
+        <p className="text-sm text-gray-500 mb-6">
+          Change the wording of notification emails and SMS. Templates use Handlebars and can only refer to the
+          variables listed for their type. Vendor templates replace the system template for that vendor&apos;s clients.
+        </p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Template List */}
+          <div className="space-y-4">
+            {(['email', 'sms'] as TemplateChannel[]).map((channel) => (
+              <div key={channel}>
+                <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2 flex items-center">
+                  {channel === 'email'
+                    ? <EnvelopeIcon className="h-4 w-4 mr-1" />
+                    : <DevicePhoneMobileIcon className="h-4 w-4 mr-1" />}
+                  {channel === 'email' ? 'Email' : 'SMS'}
+                </p>
+                <div className="space-y-1">
+                  {catalog.filter((t) => t.channel === channel).map((template) => {
+                    const isSelected = selected?.channel === channel && selected.templateType === template.templateType;
+                    const systemOverride = template.overrides.some((o) => !o.vendor_id);
+                    const vendorOverrides = template.overrides.filter((o) => o.vendor_id).length;
+                    return (
+                      <button
+                        key={template.templateType}
+                        onClick={() => setSelected({ channel, templateType: template.templateType })}
+                        className={`w-full text-left rounded-lg px-3 py-2 text-sm border transition-colors ${
+                          isSelected ? 'border-red-500 bg-red-50' : 'border-transparent hover:bg-gray-50'
+                        }`}
+                      >
+                        <span className="block font-medium text-gray-900">{template.label}</span>
+                        {(systemOverride || vendorOverrides > 0) && (
+                          <span className="block text-xs text-gray-500">
+                            {[systemOverride && 'Edited', vendorOverrides > 0 && `${vendorOverrides} vendor`].filter(Boolean).join(' · ')}
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Editor */}
+          {selected && detail && (
+            <div className="lg:col-span-3 space-y-4">
+              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+                <div>
+                  <p className="font-medium text-gray-900">{detail.label}</p>
+                  <p className="text-sm text-gray-500">{detail.description}</p>
+                  <p className="text-xs text-gray-400 mt-1">{sourceLabel()}</p>
+                </div>
+                <select
+                  value={vendorId}
+                  onChange={(e) => setVendorId(e.target.value)}
+                  className="input-field md:w-64"
+                >
+                  <option value="">All vendors (system template)</option>
+                  {vendors.map((vendor) => (
+                    <option key={vendor.id} value={vendor.id}>{vendor.company_name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {selected.channel === 'email' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+                  <input
+                    type="text"
+                    value={subject}
+                    onChange={(e) => setSubject(e.target.value)}
+                    placeholder="Leave empty to keep the standard subject"
+                    maxLength={255}
+                    className="input-field"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {selected.channel === 'email' ? 'Email body (HTML)' : 'Message'}
+                </label>
+                <textarea
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={selected.channel === 'email' ? 16 : 4}
+                  spellCheck={selected.channel === 'sms'}
+                  className="input-field font-mono text-xs"
+                />
+              </div>
+
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                <p className="text-xs font-semibold text-gray-600 mb-2">Available variables</p>
+                <VariableList variables={detail.variables} />
+              </div>
+
+              {errors.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                  <p className="text-sm font-medium text-red-800 flex items-center mb-1">
+                    <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+                    Template problems
+                  </p>
+                  <ul className="list-disc ml-5 text-sm text-red-700 space-y-0.5">
+                    {errors.map((message) => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex flex-col md:flex-row gap-3">
+                <input
+                  type="text"
+                  value={changeNote}
+                  onChange={(e) => setChangeNote(e.target.value)}
+                  placeholder="Change note (optional)"
+                  maxLength={255}
+                  className="input-field md:flex-1"
+                />
+                <button
+                  onClick={handlePreview}
+                  disabled={previewing || !body.trim()}
+                  className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                >
+                  <EyeIcon className="h-4 w-4" />
+                  <span>{previewing ? 'Rendering...' : 'Preview'}</span>
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !body.trim()}
+                  className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Saving...' : 'Save Template'}
+                </button>
+                {detail.override && (
+                  <button onClick={handleReset} className="btn-secondary">
+                    {vendorId ? 'Remove Vendor Template' : 'Reset to Built-in'}
+                  </button>
+                )}
+              </div>
+
+              {/* Preview */}
+              {preview && preview.errors.length === 0 && (
+                <div className="border border-gray-200 rounded-lg overflow-hidden">
+                  <div className="bg-gray-50 px-4 py-2 border-b border-gray-200 text-sm">
+                    {selected.channel === 'email' ? (
+                      <span><span className="text-gray-500">Subject:</span> {preview.subject}</span>
+                    ) : preview.segments && (
+                      <span className={preview.segments.segments > 1 ? 'text-orange-700' : 'text-gray-600'}>
+                        {preview.segments.length} characters ({preview.segments.encoding}) · {preview.segments.segments} segment{preview.segments.segments === 1 ? '' : 's'} · {preview.segments.remaining} left in this segment
+                      </span>
+                    )}
+                  </div>
+                  {selected.channel === 'email' && preview.html ? (
+                    <iframe
+                      title="Email preview"
+                      srcDoc={preview.html}
+                      sandbox=""
+                      className="w-full h-[32rem] bg-white"
+                    />
+                  ) : (
+                    <p className="p-4 text-sm text-gray-900 whitespace-pre-wrap">{preview.text}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Version History */}
+              {detail.versions.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">Version history</p>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                    {detail.versions.map((version) => {
+                      const isCurrent = version.version === detail.override?.current_version;
+                      return (
+                        <div key={version.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                          <div>
+                            <span className="font-medium text-gray-900">Version {version.version}</span>
+                            {isCurrent && <span className="ml-2 text-xs text-green-700">current</span>}
+                            <span className="ml-2 text-gray-500">
+                              {formatDateTime(version.created_at)}
+                              {version.created_by_name ? ` by ${version.created_by_name}` : ''}
+                            </span>
+                            {version.change_note && <p className="text-xs text-gray-500">{version.change_note}</p>}
+                          </div>
+                          {!isCurrent && (
+                            <button
+                              onClick={() => handleRollback(version.version)}
+                              className="text-red-600 hover:text-red-800 flex items-center space-x-1"
+                            >
+                              <ArrowUturnLeftIcon className="h-4 w-4" />
+                              <span>Roll back</span>
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
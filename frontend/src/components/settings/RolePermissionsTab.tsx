@@ -0,0 +1,320 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useToast } from '@/components/providers/ToastProvider';
+import { API_ENDPOINTS, getAuthHeaders } from '@/config/api';
+import {
+  UserGroupIcon,
+  KeyIcon,
+  PlusIcon,
+  ArrowPathIcon
+} from '@heroicons/react/24/outline';
+
+interface Role {
+  id: number;
+  roleName: string;
+  description?: string;
+  permissionCount: number;
+  userCount: number;
+}
+
+interface Permission {
+  id: number;
+  permissionName: string;
+  description?: string;
+  category: string;
+}
+
+interface RolePermission {
+  permissionId: number;
+  permissionName: string;
+}
+
+const formatLabel = (value: string) =>
+  value.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export default function RolePermissionsTab() {
+  const [loading, setLoading] = useState(true);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [selectedRoleId, setSelectedRoleId] = useState<number | null>(null);
+  const [grantedIds, setGrantedIds] = useState<Set<number>>(new Set());
+  const [loadingRole, setLoadingRole] = useState(false);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [newRole, setNewRole] = useState({ role_name: '', description: '' });
+  const toast = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (selectedRoleId !== null) {
+      fetchRolePermissions(selectedRoleId);
+    }
+  }, [selectedRoleId]);
+
+  const fetchRoles = async () => {
+    const response = await fetch(API_ENDPOINTS.PERMISSIONS.ROLES, {
+      headers: getAuthHeaders(),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to fetch roles');
+    }
+
+    setRoles(data.data || []);
+    return (data.data || []) as Role[];
+  };
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [rolesData, permissionsResponse] = await Promise.all([
+        fetchRoles(),
+        fetch(API_ENDPOINTS.PERMISSIONS.ALL, { headers: getAuthHeaders() })
+      ]);
+
+      const permissionsData = await permissionsResponse.json();
+      if (!permissionsResponse.ok) {
+        throw new Error(permissionsData.message || 'Failed to fetch permissions');
+      }
+
+      setPermissions(permissionsData.data || []);
+      if (rolesData.length > 0 && selectedRoleId === null) {
+        setSelectedRoleId(rolesData[0].id);
+      }
+    } catch (err: any) {
+      console.error('Error fetching roles and permissions:', err);
+      toast.error(err.message || 'Failed to load roles and permissions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRolePermissions = async (roleId: number) => {
+    try {
+      setLoadingRole(true);
+      const response = await fetch(API_ENDPOINTS.PERMISSIONS.ROLE_BY_ID(roleId), {
+        headers: getAuthHeaders(),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch role permissions');
+      }
+
+      setGrantedIds(new Set((data.data.permissions as RolePermission[]).map(p => p.permissionId)));
+    } catch (err: any) {
+      console.error('Error fetching role permissions:', err);
+      toast.error(err.message || 'Failed to load role permissions');
+    } finally {
+      setLoadingRole(false);
+    }
+  };
+
+  const handleToggle = async (permission: Permission) => {
+    if (selectedRoleId === null) return;
+
+    const isGranted = grantedIds.has(permission.id);
+    try {
+      setUpdatingId(permission.id);
+      const response = await fetch(API_ENDPOINTS.PERMISSIONS.ROLE_PERMISSION(selectedRoleId, permission.id), {
+        method: isGranted ? 'DELETE' : 'PUT',
+        headers: getAuthHeaders(),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update permission');
+      }
+
+      const next = new Set(grantedIds);
+      if (isGranted) {
+        next.delete(permission.id);
+      } else {
+        next.add(permission.id);
+      }
+      setGrantedIds(next);
+      setRoles(prev => prev.map(role =>
+        role.id === selectedRoleId ? { ...role, permissionCount: next.size } : role
+      ));
+      toast.success(data.message || 'Permission updated');
+    } catch (err: any) {
+      console.error('Error updating permission:', err);
+      toast.error(err.message || 'Failed to update permission');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCreateRole = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setCreating(true);
+      const response = await fetch(API_ENDPOINTS.PERMISSIONS.ROLES, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(newRole),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message || 'Failed to create role');
+      }
+
+      toast.success('Role created successfully');
+      setNewRole({ role_name: '', description: '' });
+      setShowCreate(false);
+      await fetchRoles();
+      setSelectedRoleId(data.data.id);
+    } catch (err: any) {
+      console.error('Error creating role:', err);
+      toast.error(err.message || 'Failed to create role');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const selectedRole = roles.find(role => role.id === selectedRoleId);
+  const categories = Array.from(new Set(permissions.map(p => p.category)));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <ArrowPathIcon className="h-8 w-8 text-red-600 animate-spin" />
+        <span className="ml-3 text-gray-600">Loading roles and permissions...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <UserGroupIcon className="h-5 w-5 text-red-600 mr-2" />
+          Roles & Permissions
+        </h3>
+        <button
+          onClick={() => setShowCreate(!showCreate)}
+          className="btn-secondary flex items-center space-x-2"
+        >
+          <PlusIcon className="h-4 w-4" />
+          <span>New Role</span>
+        </button>
+      </div>
+
+      {showCreate && (
+        <form onSubmit={handleCreateRole} className="bg-gray-50 rounded-xl p-6 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Role Name</label>
+            <input
+              type="text"
+              value={newRole.role_name}
+              onChange={(e) => setNewRole({ ...newRole, role_name: e.target.value })}
+              placeholder="e.g. auditor"
+              className="input-field"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Description</label>
+            <input
+              type="text"
+              value={newRole.description}
+              onChange={(e) => setNewRole({ ...newRole, description: e.target.value })}
+              placeholder="Read-only access for audits"
+              className="input-field"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={creating || !newRole.role_name.trim()}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {creating ? 'Creating...' : 'Create Role'}
+          </button>
+        </form>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Role List */}
+        <div className="space-y-2">
+          {roles.map((role) => (
+            <button
+              key={role.id}
+              onClick={() => setSelectedRoleId(role.id)}
+              className={`w-full text-left rounded-xl border p-4 transition-colors ${
+                role.id === selectedRoleId
+                  ? 'border-red-500 bg-red-50'
+                  : 'border-gray-200 hover:border-gray-300 bg-white'
+              }`}
+            >
+              <p className="font-medium text-gray-900">{formatLabel(role.roleName)}</p>
+              {role.description && (
+                <p className="text-xs text-gray-500 mt-1">{role.description}</p>
+              )}
+              <p className="text-xs text-gray-500 mt-2">
+                {role.permissionCount} permissions · {role.userCount} users
+              </p>
+            </button>
+          ))}
+        </div>
+
+        {/* Permission Matrix */}
+        <div className="lg:col-span-3 bg-gray-50 rounded-xl p-6">
+          {!selectedRole ? (
+            <p className="text-sm text-gray-500">Select a role to manage its permissions.</p>
+          ) : loadingRole ? (
+            <div className="flex items-center justify-center py-8">
+              <ArrowPathIcon className="h-6 w-6 text-red-600 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {categories.map((category) => (
+                <div key={category}>
+                  <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-3">
+                    {formatLabel(category)}
+                  </h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {permissions.filter(p => p.category === category).map((permission) => {
+                      const locked = selectedRole.roleName === 'admin' && permission.permissionName === 'manage_permissions';
+                      return (
+                        <label
+                          key={permission.id}
+                          className={`flex items-start space-x-3 bg-white rounded-lg border border-gray-200 p-3 ${
+                            locked ? 'opacity-60' : 'cursor-pointer hover:border-gray-300'
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={grantedIds.has(permission.id)}
+                            disabled={locked || updatingId === permission.id}
+                            onChange={() => handleToggle(permission)}
+                            className="mt-1 h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500"
+                          />
+                          <div>
+                            <p className="text-sm font-medium text-gray-900 flex items-center">
+                              <KeyIcon className="h-4 w-4 text-gray-400 mr-1" />
+                              {permission.permissionName}
+                            </p>
+                            {permission.description && (
+                              <p className="text-xs text-gray-500">{permission.description}</p>
+                            )}
+                          </div>
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -19,8 +19,18 @@ interface SmsSettings {
   sms_daily_limit: number;
   sms_compliance_warning_days: number;
   sms_maintenance_warning_days: number;
+  sms_provider: SmsProviderName;
+  sms_default_country_code: string;
 }
 
+type SmsProviderName = 'dialog' | 'http' | 'mock';
+
+const SMS_PROVIDERS: { value: SmsProviderName; label: string; description: string }[] = [
+  { value: 'dialog', label: 'Dialog eSMS', description: 'Sri Lankan numbers only' },
+  { value: 'http', label: 'HTTP gateway', description: 'Twilio-style API, international numbers' },
+  { value: 'mock', label: 'Mock (no delivery)', description: 'Writes messages to the server log for testing' },
+];
+
 interface SmsBalance {
   success: boolean;
   balance?: number;
@@ -46,6 +56,8 @@ export default function SmsSettingsTab() {
     sms_daily_limit: 1000,
     sms_compliance_warning_days: 7,
     sms_maintenance_warning_days: 3,
+    sms_provider: 'dialog',
+    sms_default_country_code: '94',
   });
   const [balance, setBalance] = useState<SmsBalance | null>(null);
   const [stats, setStats] = useState<SmsStats[]>([]);
@@ -76,6 +88,8 @@ export default function SmsSettingsTab() {
           sms_daily_limit: parseInt(apiSettings.sms_daily_limit || '1000'),
           sms_compliance_warning_days: parseInt(apiSettings.sms_compliance_warning_days || '7'),
           sms_maintenance_warning_days: parseInt(apiSettings.sms_maintenance_warning_days || '3'),
+          sms_provider: apiSettings.sms_provider || 'dialog',
+          sms_default_country_code: apiSettings.sms_default_country_code || '94',
         });
       }
     } catch (err) {
@@ -133,6 +147,7 @@ export default function SmsSettingsTab() {
 
       toast.success('SMS settings saved successfully');
       fetchSettings();
+      fetchBalance();
     } catch (err: any) {
       console.error('Error saving SMS settings:', err);
       toast.error(err.message || 'Failed to save SMS settings');
@@ -218,7 +233,7 @@ export default function SmsSettingsTab() {
                 <p className="text-sm text-blue-700 font-medium">Account Balance</p>
                 {balance?.success ? (
                   <p className="text-2xl font-bold text-blue-900 mt-1">
-                    LKR {balance.balance?.toFixed(2) || '0.00'}
+                    {settings.sms_provider === 'dialog' ? 'LKR ' : ''}{balance.balance?.toFixed(2) || '0.00'}
                   </p>
                 ) : (
                   <p className="text-sm text-blue-600 mt-1">{balance?.message || 'Not configured'}</p>
@@ -276,6 +291,46 @@ export default function SmsSettingsTab() {
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {/* Provider */}
+            <div className="space-y-2 md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">
+                SMS Provider
+              </label>
+              <select
+                value={settings.sms_provider}
+                onChange={(e) => setSettings({ ...settings, sms_provider: e.target.value as SmsProviderName })}
+                className="input-field"
+              >
+                {SMS_PROVIDERS.map((provider) => (
+                  <option key={provider.value} value={provider.value}>
+                    {provider.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">
+                {SMS_PROVIDERS.find((provider) => provider.value === settings.sms_provider)?.description}
+              </p>
+            </div>
+
+            {/* Default Country Code */}
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Default Country Code
+              </label>
+              <div className="flex items-center">
+                <span className="mr-2 text-gray-500">+</span>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  maxLength={3}
+                  value={settings.sms_default_country_code}
+                  onChange={(e) => setSettings({ ...settings, sms_default_country_code: e.target.value.replace(/\D/g, '') })}
+                  className="input-field"
+                />
+              </div>
+              <p className="text-xs text-gray-500">Used for numbers saved without one</p>
+            </div>
+
             {/* Daily Limit */}
             <div className="space-y-2">
               <label className="block text-sm font-medium text-gray-700">
@@ -0,0 +1,413 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+import { useToast } from '@/components/providers/ToastProvider';
+import { useConfirmModal } from '@/components/providers/ConfirmModalProvider';
+import { ClientSite, SiteZone, ZONE_CHILD_TYPE, ZoneType, fetchSites, formatSiteAddress } from './sites';
+import {
+  MapPinIcon,
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  UserIcon
+} from '@heroicons/react/24/outline';
+
+interface ClientSitesPanelProps {
+  clientId: number;
+}
+
+interface SiteForm {
+  site_name: string;
+  street_address: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  latitude: string;
+  longitude: string;
+  contact_name: string;
+  contact_phone: string;
+  contact_email: string;
+  notes: string;
+}
+
+interface ZoneDraft {
+  siteId: number;
+  parentId: number | null;
+  zoneType: ZoneType;
+  name: string;
+}
+
+const EMPTY_FORM: SiteForm = {
+  site_name: '',
+  street_address: '',
+  city: '',
+  state: '',
+  zip_code: '',
+  latitude: '',
+  longitude: '',
+  contact_name: '',
+  contact_phone: '',
+  contact_email: '',
+  notes: ''
+};
+
+const ZONE_INDENT: Record<ZoneType, string> = {
+  building: 'pl-0',
+  floor: 'pl-6',
+  room: 'pl-12'
+};
+
+const toForm = (site: ClientSite): SiteForm => ({
+  site_name: site.site_name,
+  street_address: site.street_address || '',
+  city: site.city || '',
+  state: site.state || '',
+  zip_code: site.zip_code || '',
+  latitude: site.latitude !== null ? String(site.latitude) : '',
+  longitude: site.longitude !== null ? String(site.longitude) : '',
+  contact_name: site.contact_name || '',
+  contact_phone: site.contact_phone || '',
+  contact_email: site.contact_email || '',
+  notes: site.notes || ''
+});
+
+async function send(method: 'POST' | 'PUT' | 'DELETE', url: string, body?: object) {
+  logApiCall(method, url, body);
+  const response = await fetch(url, {
+    method,
+    headers: getAuthHeaders(),
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || 'Request failed');
+  }
+  return result;
+}
+
+/**
+ * A client's sites and the buildings, floors and rooms inside them
+ */
+export default function ClientSitesPanel({ clientId }: ClientSitesPanelProps) {
+  const { success, error } = useToast();
+  const { confirm } = useConfirmModal();
+
+  const [sites, setSites] = useState<ClientSite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // null: form closed, 0: adding a site, otherwise the site being edited
+  const [editingSiteId, setEditingSiteId] = useState<number | null>(null);
+  const [form, setForm] = useState<SiteForm>(EMPTY_FORM);
+  const [zoneDraft, setZoneDraft] = useState<ZoneDraft | null>(null);
+  const [renaming, setRenaming] = useState<{ id: number; name: string } | null>(null);
+
+  const loadSites = useCallback(async () => {
+    try {
+      setSites(await fetchSites(clientId));
+    } catch (err) {
+      console.error('Error fetching sites:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    loadSites();
+  }, [loadSites]);
+
+  const openSiteForm = (site?: ClientSite) => {
+    setEditingSiteId(site ? site.id : 0);
+    setForm(site ? toForm(site) : EMPTY_FORM);
+  };
+
+  const handleSaveSite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = {
+      ...form,
+      latitude: form.latitude === '' ? null : Number(form.latitude),
+      longitude: form.longitude === '' ? null : Number(form.longitude)
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingSiteId) {
+        await send('PUT', API_ENDPOINTS.CLIENT_SITES.BY_ID(editingSiteId), payload);
+        success('Site updated');
+      } else {
+        await send('POST', API_ENDPOINTS.CLIENT_SITES.CREATE, { ...payload, client_id: clientId });
+        success('Site added');
+      }
+      setEditingSiteId(null);
+      await loadSites();
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to save site');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteSite = async (site: ClientSite) => {
+    const confirmed = await confirm({
+      title: 'Delete Site',
+      message: `Delete "${site.site_name}" and all of its buildings, floors and rooms?`,
+      confirmText: 'Delete',
+      type: 'danger'
+    });
+    if (!confirmed) return;
+
+    try {
+      await send('DELETE', API_ENDPOINTS.CLIENT_SITES.BY_ID(site.id));
+      success('Site deleted');
+      await loadSites();
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to delete site');
+    }
+  };
+
+  const handleAddZone = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!zoneDraft || !zoneDraft.name.trim()) return;
+
+    try {
+      await send('POST', API_ENDPOINTS.CLIENT_SITES.ZONES(zoneDraft.siteId), {
+        zone_type: zoneDraft.zoneType,
+        zone_name: zoneDraft.name.trim(),
+        parent_id: zoneDraft.parentId
+      });
+      setZoneDraft(null);
+      await loadSites();
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to add zone');
+    }
+  };
+
+  const handleRenameZone = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming || !renaming.name.trim()) return;
+
+    try {
+      await send('PUT', API_ENDPOINTS.CLIENT_SITES.ZONE(renaming.id), { zone_name: renaming.name.trim() });
+      setRenaming(null);
+      await loadSites();
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to rename zone');
+    }
+  };
+
+  const handleDeleteZone = async (zone: SiteZone) => {
+    const confirmed = await confirm({
+      title: 'Delete Zone',
+      message: `Delete "${zone.path}" and everything inside it?`,
+      confirmText: 'Delete',
+      type: 'danger'
+    });
+    if (!confirmed) return;
+
+    try {
+      await send('DELETE', API_ENDPOINTS.CLIENT_SITES.ZONE(zone.id));
+      success('Zone deleted');
+      await loadSites();
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to delete zone');
+    }
+  };
+
+  const renderZoneDraft = (siteId: number, parentId: number | null) => {
+    if (!zoneDraft || zoneDraft.siteId !== siteId || zoneDraft.parentId !== parentId) return null;
+
+    return (
+      <form onSubmit={handleAddZone} className={`flex items-center gap-2 py-2 ${ZONE_INDENT[zoneDraft.zoneType]}`}>
+        <input
+          type="text"
+          autoFocus
+          value={zoneDraft.name}
+          onChange={(e) => setZoneDraft({ ...zoneDraft, name: e.target.value })}
+          placeholder={`New ${zoneDraft.zoneType} name`}
+          maxLength={200}
+          className="input-field py-1 text-sm max-w-xs"
+        />
+        <button type="submit" className="btn-primary text-sm py-1">Add</button>
+        <button type="button" onClick={() => setZoneDraft(null)} className="btn-secondary text-sm py-1">Cancel</button>
+      </form>
+    );
+  };
+
+  const renderZone = (zone: SiteZone) => {
+    const childType = ZONE_CHILD_TYPE[zone.zone_type];
+
+    return (
+      <div key={zone.id}>
+        <div className={`flex items-center justify-between gap-4 py-2 ${ZONE_INDENT[zone.zone_type]}`}>
+          {renaming?.id === zone.id ? (
+            <form onSubmit={handleRenameZone} className="flex items-center gap-2">
+              <input
+                type="text"
+                autoFocus
+                value={renaming.name}
+                onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                maxLength={200}
+                className="input-field py-1 text-sm max-w-xs"
+              />
+              <button type="submit" className="btn-primary text-sm py-1">Save</button>
+              <button type="button" onClick={() => setRenaming(null)} className="btn-secondary text-sm py-1">Cancel</button>
+            </form>
+          ) : (
+            <p className="text-sm text-gray-900">
+              <span className="text-xs uppercase tracking-wide text-gray-400 mr-2">{zone.zone_type}</span>
+              {zone.zone_name}
+              {zone.equipment_count > 0 && (
+                <span className="ml-2 text-xs text-gray-500">({zone.equipment_count} equipment)</span>
+              )}
+            </p>
+          )}
+          <div className="flex items-center space-x-2">
+            {childType && (
+              <button
+                onClick={() => setZoneDraft({ siteId: zone.site_id, parentId: zone.id, zoneType: childType, name: '' })}
+                className="text-sm font-medium text-gray-600 hover:text-gray-900"
+              >
+                Add {childType}
+              </button>
+            )}
+            <button
+              onClick={() => setRenaming({ id: zone.id, name: zone.zone_name })}
+              className="p-1.5 text-gray-500 hover:text-gray-900"
+              title="Rename"
+            >
+              <PencilIcon className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => handleDeleteZone(zone)}
+              className="p-1.5 text-gray-400 hover:text-red-600"
+              title="Delete"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+        {renderZoneDraft(zone.site_id, zone.id)}
+      </div>
+    );
+  };
+
+  const field = (name: keyof SiteForm, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <div>
+      <label htmlFor={`site_${name}`} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        id={`site_${name}`}
+        value={form[name]}
+        onChange={(e) => setForm({ ...form, [name]: e.target.value })}
+        className="input-field"
+        {...props}
+      />
+    </div>
+  );
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading sites...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Sites ({sites.length})</h3>
+        {editingSiteId === null && (
+          <button onClick={() => openSiteForm()} className="btn-primary flex items-center space-x-2">
+            <PlusIcon className="h-4 w-4" />
+            <span>Add Site</span>
+          </button>
+        )}
+      </div>
+
+      {editingSiteId !== null && (
+        <form onSubmit={handleSaveSite} className="bg-gray-50 rounded-xl border border-gray-100 p-6 space-y-4">
+          <h4 className="text-base font-medium text-gray-900">{editingSiteId ? 'Edit Site' : 'New Site'}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {field('site_name', 'Site Name', { required: true, maxLength: 200 })}
+            {field('street_address', 'Street Address')}
+            {field('city', 'City')}
+            {field('state', 'State / Province')}
+            {field('zip_code', 'Postal Code')}
+            <div className="grid grid-cols-2 gap-4">
+              {field('latitude', 'Latitude', { type: 'number', step: 'any', min: -90, max: 90 })}
+              {field('longitude', 'Longitude', { type: 'number', step: 'any', min: -180, max: 180 })}
+            </div>
+            {field('contact_name', 'Contact Person')}
+            {field('contact_phone', 'Contact Phone', { type: 'tel' })}
+            {field('contact_email', 'Contact Email', { type: 'email' })}
+            {field('notes', 'Notes')}
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={() => setEditingSiteId(null)} className="btn-secondary" disabled={isSaving}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isSaving}>
+              {isSaving ? 'Saving...' : editingSiteId ? 'Save Site' : 'Add Site'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {sites.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg">
+          <MapPinIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-sm text-gray-500">No sites yet. Add one to start placing equipment.</p>
+        </div>
+      ) : (
+        sites.map(site => (
+          <div key={site.id} className="bg-white rounded-2xl border border-gray-100 p-6">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h4 className="text-base font-semibold text-gray-900 flex items-center">
+                  <MapPinIcon className="h-5 w-5 text-red-600 mr-2" />
+                  {site.site_name}
+                  <span className="ml-2 text-xs font-normal text-gray-500">{site.equipment_count} equipment</span>
+                </h4>
+                {formatSiteAddress(site) && <p className="text-sm text-gray-600 mt-1">{formatSiteAddress(site)}</p>}
+                {site.latitude !== null && site.longitude !== null && (
+                  <a
+                    href={`https://www.google.com/maps?q=${site.latitude},${site.longitude}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-red-600 hover:text-red-700"
+                  >
+                    {site.latitude}, {site.longitude}
+                  </a>
+                )}
+                {(site.contact_name || site.contact_phone || site.contact_email) && (
+                  <p className="text-sm text-gray-600 mt-1 flex items-center">
+                    <UserIcon className="h-4 w-4 mr-1 text-gray-400" />
+                    {[site.contact_name, site.contact_phone, site.contact_email].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setZoneDraft({ siteId: site.id, parentId: null, zoneType: 'building', name: '' })}
+                  className="text-sm font-medium text-gray-600 hover:text-gray-900"
+                >
+                  Add building
+                </button>
+                <button onClick={() => openSiteForm(site)} className="p-1.5 text-gray-500 hover:text-gray-900" title="Edit">
+                  <PencilIcon className="h-4 w-4" />
+                </button>
+                <button onClick={() => handleDeleteSite(site)} className="p-1.5 text-gray-400 hover:text-red-600" title="Delete">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+
+            {(site.zones.length > 0 || zoneDraft?.siteId === site.id) && (
+              <div className="mt-4 border-t border-gray-100 pt-2">
+                {/* Zones come parents-first, so each draft row lands under its parent */}
+                {site.zones.map(renderZone)}
+                {renderZoneDraft(site.id, null)}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import { ClientSite } from './sites';
+
+interface SiteFilterProps {
+  sites: ClientSite[];
+  value: string;
+  onChange: (siteId: string) => void;
+  // Group the options by client (vendors see every client's sites)
+  groupByClient?: boolean;
+}
+
+const SiteFilter: React.FC<SiteFilterProps> = ({ sites, value, onChange, groupByClient = false }) => {
+  const clients = groupByClient ? [...new Set(sites.map(site => site.client_name))] : [];
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="input-field appearance-none pr-8 min-w-[180px]"
+      aria-label="Filter by site"
+    >
+      <option value="">All Sites</option>
+      {groupByClient
+        ? clients.map(client => (
+            <optgroup key={client} label={client}>
+              {sites.filter(site => site.client_name === client).map(site => (
+                <option key={site.id} value={site.id}>{site.site_name}</option>
+              ))}
+            </optgroup>
+          ))
+        : sites.map(site => (
+            <option key={site.id} value={site.id}>{site.site_name}</option>
+          ))}
+    </select>
+  );
+};
+
+export default SiteFilter;
@@ -0,0 +1,57 @@
+import { API_ENDPOINTS, getAuthHeaders, logApiCall } from '@/config/api';
+
+export type ZoneType = 'building' | 'floor' | 'room';
+
+export interface SiteZone {
+  id: number;
+  site_id: number;
+  parent_id: number | null;
+  zone_type: ZoneType;
+  zone_name: string;
+  path: string;
+  equipment_count: number;
+}
+
+export interface ClientSite {
+  id: number;
+  client_id: number;
+  client_name: string;
+  site_name: string;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  zip_code: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  contact_name: string | null;
+  contact_phone: string | null;
+  contact_email: string | null;
+  notes: string | null;
+  equipment_count: number;
+  zones: SiteZone[];
+}
+
+// What each kind of zone is created inside
+export const ZONE_CHILD_TYPE: Record<ZoneType, ZoneType | null> = {
+  building: 'floor',
+  floor: 'room',
+  room: null,
+};
+
+export const formatSiteAddress = (site: ClientSite) =>
+  [site.street_address, site.city, site.state, site.zip_code].filter(Boolean).join(', ');
+
+/**
+ * Sites the signed-in user can see, optionally for one client (vendors only)
+ */
+export async function fetchSites(clientId?: number): Promise<ClientSite[]> {
+  const url = clientId ? `${API_ENDPOINTS.CLIENT_SITES.LIST}?client_id=${clientId}` : API_ENDPOINTS.CLIENT_SITES.LIST;
+  logApiCall('GET', url);
+  const response = await fetch(url, { headers: getAuthHeaders() });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || 'Failed to load sites');
+  }
+  return result.data || [];
+}
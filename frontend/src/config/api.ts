@@ -33,10 +33,14 @@ export const API_ENDPOINTS = {
   // Authentication
   AUTH: {
     LOGIN: `${API_BASE_URL}/auth/login`,
+    LOGIN_TWO_FACTOR: `${API_BASE_URL}/auth/login/two-factor`,
     LOGOUT: `${API_BASE_URL}/auth/logout`,
     VERIFY: `${API_BASE_URL}/auth/verify`,
     REFRESH: `${API_BASE_URL}/auth/refresh`,
     CHANGE_PASSWORD: `${API_BASE_URL}/auth/change-password`,
+    FORGOT_PASSWORD: `${API_BASE_URL}/auth/forgot-password`,
+    VERIFY_RESET_TOKEN: `${API_BASE_URL}/auth/reset-password/verify`,
+    RESET_PASSWORD: `${API_BASE_URL}/auth/reset-password`,
   },
   
   // Dashboard
@@ -76,6 +80,9 @@ export const API_ENDPOINTS = {
     RESET_PASSWORD: (id: string | number) => `${API_BASE_URL}/user-details/${id}/reset-password`,
     DELETION_CHECK: (id: string | number) => `${API_BASE_URL}/user-details/${id}/deletion-check`,
     DELETE: (id: string | number) => `${API_BASE_URL}/user-details/${id}`,
+    SESSIONS: (id: string | number) => `${API_BASE_URL}/user-details/${id}/sessions`,
+    SESSION: (id: string | number, sessionId: number) => `${API_BASE_URL}/user-details/${id}/sessions/${sessionId}`,
+    RESET_TWO_FACTOR: (id: string | number) => `${API_BASE_URL}/user-details/${id}/reset-two-factor`,
   },
   
   // Profile
@@ -85,6 +92,15 @@ export const API_ENDPOINTS = {
     CHANGE_PASSWORD: `${API_BASE_URL}/profile/change-password`,
     PASSWORD_POLICY: `${API_BASE_URL}/profile/password-policy`,
     PASSWORD_EXPIRED: `${API_BASE_URL}/profile/password-expired`,
+    SESSIONS: `${API_BASE_URL}/profile/sessions`,
+    SESSION: (sessionId: number) => `${API_BASE_URL}/profile/sessions/${sessionId}`,
+    REVOKE_OTHER_SESSIONS: `${API_BASE_URL}/profile/sessions/revoke-others`,
+    TWO_FACTOR: `${API_BASE_URL}/profile/two-factor`,
+    TWO_FACTOR_SETUP: `${API_BASE_URL}/profile/two-factor/setup`,
+    TWO_FACTOR_ENABLE: `${API_BASE_URL}/profile/two-factor/enable`,
+    TWO_FACTOR_DISABLE: `${API_BASE_URL}/profile/two-factor/disable`,
+    TWO_FACTOR_RECOVERY_CODES: `${API_BASE_URL}/profile/two-factor/recovery-codes`,
+    NOTIFICATION_PREFERENCES: `${API_BASE_URL}/profile/notification-preferences`,
   },
   
   // Settings
@@ -95,6 +111,17 @@ export const API_ENDPOINTS = {
     UPDATE: `${API_BASE_URL}/settings`,
     BULK_UPDATE: `${API_BASE_URL}/settings/bulk`,
   },
+
+  // Roles & Permissions
+  PERMISSIONS: {
+    ALL: `${API_BASE_URL}/permissions`,
+    ME: `${API_BASE_URL}/permissions/me`,
+    ROLES: `${API_BASE_URL}/permissions/roles`,
+    ROLE_BY_ID: (roleId: string | number) => `${API_BASE_URL}/permissions/roles/${roleId}`,
+    ROLE_PERMISSION: (roleId: string | number, permissionId: string | number) =>
+      `${API_BASE_URL}/permissions/roles/${roleId}/permissions/${permissionId}`,
+    USER_ROLE: (userId: string | number) => `${API_BASE_URL}/permissions/users/${userId}/role`,
+  },
   
   // Admin Analytics
   ADMIN_ANALYTICS: {
@@ -150,6 +177,13 @@ export const API_ENDPOINTS = {
     ASSIGN: `${API_BASE_URL}/equipment/assign`,
     ASSIGN_SINGLE: (id: string | number) => `${API_BASE_URL}/equipment/${id}/assign`,
     REMOVE_ASSIGNMENT: (id: string | number) => `${API_BASE_URL}/equipment/${id}/remove-assignment`,
+    LABELS: (typeId: string | number) => `${API_BASE_URL}/equipment/types/${typeId}/labels`,
+    IMPORT: `${API_BASE_URL}/equipment/import`,
+  },
+
+  // QR asset label scans
+  SCAN: {
+    EQUIPMENT: (instanceId: string | number) => `${API_BASE_URL}/scan/equipment/${instanceId}`,
   },
 
   // Clients (Vendor-specific)
@@ -162,6 +196,34 @@ export const API_ENDPOINTS = {
     DELETE: (id: string | number) => `${API_BASE_URL}/vendor/clients/${id}`,
     EQUIPMENT: (id: string | number) => `${API_BASE_URL}/vendor/clients/${id}/equipment`,
     MAINTENANCE: (id: string | number) => `${API_BASE_URL}/vendor/clients/${id}/maintenance`,
+    IMPORT: `${API_BASE_URL}/vendor/clients/import`,
+    EXPORT: `${API_BASE_URL}/vendor/clients/export`,
+  },
+
+  // Client sites, their building/floor/room zones and equipment placement
+  CLIENT_SITES: {
+    LIST: `${API_BASE_URL}/client-sites`,
+    CREATE: `${API_BASE_URL}/client-sites`,
+    BY_ID: (id: string | number) => `${API_BASE_URL}/client-sites/${id}`,
+    ZONES: (siteId: string | number) => `${API_BASE_URL}/client-sites/${siteId}/zones`,
+    ZONE: (zoneId: string | number) => `${API_BASE_URL}/client-sites/zones/${zoneId}`,
+    PLACEMENT: (instanceId: string | number) => `${API_BASE_URL}/client-sites/equipment/${instanceId}`,
+  },
+
+  // Equipment return and swap requests (clients request, vendors review)
+  EQUIPMENT_RETURNS: {
+    LIST: `${API_BASE_URL}/equipment-returns`,
+    CREATE: `${API_BASE_URL}/equipment-returns`,
+    BY_ID: (id: string | number) => `${API_BASE_URL}/equipment-returns/${id}`,
+    APPROVE: (id: string | number) => `${API_BASE_URL}/equipment-returns/${id}/approve`,
+    REJECT: (id: string | number) => `${API_BASE_URL}/equipment-returns/${id}/reject`,
+    COMPLETE: (id: string | number) => `${API_BASE_URL}/equipment-returns/${id}/complete`,
+  },
+
+  // Lifecycle ledger per equipment instance (vendor and client)
+  EQUIPMENT_LIFECYCLE: {
+    TIMELINE: (instanceId: string | number) => `${API_BASE_URL}/equipment-lifecycle/${instanceId}`,
+    EXPORT: (instanceId: string | number, format: 'pdf' | 'csv') => `${API_BASE_URL}/equipment-lifecycle/${instanceId}/export?format=${format}`,
   },
 
   // Maintenance Tickets (Vendor-specific)
@@ -179,6 +241,96 @@ export const API_ENDPOINTS = {
     EQUIPMENT: `${API_BASE_URL}/vendor/tickets/equipment`,
     EQUIPMENT_FOR_CLIENT: (clientId: string | number) => `${API_BASE_URL}/vendor/tickets/equipment/${clientId}`,
     TECHNICIANS: `${API_BASE_URL}/vendor/tickets/technicians`,
+    CHECKLIST: (id: string | number) => `${API_BASE_URL}/vendor/tickets/${id}/checklist`,
+    PARTS: (id: string | number) => `${API_BASE_URL}/vendor/tickets/${id}/parts`,
+    CALENDAR: `${API_BASE_URL}/vendor/tickets/calendar`,
+    CALENDAR_FEED: `${API_BASE_URL}/vendor/tickets/calendar/feed`,
+    CALENDAR_FEED_ROTATE: `${API_BASE_URL}/vendor/tickets/calendar/feed/rotate`,
+  },
+
+  // Inspection Checklists (Vendor-specific)
+  CHECKLISTS: {
+    LIST: `${API_BASE_URL}/vendor/checklists`,
+    CREATE: `${API_BASE_URL}/vendor/checklists`,
+    EQUIPMENT_TYPES: `${API_BASE_URL}/vendor/checklists/equipment-types`,
+    BY_ID: (id: string | number) => `${API_BASE_URL}/vendor/checklists/${id}`,
+    UPDATE: (id: string | number) => `${API_BASE_URL}/vendor/checklists/${id}`,
+    DELETE: (id: string | number) => `${API_BASE_URL}/vendor/checklists/${id}`,
+  },
+
+  // Maintenance plans (recurring schedules per equipment type or instance)
+  MAINTENANCE_PLANS: {
+    CREATE: `${API_BASE_URL}/vendor/maintenance-plans`,
+    EQUIPMENT: (equipmentId: string | number) => `${API_BASE_URL}/vendor/maintenance-plans/equipment-types/${equipmentId}`,
+    INSTANCE: (instanceId: string | number) => `${API_BASE_URL}/vendor/maintenance-plans/equipment-instances/${instanceId}`,
+    UPDATE: (id: string | number) => `${API_BASE_URL}/vendor/maintenance-plans/${id}`,
+    DELETE: (id: string | number) => `${API_BASE_URL}/vendor/maintenance-plans/${id}`,
+  },
+
+  // Spare parts and consumables catalog with stock levels
+  PARTS: {
+    LIST: `${API_BASE_URL}/parts`,
+    CREATE: `${API_BASE_URL}/parts`,
+    BY_ID: (id: string | number) => `${API_BASE_URL}/parts/${id}`,
+    UPDATE: (id: string | number) => `${API_BASE_URL}/parts/${id}`,
+    STOCK: (id: string | number) => `${API_BASE_URL}/parts/${id}/stock`,
+  },
+
+  // Client service contracts with SLA targets
+  SERVICE_CONTRACTS: {
+    LIST: `${API_BASE_URL}/service-contracts`,
+    CREATE: `${API_BASE_URL}/service-contracts`,
+    BY_ID: (id: string | number) => `${API_BASE_URL}/service-contracts/${id}`,
+    UPDATE: (id: string | number) => `${API_BASE_URL}/service-contracts/${id}`,
+    CLIENT_EQUIPMENT: (clientId: string | number) => `${API_BASE_URL}/service-contracts/clients/${clientId}/equipment`,
+  },
+
+  // Price lists, quotes and invoices
+  BILLING: {
+    PRICE_LIST: `${API_BASE_URL}/billing/price-list`,
+    PRICE_LIST_ITEM: (id: string | number) => `${API_BASE_URL}/billing/price-list/${id}`,
+    TICKET_DRAFT_LINES: (ticketId: string | number) => `${API_BASE_URL}/billing/tickets/${ticketId}/draft-lines`,
+    RENTAL_DRAFT_LINES: `${API_BASE_URL}/billing/rentals/draft-lines`,
+    QUOTES: `${API_BASE_URL}/billing/quotes`,
+    QUOTE: (id: string | number) => `${API_BASE_URL}/billing/quotes/${id}`,
+    QUOTE_SEND: (id: string | number) => `${API_BASE_URL}/billing/quotes/${id}/send`,
+    QUOTE_ACCEPT: (id: string | number) => `${API_BASE_URL}/billing/quotes/${id}/accept`,
+    QUOTE_DECLINE: (id: string | number) => `${API_BASE_URL}/billing/quotes/${id}/decline`,
+    QUOTE_PDF: (id: string | number) => `${API_BASE_URL}/billing/quotes/${id}/pdf`,
+    INVOICES: `${API_BASE_URL}/billing/invoices`,
+    INVOICE: (id: string | number) => `${API_BASE_URL}/billing/invoices/${id}`,
+    INVOICE_ISSUE: (id: string | number) => `${API_BASE_URL}/billing/invoices/${id}/issue`,
+    INVOICE_PAYMENTS: (id: string | number) => `${API_BASE_URL}/billing/invoices/${id}/payments`,
+    INVOICE_VOID: (id: string | number) => `${API_BASE_URL}/billing/invoices/${id}/void`,
+    INVOICE_PDF: (id: string | number) => `${API_BASE_URL}/billing/invoices/${id}/pdf`,
+  },
+
+  // Technician Accounts (Vendor-specific)
+  TECHNICIANS: {
+    LIST: `${API_BASE_URL}/vendor/technicians`,
+    CREATE: `${API_BASE_URL}/vendor/technicians`,
+    BY_ID: (id: string | number) => `${API_BASE_URL}/vendor/technicians/${id}`,
+    UPDATE: (id: string | number) => `${API_BASE_URL}/vendor/technicians/${id}`,
+  },
+
+  // Assigned Tickets (Technician-specific)
+  TECHNICIAN_TICKETS: {
+    LIST: `${API_BASE_URL}/technician/tickets`,
+    BY_ID: (id: string | number) => `${API_BASE_URL}/technician/tickets/${id}`,
+    UPDATE: (id: string | number) => `${API_BASE_URL}/technician/tickets/${id}`,
+    RESOLVE: (id: string | number) => `${API_BASE_URL}/technician/tickets/${id}/resolve`,
+    CHECKLIST: (id: string | number) => `${API_BASE_URL}/technician/tickets/${id}/checklist`,
+    PARTS: (id: string | number) => `${API_BASE_URL}/technician/tickets/${id}/parts`,
+    CALENDAR_FEED: `${API_BASE_URL}/technician/tickets/calendar/feed`,
+    CALENDAR_FEED_ROTATE: `${API_BASE_URL}/technician/tickets/calendar/feed/rotate`,
+  },
+
+  // Ticket and Equipment Instance Attachments
+  ATTACHMENTS: {
+    TICKET: (id: string | number) => `${API_BASE_URL}/attachments/tickets/${id}`,
+    EQUIPMENT_INSTANCE: (id: string | number) => `${API_BASE_URL}/attachments/equipment-instances/${id}`,
+    DOWNLOAD: (id: string | number) => `${API_BASE_URL}/attachments/${id}/download`,
+    DELETE: (id: string | number) => `${API_BASE_URL}/attachments/${id}`,
   },
 
   // Reports and Analytics
@@ -201,7 +353,10 @@ export const API_ENDPOINTS = {
     EQUIPMENT_PERFORMANCE: `${API_BASE_URL}/reports/equipment-performance`,
     MAINTENANCE_BACKLOG: `${API_BASE_URL}/reports/maintenance-backlog`,
     REVENUE_BY_CLIENT: `${API_BASE_URL}/reports/revenue-by-client`,
+    REVENUE_ANALYTICS: `${API_BASE_URL}/reports/revenue-analytics`,
+    RECEIVABLES: `${API_BASE_URL}/reports/receivables`,
     COMPLIANCE_ISSUES: `${API_BASE_URL}/reports/compliance-issues`,
+    PARTS_USAGE: `${API_BASE_URL}/reports/parts-usage`,
     UPCOMING_MAINTENANCE: `${API_BASE_URL}/reports/upcoming-maintenance`,
     CLIENTS_DROPDOWN: `${API_BASE_URL}/reports/clients-dropdown`,
     EQUIPMENT_TYPES_DROPDOWN: `${API_BASE_URL}/reports/equipment-types-dropdown`,
@@ -216,6 +371,7 @@ export const API_ENDPOINTS = {
     MARK_READ: (id: string | number) => `${API_BASE_URL}/notifications/${id}/read`,
     MARK_ALL_READ: `${API_BASE_URL}/notifications/mark-all-read`,
     ARCHIVE: (id: string | number) => `${API_BASE_URL}/notifications/${id}/archive`,
+    STREAM: `${API_BASE_URL}/notifications/stream`,
   },
 
   // Emergency Warnings
@@ -234,6 +390,36 @@ export const API_ENDPOINTS = {
     TEST: `${API_BASE_URL}/sms/test`,
   },
 
+  // Message Queue (outbound email and SMS)
+  MESSAGE_QUEUE: {
+    LIST: `${API_BASE_URL}/message-queue`,
+    STATS: `${API_BASE_URL}/message-queue/stats`,
+    BY_ID: (id: string | number) => `${API_BASE_URL}/message-queue/${id}`,
+    RETRY: (id: string | number) => `${API_BASE_URL}/message-queue/${id}/retry`,
+    CANCEL: (id: string | number) => `${API_BASE_URL}/message-queue/${id}/cancel`,
+  },
+
+  // Email (scheduled compliance digest)
+  EMAIL: {
+    DIGEST_SETTINGS: `${API_BASE_URL}/email/digest-settings`,
+    TRIGGER_DIGEST: `${API_BASE_URL}/email/trigger/compliance-digest`,
+  },
+
+  // Message Templates (editable email and SMS wording)
+  MESSAGE_TEMPLATES: {
+    LIST: `${API_BASE_URL}/message-templates`,
+    BY_TYPE: (channel: string, templateType: string) => `${API_BASE_URL}/message-templates/${channel}/${templateType}`,
+    PREVIEW: (channel: string, templateType: string) => `${API_BASE_URL}/message-templates/${channel}/${templateType}/preview`,
+    ROLLBACK: (channel: string, templateType: string) => `${API_BASE_URL}/message-templates/${channel}/${templateType}/rollback`,
+  },
+
+  // Vendor white-label branding
+  BRANDING: {
+    CURRENT: `${API_BASE_URL}/branding`,
+    VENDOR: `${API_BASE_URL}/branding/vendor`,
+    VENDOR_LOGO: `${API_BASE_URL}/branding/vendor/logo`,
+  },
+
   // Client Views (for client users)
   CLIENT: {
     DASHBOARD: {
@@ -353,7 +539,7 @@ export const secureFetch = async (
       }
       
       // Handle session expiry
-      if (data.code === 'SESSION_EXPIRED' || data.code === 'SESSION_INVALID') {
+      if (data.code === 'SESSION_EXPIRED' || data.code === 'SESSION_INVALID' || data.code === 'SESSION_REVOKED') {
         if (typeof window !== 'undefined') {
           localStorage.removeItem('token');
           localStorage.removeItem('user');
@@ -362,6 +548,14 @@ export const secureFetch = async (
         throw new Error(data.message);
       }
       
+      // Handle required two-factor enrollment
+      if (data.code === 'TWO_FACTOR_SETUP_REQUIRED') {
+        if (typeof window !== 'undefined') {
+          window.location.href = '/profile?tab=security&twoFactor=required';
+        }
+        throw new Error(data.message);
+      }
+      
       // Handle required password change
       if (data.code === 'PASSWORD_CHANGE_REQUIRED') {
         if (typeof window !== 'undefined') {
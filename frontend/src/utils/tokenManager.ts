@@ -12,6 +12,7 @@ interface TokenPayload {
   user_type: string;
   role_id?: number;
   vendorId?: number;
+  sessionId?: string;
   iat: number;  // Issued at (seconds since epoch)
   exp: number;  // Expiration (seconds since epoch)
 }